@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Compiles the JSON model manifests under src/lib/models/manifests into
+ * supabase/functions/_shared/model-manifests.generated.ts, read by both the
+ * client registry and the edge MODEL_METADATA.
+ *
+ * Usage:
+ *   npm run compile:model-manifests            # regenerate
+ *   npm run compile:model-manifests -- --check # fail if the output is stale
+ */
+
+import { readFileSync, writeFileSync, readdirSync, existsSync } from 'fs';
+import { join, relative } from 'path';
+import { validateModelManifest, type ModelManifest } from '../supabase/functions/_shared/model-manifest.ts';
+
+const MANIFEST_DIR = 'src/lib/models/manifests';
+const OUTPUT_FILE = 'supabase/functions/_shared/model-manifests.generated.ts';
+
+function findManifestFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return findManifestFiles(path);
+      return entry.name.endsWith('.json') ? [path] : [];
+    })
+    .sort();
+}
+
+function loadManifests(): ModelManifest[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+
+  const manifests = findManifestFiles(MANIFEST_DIR).map(file => {
+    const source = relative('.', file).split('\\').join('/');
+    const manifest: ModelManifest = { source, ...JSON.parse(readFileSync(file, 'utf-8')) };
+
+    for (const error of validateModelManifest(manifest)) errors.push(`${source}: ${error}`);
+
+    const duplicate = seen.get(manifest.config.recordId);
+    if (duplicate) errors.push(`${source}: recordId ${manifest.config.recordId} is already used by ${duplicate}`);
+    seen.set(manifest.config.recordId, source);
+
+    return manifest;
+  });
+
+  if (errors.length > 0) {
+    console.error(`✗ ${errors.length} manifest error(s):\n  ${errors.join('\n  ')}`);
+    process.exit(1);
+  }
+
+  return manifests;
+}
+
+function render(manifests: ModelManifest[]): string {
+  return `/**
+ * GENERATED by scripts/compile-model-manifests.ts - do not edit.
+ * Edit the JSON manifests under ${MANIFEST_DIR} and re-run the script.
+ */
+
+import type { ModelManifest } from "./model-manifest.ts";
+
+export const MODEL_MANIFESTS: readonly ModelManifest[] = ${JSON.stringify(manifests, null, 2)};
+`;
+}
+
+const manifests = loadManifests();
+const output = render(manifests);
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, 'utf-8') : '';
+  if (current !== output) {
+    console.error(`✗ ${OUTPUT_FILE} is out of date. Run: npm run compile:model-manifests`);
+    process.exit(1);
+  }
+  console.log(`✓ ${OUTPUT_FILE} is up to date (${manifests.length} manifests)`);
+} else {
+  writeFileSync(OUTPUT_FILE, output, 'utf-8');
+  console.log(`✓ Compiled ${manifests.length} manifests into ${OUTPUT_FILE}`);
+}
@@ -0,0 +1,289 @@
+/**
+ * FFmpeg render worker for the video editor
+ *
+ * Claims video editor jobs submitted with the `ffmpeg` backend, downloads
+ * their media, renders the stored Shotstack edit with FFmpeg in the job's
+ * export format and uploads the result to storage (PNG sequences as a ZIP).
+ * Job status moves through the same stages as Shotstack renders (fetching →
+ * rendering → saving → done), so the editor follows both the same way.
+ * Failed jobs are refunded.
+ *
+ * A claimed job is held on a lease the worker renews every
+ * LEASE_RENEW_INTERVAL_MS while it works. If the lease runs out (the worker
+ * died or lost its connection) another worker claims the job, and this one
+ * stops rendering it without completing, failing or refunding it.
+ *
+ * Edits with features the worker doesn't render (see
+ * getFfmpegUnsupportedFeatures) are never queued for it.
+ *
+ * Usage:
+ *   deno run --allow-net --allow-env --allow-run --allow-read --allow-write \
+ *     scripts/ffmpeg-render-worker.ts
+ *
+ * Environment:
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  - project to pull jobs from
+ *   FFMPEG_PATH, FFPROBE_PATH                - binaries (default: from PATH)
+ *   FFMPEG_WORKER_ID                         - name recorded on claimed jobs
+ *   FFMPEG_POLL_INTERVAL_MS                  - idle wait between claims (default 5000)
+ *
+ * Set FFMPEG_RENDER_WORKER_ENABLED=true on the edge functions once a worker
+ * is running, otherwise `ffmpeg` and `auto` requests stay on Shotstack.
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { buildFfmpegArgs, buildFfmpegRenderPlan, type RenderEdit } from "../supabase/functions/_shared/render-backends.ts";
+import { EXPORT_FORMATS, isExportFormat, type ExportOptions } from "../supabase/functions/_shared/export-formats.ts";
+import { uploadToStorage } from "../supabase/functions/_shared/storage.ts";
+
+const FFMPEG_PATH = Deno.env.get("FFMPEG_PATH") ?? "ffmpeg";
+const FFPROBE_PATH = Deno.env.get("FFPROBE_PATH") ?? "ffprobe";
+const WORKER_ID = Deno.env.get("FFMPEG_WORKER_ID") ?? `ffmpeg-${Deno.hostname()}-${Deno.pid}`;
+const POLL_INTERVAL_MS = Number(Deno.env.get("FFMPEG_POLL_INTERVAL_MS") ?? 5000);
+const SIGNED_URL_SECONDS = 60 * 60 * 24 * 7;
+const LEASE_SECONDS = 120;
+const LEASE_RENEW_INTERVAL_MS = 30_000;
+
+interface ClaimedJob {
+  id: string;
+  user_id: string;
+  cost_credits: number | null;
+  render_payload: RenderEdit | null;
+  output_settings: { format?: string; exportOptions?: Partial<ExportOptions> } | null;
+}
+
+// The job's lease ran out and another worker may have claimed it
+class JobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} is no longer held by this worker`);
+    this.name = "JobLostError";
+  }
+}
+
+let stopping = false;
+
+const log = (message: string, ...rest: unknown[]) => console.log(`[ffmpeg-render-worker] ${message}`, ...rest);
+
+// Renew the job's lease, moving it to `status` when given
+async function renewLease(supabase: SupabaseClient, jobId: string, status?: string): Promise<void> {
+  const { data: held, error } = await supabase.rpc("renew_video_editor_render_lease", {
+    p_job_id: jobId,
+    p_worker_id: WORKER_ID,
+    p_status: status ?? null,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+  if (error) throw new Error(`Failed to renew the job lease: ${error.message}`);
+  if (!held) throw new JobLostError(jobId);
+}
+
+async function run(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+  const { code, stdout, stderr } = await new Deno.Command(command, { args, stdout: "piped", stderr: "piped", signal }).output();
+  signal?.throwIfAborted();
+  if (code !== 0) {
+    const message = new TextDecoder().decode(stderr).trim().split("\n").slice(-5).join("\n");
+    throw new Error(`${command} exited with code ${code}: ${message}`);
+  }
+  return new TextDecoder().decode(stdout);
+}
+
+async function download(src: string, path: string, signal?: AbortSignal): Promise<void> {
+  const response = await fetch(src, { signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${src}: ${response.status}`);
+  }
+  const file = await Deno.open(path, { write: true, create: true, truncate: true });
+  await response.body.pipeTo(file.writable);
+}
+
+async function hasAudioStream(path: string, signal?: AbortSignal): Promise<boolean> {
+  const output = await run(FFPROBE_PATH, [
+    "-v", "error",
+    "-select_streams", "a",
+    "-show_entries", "stream=index",
+    "-of", "csv=p=0",
+    path,
+  ], signal);
+  return output.trim().length > 0;
+}
+
+// Zip the numbered frames of a PNG sequence, in order
+async function zipFrames(dir: string): Promise<Uint8Array> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && entry.name.endsWith(".png")) names.push(entry.name);
+  }
+  if (names.length === 0) throw new Error("FFmpeg produced no frames");
+  const zip = new JSZip();
+  for (const name of names.sort()) {
+    zip.file(name, await Deno.readFile(`${dir}/${name}`));
+  }
+  return await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+async function renderJob(supabase: SupabaseClient, job: ClaimedJob, signal: AbortSignal): Promise<void> {
+  if (!job.render_payload) throw new Error("Job has no edit to render");
+  const requestedFormat = job.output_settings?.format ?? "mp4";
+  if (!isExportFormat(requestedFormat)) throw new Error(`Unknown export format: ${requestedFormat}`);
+  const format = requestedFormat;
+  const planOptions = { format, exportOptions: job.output_settings?.exportOptions };
+  const workDir = await Deno.makeTempDir({ prefix: `render-${job.id}-` });
+
+  try {
+    // Download each distinct source once; the plan may use one file several times
+    const planWithoutProbe = buildFfmpegRenderPlan(job.render_payload, planOptions);
+    const localPaths = new Map<string, string>();
+    for (const input of planWithoutProbe.inputs) {
+      if (localPaths.has(input.src)) continue;
+      const extension = new URL(input.src).pathname.split(".").pop() ?? "bin";
+      const path = `${workDir}/${localPaths.size}.${extension}`;
+      await download(input.src, path, signal);
+      localPaths.set(input.src, path);
+    }
+
+    const withAudio = new Set<string>();
+    for (const [src, path] of localPaths) {
+      if (await hasAudioStream(path, signal)) withAudio.add(src);
+    }
+
+    await renewLease(supabase, job.id, "rendering");
+    const plan = buildFfmpegRenderPlan(job.render_payload, { ...planOptions, hasAudio: src => withAudio.has(src) });
+    const outputDir = `${workDir}/output`;
+    await Deno.mkdir(outputDir);
+    const outputPath = `${outputDir}/${plan.outputName}`;
+    const startedAt = Date.now();
+    await run(FFMPEG_PATH, buildFfmpegArgs(plan, plan.inputs.map(input => localPaths.get(input.src)!), outputPath), signal);
+    log(`Rendered job ${job.id} as ${format} (${plan.duration}s) in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+
+    await renewLease(supabase, job.id, "saving");
+    const spec = EXPORT_FORMATS[format];
+    // Per-worker folder, so a worker that lost the job never touches the
+    // output of the one that took it over
+    const storagePath = await uploadToStorage(
+      supabase,
+      job.user_id,
+      `${job.id}/${WORKER_ID.replace(/[^\w.-]/g, "_")}`,
+      format === "png-sequence" ? await zipFrames(outputDir) : await Deno.readFile(outputPath),
+      spec.extension,
+      spec.contentType
+    );
+    const { data: signed, error: signError } = await supabase.storage
+      .from("generated-content")
+      .createSignedUrl(storagePath, SIGNED_URL_SECONDS);
+    if (signError || !signed) throw new Error(`Failed to sign output URL: ${signError?.message}`);
+
+    const { data: completed, error } = await supabase.rpc("complete_video_editor_render_job", {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_final_video_url: signed.signedUrl,
+    });
+    if (error) throw new Error(`Failed to complete job: ${error.message}`);
+    if (!completed) {
+      await supabase.storage.from("generated-content").remove([storagePath]);
+      throw new JobLostError(job.id);
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => undefined);
+  }
+}
+
+async function failJob(supabase: SupabaseClient, job: ClaimedJob, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[ffmpeg-render-worker] Job ${job.id} failed:`, message);
+
+  // Fails and refunds in one step, and only while this worker holds the job
+  const { data: failed, error: failError } = await supabase.rpc("fail_video_editor_render_job", {
+    p_job_id: job.id,
+    p_worker_id: WORKER_ID,
+    p_error_message: message,
+  });
+  if (failError) {
+    console.error(`[ffmpeg-render-worker] Could not fail job ${job.id}:`, failError.message);
+  } else if (!failed) {
+    log(`Job ${job.id} was taken over by another worker; leaving it as is`);
+  }
+}
+
+// Render a claimed job while renewing its lease; a lost lease stops the render
+async function processJob(supabase: SupabaseClient, job: ClaimedJob): Promise<void> {
+  const controller = new AbortController();
+  let lost: JobLostError | null = null;
+  const renewal = setInterval(() => {
+    renewLease(supabase, job.id).catch(error => {
+      if (!(error instanceof JobLostError)) {
+        console.error("[ffmpeg-render-worker]", error.message);
+        return;
+      }
+      lost = error;
+      controller.abort(error);
+    });
+  }, LEASE_RENEW_INTERVAL_MS);
+
+  try {
+    await renderJob(supabase, job, controller.signal);
+    log(`Job ${job.id} done`);
+  } catch (error) {
+    const lostError = lost ?? (error instanceof JobLostError ? error : null);
+    if (lostError) {
+      log(lostError.message);
+      return;
+    }
+    await failJob(supabase, job, error);
+  } finally {
+    clearInterval(renewal);
+  }
+}
+
+async function claimJob(supabase: SupabaseClient): Promise<ClaimedJob | null> {
+  const { data, error } = await supabase.rpc("claim_video_editor_render_job", {
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+  if (error) throw new Error(`Failed to claim job: ${error.message}`);
+  return (data as ClaimedJob[] | null)?.[0] ?? null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main(): Promise<void> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseKey) {
+    console.error("[ffmpeg-render-worker] SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+    Deno.exit(1);
+  }
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  // Finish the job in hand, then exit
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    Deno.addSignalListener(signal, () => {
+      log(`${signal} received, stopping after the current job`);
+      stopping = true;
+    });
+  }
+
+  await run(FFMPEG_PATH, ["-version"]);
+  log(`Worker ${WORKER_ID} polling for jobs`);
+
+  while (!stopping) {
+    let job: ClaimedJob | null;
+    try {
+      job = await claimJob(supabase);
+    } catch (error) {
+      console.error("[ffmpeg-render-worker]", error instanceof Error ? error.message : error);
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    log(`Claimed job ${job.id}`);
+    await processJob(supabase, job);
+  }
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+const NarrativeFormatsManager = dynamic(() => import('@/views/admin/NarrativeFormatsManager'), { ssr: false });
+
+export default function NarrativeFormatsManagerPage() {
+  return <NarrativeFormatsManager />;
+}
@@ -0,0 +1,126 @@
+/**
+ * Admin panel showing where the client model registry and the edge
+ * functions disagree on metadata, validation, payloads and cost
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DriftIssue, DriftKind, RegistryDriftReport } from '@/lib/models/registry-drift';
+
+const KIND_LABELS: Record<DriftKind, string> = {
+  metadata: 'Metadata',
+  generation_type: 'Generation Type',
+  validation: 'Validation',
+  cost: 'Cost',
+  payload: 'Payload',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function describeIssue(issue: DriftIssue): string {
+  const scope = [issue.case, issue.field].filter(Boolean).join(' · ');
+  return `${scope ? `${scope}: ` : ''}client ${formatValue(issue.client)} → edge ${formatValue(issue.edge)}`;
+}
+
+export function RegistryDriftPanel() {
+  const [report, setReport] = useState<RegistryDriftReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [expandedModel, setExpandedModel] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setRunning(true);
+    try {
+      // Loaded on demand: the harness pulls in the edge metadata and pipeline
+      const { buildRegistryDriftReport } = await import('@/lib/models/registry-drift');
+      const result = buildRegistryDriftReport();
+      setReport(result);
+      if (result.driftedModelCount === 0) {
+        toast.success('Client and edge registries agree');
+      } else {
+        toast.warning(`${String(result.driftedModelCount)} models drift between client and edge`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Drift check failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Registry Drift
+          </CardTitle>
+          <CardDescription>
+            Runs every model's schema enum and boundary values through the client model file and the
+            generate-content pipeline
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => void runCheck()} disabled={running}>
+          {running ? 'Checking...' : 'Check Drift'}
+        </Button>
+      </CardHeader>
+      {report && (
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {report.driftedModelCount === 0 ? (
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+            )}
+            <span>
+              {report.driftedModelCount} of {report.modelCount} models drift across {report.casesChecked} cases
+            </span>
+            {(Object.keys(KIND_LABELS) as DriftKind[]).map(kind => (
+              <Badge key={kind} variant={report.issueCounts[kind] > 0 ? 'destructive' : 'secondary'}>
+                {KIND_LABELS[kind]}: {report.issueCounts[kind]}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="divide-y rounded-md border">
+            {report.models.map(model => (
+              <div key={model.recordId}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-muted/50"
+                  onClick={() => { setExpandedModel(expandedModel === model.recordId ? null : model.recordId); }}
+                >
+                  {expandedModel === model.recordId ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                  <span className="font-medium">{model.modelName}</span>
+                  <Badge variant="outline">{model.provider}</Badge>
+                  <span className="ml-auto text-muted-foreground">{model.issues.length} issues</span>
+                </button>
+                {expandedModel === model.recordId && (
+                  <ul className="space-y-1 px-9 pb-3 text-xs">
+                    {model.issues.map((issue, index) => (
+                      <li key={index}>
+                        <Badge variant="secondary" className="mr-2">{KIND_LABELS[issue.kind]}</Badge>
+                        <span className="text-muted-foreground">{issue.message}</span>
+                        <span className="ml-2 font-mono">{describeIssue(issue)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,13 +1,11 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect } from 'react';
 import {
   ReactFlow,
-  Node,
   Edge,
   Controls,
   Background,
   useNodesState,
   useEdgesState,
-  addEdge,
   Connection,
   NodeTypes,
 } from '@xyflow/react';
@@ -17,6 +15,15 @@ import { Card } from '@/components/ui/card';
 import { Plus, Settings } from 'lucide-react';
 import { WorkflowStep, UserInputField } from '@/hooks/useWorkflowTemplates';
 import { AIModel } from '@/hooks/useTemplates';
+import { toast } from 'sonner';
+import { validateWorkflowGraph } from '@shared/workflow-graph';
+import {
+  buildWorkflowGraph,
+  parseStepNodeId,
+  addStepDependency,
+  removeStepDependency,
+  describeStepCondition,
+} from '@/lib/workflow/workflow-graph-layout';
 
 interface WorkflowBuilderProps {
   steps: WorkflowStep[];
@@ -45,6 +52,12 @@ const StepNode = ({ data }: { data: { step: WorkflowStep; onEdit: (step: Workflo
       <p className="text-xs text-muted-foreground line-clamp-2">
         {data.step.prompt_template}
       </p>
+      {data.step.parallel_group && (
+        <p className="text-xs text-muted-foreground">Parallel: {data.step.parallel_group}</p>
+      )}
+      {data.step.run_if && (
+        <p className="text-xs text-muted-foreground italic">{describeStepCondition(data.step.run_if)}</p>
+      )}
       <p className="text-xs text-primary">Output: {data.step.output_key}</p>
     </div>
   </Card>
@@ -85,65 +98,59 @@ export function WorkflowBuilder({
   availableModels,
   onEditStep,
 }: WorkflowBuilderProps) {
-  // Convert steps to React Flow nodes and edges
-  const createNodesAndEdges = useCallback(() => {
-    const nodes: Node[] = [];
-    const edges: Edge[] = [];
-
-    // User input node
-    nodes.push({
-      id: 'user-input',
-      type: 'userInput',
-      position: { x: 250, y: 50 },
-      data: { fields: userInputFields },
-    });
-
-    // Step nodes
-    steps.forEach((step, index) => {
-      nodes.push({
-        id: `step-${step.step_number}`,
-        type: 'step',
-        position: { x: 250, y: 200 + index * 180 },
-        data: { step, onEdit: onEditStep },
-      });
-
-      // Edge from previous node
-      const sourceId = index === 0 ? 'user-input' : `step-${steps[index - 1].step_number}`;
-      edges.push({
-        id: `e-${sourceId}-step-${step.step_number}`,
-        source: sourceId,
-        target: `step-${step.step_number}`,
-        animated: true,
-      });
-    });
-
-    // Output node
-    if (steps.length > 0) {
-      nodes.push({
-        id: 'output',
-        type: 'output',
-        position: { x: 250, y: 200 + steps.length * 180 },
-        data: { outputKey: steps[steps.length - 1].output_key },
-      });
-
-      edges.push({
-        id: `e-step-${steps[steps.length - 1].step_number}-output`,
-        source: `step-${steps[steps.length - 1].step_number}`,
-        target: 'output',
-        animated: true,
-      });
-    }
-
-    return { nodes, edges };
-  }, [steps, userInputFields, onEditStep]);
+  // Convert the step DAG to React Flow nodes and edges
+  const createNodesAndEdges = useCallback(
+    () => buildWorkflowGraph(steps, userInputFields, {
+      origin: { x: 250, y: 50 },
+      columnWidth: 260,
+      rowHeight: 180,
+      stepNodeData: { onEdit: onEditStep },
+    }),
+    [steps, userInputFields, onEditStep]
+  );
 
   const { nodes: initialNodes, edges: initialEdges } = createNodesAndEdges();
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
+  // Update nodes and edges when steps change
+  useEffect(() => {
+    const { nodes: updatedNodes, edges: updatedEdges } = createNodesAndEdges();
+    setNodes(updatedNodes);
+    setEdges(updatedEdges);
+  }, [createNodesAndEdges, setNodes, setEdges]);
+
+  // Drawing an edge between two steps adds a dependency
   const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge(params, eds)),
-    [setEdges]
+    (params: Connection) => {
+      const source = parseStepNodeId(params.source);
+      const target = parseStepNodeId(params.target);
+      if (source === null || target === null || source === target) return;
+
+      const updatedSteps = addStepDependency(steps, source, target);
+      const errors = validateWorkflowGraph(updatedSteps);
+      if (errors.length > 0) {
+        toast.error(errors[0]);
+        return;
+      }
+      onStepsChange(updatedSteps);
+    },
+    [steps, onStepsChange]
+  );
+
+  // Deleting an edge between two steps removes the dependency
+  const onEdgesDelete = useCallback(
+    (deleted: Edge[]) => {
+      let updatedSteps = steps;
+      for (const edge of deleted) {
+        const source = parseStepNodeId(edge.source);
+        const target = parseStepNodeId(edge.target);
+        if (source === null || target === null) continue;
+        updatedSteps = removeStepDependency(updatedSteps, source, target);
+      }
+      if (updatedSteps !== steps) onStepsChange(updatedSteps);
+    },
+    [steps, onStepsChange]
   );
 
   const handleAddStep = () => {
@@ -161,17 +168,15 @@ export function WorkflowBuilder({
     onStepsChange([...steps, newStep]);
   };
 
-  // Update nodes and edges when steps change
-  const { nodes: updatedNodes, edges: updatedEdges } = createNodesAndEdges();
-  if (JSON.stringify(nodes) !== JSON.stringify(updatedNodes)) {
-    setNodes(updatedNodes);
-    setEdges(updatedEdges);
-  }
-
   return (
     <div className="h-[600px] border rounded-lg bg-background">
       <div className="p-4 border-b flex justify-between items-center">
-        <h3 className="font-semibold">Workflow Visual Editor</h3>
+        <div>
+          <h3 className="font-semibold">Workflow Visual Editor</h3>
+          <p className="text-xs text-muted-foreground">
+            Connect steps to add dependencies. Select an edge and press Backspace to remove it.
+          </p>
+        </div>
         <Button onClick={handleAddStep} size="sm">
           <Plus className="h-4 w-4 mr-2" />
           Add Step
@@ -184,6 +189,7 @@ export function WorkflowBuilder({
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onConnect={onConnect}
+          onEdgesDelete={onEdgesDelete}
           nodeTypes={nodeTypes}
           fitView
         >
@@ -7,10 +7,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trash2 } from 'lucide-react';
+import { Trash2, AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SchemaInput } from '@/components/generation/SchemaInput';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  STEP_CONDITION_OPERATORS,
+  type StepConditionOperator,
+} from '@shared/workflow-graph';
 import type {
   ParameterModes,
   MappingSource,
@@ -19,6 +25,7 @@ import type {
 import { toModelSchema } from '@/types/workflow-parameters';
 import type { JsonSchemaProperty } from '@/types/schema';
 import type { AIModel } from '@/hooks/useModels';
+import type { StepTemplateIssue } from '@/lib/workflow/step-template-validation';
 
 interface WorkflowStepFormProps {
   step: WorkflowStep;
@@ -28,6 +35,8 @@ interface WorkflowStepFormProps {
   availableModels: AIModel[];
   userInputFields: UserInputField[];
   previousSteps: WorkflowStep[];
+  /** Template validation issues found when the workflow was last saved */
+  issues?: StepTemplateIssue[];
 }
 
 export function WorkflowStepForm({
@@ -38,6 +47,7 @@ export function WorkflowStepForm({
   availableModels,
   userInputFields,
   previousSteps,
+  issues = [],
 }: WorkflowStepFormProps) {
   const [localStep, setLocalStep] = useState(step);
   const [parameterModes, setParameterModes] = useState<ParameterModes>({});
@@ -72,6 +82,14 @@ export function WorkflowStepForm({
     handleChange({ input_mappings: newMappings });
   };
 
+  const toggleDependency = (dependency: number, checked: boolean) => {
+    const current = localStep.depends_on || [];
+    const next = checked
+      ? [...current, dependency].sort((a, b) => a - b)
+      : current.filter(d => d !== dependency);
+    handleChange({ depends_on: next.length > 0 ? next : undefined });
+  };
+
   const toggleParameterMode = (paramName: string, mode: 'static' | 'mapped') => {
     setParameterModes(prev => ({ ...prev, [paramName]: mode }));
     
@@ -201,6 +219,12 @@ export function WorkflowStepForm({
                 ))}
               </SelectContent>
             </Select>
+            <Input
+              value={localStep.input_mappings?.[paramName] || ''}
+              onChange={(e) => handleMappingChange(paramName, e.target.value)}
+              placeholder='or an expression, e.g. steps.1.outputs[0].url or user.style | default:"cinematic"'
+              className="font-mono text-xs"
+            />
           </>
         )}
       </div>
@@ -216,6 +240,22 @@ export function WorkflowStepForm({
         </Button>
       </div>
 
+      {issues.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc list-inside space-y-1">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  {issue.field}: {issue.message}
+                  {issue.expression && <code className="ml-1 text-xs">{issue.expression}</code>}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="space-y-2">
         <Label>Step Name</Label>
         <Input
@@ -256,7 +296,7 @@ export function WorkflowStepForm({
           <Textarea
             value={localStep.prompt_template}
             onChange={(e) => handleChange({ prompt_template: e.target.value })}
-            placeholder="Enter prompt with variables like {{user.field}} or {{step1.output}}"
+            placeholder='Enter prompt with variables like {{user.field}}, {{step1.output}} or {{user.style | default:"cinematic"}}'
             rows={4}
           />
           <div className="flex flex-wrap gap-2">
@@ -303,6 +343,116 @@ export function WorkflowStepForm({
         </>
       )}
 
+      {previousSteps.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Flow</Label>
+            <p className="text-sm text-muted-foreground">
+              Choose which earlier steps must finish first. Leave all unchecked to run right after the previous step.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {previousSteps.map((s) => (
+                <div key={s.step_number} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`step-${stepNumber}-depends-${s.step_number}`}
+                    checked={localStep.depends_on?.includes(s.step_number) ?? false}
+                    onCheckedChange={(checked) => toggleDependency(s.step_number, checked === true)}
+                  />
+                  <Label htmlFor={`step-${stepNumber}-depends-${s.step_number}`} className="font-normal cursor-pointer">
+                    Step {s.step_number}: {s.step_name || 'Unnamed'}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Parallel Group</Label>
+          <Input
+            value={localStep.parallel_group || ''}
+            onChange={(e) => handleChange({ parallel_group: e.target.value || undefined })}
+            placeholder="e.g., variants"
+          />
+          <p className="text-xs text-muted-foreground">
+            Consecutive steps with the same group run at the same time
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Run Condition</Label>
+          <Select
+            value={localStep.run_if?.source || 'always'}
+            onValueChange={(value) =>
+              handleChange({
+                run_if: value === 'always'
+                  ? undefined
+                  : { operator: 'truthy', ...localStep.run_if, source: value },
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Always run" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="always">Always run</SelectItem>
+              {getAvailableMappingSources().map((source) => (
+                <SelectItem key={source.value} value={source.value}>
+                  {source.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {localStep.run_if && (
+            <div className="flex gap-2">
+              <Select
+                value={localStep.run_if.operator}
+                onValueChange={(value) =>
+                  localStep.run_if && handleChange({
+                    run_if: { ...localStep.run_if, operator: value as StepConditionOperator },
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STEP_CONDITION_OPERATORS.map((operator) => (
+                    <SelectItem key={operator} value={operator}>
+                      {operator.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {['equals', 'not_equals', 'in'].includes(localStep.run_if.operator) && (
+                <Input
+                  value={Array.isArray(localStep.run_if.value)
+                    ? localStep.run_if.value.join(', ')
+                    : String(localStep.run_if.value ?? '')}
+                  onChange={(e) =>
+                    localStep.run_if && handleChange({
+                      run_if: {
+                        ...localStep.run_if,
+                        value: localStep.run_if.operator === 'in'
+                          ? e.target.value.split(',').map((v) => v.trim()).filter(Boolean)
+                          : e.target.value,
+                      },
+                    })
+                  }
+                  placeholder={localStep.run_if.operator === 'in' ? 'a, b, c' : 'value'}
+                />
+              )}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Skipped steps also skip the steps that only depend on them
+          </p>
+        </div>
+      </div>
+
       <Separator />
 
       <div className="space-y-2">
@@ -4,10 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, CheckCircle2 } from "lucide-react";
+import { Loader2, CheckCircle2, FlaskConical } from "lucide-react";
 import { useWorkflowExecution } from "@/hooks/useWorkflowExecution";
 import type { WorkflowTemplate } from "@/hooks/useWorkflowTemplates";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
 import { getAllModels } from "@/lib/models/registry";
 import { GenerationPreview } from "@/components/generation/GenerationPreview";
 import { logger, generateRequestId } from "@/lib/logger";
@@ -20,6 +21,8 @@ import type {
 import type { ContentType } from "@/types/workflow-execution-display";
 import { SchemaInput } from "@/components/generation/SchemaInput";
 import type { ModelParameterValue } from "@/types/model-schema";
+import type { WorkflowSimulationTrace as SimulationTrace } from "@shared/workflow-simulation";
+import { WorkflowSimulationTrace } from "@/components/admin/workflow/WorkflowSimulationTrace";
 
 const testLogger = logger.child({ component: 'WorkflowTestDialog' });
 
@@ -35,6 +38,9 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
   const [uploadingFiles] = useState<Set<string>>(new Set());
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [stepModels, setStepModels] = useState<WorkflowStepModels>({});
+  const [simulation, setSimulation] = useState<SimulationTrace | null>(null);
+  const [previousSimulation, setPreviousSimulation] = useState<SimulationTrace | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
   const { executeWorkflow, isExecuting, progress } = useWorkflowExecution();
 
   const getFieldSchemaInfo = useCallback((userInputFieldName: string, models: WorkflowStepModels = stepModels): FieldSchemaInfo | null => {
@@ -161,6 +167,7 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
 
   const handleReset = () => {
     setResult(null);
+    setSimulation(null);
     setStatusMessage('');
     setInputs({});
   };
@@ -223,6 +230,49 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
     }
   };
 
+  // Run the workflow-executor in simulate mode: the real scheduler and
+  // orchestrator hand-offs run against a stub provider, so nothing is
+  // generated and no credits are spent
+  const handleSimulate = async (): Promise<void> => {
+    if (!workflow?.id || !workflow.workflow_steps) return;
+
+    // generate-content coerces parameters against the locked model SCHEMA
+    // the client sends; the simulation does the same per step
+    const allModels = getAllModels();
+    const simulationSchemas: Record<string, unknown> = {};
+    for (const step of workflow.workflow_steps) {
+      const model = allModels.find(m => m.MODEL_CONFIG.recordId === step.model_record_id);
+      if (model) simulationSchemas[model.MODEL_CONFIG.recordId] = model.SCHEMA;
+    }
+
+    setIsSimulating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke<{ trace: SimulationTrace }>('workflow-executor', {
+        body: {
+          workflow_template_id: workflow.id,
+          user_inputs: inputs,
+          simulate: true,
+          simulation_schemas: simulationSchemas,
+        },
+      });
+      if (error || !data?.trace) throw error ?? new Error('No simulation trace returned');
+
+      testLogger.info('Workflow simulation finished', {
+        workflow_id: workflow.id,
+        status: data.trace.status,
+        total_cost: data.trace.total_cost
+      });
+      setResult(null);
+      setPreviousSimulation(simulation ?? previousSimulation);
+      setSimulation(data.trace);
+    } catch (error) {
+      testLogger.error('Workflow simulation error', error as Error, { workflow_id: workflow.id });
+      toast.error('Failed to simulate workflow');
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
   // Determine content type from storage path
   const getContentType = (path: string): ContentType => {
     const ext = path.toLowerCase().split('.').pop();
@@ -269,7 +319,7 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
         <DialogHeader>
           <DialogTitle>Test Workflow: {workflow?.name}</DialogTitle>
           <DialogDescription>
-            Fill in the inputs and run a test execution
+            Fill in the inputs and run a test execution, or simulate it without spending credits
           </DialogDescription>
         </DialogHeader>
 
@@ -337,9 +387,14 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
             </div>
           )}
 
+          {/* Simulation Trace */}
+          {simulation && !result && (
+            <WorkflowSimulationTrace trace={simulation} previousTrace={previousSimulation} />
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-2">
-            {(isExecuting || result) && (
+            {(isExecuting || result || simulation) && (
               <Button
                 onClick={handleReset}
                 variant="outline"
@@ -356,6 +411,16 @@ export const WorkflowTestDialog = ({ workflow, open, onOpenChange }: WorkflowTes
               {isExecuting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               Run Test
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => void handleSimulate()}
+              disabled={isExecuting || isSimulating || !workflow?.workflow_steps?.length}
+            >
+              {isSimulating
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <FlaskConical className="h-4 w-4 mr-2" />}
+              Simulate
+            </Button>
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Close
             </Button>
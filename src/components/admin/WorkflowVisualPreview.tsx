@@ -1,8 +1,6 @@
 import { useEffect, useCallback } from 'react';
 import {
   ReactFlow,
-  Node,
-  Edge,
   Background,
   useNodesState,
   useEdgesState,
@@ -12,6 +10,7 @@ import '@xyflow/react/dist/style.css';
 import { Card } from '@/components/ui/card';
 import { WorkflowStep, UserInputField } from '@/hooks/useWorkflowTemplates';
 import type { StepNodeData, UserInputNodeData } from '@/types/workflow-display';
+import { buildWorkflowGraph } from '@/lib/workflow/workflow-graph-layout';
 
 interface WorkflowVisualPreviewProps {
   userInputFields: UserInputField[];
@@ -25,6 +24,9 @@ const StepNode = ({ data }: { data: StepNodeData }) => (
       <h4 className="font-semibold text-xs">Step {data.step.step_number}</h4>
       <p className="text-xs text-muted-foreground">{data.step.step_name || 'Unnamed Step'}</p>
       <p className="text-xs font-medium">Model: {data.step.model_id || 'Not set'}</p>
+      {data.step.parallel_group && (
+        <p className="text-xs text-muted-foreground">Parallel: {data.step.parallel_group}</p>
+      )}
       <p className="text-xs text-primary">Output: {data.step.output_key || 'Not set'}</p>
     </div>
   </Card>
@@ -61,59 +63,15 @@ const nodeTypes: NodeTypes = {
 };
 
 export function WorkflowVisualPreview({ userInputFields, steps }: WorkflowVisualPreviewProps) {
-  const createNodesAndEdges = useCallback(() => {
-    const nodes: Node[] = [];
-    const edges: Edge[] = [];
-
-    // User input node
-    nodes.push({
-      id: 'user-input',
-      type: 'userInput',
-      position: { x: 50, y: 50 },
-      data: { fields: userInputFields },
+  const createNodesAndEdges = useCallback(
+    () => buildWorkflowGraph(steps, userInputFields, {
+      origin: { x: 50, y: 50 },
+      columnWidth: 220,
+      rowHeight: 160,
       draggable: false,
-    });
-
-    // Step nodes
-    steps.forEach((step, index) => {
-      nodes.push({
-        id: `step-${step.step_number}`,
-        type: 'step',
-        position: { x: 50, y: 180 + index * 160 },
-        data: { step },
-        draggable: false,
-      });
-
-      // Edge from previous node
-      const sourceId = index === 0 ? 'user-input' : `step-${steps[index - 1].step_number}`;
-      edges.push({
-        id: `e-${sourceId}-step-${step.step_number}`,
-        source: sourceId,
-        target: `step-${step.step_number}`,
-        animated: true,
-      });
-    });
-
-    // Output node
-    if (steps.length > 0) {
-      nodes.push({
-        id: 'output',
-        type: 'output',
-        position: { x: 50, y: 180 + steps.length * 160 },
-        data: {},
-        draggable: false,
-      });
-
-      edges.push({
-        id: `e-step-${steps[steps.length - 1].step_number}-output`,
-        source: `step-${steps[steps.length - 1].step_number}`,
-        target: 'output',
-        animated: true,
-      });
-    }
-
-    return { nodes, edges };
-  }, [userInputFields, steps]);
+    }),
+    [userInputFields, steps]
+  );
 
   const { nodes: initialNodes, edges: initialEdges } = createNodesAndEdges();
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
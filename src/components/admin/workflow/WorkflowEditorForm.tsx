@@ -3,15 +3,24 @@ import { Loader2 } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useWorkflowImageUpload } from "@/hooks/admin/useWorkflowImageUpload";
 import { WorkflowBasicInfo } from "./WorkflowBasicInfo";
 import { WorkflowBeforeAfterImages } from "./WorkflowBeforeAfterImages";
 import { WorkflowUserFields } from "./WorkflowUserFields";
 import { WorkflowStepsManager } from "./WorkflowStepsManager";
+import { WorkflowVersionHistory } from "./WorkflowVersionHistory";
 import type { WorkflowTemplate } from "@/hooks/useWorkflowTemplates";
 import type { AIModel } from "@/hooks/useModels";
 import { logger } from "@/lib/logger";
+import { saveTemplateDraft } from "@/lib/admin/template-versions";
+import { useTemplateVersions } from "@/hooks/admin/useTemplateVersions";
+import { validateWorkflowGraph } from "@shared/workflow-graph";
+import { removeWorkflowStep } from "@/lib/workflow/workflow-graph-layout";
+import {
+  validateWorkflowTemplates,
+  type StepTemplateIssue,
+} from "@/lib/workflow/step-template-validation";
 
 interface WorkflowEditorFormProps {
   workflow: Partial<WorkflowTemplate> | null;
@@ -47,6 +56,22 @@ export function WorkflowEditorForm({
     }
   );
   const [originalWorkflowId] = useState(workflow?.id || null);
+  const [stepIssues, setStepIssues] = useState<Record<number, StepTemplateIssue[]>>({});
+
+  // Edits to an existing workflow continue from its open draft, if any
+  const { versions, refetch: refetchVersions } = useTemplateVersions(isNew ? null : originalWorkflowId);
+  const openDraft = versions.find(v => v.status === 'draft');
+  const draftLoaded = useRef(false);
+
+  useEffect(() => {
+    if (draftLoaded.current || !openDraft) return;
+    draftLoaded.current = true;
+    setLocalWorkflow(prev => ({
+      ...prev,
+      workflow_steps: openDraft.workflow_steps as unknown as WorkflowTemplate['workflow_steps'],
+      user_input_fields: (openDraft.user_input_fields ?? []) as unknown as WorkflowTemplate['user_input_fields'],
+    }));
+  }, [openDraft]);
 
   const {
     beforeImage,
@@ -78,18 +103,28 @@ export function WorkflowEditorForm({
     },
   });
 
+  // Details are updated in place; steps and input fields are saved as a draft
+  // version that only goes live once it is published
   const updateWorkflowMutation = useMutation({
     mutationFn: async (workflowData: Partial<WorkflowTemplate>) => {
+      const { workflow_steps, user_input_fields, ...details } = workflowData;
       const { error } = await supabase
         .from("workflow_templates")
-        .update(workflowData as any)
+        .update(details as any)
         .eq("id", workflowData.id);
       
       if (error) throw error;
+
+      return saveTemplateDraft(workflowData.id as string, { workflow_steps, user_input_fields });
     },
-    onSuccess: () => {
+    onSuccess: async (draft) => {
       queryClient.invalidateQueries({ queryKey: ["all-templates-admin"] });
-      toast.success("Workflow updated successfully!");
+      await refetchVersions();
+      toast.success(
+        draft
+          ? `Workflow saved as draft v${String(draft.version_number)} - publish it from Version History`
+          : "Workflow updated successfully!"
+      );
       onSuccess();
     },
     onError: (error) => {
@@ -128,6 +163,21 @@ export function WorkflowEditorForm({
       toast.error("At least one workflow step is required");
       return;
     }
+    const graphErrors = validateWorkflowGraph(localWorkflow.workflow_steps);
+    if (graphErrors.length > 0) {
+      toast.error(graphErrors[0]);
+      return;
+    }
+    const templateIssues = validateWorkflowTemplates(
+      localWorkflow.workflow_steps,
+      localWorkflow.user_input_fields || []
+    );
+    setStepIssues(templateIssues);
+    const invalidSteps = Object.keys(templateIssues).map((index) => Number(index) + 1);
+    if (invalidSteps.length > 0) {
+      toast.error(`Fix template errors in step ${invalidSteps.join(', ')}`);
+      return;
+    }
 
     try {
       // Upload images first
@@ -228,6 +278,7 @@ export function WorkflowEditorForm({
         workflowSteps={localWorkflow.workflow_steps || []}
         userInputFields={localWorkflow.user_input_fields || []}
         models={models}
+        stepIssues={stepIssues}
         onAddStep={() => {
           const newStep = {
             step_number: (localWorkflow.workflow_steps || []).length + 1,
@@ -250,16 +301,17 @@ export function WorkflowEditorForm({
           setLocalWorkflow({ ...localWorkflow, workflow_steps: steps });
         }}
         onDeleteStep={(index) => {
-          const steps = [...(localWorkflow.workflow_steps || [])];
-          steps.splice(index, 1);
-          // Renumber subsequent steps
-          steps.slice(index).forEach((step, i) => {
-            step.step_number = index + i + 1;
-          });
+          // Renumber subsequent steps and their dependencies
+          const steps = removeWorkflowStep(localWorkflow.workflow_steps || [], index);
           setLocalWorkflow({ ...localWorkflow, workflow_steps: steps });
         }}
+        onStepsChange={(steps) => setLocalWorkflow({ ...localWorkflow, workflow_steps: steps })}
       />
 
+      {!isNew && originalWorkflowId && (
+        <WorkflowVersionHistory templateId={originalWorkflowId} />
+      )}
+
       <div className="flex justify-end gap-2 pt-4">
         <Button variant="outline" onClick={onCancel} disabled={isSaving}>
           Cancel
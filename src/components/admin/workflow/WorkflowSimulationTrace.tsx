@@ -0,0 +1,148 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Check, Copy, FlaskConical } from "lucide-react";
+import {
+  diffSimulationTraces,
+  stableStringify,
+  type SimulatedStepTrace,
+  type WorkflowSimulationTrace as SimulationTrace,
+} from "@shared/workflow-simulation";
+
+interface WorkflowSimulationTraceProps {
+  trace: SimulationTrace;
+  /** Trace of the previous simulation in this session, compared by default */
+  previousTrace?: SimulationTrace | null;
+}
+
+const STATUS_VARIANTS: Record<SimulatedStepTrace['status'], "success" | "destructive" | "outline" | "secondary"> = {
+  completed: 'success',
+  failed: 'destructive',
+  skipped: 'outline',
+  pending: 'secondary',
+  running: 'secondary',
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : stableStringify(value);
+
+function parseSavedTrace(text: string): SimulationTrace | null {
+  try {
+    const parsed = JSON.parse(text) as SimulationTrace;
+    return Array.isArray(parsed.steps) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export const WorkflowSimulationTrace = ({ trace, previousTrace }: WorkflowSimulationTraceProps) => {
+  const [copied, setCopied] = useState(false);
+  const [savedTraceText, setSavedTraceText] = useState('');
+
+  const serialized = useMemo(() => stableStringify(trace, 2), [trace]);
+  const savedTrace = useMemo(
+    () => (savedTraceText.trim() ? parseSavedTrace(savedTraceText) : null),
+    [savedTraceText]
+  );
+  const baseline = savedTrace ?? previousTrace ?? null;
+  const changes = useMemo(() => (baseline ? diffSimulationTraces(baseline, trace) : []), [baseline, trace]);
+
+  const handleCopy = async (): Promise<void> => {
+    await navigator.clipboard.writeText(serialized);
+    setCopied(true);
+    setTimeout(() => {
+      setCopied(false);
+    }, 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5 text-primary" />
+          <span className="font-semibold">Simulation {trace.status === 'completed' ? 'completed' : 'failed'}</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void handleCopy()}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+          Copy trace
+        </Button>
+      </div>
+
+      <div className="text-sm text-muted-foreground space-y-1">
+        <p>Estimated credits: {trace.total_cost}</p>
+        <p className="break-all">
+          Final output: {trace.final_output_url ?? 'none'}
+          {trace.final_step !== null && ` (step ${String(trace.final_step)})`}
+        </p>
+        {trace.error && <p className="text-destructive">{trace.error}</p>}
+      </div>
+
+      <div className="space-y-2">
+        {trace.steps.map((step) => (
+          <div key={step.step_number} className="p-3 border rounded-lg space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                Step {step.step_number}: {step.step_name}
+              </span>
+              <Badge variant={STATUS_VARIANTS[step.status]}>{step.status}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {step.model_name ?? step.model_record_id ?? 'Unknown model'} · {step.cost} credits
+            </p>
+            {step.resolved_prompt !== null && (
+              <div>
+                <Label className="text-xs">Prompt</Label>
+                <p className="text-xs whitespace-pre-wrap bg-muted/50 rounded p-2">{step.resolved_prompt}</p>
+              </div>
+            )}
+            {step.parameters && (
+              <div>
+                <Label className="text-xs">Parameters</Label>
+                <pre className="text-xs bg-muted/50 rounded p-2 overflow-x-auto">
+                  {stableStringify(step.parameters, 2)}
+                </pre>
+              </div>
+            )}
+            {step.output_url && <p className="text-xs font-mono break-all">{step.output_url}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="saved-trace" className="text-sm">Compare with a saved trace</Label>
+        <Textarea
+          id="saved-trace"
+          value={savedTraceText}
+          onChange={(e) => {
+            setSavedTraceText(e.target.value);
+          }}
+          placeholder={previousTrace ? 'Paste a copied trace (defaults to the previous simulation)' : 'Paste a copied trace'}
+          className="font-mono text-xs"
+          rows={3}
+        />
+        {savedTraceText.trim() && !savedTrace && (
+          <p className="text-xs text-destructive">Not a valid simulation trace</p>
+        )}
+      </div>
+
+      {baseline && (
+        <div className="p-3 border rounded-lg space-y-1 text-sm">
+          <span className="font-medium">
+            {changes.length === 0 ? 'No changes' : `${String(changes.length)} change(s)`} since {savedTrace ? 'the saved trace' : 'the previous simulation'}
+          </span>
+          {changes.map((change, index) => (
+            <div key={index} className="text-xs">
+              <span className="font-medium">
+                {change.step_number === null ? 'Workflow' : `Step ${String(change.step_number)}`} · {change.field}:
+              </span>{' '}
+              <span className="line-through text-muted-foreground break-all">{formatValue(change.before)}</span>{' '}
+              → <span className="break-all">{formatValue(change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
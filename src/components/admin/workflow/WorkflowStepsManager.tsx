@@ -1,31 +1,43 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus } from "lucide-react";
 import { WorkflowStepForm } from "@/components/admin/WorkflowStepForm";
+import { WorkflowBuilder } from "@/components/admin/WorkflowBuilder";
 import type { WorkflowStep, UserInputField } from "@/hooks/useWorkflowTemplates";
 import type { AIModel } from "@/hooks/useModels";
+import type { StepTemplateIssue } from "@/lib/workflow/step-template-validation";
 
 interface WorkflowStepsManagerProps {
   workflowSteps: WorkflowStep[];
   userInputFields: UserInputField[];
   models: AIModel[];
+  /** Template validation issues from the last save attempt, keyed by step index */
+  stepIssues?: Record<number, StepTemplateIssue[]>;
   onAddStep: () => void;
   onUpdateStep: (index: number, step: WorkflowStep) => void;
   onDeleteStep: (index: number) => void;
+  onStepsChange: (steps: WorkflowStep[]) => void;
 }
 
 /**
  * Component for managing workflow steps collection
- * Orchestrates WorkflowStepForm components and handles step operations
+ * Orchestrates WorkflowStepForm components and handles step operations.
+ * The graph tab edits step dependencies (fan-out / fan-in) visually.
  */
 export function WorkflowStepsManager({
   workflowSteps,
   userInputFields,
   models,
+  stepIssues = {},
   onAddStep,
   onUpdateStep,
   onDeleteStep,
+  onStepsChange,
 }: WorkflowStepsManagerProps) {
+  const [view, setView] = useState<"list" | "graph">("list");
+
   return (
     <Card>
       <CardHeader>
@@ -38,24 +50,44 @@ export function WorkflowStepsManager({
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {workflowSteps.length === 0 && (
-          <div className="text-center py-8 text-muted-foreground">
-            No workflow steps defined. Click "Add Step" to create one.
-          </div>
-        )}
+        <Tabs value={view} onValueChange={(value) => setView(value as "list" | "graph")}>
+          <TabsList>
+            <TabsTrigger value="list">Steps</TabsTrigger>
+            <TabsTrigger value="graph">Graph</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list" className="space-y-4">
+            {workflowSteps.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No workflow steps defined. Click "Add Step" to create one.
+              </div>
+            )}
+
+            {workflowSteps.map((step, index) => (
+              <WorkflowStepForm
+                key={index}
+                step={step}
+                stepNumber={index + 1}
+                availableModels={models}
+                userInputFields={userInputFields}
+                previousSteps={workflowSteps.slice(0, index)}
+                issues={stepIssues[index]}
+                onChange={(updatedStep) => onUpdateStep(index, updatedStep)}
+                onDelete={() => onDeleteStep(index)}
+              />
+            ))}
+          </TabsContent>
 
-        {workflowSteps.map((step, index) => (
-          <WorkflowStepForm
-            key={index}
-            step={step}
-            stepNumber={index + 1}
-            availableModels={models}
-            userInputFields={userInputFields}
-            previousSteps={workflowSteps.slice(0, index)}
-            onChange={(updatedStep) => onUpdateStep(index, updatedStep)}
-            onDelete={() => onDeleteStep(index)}
-          />
-        ))}
+          <TabsContent value="graph">
+            <WorkflowBuilder
+              steps={workflowSteps}
+              onStepsChange={onStepsChange}
+              userInputFields={userInputFields}
+              availableModels={models}
+              onEditStep={() => setView("list")}
+            />
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, RotateCcw, Trash2, Upload } from "lucide-react";
+import { useTemplateVersions } from "@/hooks/admin/useTemplateVersions";
+import type { TemplateVersion } from "@/lib/admin/template-versions";
+import { diffTemplateVersions, type TemplateVersionChange } from "@/lib/admin/template-version-diff";
+
+interface WorkflowVersionHistoryProps {
+  templateId: string;
+}
+
+const STATUS_VARIANT: Record<string, "default" | "secondary" | "outline"> = {
+  published: "default",
+  draft: "secondary",
+  archived: "outline",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+function VersionDiff({ changes }: { changes: TemplateVersionChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {changes.map((change, index) => (
+        <div key={index} className="grid grid-cols-[auto_1fr] gap-x-2">
+          <span
+            className={
+              change.kind === 'added' ? 'text-green-600' :
+              change.kind === 'removed' ? 'text-destructive' : 'text-amber-600'
+            }
+          >
+            {change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~'}
+          </span>
+          <div className="break-all">
+            <span className="font-semibold">
+              {change.field}{change.path ? ` › ${change.path}` : ''}
+            </span>
+            {change.kind !== 'added' && (
+              <div className="text-muted-foreground line-through">{formatValue(change.before)}</div>
+            )}
+            {change.kind !== 'removed' && <div>{formatValue(change.after)}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Version history of a workflow template
+ * Lists versions, diffs any version against another, and publishes drafts,
+ * rolls back to earlier versions or discards drafts
+ */
+export function WorkflowVersionHistory({ templateId }: WorkflowVersionHistoryProps) {
+  const { versions, isLoading, publish, rollback, discard } = useTemplateVersions(templateId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const published = versions.find(v => v.status === 'published');
+  const selected = versions.find(v => v.id === selectedId) ?? versions[0] as TemplateVersion | undefined;
+  // Compare against the live version by default, or the previous one when the live one is selected
+  const defaultCompare = selected && selected.id !== published?.id
+    ? published
+    : versions.find(v => selected && v.version_number < selected.version_number);
+  const compareTo = versions.find(v => v.id === compareId) ?? defaultCompare;
+
+  const changes = useMemo(
+    () => (selected && compareTo ? diffTemplateVersions(compareTo, selected) : []),
+    [selected, compareTo]
+  );
+
+  const runAction = async (version: TemplateVersion, action: (v: TemplateVersion) => Promise<void>) => {
+    setBusyId(version.id);
+    try {
+      await action(version);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Version History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+
+        {!isLoading && versions.length === 0 && (
+          <div className="text-center py-4 text-muted-foreground">No versions yet.</div>
+        )}
+
+        <div className="space-y-2">
+          {versions.map(version => (
+            <div
+              key={version.id}
+              className={`flex items-center justify-between gap-4 rounded-md border p-3 cursor-pointer ${
+                version.id === selected?.id ? 'border-primary' : ''
+              }`}
+              onClick={() => { setSelectedId(version.id); setCompareId(null); }}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">v{version.version_number}</span>
+                  <Badge variant={STATUS_VARIANT[version.status] ?? 'outline'}>{version.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {version.change_note || 'No note'} · {new Date(version.published_at ?? version.created_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0" onClick={e => { e.stopPropagation(); }}>
+                {version.status === 'draft' && (
+                  <>
+                    <Button size="sm" disabled={busyId !== null} onClick={() => void runAction(version, publish)}>
+                      {busyId === version.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                      Publish
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busyId !== null} onClick={() => void runAction(version, discard)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {version.status === 'archived' && (
+                  <Button size="sm" variant="outline" disabled={busyId !== null} onClick={() => void runAction(version, rollback)}>
+                    {busyId === version.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Roll back
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selected && compareTo && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-sm">
+              <span>Changes in v{selected.version_number} compared to</span>
+              <Select value={compareTo.id} onValueChange={setCompareId}>
+                <SelectTrigger className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.filter(v => v.id !== selected.id).map(v => (
+                    <SelectItem key={v.id} value={v.id}>v{v.version_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <VersionDiff changes={changes} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
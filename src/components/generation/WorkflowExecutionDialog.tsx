@@ -3,11 +3,17 @@ import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Loader2, Download, CheckCircle2 } from "lucide-react";
 import { GenerationPreview } from "./GenerationPreview";
+import { WorkflowResumePanel } from "./WorkflowResumePanel";
 import type {
   WorkflowExecutionProgress,
   WorkflowExecutionResult
 } from "@/types/workflow-execution-display";
 import { calculateProgressPercentage as calcProgress } from "@/types/workflow-execution-display";
+import type {
+  FailedWorkflowExecution,
+  WorkflowResumePreview,
+  WorkflowStepOverrides
+} from "@/types/workflow";
 
 interface WorkflowExecutionDialogProps {
   open: boolean;
@@ -17,6 +23,10 @@ interface WorkflowExecutionDialogProps {
   progress?: WorkflowExecutionProgress | null;
   result?: WorkflowExecutionResult | null;
   onDownload: () => void;
+  /** Set when the execution failed; shows the resume action */
+  failure?: FailedWorkflowExecution | null;
+  onPreviewResume?: (stepOverrides: WorkflowStepOverrides) => Promise<WorkflowResumePreview | null>;
+  onResume?: (stepOverrides: WorkflowStepOverrides) => void;
 }
 
 export const WorkflowExecutionDialog = ({
@@ -27,6 +37,9 @@ export const WorkflowExecutionDialog = ({
   progress,
   result,
   onDownload,
+  failure,
+  onPreviewResume,
+  onResume,
 }: WorkflowExecutionDialogProps) => {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -84,7 +97,16 @@ export const WorkflowExecutionDialog = ({
             </div>
           )}
 
-          {!isExecuting && !result && (
+          {/* Failure - resume from the failed step */}
+          {!isExecuting && !result && failure && onPreviewResume && onResume && (
+            <WorkflowResumePanel
+              error={failure.error}
+              onPreviewResume={onPreviewResume}
+              onResume={onResume}
+            />
+          )}
+
+          {!isExecuting && !result && !failure && (
             <div className="text-center py-8">
               <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-2" />
               <p className="text-muted-foreground">Preparing workflow execution...</p>
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Loader2, RotateCcw } from "lucide-react";
+import { getAllModels } from "@/lib/models/registry";
+import type { WorkflowResumePreview, WorkflowStepOverrides } from "@/types/workflow";
+
+interface WorkflowResumePanelProps {
+  error: string;
+  onPreviewResume: (stepOverrides: WorkflowStepOverrides) => Promise<WorkflowResumePreview | null>;
+  onResume: (stepOverrides: WorkflowStepOverrides) => void;
+}
+
+interface StepDraft {
+  model_record_id: string;
+  prompt: string;
+  parameters: string;
+}
+
+type PreviewStep = WorkflowResumePreview['steps'][number];
+
+const toDraft = (step: PreviewStep): StepDraft => ({
+  model_record_id: step.model_record_id ?? '',
+  prompt: step.prompt,
+  parameters: JSON.stringify(step.parameters, null, 2),
+});
+
+/**
+ * Build overrides from the fields the user actually changed. Returns an error
+ * message instead if a parameters field is not a JSON object.
+ */
+const buildStepOverrides = (
+  steps: PreviewStep[],
+  drafts: Record<string, StepDraft>
+): { overrides: WorkflowStepOverrides } | { error: string } => {
+  const overrides: WorkflowStepOverrides = {};
+
+  for (const step of steps) {
+    const key = String(step.step_number);
+    const draft = drafts[key] as StepDraft | undefined;
+    if (!draft) continue;
+
+    let parameters: unknown;
+    try {
+      parameters = JSON.parse(draft.parameters);
+    } catch {
+      return { error: `Step ${key}: parameters must be valid JSON` };
+    }
+    if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+      return { error: `Step ${key}: parameters must be a JSON object` };
+    }
+
+    const override: WorkflowStepOverrides[string] = {};
+    if (draft.model_record_id && draft.model_record_id !== step.model_record_id) {
+      override.model_record_id = draft.model_record_id;
+    }
+    if (draft.prompt !== step.prompt) {
+      override.prompt = draft.prompt;
+    }
+    if (JSON.stringify(parameters) !== JSON.stringify(step.parameters)) {
+      override.parameters = parameters as Record<string, unknown>;
+    }
+    if (Object.keys(override).length > 0) {
+      overrides[key] = override;
+    }
+  }
+
+  return { overrides };
+};
+
+/**
+ * Retry a failed workflow from its failed step(s). Shows the resolved
+ * configuration of the steps that will run again, lets the user swap the
+ * model or edit the prompt/parameters, and shows the credits needed for the
+ * remaining steps before resuming.
+ */
+export const WorkflowResumePanel = ({ error, onPreviewResume, onResume }: WorkflowResumePanelProps) => {
+  const [preview, setPreview] = useState<WorkflowResumePreview | null>(null);
+  // Steps as resolved without overrides - drafts are diffed against these
+  const [baseSteps, setBaseSteps] = useState<PreviewStep[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, StepDraft>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const models = useMemo(() => getAllModels().filter(m => m.MODEL_CONFIG.isActive), []);
+
+  const loadPreview = async (stepOverrides: WorkflowStepOverrides, resetDrafts: boolean) => {
+    setIsLoading(true);
+    const result = await onPreviewResume(stepOverrides);
+    setIsLoading(false);
+    if (!result) return;
+
+    setPreview(result);
+    if (resetDrafts) {
+      setBaseSteps(result.steps);
+      setDrafts(Object.fromEntries(result.steps.map(step => [String(step.step_number), toDraft(step)])));
+    }
+  };
+
+  useEffect(() => {
+    void loadPreview({}, true);
+    // Load the untouched preview once per failure
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [error]);
+
+  const updateDraft = (stepNumber: number, patch: Partial<StepDraft>) => {
+    setDraftError(null);
+    setDrafts(prev => ({
+      ...prev,
+      [String(stepNumber)]: { ...prev[String(stepNumber)], ...patch },
+    }));
+  };
+
+  const withOverrides = (action: (stepOverrides: WorkflowStepOverrides) => void) => {
+    const result = buildStepOverrides(baseSteps, drafts);
+    if ('error' in result) {
+      setDraftError(result.error);
+      return;
+    }
+    action(result.overrides);
+  };
+
+  const modelsFor = (step: PreviewStep) => {
+    const original = models.find(m => m.MODEL_CONFIG.recordId === step.model_record_id);
+    if (!original) return models;
+    return models.filter(m => m.MODEL_CONFIG.contentType === original.MODEL_CONFIG.contentType);
+  };
+
+  const insufficientCredits = !!preview && preview.available_credits < preview.estimated_credits;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2 text-destructive">
+        <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+        <div>
+          <p className="font-semibold">Workflow Failed</p>
+          <p className="text-sm break-words">{error}</p>
+        </div>
+      </div>
+
+      {isLoading && !preview && (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      )}
+
+      {preview && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Completed steps are kept. The following step{preview.steps.length === 1 ? '' : 's'} will run again:
+          </p>
+
+          {preview.steps.map(step => {
+            const draft = drafts[String(step.step_number)] as StepDraft | undefined;
+            if (!draft) return null;
+            return (
+              <div key={step.step_number} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between text-sm font-medium">
+                  <span>Step {step.step_number}: {step.step_name}</span>
+                  <span className="text-muted-foreground">{step.estimated_credits} credits</span>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Model</Label>
+                  <Select
+                    value={draft.model_record_id}
+                    onValueChange={value => { updateDraft(step.step_number, { model_record_id: value }); }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {modelsFor(step).map(m => (
+                        <SelectItem key={m.MODEL_CONFIG.recordId} value={m.MODEL_CONFIG.recordId}>
+                          {m.MODEL_CONFIG.modelName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Prompt</Label>
+                  <Textarea
+                    value={draft.prompt}
+                    onChange={e => { updateDraft(step.step_number, { prompt: e.target.value }); }}
+                    rows={3}
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Parameters</Label>
+                  <Textarea
+                    value={draft.parameters}
+                    onChange={e => { updateDraft(step.step_number, { parameters: e.target.value }); }}
+                    rows={4}
+                    className="font-mono text-xs"
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+          {draftError && <p className="text-sm text-destructive">{draftError}</p>}
+
+          <div className="flex items-center justify-between text-sm">
+            <span>
+              Remaining steps: {preview.remaining_steps.length} · Estimated credits: {preview.estimated_credits}
+            </span>
+            <span className={insufficientCredits ? 'text-destructive' : 'text-muted-foreground'}>
+              Available: {preview.available_credits}
+            </span>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={isLoading}
+              onClick={() => { withOverrides(overrides => { void loadPreview(overrides, false); }); }}
+            >
+              {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Update Estimate
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={isLoading || insufficientCredits}
+              onClick={() => { withOverrides(onResume); }}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Resume Workflow
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
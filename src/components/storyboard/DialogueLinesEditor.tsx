@@ -0,0 +1,192 @@
+/**
+ * Dialogue Lines Editor Component
+ * Edits a scene's speaker-tagged lines with per-line emotion, pace and pause
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { countWords } from '@shared/storyboard-script';
+import {
+  LINE_EMOTIONS,
+  LINE_PACES,
+  MAX_LINES_PER_SCENE,
+  NARRATOR_SPEAKER_ID,
+  narratorLine,
+  type DialogueLine,
+  type DialogueSpeaker,
+  type LineEmotion,
+  type LinePace,
+} from '@shared/storyboard-dialogue';
+
+interface DialogueLinesEditorProps {
+  lines: DialogueLine[];
+  speakers: DialogueSpeaker[];
+  onSave: (lines: DialogueLine[]) => void;
+  /** Words the scene's lines should fit in together */
+  wordBudget?: number;
+  onSavingChange?: (isSaving: boolean) => void;
+}
+
+const PAUSE_OPTIONS = [0, 250, 500, 1000, 2000];
+
+const PACE_LABELS: Record<LinePace, string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * One row per line: speaker, delivery and text
+ * Saves a second after the last change, like the plain voiceover field
+ */
+export const DialogueLinesEditor = ({
+  lines,
+  speakers,
+  onSave,
+  wordBudget,
+  onSavingChange,
+}: DialogueLinesEditorProps) => {
+  const [draft, setDraft] = useState<DialogueLine[]>(lines);
+  const savedKey = JSON.stringify(lines);
+
+  // Sync local state when the saved lines change (e.g., a rewrite or take switch)
+  useEffect(() => {
+    setDraft(JSON.parse(savedKey) as DialogueLine[]);
+  }, [savedKey]);
+
+  useEffect(() => {
+    const cleaned = draft
+      .map(line => ({ ...line, text: line.text.trim().replace(/\s+/g, ' ') }))
+      .filter(line => line.text.length > 0);
+    if (JSON.stringify(cleaned) === savedKey || cleaned.length === 0) return;
+
+    const timer = setTimeout(() => {
+      onSavingChange?.(true);
+      onSave(cleaned);
+      setTimeout(() => onSavingChange?.(false), 500);
+    }, 1000);
+
+    return () => { clearTimeout(timer); };
+  }, [draft, savedKey, onSave, onSavingChange]);
+
+  const wordCount = draft.reduce((sum, line) => sum + countWords(line.text), 0);
+  const isOverBudget = wordBudget !== undefined && wordCount > wordBudget;
+
+  const updateLine = (index: number, changes: Partial<DialogueLine>) => {
+    setDraft(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addLine = () => {
+    setDraft(prev => [...prev, { ...narratorLine(''), speakerId: prev[prev.length - 1]?.speakerId ?? NARRATOR_SPEAKER_ID }]);
+  };
+
+  return (
+    <div className="space-y-2" onClick={(e) => { e.stopPropagation(); }}>
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-semibold text-muted-foreground">🎭 Dialogue</Label>
+        {wordBudget !== undefined && (
+          <span className={cn('text-xs', isOverBudget ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+            {wordCount}/{wordBudget} words
+          </span>
+        )}
+      </div>
+
+      {draft.map((line, index) => {
+        const speaker = speakers.find(s => s.id === line.speakerId);
+        return (
+          <div
+            key={index}
+            className="space-y-2 rounded-md border border-border/50 bg-background/50 p-2"
+            style={speaker?.color ? { borderLeftColor: speaker.color, borderLeftWidth: 3 } : undefined}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={line.speakerId} onValueChange={(speakerId) => { updateLine(index, { speakerId }); }}>
+                <SelectTrigger className="h-8 w-[140px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {speakers.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={line.emotion}
+                onValueChange={(emotion) => { updateLine(index, { emotion: emotion as LineEmotion }); }}
+              >
+                <SelectTrigger className="h-8 w-[120px] text-xs" aria-label="Emotion">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINE_EMOTIONS.map(emotion => (
+                    <SelectItem key={emotion} value={emotion}>{capitalize(emotion)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={line.pace} onValueChange={(pace) => { updateLine(index, { pace: pace as LinePace }); }}>
+                <SelectTrigger className="h-8 w-[100px] text-xs" aria-label="Pace">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINE_PACES.map(pace => (
+                    <SelectItem key={pace} value={pace}>{PACE_LABELS[pace]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(line.pauseAfterMs)}
+                onValueChange={(pause) => { updateLine(index, { pauseAfterMs: Number(pause) }); }}
+              >
+                <SelectTrigger className="h-8 w-[110px] text-xs" aria-label="Pause after">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...new Set([...PAUSE_OPTIONS, line.pauseAfterMs])].sort((a, b) => a - b).map(pause => (
+                    <SelectItem key={pause} value={String(pause)}>
+                      {pause === 0 ? 'No pause' : `Pause ${String(pause / 1000)}s`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 ml-auto"
+                onClick={() => { removeLine(index); }}
+                disabled={draft.length <= 1}
+                aria-label="Remove line"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+            <Textarea
+              value={line.text}
+              onChange={(e) => { updateLine(index, { text: e.target.value }); }}
+              className="min-h-[50px] text-sm bg-background/50"
+              maxLength={500}
+              placeholder={`What ${speaker?.name ?? 'the narrator'} says`}
+            />
+          </div>
+        );
+      })}
+
+      {draft.length < MAX_LINES_PER_SCENE && (
+        <Button size="sm" variant="outline" onClick={addLine}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add line
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ScenePreviewGenerator } from './ScenePreviewGenerator';
 import type { Storyboard } from '@/types/storyboard';
+import type { CastMember } from '@shared/storyboard-cast';
 
 interface IntroSceneCardProps {
   storyboard: Storyboard;
@@ -19,6 +20,7 @@ interface IntroSceneCardProps {
   onImageGenerated: (sceneId: string, imageUrl: string) => void;
   nextSceneImageUrl?: string | null;
   hasNextScene?: boolean;
+  cast?: CastMember[];
 }
 
 /**
@@ -35,6 +37,7 @@ export const IntroSceneCard = ({
   onImageGenerated,
   nextSceneImageUrl,
   hasNextScene,
+  cast,
 }: IntroSceneCardProps) => {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
@@ -83,6 +86,7 @@ export const IntroSceneCard = ({
           aspectRatio={storyboard.aspect_ratio}
           hasNextScene={hasNextScene}
           nextSceneImageUrl={nextSceneImageUrl}
+          cast={cast}
         />
       </div>
     </div>
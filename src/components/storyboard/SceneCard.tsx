@@ -1,20 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { RefreshCw, Save } from 'lucide-react';
-import { cn } from '@/lib/utils';
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { RefreshCw, Save, Loader2, ArrowUpToLine, ArrowDownToLine, Scissors, Palette } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { countWords, getActiveTake, toSceneTakes, type SceneTake, type SceneTakeSource } from '@shared/storyboard-script';
+import type { ScriptEditRequest } from '@/hooks/storyboard/useStoryboardScenes';
+import { getSceneLines, type DialogueLine, type DialogueSpeaker } from '@shared/storyboard-dialogue';
+import { ScriptEditDialog, type ScriptEditAction } from './ScriptEditDialog';
+import { DialogueLinesEditor } from './DialogueLinesEditor';
 
 interface Scene {
   id: string;
@@ -22,6 +24,9 @@ interface Scene {
   voice_over_text: string;
   image_prompt: string;
   is_edited: boolean;
+  takes?: SceneTake[];
+  format_fields?: Record<string, string>;
+  dialogue?: DialogueLine[];
 }
 
 interface SceneCardProps {
@@ -29,22 +34,53 @@ interface SceneCardProps {
   sceneNumber: number;
   isActive: boolean;
   onUpdate: (id: string, field: string, value: string) => void;
-  onRegenerate: (id: string) => void;
+  onEditScript: (request: ScriptEditRequest) => void;
+  onSwitchTake: (sceneId: string, takeId: string) => void;
+  isEditingScript?: boolean;
+  /** Words the voiceover should fit in, given the storyboard duration */
+  wordBudget?: number;
+  tone?: string;
+  /** Narrative format beat the scene was written for, e.g. "Hook" */
+  beatLabel?: string;
+  /** Narrator plus characters; set for multi-voice storyboards only */
+  speakers?: DialogueSpeaker[];
+  onUpdateDialogue?: (sceneId: string, lines: DialogueLine[]) => void;
   onClick: () => void;
 }
 
+const TAKE_LABELS: Record<SceneTakeSource, string> = {
+  original: 'Original',
+  rewrite: 'Rewrite',
+  insert: 'Inserted',
+  split: 'Split',
+  tone: 'Tone',
+  manual: 'Edited',
+};
+
 export const SceneCard = ({
   scene,
   sceneNumber,
   isActive,
   onUpdate,
-  onRegenerate,
+  onEditScript,
+  onSwitchTake,
+  isEditingScript = false,
+  wordBudget,
+  tone,
+  beatLabel,
+  speakers,
+  onUpdateDialogue,
   onClick,
 }: SceneCardProps) => {
   const [voiceOverText, setVoiceOverText] = useState(scene.voice_over_text);
   const [imagePrompt, setImagePrompt] = useState(scene.image_prompt);
   const [isSaving, setIsSaving] = useState(false);
-  const [showRegenerateDialog, setShowRegenerateDialog] = useState(false);
+  const [scriptAction, setScriptAction] = useState<ScriptEditAction | null>(null);
+
+  const takes = toSceneTakes(scene.takes);
+  const activeTake = getActiveTake({ voiceOverText, imagePrompt }, takes);
+  const wordCount = countWords(voiceOverText);
+  const isOverBudget = wordBudget !== undefined && wordCount > wordBudget;
 
   // Sync local state when scene prop changes (e.g., from regeneration)
   useEffect(() => {
@@ -77,9 +113,17 @@ export const SceneCard = ({
     return () => clearTimeout(timer);
   }, [imagePrompt, scene.id, scene.image_prompt, onUpdate]);
 
-  const handleRegenerate = () => {
-    setShowRegenerateDialog(false);
-    onRegenerate(scene.id);
+  const handleDialogueSave = useCallback((lines: DialogueLine[]) => {
+    onUpdateDialogue?.(scene.id, lines);
+  }, [onUpdateDialogue, scene.id]);
+
+  const handleScriptEdit = (request: Omit<ScriptEditRequest, 'sceneId'>) => {
+    setScriptAction(null);
+    onEditScript({ ...request, sceneId: scene.id });
+  };
+
+  const openScriptAction = (action: ScriptEditAction) => {
+    setScriptAction(action);
   };
 
   return (
@@ -100,11 +144,21 @@ export const SceneCard = ({
             <div className="px-2 py-1 rounded-md bg-primary/20 text-primary text-xs font-bold">
               Scene {sceneNumber}
             </div>
+            {beatLabel && (
+              <div className="px-2 py-1 rounded-md bg-muted text-muted-foreground text-xs font-medium">
+                {beatLabel}
+              </div>
+            )}
             {scene.is_edited && (
               <div className="px-2 py-1 rounded-md bg-accent/20 text-accent text-xs font-bold">
                 Edited
               </div>
             )}
+            {scene.format_fields && Object.keys(scene.format_fields).length > 0 && (
+              <span className="text-xs text-muted-foreground truncate max-w-[200px]">
+                {Object.values(scene.format_fields).join(' · ')}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             {isSaving && (
@@ -113,31 +167,97 @@ export const SceneCard = ({
                 Saving...
               </div>
             )}
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={(e) => {
-                e.stopPropagation();
-                setShowRegenerateDialog(true);
-              }}
-              className="h-8 px-2"
-            >
-              <RefreshCw className="w-4 h-4" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={(e) => { e.stopPropagation(); }}
+                  className="h-8 px-2"
+                  disabled={isEditingScript}
+                  aria-label="Script actions"
+                >
+                  {isEditingScript ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => { e.stopPropagation(); }}>
+                <DropdownMenuItem onSelect={() => { openScriptAction({ operation: 'rewrite' }); }}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Rewrite scene
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { openScriptAction({ operation: 'split' }); }}>
+                  <Scissors className="w-4 h-4 mr-2" />
+                  Split into two scenes
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => { openScriptAction({ operation: 'insert', position: 'before' }); }}>
+                  <ArrowUpToLine className="w-4 h-4 mr-2" />
+                  Insert scene before
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { openScriptAction({ operation: 'insert', position: 'after' }); }}>
+                  <ArrowDownToLine className="w-4 h-4 mr-2" />
+                  Insert scene after
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => { openScriptAction({ operation: 'tone' }); }}>
+                  <Palette className="w-4 h-4 mr-2" />
+                  Change tone from here
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
-        {/* Voiceover */}
-        <div className="space-y-2 mb-4">
-          <Label className="text-xs font-semibold text-muted-foreground">🎤 Voiceover</Label>
-          <Textarea
-            value={voiceOverText}
-            onChange={(e) => setVoiceOverText(e.target.value)}
-            onClick={(e) => e.stopPropagation()}
-            className="min-h-[80px] text-sm bg-background/50"
-            maxLength={1000}
-          />
-        </div>
+        {/* Alternate takes */}
+        {takes.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1 mb-4" onClick={(e) => { e.stopPropagation(); }}>
+            <span className="text-xs text-muted-foreground mr-1">Takes:</span>
+            {takes.map((take, index) => (
+              <Button
+                key={take.id}
+                size="sm"
+                variant={activeTake?.id === take.id ? 'default' : 'outline'}
+                className="h-6 px-2 text-xs"
+                title={take.note ?? undefined}
+                disabled={isEditingScript || activeTake?.id === take.id}
+                onClick={() => { onSwitchTake(scene.id, take.id); }}
+              >
+                {index + 1} · {TAKE_LABELS[take.source]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Voiceover - spoken as dialogue lines in multi-voice storyboards */}
+        {speakers ? (
+          <div className="mb-4">
+            <DialogueLinesEditor
+              lines={getSceneLines(scene, speakers)}
+              speakers={speakers}
+              onSave={handleDialogueSave}
+              wordBudget={wordBudget}
+              onSavingChange={setIsSaving}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2 mb-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-semibold text-muted-foreground">🎤 Voiceover</Label>
+              {wordBudget !== undefined && (
+                <span className={cn('text-xs', isOverBudget ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+                  {wordCount}/{wordBudget} words
+                </span>
+              )}
+            </div>
+            <Textarea
+              value={voiceOverText}
+              onChange={(e) => setVoiceOverText(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              className="min-h-[80px] text-sm bg-background/50"
+              maxLength={1000}
+            />
+          </div>
+        )}
 
         {/* Image Prompt */}
         <div className="space-y-2">
@@ -152,23 +272,13 @@ export const SceneCard = ({
         </div>
       </Card>
 
-      <AlertDialog open={showRegenerateDialog} onOpenChange={setShowRegenerateDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Regenerate Scene {sceneNumber}?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This will use AI to create a new version of this scene. It will cost 50 credits.
-              Your edits will be replaced with the new content.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleRegenerate}>
-              Regenerate (50 credits)
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <ScriptEditDialog
+        action={scriptAction}
+        sceneNumber={sceneNumber}
+        currentTone={tone}
+        onOpenChange={(open) => { if (!open) setScriptAction(null); }}
+        onConfirm={handleScriptEdit}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -6,18 +6,29 @@
 import { SceneCard } from './SceneCard';
 import { ScenePreviewGenerator } from './ScenePreviewGenerator';
 import type { Scene } from '@/types/storyboard';
+import type { CastMember } from '@shared/storyboard-cast';
+import type { DialogueLine, DialogueSpeaker } from '@shared/storyboard-dialogue';
+import type { ScriptEditRequest } from '@/hooks/storyboard/useStoryboardScenes';
 
 interface SceneCardWithPreviewProps {
   scene: Scene;
   sceneNumber: number;
   isActive: boolean;
   onUpdate: (sceneId: string, field: string, value: string) => void;
-  onRegenerate: (sceneId: string) => void;
+  onEditScript: (request: ScriptEditRequest) => void;
+  onSwitchTake: (sceneId: string, takeId: string) => void;
+  isEditingScript?: boolean;
+  wordBudget?: number;
+  tone?: string;
+  beatLabel?: string;
+  speakers?: DialogueSpeaker[];
+  onUpdateDialogue?: (sceneId: string, lines: DialogueLine[]) => void;
   onClick: () => void;
   onImageGenerated: (sceneId: string, imageUrl: string) => void;
   aspectRatio?: string | null;
   nextSceneImageUrl?: string | null;
   hasNextScene?: boolean;
+  cast?: CastMember[];
 }
 
 /**
@@ -29,12 +40,20 @@ export const SceneCardWithPreview = ({
   sceneNumber,
   isActive,
   onUpdate,
-  onRegenerate,
+  onEditScript,
+  onSwitchTake,
+  isEditingScript,
+  wordBudget,
+  tone,
+  beatLabel,
+  speakers,
+  onUpdateDialogue,
   onClick,
   onImageGenerated,
   aspectRatio,
   nextSceneImageUrl,
   hasNextScene,
+  cast,
 }: SceneCardWithPreviewProps) => {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
@@ -44,7 +63,14 @@ export const SceneCardWithPreview = ({
           sceneNumber={sceneNumber}
           isActive={isActive}
           onUpdate={onUpdate}
-          onRegenerate={onRegenerate}
+          onEditScript={onEditScript}
+          onSwitchTake={onSwitchTake}
+          isEditingScript={isEditingScript}
+          wordBudget={wordBudget}
+          tone={tone}
+          beatLabel={beatLabel}
+          speakers={speakers}
+          onUpdateDialogue={onUpdateDialogue}
           onClick={onClick}
         />
       </div>
@@ -56,6 +82,7 @@ export const SceneCardWithPreview = ({
           aspectRatio={aspectRatio}
           nextSceneImageUrl={nextSceneImageUrl}
           hasNextScene={hasNextScene}
+          cast={cast}
         />
       </div>
     </div>
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Loader2, Sparkles, RefreshCw, Image as ImageIcon, Video, CheckCircle2, Clock } from 'lucide-react';
+import { Loader2, Sparkles, RefreshCw, Image as ImageIcon, Video, CheckCircle2, Clock, Users, AlertTriangle } from 'lucide-react';
 import { useGeneration } from '@/hooks/useGeneration';
 import { useModels } from '@/hooks/useModels';
 import { useUserCredits } from '@/hooks/useUserCredits';
@@ -14,7 +14,12 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { ModelFamilySelector } from '@/components/custom-creation/ModelFamilySelector';
-import { getModelStoryboardDefaults } from '@/lib/models/storyboard-defaults-registry';
+import {
+  getCastModelRecordId,
+  getCastStoryboardRequest,
+  getModelStoryboardDefaults,
+} from '@/lib/models/storyboard-defaults-registry';
+import { getDriftedCast, getSceneCast, type CastMember, type SceneConsistency } from '@shared/storyboard-cast';
 import { logger } from '@/lib/logger';
 
 
@@ -24,6 +29,7 @@ interface Scene {
   image_prompt: string;
   image_preview_url?: string | null;
   video_url?: string | null;
+  consistency?: SceneConsistency | null;
 }
 
 interface ScenePreviewGeneratorProps {
@@ -33,6 +39,7 @@ interface ScenePreviewGeneratorProps {
   aspectRatio?: string | null;
   nextSceneImageUrl?: string | null;
   hasNextScene?: boolean;
+  cast?: CastMember[];
 }
 
 export const ScenePreviewGenerator = ({
@@ -42,6 +49,7 @@ export const ScenePreviewGenerator = ({
   aspectRatio,
   nextSceneImageUrl,
   hasNextScene,
+  cast = [],
 }: ScenePreviewGeneratorProps) => {
   const [generationMode, setGenerationMode] = useState<'regenerate' | 'animate'>('regenerate');
   const [connectToNextScene, setConnectToNextScene] = useState(false);
@@ -326,7 +334,14 @@ export const ScenePreviewGenerator = ({
   }, [generationMode]);
 
   const selectedModel = availableModels.find(m => m.record_id === selectedModelId);
-  const tokenCost = selectedModel?.base_token_cost || 0;
+
+  // Cast the scene shows - images carry their references, which may need a reference-image model
+  const sceneCast = getSceneCast(scene.image_prompt || '', cast);
+  const usesCast = generationMode === 'regenerate' && sceneCast.length > 0;
+  const generationModelId = usesCast ? getCastModelRecordId(selectedModelId, sceneCast) : selectedModelId;
+  const generationModel = (models ?? []).find(m => m.record_id === generationModelId) ?? selectedModel;
+  const tokenCost = generationModel?.base_token_cost || 0;
+  const driftedCast = getDriftedCast(scene.consistency, scene.image_preview_url);
 
   const handleGenerate = async (isFreeRetry = false) => {
     if (!scene.image_prompt) {
@@ -381,15 +396,21 @@ export const ScenePreviewGenerator = ({
       connectToNextScene: connectToNextScene,
     };
 
-    // Try to get storyboard-specific defaults for this model
-    const storyboardDefaults = selectedModelId 
-      ? getModelStoryboardDefaults(selectedModelId, storyboardContext)
+    // Inject the scene's cast, or try to get storyboard-specific defaults for this model
+    const castRequest = usesCast && selectedModelId
+      ? getCastStoryboardRequest(selectedModelId, storyboardContext, cast)
       : null;
+    const storyboardDefaults = castRequest
+      ? castRequest.parameters
+      : selectedModelId 
+        ? getModelStoryboardDefaults(selectedModelId, storyboardContext)
+        : null;
 
     logger.debug('Scene generation initiated', {
       component: 'ScenePreviewGenerator',
       sceneId: scene.id,
       usingStoryboardDefaults: !!storyboardDefaults,
+      castMembers: castRequest?.sceneCast.length ?? 0,
       generationMode,
       hasDisplayUrl: !!displayUrl,
       operation: 'handleGeneratePreview'
@@ -409,8 +430,8 @@ export const ScenePreviewGenerator = ({
 
     try {
       const generationResult = await generate({
-        model_record_id: selectedModelId,
-        prompt: scene.image_prompt,
+        model_record_id: castRequest?.modelRecordId ?? selectedModelId,
+        prompt: castRequest?.prompt ?? scene.image_prompt,
         custom_parameters: customParams,
       });
 
@@ -535,6 +556,35 @@ export const ScenePreviewGenerator = ({
         </div>
       )}
 
+      {/* Cast in this scene, flagged where the last check found drift */}
+      {sceneCast.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <Users className="w-3.5 h-3.5 text-muted-foreground" />
+            {sceneCast.map(member => (
+              <Badge
+                key={member.id}
+                variant="outline"
+                className={cn(
+                  'text-xs',
+                  driftedCast.some(result => result.castId === member.id) && 'border-destructive/50 text-destructive'
+                )}
+              >
+                {member.name}
+              </Badge>
+            ))}
+          </div>
+          {driftedCast.length > 0 && (
+            <p className="flex items-start gap-1.5 text-xs text-destructive">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>
+                Drifts from the cast: {driftedCast.map(result => result.issue ? `${result.name} (${result.issue})` : result.name).join(', ')}. Regenerate to bring it back in line.
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Horizontal Layout: Grid on Left, Preview on Right */}
       <div className={cn(
         "mb-4",
@@ -610,7 +660,7 @@ export const ScenePreviewGenerator = ({
                   <>
                     <p className="text-sm font-medium">Submitting generation...</p>
                     <p className="text-xs text-muted-foreground">
-                      Using {selectedModel?.model_name || 'AI model'}
+                      Using {generationModel?.model_name || 'AI model'}
                     </p>
                   </>
                 ) : (
@@ -779,7 +829,7 @@ export const ScenePreviewGenerator = ({
                       ) : (
                         <>
                           <RefreshCw className="w-4 h-4 mr-2" />
-                          Regenerate with {selectedModel?.model_name} ({tokenCost} credit{tokenCost !== 1 ? 's' : ''})
+                          Regenerate with {generationModel?.model_name} ({tokenCost} credit{tokenCost !== 1 ? 's' : ''})
                         </>
                       )}
                     </Button>
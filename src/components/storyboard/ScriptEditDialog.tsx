@@ -0,0 +1,123 @@
+/**
+ * Script Edit Dialog Component
+ * Confirms a script operation on a scene and collects its direction or tone
+ */
+
+import { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ToneSelector } from './sections/ToneSelector';
+import { MAX_SCRIPT_INSTRUCTION_LENGTH, SCRIPT_EDIT_COST } from '@shared/storyboard-script';
+import type { ScriptEditRequest } from '@/hooks/storyboard/useStoryboardScenes';
+
+export type ScriptEditAction = Pick<ScriptEditRequest, 'operation' | 'position'>;
+
+interface ScriptEditDialogProps {
+  action: ScriptEditAction | null;
+  sceneNumber: number;
+  currentTone?: string;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (request: Omit<ScriptEditRequest, 'sceneId'>) => void;
+}
+
+const describe = (action: ScriptEditAction, sceneNumber: number) => {
+  switch (action.operation) {
+    case 'rewrite':
+      return {
+        title: `Rewrite Scene ${String(sceneNumber)}?`,
+        description: 'A new take is written that flows from the scene before into the scene after. The current text stays in the take history.',
+      };
+    case 'insert':
+      return {
+        title: `Insert a scene ${action.position === 'before' ? 'before' : 'after'} Scene ${String(sceneNumber)}?`,
+        description: 'A new scene is written to bridge its neighbours. The video keeps its duration, so every scene gets a slightly smaller word budget.',
+      };
+    case 'split':
+      return {
+        title: `Split Scene ${String(sceneNumber)}?`,
+        description: 'The scene is rewritten as two consecutive scenes. The video keeps its duration, so every scene gets a slightly smaller word budget.',
+      };
+    case 'tone':
+      return {
+        title: `Change the tone from Scene ${String(sceneNumber)}?`,
+        description: 'This scene and every scene after it are retold in the new tone, keeping what they say. Earlier scenes are left as they are.',
+      };
+  }
+};
+
+export const ScriptEditDialog = ({
+  action,
+  sceneNumber,
+  currentTone = 'engaging',
+  onOpenChange,
+  onConfirm,
+}: ScriptEditDialogProps) => {
+  const [instruction, setInstruction] = useState('');
+  const [tone, setTone] = useState(currentTone);
+
+  // Start each operation from a clean slate
+  useEffect(() => {
+    if (action) {
+      setInstruction('');
+      setTone(currentTone);
+    }
+  }, [action, currentTone]);
+
+  if (!action) return null;
+
+  const { title, description } = describe(action, sceneNumber);
+  const isToneChange = action.operation === 'tone';
+
+  const handleConfirm = () => {
+    onConfirm({
+      ...action,
+      instruction: instruction.trim() || undefined,
+      tone: isToneChange ? tone : undefined,
+    });
+  };
+
+  return (
+    <AlertDialog open onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isToneChange ? (
+          <ToneSelector tone={tone} onToneChange={setTone} />
+        ) : (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Direction (optional)</Label>
+            <Textarea
+              value={instruction}
+              onChange={(e) => { setInstruction(e.target.value); }}
+              className="min-h-[80px] text-sm"
+              maxLength={MAX_SCRIPT_INSTRUCTION_LENGTH}
+              placeholder={action.operation === 'split'
+                ? 'e.g. end the first half on a question'
+                : 'e.g. mention the anglerfish, make it punchier'}
+            />
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm}>
+            Continue ({SCRIPT_EDIT_COST} credits)
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,394 @@
+/**
+ * Storyboard Cast Panel Component
+ * Edits the cast and style bible and checks scene images against it
+ */
+
+import { useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, Plus, Pencil, Trash2, Upload, X, Dices, ScanSearch, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import {
+  CAST_KINDS,
+  CONSISTENCY_CHECK_COST,
+  MAX_CAST_DESCRIPTION_LENGTH,
+  MAX_CAST_MEMBERS,
+  MAX_CAST_REFERENCE_IMAGES,
+  getCheckableCast,
+  getSceneCast,
+  isCastKind,
+  parseAliases,
+  type CastKind,
+  type CastMember,
+} from '@shared/storyboard-cast';
+import type { CastMemberInput } from '@/hooks/storyboard/useStoryboardCast';
+
+interface Scene {
+  id: string;
+  image_prompt: string;
+  image_preview_url?: string | null;
+}
+
+interface StoryboardCastPanelProps {
+  cast: CastMember[];
+  scenes: Scene[];
+  onSave: (member: CastMemberInput, id?: string) => Promise<void>;
+  isSaving: boolean;
+  onRemove: (castId: string) => void;
+  onUploadReference: (file: File) => Promise<string>;
+  onCheckConsistency: () => void;
+  isChecking: boolean;
+  disabled?: boolean;
+}
+
+interface CastDraft {
+  kind: CastKind;
+  name: string;
+  aliases: string;
+  description: string;
+  referenceImageUrls: string[];
+  seed: string;
+}
+
+const KIND_LABELS: Record<CastKind, string> = {
+  character: 'Character',
+  location: 'Location',
+  style: 'Style',
+};
+
+const EMPTY_DRAFT: CastDraft = {
+  kind: 'character',
+  name: '',
+  aliases: '',
+  description: '',
+  referenceImageUrls: [],
+  seed: '',
+};
+
+const toDraft = (member: CastMember): CastDraft => ({
+  kind: member.kind,
+  name: member.name,
+  aliases: member.aliases.join(', '),
+  description: member.description,
+  referenceImageUrls: member.referenceImageUrls,
+  seed: member.seed === null ? '' : String(member.seed),
+});
+
+/**
+ * Cast list with an inline editor for one entry at a time
+ * Entries are injected into every scene whose prompt mentions them
+ */
+export const StoryboardCastPanel = ({
+  cast,
+  scenes,
+  onSave,
+  isSaving,
+  onRemove,
+  onUploadReference,
+  onCheckConsistency,
+  isChecking,
+  disabled = false,
+}: StoryboardCastPanelProps) => {
+  // null = not editing, 'new' = adding an entry
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CastDraft>(EMPTY_DRAFT);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Only scene images that show a cast entry with something to compare against
+  const checkableScenes = scenes.filter(scene =>
+    scene.image_preview_url && getCheckableCast(getSceneCast(scene.image_prompt || '', cast)).length > 0
+  ).length;
+  const checkCost = Math.round(CONSISTENCY_CHECK_COST * checkableScenes * 100) / 100;
+
+  const parsedSeed = draft.seed.trim() === '' ? null : Number(draft.seed);
+  const isSeedValid = parsedSeed === null || (Number.isInteger(parsedSeed) && parsedSeed >= 0);
+  const canSave = draft.name.trim().length > 0 && isSeedValid && !isSaving;
+
+  const startEditing = (member?: CastMember) => {
+    setEditingId(member ? member.id : 'new');
+    setDraft(member ? toDraft(member) : EMPTY_DRAFT);
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave({
+        kind: draft.kind,
+        name: draft.name.trim(),
+        aliases: parseAliases(draft.aliases),
+        description: draft.description.trim(),
+        referenceImageUrls: draft.referenceImageUrls,
+        seed: parsedSeed,
+      }, editingId === 'new' ? undefined : (editingId ?? undefined));
+      stopEditing();
+    } catch {
+      // useStoryboardCast already reported the failure
+    }
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    const room = MAX_CAST_REFERENCE_IMAGES - draft.referenceImageUrls.length;
+    const selected = Array.from(files ?? []).filter(file => file.type.startsWith('image/')).slice(0, room);
+    if (selected.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      const urls = await Promise.all(selected.map(file => onUploadReference(file)));
+      setDraft(prev => ({
+        ...prev,
+        referenceImageUrls: [...prev.referenceImageUrls, ...urls].slice(0, MAX_CAST_REFERENCE_IMAGES),
+      }));
+    } catch (error) {
+      logger.error('Reference image upload failed', error instanceof Error ? error : new Error(String(error)), {
+        component: 'StoryboardCastPanel',
+        operation: 'handleUpload'
+      });
+      toast.error('Failed to upload reference image');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const removeReference = (url: string) => {
+    setDraft(prev => ({ ...prev, referenceImageUrls: prev.referenceImageUrls.filter(u => u !== url) }));
+  };
+
+  return (
+    <Card className="p-4 bg-primary/5 border-primary/30">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h4 className="font-semibold flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Cast & Style Bible
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              Scenes that mention a name get its description, reference images and seed
+            </p>
+          </div>
+          {editingId === null && cast.length < MAX_CAST_MEMBERS && (
+            <Button size="sm" variant="outline" onClick={() => { startEditing(); }} disabled={disabled}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+
+        {cast.length > 0 && (
+          <div className="space-y-2">
+            {cast.map(member => (
+              <div key={member.id} className="flex items-start gap-3 rounded-md border border-border/50 bg-background/50 p-2">
+                {member.referenceImageUrls[0] && (
+                  <img
+                    src={member.referenceImageUrls[0]}
+                    alt={member.name}
+                    className="w-10 h-10 rounded object-cover shrink-0"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">{member.name}</span>
+                    <Badge variant="secondary" className="text-xs">{KIND_LABELS[member.kind]}</Badge>
+                    {member.seed !== null && (
+                      <span className="text-xs text-muted-foreground">seed {member.seed}</span>
+                    )}
+                  </div>
+                  {member.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{member.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => { startEditing(member); }}
+                    disabled={disabled || editingId !== null}
+                    aria-label={`Edit ${member.name}`}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => { onRemove(member.id); }}
+                    disabled={disabled || editingId !== null}
+                    aria-label={`Remove ${member.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {editingId !== null && (
+          <div className="space-y-3 rounded-md border border-border/50 bg-background/50 p-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <div className="space-y-1 sm:col-span-2">
+                <Label className="text-xs">Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => { setDraft(prev => ({ ...prev, name: e.target.value })); }}
+                  maxLength={80}
+                  placeholder={draft.kind === 'style' ? 'e.g. Noir look' : 'e.g. Mia'}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Type</Label>
+                <Select
+                  value={draft.kind}
+                  onValueChange={(value) => {
+                    if (isCastKind(value)) setDraft(prev => ({ ...prev, kind: value }));
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CAST_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {draft.kind !== 'style' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Also called (comma separated)</Label>
+                <Input
+                  value={draft.aliases}
+                  onChange={(e) => { setDraft(prev => ({ ...prev, aliases: e.target.value })); }}
+                  placeholder="e.g. the detective, Mia Stone"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-xs">
+                {draft.kind === 'style' ? 'Look (applied to every scene)' : 'Description'}
+              </Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => { setDraft(prev => ({ ...prev, description: e.target.value })); }}
+                className="min-h-[60px] text-sm"
+                maxLength={MAX_CAST_DESCRIPTION_LENGTH}
+                placeholder={draft.kind === 'style'
+                  ? 'e.g. high-contrast film noir, 35mm grain'
+                  : 'e.g. red-haired woman in a green trench coat'}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">
+                Reference images ({draft.referenceImageUrls.length}/{MAX_CAST_REFERENCE_IMAGES})
+              </Label>
+              <div className="flex flex-wrap gap-2">
+                {draft.referenceImageUrls.map(url => (
+                  <div key={url} className="relative">
+                    <img src={url} alt="Reference" className="w-14 h-14 rounded object-cover" />
+                    <button
+                      type="button"
+                      className="absolute -top-1 -right-1 rounded-full bg-background border p-0.5"
+                      onClick={() => { removeReference(url); }}
+                      aria-label="Remove reference image"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                {draft.referenceImageUrls.length < MAX_CAST_REFERENCE_IMAGES && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-14 h-14"
+                    onClick={() => { fileInputRef.current?.click(); }}
+                    disabled={isUploading}
+                    aria-label="Upload reference image"
+                  >
+                    {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  </Button>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => { void handleUpload(e.target.files); }}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Seed (optional)</Label>
+              <div className="flex gap-2">
+                <Input
+                  value={draft.seed}
+                  onChange={(e) => { setDraft(prev => ({ ...prev, seed: e.target.value.replace(/[^0-9]/g, '') })); }}
+                  inputMode="numeric"
+                  placeholder="Random"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => { setDraft(prev => ({ ...prev, seed: String(Math.floor(Math.random() * 2147483647)) })); }}
+                  aria-label="Pick a random seed"
+                >
+                  <Dices className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={stopEditing} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => { void handleSave(); }} disabled={!canSave || isUploading}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {cast.length > 0 && editingId === null && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => { onCheckConsistency(); }}
+            disabled={disabled || isChecking || checkableScenes === 0}
+          >
+            {isChecking ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ScanSearch className="w-4 h-4 mr-2" />
+            )}
+            Check consistency
+            {checkableScenes > 0 && (
+              <span className="ml-2 text-xs text-muted-foreground">
+                {checkableScenes} scene{checkableScenes !== 1 ? 's' : ''} · {checkCost} credits
+              </span>
+            )}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
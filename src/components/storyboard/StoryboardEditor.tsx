@@ -17,6 +17,11 @@ import { useIntroSceneSync } from '@/hooks/storyboard/useIntroSceneSync';
 import { useStoryboardKeyboardNav } from '@/hooks/storyboard/useStoryboardKeyboardNav';
 import { useStoryboardAutoCollapse } from '@/hooks/storyboard/useStoryboardAutoCollapse';
 import { validateScenesComplete, hasInsufficientCredits } from '@/lib/storyboard-validation';
+import { getWordBudget } from '@shared/storyboard-script';
+import { getFormatWordRate } from '@shared/narrative-formats';
+import { useNarrativeFormats } from '@/hooks/storyboard/useNarrativeFormats';
+import { getDialogueSpeakers, toDialogueCharacters } from '@shared/storyboard-dialogue';
+import { getTimedSceneWords } from '@shared/storyboard-import';
 import { RenderStatusAlert } from './RenderStatusAlert';
 import { StuckVideoAlert } from './StuckVideoAlert';
 import { StoryboardHeader } from './StoryboardHeader';
@@ -29,6 +34,8 @@ import { RerenderConfirmDialog } from './RerenderConfirmDialog';
 import { FinalVideoPlayer } from './FinalVideoPlayer';
 import { BulkPreviewGenerator } from './BulkPreviewGenerator';
 import { BulkAnimationGenerator } from './BulkAnimationGenerator';
+import { StoryboardCastPanel } from './StoryboardCastPanel';
+import { StoryboardSpeakersPanel } from './StoryboardSpeakersPanel';
 import { GeneratingOutputConsole } from './GeneratingOutputConsole';
 import { SubtitleCustomizer } from './SubtitleCustomizer';
 import type { SubtitleSettings } from '@/types/subtitle';
@@ -44,8 +51,11 @@ export const StoryboardEditor = () => {
     renderProgress,
     renderingStartTime,
     updateScene,
+    updateSceneDialogue,
     updateIntroScene,
-    regenerateScene,
+    editScript,
+    isEditingScript,
+    switchSceneTake,
     setActiveScene,
     navigateScene,
     renderVideo,
@@ -56,9 +66,17 @@ export const StoryboardEditor = () => {
     updateRenderSettings,
     generateAllScenePreviews,
     generateAllSceneAnimations,
+    cast,
+    saveCastMember,
+    isSavingCast,
+    removeCastMember,
+    uploadReferenceImage,
+    checkConsistency,
+    isCheckingConsistency,
   } = useStoryboard();
   
   const { availableCredits } = useUserCredits();
+  const { formats } = useNarrativeFormats();
   
   // Video URL
   const { url: videoSignedUrl, isLoading: isLoadingVideo } = useVideoUrl(
@@ -161,6 +179,20 @@ export const StoryboardEditor = () => {
   const isQuickMode = storyboard.render_mode === 'quick';
   const isCustomMode = storyboard.style === 'custom';
   const isAIGeneratedMode = !isCustomMode && storyboard.style !== 'blackboard';
+  const narrativeFormat = formats.find((format) => format.id === storyboard.narrative_format);
+  // Inserting or splitting scenes shares the same duration across more scenes
+  const { perScene: wordBudget } = getWordBudget(
+    storyboard.duration,
+    scenes.length,
+    narrativeFormat ? getFormatWordRate(narrativeFormat) : undefined
+  );
+  // Dialogue storyboards edit speaker-tagged lines instead of a single voiceover
+  const dialogueCharacters = toDialogueCharacters(storyboard.dialogue_characters);
+  const allSpeakers = getDialogueSpeakers(
+    { voiceId: storyboard.voice_id, voiceName: storyboard.voice_name, voiceModel: storyboard.voice_model },
+    dialogueCharacters
+  );
+  const speakers = dialogueCharacters.length > 0 ? allSpeakers : undefined;
   
   return (
     <div className="space-y-6">
@@ -195,6 +227,26 @@ export const StoryboardEditor = () => {
           isRendering={isRendering}
           isComplete={storyboard.status === 'complete'}
         >
+          <StoryboardCastPanel
+            cast={cast}
+            scenes={scenes}
+            onSave={saveCastMember}
+            isSaving={isSavingCast}
+            onRemove={removeCastMember}
+            onUploadReference={uploadReferenceImage}
+            onCheckConsistency={() => { checkConsistency(); }}
+            isChecking={isCheckingConsistency}
+            disabled={isRendering}
+          />
+
+          <StoryboardSpeakersPanel
+            speakers={allSpeakers}
+            onChange={(characters) => {
+              updateRenderSettings({ dialogue_characters: characters as unknown as Json });
+            }}
+            disabled={isRendering}
+          />
+
           {/* Bulk generators only for AI-generated storyboards */}
           {isAIGeneratedMode && (
             <>
@@ -222,6 +274,7 @@ export const StoryboardEditor = () => {
             onImageGenerated={handleImageGenerated}
             hasNextScene={scenes.length > 0}
             nextSceneImageUrl={scenes[0]?.image_preview_url || null}
+            cast={cast}
           />
           
           {scenes.map((scene, idx) => {
@@ -237,12 +290,20 @@ export const StoryboardEditor = () => {
                 sceneNumber={idx + 2}
                 isActive={activeSceneId === scene.id}
                 onUpdate={updateScene}
-                onRegenerate={regenerateScene}
+                onEditScript={editScript}
+                onSwitchTake={switchSceneTake}
+                isEditingScript={isEditingScript}
+                wordBudget={getTimedSceneWords(scene) ?? wordBudget}
+                tone={storyboard.tone}
+                beatLabel={narrativeFormat?.beats.find((beat) => beat.id === scene.beat)?.label}
                 onClick={() => setActiveScene(scene.id)}
                 onImageGenerated={handleImageGenerated}
                 aspectRatio={storyboard?.aspect_ratio}
                 nextSceneImageUrl={nextSceneImageUrl}
                 hasNextScene={hasNextScene}
+                cast={cast}
+                speakers={speakers}
+                onUpdateDialogue={updateSceneDialogue}
               />
             );
           })}
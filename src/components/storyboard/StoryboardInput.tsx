@@ -3,6 +3,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useStoryboard } from '@/hooks/useStoryboard';
 import { useUserCredits } from '@/hooks/useUserCredits';
 import { useStoryboardForm } from '@/hooks/storyboard/useStoryboardForm';
+import { useNarrativeFormats } from '@/hooks/storyboard/useNarrativeFormats';
+import { DEFAULT_NARRATIVE_FORMAT_ID, getFormatSceneCount } from '@shared/narrative-formats';
+import { MAX_DIALOGUE_CHARACTERS, parseCharacterNames } from '@shared/storyboard-dialogue';
+import { importScript } from '@shared/storyboard-import';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Film, Loader2, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
 import { TopicSection } from './sections/TopicSection';
@@ -10,17 +15,29 @@ import { DurationSection } from './sections/DurationSection';
 import { ResolutionSelector } from './sections/ResolutionSelector';
 import { StyleSelector } from './sections/StyleSelector';
 import { ToneSelector } from './sections/ToneSelector';
+import { NarrativeFormatSelector } from './sections/NarrativeFormatSelector';
+import { DialogueCharactersSection } from './sections/DialogueCharactersSection';
 import { MediaTypeSelector } from './sections/MediaTypeSelector';
+import { ImportScriptSection } from './sections/ImportScriptSection';
 import { CostDisplay } from './sections/CostDisplay';
 
 export function StoryboardInput() {
-  const { formState, updateField, estimatedRenderCost, canGenerate } = useStoryboardForm();
+  const { formState, updateField, estimatedRenderCost, costDuration, canGenerate } = useStoryboardForm();
   const { generateStoryboard, isGenerating } = useStoryboard();
   const { availableCredits } = useUserCredits();
+  const { formats } = useNarrativeFormats();
+
+  // A saved draft may name a format that has since been removed
+  const narrativeFormat = formats.find((format) => format.id === formState.narrativeFormat)
+    ?? formats.find((format) => format.id === DEFAULT_NARRATIVE_FORMAT_ID);
+
+  const isImport = formState.source === 'import';
 
   const handleGenerate = async () => {
     if (!canGenerate) {
-      if (formState.topic.length < 5) {
+      if (isImport) {
+        toast.error('Paste or upload a script to import', { id: 'topic-error' });
+      } else if (formState.topic.length < 5) {
         toast.error('Topic must be at least 5 characters', { id: 'topic-error' });
       } else if (formState.topic.length > 500) {
         toast.error('Topic must be less than 500 characters', { id: 'topic-error' });
@@ -28,11 +45,32 @@ export function StoryboardInput() {
       return;
     }
 
+    // Imports are checked here so the user sees why a script cannot be used
+    let imported: ReturnType<typeof importScript> | null = null;
+    if (isImport) {
+      try {
+        imported = importScript(formState.importText, formState.importFormat);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'This script cannot be imported', { id: 'import-error' });
+        return;
+      }
+    }
+
+    const dialogueCharacters = isImport ? [] : parseCharacterNames(formState.dialogueCharacters);
+    if (dialogueCharacters.length > MAX_DIALOGUE_CHARACTERS) {
+      toast.error(`Up to ${MAX_DIALOGUE_CHARACTERS} dialogue characters are supported`, { id: 'dialogue-error' });
+      return;
+    }
+
     await generateStoryboard({
-      topic: formState.topic,
-      duration: formState.duration,
+      topic: imported?.topic ?? formState.topic,
+      duration: imported?.duration ?? formState.duration,
       style: formState.style,
       tone: formState.tone,
+      narrativeFormat: imported ? undefined : narrativeFormat?.id,
+      dialogueCharacters,
+      importText: imported ? formState.importText : undefined,
+      importFormat: imported ? formState.importFormat : undefined,
       voiceID: formState.voiceID,
       voiceName: formState.voiceName,
       mediaType: formState.mediaType,
@@ -87,17 +125,53 @@ export function StoryboardInput() {
       </CardHeader>
       
       <CardContent className="space-y-4">
-        <TopicSection
-          topic={formState.topic}
-          onTopicChange={(topic) => updateField('topic', topic)}
-          disabled={isGenerating}
-        />
+        <Tabs
+          value={formState.source}
+          onValueChange={(source) => { updateField('source', source as 'topic' | 'import'); }}
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="topic" disabled={isGenerating}>From topic</TabsTrigger>
+            <TabsTrigger value="import" disabled={isGenerating}>Import script</TabsTrigger>
+          </TabsList>
+        </Tabs>
 
-        <DurationSection
-          duration={formState.duration}
-          onDurationChange={(duration) => updateField('duration', duration)}
-          disabled={isGenerating}
-        />
+        {isImport ? (
+          <ImportScriptSection
+            importText={formState.importText}
+            importFormat={formState.importFormat}
+            onImportTextChange={(text) => { updateField('importText', text); }}
+            onImportFormatChange={(format) => { updateField('importFormat', format); }}
+            disabled={isGenerating}
+          />
+        ) : (
+          <>
+            <TopicSection
+              topic={formState.topic}
+              onTopicChange={(topic) => updateField('topic', topic)}
+              disabled={isGenerating}
+            />
+
+            <NarrativeFormatSelector
+              formats={formats}
+              narrativeFormat={narrativeFormat?.id ?? DEFAULT_NARRATIVE_FORMAT_ID}
+              onNarrativeFormatChange={(format) => { updateField('narrativeFormat', format); }}
+              disabled={isGenerating}
+            />
+
+            <DialogueCharactersSection
+              dialogueCharacters={formState.dialogueCharacters}
+              onDialogueCharactersChange={(characters) => { updateField('dialogueCharacters', characters); }}
+              disabled={isGenerating}
+            />
+
+            <DurationSection
+              duration={formState.duration}
+              onDurationChange={(duration) => updateField('duration', duration)}
+              sceneCount={narrativeFormat ? getFormatSceneCount(narrativeFormat, formState.duration) : undefined}
+              disabled={isGenerating}
+            />
+          </>
+        )}
 
         <ResolutionSelector
           aspectRatio={formState.aspectRatio}
@@ -124,7 +198,7 @@ export function StoryboardInput() {
         />
 
         <CostDisplay
-          duration={formState.duration}
+          duration={costDuration}
           estimatedCost={estimatedRenderCost}
           tokensRemaining={availableCredits}
         />
@@ -141,7 +215,7 @@ export function StoryboardInput() {
             </>
           ) : (
             <>
-              Generate Storyboard
+              {isImport ? 'Build Storyboard' : 'Generate Storyboard'}
               <Film className="w-4 h-4 ml-2" />
             </>
           )}
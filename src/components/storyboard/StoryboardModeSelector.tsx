@@ -3,9 +3,12 @@
  * Dialog that appears after storyboard generation to let users choose between:
  * - Quick mode: Skip scene editing, go directly to voice/render settings
  * - Customize mode: Full scene editing (current behavior)
+ * The script's narrative format can still be switched here, which rewrites
+ * the new storyboard in the chosen format before either path is taken.
+ * Imported scripts keep the user's own wording, so they have no format to switch.
  */
 
-import { Zap, Palette, Clock, Sparkles } from 'lucide-react';
+import { Zap, Palette, Clock, Sparkles, Loader2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -16,12 +19,20 @@ import {
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { NarrativeFormatSelector } from './sections/NarrativeFormatSelector';
+import type { NarrativeFormat } from '@shared/narrative-formats';
 
 interface StoryboardModeSelectorProps {
   open: boolean;
   onSelectMode: (mode: 'quick' | 'customize') => void;
   sceneCount: number;
   estimatedDuration: number;
+  formats: NarrativeFormat[];
+  narrativeFormat: string;
+  onChangeFormat: (narrativeFormat: string) => void;
+  isRewriting?: boolean;
+  /** Built from an imported script rather than a topic */
+  isImported?: boolean;
 }
 
 export const StoryboardModeSelector = ({
@@ -29,7 +40,14 @@ export const StoryboardModeSelector = ({
   onSelectMode,
   sceneCount,
   estimatedDuration,
+  formats,
+  narrativeFormat,
+  onChangeFormat,
+  isRewriting = false,
+  isImported = false,
 }: StoryboardModeSelectorProps) => {
+  const formatName = formats.find((format) => format.id === narrativeFormat)?.name ?? narrativeFormat;
+
   return (
     <Dialog open={open} onOpenChange={() => {}}>
       <DialogContent 
@@ -40,11 +58,29 @@ export const StoryboardModeSelector = ({
         <DialogHeader className="text-center">
           <DialogTitle className="text-2xl font-bold">Choose Your Path</DialogTitle>
           <DialogDescription className="text-muted-foreground">
-            Your storyboard is ready with {sceneCount} scenes (~{estimatedDuration}s)
+            {isImported
+              ? `Your imported script is ready with ${String(sceneCount)} scenes (~${String(estimatedDuration)}s)`
+              : isRewriting
+                ? `Rewriting your script as ${formatName}...`
+                : `Your ${formatName} storyboard is ready with ${String(sceneCount)} scenes (~${String(estimatedDuration)}s)`}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+        {!isImported && (
+          <div className="flex items-end gap-3 mt-4">
+            <div className="flex-1">
+              <NarrativeFormatSelector
+                formats={formats}
+                narrativeFormat={narrativeFormat}
+                onNarrativeFormatChange={onChangeFormat}
+                disabled={isRewriting}
+              />
+            </div>
+            {isRewriting && <Loader2 className="h-5 w-5 mb-2 animate-spin text-muted-foreground" />}
+          </div>
+        )}
+
+        <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-4 mt-6", isRewriting && "pointer-events-none opacity-50")}>
           {/* Quick Mode */}
           <Card 
             className={cn(
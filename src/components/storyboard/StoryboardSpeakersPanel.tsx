@@ -0,0 +1,182 @@
+/**
+ * Storyboard Speakers Panel Component
+ * Manages dialogue characters: their names, voices and subtitle colours
+ */
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MessagesSquare, Plus, Trash2, Volume2 } from 'lucide-react';
+import { VoiceSelector } from '@/components/generation/VoiceSelector';
+import { getVoiceById } from '@/lib/voice-mapping';
+import {
+  MAX_DIALOGUE_CHARACTERS,
+  MAX_SPEAKER_NAME_LENGTH,
+  NARRATOR_SPEAKER_ID,
+  createCharacter,
+  type DialogueSpeaker,
+} from '@shared/storyboard-dialogue';
+
+interface StoryboardSpeakersPanelProps {
+  /** Narrator followed by the characters */
+  speakers: DialogueSpeaker[];
+  onChange: (characters: DialogueSpeaker[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Speaker list with per-character voice and colour
+ * The narrator speaks with the storyboard's voiceover voice
+ */
+export const StoryboardSpeakersPanel = ({
+  speakers,
+  onChange,
+  disabled = false,
+}: StoryboardSpeakersPanelProps) => {
+  const narrator = speakers.find(speaker => speaker.id === NARRATOR_SPEAKER_ID);
+  const characters = speakers.filter(speaker => speaker.id !== NARRATOR_SPEAKER_ID);
+  const [newName, setNewName] = useState('');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [voiceFor, setVoiceFor] = useState<DialogueSpeaker | null>(null);
+
+  const namesKey = characters.map(c => `${c.id}:${c.name}`).join('|');
+  useEffect(() => {
+    setNames({});
+  }, [namesKey]);
+
+  const updateCharacter = (id: string, changes: Partial<DialogueSpeaker>) => {
+    onChange(characters.map(character => (character.id === id ? { ...character, ...changes } : character)));
+  };
+
+  const commitName = (character: DialogueSpeaker) => {
+    const name = (names[character.id] as string | undefined)?.trim();
+    if (name && name !== character.name) {
+      updateCharacter(character.id, { name });
+    } else {
+      setNames(prev => ({ ...prev, [character.id]: character.name }));
+    }
+  };
+
+  const addCharacter = () => {
+    const name = newName.trim();
+    if (!name || characters.length >= MAX_DIALOGUE_CHARACTERS) return;
+    onChange([...characters, createCharacter(name, characters, narrator?.voiceId ?? '')]);
+    setNewName('');
+  };
+
+  return (
+    <Card className="p-4 bg-primary/5 border-primary/30">
+      <div className="space-y-4">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <MessagesSquare className="w-4 h-4" />
+            Dialogue Voices
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            Characters speak their lines in their own voice, with subtitles in their colour
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {narrator && (
+            <div className="flex items-center gap-3 rounded-md border border-border/50 bg-background/50 p-2">
+              <div className="w-7 h-7 shrink-0" />
+              <span className="text-sm font-medium flex-1">{narrator.name}</span>
+              <Badge variant="secondary" className="text-xs">{narrator.voiceName || 'No voice'}</Badge>
+              <span className="text-xs text-muted-foreground hidden sm:inline">Voiceover voice</span>
+            </div>
+          )}
+          {characters.map(character => (
+            <div key={character.id} className="flex items-center gap-3 rounded-md border border-border/50 bg-background/50 p-2">
+              <input
+                type="color"
+                value={character.color ?? '#FFFFFF'}
+                onChange={(e) => { updateCharacter(character.id, { color: e.target.value.toUpperCase() }); }}
+                className="w-7 h-7 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                disabled={disabled}
+                aria-label={`Subtitle colour for ${character.name}`}
+              />
+              <Input
+                value={names[character.id] ?? character.name}
+                onChange={(e) => { setNames(prev => ({ ...prev, [character.id]: e.target.value })); }}
+                onBlur={() => { commitName(character); }}
+                maxLength={MAX_SPEAKER_NAME_LENGTH}
+                className="h-8 text-sm flex-1"
+                disabled={disabled}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8"
+                onClick={() => { setVoiceFor(character); }}
+                disabled={disabled}
+              >
+                <Volume2 className="w-3.5 h-3.5 mr-1" />
+                <span className="truncate max-w-[100px]">{character.voiceName}</span>
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => { onChange(characters.filter(c => c.id !== character.id)); }}
+                disabled={disabled}
+                aria-label={`Remove ${character.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {characters.length < MAX_DIALOGUE_CHARACTERS && (
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => { setNewName(e.target.value); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') addCharacter(); }}
+              maxLength={MAX_SPEAKER_NAME_LENGTH}
+              placeholder="Add a character, e.g. Mia"
+              className="h-8 text-sm"
+              disabled={disabled}
+            />
+            <Button size="sm" variant="outline" onClick={addCharacter} disabled={disabled || !newName.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+        {characters.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Removing a character hands their lines to the narrator.
+          </p>
+        )}
+      </div>
+
+      <Dialog open={voiceFor !== null} onOpenChange={(open) => { if (!open) setVoiceFor(null); }}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Voice for {voiceFor?.name}</DialogTitle>
+          </DialogHeader>
+          {voiceFor && (
+            <VoiceSelector
+              selectedValue={voiceFor.voiceId}
+              onSelectVoice={(voiceId, voiceName) => {
+                updateCharacter(voiceFor.id, {
+                  voiceId,
+                  voiceName,
+                  voiceModel: getVoiceById(voiceId) ? 'elevenlabs' : 'azure',
+                });
+                setVoiceFor(null);
+              }}
+              showAzureVoices={true}
+              showElevenLabs={true}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,38 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MAX_DIALOGUE_CHARACTERS, parseCharacterNames } from '@shared/storyboard-dialogue';
+
+interface DialogueCharactersSectionProps {
+  dialogueCharacters: string;
+  onDialogueCharactersChange: (characters: string) => void;
+  disabled?: boolean;
+}
+
+export function DialogueCharactersSection({
+  dialogueCharacters,
+  onDialogueCharactersChange,
+  disabled,
+}: DialogueCharactersSectionProps) {
+  const count = parseCharacterNames(dialogueCharacters).length;
+  const isOverLimit = count > MAX_DIALOGUE_CHARACTERS;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="dialogue-characters" className="text-sm font-medium">
+        Dialogue Characters
+      </Label>
+      <Input
+        id="dialogue-characters"
+        placeholder="e.g. Mia, Leo"
+        value={dialogueCharacters}
+        onChange={(e) => { onDialogueCharactersChange(e.target.value); }}
+        disabled={disabled}
+      />
+      <p className={isOverLimit ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+        {isOverLimit
+          ? `Up to ${String(MAX_DIALOGUE_CHARACTERS)} characters besides the narrator`
+          : 'Optional. Characters speak in their own voices alongside the narrator; leave empty for a single narrator.'}
+      </p>
+    </div>
+  );
+}
@@ -4,16 +4,18 @@ import { Slider } from '@/components/ui/slider';
 interface DurationSectionProps {
   duration: number;
   onDurationChange: (duration: number) => void;
+  /** Scenes the chosen narrative format gives this duration */
+  sceneCount?: number;
   disabled?: boolean;
 }
 
-export function DurationSection({ duration, onDurationChange, disabled }: DurationSectionProps) {
+export function DurationSection({ duration, onDurationChange, sceneCount, disabled }: DurationSectionProps) {
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
         <Label className="text-sm font-medium">Video Duration</Label>
         <span className="text-sm font-bold text-primary">
-          {duration}s (~{Math.round(duration / 5)} scenes)
+          {duration}s (~{sceneCount ?? Math.round(duration / 5)} scenes)
         </span>
       </div>
       <Slider
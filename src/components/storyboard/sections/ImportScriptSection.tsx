@@ -0,0 +1,206 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileUp, Globe, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { extractEdgeFunctionError } from '@/lib/utils/edge-function-error';
+import {
+  MAX_IMPORT_CHARACTERS,
+  MAX_IMPORT_PDF_BYTES,
+  importScript,
+  type ImportFormat,
+} from '@shared/storyboard-import';
+
+const FORMAT_LABELS: Record<ImportFormat | 'auto', string> = {
+  auto: 'Detect automatically',
+  script: 'Script with scene markers',
+  markdown: 'Markdown / document',
+  srt: 'Subtitles (SRT / VTT)',
+  text: 'Plain text',
+};
+
+const FILE_FORMATS: Record<string, ImportFormat> = {
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  srt: 'srt',
+  vtt: 'srt',
+};
+
+interface ImportScriptSectionProps {
+  importText: string;
+  importFormat: ImportFormat | 'auto';
+  onImportTextChange: (text: string) => void;
+  onImportFormatChange: (format: ImportFormat | 'auto') => void;
+  disabled?: boolean;
+}
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => { resolve((reader.result as string).split(',')[1] ?? ''); };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+export function ImportScriptSection({
+  importText,
+  importFormat,
+  onImportTextChange,
+  onImportFormatChange,
+  disabled,
+}: ImportScriptSectionProps) {
+  const [url, setUrl] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(() => {
+    if (!importText.trim()) return null;
+    try {
+      const imported = importScript(importText, importFormat);
+      return { message: `${String(imported.scenes.length)} scenes + intro, ~${String(imported.duration)}s`, isError: false };
+    } catch (error) {
+      return { message: error instanceof Error ? error.message : 'This script cannot be imported', isError: true };
+    }
+  }, [importText, importFormat]);
+
+  // URLs and PDFs are turned into editable Markdown on the server first
+  const extractSource = async (body: { url: string } | { file_base64: string; file_name: string }) => {
+    setIsExtracting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('extract-storyboard-source', { body });
+      if (error) {
+        throw new Error(await extractEdgeFunctionError(error));
+      }
+      if (data?.error) throw new Error(data.error);
+
+      onImportTextChange(data.text);
+      onImportFormatChange('markdown');
+      if (data.truncated) {
+        toast.warning(`Only the first ${MAX_IMPORT_CHARACTERS.toLocaleString()} characters were imported`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import the source');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+
+    if (extension === 'pdf') {
+      if (file.size > MAX_IMPORT_PDF_BYTES) {
+        toast.error(`PDFs must be ${String(MAX_IMPORT_PDF_BYTES / (1024 * 1024))} MB or smaller`);
+        return;
+      }
+      await extractSource({ file_base64: await fileToBase64(file), file_name: file.name });
+      return;
+    }
+
+    const format = FILE_FORMATS[extension] as ImportFormat | undefined;
+    if (!format) {
+      toast.error('Upload a .txt, .md, .srt, .vtt or .pdf file');
+      return;
+    }
+
+    const text = await file.text();
+    if (text.length > MAX_IMPORT_CHARACTERS) {
+      toast.warning(`Only the first ${MAX_IMPORT_CHARACTERS.toLocaleString()} characters were imported`);
+    }
+    onImportTextChange(text.slice(0, MAX_IMPORT_CHARACTERS));
+    onImportFormatChange(format);
+  };
+
+  const isBusy = disabled || isExtracting;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.md,.markdown,.srt,.vtt,.pdf"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) void handleFile(file);
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="gap-2"
+        >
+          <FileUp className="w-3.5 h-3.5" />
+          Upload file
+        </Button>
+        <div className="flex flex-1 min-w-[220px] gap-2">
+          <Input
+            type="url"
+            placeholder="https://example.com/article"
+            value={url}
+            onChange={(e) => { setUrl(e.target.value); }}
+            className="h-9 text-sm"
+            disabled={isBusy}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => { void extractSource({ url: url.trim() }); }}
+            disabled={isBusy || !url.trim()}
+            className="gap-2"
+          >
+            {isExtracting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Globe className="w-3.5 h-3.5" />}
+            Fetch
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="import-text" className="text-sm font-medium">
+            Script *
+          </Label>
+          <Select
+            value={importFormat}
+            onValueChange={(format) => { onImportFormatChange(format as ImportFormat | 'auto'); }}
+            disabled={isBusy}
+          >
+            <SelectTrigger className="h-8 w-[210px] text-xs" aria-label="Script format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+                <SelectItem key={format} value={format}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Textarea
+          id="import-text"
+          placeholder={'Paste your script, e.g.\n\nScene 1: The idea\nVISUAL: a notebook full of sketches\nEvery video starts with a single idea...'}
+          value={importText}
+          onChange={(e) => { onImportTextChange(e.target.value); }}
+          maxLength={MAX_IMPORT_CHARACTERS}
+          className="min-h-[180px] text-sm"
+          disabled={isBusy}
+        />
+        <p className={preview?.isError ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+          {preview?.message
+            ?? 'Your wording is kept as the voiceover. Scene markers, headings and subtitle pauses start new scenes; lines like VISUAL: or [wide shot] guide the visuals.'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { NarrativeFormat } from '@shared/narrative-formats';
+
+interface NarrativeFormatSelectorProps {
+  formats: NarrativeFormat[];
+  narrativeFormat: string;
+  onNarrativeFormatChange: (narrativeFormat: string) => void;
+  disabled?: boolean;
+}
+
+export function NarrativeFormatSelector({
+  formats,
+  narrativeFormat,
+  onNarrativeFormatChange,
+  disabled,
+}: NarrativeFormatSelectorProps) {
+  const selected = formats.find((format) => format.id === narrativeFormat);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="narrative-format" className="text-sm font-medium">Narrative Format</Label>
+      <Select value={narrativeFormat} onValueChange={onNarrativeFormatChange} disabled={disabled}>
+        <SelectTrigger id="narrative-format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {formats.map((format) => (
+            <SelectItem key={format.id} value={format.id}>
+              {format.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {selected.description || selected.beats.map((beat) => beat.label).join(' → ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildAutoEditClips, buildLyricCues, getCutPoints, planAutoEdit, type AutoEditOptions } from '../autoEdit';
+import type { BeatAnalysis } from '../beatDetection';
+import { getCueText } from '../subtitles';
+import type { MediaAsset } from '../types';
+
+// 120 BPM from 0.5s: a beat every half second, bars starting at 0.5, 2.5, 4.5...
+// A quiet section up to 8.5s, then a loud one
+const beats = Array.from({ length: 32 }, (_, i) => 0.5 + i * 0.5);
+const analysis: BeatAnalysis = {
+  duration: 16.5,
+  tempo: 120,
+  beats,
+  downbeats: beats.filter((_, i) => i % 4 === 0),
+  sections: [
+    { start: 0, end: 8.5, energy: 0.3 },
+    { start: 8.5, end: 16.5, energy: 1 },
+  ],
+};
+
+const options: AutoEditOptions = { pace: 4, transition: 'fade', musicStart: 0, length: 16.5 };
+
+describe('auto-edit cuts', () => {
+  it('cuts on bar lines at a bar-or-longer pace', () => {
+    const points = getCutPoints(analysis, { ...options, length: 6.5 });
+
+    expect(points).toEqual([
+      { time: 0, accent: true },
+      { time: 2.5, accent: true },
+      { time: 4.5, accent: true },
+      { time: 6.5, accent: false },
+    ]);
+  });
+
+  it('cuts faster in louder sections when following the music', () => {
+    const times = getCutPoints(analysis, { ...options, pace: 'auto' }).map(p => p.time);
+
+    // Every 2 bars while quiet, from the section start every 2 beats once loud
+    expect(times.filter(t => t < 8.5)).toEqual([0, 4.5]);
+    expect(times.filter(t => t >= 8.5).slice(0, 4)).toEqual([8.5, 9.5, 10.5, 11.5]);
+  });
+
+  it('lines cuts up with the trimmed music', () => {
+    const times = getCutPoints(analysis, { ...options, pace: 2, musicStart: 1, length: 4 }).map(p => p.time);
+
+    expect(times).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('fills the cuts in order, skipping videos too short for a shot', () => {
+    const assets = [
+      { id: 'long', type: 'video' as const, duration: 5 },
+      { id: 'short', type: 'video' as const, duration: 1 },
+      { id: 'photo', type: 'image' as const },
+    ];
+    const cuts = planAutoEdit(analysis, assets, { ...options, length: 8.5 });
+
+    expect(cuts.map(c => [c.assetId, c.start, c.duration, c.trimStart])).toEqual([
+      ['long', 0, 2.5, 0],
+      ['photo', 2.5, 2, 0],
+      ['long', 4.5, 2, 2.5],
+      ['photo', 6.5, 2, 0],
+    ]);
+    expect(cuts.map(c => c.transitionIn)).toEqual(['none', 'fade', 'fade', 'fade']);
+  });
+
+  it('builds muted clips on the chosen track', () => {
+    const asset = { id: 'a', type: 'video', duration: 10 } as MediaAsset;
+    const [clip] = buildAutoEditClips(
+      [{ assetId: 'a', start: 1, duration: 2, trimStart: 3, transitionIn: 'fade' }],
+      [asset],
+      'video-1'
+    );
+
+    expect(clip).toMatchObject({ assetId: 'a', trackId: 'video-1', start: 1, duration: 2, trimStart: 3, transitionIn: 'fade', volume: 0 });
+  });
+});
+
+describe('lyric captions', () => {
+  it('shifts lines by the music trim and drops section markers', () => {
+    const cues = buildLyricCues([
+      { text: '[Intro]', start_time: 0, end_time: 2 },
+      { text: '[Verse] Hello night', start_time: 2, end_time: 4 },
+      { text: 'Goodbye day', start_time: 9, end_time: 11 },
+    ], 1, 9);
+
+    expect(cues.map(getCueText)).toEqual(['Hello night', 'Goodbye day']);
+    expect(cues.map(c => [c.start, c.end])).toEqual([[1, 3], [8, 9]]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { analyseBeats, mixToMono } from '../beatDetection';
+
+const SAMPLE_RATE = 22050;
+
+// Decaying noise bursts on every beat, louder on the first beat of each bar.
+// `loudFrom` makes everything after it louder - a new section.
+const clickTrack = ({ bpm, seconds, firstDownbeat = 0, loudFrom = Infinity }: {
+  bpm: number;
+  seconds: number;
+  firstDownbeat?: number;
+  loudFrom?: number;
+}) => {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const beatSeconds = 60 / bpm;
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  for (let beat = 0; beat * beatSeconds < seconds; beat++) {
+    const start = Math.round((0.25 + beat * beatSeconds) * SAMPLE_RATE);
+    const accent = (beat - firstDownbeat) % 4 === 0 ? 1 : 0.5;
+    const gain = accent * (start / SAMPLE_RATE >= loudFrom ? 1 : 0.3);
+    for (let i = 0; i < 2000 && start + i < samples.length; i++) {
+      samples[start + i] += noise() * gain * Math.exp(-i / 300);
+    }
+  }
+  return samples;
+};
+
+describe('beat detection', () => {
+  it('finds the tempo and beats of a steady track', () => {
+    const analysis = analyseBeats(clickTrack({ bpm: 120, seconds: 12 }), SAMPLE_RATE);
+
+    expect(analysis.tempo).toBeGreaterThan(118);
+    expect(analysis.tempo).toBeLessThan(122);
+    expect(analysis.beats.length).toBeGreaterThanOrEqual(22);
+    for (const [i, beat] of analysis.beats.slice(0, 8).entries()) {
+      expect(Math.abs(beat - (0.25 + i * 0.5))).toBeLessThan(0.04);
+    }
+  });
+
+  it('prefers a common tempo over half or double time', () => {
+    const analysis = analyseBeats(clickTrack({ bpm: 100, seconds: 12 }), SAMPLE_RATE);
+
+    expect(Math.round(analysis.tempo / 5) * 5).toBe(100);
+  });
+
+  it('starts bars on the accented beats', () => {
+    const analysis = analyseBeats(clickTrack({ bpm: 120, seconds: 12, firstDownbeat: 1 }), SAMPLE_RATE);
+
+    expect(Math.abs(analysis.downbeats[0] - 0.75)).toBeLessThan(0.04);
+    expect(Math.abs(analysis.downbeats[1] - 2.75)).toBeLessThan(0.04);
+  });
+
+  it('splits sections where the track gets louder', () => {
+    const analysis = analyseBeats(clickTrack({ bpm: 120, seconds: 32, loudFrom: 16.25 }), SAMPLE_RATE);
+
+    expect(analysis.sections).toHaveLength(2);
+    expect(Math.abs(analysis.sections[1].start - 16.25)).toBeLessThan(0.1);
+    expect(analysis.sections[0].energy).toBeLessThan(0.5);
+    expect(analysis.sections[1].energy).toBe(1);
+  });
+
+  it('finds no beat in silence', () => {
+    const analysis = analyseBeats(new Float32Array(SAMPLE_RATE * 4), SAMPLE_RATE);
+
+    expect(analysis).toMatchObject({ tempo: 0, beats: [], downbeats: [] });
+    expect(analysis.sections).toEqual([{ start: 0, end: 4, energy: 0 }]);
+  });
+
+  it('mixes channels down to mono', () => {
+    expect(Array.from(mixToMono([new Float32Array([1, 0]), new Float32Array([0, 1])]))).toEqual([0.5, 0.5]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { useVideoEditorStore } from '../store';
+import { HISTORY_LIMIT, HISTORY_MERGE_WINDOW_MS } from '../history';
+import type { MediaAsset } from '../types';
+
+const asset = (id: string, type: MediaAsset['type'] = 'video'): MediaAsset => ({
+  id,
+  type,
+  name: `${id}.mp4`,
+  url: `https://cdn.example.com/${id}`,
+  duration: 5,
+  size: 1000,
+  mimeType: 'video/mp4',
+  uploadedAt: '2026-01-01T00:00:00Z',
+});
+
+const store = () => useVideoEditorStore.getState();
+
+describe('video editor history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store().resetEditor();
+    store().addAsset(asset('a'));
+    store().addClipFromAsset('a');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('undoes and redoes store actions in order', () => {
+    const clipId = store().clips[0].id;
+    store().updateClip(clipId, { volume: 0.5 });
+    store().setAudioTrack(null);
+    expect(store().history.past.map(e => e.label)).toEqual(['Add media', 'Add clip', 'Edit clip', 'Remove background audio']);
+
+    store().undo();
+    store().undo();
+    expect(store().clips[0].volume).toBe(1);
+
+    store().redo();
+    expect(store().clips[0].volume).toBe(0.5);
+    expect(store().history.future.map(e => e.label)).toEqual(['Remove background audio']);
+  });
+
+  it('clears the redo stack on a new command', () => {
+    store().undo();
+    expect(store().clips).toHaveLength(0);
+
+    store().addTrack('audio');
+    expect(store().history.future).toHaveLength(0);
+    expect(store().assets).toHaveLength(1);
+  });
+
+  it('merges rapid edits of the same clip field into one step', () => {
+    const clipId = store().clips[0].id;
+    store().updateClip(clipId, { volume: 0.9 });
+    vi.advanceTimersByTime(100);
+    store().updateClip(clipId, { volume: 0.8 });
+    vi.advanceTimersByTime(100);
+    store().updateClip(clipId, { volume: 0.7 });
+    vi.advanceTimersByTime(HISTORY_MERGE_WINDOW_MS + 1);
+    store().updateClip(clipId, { volume: 0.6 });
+
+    store().undo();
+    expect(store().clips[0].volume).toBe(0.7);
+    store().undo();
+    expect(store().clips[0].volume).toBe(1);
+  });
+
+  it('does not record no-op actions', () => {
+    const before = store().history.past.length;
+    store().moveTrack(0, 5);
+    store().removeTrack('audio-1'); // last audio track is kept
+    expect(store().history.past).toHaveLength(before);
+  });
+
+  it('drops the selection when undo removes the selected clip', () => {
+    store().selectClip(store().clips[0].id);
+    store().undo();
+    expect(store().selectedClipId).toBeNull();
+  });
+
+  it('marks undo and redo as unsaved document changes', () => {
+    const { documentVersion } = store();
+    store().undo();
+    expect(store().documentVersion).toBe(documentVersion + 1);
+    store().selectClip(null);
+    expect(store().documentVersion).toBe(documentVersion + 1);
+  });
+
+  it('keeps at most HISTORY_LIMIT steps', () => {
+    for (let i = 0; i < HISTORY_LIMIT + 10; i++) {
+      store().updateTrack('video-1', { name: `Video ${String(i)}` });
+      vi.advanceTimersByTime(HISTORY_MERGE_WINDOW_MS + 1);
+    }
+    expect(store().history.past).toHaveLength(HISTORY_LIMIT);
+  });
+
+  it('starts a fresh history when a project is opened', () => {
+    store().openProject({
+      id: 'p1',
+      name: 'Launch teaser',
+      revision: 3,
+      totalDuration: 0,
+      thumbnailUrl: null,
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-02T00:00:00Z',
+      document: { ...store(), assets: [], clips: [] },
+    });
+
+    expect(store().history.past).toHaveLength(0);
+    expect(store()).toMatchObject({ projectId: 'p1', projectRevision: 3, saveStatus: 'saved' });
+    expect(store().documentVersion).toBe(store().savedDocumentVersion);
+  });
+});
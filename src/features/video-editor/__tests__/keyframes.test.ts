@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { applyKenBurns, ease, getAnimatedValue, getClipTransform, shiftKeyframes, upsertKeyframe } from '../keyframes';
+import type { Clip, ClipKeyframe } from '../types';
+
+const clip = (keyframes: ClipKeyframe[] = [], overrides: Partial<Clip> = {}): Clip => ({
+  id: 'c1',
+  assetId: 'a',
+  trackId: 'video-1',
+  start: 0,
+  duration: 4,
+  trimStart: 0,
+  transitionDuration: 0.5,
+  volume: 1,
+  fit: 'cover',
+  position: { x: 0.5, y: 0.5 },
+  scale: 1,
+  keyframes,
+  ...overrides,
+});
+
+const keyframe = (time: number, values: Partial<ClipKeyframe>, easing: ClipKeyframe['easing'] = 'linear'): ClipKeyframe => ({
+  id: `k${String(time)}`,
+  time,
+  easing,
+  ...values,
+});
+
+describe('keyframe interpolation', () => {
+  it('uses the static clip values when a property has no keyframes', () => {
+    const transform = getClipTransform(clip([keyframe(1, { scale: 2 })], { rotation: 15 }), 2);
+
+    expect(transform).toEqual({
+      position: { x: 0.5, y: 0.5 },
+      scale: 2,
+      rotation: 15,
+      opacity: 1,
+      crop: { top: 0, bottom: 0, left: 0, right: 0 },
+    });
+  });
+
+  it('holds the first and last keyframe values outside the keyframed range', () => {
+    const animated = clip([keyframe(1, { scale: 1 }), keyframe(3, { scale: 2 })]);
+
+    expect(getAnimatedValue(animated, 'scale', 0)).toBe(1);
+    expect(getAnimatedValue(animated, 'scale', 2)).toBe(1.5);
+    expect(getAnimatedValue(animated, 'scale', 4)).toBe(2);
+  });
+
+  it('shapes the curve with the earlier keyframe easing', () => {
+    const eased = clip([keyframe(0, { opacity: 0 }, 'easeIn'), keyframe(2, { opacity: 1 })]);
+    const held = clip([keyframe(0, { opacity: 0 }, 'hold'), keyframe(2, { opacity: 1 })]);
+
+    expect(getAnimatedValue(eased, 'opacity', 1)).toBe(ease('easeIn', 0.5));
+    expect(getAnimatedValue(held, 'opacity', 1.99)).toBe(0);
+    expect(getAnimatedValue(held, 'opacity', 2)).toBe(1);
+  });
+
+  it('interpolates position and crop per component', () => {
+    const animated = clip([
+      keyframe(0, { position: { x: 0, y: 1 }, crop: { top: 0, bottom: 0, left: 0, right: 0 } }),
+      keyframe(4, { position: { x: 1, y: 0 }, crop: { top: 0.2, bottom: 0, left: 0.4, right: 0 } }),
+    ]);
+
+    expect(getAnimatedValue(animated, 'position', 1)).toEqual({ x: 0.25, y: 0.75 });
+    expect(getAnimatedValue(animated, 'crop', 2)).toEqual({ top: 0.1, bottom: 0, left: 0.2, right: 0 });
+  });
+});
+
+describe('keyframe editing', () => {
+  it('updates a keyframe at the same time instead of adding another', () => {
+    const keyframes = upsertKeyframe([keyframe(1, { scale: 1 })], 1.02, { opacity: 0.5 });
+
+    expect(keyframes).toEqual([keyframe(1, { scale: 1, opacity: 0.5 })]);
+  });
+
+  it('keeps keyframes sorted by time', () => {
+    const keyframes = upsertKeyframe([keyframe(2, { scale: 1 })], 1, { scale: 2 });
+
+    expect(keyframes.map(k => k.time)).toEqual([1, 2]);
+  });
+
+  it('shifts keyframes with the trimmed in-point', () => {
+    expect(shiftKeyframes([keyframe(1, { scale: 1 })], -0.5).map(k => k.time)).toEqual([0.5]);
+  });
+
+  it('replaces position and scale keyframes with a Ken Burns move across the clip', () => {
+    const keyframes = applyKenBurns(clip([keyframe(1, { scale: 3, opacity: 0.5 })]), 'zoomIn');
+
+    expect(keyframes.map(k => [k.time, k.scale, k.opacity])).toEqual([
+      [0, 1, undefined],
+      [1, undefined, 0.5],
+      [4, 1.25, undefined],
+    ]);
+    expect(keyframes.every(k => k.time === 1 || k.easing === 'linear')).toBe(true);
+  });
+});
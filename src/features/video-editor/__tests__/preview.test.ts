@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import { buildShotstackPayload, type ShotstackPayloadInput } from '@shared/render-payload';
+import { getAnimatedValue } from '../keyframes';
+import {
+  evaluateTweens,
+  frameToTime,
+  getFrameCount,
+  getPayloadDuration,
+  getPreviewFrame,
+  getPreviewMedia,
+  getTransitionEffect,
+} from '../preview';
+import { DEFAULT_TRACKS } from '../timeline';
+import { DEFAULT_EXPORT_OPTIONS } from '@shared/export-formats';
+import type { Clip, MediaAsset, ShotstackPayload, SubtitleConfig, TimelineTrack } from '../types';
+
+const asset = (id: string, type: MediaAsset['type'], duration?: number): MediaAsset => ({
+  id,
+  type,
+  name: id,
+  url: `https://cdn.example.com/${id}`,
+  duration,
+  size: 1000,
+  mimeType: `${type}/x`,
+  uploadedAt: '2026-01-01T00:00:00Z',
+});
+
+const clip = (id: string, assetId: string, trackId: string, start: number, duration: number, overrides: Partial<Clip> = {}): Clip => ({
+  id,
+  assetId,
+  trackId,
+  start,
+  duration,
+  trimStart: 0,
+  transitionIn: 'none',
+  transitionOut: 'none',
+  transitionDuration: 0.5,
+  volume: 1,
+  fit: 'cover',
+  position: { x: 0.5, y: 0.5 },
+  scale: 1,
+  ...overrides,
+});
+
+const subtitles: SubtitleConfig = {
+  mode: 'none',
+  fontSize: 32,
+  fontColor: '#FFFF00',
+  backgroundColor: '#000000',
+  showBackground: true,
+  position: 'top',
+  cues: [],
+  style: 'classic',
+  highlightColor: '#FFFF00',
+  outlineColor: '#000000',
+  outlineWidth: 0,
+  allCaps: false,
+  maxWordsPerLine: 4,
+};
+
+const overlayTrack: TimelineTrack = { id: 'overlay', type: 'visual', name: 'Logo', volume: 1, muted: false, hidden: false };
+const voiceTrack: TimelineTrack = { id: 'voice', type: 'audio', name: 'Voiceover', volume: 0.5, muted: false, hidden: false };
+
+const input = (overrides: Partial<ShotstackPayloadInput> = {}): ShotstackPayloadInput => ({
+  assets: [asset('a', 'video', 20), asset('b', 'video', 20), asset('logo', 'image'), asset('vo', 'audio', 30)],
+  tracks: [overlayTrack, ...DEFAULT_TRACKS, voiceTrack],
+  clips: [
+    clip('main-1', 'a', 'video-1', 0, 2.5, { trimStart: 1, transitionOut: 'fade' }),
+    clip('main-2', 'b', 'video-1', 2.5, 3.1, { transitionIn: 'slideLeft', transitionOut: 'wipeRight' }),
+    clip('logo-1', 'logo', 'overlay', 0.4, 4, { position: { x: 0.9, y: 0.1 }, scale: 0.2 }),
+    clip('vo-1', 'vo', 'voice', 1.2, 3, { volume: 0.8 }),
+  ],
+  audioTrack: null,
+  subtitleConfig: subtitles,
+  outputSettings: { aspectRatio: '16:9', format: 'mp4', exportOptions: DEFAULT_EXPORT_OPTIONS, backgroundColor: '#101010', fps: 30, quality: 'hd' },
+  ...overrides,
+});
+
+// Which payload clips a renderer at `fps` shows on each frame, counted in
+// whole frames so float drift can't hide an off-by-one
+const payloadClipsOnFrame = (payload: ShotstackPayload, frame: number): string[] => {
+  const { fps } = payload.output;
+  return payload.timeline.tracks.flatMap(track => track.clips)
+    .filter(c => c.asset.type !== 'caption' && typeof c.length === 'number')
+    .filter(c => frame >= Math.round(c.start * fps) && frame < Math.round((c.start + (c.length as number)) * fps))
+    .map(c => c.asset.src ?? '')
+    .sort();
+};
+
+const previewClipsOnFrame = (payload: ShotstackPayload, frame: number): string[] => {
+  const { layers, audio } = getPreviewFrame(payload, frameToTime(frame, payload.output.fps));
+  return [...new Set([...layers.map(l => l.src), ...audio.map(a => a.src)])].sort();
+};
+
+describe('preview frame timing parity', () => {
+  it.each([25, 30, 60] as const)('shows exactly the payload clips on every frame at %i fps', (fps) => {
+    const payload = buildShotstackPayload(input({ outputSettings: { ...input().outputSettings, fps } }));
+    const frames = getFrameCount(getPayloadDuration(payload), fps);
+
+    expect(frames).toBe(Math.round(5.6 * fps));
+    for (let frame = 0; frame <= frames; frame++) {
+      expect(previewClipsOnFrame(payload, frame), `frame ${String(frame)}`).toEqual(payloadClipsOnFrame(payload, frame));
+    }
+  });
+
+  it('cuts between back-to-back clips on a single frame', () => {
+    const payload = buildShotstackPayload(input());
+    const cut = Math.round(2.5 * 30);
+
+    expect(getPreviewFrame(payload, frameToTime(cut - 1, 30)).layers.map(l => l.src)).toContain('https://cdn.example.com/a');
+    expect(getPreviewFrame(payload, frameToTime(cut, 30)).layers.map(l => l.src)).not.toContain('https://cdn.example.com/a');
+    expect(getPreviewFrame(payload, frameToTime(cut, 30)).layers.map(l => l.src)).toContain('https://cdn.example.com/b');
+  });
+
+  it('reads media from the trimmed in-point', () => {
+    const [main] = getPreviewFrame(buildShotstackPayload(input()), 0.5).layers;
+
+    expect(main).toMatchObject({ src: 'https://cdn.example.com/a', mediaTime: 1.5 });
+  });
+
+  it('stacks layers bottom to top in reverse payload track order', () => {
+    const { layers } = getPreviewFrame(buildShotstackPayload(input()), 1);
+
+    expect(layers.map(l => l.src)).toEqual(['https://cdn.example.com/a', 'https://cdn.example.com/logo']);
+    expect(layers[1]).toMatchObject({ x: 0.4, y: 0.4, scale: 0.2 });
+  });
+});
+
+describe('preview transitions', () => {
+  it('applies the payload transition names at the clip edges', () => {
+    const payload = buildShotstackPayload(input());
+    const at = (time: number) => getPreviewFrame(payload, time).layers.find(l => l.src === 'https://cdn.example.com/b')!.effect;
+
+    expect(at(2.5)).toMatchObject({ offsetX: 1 });
+    expect(at(3)).toMatchObject({ offsetX: 0.5 });
+    expect(at(4)).toMatchObject({ offsetX: 0, opacity: 1 });
+    expect(at(5.1).wipe).toEqual({ from: 'right', visible: expect.closeTo(0.5) });
+  });
+
+  it('fades a clip out over its last second', () => {
+    const payload = buildShotstackPayload(input());
+    const opacity = (time: number) => getPreviewFrame(payload, time).layers.find(l => l.src === 'https://cdn.example.com/a')!.effect.opacity;
+
+    expect(opacity(1)).toBe(1);
+    expect(opacity(2)).toBeCloseTo(0.5);
+  });
+
+  it.each(['fadeBlack', 'fadeWhite'])('tints to a colour for %s', (name) => {
+    expect(getTransitionEffect(name, 'in', 0.25).tint?.amount).toBe(0.75);
+  });
+
+  it('moves slides the same way in and out', () => {
+    expect(getTransitionEffect('slideUp', 'in', 0.5).offsetY).toBe(0.5);
+    expect(getTransitionEffect('slideUp', 'out', 0.5).offsetY).toBe(-0.5);
+  });
+});
+
+describe('preview animation', () => {
+  it('matches the editor keyframe values at each keyframe', () => {
+    const animated = clip('main-1', 'a', 'video-1', 0, 4, {
+      keyframes: [
+        { id: 'k1', time: 0.5, easing: 'easeInOut', scale: 1, rotation: 0 },
+        { id: 'k2', time: 2, easing: 'easeOut', scale: 1.5, rotation: 30 },
+        { id: 'k3', time: 3.5, easing: 'linear', scale: 1.2, rotation: -10 },
+      ],
+    });
+    const payload = buildShotstackPayload(input({ clips: [animated] }));
+
+    for (const time of [0, 0.5, 1.25, 2, 2.75, 3.5, 3.9]) {
+      const [layer] = getPreviewFrame(payload, time).layers;
+      expect(layer.scale).toBeCloseTo(getAnimatedValue(animated, 'scale', time), 3);
+      expect(layer.rotation).toBeCloseTo(getAnimatedValue(animated, 'rotation', time), 3);
+    }
+  });
+
+  it('holds the edge values outside the tweens', () => {
+    const tweens = [{ from: 1, to: 2, start: 1, length: 1 }];
+
+    expect(evaluateTweens(tweens, 0, 0)).toBe(1);
+    expect(evaluateTweens(tweens, 1.5, 0)).toBe(1.5);
+    expect(evaluateTweens(tweens, 3, 0)).toBe(2);
+    expect(evaluateTweens(undefined, 3, 7)).toBe(7);
+  });
+
+  it('plays crop steps of one clip from a single media element', () => {
+    const cropped = clip('main-1', 'a', 'video-1', 0, 1, {
+      keyframes: [
+        { id: 'k1', time: 0, easing: 'linear', crop: { top: 0, bottom: 0, left: 0, right: 0 } },
+        { id: 'k2', time: 1, easing: 'linear', crop: { top: 0.4, bottom: 0, left: 0, right: 0 } },
+      ],
+    });
+    const payload = buildShotstackPayload(input({ clips: [cropped] }));
+
+    expect(getPreviewMedia(payload)).toHaveLength(1);
+    expect(getPreviewFrame(payload, 0.6).layers[0]).toMatchObject({ mediaTime: 0.6, crop: { top: 0.25 } });
+  });
+});
+
+describe('preview audio mix and captions', () => {
+  it('plays each source at the payload volume', () => {
+    const { audio } = getPreviewFrame(buildShotstackPayload(input()), 2);
+
+    expect(audio.map(a => [a.src, a.volume])).toEqual([
+      ['https://cdn.example.com/vo', 0.4],
+      ['https://cdn.example.com/a', 1],
+    ]);
+  });
+
+  it('fades the soundtrack in and out', () => {
+    const payload = buildShotstackPayload(input({
+      assets: [...input().assets, asset('music', 'audio', 60)],
+      audioTrack: {
+        id: 'music-track', assetId: 'music', volume: 0.5, fadeIn: true, fadeOut: true,
+        fadeInDuration: 2, fadeOutDuration: 2, trimStart: 0, loop: false,
+      },
+    }));
+    const soundtrack = (time: number) => getPreviewFrame(payload, time).audio.find(a => a.src === 'https://cdn.example.com/music');
+
+    expect(soundtrack(1)?.volume).toBe(0.25);
+    expect(soundtrack(3)?.volume).toBe(0.5);
+    expect(soundtrack(6)).toBeUndefined();
+  });
+
+  it('styles captions the way the payload asks', () => {
+    const payload = buildShotstackPayload(input({ subtitleConfig: { ...subtitles, mode: 'auto' } }));
+
+    expect(getPreviewFrame(payload, 3).caption).toEqual({
+      position: 'top',
+      fontSize: 32,
+      fontColor: '#FFFF00',
+      background: { color: '#000000', padding: 10 },
+    });
+    expect(getPreviewFrame(payload, 5.6).caption).toBeNull();
+  });
+
+  it('draws burned-in cues word by word from their HTML', () => {
+    const payload = buildShotstackPayload(input({
+      subtitleConfig: {
+        ...subtitles,
+        mode: 'upload',
+        outlineWidth: 2,
+        cues: [{ id: 'cue-1', start: 1, end: 2, words: [{ text: 'Hi', start: 1, end: 1.5 }, { text: 'all', start: 1.5, end: 2 }] }],
+      },
+    }));
+
+    const caption = getPreviewFrame(payload, 1.7).caption;
+    expect(caption).toMatchObject({ position: 'top', fontSize: 32, outline: { width: 2, color: '#000000' } });
+    expect(caption?.words?.map(w => [w.text, w.bold])).toEqual([['Hi', false], ['all', true]]);
+    expect(getPreviewFrame(payload, 2.5).caption).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { ProjectConflictError, saveProject, toEditorDocument, toProjectFields } from '../projects';
+import { DEFAULT_EXPORT_OPTIONS } from '@shared/export-formats';
+import type { EditorDocument, MediaAsset, OutputSettings, SubtitleConfig } from '../types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const asset: MediaAsset = {
+  id: 'a',
+  type: 'video',
+  name: 'a.mp4',
+  url: 'https://cdn.example.com/a',
+  thumbnailUrl: 'https://cdn.example.com/a.jpg',
+  duration: 5,
+  size: 1000,
+  mimeType: 'video/mp4',
+  uploadedAt: '2026-01-01T00:00:00Z',
+};
+
+const subtitleConfig: SubtitleConfig = {
+  mode: 'upload',
+  fontSize: 24,
+  fontColor: '#FFFFFF',
+  backgroundColor: '#000000',
+  showBackground: true,
+  position: 'bottom',
+  srtContent: '1\n00:00:00,000 --> 00:00:01,000\nHi',
+  cues: [],
+  style: 'classic',
+  highlightColor: '#FFFF00',
+  outlineColor: '#000000',
+  outlineWidth: 0,
+  allCaps: false,
+  maxWordsPerLine: 4,
+};
+
+const outputSettings: OutputSettings = { aspectRatio: '16:9', format: 'mp4', exportOptions: DEFAULT_EXPORT_OPTIONS, backgroundColor: '#000000', fps: 30, quality: 'hd' };
+
+const record = (overrides: Partial<Tables<'video_editor_projects'>> = {}): Tables<'video_editor_projects'> => ({
+  id: 'p1',
+  user_id: 'user-123',
+  name: 'Teaser',
+  assets: [asset] as never,
+  tracks: [],
+  clips: [],
+  audio_track: null,
+  subtitle_config: null,
+  output_settings: { fps: 60 },
+  total_duration: 0,
+  thumbnail_url: null,
+  revision: 1,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('project serialization', () => {
+  it('stores assets once and drops the SRT file', () => {
+    const document: EditorDocument = {
+      assets: [asset],
+      tracks: [],
+      clips: [{
+        id: 'c1', assetId: 'a', asset, trackId: 'video-1', start: 2, duration: 5, trimStart: 0,
+        transitionDuration: 0.5, volume: 1, fit: 'cover', position: { x: 0.5, y: 0.5 }, scale: 1,
+      }],
+      audioTrack: null,
+      subtitleConfig: { ...subtitleConfig, srtFile: new File(['x'], 'captions.srt') },
+      outputSettings,
+    };
+
+    const fields = toProjectFields(document);
+
+    expect(fields.clips).toEqual([expect.not.objectContaining({ asset: expect.anything() })]);
+    expect(fields.subtitle_config).not.toHaveProperty('srtFile');
+    expect(fields.subtitle_config).toHaveProperty('srtContent');
+    expect(fields).toMatchObject({ total_duration: 7, thumbnail_url: 'https://cdn.example.com/a.jpg' });
+  });
+
+  it('places clips saved before multi-track editing back to back on the default tracks', () => {
+    const document = toEditorDocument(
+      record({
+        clips: [
+          { id: 'c1', assetId: 'a', duration: 3 },
+          { id: 'c2', assetId: 'a', duration: 4 },
+        ] as never,
+      }),
+      { subtitleConfig, outputSettings }
+    );
+
+    expect(document.tracks.map(t => t.id)).toEqual(['video-1', 'audio-1']);
+    expect(document.clips.map(c => [c.trackId, c.start])).toEqual([['video-1', 0], ['video-1', 3]]);
+    expect(document.clips[0].asset).toEqual(asset);
+    expect(document.outputSettings).toEqual({ ...outputSettings, fps: 60 });
+  });
+});
+
+describe('saveProject', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const mockFrom = (updated: unknown, currentRevision: number) => {
+    (supabase.from as ReturnType<typeof vi.fn>)
+      .mockReturnValueOnce({
+        update: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                maybeSingle: vi.fn().mockResolvedValue({ data: updated, error: null }),
+              }),
+            }),
+          }),
+        }),
+      })
+      .mockReturnValueOnce({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: { revision: currentRevision }, error: null }),
+          }),
+        }),
+      });
+  };
+
+  const document: EditorDocument = { assets: [], tracks: [], clips: [], audioTrack: null, subtitleConfig, outputSettings };
+
+  it('returns the next revision when the base revision is current', async () => {
+    mockFrom(record({ revision: 2 }), 2);
+
+    await expect(saveProject('p1', document, 1)).resolves.toMatchObject({ id: 'p1', revision: 2 });
+  });
+
+  it('reports a conflict when another tab saved first', async () => {
+    mockFrom(null, 3);
+
+    const error = await saveProject('p1', document, 1).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ProjectConflictError);
+    expect(error).toMatchObject({ code: 'PROJECT_CONFLICT', serverRevision: 3 });
+  });
+});
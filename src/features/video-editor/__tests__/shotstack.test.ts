@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { CROP_STEP_SECONDS, buildShotstackPayload, type ShotstackPayloadInput } from '@shared/render-payload';
+import { DEFAULT_TRACKS } from '../timeline';
+import { DEFAULT_EXPORT_OPTIONS } from '@shared/export-formats';
+import type { Clip, ExportFormat, MediaAsset, SubtitleConfig, SubtitleCue, TimelineTrack } from '../types';
+
+const asset = (id: string, type: MediaAsset['type'], duration?: number): MediaAsset => ({
+  id,
+  type,
+  name: `${id}.${type === 'image' ? 'png' : type === 'audio' ? 'mp3' : 'mp4'}`,
+  url: `https://cdn.example.com/${id}`,
+  duration,
+  size: 1000,
+  mimeType: `${type}/x`,
+  uploadedAt: '2026-01-01T00:00:00Z',
+});
+
+const clip = (id: string, assetId: string, trackId: string, start: number, duration: number, overrides: Partial<Clip> = {}): Clip => ({
+  id,
+  assetId,
+  trackId,
+  start,
+  duration,
+  trimStart: 0,
+  transitionIn: 'none',
+  transitionOut: 'none',
+  transitionDuration: 0.5,
+  volume: 1,
+  fit: 'cover',
+  position: { x: 0.5, y: 0.5 },
+  scale: 1,
+  ...overrides,
+});
+
+const subtitles: SubtitleConfig = {
+  mode: 'none',
+  fontSize: 24,
+  fontColor: '#FFFFFF',
+  backgroundColor: '#000000',
+  showBackground: true,
+  position: 'bottom',
+  cues: [],
+  style: 'classic',
+  highlightColor: '#FFFF00',
+  outlineColor: '#000000',
+  outlineWidth: 0,
+  allCaps: false,
+  maxWordsPerLine: 4,
+};
+
+const overlayTrack: TimelineTrack = { id: 'overlay', type: 'visual', name: 'Logo', volume: 1, muted: false, hidden: false };
+const voiceTrack: TimelineTrack = { id: 'voice', type: 'audio', name: 'Voiceover', volume: 0.5, muted: false, hidden: false };
+
+const input = (overrides: Partial<ShotstackPayloadInput> = {}): ShotstackPayloadInput => ({
+  assets: [asset('a', 'video', 20), asset('b', 'video', 20), asset('logo', 'image'), asset('vo', 'audio', 30)],
+  tracks: [overlayTrack, ...DEFAULT_TRACKS, voiceTrack],
+  clips: [
+    clip('main-2', 'b', 'video-1', 8, 4),
+    clip('main-1', 'a', 'video-1', 0, 5),
+    clip('logo-1', 'logo', 'overlay', 2, 10, { position: { x: 0.9, y: 0.1 }, scale: 0.2 }),
+    clip('vo-1', 'vo', 'voice', 1, 6, { volume: 0.8 }),
+  ],
+  audioTrack: null,
+  subtitleConfig: subtitles,
+  outputSettings: { aspectRatio: '16:9', format: 'mp4', exportOptions: DEFAULT_EXPORT_OPTIONS, backgroundColor: '#000000', fps: 30, quality: 'hd' },
+  ...overrides,
+});
+
+describe('buildShotstackPayload', () => {
+  it('maps editor tracks to Shotstack tracks, top visual track first and audio last', () => {
+    const { timeline } = buildShotstackPayload(input());
+
+    expect(timeline.tracks.map(t => t.clips.map(c => c.asset.src))).toEqual([
+      ['https://cdn.example.com/logo'],
+      ['https://cdn.example.com/a', 'https://cdn.example.com/b'],
+      ['https://cdn.example.com/vo'],
+    ]);
+  });
+
+  it('keeps explicit start times and gaps', () => {
+    const { timeline } = buildShotstackPayload(input());
+
+    expect(timeline.tracks[1].clips.map(c => [c.start, c.length])).toEqual([[0, 5], [8, 4]]);
+  });
+
+  it('positions overlays relative to the frame centre', () => {
+    const [logo] = buildShotstackPayload(input()).timeline.tracks[0].clips;
+
+    expect(logo).toMatchObject({ start: 2, length: 10, scale: 0.2, offset: { x: 0.4, y: 0.4 } });
+    expect(logo.asset.volume).toBeUndefined();
+  });
+
+  it('applies track volume and skips muted and hidden tracks', () => {
+    expect(buildShotstackPayload(input()).timeline.tracks[2].clips[0].asset.volume).toBe(0.4);
+
+    const { timeline } = buildShotstackPayload(input({
+      tracks: [{ ...overlayTrack, hidden: true }, ...DEFAULT_TRACKS, { ...voiceTrack, muted: true }],
+    }));
+    expect(timeline.tracks).toHaveLength(1);
+  });
+
+  it('captions the earliest video clip when there is no soundtrack', () => {
+    const { timeline } = buildShotstackPayload(input({ subtitleConfig: { ...subtitles, mode: 'auto' } }));
+
+    expect(timeline.tracks[0].clips[0]).toMatchObject({ asset: { type: 'caption' }, length: 12, position: 'bottom' });
+    expect(timeline.tracks[2].clips.map(c => c.alias)).toEqual(['speech-source', undefined]);
+  });
+
+  it('burns edited cues in as an HTML track in place of Shotstack captions', () => {
+    const cues: SubtitleCue[] = [{
+      id: 'cue-1',
+      start: 1,
+      end: 2,
+      words: [{ text: 'Hello', start: 1, end: 1.5 }, { text: '<you>', start: 1.5, end: 2 }],
+    }];
+    const { timeline } = buildShotstackPayload(input({ subtitleConfig: { ...subtitles, mode: 'auto', cues } }));
+
+    const captions = timeline.tracks[0].clips;
+    expect(captions.map(c => [c.asset.type, c.start, c.length])).toEqual([['html', 1, 0.5], ['html', 1.5, 0.5]]);
+    expect(captions[1].asset.html).toContain('<span style="color:#FFFF00;font-weight:bold">&lt;you&gt;</span>');
+    expect(captions[1].asset.html).toContain('background-color:#000000');
+    expect(timeline.tracks.flatMap(t => t.clips).some(c => c.asset.type === 'caption' || c.alias)).toBe(false);
+  });
+
+  it('emits keyframed properties as tweens with matching easing', () => {
+    const [logo] = buildShotstackPayload(input({
+      clips: [clip('logo-1', 'logo', 'overlay', 2, 4, {
+        keyframes: [
+          { id: 'k1', time: 1, easing: 'easeInOut', scale: 0.5, opacity: 1 },
+          { id: 'k2', time: 3, easing: 'linear', scale: 1, opacity: 1 },
+        ],
+      })],
+    })).timeline.tracks[0].clips;
+
+    expect(logo.scale).toEqual([
+      { from: 0.5, to: 0.5, start: 0, length: 1, interpolation: 'linear' },
+      { from: 0.5, to: 1, start: 1, length: 2, interpolation: 'bezier', easing: 'easeInOut' },
+      { from: 1, to: 1, start: 3, length: 1, interpolation: 'linear' },
+    ]);
+    expect(logo.opacity).toBeUndefined();
+  });
+
+  it('splits a clip with animated crop into short crop steps', () => {
+    const { timeline } = buildShotstackPayload(input({
+      clips: [clip('main-1', 'a', 'video-1', 0, 1, {
+        trimStart: 2,
+        transitionIn: 'fade',
+        keyframes: [
+          { id: 'k1', time: 0, easing: 'linear', crop: { top: 0, bottom: 0, left: 0, right: 0 } },
+          { id: 'k2', time: 1, easing: 'linear', crop: { top: 0.4, bottom: 0, left: 0, right: 0 } },
+        ],
+      })],
+    }));
+    const steps = timeline.tracks[0].clips;
+
+    expect(steps).toHaveLength(1 / CROP_STEP_SECONDS);
+    expect(steps.map(c => [c.start, c.asset.trim, c.asset.crop?.top])).toEqual([
+      [0, 2, 0.05], [0.25, 2.25, 0.15], [0.5, 2.5, 0.25], [0.75, 2.75, 0.35],
+    ]);
+    expect(steps.map(c => c.transition?.in)).toEqual(['fade', undefined, undefined, undefined]);
+  });
+
+  it('asks Shotstack for MP3 audio and MP4 for formats the FFmpeg worker converts', () => {
+    const withFormat = (format: ExportFormat) =>
+      buildShotstackPayload(input({ outputSettings: { ...input().outputSettings, format } })).output.format;
+
+    expect(withFormat('mp3')).toBe('mp3');
+    expect(withFormat('gif')).toBe('mp4');
+    expect(withFormat('webm')).toBe('mp4');
+  });
+});
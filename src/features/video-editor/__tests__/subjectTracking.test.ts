@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findSalientPoint } from '../subjectTracking';
+import { REFRAME_SIZES } from '@shared/reframe';
+import { ASPECT_RATIO_DIMENSIONS } from '../types';
+
+const WIDTH = 32;
+const HEIGHT = 18;
+
+// Grey RGBA frame with a white square at (left, top)
+const frame = (square?: { left: number; top: number; size: number }) => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(64);
+  if (square) {
+    for (let y = square.top; y < square.top + square.size; y++) {
+      for (let x = square.left; x < square.left + square.size; x++) {
+        data.fill(255, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+      }
+    }
+  }
+  return data;
+};
+
+describe('subject tracking', () => {
+  it('finds a lone object by its edges', () => {
+    const point = findSalientPoint(frame({ left: 22, top: 4, size: 4 }), null, WIDTH, HEIGHT);
+
+    expect(point.x).toBeCloseTo(0.75, 1);
+    expect(point.y).toBeCloseTo(0.33, 1);
+    expect(point.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('follows what moved since the previous frame', () => {
+    const point = findSalientPoint(
+      frame({ left: 4, top: 8, size: 4 }),
+      frame({ left: 8, top: 8, size: 4 }),
+      WIDTH,
+      HEIGHT
+    );
+
+    expect(point.x).toBeGreaterThan(0.15);
+    expect(point.x).toBeLessThan(0.4);
+  });
+
+  it('has no confidence in a flat frame', () => {
+    expect(findSalientPoint(frame(), null, WIDTH, HEIGHT)).toEqual({ x: 0.5, y: 0.5, confidence: 0 });
+  });
+
+  it('reframes to the same sizes editor renders use', () => {
+    expect(REFRAME_SIZES).toEqual(ASPECT_RATIO_DIMENSIONS);
+  });
+});
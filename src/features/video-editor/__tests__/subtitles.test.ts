@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCuesFromWords,
+  detectSubtitleFormat,
+  getCaptionFrames,
+  getCueText,
+  getTranscriptionSources,
+  mergeCueWithNext,
+  parseSubtitles,
+  retimeCue,
+  serializeSubtitles,
+  setCueText,
+  shiftCues,
+  splitCue,
+  updateCueWordStyle,
+  type AssExportSettings,
+} from '../subtitles';
+import type { AudioTrack, Clip, MediaAsset, SubtitleCue, TimelineTrack } from '../types';
+
+const cue = (id: string, start: number, words: [string, number, number][]): SubtitleCue => ({
+  id,
+  start,
+  end: words[words.length - 1][2],
+  words: words.map(([text, wordStart, end]) => ({ text, start: wordStart, end })),
+});
+
+const settings: AssExportSettings = {
+  style: 'classic',
+  fontColor: '#FFFFFF',
+  highlightColor: '#FFFF00',
+  backgroundColor: '#000000',
+  showBackground: false,
+  allCaps: false,
+  fontSize: 24,
+  outlineColor: '#000000',
+  outlineWidth: 2,
+  position: 'bottom',
+  width: 1920,
+  height: 1080,
+};
+
+const hello = cue('a', 1, [['Hello', 1, 1.4], ['there', 1.5, 2]]);
+const friend = cue('b', 3, [['my', 3, 3.2], ['friend.', 3.3, 4]]);
+
+describe('subtitle files', () => {
+  it('detects formats from the file name, then the content', () => {
+    expect(detectSubtitleFormat('', 'talk.vtt')).toBe('vtt');
+    expect(detectSubtitleFormat('[Script Info]\nTitle: x', 'subs.txt')).toBe('ass');
+    expect(detectSubtitleFormat('WEBVTT\n\n00:01.000 --> 00:02.000\nHi', '')).toBe('vtt');
+    expect(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nHi', '')).toBe('srt');
+  });
+
+  it('reads SRT cues and spreads their words across the cue', () => {
+    const cues = parseSubtitles('1\r\n00:00:01,000 --> 00:00:03,000\r\n<i>Hello</i> world\r\n\r\n2\r\n00:00:04,500 --> 00:00:05,000\r\nBye\r\n', 'srt');
+
+    expect(cues.map(getCueText)).toEqual(['Hello world', 'Bye']);
+    expect(cues[0]).toMatchObject({ start: 1, end: 3 });
+    expect(cues[0].words[0].start).toBe(1);
+    expect(cues[0].words[1].end).toBe(3);
+  });
+
+  it('keeps WebVTT inline word timestamps', () => {
+    const [parsed] = parseSubtitles('WEBVTT\n\n00:00:01.000 --> 00:00:03.000 align:center\nHello <00:00:02.000>world', 'vtt');
+
+    expect(parsed.words).toEqual([
+      { text: 'Hello', start: 1, end: 2 },
+      { text: 'world', start: 2, end: 3 },
+    ]);
+  });
+
+  it('reads ASS karaoke timings and word styles', () => {
+    const content = [
+      '[Script Info]',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\k50}Hello, {\\k50}{\\b1\\c&H0000FF&}big{\\r} {\\k100}world',
+    ].join('\n');
+    const [parsed] = parseSubtitles(content, 'ass');
+
+    expect(getCueText(parsed)).toBe('Hello, big world');
+    expect(parsed.words.map(w => w.start)).toEqual([1, 1.5, 2]);
+    expect(parsed.words[1].style).toEqual({ bold: true, color: '#FF0000' });
+    expect(parsed.words[2].style).toBeUndefined();
+  });
+
+  it('round-trips cues through every format', () => {
+    for (const format of ['srt', 'vtt', 'ass'] as const) {
+      const parsed = parseSubtitles(serializeSubtitles([friend, hello], format, settings), format);
+      expect(parsed.map(getCueText)).toEqual(['Hello there', 'my friend.']);
+      expect(parsed.map(c => [c.start, c.end])).toEqual([[1, 2], [3, 4]]);
+    }
+  });
+
+  it('writes the caption style into ASS exports', () => {
+    const ass = serializeSubtitles([hello], 'ass', { ...settings, style: 'boxed-line', position: 'top' });
+
+    expect(ass).toContain('PlayResX: 1920');
+    // Boxed styles use an opaque box border, top captions use alignment 8
+    expect(ass).toMatch(/Style: Default,Arial,24,&H00FFFFFF,[^\n]*,3,4,0,8,/);
+    expect(ass).toContain('Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Hello there');
+  });
+});
+
+describe('cue edits', () => {
+  it('retimes a cue and its words together', () => {
+    const moved = retimeCue(hello, 2, 4);
+
+    expect(moved.words).toEqual([
+      { text: 'Hello', start: 2, end: 2.8 },
+      { text: 'there', start: 3, end: 4 },
+    ]);
+  });
+
+  it('never shifts cues before the timeline start', () => {
+    expect(shiftCues([hello, friend], -5).map(c => c.start)).toEqual([0, 2]);
+  });
+
+  it('keeps word timings when a correction keeps the word count', () => {
+    expect(setCueText(hello, 'Hullo there').words[0]).toEqual({ text: 'Hullo', start: 1, end: 1.4 });
+    expect(setCueText(hello, 'Hello over there').words).toHaveLength(3);
+  });
+
+  it('splits before a word and merges back', () => {
+    const split = splitCue([hello, friend], 'a', 1);
+
+    expect(split.map(getCueText)).toEqual(['Hello', 'there', 'my friend.']);
+    expect(split[1].start).toBe(1.5);
+
+    const merged = mergeCueWithNext(split, 'a');
+    expect(merged.map(getCueText)).toEqual(['Hello there', 'my friend.']);
+  });
+
+  it('drops word styles once nothing is set', () => {
+    const styled = updateCueWordStyle(hello, 0, { bold: true });
+    expect(styled.words[0].style).toEqual({ bold: true });
+    expect(updateCueWordStyle(styled, 0, { bold: false }).words[0].style).toBeUndefined();
+  });
+});
+
+describe('transcripts', () => {
+  it('breaks cues at the word limit, pauses and sentence ends', () => {
+    const cues = buildCuesFromWords([
+      { text: 'one', start: 0, end: 0.3 },
+      { text: 'two', start: 0.3, end: 0.6 },
+      { text: 'three', start: 0.6, end: 0.9 },
+      { text: 'four.', start: 2, end: 2.3 },
+      { text: 'five', start: 2.3, end: 2.6 },
+    ], 2);
+
+    expect(cues.map(getCueText)).toEqual(['one two', 'three', 'four.', 'five']);
+  });
+
+  it('collects the soundtrack and audible clips as sources', () => {
+    const assets = [
+      { id: 'v', type: 'video', url: 'https://cdn/v.mp4', duration: 10 },
+      { id: 'm', type: 'audio', url: 'https://cdn/m.mp3', duration: 60 },
+    ] as MediaAsset[];
+    const tracks = [
+      { id: 'video-1', type: 'visual', volume: 1 },
+      { id: 'video-2', type: 'visual', volume: 1, muted: true },
+    ] as TimelineTrack[];
+    const clips = [
+      { id: 'c1', assetId: 'v', trackId: 'video-1', start: 0, duration: 4, trimStart: 2, volume: 1 },
+      { id: 'c2', assetId: 'v', trackId: 'video-2', start: 4, duration: 4, trimStart: 0, volume: 1 },
+    ] as Clip[];
+
+    const sources = getTranscriptionSources({
+      assets,
+      tracks,
+      clips,
+      audioTrack: { assetId: 'm', volume: 0.5 } as AudioTrack,
+    });
+
+    expect(sources).toEqual([
+      { assetId: 'm', start: 0, trimStart: 0, duration: 8 },
+      { assetId: 'v', start: 0, trimStart: 2, duration: 4 },
+    ]);
+  });
+});
+
+describe('caption frames', () => {
+  it('highlights the spoken word in the classic style', () => {
+    const frames = getCaptionFrames([hello], settings);
+
+    expect(frames.map(f => [f.start, f.end])).toEqual([[1, 1.5], [1.5, 2]]);
+    expect(frames[1].words.map(w => w.color)).toEqual(['#FFFFFF', '#FFFF00']);
+    expect(frames[1].words[1].bold).toBe(true);
+  });
+
+  it('reveals words progressively or one at a time', () => {
+    const progressive = getCaptionFrames([hello], { ...settings, style: 'classic-progressive' });
+    expect(progressive.map(f => f.words.map(w => w.text))).toEqual([['Hello'], ['Hello', 'there']]);
+
+    const oneWord = getCaptionFrames([hello], { ...settings, style: 'classic-one-word', allCaps: true });
+    expect(oneWord.map(f => f.words.map(w => w.text))).toEqual([['HELLO'], ['THERE']]);
+  });
+
+  it('shows boxed lines as one frame with a line box', () => {
+    const frames = getCaptionFrames([hello], { ...settings, style: 'boxed-line' });
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ start: 1, end: 2, lineBox: '#000000' });
+  });
+});
@@ -0,0 +1,147 @@
+// Auto-edit to music - pure functions that cut media on the beats of the
+// background track and turn its timestamped lyrics into captions
+import type { Clip, MediaAsset, SubtitleCue, TransitionType } from './types';
+import { BEATS_PER_BAR, type BeatAnalysis } from './beatDetection';
+import { MIN_CLIP_DURATION, createClip } from './timeline';
+import { MIN_CUE_DURATION, createCue } from './subtitles';
+
+// Beats between cuts; 'auto' cuts faster in louder sections
+export type CutPace = 'auto' | 1 | 2 | 4 | 8;
+
+export const CUT_PACES: { value: CutPace; label: string }[] = [
+  { value: 'auto', label: 'Follow the music' },
+  { value: 1, label: 'Every beat' },
+  { value: 2, label: 'Every 2 beats' },
+  { value: 4, label: 'Every bar' },
+  { value: 8, label: 'Every 2 bars' },
+];
+
+export interface AutoEditOptions {
+  pace: CutPace;
+  transition: TransitionType; // on cuts that land on a bar or section start
+  musicStart: number; // seconds into the track at timeline 0 - the audio trim
+  length: number; // timeline seconds to fill
+}
+
+// Where the timeline cuts; accented cuts start a bar or a section
+export interface CutPoint {
+  time: number;
+  accent: boolean;
+}
+
+export interface AutoEditCut {
+  assetId: string;
+  start: number;
+  duration: number;
+  trimStart: number;
+  transitionIn: TransitionType;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const paceForEnergy = (energy: number): number => energy >= 0.75 ? 2 : energy >= 0.4 ? 4 : 8;
+
+/**
+ * Cut points on the timeline, from its start to `length`: every `pace`
+ * beats, on bar lines when cutting a bar or more at a time, and always at
+ * the start of a section. No shot is shorter than MIN_CLIP_DURATION.
+ */
+export const getCutPoints = (analysis: BeatAnalysis, options: AutoEditOptions): CutPoint[] => {
+  const { musicStart, length } = options;
+  const downbeats = new Set(analysis.downbeats);
+  const sectionStarts = new Set(analysis.sections.slice(1).map(s => s.start));
+
+  const points: CutPoint[] = [{ time: 0, accent: true }];
+  let beatsSinceCut = 0;
+  for (const beat of analysis.beats) {
+    const time = round(beat - musicStart);
+    if (time <= 0) continue;
+    if (time >= length) break;
+    beatsSinceCut++;
+
+    const section = analysis.sections.find(s => beat >= s.start && beat < s.end);
+    const pace = options.pace === 'auto' ? paceForEnergy(section?.energy ?? 1) : options.pace;
+    const due = sectionStarts.has(beat) || (beatsSinceCut >= pace && (pace < BEATS_PER_BAR || downbeats.has(beat)));
+    const fits = time - points[points.length - 1].time >= MIN_CLIP_DURATION && length - time >= MIN_CLIP_DURATION;
+    if (due && fits) {
+      points.push({ time, accent: downbeats.has(beat) || sectionStarts.has(beat) });
+      beatsSinceCut = 0;
+    }
+  }
+  points.push({ time: round(length), accent: false });
+  return points;
+};
+
+/**
+ * Fill the cuts with the assets in order, skipping videos too short for a
+ * shot. Repeated videos continue where their last shot ended, so the same
+ * footage isn't shown twice until a video runs out.
+ */
+export const planAutoEdit = (
+  analysis: BeatAnalysis,
+  assets: Pick<MediaAsset, 'id' | 'type' | 'duration'>[],
+  options: AutoEditOptions
+): AutoEditCut[] => {
+  if (assets.length === 0 || options.length < MIN_CLIP_DURATION) return [];
+  const points = getCutPoints(analysis, options);
+  const used = new Map<string, number>();
+  let next = 0;
+
+  return points.slice(0, -1).map((point, i) => {
+    const duration = round(points[i + 1].time - point.time);
+    const fits = (asset: (typeof assets)[number]) => asset.type === 'image' || (asset.duration ?? 0) >= duration;
+    const offset = assets.findIndex((_, k) => fits(assets[(next + k) % assets.length]));
+    // When nothing is long enough, show what there is
+    const index = (next + Math.max(0, offset)) % assets.length;
+    const asset = assets[index];
+    next = (index + 1) % assets.length;
+
+    let trimStart = 0;
+    if (asset.type === 'video') {
+      trimStart = used.get(asset.id) ?? 0;
+      if (trimStart + duration > (asset.duration ?? 0)) trimStart = 0;
+      used.set(asset.id, round(trimStart + duration));
+    }
+
+    return {
+      assetId: asset.id,
+      start: point.time,
+      duration,
+      trimStart,
+      transitionIn: i > 0 && point.accent ? options.transition : 'none',
+    };
+  });
+};
+
+/** Timeline clips for the cuts, muted so the music carries the edit */
+export const buildAutoEditClips = (cuts: AutoEditCut[], assets: MediaAsset[], trackId: string): Clip[] =>
+  cuts.flatMap(cut => {
+    const asset = assets.find(a => a.id === cut.assetId);
+    if (!asset) return [];
+    return [{
+      ...createClip(asset, trackId, cut.start),
+      duration: cut.duration,
+      trimStart: cut.trimStart,
+      transitionIn: cut.transitionIn,
+      volume: 0,
+    }];
+  });
+
+// A line as get-timestamped-lyrics returns it; times are seconds into the track
+export interface LyricLine {
+  text: string;
+  start_time: number;
+  end_time: number;
+}
+
+/**
+ * Captions for the lyric lines heard on the timeline, without section
+ * markers like [Chorus]
+ */
+export const buildLyricCues = (lines: LyricLine[], musicStart: number, length: number): SubtitleCue[] =>
+  lines.flatMap(line => {
+    const text = line.text.replace(/\[[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+    const start = Math.max(0, line.start_time - musicStart);
+    const end = Math.min(length, line.end_time - musicStart);
+    return text && end - start >= MIN_CUE_DURATION ? [createCue(start, end, text)] : [];
+  });
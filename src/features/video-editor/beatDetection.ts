@@ -0,0 +1,221 @@
+// Beat detection - pure functions that find the tempo, beats, bars and
+// sections of a decoded music track, for cutting the timeline to music
+
+// Analysis frames: ~23ms windows every ~12ms at 44.1kHz
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Tempo prior: octave errors are resolved towards typical pop tempos
+const PREFERRED_BPM = 120;
+
+export const BEATS_PER_BAR = 4;
+
+// A stretch of the track with a steady energy - intro, verse, chorus...
+export interface MusicSection {
+  start: number; // seconds
+  end: number;
+  energy: number; // 0-1, relative to the loudest section
+}
+
+export interface BeatAnalysis {
+  duration: number; // seconds
+  tempo: number; // BPM, 0 when no beat was found
+  beats: number[]; // seconds
+  downbeats: number[]; // first beat of each bar, a subset of beats
+  sections: MusicSection[];
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Frames are timed at their centre, one hop after their start
+const frameTime = (frame: number, hopSeconds: number): number => (frame + 1) * hopSeconds;
+const frameAt = (time: number, hopSeconds: number): number => Math.max(0, Math.round(time / hopSeconds) - 1);
+
+/** Mix decoded channels down to one */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+};
+
+/**
+ * Loudness per analysis frame and how sharply it rises (the onset
+ * strength), with the signal pre-emphasised so drums and plucks stand out
+ */
+export const getOnsetEnvelope = (samples: Float32Array): { energy: Float32Array; onsets: Float32Array } => {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * HOP_SIZE; i < f * HOP_SIZE + FRAME_SIZE; i++) {
+      const emphasised = samples[i] - 0.97 * (i > 0 ? samples[i - 1] : 0);
+      sum += emphasised * emphasised;
+    }
+    energy[f] = Math.sqrt(sum / FRAME_SIZE);
+  }
+
+  // Rises in loudness above the local average
+  const rises = energy.map((value, f) => f > 0 ? Math.max(0, value - energy[f - 1]) : 0);
+  const radius = 20; // ~0.25s either side
+  const onsets = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    const from = Math.max(0, f - radius);
+    const to = Math.min(frames, f + radius + 1);
+    for (let i = from; i < to; i++) sum += rises[i];
+    onsets[f] = Math.max(0, rises[f] - sum / (to - from));
+  }
+  return { energy, onsets };
+};
+
+/**
+ * Tempo in BPM from the autocorrelation of the onset envelope, weighted
+ * towards common tempos so half- and double-time readings lose
+ */
+export const estimateTempo = (onsets: Float32Array, hopSeconds: number): number => {
+  const minLag = Math.floor(60 / (MAX_BPM * hopSeconds));
+  const maxLag = Math.ceil(60 / (MIN_BPM * hopSeconds));
+  if (onsets.length <= maxLag) return 0;
+
+  const scores: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < onsets.length; i++) sum += onsets[i] * onsets[i + lag];
+    const bpm = 60 / (lag * hopSeconds);
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    scores.push((sum / (onsets.length - lag)) * prior);
+  }
+
+  const best = scores.indexOf(Math.max(...scores));
+  if (scores[best] <= 0) return 0;
+  // Refine between lags with a parabola through the peak and its neighbours
+  const before = scores[best - 1] ?? scores[best];
+  const after = scores[best + 1] ?? scores[best];
+  const curvature = before - 2 * scores[best] + after;
+  const shift = curvature < 0 ? (before - after) / (2 * curvature) : 0;
+  const lag = minLag + best + shift;
+  return Math.round(600 / (lag * hopSeconds)) / 10;
+};
+
+/**
+ * Beat times for a tempo: the grid phase that lands on the most onsets,
+ * then each beat nudged to the strongest onset near where it's expected,
+ * so the grid follows small tempo drift
+ */
+export const findBeats = (onsets: Float32Array, hopSeconds: number, tempo: number): number[] => {
+  if (tempo <= 0) return [];
+  const period = 60 / (tempo * hopSeconds);
+
+  let bestPhase = 0;
+  let bestScore = -1;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let f = phase; f < onsets.length; f += period) score += onsets[Math.round(f)] ?? 0;
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const tolerance = Math.max(1, Math.round(period * 0.08));
+  const beats: number[] = [];
+  let expected = bestPhase;
+  while (expected < onsets.length) {
+    const centre = Math.round(expected);
+    let frame = centre;
+    for (let f = Math.max(0, centre - tolerance); f <= Math.min(onsets.length - 1, centre + tolerance); f++) {
+      if (onsets[f] > onsets[frame]) frame = f;
+    }
+    beats.push(round(frameTime(frame, hopSeconds)));
+    expected = frame + period;
+  }
+  return beats;
+};
+
+/** Every BEATS_PER_BAR-th beat, starting from the beat that gives the strongest bar starts */
+export const findDownbeats = (beats: number[], onsets: Float32Array, hopSeconds: number): number[] => {
+  let bestOffset = 0;
+  let bestScore = -1;
+  for (let offset = 0; offset < Math.min(BEATS_PER_BAR, beats.length); offset++) {
+    let score = 0;
+    for (let i = offset; i < beats.length; i += BEATS_PER_BAR) {
+      score += onsets[frameAt(beats[i], hopSeconds)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+  return beats.filter((_, i) => i >= bestOffset && (i - bestOffset) % BEATS_PER_BAR === 0);
+};
+
+// Bars compared either side of a candidate section boundary, and the
+// relative change in loudness that makes one
+const SECTION_WINDOW_BARS = 4;
+const SECTION_THRESHOLD = 0.2;
+
+/**
+ * Split the track into sections where the loudness of the surrounding bars
+ * changes markedly, at least SECTION_WINDOW_BARS bars apart
+ */
+export const findSections = (
+  downbeats: number[],
+  energy: Float32Array,
+  hopSeconds: number,
+  duration: number
+): MusicSection[] => {
+  const edges = [0, ...downbeats.filter(t => t > 0), duration];
+  const barEnergy = edges.slice(0, -1).map((start, i) => {
+    const from = Math.floor(start / hopSeconds);
+    const to = Math.max(from + 1, Math.floor(edges[i + 1] / hopSeconds));
+    let sum = 0;
+    for (let f = from; f < to && f < energy.length; f++) sum += energy[f];
+    return sum / (to - from);
+  });
+  const loudest = Math.max(...barEnergy, 0);
+  if (loudest === 0) return [{ start: 0, end: round(duration), energy: 0 }];
+
+  const mean = (from: number, to: number) => {
+    const bars = barEnergy.slice(Math.max(0, from), to);
+    return bars.reduce((sum, value) => sum + value, 0) / Math.max(1, bars.length);
+  };
+
+  const boundaries = [0];
+  for (let bar = SECTION_WINDOW_BARS; bar <= barEnergy.length - SECTION_WINDOW_BARS; bar++) {
+    if (bar - boundaries[boundaries.length - 1] < SECTION_WINDOW_BARS) continue;
+    const change = Math.abs(mean(bar, bar + SECTION_WINDOW_BARS) - mean(bar - SECTION_WINDOW_BARS, bar)) / loudest;
+    const nextChange = Math.abs(mean(bar + 1, bar + 1 + SECTION_WINDOW_BARS) - mean(bar + 1 - SECTION_WINDOW_BARS, bar + 1)) / loudest;
+    // Take the bar where the change peaks
+    if (change >= SECTION_THRESHOLD && change >= nextChange) boundaries.push(bar);
+  }
+
+  const sectionEnergy = boundaries.map((bar, i) => mean(bar, boundaries[i + 1] ?? barEnergy.length));
+  const loudestSection = Math.max(...sectionEnergy);
+  return boundaries.map((bar, i) => ({
+    start: round(edges[bar]),
+    end: round(edges[boundaries[i + 1] ?? barEnergy.length]),
+    energy: round(sectionEnergy[i] / loudestSection),
+  }));
+};
+
+/** Tempo, beats, bars and sections of a mono track */
+export const analyseBeats = (samples: Float32Array, sampleRate: number): BeatAnalysis => {
+  const duration = samples.length / sampleRate;
+  const hopSeconds = HOP_SIZE / sampleRate;
+  const { energy, onsets } = getOnsetEnvelope(samples);
+  const tempo = estimateTempo(onsets, hopSeconds);
+  const beats = findBeats(onsets, hopSeconds, tempo);
+  const downbeats = findDownbeats(beats, onsets, hopSeconds);
+  return {
+    duration: round(duration),
+    tempo,
+    beats,
+    downbeats,
+    sections: findSections(downbeats, energy, hopSeconds, duration),
+  };
+};
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { AudioWaveform, Film, Image, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useVideoEditorStore } from '../store';
+import { useAutoEdit } from '../hooks/useAutoEdit';
+import { CUT_PACES, type CutPace } from '../autoEdit';
+import { TransitionType } from '../types';
+
+const TRANSITIONS: { value: TransitionType; label: string }[] = [
+  { value: 'none', label: 'Hard Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'fadeToBlack', label: 'Fade to Black' },
+  { value: 'fadeToWhite', label: 'Fade to White' },
+  { value: 'slideLeft', label: 'Slide Left' },
+  { value: 'slideRight', label: 'Slide Right' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'wipeLeft', label: 'Wipe Left' },
+  { value: 'wipeRight', label: 'Wipe Right' },
+];
+
+export const AutoEditPanel = () => {
+  const { assets, clips } = useVideoEditorStore();
+  const {
+    musicAsset,
+    analysis,
+    analyse,
+    isAnalysing,
+    apply,
+    isApplying,
+    canFetchLyrics,
+    lyricsCost,
+  } = useAutoEdit();
+  const visualAssets = assets.filter(a => a.type !== 'audio');
+  // Defaults to what's already on the timeline, or everything
+  const [selected, setSelected] = useState<string[] | null>(null);
+  const [pace, setPace] = useState<CutPace>('auto');
+  const [transition, setTransition] = useState<TransitionType>('fade');
+  const [lyrics, setLyrics] = useState(true);
+
+  const onTimeline = visualAssets.filter(a => clips.some(c => c.assetId === a.id)).map(a => a.id);
+  const selectedIds = selected ?? (onTimeline.length > 0 ? onTimeline : visualAssets.map(a => a.id));
+
+  const toggleAsset = (assetId: string, checked: boolean) => {
+    setSelected(checked
+      ? visualAssets.map(a => a.id).filter(id => id === assetId || selectedIds.includes(id))
+      : selectedIds.filter(id => id !== assetId));
+  };
+
+  if (!musicAsset) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        Add background music - upload it under Audio Track or pick a track from your recent generations
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Music */}
+      <div className="flex items-center gap-3 p-3 rounded-lg border">
+        <AudioWaveform className="h-5 w-5 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{musicAsset.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {analysis
+              ? `${String(Math.round(analysis.tempo))} BPM • ${String(analysis.downbeats.length)} bars • ${String(analysis.sections.length)} sections`
+              : 'Not analysed yet'}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void analyse()} disabled={isAnalysing || isApplying}>
+          {isAnalysing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Analyse'}
+        </Button>
+      </div>
+
+      {/* Media to cut */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Clips & Images</Label>
+        {visualAssets.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Add videos or images to the media library first</p>
+        ) : (
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {visualAssets.map(asset => (
+              <div key={asset.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`auto-edit-${asset.id}`}
+                  checked={selectedIds.includes(asset.id)}
+                  onCheckedChange={(checked) => { toggleAsset(asset.id, checked === true); }}
+                />
+                {asset.type === 'video'
+                  ? <Film className="h-3 w-3 text-muted-foreground" />
+                  : <Image className="h-3 w-3 text-muted-foreground" />}
+                <Label htmlFor={`auto-edit-${asset.id}`} className="text-sm truncate">{asset.name}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Pace */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Cut</Label>
+        <Select value={String(pace)} onValueChange={(value) => { setPace(value === 'auto' ? 'auto' : Number(value) as CutPace); }}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CUT_PACES.map(option => (
+              <SelectItem key={String(option.value)} value={String(option.value)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Transition on bar lines */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Transition on Downbeats</Label>
+        <Select value={transition} onValueChange={(value) => { setTransition(value as TransitionType); }}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSITIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Lyrics */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-sm font-medium">Lyric Captions</Label>
+          <p className="text-xs text-muted-foreground">
+            {canFetchLyrics
+              ? `Timed lyrics from the music studio (${String(lyricsCost)} credits)`
+              : 'Only for tracks added from your music generations'}
+          </p>
+        </div>
+        <Switch checked={lyrics && canFetchLyrics} onCheckedChange={setLyrics} disabled={!canFetchLyrics} />
+      </div>
+
+      <Button
+        className="w-full"
+        onClick={() => void apply({ assetIds: selectedIds, pace, transition, lyrics: lyrics && canFetchLyrics })}
+        disabled={isApplying || isAnalysing || selectedIds.length === 0}
+      >
+        {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+        Auto-Edit to Music
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Replaces the clips on the bottom video track{lyrics && canFetchLyrics ? ' and the subtitles' : ''}. Undo to go back.
+      </p>
+    </div>
+  );
+};
@@ -4,7 +4,9 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import { X } from 'lucide-react';
+import { Trash2, X } from 'lucide-react';
+import { KeyframePanel } from './KeyframePanel';
+import { isAnimated } from '../keyframes';
 
 const TRANSITIONS: { value: TransitionType; label: string }[] = [
   { value: 'none', label: 'None' },
@@ -28,7 +30,7 @@ const FIT_OPTIONS = [
 ];
 
 export const ClipSettingsPanel = () => {
-  const { clips, selectedClipId, assets, updateClip, selectClip } = useVideoEditorStore();
+  const { clips, selectedClipId, assets, updateClip, removeClip, selectClip } = useVideoEditorStore();
   
   const selectedClip = clips.find(c => c.id === selectedClipId);
   const asset = selectedClip ? assets.find(a => a.id === selectedClip.assetId) : null;
@@ -37,15 +39,36 @@ export const ClipSettingsPanel = () => {
     return null;
   }
 
-  const maxDuration = asset.type === 'video' ? (asset.duration || 60) : 30;
+  const maxDuration = asset.type === 'image' ? 30 : (asset.duration || 60);
+  const isVisual = asset.type !== 'audio';
 
   return (
     <div className="border rounded-lg p-4 bg-card space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="font-medium text-sm">Clip Settings: {asset.name}</h3>
-        <Button size="icon" variant="ghost" onClick={() => selectClip(null)}>
-          <X className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center">
+          <Button size="icon" variant="ghost" onClick={() => { removeClip(selectedClip.id); }} title="Remove clip">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => selectClip(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Start */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Start</Label>
+          <span className="text-xs text-muted-foreground">{selectedClip.start.toFixed(1)}s</span>
+        </div>
+        <Slider
+          value={[selectedClip.start]}
+          min={0}
+          max={Math.max(60, Math.ceil(selectedClip.start + selectedClip.duration))}
+          step={0.1}
+          onValueChange={([value]) => { updateClip(selectedClip.id, { start: value }); }}
+        />
       </div>
 
       {/* Duration */}
@@ -63,8 +86,8 @@ export const ClipSettingsPanel = () => {
         />
       </div>
 
-      {/* Trim Start (for videos only) */}
-      {asset.type === 'video' && asset.duration && (
+      {/* Trim Start (for videos and audio) */}
+      {asset.type !== 'image' && asset.duration && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="text-xs">Trim Start</Label>
@@ -80,8 +103,8 @@ export const ClipSettingsPanel = () => {
         </div>
       )}
 
-      {/* Volume (for videos only) */}
-      {asset.type === 'video' && (
+      {/* Volume (for videos and audio) */}
+      {asset.type !== 'image' && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="text-xs">Volume</Label>
@@ -97,74 +120,140 @@ export const ClipSettingsPanel = () => {
         </div>
       )}
 
-      {/* Transition In */}
-      <div className="space-y-2">
-        <Label className="text-xs">Transition In</Label>
-        <Select
-          value={selectedClip.transitionIn || 'none'}
-          onValueChange={(value) => updateClip(selectedClip.id, { transitionIn: value as TransitionType })}
-        >
-          <SelectTrigger className="h-8 text-xs">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {TRANSITIONS.map(t => (
-              <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+      {isVisual && (
+        <>
+          {/* Transition In */}
+          <div className="space-y-2">
+            <Label className="text-xs">Transition In</Label>
+            <Select
+              value={selectedClip.transitionIn || 'none'}
+              onValueChange={(value) => updateClip(selectedClip.id, { transitionIn: value as TransitionType })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITIONS.map(t => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-      {/* Transition Out */}
-      <div className="space-y-2">
-        <Label className="text-xs">Transition Out</Label>
-        <Select
-          value={selectedClip.transitionOut || 'none'}
-          onValueChange={(value) => updateClip(selectedClip.id, { transitionOut: value as TransitionType })}
-        >
-          <SelectTrigger className="h-8 text-xs">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {TRANSITIONS.map(t => (
-              <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+          {/* Transition Out */}
+          <div className="space-y-2">
+            <Label className="text-xs">Transition Out</Label>
+            <Select
+              value={selectedClip.transitionOut || 'none'}
+              onValueChange={(value) => updateClip(selectedClip.id, { transitionOut: value as TransitionType })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITIONS.map(t => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-      {/* Fit Mode */}
-      <div className="space-y-2">
-        <Label className="text-xs">Fit Mode</Label>
-        <Select
-          value={selectedClip.fit}
-          onValueChange={(value) => updateClip(selectedClip.id, { fit: value as 'cover' | 'contain' | 'crop' | 'none' })}
-        >
-          <SelectTrigger className="h-8 text-xs">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {FIT_OPTIONS.map(f => (
-              <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+          {/* Fit Mode */}
+          <div className="space-y-2">
+            <Label className="text-xs">Fit Mode</Label>
+            <Select
+              value={selectedClip.fit}
+              onValueChange={(value) => updateClip(selectedClip.id, { fit: value as 'cover' | 'contain' | 'crop' | 'none' })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIT_OPTIONS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-      {/* Scale */}
-      <div className="space-y-2">
-        <div className="flex items-center justify-between">
-          <Label className="text-xs">Scale</Label>
-          <span className="text-xs text-muted-foreground">{Math.round(selectedClip.scale * 100)}%</span>
-        </div>
-        <Slider
-          value={[selectedClip.scale]}
-          min={0.1}
-          max={2}
-          step={0.05}
-          onValueChange={([value]) => updateClip(selectedClip.id, { scale: value })}
-        />
-      </div>
+          {/* Scale */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Scale{isAnimated(selectedClip, 'scale') && ' (keyframed)'}</Label>
+              <span className="text-xs text-muted-foreground">{Math.round(selectedClip.scale * 100)}%</span>
+            </div>
+            <Slider
+              value={[selectedClip.scale]}
+              min={0.1}
+              max={2}
+              step={0.05}
+              onValueChange={([value]) => updateClip(selectedClip.id, { scale: value })}
+            />
+          </div>
+
+          {/* Position (overlays and picture-in-picture) */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Position X</Label>
+                <span className="text-xs text-muted-foreground">{Math.round(selectedClip.position.x * 100)}%</span>
+              </div>
+              <Slider
+                value={[selectedClip.position.x]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={([value]) => { updateClip(selectedClip.id, { position: { ...selectedClip.position, x: value } }); }}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Position Y</Label>
+                <span className="text-xs text-muted-foreground">{Math.round(selectedClip.position.y * 100)}%</span>
+              </div>
+              <Slider
+                value={[selectedClip.position.y]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={([value]) => { updateClip(selectedClip.id, { position: { ...selectedClip.position, y: value } }); }}
+              />
+            </div>
+          </div>
+
+          {/* Rotation */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Rotation{isAnimated(selectedClip, 'rotation') && ' (keyframed)'}</Label>
+              <span className="text-xs text-muted-foreground">{Math.round(selectedClip.rotation ?? 0)}°</span>
+            </div>
+            <Slider
+              value={[selectedClip.rotation ?? 0]}
+              min={-180}
+              max={180}
+              step={1}
+              onValueChange={([value]) => { updateClip(selectedClip.id, { rotation: value }); }}
+            />
+          </div>
+
+          {/* Opacity */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Opacity{isAnimated(selectedClip, 'opacity') && ' (keyframed)'}</Label>
+              <span className="text-xs text-muted-foreground">{Math.round((selectedClip.opacity ?? 1) * 100)}%</span>
+            </div>
+            <Slider
+              value={[selectedClip.opacity ?? 1]}
+              min={0}
+              max={1}
+              step={0.05}
+              onValueChange={([value]) => { updateClip(selectedClip.id, { opacity: value }); }}
+            />
+          </div>
+
+          <KeyframePanel clip={selectedClip} isImage={asset.type === 'image'} />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,203 @@
+import { useVideoEditorStore } from '../store';
+import type { Clip, ClipKeyframe, ClipTransform, CropRect, Easing, KenBurnsPreset } from '../types';
+import { EASINGS, KEN_BURNS_PRESETS, getAnimatedValue } from '../keyframes';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Diamond, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const CROP_SIDES: (keyof CropRect)[] = ['top', 'bottom', 'left', 'right'];
+
+interface ValueSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const ValueSlider = ({ label, value, min, max, step, format, onChange }: ValueSliderProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label className="text-xs">{label}</Label>
+      <span className="text-xs text-muted-foreground">{format(value)}</span>
+    </div>
+    <Slider value={[value]} min={min} max={max} step={step} onValueChange={([v]) => { onChange(v); }} />
+  </div>
+);
+
+const percent = (value: number) => `${String(Math.round(value * 100))}%`;
+
+interface KeyframeEditorProps {
+  clip: Clip;
+  keyframe: ClipKeyframe;
+}
+
+// Values shown for a keyframe that doesn't set a property are what the clip
+// already has at that time; moving a slider starts animating that property.
+const KeyframeEditor = ({ clip, keyframe }: KeyframeEditorProps) => {
+  const { updateKeyframe, removeKeyframe } = useVideoEditorStore();
+  const valueOf = <P extends keyof ClipTransform>(property: P): ClipTransform[P] =>
+    (keyframe[property] as ClipTransform[P] | undefined) ?? getAnimatedValue(clip, property, keyframe.time);
+  const update = (updates: Partial<Omit<ClipKeyframe, 'id'>>) => { updateKeyframe(clip.id, keyframe.id, updates); };
+
+  const position = valueOf('position');
+  const crop = valueOf('crop');
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">Keyframe at {keyframe.time.toFixed(1)}s</span>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => { removeKeyframe(clip.id, keyframe.id); }} title="Remove keyframe">
+          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+        </Button>
+      </div>
+
+      <ValueSlider
+        label="Time"
+        value={keyframe.time}
+        min={0}
+        max={clip.duration}
+        step={0.1}
+        format={(v) => `${v.toFixed(1)}s`}
+        onChange={(time) => { update({ time }); }}
+      />
+
+      <div className="space-y-2">
+        <Label className="text-xs">Easing to next keyframe</Label>
+        <Select value={keyframe.easing} onValueChange={(value) => { update({ easing: value as Easing }); }}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EASINGS.map(e => (
+              <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <ValueSlider
+          label="Position X"
+          value={position.x}
+          min={0}
+          max={1}
+          step={0.01}
+          format={percent}
+          onChange={(x) => { update({ position: { ...position, x } }); }}
+        />
+        <ValueSlider
+          label="Position Y"
+          value={position.y}
+          min={0}
+          max={1}
+          step={0.01}
+          format={percent}
+          onChange={(y) => { update({ position: { ...position, y } }); }}
+        />
+      </div>
+      <ValueSlider label="Scale" value={valueOf('scale')} min={0.1} max={3} step={0.05} format={percent} onChange={(scale) => { update({ scale }); }} />
+      <ValueSlider
+        label="Rotation"
+        value={valueOf('rotation')}
+        min={-180}
+        max={180}
+        step={1}
+        format={(v) => `${String(Math.round(v))}°`}
+        onChange={(rotation) => { update({ rotation }); }}
+      />
+      <ValueSlider label="Opacity" value={valueOf('opacity')} min={0} max={1} step={0.05} format={percent} onChange={(opacity) => { update({ opacity }); }} />
+
+      <div className="grid grid-cols-2 gap-4">
+        {CROP_SIDES.map(side => (
+          <ValueSlider
+            key={side}
+            label={`Crop ${side}`}
+            value={crop[side]}
+            min={0}
+            max={0.9}
+            step={0.01}
+            format={percent}
+            onChange={(value) => { update({ crop: { ...crop, [side]: value } }); }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface KeyframePanelProps {
+  clip: Clip;
+  isImage: boolean;
+}
+
+/**
+ * Keyframe animation for a visual clip: Ken Burns presets, the clip's
+ * keyframes and an editor for the selected one
+ */
+export const KeyframePanel = ({ clip, isImage }: KeyframePanelProps) => {
+  const { selectedKeyframeId, addKeyframe, selectKeyframe, clearKeyframes, applyKenBurns } = useVideoEditorStore();
+  const keyframes = clip.keyframes ?? [];
+  const selected = keyframes.find(k => k.id === selectedKeyframeId);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">Animation</Label>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => { addKeyframe(clip.id, 0); }}>
+            <Plus className="h-3 w-3 mr-1" />
+            Keyframe
+          </Button>
+          {keyframes.length > 0 && (
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => { clearKeyframes(clip.id); }}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Ken Burns{isImage ? '' : ' (best on stills)'}</Label>
+        <Select value="" onValueChange={(value) => { applyKenBurns(clip.id, value as KenBurnsPreset); }}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Apply a preset..." />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KEN_BURNS_PRESETS) as KenBurnsPreset[]).map(preset => (
+              <SelectItem key={preset} value={preset}>{KEN_BURNS_PRESETS[preset].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {keyframes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No keyframes. Click the keyframe lane under the clip in the timeline to add one.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {keyframes.map(keyframe => (
+            <Button
+              key={keyframe.id}
+              size="sm"
+              variant={keyframe.id === selectedKeyframeId ? 'secondary' : 'ghost'}
+              className={cn("h-7 px-2 text-xs", keyframe.id === selectedKeyframeId && "ring-1 ring-primary")}
+              onClick={() => { selectKeyframe(keyframe.id); }}
+            >
+              <Diamond className="h-3 w-3 mr-1" />
+              {keyframe.time.toFixed(1)}s
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {selected && <KeyframeEditor clip={clip} keyframe={selected} />}
+    </div>
+  );
+};
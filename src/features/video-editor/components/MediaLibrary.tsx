@@ -36,26 +36,27 @@ export const MediaLibrary = () => {
     isClearingAssets
   } = useVideoEditorAssets();
 
-  const handleAddToSequence = (asset: MediaAsset) => {
+  const handleAddToTimeline = (asset: MediaAsset) => {
     // First add asset to store so clips can reference it
     addAsset(asset);
-    
-    if (asset.type === 'audio') {
-      setAudioTrack({
-        id: crypto.randomUUID(),
-        assetId: asset.id,
-        asset,
-        volume: 0.5,
-        fadeIn: true,
-        fadeOut: true,
-        fadeInDuration: 1,
-        fadeOutDuration: 1,
-        trimStart: 0,
-        loop: false,
-      });
-    } else {
-      addClipFromAsset(asset.id);
-    }
+    // Audio lands on the first audio track, visuals at the end of the main track
+    addClipFromAsset(asset.id);
+  };
+
+  const handleSetBackgroundAudio = (asset: MediaAsset) => {
+    addAsset(asset);
+    setAudioTrack({
+      id: crypto.randomUUID(),
+      assetId: asset.id,
+      asset,
+      volume: 0.5,
+      fadeIn: true,
+      fadeOut: true,
+      fadeInDuration: 1,
+      fadeOutDuration: 1,
+      trimStart: 0,
+      loop: false,
+    });
   };
 
   if (isLoading) {
@@ -140,11 +141,23 @@ export const MediaLibrary = () => {
                 {formatSize(asset.size)}
               </p>
             </div>
+            {asset.type === 'audio' && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="shrink-0"
+                title="Use as background music"
+                onClick={() => handleSetBackgroundAudio(asset)}
+              >
+                <Music className="h-4 w-4" />
+              </Button>
+            )}
             <Button
               size="sm"
               variant="secondary"
               className="shrink-0"
-              onClick={() => handleAddToSequence(asset)}
+              title="Add to timeline"
+              onClick={() => handleAddToTimeline(asset)}
             >
               <Plus className="h-4 w-4" />
             </Button>
@@ -136,6 +136,11 @@ export const MediaUploader = () => {
                     muted
                     playsInline
                   />
+                ) : gen.type === 'audio' ? (
+                  <div className="w-full h-full bg-muted flex flex-col items-center justify-center gap-1 p-1">
+                    <Music className="h-6 w-6 text-muted-foreground" />
+                    <span className="text-[10px] text-muted-foreground line-clamp-2">{gen.prompt.slice(0, 40)}</span>
+                  </div>
                 ) : (
                   <img
                     src={gen.fullUrl || undefined}
@@ -157,6 +162,8 @@ export const MediaUploader = () => {
                 <div className="absolute top-1 right-1 p-1 rounded bg-black/60">
                   {gen.type === 'video' ? (
                     <Film className="h-3 w-3 text-white" />
+                  ) : gen.type === 'audio' ? (
+                    <Music className="h-3 w-3 text-white" />
                   ) : (
                     <Image className="h-3 w-3 text-white" />
                   )}
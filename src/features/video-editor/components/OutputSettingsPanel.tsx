@@ -1,8 +1,11 @@
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { useVideoEditorStore } from '../store';
-import { AspectRatio } from '../types';
+import { AspectRatio, ExportFormat, ExportOptions, GifOptions } from '../types';
+import { EXPORT_FORMATS } from '@shared/export-formats';
 
 const ASPECT_RATIOS: { value: AspectRatio; label: string; desc: string }[] = [
   { value: '16:9', label: '16:9', desc: 'YouTube, TV' },
@@ -18,6 +21,12 @@ const FPS_OPTIONS = [
   { value: 60, label: '60 FPS', desc: 'Smooth' },
 ];
 
+const FORMAT_OPTIONS = Object.entries(EXPORT_FORMATS) as [ExportFormat, (typeof EXPORT_FORMATS)[ExportFormat]][];
+
+const GIF_PALETTE_OPTIONS = [256, 128, 64, 32, 16];
+
+const GIF_WIDTH_OPTIONS = [320, 480, 640, 800];
+
 const QUALITY_OPTIONS = [
   { value: 'sd', label: 'SD', desc: '480p' },
   { value: 'hd', label: 'HD', desc: '720p/1080p' },
@@ -26,9 +35,149 @@ const QUALITY_OPTIONS = [
 
 export const OutputSettingsPanel = () => {
   const { outputSettings, updateOutputSettings } = useVideoEditorStore();
+  const { format, exportOptions } = outputSettings;
+  const formatSpec = EXPORT_FORMATS[format];
+
+  const updateExportOptions = (updates: Partial<ExportOptions>) => {
+    updateOutputSettings({ exportOptions: { ...exportOptions, ...updates } });
+  };
+  const updateGif = (updates: Partial<GifOptions>) => {
+    updateExportOptions({ gif: { ...exportOptions.gif, ...updates } });
+  };
 
   return (
     <div className="space-y-6">
+      {/* Export Format */}
+      <div className="space-y-2">
+        <Label className="text-base font-medium">Format</Label>
+        <Select
+          value={format}
+          onValueChange={(value) => { updateOutputSettings({ format: value as ExportFormat }); }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORMAT_OPTIONS.map(([value, spec]) => (
+              <SelectItem key={value} value={value}>
+                {spec.label} - {spec.creditsPerSecond} credits/s
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {formatSpec.description}
+          {!formatSpec.shotstackFormat && ' · Rendered locally with FFmpeg'}
+        </p>
+      </div>
+
+      {format === 'gif' && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">GIF Frame Rate</Label>
+              <span className="text-sm text-muted-foreground">{exportOptions.gif.fps} fps</span>
+            </div>
+            <Slider
+              value={[exportOptions.gif.fps]}
+              min={5}
+              max={30}
+              step={1}
+              onValueChange={([value]) => { updateGif({ fps: value }); }}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-sm">Palette</Label>
+              <Select
+                value={exportOptions.gif.colors.toString()}
+                onValueChange={(value) => { updateGif({ colors: parseInt(value) }); }}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GIF_PALETTE_OPTIONS.map((colors) => (
+                    <SelectItem key={colors} value={colors.toString()}>{colors} colours</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Width</Label>
+              <Select
+                value={exportOptions.gif.width.toString()}
+                onValueChange={(value) => { updateGif({ width: parseInt(value) }); }}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GIF_WIDTH_OPTIONS.map((width) => (
+                    <SelectItem key={width} value={width.toString()}>{width}px</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="gifDither" className="text-sm">Dithering</Label>
+            <Switch
+              id="gifDither"
+              checked={exportOptions.gif.dither}
+              onCheckedChange={(checked) => { updateGif({ dither: checked }); }}
+            />
+          </div>
+        </div>
+      )}
+
+      {format === 'webm' && (
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="transparentBackground" className="text-sm">Transparent Background</Label>
+            <p className="text-xs text-muted-foreground">For overlays - uncovered areas are see-through</p>
+          </div>
+          <Switch
+            id="transparentBackground"
+            checked={exportOptions.transparentBackground}
+            onCheckedChange={(checked) => { updateExportOptions({ transparentBackground: checked }); }}
+          />
+        </div>
+      )}
+
+      {(format === 'png-sequence' || format === 'poster-sheet') && (
+        <div className="space-y-4 rounded-lg border p-3">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Frame Every</Label>
+              <span className="text-sm text-muted-foreground">{exportOptions.frameInterval}s</span>
+            </div>
+            <Slider
+              value={[exportOptions.frameInterval]}
+              min={0.5}
+              max={10}
+              step={0.5}
+              onValueChange={([value]) => { updateExportOptions({ frameInterval: value }); }}
+            />
+          </div>
+          {format === 'poster-sheet' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Columns</Label>
+                <span className="text-sm text-muted-foreground">{exportOptions.sheetColumns}</span>
+              </div>
+              <Slider
+                value={[exportOptions.sheetColumns]}
+                min={1}
+                max={12}
+                step={1}
+                onValueChange={([value]) => { updateExportOptions({ sheetColumns: value }); }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Aspect Ratio */}
       <div>
         <Label className="text-base font-medium">Aspect Ratio</Label>
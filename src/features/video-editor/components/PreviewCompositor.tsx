@@ -0,0 +1,113 @@
+import { useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Pause, Play, Volume2, VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useVideoEditorStore } from '../store';
+import { buildShotstackPayload } from '@shared/render-payload';
+import { usePreviewPlayer } from '../hooks/usePreviewPlayer';
+
+// Timecode as m:ss:ff so single frames can be told apart
+const formatTimecode = (seconds: number, fps: number) => {
+  const totalFrames = Math.round(seconds * fps);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${String(mins)}:${secs.toString().padStart(2, '0')}:${frames.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Live preview of the edit, composited in the browser from the same payload
+ * a render sends - transitions, overlays, captions and the audio mix show
+ * as they will come out, without paying for a render
+ */
+export const PreviewCompositor = () => {
+  const { assets, tracks, clips, audioTrack, subtitleConfig, outputSettings } = useVideoEditorStore();
+
+  const payload = useMemo(() => {
+    try {
+      return buildShotstackPayload({ assets, tracks, clips, audioTrack, subtitleConfig, outputSettings });
+    } catch {
+      // A clip whose media was removed - the render would fail the same way
+      return null;
+    }
+  }, [assets, tracks, clips, audioTrack, subtitleConfig, outputSettings]);
+
+  const {
+    canvasRef,
+    canvasSize,
+    currentTime,
+    duration,
+    fps,
+    isPlaying,
+    isMuted,
+    togglePlay,
+    seek,
+    stepFrame,
+    toggleMute,
+  } = usePreviewPlayer(payload);
+
+  if (!payload || duration === 0) {
+    return (
+      <div className="aspect-video bg-muted/50 rounded-lg flex items-center justify-center border-2 border-dashed border-border">
+        <div className="text-center space-y-2">
+          <Play className="h-12 w-12 mx-auto text-muted-foreground/50" />
+          <p className="text-sm text-muted-foreground">
+            Add clips to the timeline to preview your video
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-lg overflow-hidden bg-black flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          className="max-h-[60vh] max-w-full cursor-pointer"
+          style={{ aspectRatio: `${String(canvasSize.width)} / ${String(canvasSize.height)}` }}
+          onClick={togglePlay}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground w-16 tabular-nums">
+            {formatTimecode(currentTime, fps)}
+          </span>
+          <Slider
+            value={[currentTime]}
+            max={duration}
+            step={1 / fps}
+            onValueChange={([value]) => { seek(value); }}
+            className="flex-1"
+          />
+          <span className="text-xs text-muted-foreground w-16 text-right tabular-nums">
+            {formatTimecode(duration, fps)}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button size="icon" variant="ghost" onClick={() => { stepFrame(-1); }} title="Previous frame">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button size="icon" variant="ghost" onClick={() => { stepFrame(1); }} title="Next frame">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={toggleMute} title={isMuted ? 'Unmute' : 'Mute'}>
+            {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </Button>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {fps} fps preview
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
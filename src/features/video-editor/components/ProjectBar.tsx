@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  Check,
+  Cloud,
+  CloudOff,
+  Copy,
+  FilePlus,
+  FolderOpen,
+  Loader2,
+  Pencil,
+  Redo2,
+  Save,
+  Trash2,
+  Undo2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useVideoEditorStore } from '../store';
+import { useProjectAutosave } from '../hooks/useProjectAutosave';
+import { useVideoEditorProjects } from '../hooks/useVideoEditorProjects';
+import type { ProjectSaveStatus, VideoEditorProjectSummary } from '../types';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${String(mins)}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SaveStatusLabel = ({ status, isDirty, hasProject }: { status: ProjectSaveStatus; isDirty: boolean; hasProject: boolean }) => {
+  if (!hasProject) {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <CloudOff className="h-3.5 w-3.5" /> Not saved
+      </span>
+    );
+  }
+  if (status === 'saving') {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" /> Saving...
+      </span>
+    );
+  }
+  if (status === 'conflict') {
+    return (
+      <span className="flex items-center gap-1 text-destructive">
+        <AlertTriangle className="h-3.5 w-3.5" /> Changed elsewhere
+      </span>
+    );
+  }
+  if (status === 'error') {
+    return (
+      <span className="flex items-center gap-1 text-destructive">
+        <CloudOff className="h-3.5 w-3.5" /> Save failed, retrying
+      </span>
+    );
+  }
+  if (isDirty) {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <Cloud className="h-3.5 w-3.5" /> Unsaved changes
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-muted-foreground">
+      <Check className="h-3.5 w-3.5" /> Saved
+    </span>
+  );
+};
+
+interface NameDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  initialName: string;
+  confirmLabel: string;
+  onConfirm: (name: string) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NameDialog = ({ open, title, description, initialName, confirmLabel, onConfirm, onOpenChange }: NameDialogProps) => {
+  const [name, setName] = useState(initialName);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onConfirm(name);
+      onOpenChange(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <Input
+          value={name}
+          maxLength={120}
+          autoFocus
+          onChange={(e) => { setName(e.target.value); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') void handleSubmit(); }}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { onOpenChange(false); }}>Cancel</Button>
+          <Button onClick={() => void handleSubmit()} disabled={!name.trim() || isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ProjectsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ProjectsDialog = ({ open, onOpenChange }: ProjectsDialogProps) => {
+  const { projectId, resetEditor } = useVideoEditorStore();
+  const { projects, isLoading, openProject, duplicate, remove } = useVideoEditorProjects();
+  const [duplicating, setDuplicating] = useState<VideoEditorProjectSummary | null>(null);
+
+  const handleOpen = async (id: string) => {
+    await openProject(id);
+    onOpenChange(false);
+  };
+
+  const handleNew = () => {
+    resetEditor();
+    onOpenChange(false);
+  };
+
+  const handleDelete = (project: VideoEditorProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? Your uploaded media and rendered videos are kept.`)) return;
+    void remove(project.id);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Projects</DialogTitle>
+            <DialogDescription>Open, duplicate or delete your saved edits</DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-96 overflow-y-auto divide-y border rounded-md">
+            {isLoading ? (
+              <div className="flex justify-center p-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : projects.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No saved projects yet</p>
+            ) : (
+              projects.map(project => (
+                <div key={project.id} className="flex items-center gap-3 p-3">
+                  {project.thumbnailUrl ? (
+                    <img src={project.thumbnailUrl} alt="" className="h-10 w-16 rounded object-cover bg-muted" />
+                  ) : (
+                    <div className="h-10 w-16 rounded bg-muted" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {project.name}
+                      {project.id === projectId && <span className="ml-2 text-xs text-muted-foreground">(open)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDuration(project.totalDuration)} • saved {new Date(project.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => void handleOpen(project.id)}>
+                    Open
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Duplicate" onClick={() => { setDuplicating(project); }}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Delete" onClick={() => { handleDelete(project); }}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleNew}>
+              <FilePlus className="h-4 w-4 mr-2" />
+              New Project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <NameDialog
+        open={!!duplicating}
+        title="Duplicate project"
+        description="The copy starts from the last saved version."
+        initialName={duplicating ? `${duplicating.name} (copy)` : ''}
+        confirmLabel="Duplicate"
+        onConfirm={async (name) => { if (duplicating) await duplicate(duplicating.id, name); }}
+        onOpenChange={(isOpen) => { if (!isOpen) setDuplicating(null); }}
+      />
+    </>
+  );
+};
+
+export const ProjectBar = () => {
+  const { projectId, projectName, history, undo, redo } = useVideoEditorStore();
+  const { isDirty, saveStatus, saveNow, reloadProject, overwriteProject, saveAsCopy } = useProjectAutosave();
+  const { saveAsProject, rename } = useVideoEditorProjects();
+  const [showProjects, setShowProjects] = useState(false);
+  const [nameDialog, setNameDialog] = useState<'save' | 'rename' | null>(null);
+
+  const lastCommand = history.past.at(-1);
+  const nextCommand = history.future.at(0);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Ignore if typing in input
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      const mod = e.ctrlKey || e.metaKey;
+
+      // Ctrl+Z - undo
+      if (mod && e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      }
+
+      // Ctrl+Shift+Z or Ctrl+Y - redo
+      if ((mod && e.shiftKey && e.code === 'KeyZ') || (mod && e.code === 'KeyY')) {
+        e.preventDefault();
+        redo();
+      }
+
+      // Ctrl+S - save now, or name the project if it was never saved
+      if (mod && e.code === 'KeyS') {
+        e.preventDefault();
+        if (useVideoEditorStore.getState().projectId) {
+          void saveNow();
+        } else {
+          setNameDialog('save');
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => { window.removeEventListener('keydown', handleKeyDown); };
+  }, [undo, redo, saveNow]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 min-w-0 mr-auto">
+          <span className="font-semibold truncate">{projectName}</span>
+          {projectId && (
+            <Button size="icon" variant="ghost" className="h-7 w-7" title="Rename" onClick={() => { setNameDialog('rename'); }}>
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          <span className="text-xs">
+            <SaveStatusLabel status={saveStatus} isDirty={isDirty} hasProject={!!projectId} />
+          </span>
+        </div>
+
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span>
+              <Button size="icon" variant="outline" onClick={undo} disabled={!lastCommand}>
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{lastCommand ? `Undo ${lastCommand.label}` : 'Nothing to undo'} (Ctrl+Z)</TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span>
+              <Button size="icon" variant="outline" onClick={redo} disabled={!nextCommand}>
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{nextCommand ? `Redo ${nextCommand.label}` : 'Nothing to redo'} (Ctrl+Shift+Z)</TooltipContent>
+        </Tooltip>
+
+        {!projectId && (
+          <Button variant="outline" onClick={() => { setNameDialog('save'); }}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Project
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => { setShowProjects(true); }}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Projects
+        </Button>
+      </div>
+
+      {saveStatus === 'conflict' && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center gap-2">
+            <span className="mr-auto">
+              This project was saved from another tab or window. Autosave is paused until you choose a version.
+            </span>
+            <Button size="sm" variant="outline" onClick={() => void reloadProject()}>Load Theirs</Button>
+            <Button size="sm" variant="outline" onClick={() => void overwriteProject()}>Keep Mine</Button>
+            <Button size="sm" variant="outline" onClick={() => void saveAsCopy()}>Save Mine as Copy</Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ProjectsDialog open={showProjects} onOpenChange={setShowProjects} />
+
+      <NameDialog
+        open={nameDialog !== null}
+        title={nameDialog === 'rename' ? 'Rename project' : 'Save project'}
+        description={nameDialog === 'rename'
+          ? 'Other tabs with this project open keep working.'
+          : 'Projects autosave as you edit and can be reopened from any device.'}
+        initialName={projectName}
+        confirmLabel={nameDialog === 'rename' ? 'Rename' : 'Save'}
+        onConfirm={async (name) => {
+          if (nameDialog === 'rename' && projectId) {
+            await rename(projectId, name);
+          } else {
+            await saveAsProject(name);
+          }
+        }}
+        onOpenChange={(isOpen) => { if (!isOpen) setNameDialog(null); }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import { useRef, useState } from 'react';
+import { Crosshair, Download, Loader2, ScanFace, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  MAX_REFRAME_TARGETS,
+  REFRAME_SIZES,
+  getCropWindow,
+  getPathPoint,
+  type ReframeAspectRatio,
+} from '@shared/reframe';
+import { useReframe, type ReframeSource } from '../hooks/useReframe';
+
+const TARGET_RATIOS = Object.keys(REFRAME_SIZES) as ReframeAspectRatio[];
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  fetching: 'Fetching',
+  rendering: 'Rendering',
+  saving: 'Saving',
+  done: 'Ready',
+  failed: 'Failed',
+};
+
+interface ReframeDialogProps {
+  source: ReframeSource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Preview the crop window for a target ratio as it follows the subject,
+ * click the video to pin the subject at the current time, then render the
+ * chosen ratios
+ */
+export const ReframeDialog = ({ source, onOpenChange }: ReframeDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [targets, setTargets] = useState<ReframeAspectRatio[]>(['9:16', '1:1']);
+  const [previewRatio, setPreviewRatio] = useState<ReframeAspectRatio>('9:16');
+  const {
+    videoInfo,
+    setVideoInfo,
+    path,
+    manualKeyframes,
+    setManualKeyframe,
+    removeManualKeyframe,
+    trackSource,
+    isTracking,
+    trackingProgress,
+    submit,
+    isSubmitting,
+    variants,
+    getEstimatedCredits,
+  } = useReframe(source);
+
+  const crop = videoInfo
+    ? getCropWindow(videoInfo, REFRAME_SIZES[previewRatio], getPathPoint(path, currentTime))
+    : null;
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setVideoInfo({ width: video.videoWidth, height: video.videoHeight, duration: video.duration });
+  };
+
+  const handleSeek = (value: number[]) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = value[0];
+    setCurrentTime(value[0]);
+  };
+
+  const handlePin = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    videoRef.current?.pause();
+    setManualKeyframe(currentTime, {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height,
+    });
+  };
+
+  const toggleTarget = (ratio: ReframeAspectRatio, checked: boolean) => {
+    setTargets(prev => checked ? [...prev, ratio] : prev.filter(r => r !== ratio));
+    if (checked) setPreviewRatio(ratio);
+  };
+
+  const duration = videoInfo?.duration ?? 0;
+
+  return (
+    <Dialog open={source !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Reframe Video</DialogTitle>
+          <DialogDescription className="line-clamp-1">{source?.label}</DialogDescription>
+        </DialogHeader>
+
+        {source && (
+          <div className="space-y-4">
+            {/* Video with the crop window; click to pin the subject */}
+            <div
+              className="relative bg-black rounded-lg overflow-hidden cursor-crosshair"
+              onClick={handlePin}
+            >
+              <video
+                ref={videoRef}
+                src={source.url}
+                crossOrigin="anonymous"
+                className="w-full max-h-[45vh] object-contain pointer-events-none"
+                onLoadedMetadata={handleLoadedMetadata}
+                onTimeUpdate={() => { setCurrentTime(videoRef.current?.currentTime ?? 0); }}
+                muted
+                playsInline
+              />
+              {crop && (
+                <div
+                  className="absolute border-2 border-primary pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                  style={{
+                    left: `${String(crop.left * 100)}%`,
+                    top: `${String(crop.top * 100)}%`,
+                    width: `${String(crop.width * 100)}%`,
+                    height: `${String(crop.height * 100)}%`,
+                  }}
+                />
+              )}
+            </div>
+
+            {/* Scrubber with keyframe markers */}
+            <div className="space-y-1">
+              <Slider
+                value={[currentTime]}
+                min={0}
+                max={duration || 1}
+                step={0.05}
+                onValueChange={handleSeek}
+              />
+              <div className="relative h-4">
+                {duration > 0 && path.map(k => (
+                  <button
+                    key={`${String(k.time)}-${k.manual ? 'm' : 't'}`}
+                    type="button"
+                    title={k.manual ? `Pinned at ${k.time.toFixed(2)}s - click to remove` : `Tracked at ${k.time.toFixed(2)}s`}
+                    className={`absolute top-0.5 h-3 -translate-x-1/2 rounded-sm ${k.manual ? 'w-2 bg-primary' : 'w-1 bg-muted-foreground/50 pointer-events-none'}`}
+                    style={{ left: `${String(k.time / duration * 100)}%` }}
+                    onClick={() => { removeManualKeyframe(k.time); }}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {currentTime.toFixed(2)}s • Click the video to pin the subject here
+                {manualKeyframes.length > 0 && ` • ${String(manualKeyframes.length)} pinned`}
+              </p>
+            </div>
+
+            {/* Tracking */}
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void trackSource()}
+                disabled={isTracking || isSubmitting}
+              >
+                {isTracking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanFace className="h-4 w-4 mr-2" />}
+                {isTracking ? 'Tracking...' : 'Track Subject'}
+              </Button>
+              {isTracking && <Progress value={trackingProgress * 100} className="flex-1" />}
+              {!isTracking && path.length === 0 && (
+                <span className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Crosshair className="h-3 w-3" /> Without tracking the frame stays centred
+                </span>
+              )}
+            </div>
+
+            {/* Target ratios */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Variants (up to {MAX_REFRAME_TARGETS})</Label>
+              <div className="flex flex-wrap gap-4">
+                {TARGET_RATIOS.map(ratio => (
+                  <div key={ratio} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`reframe-${ratio}`}
+                      checked={targets.includes(ratio)}
+                      disabled={!targets.includes(ratio) && targets.length >= MAX_REFRAME_TARGETS}
+                      onCheckedChange={(checked) => { toggleTarget(ratio, checked === true); }}
+                    />
+                    <Label htmlFor={`reframe-${ratio}`} className="text-sm">{ratio}</Label>
+                    {targets.includes(ratio) && (
+                      <button
+                        type="button"
+                        className={`text-xs ${previewRatio === ratio ? 'text-primary font-medium' : 'text-muted-foreground'}`}
+                        onClick={() => { setPreviewRatio(ratio); }}
+                      >
+                        preview
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Results */}
+            {variants.length > 0 && (
+              <div className="space-y-2">
+                {variants.map(variant => (
+                  <div key={variant.aspectRatio} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+                    <span className="font-medium">{variant.aspectRatio}</span>
+                    {variant.status === 'done' && variant.url ? (
+                      <a href={variant.url} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary">
+                        <Download className="h-4 w-4" /> Download
+                      </a>
+                    ) : variant.status === 'failed' ? (
+                      <span className="flex items-center gap-1 text-destructive" title={variant.error ?? undefined}>
+                        <X className="h-4 w-4" /> {variant.error ?? 'Failed'}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" /> {STATUS_LABELS[variant.status] ?? variant.status}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { onOpenChange(false); }}>Close</Button>
+          <Button
+            onClick={() => void submit(targets)}
+            disabled={!videoInfo || targets.length === 0 || isTracking || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Variants ({getEstimatedCredits(targets.length)} credits)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Crop, Film, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useVideoEditorStore } from '../store';
+import { useReframeSources } from '../hooks/useReframeSources';
+import type { ReframeSource } from '../hooks/useReframe';
+import { ReframeDialog } from './ReframeDialog';
+
+/**
+ * Pick a finished video - the latest render, an earlier one or a video
+ * generation - and turn it into other aspect ratios
+ */
+export const ReframePanel = () => {
+  const { currentJobId, finalVideoUrl, outputSettings } = useVideoEditorStore();
+  const { sources, isLoading } = useReframeSources();
+  const [selected, setSelected] = useState<ReframeSource | null>(null);
+
+  // The render just finished may not be in the cached list yet
+  const latest: ReframeSource | null = currentJobId && finalVideoUrl && outputSettings.format === 'mp4'
+    ? { type: 'render', id: currentJobId, url: finalVideoUrl, label: `Latest render ${outputSettings.aspectRatio}` }
+    : null;
+  const choices = latest ? [latest, ...sources.filter(s => s.id !== latest.id)] : sources;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Turn a finished video into other aspect ratios. The crop follows the subject, and you can pin it by hand.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : choices.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          Render a video or generate one to reframe it
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {choices.map(source => (
+            <div key={`${source.type}-${source.id}`} className="flex items-center gap-2 text-sm border rounded-lg px-3 py-2">
+              <Film className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate" title={source.label}>{source.label}</span>
+              <Button variant="ghost" size="sm" onClick={() => { setSelected(source); }}>
+                <Crop className="h-4 w-4 mr-1" /> Reframe
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ReframeDialog source={selected} onOpenChange={(open) => { if (!open) setSelected(null); }} />
+    </div>
+  );
+};
@@ -1,8 +1,19 @@
+import { useState } from 'react';
 import { Play, Download, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { downloadFromUrl } from '@/lib/download-utils';
 import { useVideoEditorRender } from '../hooks/useVideoEditorRender';
 import { useVideoEditorStore } from '../store';
+import type { RenderBackendChoice } from '../types';
+import { EXPORT_FORMATS } from '@shared/export-formats';
+
+const RENDER_BACKENDS: { value: RenderBackendChoice; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'shotstack', label: 'Cloud (Shotstack)' },
+  { value: 'ffmpeg', label: 'Local (FFmpeg)' },
+];
 
 interface RenderButtonProps {
   onRenderAction?: () => void;
@@ -10,6 +21,7 @@ interface RenderButtonProps {
 
 export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
   const { submitRender, cancelRender, retryRender, isRendering } = useVideoEditorRender();
+  const [renderBackend, setRenderBackend] = useState<RenderBackendChoice>('auto');
   const { 
     renderStatus, 
     renderProgress, 
@@ -23,6 +35,7 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
 
   const totalDuration = getTotalDuration();
   const estimatedCredits = getEstimatedCredits();
+  const formatSpec = EXPORT_FORMATS[outputSettings.format];
 
   const renderSummary = () => (
     <div className="p-3 bg-muted/50 rounded-lg space-y-1.5 text-sm mb-4">
@@ -32,7 +45,7 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
       </div>
       <div className="flex justify-between">
         <span className="text-muted-foreground">Format</span>
-        <span className="font-medium">MP4</span>
+        <span className="font-medium">{formatSpec.label}</span>
       </div>
       <div className="flex justify-between">
         <span className="text-muted-foreground">Quality</span>
@@ -42,6 +55,23 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
         <span className="text-muted-foreground">FPS</span>
         <span className="font-medium">{outputSettings.fps}</span>
       </div>
+      <div className="flex justify-between items-center">
+        <span className="text-muted-foreground">Renderer</span>
+        <Select
+          value={renderBackend}
+          onValueChange={(value) => { setRenderBackend(value as RenderBackendChoice); }}
+          disabled={isRendering}
+        >
+          <SelectTrigger className="h-7 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RENDER_BACKENDS.map(b => (
+              <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
       <div className="flex justify-between text-base pt-1.5 border-t">
         <span className="text-muted-foreground">Estimated Cost</span>
         <span className="font-bold text-primary">{estimatedCredits} credits</span>
@@ -60,18 +90,15 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
           <Button 
             className="flex-1"
             onClick={() => {
-              const a = document.createElement('a');
-              a.href = finalVideoUrl;
-              a.download = 'rendered-video.mp4';
-              a.click();
+              void downloadFromUrl(finalVideoUrl, `rendered-video.${formatSpec.extension}`);
             }}
           >
             <Download className="h-4 w-4 mr-2" />
-            Download Video
+            Download {formatSpec.label}
           </Button>
           <Button variant="outline" onClick={() => {
             onRenderAction?.();
-            retryRender();
+            retryRender(renderBackend);
           }}>
             <RefreshCw className="h-4 w-4 mr-2" />
             New Render
@@ -89,7 +116,7 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
           <p className="text-destructive font-medium">Render failed</p>
           {errorMessage && <p className="text-sm text-muted-foreground mt-1">{errorMessage}</p>}
         </div>
-        <Button onClick={retryRender} className="w-full">
+        <Button onClick={() => retryRender(renderBackend)} className="w-full">
           <RefreshCw className="h-4 w-4 mr-2" />
           Retry Render
         </Button>
@@ -121,7 +148,7 @@ export const RenderButton = ({ onRenderAction }: RenderButtonProps) => {
       <Button
         onClick={() => {
           onRenderAction?.();
-          submitRender();
+          submitRender(renderBackend);
         }}
         disabled={clips.length === 0}
         size="lg"
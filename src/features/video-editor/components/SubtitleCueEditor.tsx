@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { Bold, Download, Italic, Merge, Scissors, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { useVideoEditorStore } from '../store';
+import { ASPECT_RATIO_DIMENSIONS, SubtitleCue } from '../types';
+import { getCueText, serializeSubtitles, SUBTITLE_FILE_FORMATS, SubtitleFileFormat } from '../subtitles';
+
+const SHIFT_STEPS = [-1, -0.1, 0.1, 1];
+
+interface CueRowProps {
+  cue: SubtitleCue;
+  isSelected: boolean;
+  isLast: boolean;
+}
+
+const CueRow = ({ cue, isSelected, isLast }: CueRowProps) => {
+  const {
+    selectCue,
+    setSubtitleCueText,
+    retimeSubtitleCue,
+    splitSubtitleCue,
+    mergeSubtitleCueWithNext,
+    removeSubtitleCue,
+    updateSubtitleWordStyle,
+  } = useVideoEditorStore();
+  const text = getCueText(cue);
+  const [draft, setDraft] = useState(text);
+  const [wordIndex, setWordIndex] = useState<number | null>(null);
+
+  // Follow edits made elsewhere (undo, timeline, split)
+  useEffect(() => {
+    setDraft(text);
+  }, [text]);
+
+  const selectedWord = wordIndex !== null ? cue.words[wordIndex] : undefined;
+
+  const commitDraft = () => {
+    if (draft.trim() !== text) setSubtitleCueText(cue.id, draft);
+  };
+
+  return (
+    <div
+      className={cn('space-y-2 rounded-lg border p-2', isSelected && 'border-primary bg-primary/5')}
+      onClick={() => { selectCue(cue.id); }}
+    >
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          step={0.1}
+          min={0}
+          value={cue.start}
+          onChange={(e) => { retimeSubtitleCue(cue.id, parseFloat(e.target.value) || 0, cue.end); }}
+          className="h-7 w-20 text-xs"
+          aria-label="Start"
+        />
+        <span className="text-xs text-muted-foreground">→</span>
+        <Input
+          type="number"
+          step={0.1}
+          min={0}
+          value={cue.end}
+          onChange={(e) => { retimeSubtitleCue(cue.id, cue.start, parseFloat(e.target.value) || 0); }}
+          className="h-7 w-20 text-xs"
+          aria-label="End"
+        />
+        <div className="ml-auto flex">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={isLast}
+            title="Merge with next"
+            onClick={() => { mergeSubtitleCueWithNext(cue.id); }}
+          >
+            <Merge className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive"
+            title="Delete"
+            onClick={(e) => {
+              e.stopPropagation();
+              removeSubtitleCue(cue.id);
+            }}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <Input
+        value={draft}
+        onChange={(e) => { setDraft(e.target.value); }}
+        onBlur={commitDraft}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitDraft();
+        }}
+        className="h-8 text-sm"
+      />
+
+      {/* Words - pick one to style it or split the cue before it */}
+      <div className="flex flex-wrap gap-1">
+        {cue.words.map((word, i) => (
+          <button
+            key={`${String(i)}-${word.text}`}
+            type="button"
+            onClick={() => { setWordIndex(wordIndex === i ? null : i); }}
+            className={cn(
+              'rounded px-1.5 py-0.5 text-xs border',
+              wordIndex === i ? 'border-primary' : 'border-transparent bg-muted',
+              word.style?.bold && 'font-bold',
+              word.style?.italic && 'italic'
+            )}
+            style={word.style?.color ? { color: word.style.color } : undefined}
+          >
+            {word.text}
+          </button>
+        ))}
+      </div>
+
+      {selectedWord && wordIndex !== null && (
+        <div className="flex items-center gap-1">
+          <input
+            type="color"
+            value={selectedWord.style?.color ?? '#FFFFFF'}
+            onChange={(e) => { updateSubtitleWordStyle(cue.id, wordIndex, { color: e.target.value }); }}
+            className="h-7 w-9 rounded border cursor-pointer"
+            title="Word colour"
+          />
+          <Button
+            variant={selectedWord.style?.bold ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-7 w-7"
+            title="Bold"
+            onClick={() => { updateSubtitleWordStyle(cue.id, wordIndex, { bold: !selectedWord.style?.bold }); }}
+          >
+            <Bold className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant={selectedWord.style?.italic ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-7 w-7"
+            title="Italic"
+            onClick={() => { updateSubtitleWordStyle(cue.id, wordIndex, { italic: !selectedWord.style?.italic }); }}
+          >
+            <Italic className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={!selectedWord.style}
+            onClick={() => { updateSubtitleWordStyle(cue.id, wordIndex, { color: undefined, bold: false, italic: false }); }}
+          >
+            Clear style
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 text-xs"
+            disabled={wordIndex === 0}
+            onClick={() => {
+              splitSubtitleCue(cue.id, wordIndex);
+              setWordIndex(null);
+            }}
+          >
+            <Scissors className="h-3.5 w-3.5 mr-1" />
+            Split before
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const downloadText = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/** Cue list with timing, text and word style editing, a global offset and file export */
+export const SubtitleCueEditor = () => {
+  const { subtitleConfig, outputSettings, selectedCueId, shiftSubtitleCues } = useVideoEditorStore();
+  const { cues } = subtitleConfig;
+
+  const handleExport = (format: SubtitleFileFormat, mimeType: string) => {
+    const content = serializeSubtitles(cues, format, {
+      ...subtitleConfig,
+      ...ASPECT_RATIO_DIMENSIONS[outputSettings.aspectRatio],
+    });
+    downloadText(content, `subtitles.${format}`, mimeType);
+  };
+
+  if (cues.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground text-center py-4">
+        No subtitles yet - transcribe the timeline or import a file
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">Offset all</Label>
+        <div className="flex gap-1">
+          {SHIFT_STEPS.map((step) => (
+            <Button
+              key={step}
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => { shiftSubtitleCues(step); }}
+            >
+              {step > 0 ? '+' : ''}{step}s
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+        {cues.map((cue, i) => (
+          <CueRow
+            key={cue.id}
+            cue={cue}
+            isSelected={cue.id === selectedCueId}
+            isLast={i === cues.length - 1}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {SUBTITLE_FILE_FORMATS.map((format) => (
+          <Button
+            key={format.value}
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => { handleExport(format.value, format.mimeType); }}
+          >
+            <Download className="h-3.5 w-3.5 mr-1" />
+            {format.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
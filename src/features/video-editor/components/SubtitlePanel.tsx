@@ -1,17 +1,21 @@
-import { Upload, AlertTriangle } from 'lucide-react';
+import { Upload, AlertTriangle, Captions, Loader2 } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Slider } from '@/components/ui/slider';
 import { useVideoEditorStore } from '../store';
-import { SubtitleMode } from '../types';
+import { SubtitleMode, SubtitleStyle } from '../types';
+import { detectSubtitleFormat, parseSubtitles, SUBTITLE_STYLES } from '../subtitles';
+import { useSubtitleTranscription } from '../hooks/useSubtitleTranscription';
+import { SubtitleCueEditor } from './SubtitleCueEditor';
 
 const SUBTITLE_MODES: { value: SubtitleMode; label: string; desc: string }[] = [
   { value: 'none', label: 'None', desc: 'No subtitles' },
-  { value: 'auto', label: 'Auto-generate', desc: 'AI transcription' },
-  { value: 'upload', label: 'Upload SRT', desc: 'Custom file' },
+  { value: 'auto', label: 'Transcribe', desc: 'From speech' },
+  { value: 'upload', label: 'Import File', desc: 'SRT, VTT, ASS' },
 ];
 
 const POSITION_OPTIONS = [
@@ -28,27 +32,22 @@ const FONT_SIZES = [
 ];
 
 export const SubtitlePanel = () => {
-  const { subtitleConfig, updateSubtitleConfig, clips, audioTrack, assets } = useVideoEditorStore();
-  
-  // Check if there's a valid speech source for auto-captions
-  const hasAudioTrack = !!audioTrack?.assetId;
-  const hasVideoClips = clips.some(clip => {
-    const asset = assets.find(a => a.id === clip.assetId);
-    return asset?.type === 'video';
-  });
-  const hasValidSpeechSource = hasAudioTrack || hasVideoClips;
-
-  const handleSRTUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const { subtitleConfig, updateSubtitleConfig } = useVideoEditorStore();
+  const { transcribe, isTranscribing, canTranscribe, estimatedCredits } = useSubtitleTranscription();
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (event) => {
       const content = event.target?.result as string;
-      updateSubtitleConfig({ 
-        srtFile: file, 
+      // One undo step for the file and the cues read from it
+      updateSubtitleConfig({
+        srtFile: file,
         srtContent: content,
-        mode: 'upload' 
+        cues: parseSubtitles(content, detectSubtitleFormat(content, file.name)),
+        mode: 'upload'
       });
     };
     reader.readAsText(file);
@@ -79,25 +78,36 @@ export const SubtitlePanel = () => {
         </RadioGroup>
       </div>
 
-      {/* Warning for auto-captions without speech source */}
-      {subtitleConfig.mode === 'auto' && !hasValidSpeechSource && (
+      {/* Transcription (only when mode is 'auto') */}
+      {subtitleConfig.mode === 'auto' && (canTranscribe ? (
+        <Button
+          className="w-full"
+          disabled={isTranscribing}
+          onClick={() => { void transcribe(); }}
+        >
+          {isTranscribing
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <Captions className="h-4 w-4 mr-2" />}
+          {subtitleConfig.cues.length > 0 ? 'Transcribe Again' : 'Transcribe Speech'} ({estimatedCredits} credits)
+        </Button>
+      ) : (
         <Alert variant="destructive" className="bg-destructive/10 border-destructive/20">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription className="text-sm">
-            Auto-captions require an audio track or video clips with audio. Add media to enable this feature.
+            Transcription requires background audio or clips with sound. Add media to enable this feature.
           </AlertDescription>
         </Alert>
-      )}
+      ))}
 
-      {/* SRT Upload (only when mode is 'upload') */}
+      {/* Subtitle file import (only when mode is 'upload') */}
       {subtitleConfig.mode === 'upload' && (
         <div className="space-y-2">
-          <Label className="text-sm">SRT File</Label>
+          <Label className="text-sm">Subtitle File</Label>
           <div className="flex gap-2">
             <input
               type="file"
-              accept=".srt,.vtt"
-              onChange={handleSRTUpload}
+              accept=".srt,.vtt,.ass,.ssa"
+              onChange={handleFileUpload}
               className="hidden"
               id="srt-upload"
             />
@@ -107,7 +117,7 @@ export const SubtitlePanel = () => {
               onClick={() => document.getElementById('srt-upload')?.click()}
             >
               <Upload className="h-4 w-4 mr-2" />
-              {subtitleConfig.srtFile ? subtitleConfig.srtFile.name : 'Choose SRT file'}
+              {subtitleConfig.srtFile ? subtitleConfig.srtFile.name : 'Choose subtitle file'}
             </Button>
           </div>
         </div>
@@ -116,6 +126,45 @@ export const SubtitlePanel = () => {
       {/* Style settings (only when subtitles are enabled) */}
       {subtitleConfig.mode !== 'none' && (
         <>
+          {/* Cues */}
+          <SubtitleCueEditor />
+
+          {/* Caption Style */}
+          <div className="space-y-2">
+            <Label className="text-sm">Style</Label>
+            <Select
+              value={subtitleConfig.style}
+              onValueChange={(value) => { updateSubtitleConfig({ style: value as SubtitleStyle }); }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUBTITLE_STYLES.map((style) => (
+                  <SelectItem key={style.value} value={style.value}>
+                    {style.label} - {style.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Words per line */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Words per Line</Label>
+              <span className="text-sm text-muted-foreground">{subtitleConfig.maxWordsPerLine}</span>
+            </div>
+            <Slider
+              value={[subtitleConfig.maxWordsPerLine]}
+              min={1}
+              max={10}
+              step={1}
+              onValueChange={([value]) => { updateSubtitleConfig({ maxWordsPerLine: value }); }}
+            />
+            <p className="text-xs text-muted-foreground">Used when transcribing</p>
+          </div>
+
           {/* Font Size */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -155,6 +204,54 @@ export const SubtitlePanel = () => {
             </div>
           </div>
 
+          {/* Highlight Color */}
+          <div className="space-y-2">
+            <Label className="text-sm">Highlight Color</Label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={subtitleConfig.highlightColor}
+                onChange={(e) => { updateSubtitleConfig({ highlightColor: e.target.value }); }}
+                className="h-10 w-14 rounded border cursor-pointer"
+              />
+              <span className="text-sm text-muted-foreground uppercase">
+                {subtitleConfig.highlightColor}
+              </span>
+            </div>
+          </div>
+
+          {/* Outline */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Outline</Label>
+              <span className="text-sm text-muted-foreground">{subtitleConfig.outlineWidth}px</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={subtitleConfig.outlineColor}
+                onChange={(e) => { updateSubtitleConfig({ outlineColor: e.target.value }); }}
+                className="h-8 w-12 rounded border cursor-pointer"
+              />
+              <Slider
+                value={[subtitleConfig.outlineWidth]}
+                min={0}
+                max={8}
+                step={1}
+                onValueChange={([value]) => { updateSubtitleConfig({ outlineWidth: value }); }}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="allCaps" className="text-sm">All Caps</Label>
+            <Switch
+              id="allCaps"
+              checked={subtitleConfig.allCaps}
+              onCheckedChange={(checked) => { updateSubtitleConfig({ allCaps: checked }); }}
+            />
+          </div>
+
           {/* Background */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -0,0 +1,566 @@
+import { Fragment, useRef, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Captions,
+  Diamond,
+  Eye,
+  EyeOff,
+  Film,
+  Music,
+  Plus,
+  Trash2,
+  Volume2,
+  VolumeX,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { useVideoEditorStore } from '../store';
+import { type Clip, type ClipKeyframe, type MediaAsset, type SubtitleCue, type TimelineTrack } from '../types';
+import { MIN_CLIP_DURATION, getTimelineDuration, snapTime, trackTypeForMedia } from '../timeline';
+import { shiftKeyframes } from '../keyframes';
+import { getCueText, MIN_CUE_DURATION } from '../subtitles';
+
+const MIN_PIXELS_PER_SECOND = 10;
+const MAX_PIXELS_PER_SECOND = 200;
+const DEFAULT_PIXELS_PER_SECOND = 40;
+const TRACK_HEIGHT = 56;
+const KEYFRAME_LANE_HEIGHT = 28;
+const SUBTITLE_LANE_HEIGHT = 36;
+const HEADER_WIDTH = 176;
+
+type DragMode = 'move' | 'trim-start' | 'trim-end' | 'keyframe';
+
+interface DragState {
+  clipId: string;
+  mode: DragMode;
+  originX: number;
+  start: number;
+  duration: number;
+  trimStart: number;
+  keyframes: ClipKeyframe[];
+  keyframeId?: string;
+  moved: boolean;
+}
+
+interface CueDragState {
+  cueId: string;
+  mode: Exclude<DragMode, 'keyframe'>;
+  originX: number;
+  start: number;
+  end: number;
+  moved: boolean;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${String(mins)}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Label every 1, 2, 5 or 10 seconds depending on zoom
+const rulerStep = (pixelsPerSecond: number) =>
+  [1, 2, 5, 10].find(step => step * pixelsPerSecond >= 60) ?? 10;
+
+interface TimeRulerProps {
+  length: number;
+  pixelsPerSecond: number;
+}
+
+const TimeRuler = ({ length, pixelsPerSecond }: TimeRulerProps) => {
+  const step = rulerStep(pixelsPerSecond);
+  const ticks = Array.from({ length: Math.floor(length / step) + 1 }, (_, i) => i * step);
+
+  return (
+    <div className="relative h-6 border-b" style={{ width: length * pixelsPerSecond }}>
+      {ticks.map(seconds => (
+        <div
+          key={seconds}
+          className="absolute top-0 h-full border-l border-border pl-1 text-[10px] text-muted-foreground"
+          style={{ left: seconds * pixelsPerSecond }}
+        >
+          {formatTime(seconds)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface TrackHeaderProps {
+  track: TimelineTrack;
+  index: number;
+  canRemove: boolean;
+}
+
+const TrackHeader = ({ track, index, canRemove }: TrackHeaderProps) => {
+  const { tracks, updateTrack, moveTrack, removeTrack } = useVideoEditorStore();
+
+  return (
+    <div
+      className="sticky left-0 z-10 flex flex-col justify-center gap-1 border-r bg-card px-2"
+      style={{ width: HEADER_WIDTH, height: TRACK_HEIGHT }}
+    >
+      <div className="flex items-center gap-1">
+        {track.type === 'visual' ? (
+          <Film className="h-3.5 w-3.5 text-muted-foreground" />
+        ) : (
+          <Music className="h-3.5 w-3.5 text-muted-foreground" />
+        )}
+        <span className="flex-1 truncate text-xs font-medium">{track.name}</span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => { moveTrack(index, index - 1); }}
+          disabled={index === 0}
+          title="Move up"
+        >
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => { moveTrack(index, index + 1); }}
+          disabled={index === tracks.length - 1}
+          title="Move down"
+        >
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => { removeTrack(track.id); }}
+          disabled={!canRemove}
+          title="Remove track"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        {track.type === 'visual' && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => { updateTrack(track.id, { hidden: !track.hidden }); }}
+            title={track.hidden ? 'Show track' : 'Hide track'}
+          >
+            {track.hidden ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+          </Button>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={() => { updateTrack(track.id, { muted: !track.muted }); }}
+          title={track.muted ? 'Unmute track' : 'Mute track'}
+        >
+          {track.muted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+        </Button>
+        <Slider
+          value={[track.volume]}
+          min={0}
+          max={1}
+          step={0.05}
+          disabled={track.muted}
+          onValueChange={([value]) => { updateTrack(track.id, { volume: value }); }}
+          className="flex-1"
+        />
+      </div>
+    </div>
+  );
+};
+
+interface TimelineClipProps {
+  clip: Clip;
+  asset?: MediaAsset;
+  pixelsPerSecond: number;
+  isSelected: boolean;
+  onPointerDown: (e: React.PointerEvent, clip: Clip, mode: DragMode) => void;
+}
+
+const TimelineClip = ({ clip, asset, pixelsPerSecond, isSelected, onPointerDown }: TimelineClipProps) => (
+  <div
+    className={cn(
+      "absolute top-1 bottom-1 flex select-none items-center overflow-hidden rounded border text-xs text-white cursor-grab active:cursor-grabbing",
+      asset?.type === 'video' && "bg-blue-500/80 border-blue-700",
+      asset?.type === 'image' && "bg-green-500/80 border-green-700",
+      asset?.type === 'audio' && "bg-purple-500/80 border-purple-700",
+      isSelected && "ring-2 ring-primary"
+    )}
+    style={{ left: clip.start * pixelsPerSecond, width: Math.max(clip.duration * pixelsPerSecond, 8) }}
+    onPointerDown={(e) => { onPointerDown(e, clip, 'move'); }}
+    // Keep the lane's click-to-deselect from firing
+    onClick={(e) => { e.stopPropagation(); }}
+  >
+    <div
+      className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-black/20"
+      onPointerDown={(e) => { onPointerDown(e, clip, 'trim-start'); }}
+    />
+    <span className="truncate px-2">{asset?.name || 'Unknown'}</span>
+    <div
+      className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-black/20"
+      onPointerDown={(e) => { onPointerDown(e, clip, 'trim-end'); }}
+    />
+  </div>
+);
+
+interface KeyframeLaneProps {
+  clip: Clip;
+  length: number;
+  pixelsPerSecond: number;
+  selectedKeyframeId: string | null;
+  onAddKeyframe: (time: number) => void;
+  onKeyframePointerDown: (e: React.PointerEvent, clip: Clip, keyframeId: string) => void;
+}
+
+// Keyframes of the selected clip, shown under its track. Click inside the
+// clip's span to add a keyframe, drag a diamond to retime it.
+const KeyframeLane = ({ clip, length, pixelsPerSecond, selectedKeyframeId, onAddKeyframe, onKeyframePointerDown }: KeyframeLaneProps) => (
+  <div className="flex border-b bg-muted/20">
+    <div
+      className="sticky left-0 z-10 flex items-center gap-1 border-r bg-card px-2 text-xs text-muted-foreground"
+      style={{ width: HEADER_WIDTH, height: KEYFRAME_LANE_HEIGHT }}
+    >
+      <Diamond className="h-3 w-3" />
+      Keyframes
+    </div>
+    <div className="relative" style={{ width: length * pixelsPerSecond, height: KEYFRAME_LANE_HEIGHT }}>
+      <div
+        className="absolute inset-y-1 cursor-copy rounded bg-primary/10"
+        style={{ left: clip.start * pixelsPerSecond, width: clip.duration * pixelsPerSecond }}
+        title="Click to add a keyframe"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onAddKeyframe((e.clientX - rect.left) / pixelsPerSecond);
+        }}
+      />
+      {(clip.keyframes ?? [])
+        .filter(k => k.time >= 0 && k.time <= clip.duration)
+        .map(keyframe => (
+          <div
+            key={keyframe.id}
+            className={cn(
+              "absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-ew-resize border",
+              keyframe.id === selectedKeyframeId ? "bg-primary border-primary" : "bg-background border-foreground/60"
+            )}
+            style={{ left: (clip.start + keyframe.time) * pixelsPerSecond }}
+            title={`${keyframe.time.toFixed(1)}s`}
+            onPointerDown={(e) => { onKeyframePointerDown(e, clip, keyframe.id); }}
+            onClick={(e) => { e.stopPropagation(); }}
+          />
+        ))}
+    </div>
+  </div>
+);
+
+interface SubtitleLaneProps {
+  cues: SubtitleCue[];
+  length: number;
+  pixelsPerSecond: number;
+  selectedCueId: string | null;
+  onCuePointerDown: (e: React.PointerEvent, cue: SubtitleCue, mode: CueDragState['mode']) => void;
+}
+
+// Subtitle cues under the tracks. Drag a cue to move it, its edges to retime it.
+const SubtitleLane = ({ cues, length, pixelsPerSecond, selectedCueId, onCuePointerDown }: SubtitleLaneProps) => (
+  <div className="flex border-t">
+    <div
+      className="sticky left-0 z-10 flex items-center gap-1 border-r bg-card px-2 text-xs text-muted-foreground"
+      style={{ width: HEADER_WIDTH, height: SUBTITLE_LANE_HEIGHT }}
+    >
+      <Captions className="h-3 w-3" />
+      Subtitles
+    </div>
+    <div className="relative bg-muted/20" style={{ width: length * pixelsPerSecond, height: SUBTITLE_LANE_HEIGHT }}>
+      {cues.map(cue => (
+        <div
+          key={cue.id}
+          className={cn(
+            "absolute top-1 bottom-1 flex select-none items-center overflow-hidden rounded border border-amber-700 bg-amber-500/80 text-xs text-white cursor-grab active:cursor-grabbing",
+            cue.id === selectedCueId && "ring-2 ring-primary"
+          )}
+          style={{ left: cue.start * pixelsPerSecond, width: Math.max((cue.end - cue.start) * pixelsPerSecond, 8) }}
+          title={getCueText(cue)}
+          onPointerDown={(e) => { onCuePointerDown(e, cue, 'move'); }}
+        >
+          <div
+            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-black/20"
+            onPointerDown={(e) => { onCuePointerDown(e, cue, 'trim-start'); }}
+          />
+          <span className="truncate px-2">{getCueText(cue)}</span>
+          <div
+            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-black/20"
+            onPointerDown={(e) => { onCuePointerDown(e, cue, 'trim-end'); }}
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+interface TimelineProps {
+  onClipSelect?: () => void;
+}
+
+export const Timeline = ({ onClipSelect }: TimelineProps) => {
+  const {
+    tracks,
+    clips,
+    assets,
+    selectedClipId,
+    selectedKeyframeId,
+    selectClip,
+    updateClip,
+    moveClip,
+    addTrack,
+    addKeyframe,
+    updateKeyframe,
+    selectKeyframe,
+    subtitleConfig,
+    selectedCueId,
+    retimeSubtitleCue,
+    selectCue,
+  } = useVideoEditorStore();
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(DEFAULT_PIXELS_PER_SECOND);
+  const dragRef = useRef<DragState | null>(null);
+  const cueDragRef = useRef<CueDragState | null>(null);
+
+  // Leave room after the last clip to drag clips further out
+  const cuesEnd = Math.max(0, ...subtitleConfig.cues.map(c => c.end));
+  const length = Math.max(30, Math.ceil(Math.max(getTimelineDuration(clips), cuesEnd)) + 10);
+
+  const handlePointerDown = (e: React.PointerEvent, clip: Clip, mode: DragMode) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      clipId: clip.id,
+      mode,
+      originX: e.clientX,
+      start: clip.start,
+      duration: clip.duration,
+      trimStart: clip.trimStart,
+      keyframes: clip.keyframes ?? [],
+      moved: false,
+    };
+  };
+
+  const handleKeyframePointerDown = (e: React.PointerEvent, clip: Clip, keyframeId: string) => {
+    handlePointerDown(e, clip, 'keyframe');
+    if (dragRef.current) dragRef.current.keyframeId = keyframeId;
+  };
+
+  const handleCuePointerDown = (e: React.PointerEvent, cue: SubtitleCue, mode: CueDragState['mode']) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cueDragRef.current = { cueId: cue.id, mode, originX: e.clientX, start: cue.start, end: cue.end, moved: false };
+  };
+
+  const handleCuePointerMove = (e: React.PointerEvent, drag: CueDragState) => {
+    const delta = (e.clientX - drag.originX) / pixelsPerSecond;
+    if (Math.abs(delta) > 0.05) drag.moved = true;
+
+    if (drag.mode === 'move') {
+      const start = Math.max(0, snapTime(drag.start + delta));
+      retimeSubtitleCue(drag.cueId, start, start + drag.end - drag.start);
+    } else if (drag.mode === 'trim-start') {
+      retimeSubtitleCue(drag.cueId, Math.min(drag.end - MIN_CUE_DURATION, snapTime(drag.start + delta)), drag.end);
+    } else {
+      retimeSubtitleCue(drag.cueId, drag.start, Math.max(drag.start + MIN_CUE_DURATION, snapTime(drag.end + delta)));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (cueDragRef.current) {
+      handleCuePointerMove(e, cueDragRef.current);
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    const clip = clips.find(c => c.id === drag.clipId);
+    const asset = clip && assets.find(a => a.id === clip.assetId);
+    if (!clip || !asset) return;
+
+    const delta = (e.clientX - drag.originX) / pixelsPerSecond;
+    if (Math.abs(delta) > 0.05) drag.moved = true;
+
+    if (drag.mode === 'keyframe' && drag.keyframeId) {
+      const keyframe = drag.keyframes.find(k => k.id === drag.keyframeId);
+      if (keyframe) {
+        const time = Math.min(drag.duration, Math.max(0, snapTime(keyframe.time + delta)));
+        updateKeyframe(clip.id, keyframe.id, { time });
+      }
+      return;
+    }
+
+    if (drag.mode === 'move') {
+      // Move onto whichever compatible lane the pointer is over
+      const lane = document.elementsFromPoint(e.clientX, e.clientY)
+        .map(el => (el as HTMLElement).dataset.trackId)
+        .find(Boolean);
+      const target = tracks.find(t => t.id === lane && t.type === trackTypeForMedia(asset.type));
+      moveClip(clip.id, target?.id ?? clip.trackId, drag.start + delta);
+      return;
+    }
+
+    // Videos and audio can't play past the end of their source media
+    const sourceLimit = asset.type !== 'image' && asset.duration ? asset.duration : Infinity;
+
+    if (drag.mode === 'trim-end') {
+      const maxDuration = sourceLimit - drag.trimStart;
+      updateClip(clip.id, {
+        duration: Math.min(maxDuration, Math.max(MIN_CLIP_DURATION, snapTime(drag.duration + delta))),
+      });
+      return;
+    }
+
+    // Trimming the start moves the in-point with it for media that has one
+    const minStart = asset.type === 'image' ? 0 : Math.max(0, drag.start - drag.trimStart);
+    const maxStart = drag.start + drag.duration - MIN_CLIP_DURATION;
+    const start = Math.min(maxStart, Math.max(minStart, snapTime(drag.start + delta)));
+    const trimDelta = start - drag.start;
+    updateClip(clip.id, {
+      start,
+      duration: Math.round((drag.duration - trimDelta) * 1000) / 1000,
+      trimStart: asset.type === 'image' ? drag.trimStart : Math.round((drag.trimStart + trimDelta) * 1000) / 1000,
+      // Keyframes stay with the picture rather than the clip's new start
+      keyframes: drag.keyframes.length > 0 ? shiftKeyframes(drag.keyframes, -trimDelta) : clip.keyframes,
+    });
+  };
+
+  const handlePointerUp = () => {
+    const cueDrag = cueDragRef.current;
+    cueDragRef.current = null;
+    if (cueDrag && !cueDrag.moved) selectCue(cueDrag.cueId);
+
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      if (drag.mode === 'keyframe') {
+        selectKeyframe(drag.keyframeId ?? null);
+        return;
+      }
+      selectClip(drag.clipId);
+      onClipSelect?.();
+    }
+  };
+
+  const selectedClip = clips.find(c => c.id === selectedClipId);
+  const selectedAsset = selectedClip && assets.find(a => a.id === selectedClip.assetId);
+  const showKeyframeLane = !!selectedAsset && selectedAsset.type !== 'audio';
+
+  const visualCount = tracks.filter(t => t.type === 'visual').length;
+  const audioCount = tracks.length - visualCount;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => addTrack('visual')}>
+          <Plus className="h-4 w-4 mr-1" />
+          Video Track
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => addTrack('audio')}>
+          <Plus className="h-4 w-4 mr-1" />
+          Audio Track
+        </Button>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => { setPixelsPerSecond(p => Math.max(MIN_PIXELS_PER_SECOND, p / 1.5)); }}
+            title="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => { setPixelsPerSecond(p => Math.min(MAX_PIXELS_PER_SECOND, p * 1.5)); }}
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="overflow-x-auto rounded-lg border bg-card"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div style={{ width: HEADER_WIDTH + length * pixelsPerSecond }}>
+          <div className="flex">
+            <div className="sticky left-0 z-10 border-r bg-card" style={{ width: HEADER_WIDTH }} />
+            <TimeRuler length={length} pixelsPerSecond={pixelsPerSecond} />
+          </div>
+
+          {tracks.map((track, index) => (
+            <Fragment key={track.id}>
+            <div className="flex border-b last:border-b-0">
+              <TrackHeader
+                track={track}
+                index={index}
+                canRemove={(track.type === 'visual' ? visualCount : audioCount) > 1}
+              />
+              <div
+                data-track-id={track.id}
+                className={cn("relative", track.type === 'audio' && "bg-muted/30", track.hidden && "opacity-40")}
+                style={{ width: length * pixelsPerSecond, height: TRACK_HEIGHT }}
+                onClick={() => { selectClip(null); }}
+              >
+                {clips.filter(c => c.trackId === track.id).map(clip => (
+                  <TimelineClip
+                    key={clip.id}
+                    clip={clip}
+                    asset={assets.find(a => a.id === clip.assetId)}
+                    pixelsPerSecond={pixelsPerSecond}
+                    isSelected={selectedClipId === clip.id}
+                    onPointerDown={handlePointerDown}
+                  />
+                ))}
+              </div>
+            </div>
+            {showKeyframeLane && selectedClip.trackId === track.id && (
+              <KeyframeLane
+                clip={selectedClip}
+                length={length}
+                pixelsPerSecond={pixelsPerSecond}
+                selectedKeyframeId={selectedKeyframeId}
+                onAddKeyframe={(time) => { addKeyframe(selectedClip.id, time); }}
+                onKeyframePointerDown={handleKeyframePointerDown}
+              />
+            )}
+            </Fragment>
+          ))}
+
+          {subtitleConfig.mode !== 'none' && subtitleConfig.cues.length > 0 && (
+            <SubtitleLane
+              cues={subtitleConfig.cues}
+              length={length}
+              pixelsPerSecond={pixelsPerSecond}
+              selectedCueId={selectedCueId}
+              onCuePointerDown={handleCuePointerDown}
+            />
+          )}
+        </div>
+      </div>
+
+      {clips.length === 0 && (
+        <div className="text-center py-6 text-muted-foreground border-2 border-dashed rounded-lg">
+          <p>No clips added yet</p>
+          <p className="text-sm">
+            {assets.length > 0
+              ? `You have ${String(assets.length)} asset(s) in your library. Click + on an asset to add it to the timeline.`
+              : 'Upload media to get started'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+// Undo/redo history - every document-changing store action is recorded as a
+// command holding the document before and after it ran
+import type { EditorDocument, EditorHistory, HistoryEntry } from './types';
+
+export const HISTORY_LIMIT = 100;
+
+// Consecutive commands with the same merge key inside this window (slider
+// drags, nudging a clip) collapse into one undo step
+export const HISTORY_MERGE_WINDOW_MS = 1000;
+
+export const EMPTY_HISTORY: EditorHistory = { past: [], future: [] };
+
+export const pickDocument = (state: EditorDocument): EditorDocument => ({
+  assets: state.assets,
+  tracks: state.tracks,
+  clips: state.clips,
+  audioTrack: state.audioTrack,
+  subtitleConfig: state.subtitleConfig,
+  outputSettings: state.outputSettings,
+});
+
+export const recordCommand = (history: EditorHistory, entry: HistoryEntry): EditorHistory => {
+  const last = history.past.at(-1);
+  const merges = !!last
+    && !!entry.mergeKey
+    && last.mergeKey === entry.mergeKey
+    && history.future.length === 0
+    && entry.at - last.at <= HISTORY_MERGE_WINDOW_MS;
+
+  const past = merges
+    ? [...history.past.slice(0, -1), { ...entry, before: last.before }]
+    : [...history.past, entry];
+
+  return { past: past.slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Step back one command; returns null when there is nothing to undo
+export const undoCommand = (history: EditorHistory): { entry: HistoryEntry; history: EditorHistory } | null => {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+};
+
+// Re-apply the last undone command; returns null when there is nothing to redo
+export const redoCommand = (history: EditorHistory): { entry: HistoryEntry; history: EditorHistory } | null => {
+  const entry = history.future.at(0);
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+  };
+};
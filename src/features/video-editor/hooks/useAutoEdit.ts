@@ -0,0 +1,140 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { FEATURE_COSTS } from '@/constants/pricing';
+import { useVideoEditorStore } from '../store';
+import { useRecentGenerations } from './useRecentGenerations';
+import { analyseBeats, mixToMono, type BeatAnalysis } from '../beatDetection';
+import { buildAutoEditClips, buildLyricCues, planAutoEdit, type CutPace, type LyricLine } from '../autoEdit';
+import type { TransitionType } from '../types';
+
+// Decoding at a lower rate keeps the analysis quick; beats don't need more
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+interface AutoEditRequest {
+  assetIds: string[]; // in the order they should appear
+  pace: CutPace;
+  transition: TransitionType;
+  lyrics: boolean;
+}
+
+const decodeMusic = async (url: string): Promise<BeatAnalysis> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Could not load the music');
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await response.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return analyseBeats(mixToMono(channels), buffer.sampleRate);
+};
+
+/**
+ * Cut the chosen media to the beats of the background music, and caption
+ * its lyrics when it's a Suno track - as one undoable step the user can
+ * then fine-tune on the timeline
+ */
+export const useAutoEdit = () => {
+  const { user } = useAuth();
+  const assets = useVideoEditorStore(state => state.assets);
+  const tracks = useVideoEditorStore(state => state.tracks);
+  const audioTrack = useVideoEditorStore(state => state.audioTrack);
+  const { generations } = useRecentGenerations();
+  const [analysis, setAnalysis] = useState<{ url: string; result: BeatAnalysis } | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const musicAsset = audioTrack ? assets.find(a => a.id === audioTrack.assetId) ?? null : null;
+  // Lyrics come from the music studio generation the track was added from
+  const musicGeneration = musicAsset
+    ? generations.find(g => g.type === 'audio' && g.fullUrl === musicAsset.url) ?? null
+    : null;
+  const currentAnalysis = analysis && musicAsset && analysis.url === musicAsset.url ? analysis.result : null;
+
+  const analyse = useCallback(async (): Promise<BeatAnalysis | null> => {
+    if (!musicAsset) return null;
+    setIsAnalysing(true);
+    try {
+      const result = await decodeMusic(musicAsset.url);
+      setAnalysis({ url: musicAsset.url, result });
+      if (result.beats.length === 0) {
+        toast.error('No beat found in the music');
+        return null;
+      }
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not analyse the music');
+      return null;
+    } finally {
+      setIsAnalysing(false);
+    }
+  }, [musicAsset]);
+
+  const fetchLyrics = async (): Promise<LyricLine[]> => {
+    if (!musicGeneration) return [];
+    const { data, error } = await supabase.functions.invoke('get-timestamped-lyrics', {
+      body: {
+        generation_id: musicGeneration.parent_generation_id || musicGeneration.id,
+        output_index: musicGeneration.output_index ?? 0,
+      },
+    });
+    if (error) throw new Error(error.message || 'Failed to fetch lyrics');
+    if (!data?.success) throw new Error(data?.error || 'Failed to fetch lyrics');
+    return (data.data?.lyrics ?? []) as LyricLine[];
+  };
+
+  const apply = async ({ assetIds, pace, transition, lyrics }: AutoEditRequest) => {
+    if (!user) {
+      toast.error('You must be logged in to auto-edit');
+      return;
+    }
+    if (!audioTrack || !musicAsset) {
+      toast.error('Add background music to auto-edit');
+      return;
+    }
+    const media = assetIds.flatMap(id => assets.filter(a => a.id === id && a.type !== 'audio'));
+    if (media.length === 0) {
+      toast.error('Choose the clips and images to cut');
+      return;
+    }
+    // The main sequence is the bottom visual track
+    const track = tracks.filter(t => t.type === 'visual').at(-1);
+    if (!track) return;
+
+    setIsApplying(true);
+    try {
+      const result = currentAnalysis ?? await analyse();
+      if (!result || result.beats.length === 0) return;
+
+      const musicStart = audioTrack.trimStart;
+      const length = (audioTrack.trimEnd ?? musicAsset.duration ?? result.duration) - musicStart;
+      const cuts = planAutoEdit(result, media, { pace, transition, musicStart, length });
+
+      let cues = null;
+      if (lyrics && musicGeneration) {
+        cues = buildLyricCues(await fetchLyrics(), musicStart, length);
+        if (cues.length === 0) {
+          toast.info('No timed lyrics found for this track');
+          cues = null;
+        }
+      }
+
+      useVideoEditorStore.getState().applyAutoEdit(track.id, buildAutoEditClips(cuts, assets, track.id), cues);
+      toast.success(`Cut ${String(cuts.length)} shots at ${String(Math.round(result.tempo))} BPM`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Auto-edit failed');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return {
+    musicAsset,
+    analysis: currentAnalysis,
+    analyse,
+    isAnalysing,
+    apply,
+    isApplying,
+    canFetchLyrics: musicGeneration !== null,
+    lyricsCost: FEATURE_COSTS.LYRICS_FETCH,
+  };
+};
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ShotstackPayload } from '../types';
+import {
+  type PreviewFrame,
+  type PreviewLayer,
+  type PreviewMedia,
+  frameToTime,
+  getPayloadDuration,
+  getPreviewFrame,
+  getPreviewMedia,
+  timeToFrame,
+} from '../preview';
+import { drawPreviewFrame } from '../previewCanvas';
+
+// The preview canvas is drawn at up to this width and scaled by CSS
+export const PREVIEW_MAX_WIDTH = 960;
+
+// Media that drifts further than this from the preview clock is re-synced
+const DRIFT_TOLERANCE_SECONDS = 0.25;
+
+const DEFAULT_SIZE = { width: 1920, height: 1080 };
+
+type MediaElement = HTMLVideoElement | HTMLAudioElement | HTMLImageElement;
+
+const isMediaElement = (element: MediaElement): element is HTMLVideoElement | HTMLAudioElement =>
+  !(element instanceof HTMLImageElement);
+
+const releaseElement = (element: MediaElement): void => {
+  if (isMediaElement(element)) {
+    element.pause();
+    element.removeAttribute('src');
+    element.load();
+  } else {
+    element.removeAttribute('src');
+  }
+};
+
+/**
+ * Plays a Shotstack payload on a canvas: a clock drives the frame, media
+ * elements follow it and each frame is composited the way the render will
+ * be. While paused every seek lands on an exact frame and the canvas is
+ * redrawn once the media has reached it.
+ */
+export const usePreviewPlayer = (payload: ShotstackPayload | null) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const mediaRef = useRef(new Map<string, MediaElement>());
+  const animationFrameRef = useRef<number>();
+  const timeRef = useRef(0);
+  const payloadRef = useRef(payload);
+  const playingRef = useRef(false);
+  const mutedRef = useRef(false);
+
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+
+  const duration = payload ? getPayloadDuration(payload) : 0;
+  const fps = payload?.output.fps ?? 30;
+  const outputSize = payload?.output.size ?? DEFAULT_SIZE;
+  const outputScale = Math.min(1, PREVIEW_MAX_WIDTH / outputSize.width);
+  const canvasSize = {
+    width: Math.round(outputSize.width * outputScale),
+    height: Math.round(outputSize.height * outputScale),
+  };
+
+  // Listeners and the animation loop read the latest values through refs
+  const renderRef = useRef<() => void>(() => undefined);
+
+  const getElement = useCallback((media: PreviewMedia): MediaElement => {
+    const existing = mediaRef.current.get(media.id);
+    if (existing) return existing;
+
+    let element: MediaElement;
+    if (media.type === 'image') {
+      element = new Image();
+      element.addEventListener('load', () => { renderRef.current(); });
+    } else {
+      element = document.createElement(media.type);
+      element.preload = 'auto';
+      if (element instanceof HTMLVideoElement) element.playsInline = true;
+      element.addEventListener('seeked', () => { if (!playingRef.current) renderRef.current(); });
+      element.addEventListener('loadeddata', () => { if (!playingRef.current) renderRef.current(); });
+    }
+    element.src = media.src;
+    mediaRef.current.set(media.id, element);
+    return element;
+  }, []);
+
+  // Bring every audible media element to the frame's time and volume. Video
+  // layers share their element with the clip's audio source.
+  const syncMedia = useCallback((frame: PreviewFrame, frameDuration: number) => {
+    const active = new Set<string>();
+    const playing = playingRef.current;
+
+    const sync = (media: PreviewMedia, mediaTime: number, volume: number) => {
+      const element = getElement(media);
+      active.add(media.id);
+      if (!isMediaElement(element)) return;
+      element.volume = Math.max(0, Math.min(1, volume));
+      element.muted = mutedRef.current;
+      const drift = Math.abs(element.currentTime - mediaTime);
+      if (playing) {
+        if (drift > DRIFT_TOLERANCE_SECONDS) element.currentTime = mediaTime;
+        if (element.paused) void element.play().catch(() => undefined);
+      } else {
+        if (!element.paused) element.pause();
+        if (drift > frameDuration / 2) element.currentTime = mediaTime;
+      }
+    };
+
+    for (const source of frame.audio) {
+      sync(source, source.mediaTime, source.volume);
+    }
+
+    for (const [id, element] of mediaRef.current) {
+      if (!active.has(id) && isMediaElement(element) && !element.paused) element.pause();
+    }
+  }, [getElement]);
+
+  const getSource = useCallback((layer: PreviewLayer): CanvasImageSource | null => {
+    const element = mediaRef.current.get(layer.id);
+    if (!element) return null;
+    if (element instanceof HTMLImageElement) return element.complete ? element : null;
+    return element instanceof HTMLVideoElement && element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? element : null;
+  }, []);
+
+  const render = useCallback(() => {
+    const current = payloadRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!current || !ctx) return;
+
+    const frame = getPreviewFrame(current, timeRef.current);
+    syncMedia(frame, 1 / current.output.fps);
+    drawPreviewFrame(ctx, frame, getSource, ctx.canvas.width / (current.output.size?.width ?? DEFAULT_SIZE.width));
+  }, [syncMedia, getSource]);
+
+  useEffect(() => {
+    renderRef.current = render;
+  }, [render]);
+
+  useEffect(() => {
+    payloadRef.current = payload;
+    mutedRef.current = isMuted;
+  }, [payload, isMuted]);
+
+  // Load every clip's media up front and drop media the edit no longer uses
+  useEffect(() => {
+    const media = payload ? getPreviewMedia(payload) : [];
+    const ids = new Set(media.map(m => m.id));
+    for (const [id, element] of mediaRef.current) {
+      if (!ids.has(id)) {
+        releaseElement(element);
+        mediaRef.current.delete(id);
+      }
+    }
+    media.forEach(getElement);
+  }, [payload, getElement]);
+
+  useEffect(() => {
+    const media = mediaRef.current;
+    return () => {
+      media.forEach(releaseElement);
+      media.clear();
+    };
+  }, []);
+
+  // Keep the playhead inside the edit when it gets shorter
+  useEffect(() => {
+    if (timeRef.current > duration) {
+      timeRef.current = duration;
+      setCurrentTime(duration);
+    }
+  }, [duration]);
+
+  // Playback loop
+  useEffect(() => {
+    playingRef.current = isPlaying;
+    if (!isPlaying) return;
+
+    let lastTimestamp = performance.now();
+    const animate = (timestamp: number) => {
+      timeRef.current = Math.min(duration, timeRef.current + (timestamp - lastTimestamp) / 1000);
+      lastTimestamp = timestamp;
+      render();
+      setCurrentTime(timeRef.current);
+
+      if (timeRef.current >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      animationFrameRef.current = requestAnimationFrame(animate);
+    };
+    animationFrameRef.current = requestAnimationFrame(animate);
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [isPlaying, duration, render]);
+
+  // Redraw a paused preview when the edit, the playhead or the mute changes
+  useEffect(() => {
+    if (!isPlaying) render();
+  }, [isPlaying, payload, currentTime, isMuted, render]);
+
+  const seek = useCallback((time: number) => {
+    const frame = timeToFrame(Math.max(0, Math.min(duration, time)), fps);
+    timeRef.current = frameToTime(frame, fps);
+    setCurrentTime(timeRef.current);
+  }, [duration, fps]);
+
+  const stepFrame = useCallback((frames: number) => {
+    setIsPlaying(false);
+    seek(frameToTime(timeToFrame(timeRef.current, fps) + frames, fps));
+  }, [seek, fps]);
+
+  const togglePlay = useCallback(() => {
+    if (!isPlaying && timeRef.current >= duration) {
+      timeRef.current = 0;
+      setCurrentTime(0);
+    }
+    setIsPlaying(playing => !playing && duration > 0);
+  }, [isPlaying, duration]);
+
+  const toggleMute = useCallback(() => { setIsMuted(muted => !muted); }, []);
+
+  return {
+    canvasRef,
+    canvasSize,
+    currentTime,
+    duration,
+    fps,
+    isPlaying,
+    isMuted,
+    togglePlay,
+    seek,
+    stepFrame,
+    toggleMute,
+  };
+};
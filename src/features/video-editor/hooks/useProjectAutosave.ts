@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { useVideoEditorStore } from '../store';
+import { pickDocument } from '../history';
+import { ProjectConflictError, createProject, fetchProject, saveProject } from '../projects';
+
+export const AUTOSAVE_DELAY_MS = 2000;
+const AUTOSAVE_RETRY_MS = 15000;
+
+// Tabs editing the same project tell each other about saves so a stale tab
+// notices before its next save is rejected
+const SYNC_CHANNEL = 'video-editor-projects';
+const TAB_ID = crypto.randomUUID();
+
+interface ProjectSavedMessage {
+  type: 'saved';
+  projectId: string;
+  revision: number;
+  tabId: string;
+}
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Autosaves the open project a couple of seconds after each change, reopens
+ * the project that was open on the last visit and detects when the project
+ * is saved from another tab. A conflicting save is never written; the user
+ * picks how to resolve it with the returned actions.
+ */
+export const useProjectAutosave = () => {
+  const { user } = useAuth();
+  const projectId = useVideoEditorStore(state => state.projectId);
+  const documentVersion = useVideoEditorStore(state => state.documentVersion);
+  const savedDocumentVersion = useVideoEditorStore(state => state.savedDocumentVersion);
+  const saveStatus = useVideoEditorStore(state => state.saveStatus);
+  const isDirty = documentVersion !== savedDocumentVersion;
+
+  const savingRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const announceSave = useCallback((savedProjectId: string, revision: number) => {
+    const message: ProjectSavedMessage = { type: 'saved', projectId: savedProjectId, revision, tabId: TAB_ID };
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const save = useCallback(async () => {
+    const state = useVideoEditorStore.getState();
+    if (!state.projectId || state.saveStatus === 'conflict' || savingRef.current) return;
+    const version = state.documentVersion;
+    if (version === state.savedDocumentVersion) return;
+
+    savingRef.current = true;
+    state.setSaveStatus('saving');
+    try {
+      const project = await saveProject(state.projectId, pickDocument(state), state.projectRevision);
+      useVideoEditorStore.getState().setProjectSaved(project, version);
+      announceSave(project.id, project.revision);
+    } catch (error) {
+      if (error instanceof ProjectConflictError) {
+        useVideoEditorStore.getState().setSaveStatus('conflict');
+        toast.warning('This project was changed in another tab. Choose which version to keep.');
+      } else {
+        logger.error('Project autosave failed', toError(error), {
+          component: 'useProjectAutosave',
+          operation: 'save',
+          projectId: state.projectId,
+        });
+        useVideoEditorStore.getState().setSaveStatus('error');
+      }
+    } finally {
+      savingRef.current = false;
+    }
+  }, [announceSave]);
+
+  /**
+   * Load the saved copy of the open project, discarding local changes
+   */
+  const reloadProject = useCallback(async () => {
+    const state = useVideoEditorStore.getState();
+    if (!state.projectId) return;
+    try {
+      const project = await fetchProject(state.projectId, state);
+      useVideoEditorStore.getState().openProject(project);
+    } catch (error) {
+      logger.error('Project reload failed', toError(error), {
+        component: 'useProjectAutosave',
+        operation: 'reloadProject',
+        projectId: state.projectId,
+      });
+      // The project is gone (or unreadable) - keep working on the local copy
+      useVideoEditorStore.getState().detachProject();
+      toast.error('Could not load the saved project');
+    }
+  }, []);
+
+  /**
+   * Resolve a conflict by saving the local document over the newer revision
+   */
+  const overwriteProject = useCallback(async () => {
+    const state = useVideoEditorStore.getState();
+    if (!state.projectId) return;
+    try {
+      const latest = await fetchProject(state.projectId, state);
+      const project = await saveProject(state.projectId, pickDocument(state), latest.revision);
+      useVideoEditorStore.getState().setProjectSaved(project, state.documentVersion);
+      announceSave(project.id, project.revision);
+      toast.success('Saved your version');
+    } catch (error) {
+      if (!(error instanceof ProjectConflictError)) {
+        logger.error('Project overwrite failed', toError(error), {
+          component: 'useProjectAutosave',
+          operation: 'overwriteProject',
+          projectId: state.projectId,
+        });
+      }
+      toast.error('Failed to save your version');
+    }
+  }, [announceSave]);
+
+  /**
+   * Resolve a conflict by saving the local document as a new project,
+   * leaving the other tab's version untouched
+   */
+  const saveAsCopy = useCallback(async () => {
+    const state = useVideoEditorStore.getState();
+    if (!user) return;
+    try {
+      const project = await createProject(user.id, `${state.projectName} (copy)`, pickDocument(state));
+      state.setProjectSaved(project, state.documentVersion);
+      toast.success(`Saved as "${project.name}"`);
+    } catch (error) {
+      logger.error('Project copy failed', toError(error), {
+        component: 'useProjectAutosave',
+        operation: 'saveAsCopy',
+      });
+      toast.error('Failed to save a copy');
+    }
+  }, [user]);
+
+  // Reopen the project persisted from the last visit. A persisted project id
+  // with an idle save status means this session hasn't loaded it yet.
+  useEffect(() => {
+    const state = useVideoEditorStore.getState();
+    if (user && state.projectId && state.saveStatus === 'idle') {
+      void reloadProject();
+    }
+  }, [user, reloadProject]);
+
+  // Debounced autosave; failed saves retry less eagerly
+  useEffect(() => {
+    if (!projectId || !isDirty || saveStatus === 'conflict' || saveStatus === 'idle') return;
+    const timer = setTimeout(() => { void save(); }, saveStatus === 'error' ? AUTOSAVE_RETRY_MS : AUTOSAVE_DELAY_MS);
+    return () => { clearTimeout(timer); };
+  }, [projectId, isDirty, documentVersion, saveStatus, save]);
+
+  // Saves from other tabs: pick them up if there is nothing to lose here,
+  // otherwise flag the conflict
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<ProjectSavedMessage>) => {
+      const message = event.data;
+      const state = useVideoEditorStore.getState();
+      if (message.tabId === TAB_ID || message.projectId !== state.projectId) return;
+      if (message.revision <= state.projectRevision) return;
+
+      if (state.documentVersion === state.savedDocumentVersion && !savingRef.current) {
+        void reloadProject().then(() => { toast.info('Project updated from another tab'); });
+      } else {
+        state.setSaveStatus('conflict');
+      }
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [reloadProject]);
+
+  // Warn before leaving with unsaved changes
+  useEffect(() => {
+    if (!isDirty || !projectId) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => { window.removeEventListener('beforeunload', handleBeforeUnload); };
+  }, [isDirty, projectId]);
+
+  return {
+    isDirty,
+    saveStatus,
+    saveNow: save,
+    reloadProject,
+    overwriteProject,
+    saveAsCopy,
+  };
+};
@@ -4,10 +4,12 @@ import { useAuth } from '@/contexts/AuthContext';
 
 interface RecentGeneration {
   id: string;
-  type: 'image' | 'video';
+  type: 'image' | 'video' | 'audio';
   prompt: string;
   output_url: string;
   storage_path: string | null;
+  parent_generation_id: string | null; // with output_index, identifies a Suno track for lyrics
+  output_index: number | null;
   created_at: string;
 }
 
@@ -37,10 +39,10 @@ export const useRecentGenerations = (limit = 24) => {
       
       const { data, error } = await supabase
         .from('generations')
-        .select('id, type, prompt, output_url, storage_path, created_at')
+        .select('id, type, prompt, output_url, storage_path, parent_generation_id, output_index, created_at')
         .eq('user_id', user.id)
         .eq('status', 'completed')
-        .in('type', ['image', 'video'])
+        .in('type', ['image', 'video', 'audio'])
         .not('output_url', 'is', null)
         .order('created_at', { ascending: false })
         .limit(limit);
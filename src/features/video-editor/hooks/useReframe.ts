@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import {
+  getReframeCredits,
+  mergeManualKeyframes,
+  smoothTrackingSamples,
+  type FrameSize,
+  type ReframeAspectRatio,
+  type ReframeKeyframe,
+} from '@shared/reframe';
+import { trackSubject } from '../subjectTracking';
+import type { RenderStatus } from '../types';
+
+// A finished video that can be reframed
+export interface ReframeSource {
+  type: 'generation' | 'render';
+  id: string;
+  url: string;
+  label: string;
+}
+
+export interface ReframeVariant {
+  aspectRatio: ReframeAspectRatio;
+  jobId: string | null;
+  status: RenderStatus;
+  url: string | null;
+  error: string | null;
+}
+
+// Manual keyframes closer than this to a new one are replaced by it
+const MANUAL_REPLACE_SECONDS = 0.25;
+
+/**
+ * Track the subject of a finished video, let the user correct the path with
+ * manual keyframes, then start one reframe job per target ratio and follow
+ * them until they finish
+ */
+export const useReframe = (source: ReframeSource | null) => {
+  const { user } = useAuth();
+  const [videoInfo, setVideoInfo] = useState<(FrameSize & { duration: number }) | null>(null);
+  const [trackedPath, setTrackedPath] = useState<ReframeKeyframe[]>([]);
+  const [manualKeyframes, setManualKeyframes] = useState<ReframeKeyframe[]>([]);
+  const [trackingProgress, setTrackingProgress] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [variants, setVariants] = useState<ReframeVariant[]>([]);
+
+  const trackingAbortRef = useRef<AbortController | null>(null);
+  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current);
+      pollingRef.current = null;
+    }
+  }, []);
+
+  // A new source starts over
+  useEffect(() => {
+    trackingAbortRef.current?.abort();
+    stopPolling();
+    setVideoInfo(null);
+    setTrackedPath([]);
+    setManualKeyframes([]);
+    setTrackingProgress(null);
+    setVariants([]);
+  }, [source?.type, source?.id, stopPolling]);
+
+  // Stop background work on unmount
+  useEffect(() => {
+    return () => {
+      trackingAbortRef.current?.abort();
+      stopPolling();
+    };
+  }, [stopPolling]);
+
+  const path = mergeManualKeyframes(trackedPath, manualKeyframes);
+
+  const trackSource = useCallback(async () => {
+    if (!source) return;
+    const controller = new AbortController();
+    trackingAbortRef.current?.abort();
+    trackingAbortRef.current = controller;
+
+    setTrackingProgress(0);
+    try {
+      const track = await trackSubject(source.url, {
+        onProgress: setTrackingProgress,
+        signal: controller.signal,
+      });
+      setVideoInfo({ width: track.width, height: track.height, duration: track.duration });
+      const tracked = smoothTrackingSamples(track.samples);
+      setTrackedPath(tracked);
+      if (tracked.length === 0) {
+        toast.info('No clear subject found - add keyframes by hand');
+      } else {
+        toast.success('Subject tracked');
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        toast.error(err instanceof Error ? err.message : 'Tracking failed');
+      }
+    } finally {
+      if (trackingAbortRef.current === controller) {
+        trackingAbortRef.current = null;
+        setTrackingProgress(null);
+      }
+    }
+  }, [source]);
+
+  const setManualKeyframe = useCallback((time: number, point: { x: number; y: number }) => {
+    const keyframe = {
+      time: Math.round(time * 100) / 100,
+      x: Math.min(1, Math.max(0, point.x)),
+      y: Math.min(1, Math.max(0, point.y)),
+      manual: true,
+    };
+    setManualKeyframes(prev => [
+      ...prev.filter(k => Math.abs(k.time - keyframe.time) >= MANUAL_REPLACE_SECONDS),
+      keyframe,
+    ].sort((a, b) => a.time - b.time));
+  }, []);
+
+  const removeManualKeyframe = useCallback((time: number) => {
+    setManualKeyframes(prev => prev.filter(k => k.time !== time));
+  }, []);
+
+  const pollVariants = useCallback((jobIds: string[]) => {
+    stopPolling();
+    const pending = new Set(jobIds);
+
+    pollingRef.current = setInterval(() => {
+      for (const jobId of pending) {
+        void supabase.functions
+          .invoke('status-video-editor', { body: { jobId } })
+          .then(({ data, error }) => {
+            if (error) {
+              console.error('Reframe status poll error:', error);
+              return;
+            }
+            const status = data?.status as RenderStatus | undefined;
+            if (!status) return;
+
+            setVariants(prev => prev.map(v => v.jobId === jobId ? {
+              ...v,
+              status,
+              url: data.finalVideoUrl ?? v.url,
+              error: data.errorMessage ?? v.error,
+            } : v));
+
+            if (status === 'done' || status === 'failed') {
+              pending.delete(jobId);
+              if (pending.size === 0) stopPolling();
+            }
+          });
+      }
+    }, 5000); // Poll every 5 seconds
+  }, [stopPolling]);
+
+  const submit = useCallback(async (aspectRatios: ReframeAspectRatio[]) => {
+    if (!user) {
+      toast.error('You must be logged in to reframe videos');
+      return;
+    }
+    if (!source || !videoInfo) return;
+    if (aspectRatios.length === 0) {
+      toast.error('Choose at least one aspect ratio');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('reframe-video', {
+        body: {
+          source: { type: source.type, id: source.id },
+          aspectRatios,
+          path,
+          sourceSize: { width: videoInfo.width, height: videoInfo.height },
+          duration: videoInfo.duration,
+        },
+      });
+      if (error) {
+        throw new Error(error.message || 'Failed to start reframe');
+      }
+
+      const jobs = (data?.jobs ?? []) as Array<{ aspectRatio: ReframeAspectRatio; jobId?: string; error?: string }>;
+      setVariants(jobs.map(job => ({
+        aspectRatio: job.aspectRatio,
+        jobId: job.jobId ?? null,
+        status: job.error ? 'failed' : 'queued',
+        url: null,
+        error: job.error ?? null,
+      })));
+
+      const started = jobs.filter(job => job.jobId && !job.error).map(job => job.jobId as string);
+      if (started.length > 0) {
+        toast.info(`Reframing to ${String(started.length)} aspect ratio${started.length === 1 ? '' : 's'}...`);
+        pollVariants(started);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to start reframe');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [user, source, videoInfo, path, pollVariants]);
+
+  return {
+    videoInfo,
+    setVideoInfo,
+    path,
+    manualKeyframes,
+    setManualKeyframe,
+    removeManualKeyframe,
+    trackSource,
+    isTracking: trackingProgress !== null,
+    trackingProgress: trackingProgress ?? 0,
+    submit,
+    isSubmitting,
+    variants,
+    getEstimatedCredits: (targets: number) => videoInfo ? getReframeCredits(videoInfo.duration, targets) : 0,
+  };
+};
@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRecentGenerations } from './useRecentGenerations';
+import type { ReframeSource } from './useReframe';
+
+interface FinishedRender {
+  id: string;
+  final_video_url: string;
+  total_duration: number;
+  output_settings: { aspectRatio?: string; format?: string } | null;
+  created_at: string;
+}
+
+/**
+ * Finished videos the user can reframe: their recent MP4 editor renders
+ * (including earlier reframes) and completed video generations
+ */
+export const useReframeSources = (limit = 12) => {
+  const { user } = useAuth();
+  const { generations, isLoading: isLoadingGenerations } = useRecentGenerations();
+
+  const { data: renders = [], isLoading: isLoadingRenders } = useQuery<FinishedRender[]>({
+    queryKey: ['finished-video-editor-renders', user?.id, limit],
+    queryFn: async () => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('video_editor_jobs')
+        .select('id, final_video_url, total_duration, output_settings, created_at')
+        .eq('user_id', user.id)
+        .eq('status', 'done')
+        .not('final_video_url', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as FinishedRender[];
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  const sources: ReframeSource[] = [
+    ...renders
+      .filter(render => (render.output_settings?.format ?? 'mp4') === 'mp4')
+      .map(render => ({
+        type: 'render' as const,
+        id: render.id,
+        url: render.final_video_url,
+        label: `Render ${render.output_settings?.aspectRatio ?? ''} • ${Number(render.total_duration).toFixed(1)}s`,
+      })),
+    ...generations
+      .filter(gen => gen.type === 'video' && gen.fullUrl)
+      .map(gen => ({
+        type: 'generation' as const,
+        id: gen.id,
+        url: gen.fullUrl as string,
+        label: gen.prompt,
+      })),
+  ];
+
+  return { sources, isLoading: isLoadingGenerations || isLoadingRenders };
+};
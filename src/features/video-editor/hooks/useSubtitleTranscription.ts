@@ -0,0 +1,72 @@
+import { useCallback, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { useVideoEditorStore } from '../store';
+import { buildCuesFromWords, getTranscriptionSources } from '../subtitles';
+import { getTranscriptionCredits, getTranscriptionSeconds, type TranscribedWord } from '@shared/speech-transcription';
+
+/**
+ * Transcribe the speech on the timeline into subtitle cues, replacing the
+ * current ones as a single undoable step
+ */
+export const useSubtitleTranscription = () => {
+  const { user } = useAuth();
+  const assets = useVideoEditorStore(state => state.assets);
+  const tracks = useVideoEditorStore(state => state.tracks);
+  const clips = useVideoEditorStore(state => state.clips);
+  const audioTrack = useVideoEditorStore(state => state.audioTrack);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
+  const sources = useMemo(
+    () => getTranscriptionSources({ assets, tracks, clips, audioTrack }),
+    [assets, tracks, clips, audioTrack]
+  );
+  // Whole files are transcribed, so they are priced on their full length
+  const billed = useMemo(
+    () => getTranscriptionSeconds(sources, Object.fromEntries(assets.map(asset => [asset.id, asset.duration]))),
+    [sources, assets]
+  );
+  const estimatedCredits = 'seconds' in billed ? getTranscriptionCredits(billed.seconds) : 0;
+
+  const transcribe = useCallback(async () => {
+    if (!user) {
+      toast.error('You must be logged in to transcribe speech');
+      return;
+    }
+    if (sources.length === 0) {
+      toast.error('Add background audio or clips with sound to transcribe');
+      return;
+    }
+    if ('error' in billed) {
+      toast.error(billed.error);
+      return;
+    }
+
+    setIsTranscribing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('transcribe-video-editor', {
+        body: { sources },
+      });
+      if (error) {
+        throw new Error(error.message || 'Transcription failed');
+      }
+
+      const words = (data?.words ?? []) as TranscribedWord[];
+      if (words.length === 0) {
+        toast.info('No speech found to transcribe');
+        return;
+      }
+
+      const { subtitleConfig, setSubtitleCues } = useVideoEditorStore.getState();
+      setSubtitleCues(buildCuesFromWords(words, subtitleConfig.maxWordsPerLine), 'Transcribe speech');
+      toast.success(`Transcribed ${String(words.length)} words`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Transcription failed');
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, [user, sources, billed]);
+
+  return { transcribe, isTranscribing, canTranscribe: sources.length > 0, estimatedCredits };
+};
@@ -39,8 +39,8 @@ const toMediaAsset = (record: VideoEditorAssetRecord): MediaAsset => ({
   uploadedAt: record.created_at,
 });
 
-// Extract video duration from URL by loading metadata
-const getVideoDurationFromUrl = (url: string): Promise<number> => {
+// Extract video or audio duration from URL by loading metadata
+const getMediaDurationFromUrl = (url: string): Promise<number> => {
   return new Promise((resolve) => {
     const video = document.createElement('video');
     video.preload = 'metadata';
@@ -63,7 +63,7 @@ const getVideoDurationFromUrl = (url: string): Promise<number> => {
 export const useVideoEditorAssets = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
-  const { removeAsset: removeAssetFromStore, addAsset, addClipFromAsset } = useVideoEditorStore();
+  const { removeAsset: removeAssetFromStore, addAsset, addClipFromAsset, setAudioTrack } = useVideoEditorStore();
 
   // Fetch assets from database
   const { 
@@ -144,15 +144,15 @@ export const useVideoEditorAssets = () => {
 
   // Add asset from URL (for adding generations)
   const addAssetFromUrlMutation = useMutation({
-    mutationFn: async ({ url, type, name }: { url: string; type: 'image' | 'video'; name: string }) => {
+    mutationFn: async ({ url, type, name }: { url: string; type: 'image' | 'video' | 'audio'; name: string }) => {
       if (!user?.id) throw new Error('Not authenticated');
 
-      const mimeType = type === 'video' ? 'video/mp4' : 'image/png';
+      const mimeType = type === 'video' ? 'video/mp4' : type === 'audio' ? 'audio/mpeg' : 'image/png';
       
-      // Extract video duration if type is video
+      // Extract duration if type is video or audio
       let duration: number | null = null;
-      if (type === 'video') {
-        duration = await getVideoDurationFromUrl(url);
+      if (type !== 'image') {
+        duration = await getMediaDurationFromUrl(url);
         if (duration === 0) duration = null;
       }
       
@@ -196,7 +196,24 @@ export const useVideoEditorAssets = () => {
       };
 
       addAsset(mediaAsset);
-      addClipFromAsset(mediaAsset.id);
+
+      // Music becomes the background track, as with uploads
+      if (mediaAsset.type === 'audio') {
+        setAudioTrack({
+          id: crypto.randomUUID(),
+          assetId: mediaAsset.id,
+          asset: mediaAsset,
+          volume: 0.5,
+          fadeIn: true,
+          fadeOut: true,
+          fadeInDuration: 1,
+          fadeOutDuration: 1,
+          trimStart: 0,
+          loop: false,
+        });
+      } else {
+        addClipFromAsset(mediaAsset.id);
+      }
 
       queryClient.invalidateQueries({ 
         queryKey: ['video-editor-assets', user?.id] 
@@ -254,7 +271,7 @@ export const useVideoEditorAssets = () => {
     },
   });
 
-  const addAssetFromUrl = async (url: string, type: 'image' | 'video', name: string) => {
+  const addAssetFromUrl = async (url: string, type: 'image' | 'video' | 'audio', name: string) => {
     return addAssetFromUrlMutation.mutateAsync({ url, type, name });
   };
 
@@ -0,0 +1,119 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+import { useVideoEditorStore } from '../store';
+import { pickDocument } from '../history';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  fetchProject,
+  listProjects,
+  renameProject,
+} from '../projects';
+
+const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * The user's saved video editor projects, with actions to save the current
+ * session as a project and to open, rename, duplicate and delete projects
+ */
+export const useVideoEditorProjects = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['video-editor-projects', user?.id];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: listProjects,
+    enabled: !!user,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  /**
+   * Save the current session as a new project and keep editing it
+   */
+  const saveAsProject = async (name: string) => {
+    if (!user) {
+      toast.error('You must be logged in to save projects');
+      return;
+    }
+    const state = useVideoEditorStore.getState();
+    try {
+      const project = await createProject(user.id, name, pickDocument(state));
+      state.setProjectSaved(project, state.documentVersion);
+      toast.success(`Saved "${project.name}"`);
+      await invalidate();
+    } catch (error) {
+      logger.error('Project save failed', toError(error), { component: 'useVideoEditorProjects', operation: 'saveAsProject' });
+      toast.error('Failed to save project');
+    }
+  };
+
+  /**
+   * Replace the editor contents with a saved project
+   */
+  const openProject = async (projectId: string) => {
+    const state = useVideoEditorStore.getState();
+    try {
+      const project = await fetchProject(projectId, state);
+      state.openProject(project);
+    } catch (error) {
+      logger.error('Project open failed', toError(error), { component: 'useVideoEditorProjects', operation: 'openProject', projectId });
+      toast.error('Failed to open project');
+    }
+  };
+
+  const rename = async (projectId: string, name: string) => {
+    try {
+      const project = await renameProject(projectId, name);
+      const state = useVideoEditorStore.getState();
+      if (state.projectId === projectId) state.setProjectName(project.name);
+      await invalidate();
+    } catch (error) {
+      logger.error('Project rename failed', toError(error), { component: 'useVideoEditorProjects', operation: 'rename', projectId });
+      toast.error('Failed to rename project');
+    }
+  };
+
+  const duplicate = async (projectId: string, name: string) => {
+    if (!user) return;
+    try {
+      const project = await duplicateProject(user.id, projectId, name);
+      toast.success(`Created "${project.name}"`);
+      await invalidate();
+    } catch (error) {
+      logger.error('Project duplicate failed', toError(error), { component: 'useVideoEditorProjects', operation: 'duplicate', projectId });
+      toast.error('Failed to duplicate project');
+    }
+  };
+
+  /**
+   * Delete a project. Deleting the open project keeps its contents in the
+   * editor as an unsaved session.
+   */
+  const remove = async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+      const state = useVideoEditorStore.getState();
+      if (state.projectId === projectId) state.detachProject();
+      await invalidate();
+    } catch (error) {
+      logger.error('Project delete failed', toError(error), { component: 'useVideoEditorProjects', operation: 'remove', projectId });
+      toast.error('Failed to delete project');
+    }
+  };
+
+  return {
+    projects: query.data ?? [],
+    isLoading: query.isLoading,
+    refetch: invalidate,
+    saveAsProject,
+    openProject,
+    rename,
+    duplicate,
+    remove,
+  };
+};
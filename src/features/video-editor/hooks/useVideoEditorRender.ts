@@ -3,12 +3,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { useVideoEditorStore } from '../store';
-import { RenderStatus, VideoEditorJob } from '../types';
+import { RenderBackendChoice, RenderStatus, VideoEditorJob } from '../types';
+import { MAX_RENDER_SECONDS } from '@shared/render-request';
 
 interface UseVideoEditorRenderReturn {
-  submitRender: () => Promise<void>;
+  submitRender: (renderBackend?: RenderBackendChoice) => Promise<void>;
   cancelRender: () => void;
-  retryRender: () => Promise<void>;
+  retryRender: (renderBackend?: RenderBackendChoice) => Promise<void>;
   isRendering: boolean;
   currentJob: VideoEditorJob | null;
 }
@@ -16,13 +17,13 @@ interface UseVideoEditorRenderReturn {
 export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
   const { user } = useAuth();
   const {
+    tracks,
     clips,
     audioTrack,
     subtitleConfig,
     outputSettings,
     currentJobId,
     renderStatus,
-    buildShotstackPayload,
     getTotalDuration,
     getEstimatedCredits,
     setRenderStatus,
@@ -86,7 +87,7 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
     };
   }, []);
 
-  const submitRender = useCallback(async () => {
+  const submitRender = useCallback(async (renderBackend: RenderBackendChoice = 'auto') => {
     if (!user) {
       toast.error('You must be logged in to render videos');
       return;
@@ -97,7 +98,12 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
       return;
     }
 
-    const totalDuration = getTotalDuration();
+    if (getTotalDuration() > MAX_RENDER_SECONDS) {
+      toast.error(`Videos up to ${String(MAX_RENDER_SECONDS / 60)} minutes can be rendered`);
+      return;
+    }
+
+    // The server rebuilds the edit and prices it; a stale estimate is refused
     const estimatedCredits = getEstimatedCredits();
 
     try {
@@ -105,12 +111,10 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
       setRenderProgress(10);
       setErrorMessage(null);
 
-      // Build Shotstack payload
-      const payload = buildShotstackPayload();
-
       // Call edge function to start render
       const { data, error } = await supabase.functions.invoke('render-video-editor', {
         body: {
+          tracks,
           clips: clips.map(c => ({
             ...c,
             asset: undefined, // Don't send full asset object
@@ -121,9 +125,8 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
           } : null,
           subtitleConfig,
           outputSettings,
-          totalDuration,
           estimatedCredits,
-          shotstackPayload: payload,
+          renderBackend,
         },
       });
 
@@ -172,13 +175,13 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
     }
   }, [
     user,
+    tracks,
     clips,
     audioTrack,
     subtitleConfig,
     outputSettings,
     getTotalDuration,
     getEstimatedCredits,
-    buildShotstackPayload,
     setRenderStatus,
     setRenderProgress,
     setCurrentJobId,
@@ -196,12 +199,12 @@ export const useVideoEditorRender = (): UseVideoEditorRenderReturn => {
     toast.info('Render cancelled');
   }, [setRenderStatus, setCurrentJobId, setRenderProgress]);
 
-  const retryRender = useCallback(async () => {
+  const retryRender = useCallback(async (renderBackend?: RenderBackendChoice) => {
     setErrorMessage(null);
     setRenderStatus('idle');
     setCurrentJobId(null);
     setFinalVideoUrl(null);
-    await submitRender();
+    await submitRender(renderBackend);
   }, [submitRender, setErrorMessage, setRenderStatus, setCurrentJobId, setFinalVideoUrl]);
 
   const isRendering = ['uploading', 'queued', 'fetching', 'rendering', 'saving'].includes(renderStatus);
@@ -1,15 +1,37 @@
 // Video Editor Feature - Barrel exports
 export * from './types';
 export { useVideoEditorStore } from './store';
+export { buildShotstackPayload } from '@shared/render-payload';
+export { EXPORT_FORMATS, getExportCredits } from '@shared/export-formats';
+export { getClipTransform, KEN_BURNS_PRESETS } from './keyframes';
+export { getPreviewFrame } from './preview';
+export { ProjectConflictError } from './projects';
+export { parseSubtitles, serializeSubtitles } from './subtitles';
+export { REFRAME_SIZES, getReframeCredits } from '@shared/reframe';
+export { analyseBeats } from './beatDetection';
+export { planAutoEdit } from './autoEdit';
 export { useMediaUpload } from './hooks/useMediaUpload';
 export { useVideoEditorRender } from './hooks/useVideoEditorRender';
+export { useVideoEditorProjects } from './hooks/useVideoEditorProjects';
+export { useProjectAutosave } from './hooks/useProjectAutosave';
+export { usePreviewPlayer } from './hooks/usePreviewPlayer';
+export { useSubtitleTranscription } from './hooks/useSubtitleTranscription';
+export { useReframe } from './hooks/useReframe';
+export { useAutoEdit } from './hooks/useAutoEdit';
 export { MediaUploader } from './components/MediaUploader';
 export { MediaLibrary } from './components/MediaLibrary';
-export { ClipList } from './components/ClipList';
+export { Timeline } from './components/Timeline';
 export { ClipSettingsPanel } from './components/ClipSettingsPanel';
+export { KeyframePanel } from './components/KeyframePanel';
 export { OutputSettingsPanel } from './components/OutputSettingsPanel';
 export { RenderButton } from './components/RenderButton';
 export { VideoPreview } from './components/VideoPreview';
+export { PreviewCompositor } from './components/PreviewCompositor';
 export { AudioTrackPanel } from './components/AudioTrackPanel';
+export { AutoEditPanel } from './components/AutoEditPanel';
 export { SubtitlePanel } from './components/SubtitlePanel';
+export { SubtitleCueEditor } from './components/SubtitleCueEditor';
+export { ReframePanel } from './components/ReframePanel';
+export { ReframeDialog } from './components/ReframeDialog';
 export { GlobalTransitionsPanel } from './components/GlobalTransitionsPanel';
+export { ProjectBar } from './components/ProjectBar';
@@ -0,0 +1,119 @@
+// Keyframe helpers - pure functions shared by the store, keyframe UI and payload builder
+import type {
+  AnimatableProperty,
+  Clip,
+  ClipKeyframe,
+  ClipTransform,
+  Easing,
+  KenBurnsPreset,
+} from './types';
+import { getAnimatedValue, sortKeyframes } from '@shared/render-payload';
+
+// Keyframe evaluation is part of the shared render model
+export {
+  NO_CROP,
+  ease,
+  getAnimatedValue,
+  getPropertyKeyframes,
+  getStaticValue,
+  isAnimated,
+  sortKeyframes,
+} from '@shared/render-payload';
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ['position', 'scale', 'rotation', 'opacity', 'crop'];
+
+export const EASINGS: { value: Easing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease In' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'easeInOut', label: 'Ease In & Out' },
+  { value: 'hold', label: 'Hold' },
+];
+
+// Keyframes closer together than this are treated as the same keyframe
+const KEYFRAME_EPSILON = 0.05;
+
+export const hasKeyframes = (clip: Clip): boolean => (clip.keyframes?.length ?? 0) > 0;
+
+// Every animatable property at a time, e.g. for the preview compositor
+export const getClipTransform = (clip: Clip, time: number): ClipTransform => ({
+  position: getAnimatedValue(clip, 'position', time),
+  scale: getAnimatedValue(clip, 'scale', time),
+  rotation: getAnimatedValue(clip, 'rotation', time),
+  opacity: getAnimatedValue(clip, 'opacity', time),
+  crop: getAnimatedValue(clip, 'crop', time),
+});
+
+/**
+ * Set property values at a time, updating the keyframe already there or
+ * adding a new one
+ */
+export const upsertKeyframe = (
+  keyframes: ClipKeyframe[],
+  time: number,
+  values: Partial<ClipTransform>,
+  easing: Easing = 'easeInOut',
+): ClipKeyframe[] => {
+  const existing = keyframes.find(k => Math.abs(k.time - time) < KEYFRAME_EPSILON);
+  if (existing) {
+    return keyframes.map(k => (k.id === existing.id ? { ...k, ...values } : k));
+  }
+  return sortKeyframes([...keyframes, { id: crypto.randomUUID(), time, easing, ...values }]);
+};
+
+// Keep keyframes attached to the same media moment when a clip's in-point moves
+export const shiftKeyframes = (keyframes: ClipKeyframe[], delta: number): ClipKeyframe[] =>
+  keyframes.map(k => ({ ...k, time: Math.round((k.time + delta) * 1000) / 1000 }));
+
+export const KEN_BURNS_PRESETS: Record<KenBurnsPreset, { label: string; from: Partial<ClipTransform>; to: Partial<ClipTransform> }> = {
+  zoomIn: {
+    label: 'Zoom In',
+    from: { scale: 1, position: { x: 0.5, y: 0.5 } },
+    to: { scale: 1.25, position: { x: 0.5, y: 0.5 } },
+  },
+  zoomOut: {
+    label: 'Zoom Out',
+    from: { scale: 1.25, position: { x: 0.5, y: 0.5 } },
+    to: { scale: 1, position: { x: 0.5, y: 0.5 } },
+  },
+  panLeft: {
+    label: 'Pan Left',
+    from: { scale: 1.2, position: { x: 0.58, y: 0.5 } },
+    to: { scale: 1.2, position: { x: 0.42, y: 0.5 } },
+  },
+  panRight: {
+    label: 'Pan Right',
+    from: { scale: 1.2, position: { x: 0.42, y: 0.5 } },
+    to: { scale: 1.2, position: { x: 0.58, y: 0.5 } },
+  },
+  panUp: {
+    label: 'Pan Up',
+    from: { scale: 1.2, position: { x: 0.5, y: 0.58 } },
+    to: { scale: 1.2, position: { x: 0.5, y: 0.42 } },
+  },
+  panDown: {
+    label: 'Pan Down',
+    from: { scale: 1.2, position: { x: 0.5, y: 0.42 } },
+    to: { scale: 1.2, position: { x: 0.5, y: 0.58 } },
+  },
+  zoomInPanRight: {
+    label: 'Zoom In + Pan Right',
+    from: { scale: 1, position: { x: 0.45, y: 0.52 } },
+    to: { scale: 1.3, position: { x: 0.56, y: 0.48 } },
+  },
+};
+
+/**
+ * Ken Burns move across the whole clip: replaces the clip's position and
+ * scale keyframes and leaves rotation, opacity and crop animation alone
+ */
+export const applyKenBurns = (clip: Clip, preset: KenBurnsPreset): ClipKeyframe[] => {
+  const { from, to } = KEN_BURNS_PRESETS[preset];
+  const kept = (clip.keyframes ?? [])
+    .map(({ position: _position, scale: _scale, ...rest }): ClipKeyframe => rest)
+    .filter(k => ANIMATABLE_PROPERTIES.some(p => k[p] !== undefined));
+
+  let keyframes = upsertKeyframe(kept, 0, from, 'linear');
+  keyframes = upsertKeyframe(keyframes, clip.duration, to, 'linear');
+  return keyframes;
+};
@@ -0,0 +1,316 @@
+// Preview compositor model - evaluates the Shotstack payload the editor will
+// render at any time, so the in-browser preview and the render share one
+// source of truth for timing, transitions, captions and the audio mix
+import type { Easing, ShotstackClip, ShotstackPayload, ShotstackTween } from './types';
+import { ease } from './keyframes';
+
+// Shotstack transitions run for one second, "Fast" variants for half that
+// and "Slow" ones for two, never longer than half the clip
+const TRANSITION_SECONDS = 1;
+const SOUNDTRACK_FADE_SECONDS = 2;
+
+export type PreviewFit = NonNullable<ShotstackClip['fit']>;
+
+// How a transition alters a layer at one moment. Offsets are fractions of
+// the frame, y pointing down; `visible` is the unwiped fraction of the frame.
+export interface PreviewTransitionEffect {
+  opacity: number;
+  offsetX: number;
+  offsetY: number;
+  zoom: number;
+  wipe?: { from: 'left' | 'right'; visible: number };
+  tint?: { color: string; amount: number };
+}
+
+export interface PreviewLayer {
+  id: string; // shared by every clip cut from the same stretch of the same media
+  type: 'video' | 'image';
+  src: string;
+  mediaTime: number; // seconds into the source media
+  fit: PreviewFit;
+  crop?: ShotstackClip['asset']['crop'];
+  x: number; // Shotstack offsets - fractions of the frame from its centre, y up
+  y: number;
+  scale: number;
+  rotation: number; // degrees clockwise
+  opacity: number;
+  effect: PreviewTransitionEffect;
+}
+
+export interface PreviewCaptionWord {
+  text: string;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+  box?: string;
+}
+
+export interface PreviewCaption {
+  position: NonNullable<ShotstackClip['position']>;
+  fontSize: number;
+  fontColor: string;
+  background?: { color: string; padding: number };
+  outline?: { color: string; width: number };
+  // Burned-in subtitle text. Auto captions, transcribed during the render, have none.
+  words?: PreviewCaptionWord[];
+}
+
+export interface PreviewAudioSource {
+  id: string; // equals the layer id for video clips - one element plays both
+  type: 'video' | 'audio';
+  src: string;
+  mediaTime: number;
+  volume: number;
+}
+
+export interface PreviewFrame {
+  time: number;
+  background: string;
+  layers: PreviewLayer[]; // bottom to top
+  caption: PreviewCaption | null;
+  audio: PreviewAudioSource[];
+}
+
+export interface PreviewMedia {
+  id: string;
+  type: 'video' | 'image' | 'audio';
+  src: string;
+}
+
+const NO_EFFECT: PreviewTransitionEffect = { opacity: 1, offsetX: 0, offsetY: 0, zoom: 1 };
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Timeline length of a payload - the end of its last fixed-length clip
+export const getPayloadDuration = (payload: ShotstackPayload): number =>
+  payload.timeline.tracks.reduce(
+    (end, track) => track.clips.reduce(
+      (trackEnd, clip) => (typeof clip.length === 'number' ? Math.max(trackEnd, clip.start + clip.length) : trackEnd),
+      end
+    ),
+    0
+  );
+
+const clipLength = (clip: ShotstackClip, duration: number): number =>
+  typeof clip.length === 'number' ? clip.length : Math.max(0, duration - clip.start);
+
+// Frame timing: frame n shows time n / fps, and a clip covers the frames from
+// its start up to but not including its end
+export const getFrameCount = (duration: number, fps: number): number => Math.ceil(round(duration * fps));
+
+export const frameToTime = (frame: number, fps: number): number => frame / fps;
+
+export const timeToFrame = (time: number, fps: number): number => Math.floor(round(time * fps));
+
+export const isClipActive = (clip: ShotstackClip, time: number, duration: number): boolean =>
+  time >= clip.start && time < clip.start + clipLength(clip, duration);
+
+const mediaId = (clip: ShotstackClip): string =>
+  `${clip.asset.src ?? ''}@${String(round(clip.start - (clip.asset.trim ?? 0)))}`;
+
+const tweenEasing = (tween: ShotstackTween): Easing =>
+  tween.interpolation === 'bezier' && (tween.easing === 'easeIn' || tween.easing === 'easeOut' || tween.easing === 'easeInOut')
+    ? tween.easing
+    : 'linear';
+
+/**
+ * Value of a clip property at a time (seconds from the clip start). Before
+ * the first tween its start value holds, after the last its end value.
+ */
+export const evaluateTweens = (value: number | ShotstackTween[] | undefined, time: number, fallback: number): number => {
+  if (value === undefined) return fallback;
+  if (typeof value === 'number') return value;
+  if (value.length === 0) return fallback;
+
+  const tween = value.find(t => time < t.start + t.length) ?? value[value.length - 1];
+  if (time <= tween.start) return tween.from;
+  if (time >= tween.start + tween.length) return tween.to;
+  const t = ease(tweenEasing(tween), (time - tween.start) / tween.length);
+  return tween.from + (tween.to - tween.from) * t;
+};
+
+const transitionSeconds = (name: string, length: number): number => {
+  const seconds = name.endsWith('Fast') ? TRANSITION_SECONDS / 2 : name.endsWith('Slow') ? TRANSITION_SECONDS * 2 : TRANSITION_SECONDS;
+  return Math.min(seconds, length / 2);
+};
+
+/**
+ * The look of a Shotstack transition. `progress` runs 0-1 from fully hidden
+ * to fully shown: forwards for an in transition, backwards for an out one.
+ */
+export const getTransitionEffect = (name: string, direction: 'in' | 'out', progress: number): PreviewTransitionEffect => {
+  const hidden = 1 - progress;
+  // Slides move the same way on the way out as on the way in
+  const travel = direction === 'in' ? hidden : -hidden;
+  const base = name.replace(/(Fast|Slow)$/, '');
+
+  switch (base) {
+    case 'fade':
+      return { ...NO_EFFECT, opacity: progress };
+    case 'fadeBlack':
+      return { ...NO_EFFECT, tint: { color: '#000000', amount: hidden } };
+    case 'fadeWhite':
+      return { ...NO_EFFECT, tint: { color: '#FFFFFF', amount: hidden } };
+    case 'slideLeft':
+      return { ...NO_EFFECT, offsetX: travel };
+    case 'slideRight':
+      return { ...NO_EFFECT, offsetX: -travel };
+    case 'slideUp':
+      return { ...NO_EFFECT, offsetY: travel };
+    case 'slideDown':
+      return { ...NO_EFFECT, offsetY: -travel };
+    case 'zoom':
+      return { ...NO_EFFECT, opacity: progress, zoom: progress };
+    case 'wipeLeft':
+      return { ...NO_EFFECT, wipe: { from: direction === 'in' ? 'right' : 'left', visible: progress } };
+    case 'wipeRight':
+      return { ...NO_EFFECT, wipe: { from: direction === 'in' ? 'left' : 'right', visible: progress } };
+    default:
+      return NO_EFFECT;
+  }
+};
+
+// In and out transitions of a clip at a time from its start
+const clipEffect = (clip: ShotstackClip, localTime: number, length: number): PreviewTransitionEffect => {
+  const { in: transitionIn, out: transitionOut } = clip.transition ?? {};
+  if (transitionIn) {
+    const seconds = transitionSeconds(transitionIn, length);
+    if (localTime < seconds) return getTransitionEffect(transitionIn, 'in', localTime / seconds);
+  }
+  if (transitionOut) {
+    const seconds = transitionSeconds(transitionOut, length);
+    if (localTime > length - seconds) return getTransitionEffect(transitionOut, 'out', (length - localTime) / seconds);
+  }
+  return NO_EFFECT;
+};
+
+// HTML caption clips are rebuilt whenever the payload is, so parse each once
+const htmlCaptions = new WeakMap<ShotstackClip, PreviewCaption>();
+
+/**
+ * Read a burned-in subtitle clip back from its HTML: the line style on the
+ * <p> and one styled <span> per word, as written by buildCaptionHtml
+ */
+export const parseCaptionHtml = (clip: ShotstackClip): PreviewCaption => {
+  const cached = htmlCaptions.get(clip);
+  if (cached) return cached;
+
+  const line = new DOMParser().parseFromString(clip.asset.html ?? '', 'text/html').querySelector('p');
+  const fontSize = parseFloat(line?.style.fontSize ?? '') || 24;
+  const stroke = /^([\d.]+)px\s+(.+)$/.exec(line?.style.getPropertyValue('-webkit-text-stroke') ?? '');
+  const words = [...(line?.querySelectorAll('span') ?? [])].map(span => ({
+    text: span.textContent ?? '',
+    color: span.style.color || '#FFFFFF',
+    bold: span.style.fontWeight === 'bold',
+    italic: span.style.fontStyle === 'italic',
+    box: span.style.backgroundColor || undefined,
+  }));
+  const caption: PreviewCaption = {
+    position: clip.position ?? 'bottom',
+    fontSize,
+    fontColor: words[0]?.color ?? '#FFFFFF',
+    background: line?.style.backgroundColor ? { color: line.style.backgroundColor, padding: Math.round(fontSize / 4) } : undefined,
+    outline: stroke ? { width: Number(stroke[1]), color: stroke[2] } : undefined,
+    words,
+  };
+  htmlCaptions.set(clip, caption);
+  return caption;
+};
+
+const soundtrackFade = (effect: string | undefined, time: number, duration: number): number => {
+  const fadeIn = effect === 'fadeIn' || effect === 'fadeInFadeOut';
+  const fadeOut = effect === 'fadeOut' || effect === 'fadeInFadeOut';
+  let gain = 1;
+  if (fadeIn) gain = Math.min(gain, time / SOUNDTRACK_FADE_SECONDS);
+  if (fadeOut) gain = Math.min(gain, (duration - time) / SOUNDTRACK_FADE_SECONDS);
+  return Math.max(0, Math.min(1, gain));
+};
+
+/**
+ * Everything the preview shows and plays at a time: visual layers with
+ * their tweened properties and transition effects, the caption style and
+ * the volume of every audible source
+ */
+export const getPreviewFrame = (payload: ShotstackPayload, time: number): PreviewFrame => {
+  const { timeline } = payload;
+  const duration = getPayloadDuration(payload);
+  const layers: PreviewLayer[] = [];
+  const audio: PreviewAudioSource[] = [];
+  let caption: PreviewCaption | null = null;
+
+  // Shotstack tracks are listed top first
+  for (const track of [...timeline.tracks].reverse()) {
+    for (const clip of track.clips) {
+      if (!isClipActive(clip, time, duration)) continue;
+      const localTime = time - clip.start;
+      const length = clipLength(clip, duration);
+      const { asset } = clip;
+
+      if (asset.type === 'caption') {
+        caption = {
+          position: clip.position ?? 'bottom',
+          fontSize: asset.font?.size ?? 24,
+          fontColor: asset.font?.color ?? '#FFFFFF',
+          background: asset.background,
+        };
+        continue;
+      }
+
+      if (asset.type === 'html') {
+        caption = parseCaptionHtml(clip);
+        continue;
+      }
+
+      const src = asset.src ?? '';
+      const mediaTime = round((asset.trim ?? 0) + localTime);
+      if (asset.type === 'video' || asset.type === 'audio') {
+        audio.push({ id: mediaId(clip), type: asset.type, src, mediaTime, volume: asset.volume ?? 1 });
+      }
+      if (asset.type === 'audio') continue;
+
+      layers.push({
+        id: mediaId(clip),
+        type: asset.type,
+        src,
+        mediaTime,
+        fit: clip.fit ?? 'crop',
+        crop: asset.crop,
+        x: evaluateTweens(clip.offset?.x, localTime, 0),
+        y: evaluateTweens(clip.offset?.y, localTime, 0),
+        scale: evaluateTweens(clip.scale, localTime, 1),
+        rotation: evaluateTweens(clip.transform?.rotate?.angle, localTime, 0),
+        opacity: evaluateTweens(clip.opacity, localTime, 1),
+        effect: clipEffect(clip, localTime, length),
+      });
+    }
+  }
+
+  if (timeline.soundtrack && time < duration) {
+    audio.push({
+      id: `soundtrack:${timeline.soundtrack.src}`,
+      type: 'audio',
+      src: timeline.soundtrack.src,
+      mediaTime: round(time),
+      volume: (timeline.soundtrack.volume ?? 1) * soundtrackFade(timeline.soundtrack.effect, time, duration),
+    });
+  }
+
+  return { time, background: timeline.background ?? '#000000', layers, caption, audio };
+};
+
+// Every media element the preview needs, so they can load before playback
+export const getPreviewMedia = (payload: ShotstackPayload): PreviewMedia[] => {
+  const media = new Map<string, PreviewMedia>();
+  for (const track of payload.timeline.tracks) {
+    for (const clip of track.clips) {
+      const { type, src } = clip.asset;
+      if (type === 'caption' || type === 'html' || !src) continue;
+      media.set(mediaId(clip), { id: mediaId(clip), type, src });
+    }
+  }
+  const { soundtrack } = payload.timeline;
+  if (soundtrack) {
+    media.set(`soundtrack:${soundtrack.src}`, { id: `soundtrack:${soundtrack.src}`, type: 'audio', src: soundtrack.src });
+  }
+  return [...media.values()];
+};
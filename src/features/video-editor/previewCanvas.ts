@@ -0,0 +1,203 @@
+// Draws a preview frame onto a canvas the way Shotstack composes a render
+import type { PreviewCaption, PreviewCaptionWord, PreviewFrame, PreviewLayer } from './preview';
+
+// Auto captions are transcribed during the render, so the preview shows the
+// caption style with stand-in text
+export const CAPTION_PLACEHOLDER = 'Captions are transcribed when you render';
+
+const CAPTION_MARGIN = 0.06; // fraction of the frame height
+const CAPTION_WIDTH = 0.9; // burned-in subtitles wrap at this fraction of the frame width
+const CAPTION_LINE_HEIGHT = 1.3;
+
+const sourceSize = (source: CanvasImageSource): { width: number; height: number } | null => {
+  if (source instanceof HTMLVideoElement) {
+    return source.videoWidth > 0 ? { width: source.videoWidth, height: source.videoHeight } : null;
+  }
+  if (source instanceof HTMLImageElement) {
+    return source.naturalWidth > 0 ? { width: source.naturalWidth, height: source.naturalHeight } : null;
+  }
+  return null;
+};
+
+/**
+ * Draw one visual layer. `outputScale` is canvas pixels per output pixel,
+ * used for `fit: none` where the media keeps its own pixel size.
+ */
+const drawLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: PreviewLayer,
+  source: CanvasImageSource,
+  outputScale: number,
+): void => {
+  const size = sourceSize(source);
+  if (!size) return;
+
+  const { width, height } = ctx.canvas;
+  const crop = layer.crop ?? { top: 0, bottom: 0, left: 0, right: 0 };
+  const sx = size.width * crop.left;
+  const sy = size.height * crop.top;
+  const sw = size.width * (1 - crop.left - crop.right);
+  const sh = size.height * (1 - crop.top - crop.bottom);
+  if (sw <= 0 || sh <= 0) return;
+
+  const fitScale = layer.fit === 'contain'
+    ? Math.min(width / sw, height / sh)
+    : layer.fit === 'none'
+      ? outputScale
+      : Math.max(width / sw, height / sh);
+  const scale = fitScale * layer.scale * layer.effect.zoom;
+  const dw = sw * scale;
+  const dh = sh * scale;
+
+  ctx.save();
+
+  const { wipe } = layer.effect;
+  if (wipe) {
+    const visibleWidth = width * wipe.visible;
+    ctx.beginPath();
+    ctx.rect(wipe.from === 'left' ? 0 : width - visibleWidth, 0, visibleWidth, height);
+    ctx.clip();
+  }
+
+  ctx.globalAlpha = Math.max(0, Math.min(1, layer.opacity * layer.effect.opacity));
+  ctx.translate(
+    width / 2 + (layer.x + layer.effect.offsetX) * width,
+    height / 2 - layer.y * height + layer.effect.offsetY * height
+  );
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.drawImage(source, sx, sy, sw, sh, -dw / 2, -dh / 2, dw, dh);
+
+  const { tint } = layer.effect;
+  if (tint && tint.amount > 0) {
+    ctx.globalAlpha *= tint.amount;
+    ctx.fillStyle = tint.color;
+    ctx.fillRect(-dw / 2, -dh / 2, dw, dh);
+  }
+
+  ctx.restore();
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, caption: PreviewCaption, outputScale: number): void => {
+  const { width, height } = ctx.canvas;
+  const fontSize = caption.fontSize * outputScale;
+  ctx.save();
+  ctx.font = `600 ${String(fontSize)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const y = caption.position === 'top'
+    ? height * CAPTION_MARGIN + fontSize / 2
+    : caption.position === 'center'
+      ? height / 2
+      : height * (1 - CAPTION_MARGIN) - fontSize / 2;
+
+  if (caption.background) {
+    const padding = caption.background.padding * outputScale;
+    const textWidth = ctx.measureText(CAPTION_PLACEHOLDER).width;
+    ctx.fillStyle = caption.background.color;
+    ctx.fillRect(width / 2 - textWidth / 2 - padding, y - fontSize / 2 - padding, textWidth + padding * 2, fontSize + padding * 2);
+  }
+
+  ctx.fillStyle = caption.fontColor;
+  ctx.fillText(CAPTION_PLACEHOLDER, width / 2, y);
+  ctx.restore();
+};
+
+const wordFont = (word: PreviewCaptionWord, fontSize: number): string =>
+  `${word.italic ? 'italic ' : ''}${word.bold ? '700' : '600'} ${String(fontSize)}px sans-serif`;
+
+// Burned-in subtitles: styled words wrapped into centred lines, with word
+// boxes, a line background and an outline as the caption HTML describes
+const drawCaptionWords = (
+  ctx: CanvasRenderingContext2D,
+  caption: PreviewCaption,
+  words: PreviewCaptionWord[],
+  outputScale: number,
+): void => {
+  const { width, height } = ctx.canvas;
+  const fontSize = caption.fontSize * outputScale;
+  const lineHeight = fontSize * CAPTION_LINE_HEIGHT;
+  const wordPadding = fontSize * 0.15;
+  const wordGap = fontSize * 0.25;
+  ctx.save();
+  ctx.textBaseline = 'middle';
+
+  const measured = words.map((word) => {
+    ctx.font = wordFont(word, fontSize);
+    return { word, width: ctx.measureText(word.text).width + wordPadding * 2 };
+  });
+  const lines: { words: typeof measured; width: number }[] = [];
+  for (const item of measured) {
+    const line = lines.at(-1);
+    if (line && line.width + wordGap + item.width <= width * CAPTION_WIDTH) {
+      line.words.push(item);
+      line.width += wordGap + item.width;
+    } else {
+      lines.push({ words: [item], width: item.width });
+    }
+  }
+
+  const blockHeight = lines.length * lineHeight;
+  const top = caption.position === 'top'
+    ? height * CAPTION_MARGIN
+    : caption.position === 'center'
+      ? (height - blockHeight) / 2
+      : height * (1 - CAPTION_MARGIN) - blockHeight;
+
+  lines.forEach((line, lineIndex) => {
+    const y = top + lineHeight * (lineIndex + 0.5);
+    let x = (width - line.width) / 2;
+
+    if (caption.background) {
+      const padding = caption.background.padding * outputScale;
+      ctx.fillStyle = caption.background.color;
+      ctx.fillRect(x - padding, y - lineHeight / 2, line.width + padding * 2, lineHeight);
+    }
+
+    for (const { word, width: wordWidth } of line.words) {
+      if (word.box) {
+        ctx.fillStyle = word.box;
+        ctx.fillRect(x, y - lineHeight / 2, wordWidth, lineHeight);
+      }
+      ctx.font = wordFont(word, fontSize);
+      if (caption.outline && caption.outline.width > 0) {
+        // The stroke is centred on the glyph edge, so double it to match CSS text-stroke
+        ctx.lineWidth = caption.outline.width * 2 * outputScale;
+        ctx.strokeStyle = caption.outline.color;
+        ctx.lineJoin = 'round';
+        ctx.strokeText(word.text, x + wordPadding, y);
+      }
+      ctx.fillStyle = word.color;
+      ctx.fillText(word.text, x + wordPadding, y);
+      x += wordWidth + wordGap;
+    }
+  });
+  ctx.restore();
+};
+
+/**
+ * Paint a frame: background, visual layers bottom to top, then captions.
+ * Layers whose media hasn't loaded yet are skipped.
+ */
+export const drawPreviewFrame = (
+  ctx: CanvasRenderingContext2D,
+  frame: PreviewFrame,
+  getSource: (layer: PreviewLayer) => CanvasImageSource | null,
+  outputScale: number,
+): void => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = frame.background;
+  ctx.fillRect(0, 0, width, height);
+
+  for (const layer of frame.layers) {
+    const source = getSource(layer);
+    if (source) drawLayer(ctx, layer, source, outputScale);
+  }
+
+  const { caption } = frame;
+  if (caption?.words) {
+    drawCaptionWords(ctx, caption, caption.words, outputScale);
+  } else if (caption) {
+    drawCaption(ctx, caption, outputScale);
+  }
+};
@@ -0,0 +1,255 @@
+// Server-side video editor projects - saved copies of the editor document
+// with optimistic concurrency on a per-project revision number
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { ApplicationError } from '@/lib/errors/custom-errors';
+import { DEFAULT_TRACKS, getTimelineDuration } from './timeline';
+import type {
+  AudioTrack,
+  Clip,
+  EditorDocument,
+  MediaAsset,
+  OutputSettings,
+  SubtitleConfig,
+  TimelineTrack,
+  VideoEditorProject,
+  VideoEditorProjectSummary,
+} from './types';
+
+type ProjectRecord = Tables<'video_editor_projects'>;
+
+// Clips saved before multi-track editing have no track or start time
+type SavedClip = Omit<Clip, 'trackId' | 'start'> & Partial<Pick<Clip, 'trackId' | 'start'>>;
+
+const SUMMARY_COLUMNS = 'id, name, revision, total_duration, thumbnail_url, created_at, updated_at';
+
+/**
+ * A save was based on an older revision than the one on the server - the
+ * project was saved from another tab or device in the meantime
+ */
+export class ProjectConflictError extends ApplicationError {
+  public readonly serverRevision: number;
+
+  constructor(projectId: string, baseRevision: number, serverRevision: number) {
+    super(
+      'PROJECT_CONFLICT',
+      'This project was changed in another tab or window',
+      {
+        context: { resourceId: projectId, baseRevision, serverRevision },
+        recoverable: true,
+      }
+    );
+    this.serverRevision = serverRevision;
+  }
+}
+
+const toSummary = (record: Pick<ProjectRecord, 'id' | 'name' | 'revision' | 'total_duration' | 'thumbnail_url' | 'created_at' | 'updated_at'>): VideoEditorProjectSummary => ({
+  id: record.id,
+  name: record.name,
+  revision: record.revision,
+  totalDuration: Number(record.total_duration),
+  thumbnailUrl: record.thumbnail_url,
+  createdAt: record.created_at,
+  updatedAt: record.updated_at,
+});
+
+/**
+ * Rebuild the editor document from a project record. Clip and soundtrack
+ * asset references are re-attached from the saved media library, and clips
+ * saved before multi-track editing land on the default tracks.
+ */
+export const toEditorDocument = (record: ProjectRecord, defaults: Pick<EditorDocument, 'subtitleConfig' | 'outputSettings'>): EditorDocument => {
+  const assets = record.assets as unknown as MediaAsset[];
+  const savedTracks = record.tracks as unknown as TimelineTrack[];
+  const tracks = savedTracks.length > 0 ? savedTracks : DEFAULT_TRACKS;
+  const findAsset = (assetId: string) => assets.find(a => a.id === assetId);
+
+  let cursor = 0;
+  const clips = (record.clips as unknown as SavedClip[]).map((clip): Clip => {
+    const start = clip.start ?? cursor;
+    cursor = start + clip.duration;
+    return {
+      ...clip,
+      trackId: clip.trackId ?? DEFAULT_TRACKS[0].id,
+      start,
+      asset: findAsset(clip.assetId),
+    };
+  });
+
+  const audioTrack = record.audio_track as unknown as AudioTrack | null;
+
+  return {
+    assets,
+    tracks,
+    clips,
+    audioTrack: audioTrack ? { ...audioTrack, asset: findAsset(audioTrack.assetId) } : null,
+    subtitleConfig: { ...defaults.subtitleConfig, ...(record.subtitle_config as unknown as Partial<SubtitleConfig> | null) },
+    outputSettings: { ...defaults.outputSettings, ...(record.output_settings as unknown as Partial<OutputSettings> | null) },
+  };
+};
+
+/**
+ * Serialize the editor document for storage. Embedded asset objects are
+ * dropped (they are stored once in `assets`) along with the uploaded SRT
+ * File, whose text is kept in `srtContent`.
+ */
+export const toProjectFields = (document: EditorDocument) => {
+  const { srtFile: _srtFile, ...subtitleConfig } = document.subtitleConfig;
+  return {
+    assets: document.assets as unknown as Json,
+    tracks: document.tracks as unknown as Json,
+    clips: document.clips.map(({ asset: _asset, ...clip }) => clip) as unknown as Json,
+    audio_track: document.audioTrack
+      ? ({ ...document.audioTrack, asset: undefined } as unknown as Json)
+      : null,
+    subtitle_config: subtitleConfig as unknown as Json,
+    output_settings: document.outputSettings as unknown as Json,
+    total_duration: getTimelineDuration(document.clips),
+    thumbnail_url: document.assets.find(a => a.thumbnailUrl)?.thumbnailUrl ?? null,
+  };
+};
+
+/**
+ * List the current user's projects, most recently saved first
+ */
+export async function listProjects(): Promise<VideoEditorProjectSummary[]> {
+  const { data, error } = await supabase
+    .from('video_editor_projects')
+    .select(SUMMARY_COLUMNS)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(toSummary);
+}
+
+/**
+ * Load a project with its full document
+ * @param projectId - The project id
+ * @param defaults - Subtitle and output settings for fields the project never saved
+ */
+export async function fetchProject(
+  projectId: string,
+  defaults: Pick<EditorDocument, 'subtitleConfig' | 'outputSettings'>
+): Promise<VideoEditorProject> {
+  const { data, error } = await supabase
+    .from('video_editor_projects')
+    .select('*')
+    .eq('id', projectId)
+    .single();
+
+  if (error) throw error;
+  return { ...toSummary(data), document: toEditorDocument(data, defaults) };
+}
+
+/**
+ * Save the editor document as a new project
+ * @param userId - Owner of the project
+ * @param name - Project name
+ * @param document - The editor document to store
+ */
+export async function createProject(
+  userId: string,
+  name: string,
+  document: EditorDocument
+): Promise<VideoEditorProjectSummary> {
+  const { data, error } = await supabase
+    .from('video_editor_projects')
+    .insert({ user_id: userId, name: name.trim(), ...toProjectFields(document) })
+    .select(SUMMARY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSummary(data);
+}
+
+/**
+ * Save the editor document over a project, provided nobody else saved it
+ * since `baseRevision`
+ * @param projectId - The project id
+ * @param document - The editor document to store
+ * @param baseRevision - Revision the document was loaded from or last saved as
+ * @throws ProjectConflictError when the project has moved past `baseRevision`
+ */
+export async function saveProject(
+  projectId: string,
+  document: EditorDocument,
+  baseRevision: number
+): Promise<VideoEditorProjectSummary> {
+  const { data, error } = await supabase
+    .from('video_editor_projects')
+    .update({ ...toProjectFields(document), revision: baseRevision + 1 })
+    .eq('id', projectId)
+    .eq('revision', baseRevision)
+    .select(SUMMARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return toSummary(data);
+
+  // No row matched: either the revision moved on or the project is gone
+  const { data: current, error: currentError } = await supabase
+    .from('video_editor_projects')
+    .select('revision')
+    .eq('id', projectId)
+    .single();
+
+  if (currentError) throw currentError;
+  throw new ProjectConflictError(projectId, baseRevision, current.revision);
+}
+
+/**
+ * Rename a project. Renames don't change the revision, so tabs that have
+ * the project open keep saving normally.
+ */
+export async function renameProject(projectId: string, name: string): Promise<VideoEditorProjectSummary> {
+  const { data, error } = await supabase
+    .from('video_editor_projects')
+    .update({ name: name.trim() })
+    .eq('id', projectId)
+    .select(SUMMARY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSummary(data);
+}
+
+/**
+ * Copy a project's latest saved document into a new project
+ * @param userId - Owner of the copy
+ * @param projectId - The project to copy
+ * @param name - Name of the copy
+ */
+export async function duplicateProject(
+  userId: string,
+  projectId: string,
+  name: string
+): Promise<VideoEditorProjectSummary> {
+  const { data: source, error } = await supabase
+    .from('video_editor_projects')
+    .select('assets, tracks, clips, audio_track, subtitle_config, output_settings, total_duration, thumbnail_url')
+    .eq('id', projectId)
+    .single();
+
+  if (error) throw error;
+
+  const { data, error: insertError } = await supabase
+    .from('video_editor_projects')
+    .insert({ ...source, user_id: userId, name: name.trim() })
+    .select(SUMMARY_COLUMNS)
+    .single();
+
+  if (insertError) throw insertError;
+  return toSummary(data);
+}
+
+/**
+ * Delete a project. Rendered videos and uploaded media are kept.
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  const { error } = await supabase
+    .from('video_editor_projects')
+    .delete()
+    .eq('id', projectId);
+
+  if (error) throw error;
+}
@@ -6,14 +6,38 @@ import {
   Clip, 
   AudioTrack, 
   SubtitleConfig, 
+  SubtitleCue,
+  SubtitleWordStyle,
   OutputSettings,
   RenderStatus,
-  CREDITS_PER_SECOND,
   ShotstackPayload,
-  ShotstackTrack,
-  TransitionType,
-  ASPECT_RATIO_DIMENSIONS
+  TimelineTrack,
+  TrackType,
+  ClipKeyframe,
+  ClipTransform,
+  KenBurnsPreset,
+  EditorDocument,
+  ProjectSaveStatus,
+  VideoEditorProject,
+  VideoEditorProjectSummary,
 } from './types';
+import { DEFAULT_EXPORT_OPTIONS } from '@shared/export-formats';
+import {
+  DEFAULT_TRACKS,
+  createClip,
+  createTrack,
+  getTimelineDuration,
+  getTrackClips,
+  getTrackEnd,
+  packTrackClips,
+  snapTime,
+  trackTypeForMedia,
+} from './timeline';
+import { buildShotstackPayload } from '@shared/render-payload';
+import { getRenderCredits } from '@shared/render-request';
+import { EMPTY_HISTORY, pickDocument, recordCommand, redoCommand, undoCommand } from './history';
+import { applyKenBurns, getClipTransform, upsertKeyframe } from './keyframes';
+import { mergeCueWithNext, retimeCue, setCueText, shiftCues, sortCues, splitCue, updateCueWordStyle } from './subtitles';
 
 interface VideoEditorActions {
   // Media assets
@@ -21,20 +45,46 @@ interface VideoEditorActions {
   removeAsset: (assetId: string) => void;
   clearAssets: () => void;
   
+  // Tracks
+  addTrack: (type: TrackType) => string;
+  removeTrack: (trackId: string) => void;
+  updateTrack: (trackId: string, updates: Partial<Omit<TimelineTrack, 'id' | 'type'>>) => void;
+  moveTrack: (fromIndex: number, toIndex: number) => void;
+  
   // Clips
-  addClipFromAsset: (assetId: string) => void;
+  addClipFromAsset: (assetId: string, trackId?: string, start?: number) => void;
   removeClip: (clipId: string) => void;
   updateClip: (clipId: string, updates: Partial<Clip>) => void;
-  reorderClips: (fromIndex: number, toIndex: number) => void;
+  moveClip: (clipId: string, trackId: string, start: number) => void;
+  reorderClips: (trackId: string, fromIndex: number, toIndex: number) => void;
   selectClip: (clipId: string | null) => void;
   clearClips: () => void;
+  applyAutoEdit: (trackId: string, clips: Clip[], cues: SubtitleCue[] | null) => void;
+  
+  // Keyframes
+  addKeyframe: (clipId: string, time: number) => string | null;
+  setKeyframeValues: (clipId: string, time: number, values: Partial<ClipTransform>) => void;
+  updateKeyframe: (clipId: string, keyframeId: string, updates: Partial<Omit<ClipKeyframe, 'id'>>) => void;
+  removeKeyframe: (clipId: string, keyframeId: string) => void;
+  clearKeyframes: (clipId: string) => void;
+  applyKenBurns: (clipId: string, preset: KenBurnsPreset) => void;
+  selectKeyframe: (keyframeId: string | null) => void;
   
   // Audio
   setAudioTrack: (track: AudioTrack | null) => void;
   updateAudioTrack: (updates: Partial<AudioTrack>) => void;
   
-  // Subtitles
+  // Subtitles - cue and word times are timeline seconds
   updateSubtitleConfig: (updates: Partial<SubtitleConfig>) => void;
+  setSubtitleCues: (cues: SubtitleCue[], label: string) => void;
+  setSubtitleCueText: (cueId: string, text: string) => void;
+  retimeSubtitleCue: (cueId: string, start: number, end: number) => void;
+  splitSubtitleCue: (cueId: string, wordIndex: number) => void;
+  mergeSubtitleCueWithNext: (cueId: string) => void;
+  removeSubtitleCue: (cueId: string) => void;
+  shiftSubtitleCues: (delta: number) => void;
+  updateSubtitleWordStyle: (cueId: string, wordIndex: number, style: SubtitleWordStyle) => void;
+  selectCue: (cueId: string | null) => void;
   
   // Output settings
   updateOutputSettings: (updates: Partial<OutputSettings>) => void;
@@ -50,6 +100,17 @@ interface VideoEditorActions {
   setIsUploading: (uploading: boolean) => void;
   setUploadProgress: (progress: number) => void;
   
+  // History
+  undo: () => void;
+  redo: () => void;
+  
+  // Project
+  openProject: (project: VideoEditorProject) => void;
+  setProjectSaved: (project: Pick<VideoEditorProjectSummary, 'id' | 'name' | 'revision' | 'updatedAt'>, documentVersion: number) => void;
+  setProjectName: (name: string) => void;
+  detachProject: () => void;
+  setSaveStatus: (status: ProjectSaveStatus) => void;
+  
   // Computed
   getTotalDuration: () => number;
   getEstimatedCredits: () => number;
@@ -61,16 +122,24 @@ interface VideoEditorActions {
 
 const defaultSubtitleConfig: SubtitleConfig = {
   mode: 'none',
+  cues: [],
+  style: 'classic',
   fontSize: 24,
   fontColor: '#FFFFFF',
+  highlightColor: '#FFFF00',
   backgroundColor: '#000000',
   showBackground: true,
+  outlineColor: '#000000',
+  outlineWidth: 0,
+  allCaps: false,
+  maxWordsPerLine: 4,
   position: 'bottom',
 };
 
 const defaultOutputSettings: OutputSettings = {
   aspectRatio: '16:9',
   format: 'mp4',
+  exportOptions: DEFAULT_EXPORT_OPTIONS,
   backgroundColor: '#000000',
   fps: 30,
   quality: 'hd',
@@ -78,319 +147,418 @@ const defaultOutputSettings: OutputSettings = {
 
 const initialState: VideoEditorState = {
   assets: [],
+  tracks: DEFAULT_TRACKS,
   clips: [],
   audioTrack: null,
   subtitleConfig: defaultSubtitleConfig,
   outputSettings: defaultOutputSettings,
+  history: EMPTY_HISTORY,
+  projectId: null,
+  projectName: 'Untitled project',
+  projectRevision: 0,
+  documentVersion: 0,
+  savedDocumentVersion: 0,
+  saveStatus: 'idle',
+  lastSavedAt: null,
   currentJobId: null,
   renderStatus: 'idle',
   renderProgress: 0,
   finalVideoUrl: null,
   errorMessage: null,
   selectedClipId: null,
+  selectedKeyframeId: null,
+  selectedCueId: null,
   isUploading: false,
   uploadProgress: 0,
 };
 
-// Helper to map transition type to Shotstack transition name
-const mapTransition = (transition?: TransitionType): string | undefined => {
-  if (!transition || transition === 'none') return undefined;
-  
-  const transitionMap: Record<TransitionType, string> = {
-    none: '',
-    fade: 'fade',
-    fadeToBlack: 'fadeBlack',
-    fadeToWhite: 'fadeWhite',
-    slideLeft: 'slideLeft',
-    slideRight: 'slideRight',
-    slideUp: 'slideUp',
-    slideDown: 'slideDown',
-    zoom: 'zoom',
-    wipeLeft: 'wipeLeft',
-    wipeRight: 'wipeRight',
-  };
-  
-  return transitionMap[transition];
-};
+type DocumentChanges = Partial<EditorDocument> & Partial<Pick<VideoEditorState, 'selectedClipId' | 'selectedKeyframeId' | 'selectedCueId'>>;
+
+// Drop the selection when the selected clip no longer exists
+const keepSelection = (selectedClipId: string | null, clips: Clip[]): string | null =>
+  selectedClipId && clips.some(c => c.id === selectedClipId) ? selectedClipId : null;
+
+// Keys of an update object, so that e.g. repeated volume changes merge but a
+// volume change followed by a trim doesn't
+const updateKey = (updates: object): string => Object.keys(updates).sort().join(',');
 
 export const useVideoEditorStore = create<VideoEditorState & VideoEditorActions>()(
   devtools(
     persist(
-      (set, get) => ({
-        ...initialState,
-        
-        // Media assets
-        addAsset: (asset) => set((state) => ({
-          assets: [...state.assets, asset]
-        })),
-        
-        removeAsset: (assetId) => set((state) => ({
-          assets: state.assets.filter(a => a.id !== assetId),
-          clips: state.clips.filter(c => c.assetId !== assetId),
-          audioTrack: state.audioTrack?.assetId === assetId ? null : state.audioTrack,
-        })),
+      (set, get) => {
+        // Apply a document change as an undoable command. `change` returns
+        // null when the action turns out to be a no-op, which records nothing.
+        const commit = (
+          label: string,
+          change: (state: VideoEditorState) => DocumentChanges | null,
+          mergeKey?: string,
+        ) => {
+          set((state) => {
+            const changes = change(state);
+            if (!changes) return {};
+            return {
+              ...changes,
+              history: recordCommand(state.history, {
+                label,
+                before: pickDocument(state),
+                after: pickDocument({ ...state, ...changes }),
+                mergeKey,
+                at: Date.now(),
+              }),
+              documentVersion: state.documentVersion + 1,
+            };
+          });
+        };
         
-        clearAssets: () => set({ assets: [], clips: [], audioTrack: null }),
+        // Cue edits change only the transcript
+        const editCues = (label: string, change: (cues: SubtitleCue[]) => SubtitleCue[], mergeKey?: string) =>
+          commit(label, (state) => ({
+            subtitleConfig: { ...state.subtitleConfig, cues: change(state.subtitleConfig.cues) },
+          }), mergeKey);
         
-        // Clips
-        addClipFromAsset: (assetId) => {
-          const state = get();
-          const asset = state.assets.find(a => a.id === assetId);
-          if (!asset || asset.type === 'audio') return;
-          
-          const newClip: Clip = {
-            id: crypto.randomUUID(),
-            assetId,
-            asset,
-            duration: asset.duration || 5,
-            trimStart: 0,
-            transitionIn: 'none',
-            transitionOut: 'none',
-            transitionDuration: 0.5,
-            volume: 1,
-            fit: 'cover',
-            position: { x: 0.5, y: 0.5 },
-            scale: 1,
-          };
+        return {
+          ...initialState,
           
-          set((state) => ({
-            clips: [...state.clips, newClip]
-          }));
-        },
-        
-        removeClip: (clipId) => set((state) => ({
-          clips: state.clips.filter(c => c.id !== clipId),
-          selectedClipId: state.selectedClipId === clipId ? null : state.selectedClipId,
-        })),
-        
-        updateClip: (clipId, updates) => set((state) => ({
-          clips: state.clips.map(c => 
-            c.id === clipId ? { ...c, ...updates } : c
-          )
-        })),
-        
-        reorderClips: (fromIndex, toIndex) => set((state) => {
-          const clips = [...state.clips];
-          const [removed] = clips.splice(fromIndex, 1);
-          clips.splice(toIndex, 0, removed);
-          return { clips };
-        }),
-        
-        selectClip: (clipId) => set({ selectedClipId: clipId }),
-        
-        clearClips: () => set({ clips: [], selectedClipId: null }),
-        
-        // Audio
-        setAudioTrack: (track) => set({ audioTrack: track }),
-        
-        updateAudioTrack: (updates) => set((state) => ({
-          audioTrack: state.audioTrack ? { ...state.audioTrack, ...updates } : null
-        })),
-        
-        // Subtitles
-        updateSubtitleConfig: (updates) => set((state) => ({
-          subtitleConfig: { ...state.subtitleConfig, ...updates }
-        })),
-        
-        // Output settings
-        updateOutputSettings: (updates) => set((state) => ({
-          outputSettings: { ...state.outputSettings, ...updates }
-        })),
-        
-        // Render state
-        setRenderStatus: (status) => set({ renderStatus: status }),
-        setRenderProgress: (progress) => set({ renderProgress: progress }),
-        setCurrentJobId: (jobId) => set({ currentJobId: jobId }),
-        setFinalVideoUrl: (url) => set({ finalVideoUrl: url }),
-        setErrorMessage: (message) => set({ errorMessage: message }),
-        
-        // Upload state
-        setIsUploading: (uploading) => set({ isUploading: uploading }),
-        setUploadProgress: (progress) => set({ uploadProgress: progress }),
-        
-        // Computed
-        getTotalDuration: () => {
-          const state = get();
-          return state.clips.reduce((total, clip) => total + clip.duration, 0);
-        },
-        
-        getEstimatedCredits: () => {
-          const state = get();
-          const totalDuration = state.clips.reduce((total, clip) => total + clip.duration, 0);
-          return Math.ceil(totalDuration * CREDITS_PER_SECOND * 10) / 10; // Round to 1 decimal
-        },
-        
-        buildShotstackPayload: () => {
-          const state = get();
-          const { clips, audioTrack, outputSettings, subtitleConfig } = state;
-          
-          // Determine caption source: prefer audio track (voiceover), fallback to first video
-          const hasAudioTrack = audioTrack && state.assets.find(a => a.id === audioTrack.assetId);
-          const videoClipsWithAudio = clips.filter((clip) => {
-            const asset = state.assets.find(a => a.id === clip.assetId);
-            return asset?.type === 'video';
-          });
-          const firstVideoClipId = videoClipsWithAudio.length > 0 ? videoClipsWithAudio[0].id : null;
+          // Media assets
+          addAsset: (asset) => commit('Add media', (state) => ({
+            assets: [...state.assets, asset]
+          })),
           
-          // For auto-captions, we'll use audio track if available (voiceover), else first video
-          const useSoundtrackForCaptions = subtitleConfig.mode === 'auto' && hasAudioTrack;
+          removeAsset: (assetId) => commit('Remove media', (state) => {
+            const clips = state.clips.filter(c => c.assetId !== assetId);
+            return {
+              assets: state.assets.filter(a => a.id !== assetId),
+              clips,
+              audioTrack: state.audioTrack?.assetId === assetId ? null : state.audioTrack,
+              selectedClipId: keepSelection(state.selectedClipId, clips),
+            };
+          }),
           
-          // Build video/image track
-          let currentTime = 0;
-          const totalDuration = clips.reduce((sum, c) => sum + c.duration, 0);
+          clearAssets: () => commit('Clear media', () => ({ assets: [], clips: [], audioTrack: null, selectedClipId: null })),
           
-          const mainTrackClips = clips.map((clip) => {
-            const asset = state.assets.find(a => a.id === clip.assetId);
-            if (!asset) throw new Error(`Asset not found: ${clip.assetId}`);
-            
-            // Build asset object - only include volume for video assets (not images)
-            const assetObj: any = {
-              type: asset.type as 'video' | 'image',
-              src: asset.url,
+          // Tracks
+          addTrack: (type) => {
+            const track = createTrack(type, get().tracks);
+            commit('Add track', (state) => {
+              // New visual tracks go above the existing ones (overlays), audio tracks at the bottom
+              const tracks = type === 'visual' ? [track, ...state.tracks] : [...state.tracks, track];
+              return { tracks };
+            });
+            return track.id;
+          },
+          
+          removeTrack: (trackId) => commit('Remove track', (state) => {
+            const track = state.tracks.find(t => t.id === trackId);
+            // Keep at least one track of each type to drop media onto
+            if (!track || state.tracks.filter(t => t.type === track.type).length <= 1) return null;
+            const clips = state.clips.filter(c => c.trackId !== trackId);
+            return {
+              tracks: state.tracks.filter(t => t.id !== trackId),
+              clips,
+              selectedClipId: keepSelection(state.selectedClipId, clips),
             };
+          }),
+          
+          updateTrack: (trackId, updates) => commit('Edit track', (state) => ({
+            tracks: state.tracks.map(t => 
+              t.id === trackId ? { ...t, ...updates } : t
+            )
+          }), `track:${trackId}:${updateKey(updates)}`),
+          
+          moveTrack: (fromIndex, toIndex) => commit('Reorder tracks', (state) => {
+            if (toIndex < 0 || toIndex >= state.tracks.length) return null;
+            const tracks = [...state.tracks];
+            const [removed] = tracks.splice(fromIndex, 1);
+            tracks.splice(toIndex, 0, removed);
+            return { tracks };
+          }),
+          
+          // Clips
+          addClipFromAsset: (assetId, trackId, start) => {
+            const state = get();
+            const asset = state.assets.find(a => a.id === assetId);
+            if (!asset) return;
             
-            // Only add volume and trim for video assets (images don't support these)
-            if (asset.type === 'video') {
-              assetObj.volume = clip.volume;
-              if (clip.trimStart > 0) {
-                assetObj.trim = clip.trimStart;
-              }
-            }
-            
-            const shotstackClip: any = {
-              asset: assetObj,
-              start: currentTime,
-              length: clip.duration,
-              transition: {
-                in: mapTransition(clip.transitionIn),
-                out: mapTransition(clip.transitionOut),
-              },
-              fit: clip.fit,
-              scale: clip.scale !== 1 ? clip.scale : undefined,
-            };
+            // Default to the bottom visual track (the main sequence) or the first audio track
+            const trackType = trackTypeForMedia(asset.type);
+            const compatibleTracks = state.tracks.filter(t => t.type === trackType);
+            const track = compatibleTracks.find(t => t.id === trackId)
+              ?? (trackType === 'visual' ? compatibleTracks.at(-1) : compatibleTracks.at(0));
+            if (!track) return;
             
-            // Add alias to first video clip for auto-captioning (only if no audio track)
-            if (subtitleConfig.mode === 'auto' && !useSoundtrackForCaptions && clip.id === firstVideoClipId) {
-              shotstackClip.alias = 'speech-source';
-            }
+            const newClip = createClip(
+              asset,
+              track.id,
+              start !== undefined ? snapTime(start) : getTrackEnd(state.clips, track.id),
+            );
             
-            currentTime += clip.duration;
-            return shotstackClip;
-          });
+            commit('Add clip', (state) => ({
+              clips: [...state.clips, newClip]
+            }));
+          },
           
-          const mainTrack: ShotstackTrack = { clips: mainTrackClips };
+          removeClip: (clipId) => commit('Remove clip', (state) => ({
+            clips: state.clips.filter(c => c.id !== clipId),
+            selectedClipId: state.selectedClipId === clipId ? null : state.selectedClipId,
+          })),
           
-          // Build tracks array - caption track goes on top (first in array)
-          const tracks: ShotstackTrack[] = [];
+          updateClip: (clipId, updates) => commit('Edit clip', (state) => ({
+            clips: state.clips.map(c => 
+              c.id === clipId ? { ...c, ...updates } : c
+            )
+          }), `clip:${clipId}:${updateKey(updates)}`),
           
-          // Add caption track if auto-captions enabled AND we have a valid speech source
-          // Only add if: 1) audio track exists for captions, OR 2) there's at least one video clip with audio
-          const hasValidSpeechSource = useSoundtrackForCaptions || (firstVideoClipId && videoClipsWithAudio.length > 0);
-          if (subtitleConfig.mode === 'auto' && hasValidSpeechSource) {
-            // Caption asset structure per Shotstack API
-            const captionAsset: any = {
-              type: 'caption',
-              src: 'alias://speech-source',
+          moveClip: (clipId, trackId, start) => commit('Move clip', (state) => {
+            const clip = state.clips.find(c => c.id === clipId);
+            const track = state.tracks.find(t => t.id === trackId);
+            const asset = clip && state.assets.find(a => a.id === clip.assetId);
+            // Clips only move between tracks of the kind their media plays on
+            if (!clip || !track || !asset || trackTypeForMedia(asset.type) !== track.type) return null;
+            return {
+              clips: state.clips.map(c => 
+                c.id === clipId ? { ...c, trackId, start: snapTime(start) } : c
+              )
             };
-            
-            // Add font styling
-            if (subtitleConfig.fontSize || subtitleConfig.fontColor) {
-              captionAsset.font = {};
-              if (subtitleConfig.fontSize) captionAsset.font.size = subtitleConfig.fontSize;
-              if (subtitleConfig.fontColor) captionAsset.font.color = subtitleConfig.fontColor;
-            }
-            
-            // Add background if enabled
-            if (subtitleConfig.showBackground) {
-              captionAsset.background = {
-                color: subtitleConfig.backgroundColor,
-                padding: 10,
-              };
-            }
-            
-            const captionTrack: ShotstackTrack = {
-              clips: [{
-                asset: captionAsset,
-                start: 0,
-                length: totalDuration > 0 ? totalDuration : 'end',
-                // Position is set at clip level, not asset level
-                position: subtitleConfig.position === 'top' ? 'top' 
-                  : subtitleConfig.position === 'center' ? 'center' 
-                  : 'bottom',
-              }] as any,
+          }, `move:${clipId}`),
+          
+          // Indices are into the track's clips by start time; the track is then laid out back to back
+          reorderClips: (trackId, fromIndex, toIndex) => commit('Reorder clips', (state) => {
+            const ordered = getTrackClips(state.clips, trackId).map(c => c.id);
+            const [removed] = ordered.splice(fromIndex, 1);
+            ordered.splice(toIndex, 0, removed);
+            return { clips: packTrackClips(state.clips, trackId, ordered) };
+          }),
+          
+          selectClip: (clipId) => set({ selectedClipId: clipId, selectedKeyframeId: null }),
+          
+          clearClips: () => commit('Clear timeline', () => ({ clips: [], selectedClipId: null })),
+          
+          // Swap a track's clips for an auto-edit's cuts - and the captions for
+          // its lyrics, when given - as a single undoable step
+          applyAutoEdit: (trackId, clips, cues) => commit('Auto-edit to music', (state) => ({
+            clips: [...state.clips.filter(c => c.trackId !== trackId), ...clips],
+            selectedClipId: null,
+            selectedKeyframeId: null,
+            ...(cues ? { subtitleConfig: { ...state.subtitleConfig, cues: sortCues(cues) }, selectedCueId: null } : {}),
+          })),
+          
+          // Keyframes - times are seconds from the clip start
+          addKeyframe: (clipId, time) => {
+            const clip = get().clips.find(c => c.id === clipId);
+            if (!clip) return null;
+            // Snapshot the current values so adding a keyframe doesn't change the picture.
+            // Crop is left out unless it's already animated, as an animated crop
+            // renders as many short clips.
+            const { crop, ...transform } = getClipTransform(clip, time);
+            const values = clip.keyframes?.some(k => k.crop) ? { ...transform, crop } : transform;
+            const keyframes = upsertKeyframe(clip.keyframes ?? [], snapTime(time), values);
+            commit('Add keyframe', (state) => ({
+              clips: state.clips.map(c => c.id === clipId ? { ...c, keyframes } : c),
+            }));
+            const keyframe = keyframes.find(k => Math.abs(k.time - snapTime(time)) < 0.05);
+            set({ selectedKeyframeId: keyframe?.id ?? null });
+            return keyframe?.id ?? null;
+          },
+          
+          setKeyframeValues: (clipId, time, values) => commit('Edit keyframe', (state) => ({
+            clips: state.clips.map(c => 
+              c.id === clipId ? { ...c, keyframes: upsertKeyframe(c.keyframes ?? [], snapTime(time), values) } : c
+            ),
+          }), `keyframe-values:${clipId}:${String(time)}:${updateKey(values)}`),
+          
+          updateKeyframe: (clipId, keyframeId, updates) => commit('Edit keyframe', (state) => ({
+            clips: state.clips.map(c => 
+              c.id === clipId
+                ? {
+                  ...c,
+                  keyframes: (c.keyframes ?? [])
+                    .map(k => (k.id === keyframeId ? { ...k, ...updates } : k))
+                    .sort((a, b) => a.time - b.time),
+                }
+                : c
+            ),
+          }), `keyframe:${keyframeId}:${updateKey(updates)}`),
+          
+          removeKeyframe: (clipId, keyframeId) => commit('Remove keyframe', (state) => ({
+            clips: state.clips.map(c => 
+              c.id === clipId ? { ...c, keyframes: (c.keyframes ?? []).filter(k => k.id !== keyframeId) } : c
+            ),
+            selectedKeyframeId: state.selectedKeyframeId === keyframeId ? null : state.selectedKeyframeId,
+          })),
+          
+          clearKeyframes: (clipId) => commit('Clear keyframes', (state) => ({
+            clips: state.clips.map(c => c.id === clipId ? { ...c, keyframes: [] } : c),
+          })),
+          
+          applyKenBurns: (clipId, preset) => commit('Apply Ken Burns', (state) => ({
+            clips: state.clips.map(c => c.id === clipId ? { ...c, keyframes: applyKenBurns(c, preset) } : c),
+          })),
+          
+          selectKeyframe: (keyframeId) => set({ selectedKeyframeId: keyframeId }),
+          
+          // Audio
+          setAudioTrack: (track) => commit(
+            track ? 'Set background audio' : 'Remove background audio',
+            () => ({ audioTrack: track }),
+          ),
+          
+          updateAudioTrack: (updates) => commit('Edit background audio', (state) => ({
+            audioTrack: state.audioTrack ? { ...state.audioTrack, ...updates } : null
+          }), `audio:${updateKey(updates)}`),
+          
+          // Subtitles
+          updateSubtitleConfig: (updates) => commit('Edit subtitles', (state) => ({
+            subtitleConfig: { ...state.subtitleConfig, ...updates }
+          }), `subtitles:${updateKey(updates)}`),
+          
+          // Replaces the whole transcript, e.g. after transcribing or importing a file
+          setSubtitleCues: (cues, label) => commit(label, (state) => ({
+            subtitleConfig: { ...state.subtitleConfig, cues: sortCues(cues) },
+            selectedCueId: null,
+          })),
+          
+          // Clearing a cue's text removes the cue
+          setSubtitleCueText: (cueId, text) => editCues('Edit subtitle text', cues => cues.flatMap(c => {
+            if (c.id !== cueId) return [c];
+            const cue = setCueText(c, text);
+            return cue.words.length > 0 ? [cue] : [];
+          }), `cue-text:${cueId}`),
+          
+          retimeSubtitleCue: (cueId, start, end) => editCues('Retime subtitle', cues => sortCues(
+            cues.map(c => (c.id === cueId ? retimeCue(c, start, end) : c))
+          ), `cue-time:${cueId}`),
+          
+          splitSubtitleCue: (cueId, wordIndex) => editCues('Split subtitle', cues => splitCue(cues, cueId, wordIndex)),
+          
+          mergeSubtitleCueWithNext: (cueId) => editCues('Merge subtitles', cues => mergeCueWithNext(cues, cueId)),
+          
+          removeSubtitleCue: (cueId) => commit('Remove subtitle', (state) => ({
+            subtitleConfig: { ...state.subtitleConfig, cues: state.subtitleConfig.cues.filter(c => c.id !== cueId) },
+            selectedCueId: state.selectedCueId === cueId ? null : state.selectedCueId,
+          })),
+          
+          shiftSubtitleCues: (delta) => editCues('Shift subtitles', cues => shiftCues(cues, delta), 'cue-shift'),
+          
+          updateSubtitleWordStyle: (cueId, wordIndex, style) => editCues('Style subtitle word', cues => cues.map(c =>
+            c.id === cueId ? updateCueWordStyle(c, wordIndex, style) : c
+          ), `cue-word:${cueId}:${String(wordIndex)}:${updateKey(style)}`),
+          
+          selectCue: (cueId) => set({ selectedCueId: cueId }),
+          
+          // Output settings
+          updateOutputSettings: (updates) => commit('Edit output settings', (state) => ({
+            outputSettings: { ...state.outputSettings, ...updates }
+          }), `output:${updateKey(updates)}`),
+          
+          // Render state
+          setRenderStatus: (status) => set({ renderStatus: status }),
+          setRenderProgress: (progress) => set({ renderProgress: progress }),
+          setCurrentJobId: (jobId) => set({ currentJobId: jobId }),
+          setFinalVideoUrl: (url) => set({ finalVideoUrl: url }),
+          setErrorMessage: (message) => set({ errorMessage: message }),
+          
+          // Upload state
+          setIsUploading: (uploading) => set({ isUploading: uploading }),
+          setUploadProgress: (progress) => set({ uploadProgress: progress }),
+          
+          // History - restoring a document is itself a document change, so
+          // autosave picks it up like any other edit
+          undo: () => set((state) => {
+            const step = undoCommand(state.history);
+            if (!step) return {};
+            return {
+              ...step.entry.before,
+              history: step.history,
+              documentVersion: state.documentVersion + 1,
+              selectedClipId: keepSelection(state.selectedClipId, step.entry.before.clips),
             };
-            tracks.push(captionTrack);
-          }
-          
-          // If using audio track for captions, add it as a separate audio track with alias
-          if (useSoundtrackForCaptions) {
-            const audioAsset = state.assets.find(a => a.id === audioTrack!.assetId);
-            if (audioAsset) {
-              const audioClipTrack: ShotstackTrack = {
-                clips: [{
-                  asset: {
-                    type: 'audio' as any,
-                    src: audioAsset.url,
-                    volume: audioTrack!.volume,
-                  },
-                  start: 0,
-                  length: totalDuration > 0 ? totalDuration : audioAsset.duration || 'auto',
-                  alias: 'speech-source',
-                }] as any,
-              };
-              tracks.push(audioClipTrack);
-            }
-          }
-          
-          // Add main video/image track
-          tracks.push(mainTrack);
-          
-          const timeline: any = {
-            tracks,
-            background: outputSettings.backgroundColor,
-          };
+          }),
           
-          // Add soundtrack if present AND not using it for captions (avoid duplicate audio)
-          if (audioTrack && !useSoundtrackForCaptions) {
-            const audioAsset = state.assets.find(a => a.id === audioTrack.assetId);
-            if (audioAsset) {
-              timeline.soundtrack = {
-                src: audioAsset.url,
-                volume: audioTrack.volume,
-                effect: audioTrack.fadeIn && audioTrack.fadeOut 
-                  ? 'fadeInFadeOut' 
-                  : audioTrack.fadeIn 
-                    ? 'fadeIn' 
-                    : audioTrack.fadeOut 
-                      ? 'fadeOut' 
-                      : undefined,
-              };
-            }
-          }
-          
-          const dimensions = ASPECT_RATIO_DIMENSIONS[outputSettings.aspectRatio];
+          redo: () => set((state) => {
+            const step = redoCommand(state.history);
+            if (!step) return {};
+            return {
+              ...step.entry.after,
+              history: step.history,
+              documentVersion: state.documentVersion + 1,
+              selectedClipId: keepSelection(state.selectedClipId, step.entry.after.clips),
+            };
+          }),
           
-          return {
-            timeline,
-            output: {
-              format: 'mp4' as const,
-              aspectRatio: outputSettings.aspectRatio.replace(':', ':'),
-              fps: outputSettings.fps,
-              size: dimensions,
-            },
-          };
-        },
-        
-        // Reset
-        resetEditor: () => set(initialState),
-      }),
+          // Project
+          openProject: (project) => set((state) => ({
+            ...project.document,
+            history: EMPTY_HISTORY,
+            projectId: project.id,
+            projectName: project.name,
+            projectRevision: project.revision,
+            documentVersion: state.documentVersion + 1,
+            savedDocumentVersion: state.documentVersion + 1,
+            saveStatus: 'saved',
+            lastSavedAt: project.updatedAt,
+            selectedClipId: null,
+            currentJobId: null,
+            renderStatus: 'idle',
+            renderProgress: 0,
+            finalVideoUrl: null,
+            errorMessage: null,
+          })),
+          
+          setProjectSaved: (project, documentVersion) => set({
+            projectId: project.id,
+            projectName: project.name,
+            projectRevision: project.revision,
+            savedDocumentVersion: documentVersion,
+            saveStatus: 'saved',
+            lastSavedAt: project.updatedAt,
+          }),
+          
+          setProjectName: (name) => set({ projectName: name }),
+          
+          // Keep the document as an unsaved session, e.g. after its project was deleted
+          detachProject: () => set({
+            projectId: null,
+            projectName: initialState.projectName,
+            projectRevision: 0,
+            saveStatus: 'idle',
+            lastSavedAt: null,
+          }),
+          setSaveStatus: (status) => set({ saveStatus: status }),
+          
+          // Computed
+          getTotalDuration: () => getTimelineDuration(get().clips),
+          
+          getEstimatedCredits: () => getRenderCredits(get()),
+          
+          buildShotstackPayload: () => buildShotstackPayload(get()),
+          
+          // Reset - starts a new, unsaved session with empty history
+          resetEditor: () => set((state) => ({
+            ...initialState,
+            documentVersion: state.documentVersion + 1,
+            savedDocumentVersion: state.documentVersion + 1,
+          })),
+        };
+      },
       {
         name: 'video-editor-storage',
         partialize: (state) => ({
-          // Only persist output settings and subtitle config
+          // Persist output settings, subtitle config and the open project,
+          // which is reopened from the server on the next visit
           outputSettings: state.outputSettings,
           subtitleConfig: state.subtitleConfig,
+          projectId: state.projectId,
         }),
+        // Settings persisted before a field existed pick up its default
+        merge: (persisted, current) => {
+          const saved = persisted as Partial<VideoEditorState> | undefined;
+          return {
+            ...current,
+            ...saved,
+            outputSettings: { ...current.outputSettings, ...saved?.outputSettings },
+            subtitleConfig: { ...current.subtitleConfig, ...saved?.subtitleConfig },
+          };
+        },
       }
     ),
     { name: 'VideoEditorStore' }
@@ -0,0 +1,170 @@
+// Subject tracking for smart reframe - runs in the browser on a downscaled
+// copy of the video, so nothing but the resulting path goes to the server
+import { MAX_REFRAME_KEYFRAMES, type TrackingSample } from '@shared/reframe';
+
+// Width frames are analysed at; enough to find a subject, cheap to scan
+const ANALYSIS_WIDTH = 96;
+const SAMPLE_SECONDS = 0.5;
+// Per-pixel changes below this are sensor noise and compression
+const NOISE_FLOOR = 24;
+
+export interface SalientPoint {
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+const luma = (frame: Uint8ClampedArray, i: number): number =>
+  0.299 * frame[i * 4] + 0.587 * frame[i * 4 + 1] + 0.114 * frame[i * 4 + 2];
+
+/**
+ * Where the subject of an RGBA frame probably is: the centroid of motion
+ * since `previous` (weighted double) and of edges. Confidence falls as the
+ * activity spreads across the frame - a static, evenly textured shot gives
+ * nothing worth following.
+ */
+export function findSalientPoint(
+  frame: Uint8ClampedArray,
+  previous: Uint8ClampedArray | null,
+  width: number,
+  height: number
+): SalientPoint {
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = luma(frame, i);
+      const edge = Math.abs(luma(frame, i + 1) - value) + Math.abs(luma(frame, i + width) - value);
+      const motion = previous ? Math.abs(value - luma(previous, i)) : 0;
+      const weight = motion * 2 + edge;
+      if (weight < NOISE_FLOOR) continue;
+
+      const px = (x + 0.5) / width;
+      const py = (y + 0.5) / height;
+      total += weight;
+      sumX += weight * px;
+      sumY += weight * py;
+      sumXX += weight * px * px;
+      sumYY += weight * py * py;
+    }
+  }
+
+  if (total === 0) return { x: 0.5, y: 0.5, confidence: 0 };
+
+  const x = sumX / total;
+  const y = sumY / total;
+  // Activity spread evenly over the frame has a spread of about 0.41
+  const spread = Math.sqrt(Math.max(0, sumXX / total - x * x + sumYY / total - y * y));
+  return { x, y, confidence: Math.max(0, Math.min(1, 1 - spread * 2.5)) };
+}
+
+// Chromium's shape detection API; not in the DOM typings
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+  detect: (source: CanvasImageSource) => Promise<DetectedFace[]>;
+};
+
+export interface SubjectTrack {
+  samples: TrackingSample[];
+  duration: number;
+  width: number;
+  height: number;
+}
+
+interface TrackSubjectOptions {
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+const waitFor = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', failed);
+      resolve();
+    };
+    const failed = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', failed);
+      reject(new Error('Could not load the video for tracking'));
+    };
+    video.addEventListener(event, done);
+    video.addEventListener('error', failed);
+  });
+
+/**
+ * Sample the video at regular steps and locate the subject in each frame,
+ * using the browser's face detector where there is one and motion/edge
+ * saliency otherwise
+ */
+export async function trackSubject(src: string, { onProgress, signal }: TrackSubjectOptions = {}): Promise<SubjectTrack> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  const loaded = waitFor(video, 'loadedmetadata');
+  video.src = src;
+  await loaded;
+
+  const { duration, videoWidth, videoHeight } = video;
+  const width = ANALYSIS_WIDTH;
+  const height = Math.max(1, Math.round(ANALYSIS_WIDTH * videoHeight / videoWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available for tracking');
+
+  const FaceDetector = (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  const faceDetector = FaceDetector ? new FaceDetector({ fastMode: true, maxDetectedFaces: 3 }) : null;
+
+  // Long videos are sampled more sparsely so the path stays within the server's limit
+  const step = Math.max(SAMPLE_SECONDS, duration / (MAX_REFRAME_KEYFRAMES / 2));
+  const samples: TrackingSample[] = [];
+  let previous: Uint8ClampedArray | null = null;
+
+  for (let time = 0; time < duration; time += step) {
+    if (signal?.aborted) throw new DOMException('Tracking cancelled', 'AbortError');
+    const seeked = waitFor(video, 'seeked');
+    video.currentTime = time;
+    await seeked;
+
+    context.drawImage(video, 0, 0, width, height);
+    let frame: Uint8ClampedArray;
+    try {
+      frame = context.getImageData(0, 0, width, height).data;
+    } catch {
+      throw new Error('This video can\'t be analysed in the browser - place keyframes by hand instead');
+    }
+
+    let point = findSalientPoint(frame, previous, width, height);
+    if (faceDetector) {
+      // The biggest face is the subject; the face detector needs full resolution
+      const faces = await faceDetector.detect(video).catch(() => []);
+      const face = faces.sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height).at(0);
+      if (face) {
+        const box = face.boundingBox;
+        point = {
+          x: (box.x + box.width / 2) / videoWidth,
+          y: (box.y + box.height / 2) / videoHeight,
+          confidence: 1,
+        };
+      }
+    }
+
+    samples.push({ time, ...point });
+    previous = frame;
+    onProgress?.(Math.min(1, (time + step) / duration));
+  }
+
+  video.removeAttribute('src');
+  video.load();
+  return { samples, duration, width: videoWidth, height: videoHeight };
+}
@@ -0,0 +1,495 @@
+// Subtitle helpers - pure functions shared by the store, subtitle editor and payload builder
+import type { EditorDocument, SubtitleConfig, SubtitleCue, SubtitleStyle, SubtitleWord, SubtitleWordStyle } from './types';
+import type { TranscriptionSource } from '@shared/speech-transcription';
+import { getTimelineDuration } from './timeline';
+import { sortCues, type CaptionStyleSettings } from '@shared/render-payload';
+
+export type SubtitleFileFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_FILE_FORMATS: { value: SubtitleFileFormat; label: string; mimeType: string }[] = [
+  { value: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { value: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { value: 'ass', label: 'ASS', mimeType: 'text/x-ssa' },
+];
+
+export const SUBTITLE_STYLES: { value: SubtitleStyle; label: string; description: string }[] = [
+  { value: 'classic', label: 'Classic', description: 'Whole line, spoken word highlighted' },
+  { value: 'classic-progressive', label: 'Progressive', description: 'Words appear as they are spoken' },
+  { value: 'classic-one-word', label: 'One Word', description: 'Only the spoken word' },
+  { value: 'boxed-line', label: 'Boxed Line', description: 'Whole line on a box' },
+  { value: 'boxed-word', label: 'Boxed Word', description: 'Every word on its own box' },
+];
+
+export const MIN_CUE_DURATION = 0.2;
+
+// Splitting a transcript into cues: a pause this long starts a new cue, and
+// no cue runs longer than the maximum
+const CUE_PAUSE_SECONDS = 0.7;
+const MAX_CUE_SECONDS = 5;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const tokenize = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+export const getCueText = (cue: SubtitleCue): string => cue.words.map(w => w.text).join(' ');
+
+/**
+ * Time words across [start, end] in proportion to their length - for text
+ * that comes without word timings, like most subtitle files
+ */
+export const distributeWords = (texts: string[], start: number, end: number): SubtitleWord[] => {
+  // Count a space per word so short words still get a moment on screen
+  const weights = texts.map(text => text.length + 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let cursor = start;
+  return texts.map((text, i) => {
+    const wordStart = cursor;
+    cursor += ((end - start) * weights[i]) / total;
+    return { text, start: round(wordStart), end: round(i === texts.length - 1 ? end : cursor) };
+  });
+};
+
+export const createCue = (start: number, end: number, text: string): SubtitleCue => ({
+  id: crypto.randomUUID(),
+  start: round(start),
+  end: round(end),
+  words: distributeWords(tokenize(text), start, end),
+});
+
+/**
+ * Group transcribed words into cues of at most `maxWordsPerLine` words,
+ * breaking at pauses, sentence ends and long stretches of speech
+ */
+export const buildCuesFromWords = (
+  words: Pick<SubtitleWord, 'text' | 'start' | 'end'>[],
+  maxWordsPerLine: number,
+): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let current: SubtitleWord[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({ id: crypto.randomUUID(), start: current[0].start, end: current[current.length - 1].end, words: current });
+    current = [];
+  };
+
+  for (const word of [...words].sort((a, b) => a.start - b.start)) {
+    const text = word.text.trim();
+    if (!text) continue;
+    const previous = current.at(-1);
+    if (previous && (
+      current.length >= maxWordsPerLine ||
+      word.start - previous.end > CUE_PAUSE_SECONDS ||
+      word.end - current[0].start > MAX_CUE_SECONDS ||
+      /[.!?]$/.test(previous.text)
+    )) {
+      flush();
+    }
+    current.push({ text, start: round(word.start), end: round(Math.max(word.start, word.end)) });
+  }
+  flush();
+  return cues;
+};
+
+/**
+ * Everything audible that may carry speech, as transcription sources: the
+ * background audio plus the clips of unmuted audio tracks and the video clips
+ * of shown, unmuted visual tracks
+ */
+export const getTranscriptionSources = (
+  document: Pick<EditorDocument, 'assets' | 'tracks' | 'clips' | 'audioTrack'>,
+): TranscriptionSource[] => {
+  const { assets, tracks, clips, audioTrack } = document;
+  const sources: TranscriptionSource[] = [];
+
+  // The soundtrack plays from the start of the timeline for its whole length
+  const soundtrack = audioTrack && audioTrack.volume > 0 ? assets.find(a => a.id === audioTrack.assetId) : undefined;
+  const timelineDuration = getTimelineDuration(clips);
+  if (soundtrack && timelineDuration > 0) {
+    sources.push({
+      assetId: soundtrack.id,
+      start: 0,
+      trimStart: 0,
+      duration: round(Math.min(timelineDuration, soundtrack.duration ?? timelineDuration)),
+    });
+  }
+
+  for (const clip of [...clips].sort((a, b) => a.start - b.start)) {
+    const track = tracks.find(t => t.id === clip.trackId);
+    const asset = assets.find(a => a.id === clip.assetId);
+    if (!track || !asset || track.muted || track.volume === 0 || clip.volume === 0) continue;
+    const audible = asset.type === 'audio' || (asset.type === 'video' && !track.hidden);
+    if (!audible) continue;
+    sources.push({ assetId: asset.id, start: clip.start, trimStart: clip.trimStart, duration: clip.duration });
+  }
+  return sources;
+};
+
+// ─── Cue edits ───────────────────────────────────────────────────────────────
+
+/** Move and stretch a cue, taking its word timings with it */
+export const retimeCue = (cue: SubtitleCue, start: number, end: number): SubtitleCue => {
+  const newStart = Math.max(0, start);
+  const newEnd = Math.max(newStart + MIN_CUE_DURATION, end);
+  const scale = cue.end > cue.start ? (newEnd - newStart) / (cue.end - cue.start) : 0;
+  const map = (time: number) => round(newStart + (time - cue.start) * scale);
+  return {
+    ...cue,
+    start: round(newStart),
+    end: round(newEnd),
+    words: cue.words.map(w => ({ ...w, start: map(w.start), end: map(w.end) })),
+  };
+};
+
+/** Shift every cue by `delta` seconds, never earlier than the timeline start */
+export const shiftCues = (cues: SubtitleCue[], delta: number): SubtitleCue[] => {
+  if (cues.length === 0) return cues;
+  const offset = Math.max(delta, -Math.min(...cues.map(c => c.start)));
+  return cues.map(c => retimeCue(c, c.start + offset, c.end + offset));
+};
+
+/**
+ * Replace a cue's text. Corrections that keep the word count keep every
+ * word's timing and style; otherwise the words are re-timed across the cue.
+ */
+export const setCueText = (cue: SubtitleCue, text: string): SubtitleCue => {
+  const texts = tokenize(text);
+  if (texts.length === cue.words.length) {
+    return { ...cue, words: cue.words.map((w, i) => ({ ...w, text: texts[i] })) };
+  }
+  return { ...cue, words: distributeWords(texts, cue.start, cue.end) };
+};
+
+/** Restyle one word; a style with nothing set is dropped */
+export const updateCueWordStyle = (cue: SubtitleCue, wordIndex: number, style: SubtitleWordStyle): SubtitleCue => ({
+  ...cue,
+  words: cue.words.map((w, i) => {
+    if (i !== wordIndex) return w;
+    const merged = { ...w.style, ...style };
+    if (merged.color || merged.bold || merged.italic) return { ...w, style: merged };
+    return { text: w.text, start: w.start, end: w.end };
+  }),
+});
+
+/** Split a cue in two before the given word */
+export const splitCue = (cues: SubtitleCue[], cueId: string, wordIndex: number): SubtitleCue[] => {
+  const cue = cues.find(c => c.id === cueId);
+  if (!cue || wordIndex <= 0 || wordIndex >= cue.words.length) return cues;
+  const at = cue.words[wordIndex].start;
+  const first: SubtitleCue = { ...cue, end: at, words: cue.words.slice(0, wordIndex) };
+  const second: SubtitleCue = { id: crypto.randomUUID(), start: at, end: cue.end, words: cue.words.slice(wordIndex) };
+  return cues.flatMap(c => (c.id === cueId ? [first, second] : [c]));
+};
+
+/** Merge a cue with the one that follows it */
+export const mergeCueWithNext = (cues: SubtitleCue[], cueId: string): SubtitleCue[] => {
+  const sorted = sortCues(cues);
+  const index = sorted.findIndex(c => c.id === cueId);
+  if (index === -1 || index === sorted.length - 1) return cues;
+  const cue = sorted[index];
+  const next = sorted[index + 1];
+  const merged: SubtitleCue = { ...cue, end: Math.max(cue.end, next.end), words: [...cue.words, ...next.words] };
+  return sorted.filter(c => c.id !== next.id).map(c => (c.id === cueId ? merged : c));
+};
+
+// ─── Burn-in ─────────────────────────────────────────────────────────────────
+
+// Caption frames are part of the shared render model, see shotstack.ts
+export { getCaptionFrames, sortCues, type CaptionFrame, type CaptionStyleSettings, type CaptionWord } from '@shared/render-payload';
+
+// ─── Subtitle files ──────────────────────────────────────────────────────────
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.round(Math.max(0, seconds) * 1000);
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// H:MM:SS.cc
+const formatAssTimestamp = (seconds: number): string => {
+  const cs = Math.round(Math.max(0, seconds) * 100);
+  return `${String(Math.floor(cs / 360000))}:${pad(Math.floor(cs / 6000) % 60)}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+};
+
+// Any of the above, hours optional
+const parseTimestamp = (value: string | undefined): number | null => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction = ''] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+// Drop HTML-style tags and ASS override blocks some SRT files carry
+const stripMarkup = (text: string): string => decodeEntities(text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, ''));
+
+/**
+ * Cue text that may carry WebVTT word timestamps (`Hello <00:00:01.500>world`).
+ * Timed stretches keep their timing, the rest is spread evenly.
+ */
+const parseTimedText = (text: string, start: number, end: number): SubtitleCue => {
+  const parts = text.split(/<(\d[\d:.]*)>/);
+  if (parts.length === 1) return createCue(start, end, stripMarkup(text));
+
+  const words: SubtitleWord[] = [];
+  let segmentStart = start;
+  for (let i = 0; i < parts.length; i += 2) {
+    const segmentEnd = i + 1 < parts.length ? parseTimestamp(parts[i + 1]) ?? end : end;
+    words.push(...distributeWords(tokenize(stripMarkup(parts[i])), segmentStart, Math.max(segmentStart, segmentEnd)));
+    segmentStart = Math.max(segmentStart, segmentEnd);
+  }
+  return { id: crypto.randomUUID(), start: round(start), end: round(end), words };
+};
+
+// SRT and WebVTT share the block layout: optional id, timing line, text lines
+const parseBlocks = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const block of content.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE and STYLE blocks
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    // WebVTT cue settings follow the end time
+    const end = parseTimestamp(endText.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) continue;
+    const cue = parseTimedText(lines.slice(timingIndex + 1).join(' '), start, end);
+    if (cue.words.length > 0) cues.push(cue);
+  }
+  return cues;
+};
+
+// '#RRGGBB' <-> ASS colours: '&HBBGGRR' inline, '&HAABBGGRR' in styles
+const toAssBgr = (hex: string): string => {
+  const rgb = hex.replace('#', '').padEnd(6, '0').toUpperCase();
+  return `${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`;
+};
+
+const toAssColor = (hex: string, alpha = 0): string =>
+  `&H${alpha.toString(16).toUpperCase().padStart(2, '0')}${toAssBgr(hex)}`;
+
+const fromAssColor = (value: string): string | undefined => {
+  const bgr = /&H([0-9a-f]+)&?/i.exec(value)?.[1].padStart(6, '0').slice(-6);
+  return bgr ? `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toUpperCase() : undefined;
+};
+
+/**
+ * A Dialogue line's text: karaoke tags (`\k`, `\kf`, `\ko`, `\K`, in
+ * centiseconds) give word timings, bold/italic/colour overrides become word
+ * styles and `\r` resets them
+ */
+const parseAssText = (text: string, start: number, end: number): SubtitleCue => {
+  const words: SubtitleWord[] = [];
+  const segments: { text: string; duration: number | null; style: SubtitleWordStyle }[] = [];
+  let style: SubtitleWordStyle = {};
+  let karaoke = false;
+  let duration: number | null = null;
+
+  // A karaoke span without words (a pause) still moves the words after it
+  const pushText = (chunk: string) => {
+    const cleaned = chunk.replace(/\\[Nnh]/g, ' ');
+    if (cleaned.trim() || duration !== null) segments.push({ text: cleaned, duration, style: { ...style } });
+    duration = null;
+  };
+
+  // Either an override block or a run of text, which is never empty
+  for (const [, tags, chunk] of text.matchAll(/\{([^}]*)\}|([^{]+)/g)) {
+    if (chunk) {
+      pushText(chunk);
+      continue;
+    }
+    for (const [, name, arg] of tags.matchAll(/\\(kf|ko|k|K|b|i|1c|c|r)([^\\]*)/g)) {
+      if (name === 'kf' || name === 'ko' || name === 'k' || name === 'K') {
+        if (duration !== null) pushText('');
+        karaoke = true;
+        duration = Number(arg) / 100;
+      } else if (name === 'b') {
+        style = { ...style, bold: arg !== '0' };
+      } else if (name === 'i') {
+        style = { ...style, italic: arg !== '0' };
+      } else if (name === 'c' || name === '1c') {
+        style = { ...style, color: arg ? fromAssColor(arg) : undefined };
+      } else {
+        style = {};
+      }
+    }
+  }
+
+  const withStyle = (word: SubtitleWord, wordStyle: SubtitleWordStyle): SubtitleWord => {
+    const defined = Object.fromEntries(Object.entries(wordStyle).filter(([, v]) => v !== undefined && v !== false));
+    return Object.keys(defined).length > 0 ? { ...word, style: defined } : word;
+  };
+
+  if (!karaoke) {
+    // Spread the words, keeping each chunk's style
+    const texts = segments.flatMap(segment => tokenize(segment.text).map(t => ({ text: t, style: segment.style })));
+    distributeWords(texts.map(t => t.text), start, end).forEach((word, i) => words.push(withStyle(word, texts[i].style)));
+  } else {
+    let cursor = start;
+    for (const segment of segments) {
+      const segmentEnd = Math.min(end, cursor + (segment.duration ?? 0));
+      for (const word of distributeWords(tokenize(segment.text), cursor, Math.max(cursor, segmentEnd))) {
+        words.push(withStyle(word, segment.style));
+      }
+      cursor = segmentEnd;
+    }
+  }
+  return { id: crypto.randomUUID(), start: round(start), end: round(end), words };
+};
+
+const parseAss = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let fields: string[] = [];
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    if (/^\[.*\]$/.test(trimmed)) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+    if (/^format:/i.test(trimmed)) {
+      fields = trimmed.slice('format:'.length).split(',').map(f => f.trim().toLowerCase());
+      continue;
+    }
+    if (!/^dialogue:/i.test(trimmed) || fields.length === 0) continue;
+
+    // Text is the last field and may itself contain commas
+    const values = trimmed.slice('dialogue:'.length).split(',');
+    const field = (name: string): string => {
+      const index = fields.indexOf(name);
+      if (index === -1) return '';
+      return index === fields.length - 1 ? values.slice(index).join(',') : values[index]?.trim() ?? '';
+    };
+    const start = parseTimestamp(field('start'));
+    const end = parseTimestamp(field('end'));
+    if (start === null || end === null || end <= start) continue;
+    const cue = parseAssText(field('text'), start, end);
+    if (cue.words.length > 0) cues.push(cue);
+  }
+  return cues;
+};
+
+/** Guess a subtitle file's format from its name, then its content */
+export const detectSubtitleFormat = (content: string, fileName = ''): SubtitleFileFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'ass' || extension === 'ssa') return 'ass';
+  if (extension === 'srt') return 'srt';
+  if (/^\uFEFF?WEBVTT/.test(content)) return 'vtt';
+  return /^\s*\[script info\]/im.test(content) ? 'ass' : 'srt';
+};
+
+/** Read cues from an SRT, WebVTT or ASS file */
+export const parseSubtitles = (content: string, format: SubtitleFileFormat): SubtitleCue[] =>
+  sortCues(format === 'ass' ? parseAss(content) : parseBlocks(content));
+
+// Caption style and frame size an ASS export is laid out for
+export type AssExportSettings = CaptionStyleSettings & Pick<
+  SubtitleConfig,
+  'fontSize' | 'outlineColor' | 'outlineWidth' | 'position'
+> & { width: number; height: number };
+
+const ASS_ALIGNMENT: Record<SubtitleConfig['position'], number> = { bottom: 2, center: 5, top: 8 };
+
+const assWordText = (word: SubtitleWord, allCaps: boolean): string => {
+  const text = (allCaps ? word.text.toUpperCase() : word.text).replace(/[{}]/g, '');
+  const { style } = word;
+  if (!style || (!style.color && !style.bold && !style.italic)) return text;
+  const tags = [
+    style.bold ? '\\b1' : '',
+    style.italic ? '\\i1' : '',
+    style.color ? `\\c&H${toAssBgr(style.color)}&` : '',
+  ].join('');
+  return `{${tags}}${text}{\\r}`;
+};
+
+const toAss = (cues: SubtitleCue[], settings: AssExportSettings): string => {
+  const { style } = settings;
+  const boxed = style === 'boxed-line' || style === 'boxed-word' || settings.showBackground;
+  // Karaoke fills words in the primary colour as they are spoken: highlight
+  // styles fill with the highlight colour, progressive ones reveal unsung
+  // (fully transparent) words
+  const karaoke = style === 'classic' || style === 'boxed-word' || style === 'classic-progressive';
+  const primary = style === 'classic-progressive' ? settings.fontColor : settings.highlightColor;
+  const secondary = style === 'classic-progressive' ? toAssColor(settings.fontColor, 0xFF) : toAssColor(settings.fontColor);
+  const boxColor = toAssColor(settings.backgroundColor);
+
+  const styleLine = [
+    'Default', 'Arial', settings.fontSize,
+    toAssColor(karaoke ? primary : settings.fontColor), secondary,
+    boxed ? boxColor : toAssColor(settings.outlineColor), boxed ? boxColor : toAssColor('#000000', 0x80),
+    0, 0, 0, 0, 100, 100, 0, 0,
+    boxed ? 3 : 1, boxed ? Math.max(4, settings.outlineWidth) : settings.outlineWidth, 0,
+    ASS_ALIGNMENT[settings.position], 40, 40, Math.round(settings.height * 0.06), 1,
+  ].join(',');
+
+  const dialogue = (start: number, end: number, text: string) =>
+    `Dialogue: 0,${formatAssTimestamp(start)},${formatAssTimestamp(end)},Default,,0,0,0,,${text}`;
+
+  const events = sortCues(cues).flatMap((cue) => {
+    if (style === 'classic-one-word') {
+      return cue.words.map((word, i) =>
+        dialogue(word.start, cue.words[i + 1]?.start ?? cue.end, assWordText(word, settings.allCaps)));
+    }
+    if (!karaoke) {
+      return [dialogue(cue.start, cue.end, cue.words.map(w => assWordText(w, settings.allCaps)).join(' '))];
+    }
+    // Each word's karaoke span runs until the next word starts
+    let cursor = cue.start;
+    const text = cue.words.map((word, i) => {
+      const lead = Math.round((word.start - cursor) * 100);
+      const next = cue.words[i + 1]?.start ?? cue.end;
+      cursor = next;
+      return `${lead > 0 ? `{\\k${String(lead)}}` : ''}{\\k${String(Math.max(0, Math.round((next - word.start) * 100)))}}${assWordText(word, settings.allCaps)}`;
+    }).join(' ');
+    return [dialogue(cue.start, cue.end, text)];
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${String(settings.width)}`,
+    `PlayResY: ${String(settings.height)}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+/**
+ * Write cues as an SRT, WebVTT or ASS file. WebVTT keeps word timings as
+ * inline timestamps; ASS also carries the burn-in style.
+ */
+export const serializeSubtitles = (
+  cues: SubtitleCue[],
+  format: SubtitleFileFormat,
+  settings: AssExportSettings,
+): string => {
+  const sorted = sortCues(cues).filter(c => c.words.length > 0);
+  if (format === 'ass') return toAss(sorted, settings);
+  if (format === 'srt') {
+    return sorted
+      .map((cue, i) => `${String(i + 1)}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${getCueText(cue)}\n`)
+      .join('\n');
+  }
+  const blocks = sorted.map((cue) => {
+    const text = cue.words
+      .map((word, i) => (i === 0 || word.start <= cue.start ? word.text : `<${formatTimestamp(word.start, '.')}>${word.text}`))
+      .join(' ');
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}\n`;
+  });
+  return ['WEBVTT\n', ...blocks].join('\n');
+};
@@ -0,0 +1,68 @@
+// Timeline helpers - pure functions shared by the store, timeline UI and payload builder
+import { Clip, MediaAsset, MediaType, TimelineTrack, TrackType } from './types';
+import { getTimelineDuration, getTrackClips } from '@shared/render-payload';
+
+export { clipEnd, getTimelineDuration, getTrackClips } from '@shared/render-payload';
+
+export const MIN_CLIP_DURATION = 0.5;
+export const TIMELINE_SNAP_SECONDS = 0.1;
+
+export const DEFAULT_TRACKS: TimelineTrack[] = [
+  { id: 'video-1', type: 'visual', name: 'Video 1', volume: 1, muted: false, hidden: false },
+  { id: 'audio-1', type: 'audio', name: 'Audio 1', volume: 1, muted: false, hidden: false },
+];
+
+export const trackTypeForMedia = (mediaType: MediaType): TrackType =>
+  mediaType === 'audio' ? 'audio' : 'visual';
+
+// Round to the timeline grid, avoiding float drift like 2.3000000000000003
+export const snapTime = (seconds: number): number =>
+  Math.max(0, Math.round(seconds / TIMELINE_SNAP_SECONDS) / (1 / TIMELINE_SNAP_SECONDS));
+
+// Where a clip appended to a track starts: right after the track's last clip
+export const getTrackEnd = (clips: Clip[], trackId: string): number =>
+  getTimelineDuration(clips.filter(c => c.trackId === trackId));
+
+// A clip showing a whole asset with the default settings
+export const createClip = (asset: MediaAsset, trackId: string, start: number): Clip => ({
+  id: crypto.randomUUID(),
+  assetId: asset.id,
+  asset,
+  trackId,
+  start,
+  duration: asset.duration || 5,
+  trimStart: 0,
+  transitionIn: 'none',
+  transitionOut: 'none',
+  transitionDuration: 0.5,
+  volume: 1,
+  fit: 'cover',
+  position: { x: 0.5, y: 0.5 },
+  scale: 1,
+});
+
+export const createTrack = (type: TrackType, existing: TimelineTrack[]): TimelineTrack => {
+  const count = existing.filter(t => t.type === type).length + 1;
+  return {
+    id: crypto.randomUUID(),
+    type,
+    name: `${type === 'visual' ? 'Video' : 'Audio'} ${String(count)}`,
+    volume: 1,
+    muted: false,
+    hidden: false,
+  };
+};
+
+// Lay a track's clips back to back in the given order, starting where its first clip was
+export const packTrackClips = (clips: Clip[], trackId: string, orderedIds: string[]): Clip[] => {
+  const trackClips = getTrackClips(clips, trackId);
+  let cursor = trackClips.length > 0 ? trackClips[0].start : 0;
+  const starts = new Map<string, number>();
+  for (const id of orderedIds) {
+    const clip = trackClips.find(c => c.id === id);
+    if (!clip) continue;
+    starts.set(id, cursor);
+    cursor += clip.duration;
+  }
+  return clips.map(c => starts.has(c.id) ? { ...c, start: starts.get(c.id)! } : c);
+};
@@ -1,14 +1,38 @@
 // Video Editor Types - Completely isolated from existing video generation types
-
-export type MediaType = 'video' | 'image' | 'audio';
-
-export interface MediaAsset {
-  id: string;
-  type: MediaType;
+import type { SubtitleSettings } from '@/types/subtitle';
+import type { ReframeKeyframe } from '@shared/reframe';
+import type { EditorAsset, EditorAudioTrack, EditorClip, EditorSubtitleConfig, OutputSettings, TimelineTrack } from '@shared/render-payload';
+
+export type { ExportFormat, ExportOptions, GifOptions } from '@shared/export-formats';
+
+// The render model is shared with render-video-editor, see shotstack.ts
+export type {
+  AnimatableProperty,
+  AspectRatio,
+  ClipKeyframe,
+  ClipTransform,
+  CropRect,
+  Easing,
+  MediaType,
+  OutputSettings,
+  ShotstackClip,
+  ShotstackPayload,
+  ShotstackTimeline,
+  ShotstackTrack,
+  ShotstackTween,
+  SubtitleCue,
+  SubtitleMode,
+  SubtitleWord,
+  SubtitleWordStyle,
+  TimelineTrack,
+  TrackType,
+  TransitionType,
+} from '@shared/render-payload';
+export { ASPECT_RATIO_DIMENSIONS } from '@shared/render-payload';
+
+export interface MediaAsset extends EditorAsset {
   name: string;
-  url: string;
   thumbnailUrl?: string;
-  duration?: number; // in seconds, for video/audio
   width?: number;
   height?: number;
   size: number; // bytes
@@ -17,71 +41,25 @@ export interface MediaAsset {
   uploadedAt: string;
 }
 
-export interface Clip {
-  id: string;
-  assetId: string;
+export interface Clip extends EditorClip {
   asset?: MediaAsset;
-  duration: number; // in seconds
-  trimStart: number; // trim from start in seconds
-  transitionIn?: TransitionType;
-  transitionOut?: TransitionType;
-  transitionDuration: number; // in seconds
-  volume: number; // 0-1
-  fit: 'cover' | 'contain' | 'crop' | 'none';
-  position: { x: number; y: number }; // 0-1 relative position
-  scale: number; // 1 = 100%
 }
 
-export type TransitionType = 
-  | 'none'
-  | 'fade'
-  | 'fadeToBlack'
-  | 'fadeToWhite'
-  | 'slideLeft'
-  | 'slideRight'
-  | 'slideUp'
-  | 'slideDown'
-  | 'zoom'
-  | 'wipeLeft'
-  | 'wipeRight';
-
-export interface AudioTrack {
-  id: string;
-  assetId: string;
+export type KenBurnsPreset = 'zoomIn' | 'zoomOut' | 'panLeft' | 'panRight' | 'panUp' | 'panDown' | 'zoomInPanRight';
+
+export interface AudioTrack extends EditorAudioTrack {
   asset?: MediaAsset;
-  volume: number; // 0-1
-  fadeIn: boolean;
-  fadeOut: boolean;
-  fadeInDuration: number; // seconds
-  fadeOutDuration: number; // seconds
-  trimStart: number; // seconds
-  trimEnd?: number; // seconds, undefined = until end
-  loop: boolean;
 }
 
-export type SubtitleMode = 'none' | 'auto' | 'upload';
+// Burn-in styles, shared with the storyboard subtitle settings
+export type SubtitleStyle = SubtitleSettings['style'];
 
-export interface SubtitleConfig {
-  mode: SubtitleMode;
-  fontSize: number; // 12-72
-  fontColor: string; // hex
-  backgroundColor: string; // hex
-  showBackground: boolean;
-  position: 'top' | 'center' | 'bottom';
+export interface SubtitleConfig extends EditorSubtitleConfig {
+  style: SubtitleStyle;
   srtFile?: File;
   srtContent?: string;
 }
 
-export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '21:9';
-
-export interface OutputSettings {
-  aspectRatio: AspectRatio;
-  format: 'mp4'; // Only MP4 for MVP
-  backgroundColor: string; // hex
-  fps: 25 | 30 | 60;
-  quality: 'sd' | 'hd' | '4k';
-}
-
 export type RenderStatus = 
   | 'idle'
   | 'uploading'
@@ -92,14 +70,28 @@ export type RenderStatus =
   | 'done'
   | 'failed';
 
+// Where a render runs: Shotstack's cloud or the self-hosted FFmpeg worker.
+// 'auto' lets the server use FFmpeg when the edit only needs what it supports.
+export type RenderBackend = 'shotstack' | 'ffmpeg';
+export type RenderBackendChoice = RenderBackend | 'auto';
+
+// 'reframe' jobs re-render a finished video at another aspect ratio
+export type VideoEditorJobType = 'render' | 'reframe';
+
 export interface VideoEditorJob {
   id: string;
   user_id: string;
   status: RenderStatus;
   clips: Clip[];
+  tracks?: TimelineTrack[];
   audio_track: AudioTrack | null;
   subtitle_config: SubtitleConfig | null;
   output_settings: OutputSettings;
+  render_backend: RenderBackend;
+  job_type: VideoEditorJobType;
+  source_generation_id: string | null;
+  source_job_id: string | null;
+  reframe_path: ReframeKeyframe[] | null;
   shotstack_render_id: string | null;
   final_video_url: string | null;
   total_duration: number;
@@ -109,12 +101,14 @@ export interface VideoEditorJob {
   updated_at: string;
 }
 
-// Store state interface
-export interface VideoEditorState {
+// The part of the editor state that makes up a project - what undo/redo
+// restores and what gets saved to the server
+export interface EditorDocument {
   // Media assets
   assets: MediaAsset[];
   
-  // Clip sequence
+  // Timeline tracks and the clips placed on them
+  tracks: TimelineTrack[];
   clips: Clip[];
   
   // Background audio
@@ -125,6 +119,52 @@ export interface VideoEditorState {
   
   // Output settings
   outputSettings: OutputSettings;
+}
+
+// One undoable command
+export interface HistoryEntry {
+  label: string; // e.g. "Move clip", shown in the undo/redo tooltips
+  before: EditorDocument;
+  after: EditorDocument;
+  mergeKey?: string; // consecutive commands with the same key merge into one step
+  at: number; // ms timestamp
+}
+
+export interface EditorHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type ProjectSaveStatus = 'idle' | 'saving' | 'saved' | 'conflict' | 'error';
+
+// Server-side project as listed in the projects dialog
+export interface VideoEditorProjectSummary {
+  id: string;
+  name: string;
+  revision: number;
+  totalDuration: number;
+  thumbnailUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VideoEditorProject extends VideoEditorProjectSummary {
+  document: EditorDocument;
+}
+
+// Store state interface
+export interface VideoEditorState extends EditorDocument {
+  // Undo/redo
+  history: EditorHistory;
+  
+  // Open server-side project (null until the session is saved as a project)
+  projectId: string | null;
+  projectName: string;
+  projectRevision: number; // revision the local document is based on
+  documentVersion: number; // bumped on every document change
+  savedDocumentVersion: number; // documentVersion at the last save or load
+  saveStatus: ProjectSaveStatus;
+  lastSavedAt: string | null;
   
   // Render state
   currentJobId: string | null;
@@ -135,74 +175,13 @@ export interface VideoEditorState {
   
   // UI state
   selectedClipId: string | null;
+  selectedKeyframeId: string | null;
+  selectedCueId: string | null;
   isUploading: boolean;
   uploadProgress: number;
 }
 
-// Shotstack payload types for building render requests
-export interface ShotstackClip {
-  asset: {
-    type: 'video' | 'image' | 'audio';
-    src: string;
-    volume?: number;
-    trim?: number;
-    crop?: {
-      top: number;
-      bottom: number;
-      left: number;
-      right: number;
-    };
-  };
-  start: number;
-  length: number;
-  transition?: {
-    in?: string;
-    out?: string;
-  };
-  fit?: 'cover' | 'contain' | 'crop' | 'none';
-  position?: 'center' | 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
-  scale?: number;
-}
-
-export interface ShotstackTrack {
-  clips: ShotstackClip[];
-}
-
-export interface ShotstackTimeline {
-  tracks: ShotstackTrack[];
-  background?: string;
-  soundtrack?: {
-    src: string;
-    effect?: 'fadeIn' | 'fadeOut' | 'fadeInFadeOut';
-    volume?: number;
-  };
-}
-
-export interface ShotstackPayload {
-  timeline: ShotstackTimeline;
-  output: {
-    format: 'mp4';
-    resolution?: 'sd' | 'hd' | '4k'; // Optional - mutually exclusive with size
-    aspectRatio: string;
-    fps: number;
-    size?: {
-      width: number;
-      height: number;
-    };
-  };
-}
-
-// Credit calculation constants
-export const CREDITS_PER_SECOND = 0.5;
+// Credit calculation constants - per-format rates live in exportFormats.ts
 export const MAX_FILE_SIZE_MB = 500;
 export const MAX_FILES = 10;
 export const MAX_VIDEO_DURATION_MINUTES = 10;
-
-// Aspect ratio dimensions
-export const ASPECT_RATIO_DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
-  '16:9': { width: 1920, height: 1080 },
-  '9:16': { width: 1080, height: 1920 },
-  '1:1': { width: 1080, height: 1080 },
-  '4:5': { width: 1080, height: 1350 },
-  '21:9': { width: 2560, height: 1080 },
-};
@@ -0,0 +1,76 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchTemplateVersions,
+  fetchTemplateVersionStats,
+  publishTemplateVersion,
+  rollbackTemplateVersion,
+  discardTemplateDraft,
+  type TemplateVersion,
+} from '@/lib/admin/template-versions';
+
+/**
+ * Version history of a workflow template with publish, rollback and discard
+ * operations that refresh the history and the admin template list
+ * @param templateId - The workflow template id (disabled when null)
+ */
+export function useTemplateVersions(templateId: string | null) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['template-versions', templateId],
+    queryFn: () => fetchTemplateVersions(templateId as string),
+    enabled: !!templateId,
+  });
+
+  const invalidate = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['template-versions', templateId] }),
+      queryClient.invalidateQueries({ queryKey: ['all-templates-admin'] }),
+      queryClient.invalidateQueries({ queryKey: ['template-version-stats'] }),
+    ]);
+  };
+
+  /**
+   * Publish a draft
+   */
+  const publish = async (version: TemplateVersion) => {
+    await publishTemplateVersion(version);
+    await invalidate();
+  };
+
+  /**
+   * Roll back to an earlier version with confirmation
+   */
+  const rollback = async (version: TemplateVersion) => {
+    await rollbackTemplateVersion(version);
+    await invalidate();
+  };
+
+  /**
+   * Discard a draft with confirmation
+   */
+  const discard = async (version: TemplateVersion) => {
+    await discardTemplateDraft(version);
+    await invalidate();
+  };
+
+  return {
+    versions: query.data ?? [],
+    isLoading: query.isLoading,
+    refetch: invalidate,
+    publish,
+    rollback,
+    discard,
+  };
+}
+
+/**
+ * Execution outcomes per template version
+ * @param templateId - Limit to one template; all templates when omitted
+ */
+export function useTemplateVersionStats(templateId?: string) {
+  return useQuery({
+    queryKey: ['template-version-stats', templateId ?? 'all'],
+    queryFn: () => fetchTemplateVersionStats(templateId),
+  });
+}
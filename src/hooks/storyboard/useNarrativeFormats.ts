@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  listNarrativeFormats,
+  toNarrativeFormat,
+  type NarrativeFormat,
+  type NarrativeFormatRow,
+} from '@shared/narrative-formats';
+
+/**
+ * Narrative formats a storyboard can be written in: the built-ins plus the
+ * active formats admins added
+ */
+export const useNarrativeFormats = () => {
+  const { data: custom = [], isLoading } = useQuery({
+    queryKey: ['narrative-formats'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('narrative_formats')
+        .select('id, name, description, definition')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data as NarrativeFormatRow[]).flatMap((row): NarrativeFormat[] => {
+        const format = toNarrativeFormat(row);
+        return format ? [format] : [];
+      });
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const formats = useMemo(() => listNarrativeFormats(custom), [custom]);
+
+  return { formats, isLoading };
+};
@@ -0,0 +1,170 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { logger } from '@/lib/logger';
+import { toCastMember, type CastMember } from '@shared/storyboard-cast';
+
+export type CastMemberInput = Omit<CastMember, 'id'>;
+
+interface ConsistencyCheckResult {
+  checked: number;
+  drifted: string[];
+  tokensUsed: number;
+}
+
+/**
+ * Cast and style bible of the current storyboard, and the consistency
+ * check that flags scenes drifting from it
+ */
+export const useStoryboardCast = (currentStoryboardId: string | null) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: cast = [], isLoading } = useQuery({
+    queryKey: ['storyboard-cast', currentStoryboardId],
+    queryFn: async () => {
+      if (!currentStoryboardId) return [];
+
+      const { data, error } = await supabase
+        .from('storyboard_cast')
+        .select('id, kind, name, aliases, description, reference_image_urls, seed')
+        .eq('storyboard_id', currentStoryboardId)
+        .order('order_number', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data.map(toCastMember);
+    },
+    enabled: !!currentStoryboardId,
+  });
+
+  const saveCastMemberMutation = useMutation({
+    mutationFn: async ({ id, member }: { id?: string; member: CastMemberInput }) => {
+      if (!currentStoryboardId || !user) throw new Error('No storyboard selected');
+
+      const fields = {
+        kind: member.kind,
+        name: member.name.trim(),
+        aliases: member.aliases,
+        description: member.description.trim(),
+        reference_image_urls: member.referenceImageUrls,
+        seed: member.seed,
+      };
+
+      const { error } = id
+        ? await supabase.from('storyboard_cast').update(fields).eq('id', id)
+        : await supabase.from('storyboard_cast').insert({
+            ...fields,
+            storyboard_id: currentStoryboardId,
+            user_id: user.id,
+            order_number: cast.length,
+          });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['storyboard-cast', currentStoryboardId] });
+    },
+    onError: (error: Error) => {
+      logger.error('Save cast member failed', error, {
+        component: 'useStoryboardCast',
+        operation: 'saveCastMemberMutation',
+        storyboardId: currentStoryboardId
+      });
+      toast.error('Failed to save cast member');
+    },
+  });
+
+  const removeCastMemberMutation = useMutation({
+    mutationFn: async (castId: string) => {
+      const { error } = await supabase
+        .from('storyboard_cast')
+        .delete()
+        .eq('id', castId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['storyboard-cast', currentStoryboardId] });
+    },
+    onError: (error: Error, castId) => {
+      logger.error('Remove cast member failed', error, {
+        component: 'useStoryboardCast',
+        operation: 'removeCastMemberMutation',
+        castId
+      });
+      toast.error('Failed to remove cast member');
+    },
+  });
+
+  const checkConsistencyMutation = useMutation({
+    mutationFn: async (): Promise<ConsistencyCheckResult> => {
+      const { data, error } = await supabase.functions.invoke('check-storyboard-consistency', {
+        body: { storyboardId: currentStoryboardId },
+      });
+
+      if (error) throw error;
+      return data as ConsistencyCheckResult;
+    },
+    onSuccess: (result) => {
+      void queryClient.invalidateQueries({ queryKey: ['storyboard-scenes', currentStoryboardId] });
+
+      if (result.checked === 0) {
+        toast.info('No scene images show cast members yet');
+      } else if (result.drifted.length === 0) {
+        toast.success(`All ${String(result.checked)} checked scenes match the cast`);
+      } else {
+        toast.warning(`${String(result.drifted.length)} of ${String(result.checked)} scenes drift from the cast`);
+      }
+    },
+    onError: (error: Error) => {
+      logger.error('Consistency check failed', error, {
+        component: 'useStoryboardCast',
+        operation: 'checkConsistencyMutation',
+        storyboardId: currentStoryboardId
+      });
+      toast.error('Failed to check scene consistency');
+    },
+  });
+
+  // Reference images go to public storage so providers can fetch them
+  const uploadReferenceImage = useCallback(async (file: File): Promise<string> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const fileExt = file.name.split('.').pop();
+    const filePath = `${user.id}/storyboard-cast/${String(Date.now())}.${fileExt ?? 'png'}`;
+
+    const { error } = await supabase.storage
+      .from('generated-content')
+      .upload(filePath, file);
+
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('generated-content')
+      .getPublicUrl(filePath);
+
+    return publicUrl;
+  }, [user]);
+
+  const saveCastMember = useCallback((member: CastMemberInput, id?: string) => {
+    return saveCastMemberMutation.mutateAsync({ id, member });
+  }, [saveCastMemberMutation]);
+
+  const removeCastMember = useCallback((castId: string) => {
+    removeCastMemberMutation.mutate(castId);
+  }, [removeCastMemberMutation]);
+
+  return {
+    cast,
+    isLoading,
+    saveCastMember,
+    isSavingCast: saveCastMemberMutation.isPending,
+    removeCastMember,
+    uploadReferenceImage,
+    checkConsistency: checkConsistencyMutation.mutate,
+    isCheckingConsistency: checkConsistencyMutation.isPending,
+  };
+};
@@ -1,13 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import type { MediaType } from '@/types/video';
+import { DEFAULT_NARRATIVE_FORMAT_ID } from '@shared/narrative-formats';
+import { importScript, type ImportFormat } from '@shared/storyboard-import';
 
 const DRAFT_KEY = 'storyboardInputDraft';
 
 export interface StoryboardFormState {
+  /** Generate from a topic, or build from the user's own script */
+  source: 'topic' | 'import';
   topic: string;
+  importText: string;
+  importFormat: ImportFormat | 'auto';
   duration: number;
   style: string;
   tone: string;
+  narrativeFormat: string;
+  /** Comma-separated dialogue character names */
+  dialogueCharacters: string;
   voiceID: string;
   voiceName: string;
   mediaType: MediaType;
@@ -57,10 +66,15 @@ const getInitialState = (): StoryboardFormState => {
   const draftQuality = draft?.videoQuality && validQualities.includes(draft.videoQuality) ? draft.videoQuality : 'high';
 
   return {
+    source: draft?.source || 'topic',
     topic: draft?.topic || '',
+    importText: draft?.importText || '',
+    importFormat: draft?.importFormat || 'auto',
     duration: draft?.duration || 60,
     style: draft?.style || 'hyper-realistic',
     tone: draft?.tone || 'engaging',
+    narrativeFormat: draft?.narrativeFormat || DEFAULT_NARRATIVE_FORMAT_ID,
+    dialogueCharacters: draft?.dialogueCharacters || '',
     voiceID: draft?.voiceID || 'en-US-TonyNeural',
     voiceName: draft?.voiceName || 'Tony',
     mediaType: draft?.mediaType || 'image',
@@ -114,13 +128,27 @@ export const useStoryboardForm = () => {
     setFormState(prev => ({ ...prev, [field]: value }));
   };
 
-  const estimatedRenderCost = formState.duration * 0.25;
-  const canGenerate = formState.topic.length >= 5 && formState.topic.length <= 500;
+  // An imported script sets its own length, which the estimate follows
+  const importedDuration = useMemo(() => {
+    if (formState.source !== 'import' || !formState.importText.trim()) return null;
+    try {
+      return importScript(formState.importText, formState.importFormat).duration;
+    } catch {
+      return null;
+    }
+  }, [formState.source, formState.importText, formState.importFormat]);
+
+  const costDuration = importedDuration ?? formState.duration;
+  const estimatedRenderCost = costDuration * 0.25;
+  const canGenerate = formState.source === 'import'
+    ? formState.importText.trim().length > 0
+    : formState.topic.length >= 5 && formState.topic.length <= 500;
 
   return {
     formState,
     updateField,
     estimatedRenderCost,
+    costDuration,
     canGenerate,
   };
 };
@@ -50,6 +50,18 @@ interface StoryboardInput {
   };
   enableCache?: boolean;
   draftMode?: boolean;
+  narrativeFormat?: string;
+  /** Characters speaking alongside the narrator; none for a narrated storyboard */
+  dialogueCharacters?: string[];
+  /** The user's own script; scenes keep its wording instead of being written from the topic */
+  importText?: string;
+  importFormat?: string;
+}
+
+// Rewrites a new, unedited storyboard in another narrative format with the same settings
+interface FormatRewriteInput {
+  replaceStoryboardId: string;
+  narrativeFormat: string;
 }
 
 // Helper to check if generation is in progress from localStorage
@@ -102,9 +114,12 @@ export const useStoryboardGeneration = (
 
   // Generate storyboard mutation
   const generateMutation = useMutation({
-    mutationFn: async (input: StoryboardInput) => {
+    mutationFn: async (input: StoryboardInput | FormatRewriteInput) => {
       const { data, error } = await supabase.functions.invoke('generate-storyboard', {
-        body: {
+        body: 'replaceStoryboardId' in input ? {
+          replace_storyboard_id: input.replaceStoryboardId,
+          narrative_format: input.narrativeFormat,
+        } : {
           topic: input.topic,
           duration: input.duration,
           style: input.style,
@@ -136,6 +151,10 @@ export const useStoryboardGeneration = (
           },
           enable_cache: input.enableCache ?? true,
           draft_mode: input.draftMode ?? false,
+          narrative_format: input.narrativeFormat,
+          dialogue_characters: input.dialogueCharacters ?? [],
+          import_text: input.importText,
+          import_format: input.importFormat,
         },
       });
 
@@ -180,7 +199,7 @@ export const useStoryboardGeneration = (
     },
   });
 
-  const generateStoryboard = useCallback(async (input: StoryboardInput) => {
+  const runGeneration = useCallback(async (input: StoryboardInput | FormatRewriteInput) => {
     // Check if already generating (prevents double-clicks and race conditions)
     if (isGenerating) {
       toast.info('Generation already in progress', { id: 'generate-storyboard' });
@@ -199,8 +218,9 @@ export const useStoryboardGeneration = (
       logger.error('Storyboard generation error', appError, {
         component: 'useStoryboardGeneration',
         operation: 'generateStoryboard',
-        topic: input.topic,
-        duration: input.duration
+        ...('replaceStoryboardId' in input
+          ? { replaceStoryboardId: input.replaceStoryboardId, narrativeFormat: input.narrativeFormat }
+          : { topic: input.topic, duration: input.duration })
       });
       toast.error(
         appError.message || 'Failed to generate storyboard', 
@@ -214,9 +234,21 @@ export const useStoryboardGeneration = (
     }
   }, [generateMutation, setGenerating, isGenerating]);
 
+  const generateStoryboard = useCallback(
+    (input: StoryboardInput) => runGeneration(input),
+    [runGeneration]
+  );
+
+  const rewriteInFormat = useCallback(
+    (storyboardId: string, narrativeFormat: string) =>
+      runGeneration({ replaceStoryboardId: storyboardId, narrativeFormat }),
+    [runGeneration]
+  );
+
   return {
     isGenerating,
     generateStoryboard,
+    rewriteInFormat,
   };
 };
 
@@ -6,6 +6,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import type { Scene, Storyboard } from './useStoryboardState';
 import { logger } from '@/lib/logger';
 import { mapAspectRatioToModelParameters } from '@/lib/aspect-ratio-mapper';
+import type { CastMember } from '@shared/storyboard-cast';
+import { addSceneTake, toSceneTakes, type ScriptOperation } from '@shared/storyboard-script';
+import type { Json } from '@/integrations/supabase/types';
+import { dialogueToVoiceOverText, type DialogueLine } from '@shared/storyboard-dialogue';
 // Helper: Check if URL is a video based on explicit file extensions
 const isVideoUrl = (url: string): boolean => {
   const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.m4v'];
@@ -13,12 +17,22 @@ const isVideoUrl = (url: string): boolean => {
   return videoExtensions.some(ext => lowerUrl.includes(ext));
 };
 
+export interface ScriptEditRequest {
+  sceneId: string;
+  operation: ScriptOperation;
+  /** Insert only: whether the new scene goes before or after sceneId */
+  position?: 'before' | 'after';
+  instruction?: string;
+  tone?: string;
+}
+
 export const useStoryboardScenes = (
   currentStoryboardId: string | null,
   storyboard: Storyboard | null | undefined,
   scenes: Scene[],
   activeSceneId: string | null,
-  setActiveSceneId: (id: string | null) => void
+  setActiveSceneId: (id: string | null) => void,
+  cast: CastMember[] = []
 ) => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -41,6 +55,33 @@ export const useStoryboardScenes = (
     },
   });
 
+  // Dialogue lines and the voiceover they add up to are saved together
+  const updateSceneDialogueMutation = useMutation({
+    mutationFn: async ({ sceneId, dialogue }: { sceneId: string; dialogue: DialogueLine[] }) => {
+      const { error } = await supabase
+        .from('storyboard_scenes')
+        .update({
+          dialogue: dialogue as unknown as Json,
+          voice_over_text: dialogueToVoiceOverText(dialogue),
+          is_edited: true,
+        })
+        .eq('id', sceneId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['storyboard-scenes', currentStoryboardId] });
+    },
+    onError: (error: Error, variables) => {
+      logger.error('Update scene dialogue failed', error, {
+        component: 'useStoryboardScenes',
+        operation: 'updateSceneDialogueMutation',
+        sceneId: variables.sceneId
+      });
+      toast.error('Failed to save dialogue');
+    },
+  });
+
   // Update intro scene mutation
   const updateIntroSceneMutation = useMutation({
     mutationFn: async ({ field, value }: { field: string; value: string }) => {
@@ -103,34 +144,75 @@ export const useStoryboardScenes = (
     },
   });
 
-  // Regenerate scene mutation
-  const regenerateSceneMutation = useMutation({
-    mutationFn: async ({ sceneId, previousSceneText, nextSceneText }: {
-      sceneId: string;
-      previousSceneText: string;
-      nextSceneText: string;
-    }) => {
-      const { data, error } = await supabase.functions.invoke('regenerate-storyboard-scene', {
+  // Script edit mutation (rewrite, insert, split, tone change), aware of the whole script
+  const editScriptMutation = useMutation({
+    mutationFn: async (request: ScriptEditRequest) => {
+      const { data, error } = await supabase.functions.invoke('edit-storyboard-script', {
         body: {
           storyboardId: currentStoryboardId,
-          sceneId,
-          previousSceneText,
-          nextSceneText,
+          ...request,
         },
       });
 
       if (error) throw error;
       return data;
     },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['storyboard-scenes', currentStoryboardId] });
+      void queryClient.invalidateQueries({ queryKey: ['storyboard', currentStoryboardId] });
+    },
+    onError: (error: Error, variables) => {
+      logger.error('Edit script failed', error, {
+        component: 'useStoryboardScenes',
+        operation: 'editScriptMutation',
+        sceneId: variables.sceneId,
+        scriptOperation: variables.operation
+      });
+      toast.error('Failed to edit the script');
+    },
+  });
+
+  // Switch a scene to another take, keeping the text it shows now in the history
+  const switchSceneTakeMutation = useMutation({
+    mutationFn: async ({ sceneId, takeId }: { sceneId: string; takeId: string }) => {
+      const scene = scenes.find(s => s.id === sceneId);
+      const takes = toSceneTakes(scene?.takes);
+      const take = takes.find(t => t.id === takeId);
+      if (!scene || !take) throw new Error('Take not found');
+
+      const history = addSceneTake(takes, {
+        id: crypto.randomUUID(),
+        voiceOverText: scene.voice_over_text,
+        imagePrompt: scene.image_prompt,
+        imagePrompt2: scene.image_prompt_2 ?? null,
+        source: 'manual',
+        note: null,
+        createdAt: new Date().toISOString(),
+      });
+
+      const { error } = await supabase
+        .from('storyboard_scenes')
+        .update({
+          voice_over_text: take.voiceOverText,
+          image_prompt: take.imagePrompt,
+          image_prompt_2: take.imagePrompt2,
+          takes: history as unknown as Json,
+          is_edited: true,
+        })
+        .eq('id', sceneId);
+
+      if (error) throw error;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['storyboard-scenes', currentStoryboardId] });
     },
     onError: (error: Error, variables) => {
-      logger.error('Regenerate scene failed', error, {
+      logger.error('Switch scene take failed', error, {
         component: 'useStoryboardScenes',
-        operation: 'regenerateSceneMutation',
+        operation: 'switchSceneTakeMutation',
         sceneId: variables.sceneId
       });
+      toast.error('Failed to switch take');
     },
   });
 
@@ -138,17 +220,25 @@ export const useStoryboardScenes = (
     updateSceneMutation.mutate({ sceneId, field, value });
   }, [updateSceneMutation]);
 
+  const updateSceneDialogue = useCallback((sceneId: string, dialogue: DialogueLine[]) => {
+    updateSceneDialogueMutation.mutate({ sceneId, dialogue });
+  }, [updateSceneDialogueMutation]);
+
   const updateIntroScene = useCallback((field: string, value: string) => {
     updateIntroSceneMutation.mutate({ field, value });
   }, [updateIntroSceneMutation]);
 
   const regenerateScene = useCallback((sceneId: string) => {
-    const sceneIndex = scenes.findIndex(s => s.id === sceneId);
-    const previousSceneText = sceneIndex > 0 ? scenes[sceneIndex - 1].voice_over_text : '';
-    const nextSceneText = sceneIndex < scenes.length - 1 ? scenes[sceneIndex + 1].voice_over_text : '';
+    editScriptMutation.mutate({ sceneId, operation: 'rewrite' });
+  }, [editScriptMutation]);
 
-    regenerateSceneMutation.mutate({ sceneId, previousSceneText, nextSceneText });
-  }, [scenes, regenerateSceneMutation]);
+  const editScript = useCallback((request: ScriptEditRequest) => {
+    editScriptMutation.mutate(request);
+  }, [editScriptMutation]);
+
+  const switchSceneTake = useCallback((sceneId: string, takeId: string) => {
+    switchSceneTakeMutation.mutate({ sceneId, takeId });
+  }, [switchSceneTakeMutation]);
 
   const navigateScene = useCallback((direction: 'prev' | 'next') => {
     if (!activeSceneId || scenes.length === 0) return;
@@ -247,8 +337,25 @@ export const useStoryboardScenes = (
       throw new Error(`Model not found in registry: ${modelId}`);
     }
 
-    const tokenCost = modelModule.MODEL_CONFIG.baseCreditCost || 1;
-    const totalCost = tokenCost * scenesToGenerate.length;
+    // Scenes showing cast members carry their references, which may need a reference-image model
+    const { getCastStoryboardRequest } = await import('@/lib/models/storyboard-defaults-registry');
+    const scenePlans = scenesToGenerate.map(scene => {
+      const castRequest = cast.length > 0 && scene.imagePrompt
+        ? getCastStoryboardRequest(modelModule.MODEL_CONFIG.recordId, {
+            prompt: scene.imagePrompt,
+            aspectRatio: storyboard?.aspect_ratio,
+          }, cast)
+        : null;
+      const sceneModelId = castRequest?.modelRecordId ?? modelModule.MODEL_CONFIG.recordId;
+      const sceneModule = modules.find(m => m.MODEL_CONFIG.recordId === sceneModelId);
+
+      if (!sceneModule) {
+        throw new Error(`Model not found in registry: ${sceneModelId}`);
+      }
+      return { ...scene, castRequest, modelModule: sceneModule };
+    });
+
+    const totalCost = scenePlans.reduce((sum, plan) => sum + (plan.modelModule.MODEL_CONFIG.baseCreditCost || 1), 0);
     
     const { data: tokenData } = await supabase
       .from('user_subscriptions')
@@ -271,11 +378,12 @@ export const useStoryboardScenes = (
     }> = [];
 
     // Helper function to process a single scene
-    const processSinglePreview = async (scene: typeof scenesToGenerate[0]) => {
-      const promptToUse = scene.imagePrompt;
+    const processSinglePreview = async (scene: typeof scenePlans[0]) => {
+      const { castRequest, modelModule: sceneModule } = scene;
+      const promptToUse = castRequest?.prompt ?? scene.imagePrompt;
       
       // Determine if we should use sync or async endpoint
-      const functionName = modelModule.MODEL_CONFIG.provider === 'runware' 
+      const functionName = sceneModule.MODEL_CONFIG.provider === 'runware' 
         ? 'generate-content-sync' 
         : 'generate-content';
 
@@ -283,12 +391,15 @@ export const useStoryboardScenes = (
       // (e.g. aspectRatio/aspect_ratio for Runware image models)
       const aspectRatioParams = mapAspectRatioToModelParameters(
         storyboard?.aspect_ratio,
-        modelModule.SCHEMA
+        sceneModule.SCHEMA
       ) as Record<string, unknown>;
 
-      // Prepare payload using model's preparePayload function
+      // Cast requests come with storyboard defaults for their model; otherwise
+      // prepare payload using model's preparePayload function
       // Pass prompt variants + mapped aspect ratio params - let the model decide what it uses
-      const customParameters = modelModule.preparePayload?.({
+      const customParameters = castRequest?.parameters
+        ? { ...castRequest.parameters, __useStoryboardDefaults: true }
+        : sceneModule.preparePayload?.({
         prompt: promptToUse,
         positivePrompt: promptToUse,
         ...aspectRatioParams,
@@ -303,13 +414,13 @@ export const useStoryboardScenes = (
           Authorization: `Bearer ${session.access_token}`,
         },
         body: {
-          model_id: modelId,
-          model_record_id: modelModule.MODEL_CONFIG.recordId,
-          model_config: modelModule.MODEL_CONFIG,
-          model_schema: modelModule.SCHEMA,
+          model_id: sceneModule.MODEL_CONFIG.modelId,
+          model_record_id: sceneModule.MODEL_CONFIG.recordId,
+          model_config: sceneModule.MODEL_CONFIG,
+          model_schema: sceneModule.SCHEMA,
           prompt: promptToUse,
           custom_parameters: customParameters,
-          preCalculatedCost: modelModule.MODEL_CONFIG.baseCreditCost,
+          preCalculatedCost: sceneModule.MODEL_CONFIG.baseCreditCost,
         }
       });
       
@@ -345,12 +456,12 @@ export const useStoryboardScenes = (
     };
 
     // Process in batches with concurrency control
-    for (let i = 0; i < scenesToGenerate.length; i += PREVIEW_CONCURRENCY_LIMIT) {
+    for (let i = 0; i < scenePlans.length; i += PREVIEW_CONCURRENCY_LIMIT) {
       if (signal.aborted) {
         throw new Error('Cancelled by user');
       }
 
-      const batch = scenesToGenerate.slice(i, i + PREVIEW_CONCURRENCY_LIMIT);
+      const batch = scenePlans.slice(i, i + PREVIEW_CONCURRENCY_LIMIT);
       
       const batchPromises = batch.map(scene => 
         processSinglePreview(scene)
@@ -401,7 +512,7 @@ export const useStoryboardScenes = (
       failed: failCount,
       results 
     };
-  }, [currentStoryboardId, user, storyboard, scenes, updateIntroSceneMutation, updateSceneImageMutation]);
+  }, [currentStoryboardId, user, storyboard, scenes, updateIntroSceneMutation, updateSceneImageMutation, cast]);
 
   // Generate all scene animations at once (image-to-video)
   const generateAllSceneAnimations = useCallback(async (
@@ -635,8 +746,12 @@ export const useStoryboardScenes = (
 
   return {
     updateScene,
+    updateSceneDialogue,
     updateIntroScene,
     regenerateScene,
+    editScript,
+    isEditingScript: editScriptMutation.isPending,
+    switchSceneTake,
     navigateScene,
     updateSceneImage: updateSceneImageMutation.mutate,
     generateAllScenePreviews,
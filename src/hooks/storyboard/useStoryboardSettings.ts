@@ -19,6 +19,7 @@ export const useStoryboardSettings = (currentStoryboardId: string | null) => {
       subtitle_settings?: Json;
       music_settings?: Json;
       image_animation_settings?: Json;
+      dialogue_characters?: Json;
     }) => {
       if (!currentStoryboardId) throw new Error('No storyboard selected');
       
@@ -74,6 +75,7 @@ export const useStoryboardSettings = (currentStoryboardId: string | null) => {
     subtitle_settings?: Json;
     music_settings?: Json;
     image_animation_settings?: Json;
+    dialogue_characters?: Json;
   }) => {
     updateRenderSettingsMutation.mutate(settings);
   }, [updateRenderSettingsMutation]);
@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+export type NarrativeFormatRecord = Tables<"narrative_formats">;
+
+// CRUD operations for admin-defined narrative formats
+export function useAdminNarrativeFormats() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    void queryClient.invalidateQueries({ queryKey: ["admin-narrative-formats"] });
+    void queryClient.invalidateQueries({ queryKey: ["narrative-formats"] });
+  };
+
+  const { data: formats, isLoading } = useQuery({
+    queryKey: ["admin-narrative-formats"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("narrative_formats")
+        .select("*")
+        .order("sort_order")
+        .order("name");
+
+      if (error) throw error;
+      return data as NarrativeFormatRecord[];
+    },
+  });
+
+  const createFormat = useMutation({
+    mutationFn: async (format: TablesInsert<"narrative_formats">) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("narrative_formats")
+        .insert({ ...format, created_by: user?.id ?? null })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Narrative format created successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create narrative format", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateFormat = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: TablesUpdate<"narrative_formats"> }) => {
+      const { data, error } = await supabase
+        .from("narrative_formats")
+        .update(updates)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Narrative format updated successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update narrative format", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteFormat = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("narrative_formats")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Narrative format deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete narrative format", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    formats,
+    isLoading,
+    createFormat,
+    updateFormat,
+    deleteFormat,
+  };
+}
@@ -4,6 +4,7 @@ import { useStoryboardGeneration } from './storyboard/useStoryboardGeneration';
 import { useStoryboardScenes } from './storyboard/useStoryboardScenes';
 import { useStoryboardRendering } from './storyboard/useStoryboardRendering';
 import { useStoryboardSettings } from './storyboard/useStoryboardSettings';
+import { useStoryboardCast } from './storyboard/useStoryboardCast';
 
 export const useStoryboard = () => {
   // State management
@@ -18,16 +19,31 @@ export const useStoryboard = () => {
   } = useStoryboardState();
 
   // Generation logic
-  const { isGenerating, generateStoryboard } = useStoryboardGeneration(
+  const { isGenerating, generateStoryboard, rewriteInFormat } = useStoryboardGeneration(
     setAndPersistStoryboardId,
     setActiveSceneId
   );
 
+  // Cast and style bible
+  const {
+    cast,
+    saveCastMember,
+    isSavingCast,
+    removeCastMember,
+    uploadReferenceImage,
+    checkConsistency,
+    isCheckingConsistency,
+  } = useStoryboardCast(currentStoryboardId);
+
   // Scene operations
   const {
     updateScene,
+    updateSceneDialogue,
     updateIntroScene,
     regenerateScene,
+    editScript,
+    isEditingScript,
+    switchSceneTake,
     navigateScene,
     updateSceneImage,
     generateAllScenePreviews,
@@ -37,7 +53,8 @@ export const useStoryboard = () => {
     storyboard,
     scenes,
     activeSceneId,
-    setActiveSceneId
+    setActiveSceneId,
+    cast
   );
 
   // Rendering operations
@@ -70,9 +87,14 @@ export const useStoryboard = () => {
     renderingStartTime,
     isLoading,
     generateStoryboard,
+    rewriteInFormat,
     updateScene,
+    updateSceneDialogue,
     updateIntroScene,
     regenerateScene,
+    editScript,
+    isEditingScript,
+    switchSceneTake,
     setActiveScene: setActiveSceneId,
     navigateScene,
     renderVideo,
@@ -84,5 +106,12 @@ export const useStoryboard = () => {
     updateRenderSettings,
     generateAllScenePreviews,
     generateAllSceneAnimations,
+    cast,
+    saveCastMember,
+    isSavingCast,
+    removeCastMember,
+    uploadReferenceImage,
+    checkConsistency,
+    isCheckingConsistency,
   };
 };
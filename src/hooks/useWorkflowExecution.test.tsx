@@ -388,4 +388,87 @@ describe('useWorkflowExecution', () => {
       expect(supabase.functions.invoke).toHaveBeenCalled();
     });
   });
+
+  describe('resuming failed executions', () => {
+    const executionId = '3f1c2a9e-8b7d-4c6e-9a5f-1d2e3c4b5a69';
+
+    it('should preview a resume with step overrides', async () => {
+      const preview = {
+        execution_id: executionId,
+        steps: [{
+          step_number: 2,
+          step_name: 'Animate',
+          model_record_id: null,
+          prompt: 'A slow pan',
+          parameters: { duration: 5 },
+          estimated_credits: 10,
+        }],
+        remaining_steps: [2, 3],
+        estimated_credits: 15,
+        available_credits: 100,
+      };
+
+      (supabase.functions.invoke as any).mockResolvedValue({ data: preview, error: null });
+
+      const { result } = renderHook(() => useWorkflowExecution(), {
+        wrapper: createWrapper(),
+      });
+
+      let response: unknown;
+      await act(async () => {
+        response = await result.current.previewResume(executionId, { '2': { prompt: 'A slow pan' } });
+      });
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('workflow-resume', {
+        body: {
+          execution_id: executionId,
+          step_overrides: { '2': { prompt: 'A slow pan' } },
+          preview: true,
+        },
+      });
+      expect(response).toEqual(preview);
+    });
+
+    it('should subscribe to the resumed execution', async () => {
+      (supabase.functions.invoke as any).mockResolvedValue({
+        data: { execution_id: executionId, status: 'processing' },
+        error: null,
+      });
+
+      const { result } = renderHook(() => useWorkflowExecution(), {
+        wrapper: createWrapper(),
+      });
+
+      await act(async () => {
+        void result.current.resumeWorkflow(executionId);
+        await Promise.resolve();
+      });
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('workflow-resume', {
+        body: { execution_id: executionId, step_overrides: {} },
+      });
+      expect(supabase.channel).toHaveBeenCalledWith(`workflow-execution-${executionId}`);
+      expect(result.current.isExecuting).toBe(true);
+    });
+
+    it('should stop when the resume is rejected', async () => {
+      (supabase.functions.invoke as any).mockResolvedValue({
+        data: null,
+        error: new Error('Insufficient credits'),
+      });
+
+      const { result } = renderHook(() => useWorkflowExecution(), {
+        wrapper: createWrapper(),
+      });
+
+      let response: unknown;
+      await act(async () => {
+        response = await result.current.resumeWorkflow(executionId);
+      });
+
+      expect(response).toBeNull();
+      expect(result.current.isExecuting).toBe(false);
+      expect(supabase.channel).not.toHaveBeenCalled();
+    });
+  });
 });
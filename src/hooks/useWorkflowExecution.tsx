@@ -1,14 +1,19 @@
 import { useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { logger, generateRequestId } from "@/lib/logger";
+import { logger, generateRequestId, type PerformanceTimer } from "@/lib/logger";
 import { handleError, GenerationError } from "@/lib/errors";
+import { extractEdgeFunctionError } from "@/lib/utils/edge-function-error";
 import {
   WorkflowExecutionParams,
   WorkflowExecutionResult,
   WorkflowExecutionParamsSchema,
   WorkflowExecutionStateSchema,
   WorkflowProgress,
+  WorkflowResumePreview,
+  WorkflowResumePreviewSchema,
+  WorkflowStepOverrides,
+  FailedWorkflowExecution,
 } from "@/types/workflow";
 
 const workflowLogger = logger.child({ component: 'useWorkflowExecution' });
@@ -16,6 +21,188 @@ const workflowLogger = logger.child({ component: 'useWorkflowExecution' });
 export const useWorkflowExecution = () => {
   const [isExecuting, setIsExecuting] = useState(false);
   const [progress, setProgress] = useState<WorkflowProgress | null>(null);
+  const [failedExecution, setFailedExecution] = useState<FailedWorkflowExecution | null>(null);
+
+  /**
+   * Follow an execution over Realtime until it completes, fails or times out.
+   * Failed executions are remembered so they can be resumed.
+   */
+  const waitForExecution = (
+    executionId: string,
+    requestId: string,
+    timer: PerformanceTimer,
+    onCompleted?: () => void
+  ): Promise<WorkflowExecutionResult | null> => {
+    return new Promise<WorkflowExecutionResult | null>((resolve: (value: WorkflowExecutionResult | null) => void, reject: (error: Error) => void) => {
+      const channel = supabase
+        .channel(`workflow-execution-${executionId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'workflow_executions',
+            filter: `id=eq.${executionId}`,
+          },
+          (payload) => {
+            try {
+              // Validate execution state
+              const execution = WorkflowExecutionStateSchema.parse(payload.new);
+              
+              workflowLogger.info('Realtime workflow update received', {
+                requestId,
+                executionId,
+                status: execution.status,
+                current_step: execution.current_step,
+                total_steps: execution.total_steps,
+              });
+
+              // Update progress
+              if (execution.current_step && execution.total_steps) {
+                setProgress({
+                  currentStep: execution.current_step,
+                  totalSteps: execution.total_steps,
+                });
+              }
+
+            // Check for completion
+            if (execution.status === 'completed' && execution.final_output_url) {
+              timer.end({ 
+                success: true, 
+                final_output_url: execution.final_output_url,
+                tokens_used: execution.tokens_used 
+              });
+              
+              workflowLogger.info('Workflow completed successfully', {
+                requestId,
+                executionId,
+                final_output_url: execution.final_output_url,
+                tokens_used: execution.tokens_used
+              });
+              
+              onCompleted?.();
+              
+              supabase.removeChannel(channel);
+              setIsExecuting(false);
+              resolve({
+                execution_id: executionId,
+                status: 'completed',
+                final_output_url: execution.final_output_url as string,
+                tokens_used: (execution.tokens_used as number) || 0,
+              });
+            }
+
+            // Check for failure
+            if (execution.status === 'failed') {
+              workflowLogger.error('Workflow execution failed', new Error(execution.error_message as string), {
+                requestId,
+                executionId,
+                error_message: execution.error_message
+              });
+              supabase.removeChannel(channel);
+              setIsExecuting(false);
+              setFailedExecution({
+                executionId,
+                error: (execution.error_message as string) || 'Workflow execution failed',
+              });
+              reject(new Error((execution.error_message as string) || 'Workflow execution failed'));
+            }
+
+            // Check for cancellation
+            if (execution.status === 'cancelled') {
+              workflowLogger.warn('Workflow execution cancelled', { requestId, executionId });
+              supabase.removeChannel(channel);
+              setIsExecuting(false);
+              reject(new Error('Workflow execution cancelled'));
+            }
+            } catch (error) {
+              workflowLogger.error('Error processing realtime update', error as Error, {
+                requestId,
+                executionId,
+              });
+            }
+          }
+        )
+        .subscribe(async (status) => {
+          if (status === 'SUBSCRIBED') {
+            workflowLogger.info('Subscribed to realtime workflow updates', { requestId, executionId });
+            
+            // Check initial status immediately in case it already completed
+            const { data: currentExecution } = await supabase
+              .from('workflow_executions')
+              .select('status, final_output_url, tokens_used, current_step, total_steps, error_message')
+              .eq('id', executionId)
+              .single();
+
+            if (currentExecution) {
+              if (currentExecution.current_step && currentExecution.total_steps) {
+                setProgress({
+                  currentStep: currentExecution.current_step,
+                  totalSteps: currentExecution.total_steps,
+                });
+              }
+
+              if (currentExecution.status === 'completed' && currentExecution.final_output_url) {
+                workflowLogger.info('Workflow already completed on subscription', { 
+                  requestId, 
+                  executionId,
+                  final_output_url: currentExecution.final_output_url 
+                });
+                supabase.removeChannel(channel);
+                setIsExecuting(false);
+                resolve({
+                  execution_id: executionId,
+                  status: 'completed',
+                  final_output_url: currentExecution.final_output_url,
+                  tokens_used: currentExecution.tokens_used || 0,
+                });
+              } else if (currentExecution.status === 'failed') {
+                workflowLogger.error('Workflow already failed on subscription', 
+                  new Error(currentExecution.error_message || 'Unknown error'), 
+                  { requestId, executionId }
+                );
+                supabase.removeChannel(channel);
+                setIsExecuting(false);
+                setFailedExecution({
+                  executionId,
+                  error: currentExecution.error_message || 'Workflow execution failed',
+                });
+                reject(new Error(currentExecution.error_message || 'Workflow execution failed'));
+              } else if (currentExecution.status === 'cancelled') {
+                workflowLogger.warn('Workflow already cancelled on subscription', { requestId, executionId });
+                supabase.removeChannel(channel);
+                setIsExecuting(false);
+                reject(new Error('Workflow execution cancelled'));
+              }
+            }
+          }
+        });
+
+      // Safety timeout (20 minutes)
+      const timeout = setTimeout(() => {
+        workflowLogger.warn('Workflow execution timed out', { 
+          requestId, 
+          executionId,
+          timeout_minutes: 20 
+        });
+        supabase.removeChannel(channel);
+        setIsExecuting(false);
+        reject(new Error('Workflow execution timed out after 20 minutes. Check your generations history.'));
+      }, 20 * 60 * 1000);
+
+      // Store cleanup function
+      const originalResolve = resolve;
+      const originalReject = reject;
+      resolve = (value: WorkflowExecutionResult | null) => {
+        clearTimeout(timeout);
+        originalResolve(value);
+      };
+      reject = (error: Error) => {
+        clearTimeout(timeout);
+        originalReject(error);
+      };
+    });
+  };
 
   const executeWorkflow = async (
     params: WorkflowExecutionParams,
@@ -29,6 +216,7 @@ export const useWorkflowExecution = () => {
     
     setIsExecuting(true);
     setProgress(null);
+    setFailedExecution(null);
 
     try {
       // Validate input parameters
@@ -61,187 +249,29 @@ export const useWorkflowExecution = () => {
       });
 
       // Subscribe to Realtime updates on workflow_executions
-      return new Promise<WorkflowExecutionResult | null>((resolve: (value: WorkflowExecutionResult | null) => void, reject: (error: Error) => void) => {
-        const channel = supabase
-          .channel(`workflow-execution-${executionId}`)
-          .on(
-            'postgres_changes',
-            {
-              event: 'UPDATE',
-              schema: 'public',
-              table: 'workflow_executions',
-              filter: `id=eq.${executionId}`,
-            },
-            (payload) => {
-              try {
-                // Validate execution state
-                const execution = WorkflowExecutionStateSchema.parse(payload.new);
-                
-                workflowLogger.info('Realtime workflow update received', {
-                  requestId,
-                  executionId,
-                  status: execution.status,
-                  current_step: execution.current_step,
-                  total_steps: execution.total_steps,
-                });
-
-                // Update progress
-                if (execution.current_step && execution.total_steps) {
-                  setProgress({
-                    currentStep: execution.current_step,
-                    totalSteps: execution.total_steps,
-                  });
-                }
-
-              // Check for completion
-              if (execution.status === 'completed' && execution.final_output_url) {
-                timer.end({ 
-                  success: true, 
-                  final_output_url: execution.final_output_url,
-                  tokens_used: execution.tokens_used 
-                });
-                
-                workflowLogger.info('Workflow completed successfully', {
-                  requestId,
-                  executionId,
-                  final_output_url: execution.final_output_url,
-                  tokens_used: execution.tokens_used
-                });
-                
-                // Generate caption if requested (fire and forget)
-                if (shouldGenerateCaption && params.user_inputs.prompt) {
-                  (async () => {
-                    try {
-                      await supabase.functions.invoke('generate-caption', {
-                        body: {
-                          generation_id: executionId,
-                          prompt: params.user_inputs.prompt,
-                          content_type: 'image',
-                          model_name: 'workflow'
-                        }
-                      });
-                      workflowLogger.info('Caption generation initiated', { requestId, executionId });
-                    } catch (captionError) {
-                      workflowLogger.error('Caption generation failed', captionError as Error, {
-                        requestId,
-                        executionId
-                      });
-                      // Don't throw - caption is optional, don't fail workflow
-                    }
-                  })();
-                }
-                
-                supabase.removeChannel(channel);
-                setIsExecuting(false);
-                resolve({
-                  execution_id: executionId,
-                  status: 'completed',
-                  final_output_url: execution.final_output_url as string,
-                  tokens_used: (execution.tokens_used as number) || 0,
-                });
-              }
-
-              // Check for failure
-              if (execution.status === 'failed') {
-                workflowLogger.error('Workflow execution failed', new Error(execution.error_message as string), {
-                  requestId,
-                  executionId,
-                  error_message: execution.error_message
-                });
-                supabase.removeChannel(channel);
-                setIsExecuting(false);
-                reject(new Error((execution.error_message as string) || 'Workflow execution failed'));
-              }
-
-              // Check for cancellation
-              if (execution.status === 'cancelled') {
-                workflowLogger.warn('Workflow execution cancelled', { requestId, executionId });
-                supabase.removeChannel(channel);
-                setIsExecuting(false);
-                reject(new Error('Workflow execution cancelled'));
-              }
-              } catch (error) {
-                workflowLogger.error('Error processing realtime update', error as Error, {
-                  requestId,
-                  executionId,
-                });
-              }
-            }
-          )
-          .subscribe(async (status) => {
-            if (status === 'SUBSCRIBED') {
-              workflowLogger.info('Subscribed to realtime workflow updates', { requestId, executionId });
-              
-              // Check initial status immediately in case it already completed
-              const { data: currentExecution } = await supabase
-                .from('workflow_executions')
-                .select('status, final_output_url, tokens_used, current_step, total_steps, error_message')
-                .eq('id', executionId)
-                .single();
-
-              if (currentExecution) {
-                if (currentExecution.current_step && currentExecution.total_steps) {
-                  setProgress({
-                    currentStep: currentExecution.current_step,
-                    totalSteps: currentExecution.total_steps,
-                  });
-                }
-
-                if (currentExecution.status === 'completed' && currentExecution.final_output_url) {
-                  workflowLogger.info('Workflow already completed on subscription', { 
-                    requestId, 
-                    executionId,
-                    final_output_url: currentExecution.final_output_url 
-                  });
-                  supabase.removeChannel(channel);
-                  setIsExecuting(false);
-                  resolve({
-                    execution_id: executionId,
-                    status: 'completed',
-                    final_output_url: currentExecution.final_output_url,
-                    tokens_used: currentExecution.tokens_used || 0,
-                  });
-                } else if (currentExecution.status === 'failed') {
-                  workflowLogger.error('Workflow already failed on subscription', 
-                    new Error(currentExecution.error_message || 'Unknown error'), 
-                    { requestId, executionId }
-                  );
-                  supabase.removeChannel(channel);
-                  setIsExecuting(false);
-                  reject(new Error(currentExecution.error_message || 'Workflow execution failed'));
-                } else if (currentExecution.status === 'cancelled') {
-                  workflowLogger.warn('Workflow already cancelled on subscription', { requestId, executionId });
-                  supabase.removeChannel(channel);
-                  setIsExecuting(false);
-                  reject(new Error('Workflow execution cancelled'));
+      return await waitForExecution(executionId, requestId, timer, () => {
+        // Generate caption if requested (fire and forget)
+        if (shouldGenerateCaption && params.user_inputs.prompt) {
+          (async () => {
+            try {
+              await supabase.functions.invoke('generate-caption', {
+                body: {
+                  generation_id: executionId,
+                  prompt: params.user_inputs.prompt,
+                  content_type: 'image',
+                  model_name: 'workflow'
                 }
-              }
+              });
+              workflowLogger.info('Caption generation initiated', { requestId, executionId });
+            } catch (captionError) {
+              workflowLogger.error('Caption generation failed', captionError as Error, {
+                requestId,
+                executionId
+              });
+              // Don't throw - caption is optional, don't fail workflow
             }
-          });
-
-        // Safety timeout (20 minutes)
-        const timeout = setTimeout(() => {
-          workflowLogger.warn('Workflow execution timed out', { 
-            requestId, 
-            executionId,
-            timeout_minutes: 20 
-          });
-          supabase.removeChannel(channel);
-          setIsExecuting(false);
-          reject(new Error('Workflow execution timed out after 20 minutes. Check your generations history.'));
-        }, 20 * 60 * 1000);
-
-        // Store cleanup function
-        const originalResolve = resolve;
-        const originalReject = reject;
-        resolve = (value: WorkflowExecutionResult | null) => {
-          clearTimeout(timeout);
-          originalResolve(value);
-        };
-        reject = (error: Error) => {
-          clearTimeout(timeout);
-          originalReject(error);
-        };
+          })();
+        }
       });
       
     } catch (error) {
@@ -267,8 +297,79 @@ export const useWorkflowExecution = () => {
     }
   };
 
+  /**
+   * Resolve the steps a resume would start and estimate the credits needed to
+   * finish the execution, without resuming it.
+   */
+  const previewResume = async (
+    executionId: string,
+    stepOverrides: WorkflowStepOverrides = {}
+  ): Promise<WorkflowResumePreview | null> => {
+    const requestId = generateRequestId();
+
+    try {
+      const { data, error } = await supabase.functions.invoke('workflow-resume', {
+        body: { execution_id: executionId, step_overrides: stepOverrides, preview: true },
+      });
+
+      if (error) {
+        throw new Error(await extractEdgeFunctionError(error));
+      }
+
+      return WorkflowResumePreviewSchema.parse(data);
+    } catch (error) {
+      workflowLogger.error('Workflow resume preview failed', error as Error, { requestId, executionId });
+      toast.error((error as Error).message || 'Failed to preview workflow resume', { duration: 5000 });
+      return null;
+    }
+  };
+
+  /**
+   * Resume a failed execution from its failed step(s), reusing completed step
+   * outputs. Overridden steps run with the given model, prompt or parameters.
+   */
+  const resumeWorkflow = async (
+    executionId: string,
+    stepOverrides: WorkflowStepOverrides = {}
+  ): Promise<WorkflowExecutionResult | null> => {
+    const requestId = generateRequestId();
+    const timer = workflowLogger.startTimer('resumeWorkflow', { requestId, executionId });
+
+    setIsExecuting(true);
+    setProgress(null);
+
+    try {
+      const { error } = await supabase.functions.invoke('workflow-resume', {
+        body: { execution_id: executionId, step_overrides: stepOverrides },
+      });
+
+      if (error) {
+        throw new Error(await extractEdgeFunctionError(error));
+      }
+
+      setFailedExecution(null);
+      workflowLogger.info('Workflow execution resumed', {
+        requestId,
+        executionId,
+        overridden_steps: Object.keys(stepOverrides)
+      });
+
+      return await waitForExecution(executionId, requestId, timer);
+    } catch (error) {
+      const err = error as Error;
+      workflowLogger.error('Workflow resume error', err, { requestId, executionId });
+      toast.error(err.message || 'Failed to resume workflow', { duration: 5000 });
+      setIsExecuting(false);
+      setProgress(null);
+      return null;
+    }
+  };
+
   return {
     executeWorkflow,
+    previewResume,
+    resumeWorkflow,
+    failedExecution,
     isExecuting,
     progress,
   };
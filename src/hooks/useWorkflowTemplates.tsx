@@ -1,6 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import type { WorkflowTemplatePublic } from "@/types/workflow-public";
+import type { StepCondition } from "@shared/workflow-graph";
 
 // Re-export types for backward compatibility
 export interface WorkflowStep {
@@ -12,6 +13,12 @@ export interface WorkflowStep {
   parameters: Record<string, any>;
   input_mappings: Record<string, string>;
   output_key: string;
+  /** Step numbers this step waits for; omitted = previous step (linear) */
+  depends_on?: number[];
+  /** Steps sharing a group run in parallel */
+  parallel_group?: string;
+  /** Conditional edge - the step is skipped when this evaluates false */
+  run_if?: StepCondition;
 }
 
 export interface UserInputField {
@@ -2177,6 +2177,42 @@ export type Database = {
         }
         Relationships: []
       }
+      narrative_formats: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          description: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          description?: string
+          id: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          description?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       newsletter_subscribers: {
         Row: {
           email: string
@@ -2694,9 +2730,67 @@ export type Database = {
         }
         Relationships: []
       }
+      storyboard_cast: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          description: string
+          id: string
+          kind: string
+          name: string
+          order_number: number
+          reference_image_urls: string[]
+          seed: number | null
+          storyboard_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          description?: string
+          id?: string
+          kind?: string
+          name: string
+          order_number?: number
+          reference_image_urls?: string[]
+          seed?: number | null
+          storyboard_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          description?: string
+          id?: string
+          kind?: string
+          name?: string
+          order_number?: number
+          reference_image_urls?: string[]
+          seed?: number | null
+          storyboard_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "storyboard_cast_storyboard_id_fkey"
+            columns: ["storyboard_id"]
+            isOneToOne: false
+            referencedRelation: "storyboards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       storyboard_scenes: {
         Row: {
+          beat: string | null
+          consistency: Json | null
           created_at: string | null
+          dialogue: Json
+          end_seconds: number | null
+          format_fields: Json
           id: string
           image_preview_url: string | null
           image_prompt: string | null
@@ -2704,14 +2798,21 @@ export type Database = {
           is_edited: boolean | null
           motion_effect: Json | null
           order_number: number
+          start_seconds: number | null
           storyboard_id: string
+          takes: Json
           updated_at: string | null
           video_search_query: string | null
           video_url: string | null
           voice_over_text: string
         }
         Insert: {
+          beat?: string | null
+          consistency?: Json | null
           created_at?: string | null
+          dialogue?: Json
+          end_seconds?: number | null
+          format_fields?: Json
           id?: string
           image_preview_url?: string | null
           image_prompt?: string | null
@@ -2719,14 +2820,21 @@ export type Database = {
           is_edited?: boolean | null
           motion_effect?: Json | null
           order_number: number
+          start_seconds?: number | null
           storyboard_id: string
+          takes?: Json
           updated_at?: string | null
           video_search_query?: string | null
           video_url?: string | null
           voice_over_text: string
         }
         Update: {
+          beat?: string | null
+          consistency?: Json | null
           created_at?: string | null
+          dialogue?: Json
+          end_seconds?: number | null
+          format_fields?: Json
           id?: string
           image_preview_url?: string | null
           image_prompt?: string | null
@@ -2734,7 +2842,9 @@ export type Database = {
           is_edited?: boolean | null
           motion_effect?: Json | null
           order_number?: number
+          start_seconds?: number | null
           storyboard_id?: string
+          takes?: Json
           updated_at?: string | null
           video_search_query?: string | null
           video_url?: string | null
@@ -2760,6 +2870,7 @@ export type Database = {
           created_at: string | null
           custom_height: number | null
           custom_width: number | null
+          dialogue_characters: Json
           draft_mode: boolean | null
           duration: number
           enable_cache: boolean | null
@@ -2768,6 +2879,7 @@ export type Database = {
           id: string
           image_animation_settings: Json | null
           image_model: string | null
+          import_format: string | null
           intro_image_preview_url: string | null
           intro_image_prompt: string | null
           intro_image_prompt_2: string | null
@@ -2775,6 +2887,7 @@ export type Database = {
           intro_voiceover_text: string | null
           media_type: string | null
           music_settings: Json | null
+          narrative_format: string
           notify_on_completion: boolean | null
           original_character_count: number | null
           render_job_id: string | null
@@ -2818,6 +2931,7 @@ export type Database = {
           created_at?: string | null
           custom_height?: number | null
           custom_width?: number | null
+          dialogue_characters?: Json
           draft_mode?: boolean | null
           duration: number
           enable_cache?: boolean | null
@@ -2826,6 +2940,7 @@ export type Database = {
           id?: string
           image_animation_settings?: Json | null
           image_model?: string | null
+          import_format?: string | null
           intro_image_preview_url?: string | null
           intro_image_prompt?: string | null
           intro_image_prompt_2?: string | null
@@ -2833,6 +2948,7 @@ export type Database = {
           intro_voiceover_text?: string | null
           media_type?: string | null
           music_settings?: Json | null
+          narrative_format?: string
           notify_on_completion?: boolean | null
           original_character_count?: number | null
           render_job_id?: string | null
@@ -2876,6 +2992,7 @@ export type Database = {
           created_at?: string | null
           custom_height?: number | null
           custom_width?: number | null
+          dialogue_characters?: Json
           draft_mode?: boolean | null
           duration?: number
           enable_cache?: boolean | null
@@ -2884,6 +3001,7 @@ export type Database = {
           id?: string
           image_animation_settings?: Json | null
           image_model?: string | null
+          import_format?: string | null
           intro_image_preview_url?: string | null
           intro_image_prompt?: string | null
           intro_image_prompt_2?: string | null
@@ -2891,6 +3009,7 @@ export type Database = {
           intro_voiceover_text?: string | null
           media_type?: string | null
           music_settings?: Json | null
+          narrative_format?: string
           notify_on_completion?: boolean | null
           original_character_count?: number | null
           render_job_id?: string | null
@@ -4400,51 +4519,144 @@ export type Database = {
       video_editor_jobs: {
         Row: {
           audio_track: Json | null
+          claimed_at: string | null
           clips: Json | null
           cost_credits: number | null
           created_at: string
           error_message: string | null
           final_video_url: string | null
           id: string
+          job_type: string
+          lease_expires_at: string | null
           output_settings: Json | null
+          reframe_path: Json | null
+          render_backend: string
+          render_payload: Json | null
           shotstack_render_id: string | null
+          source_generation_id: string | null
+          source_job_id: string | null
           status: string
           subtitle_config: Json | null
           total_duration: number | null
           updated_at: string
           user_id: string
+          worker_id: string | null
         }
         Insert: {
           audio_track?: Json | null
+          claimed_at?: string | null
           clips?: Json | null
           cost_credits?: number | null
           created_at?: string
           error_message?: string | null
           final_video_url?: string | null
           id?: string
+          job_type?: string
+          lease_expires_at?: string | null
           output_settings?: Json | null
+          reframe_path?: Json | null
+          render_backend?: string
+          render_payload?: Json | null
           shotstack_render_id?: string | null
+          source_generation_id?: string | null
+          source_job_id?: string | null
           status?: string
           subtitle_config?: Json | null
           total_duration?: number | null
           updated_at?: string
           user_id: string
+          worker_id?: string | null
         }
         Update: {
           audio_track?: Json | null
+          claimed_at?: string | null
           clips?: Json | null
           cost_credits?: number | null
           created_at?: string
           error_message?: string | null
           final_video_url?: string | null
           id?: string
+          job_type?: string
+          lease_expires_at?: string | null
           output_settings?: Json | null
+          reframe_path?: Json | null
+          render_backend?: string
+          render_payload?: Json | null
           shotstack_render_id?: string | null
+          source_generation_id?: string | null
+          source_job_id?: string | null
           status?: string
           subtitle_config?: Json | null
           total_duration?: number | null
           updated_at?: string
           user_id?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_editor_jobs_source_generation_id_fkey"
+            columns: ["source_generation_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_editor_jobs_source_job_id_fkey"
+            columns: ["source_job_id"]
+            isOneToOne: false
+            referencedRelation: "video_editor_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_editor_projects: {
+        Row: {
+          assets: Json
+          audio_track: Json | null
+          clips: Json
+          created_at: string
+          id: string
+          name: string
+          output_settings: Json | null
+          revision: number
+          subtitle_config: Json | null
+          thumbnail_url: string | null
+          total_duration: number
+          tracks: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assets?: Json
+          audio_track?: Json | null
+          clips?: Json
+          created_at?: string
+          id?: string
+          name: string
+          output_settings?: Json | null
+          revision?: number
+          subtitle_config?: Json | null
+          thumbnail_url?: string | null
+          total_duration?: number
+          tracks?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assets?: Json
+          audio_track?: Json | null
+          clips?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          output_settings?: Json | null
+          revision?: number
+          subtitle_config?: Json | null
+          thumbnail_url?: string | null
+          total_duration?: number
+          tracks?: Json
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
@@ -4742,8 +4954,13 @@ export type Database = {
           final_output_url: string | null
           generation_ids: string[] | null
           id: string
+          prepaid_credits: number
+          resume_count: number
           status: string
           step_outputs: Json | null
+          step_overrides: Json
+          step_states: Json
+          template_version_id: string | null
           tokens_used: number | null
           total_steps: number
           user_id: string
@@ -4758,8 +4975,13 @@ export type Database = {
           final_output_url?: string | null
           generation_ids?: string[] | null
           id?: string
+          prepaid_credits?: number
+          resume_count?: number
           status?: string
           step_outputs?: Json | null
+          step_overrides?: Json
+          step_states?: Json
+          template_version_id?: string | null
           tokens_used?: number | null
           total_steps: number
           user_id: string
@@ -4774,8 +4996,13 @@ export type Database = {
           final_output_url?: string | null
           generation_ids?: string[] | null
           id?: string
+          prepaid_credits?: number
+          resume_count?: number
           status?: string
           step_outputs?: Json | null
+          step_overrides?: Json
+          step_states?: Json
+          template_version_id?: string | null
           tokens_used?: number | null
           total_steps?: number
           user_id?: string
@@ -4783,6 +5010,13 @@ export type Database = {
           workflow_template_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "workflow_executions_template_version_id_fkey"
+            columns: ["template_version_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_template_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "workflow_executions_workflow_template_id_fkey"
             columns: ["workflow_template_id"]
@@ -4799,6 +5033,82 @@ export type Database = {
           },
         ]
       }
+      workflow_template_versions: {
+        Row: {
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          hidden_field_defaults: Json | null
+          id: string
+          preset_parameters: Json | null
+          published_at: string | null
+          published_by: string | null
+          rolled_back_from: string | null
+          status: string
+          template_id: string
+          user_editable_fields: Json | null
+          user_input_fields: Json | null
+          version_number: number
+          workflow_steps: Json
+        }
+        Insert: {
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          hidden_field_defaults?: Json | null
+          id?: string
+          preset_parameters?: Json | null
+          published_at?: string | null
+          published_by?: string | null
+          rolled_back_from?: string | null
+          status?: string
+          template_id: string
+          user_editable_fields?: Json | null
+          user_input_fields?: Json | null
+          version_number?: number
+          workflow_steps?: Json
+        }
+        Update: {
+          change_note?: string | null
+          created_at?: string
+          created_by?: string | null
+          hidden_field_defaults?: Json | null
+          id?: string
+          preset_parameters?: Json | null
+          published_at?: string | null
+          published_by?: string | null
+          rolled_back_from?: string | null
+          status?: string
+          template_id?: string
+          user_editable_fields?: Json | null
+          user_input_fields?: Json | null
+          version_number?: number
+          workflow_steps?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_template_versions_rolled_back_from_fkey"
+            columns: ["rolled_back_from"]
+            isOneToOne: false
+            referencedRelation: "workflow_template_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_template_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_templates_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_templates: {
         Row: {
           after_image_url: string | null
@@ -4811,6 +5121,7 @@ export type Database = {
           id: string
           is_active: boolean | null
           name: string
+          published_version_id: string | null
           thumbnail_url: string | null
           updated_at: string
           user_input_fields: Json | null
@@ -4827,6 +5138,7 @@ export type Database = {
           id: string
           is_active?: boolean | null
           name: string
+          published_version_id?: string | null
           thumbnail_url?: string | null
           updated_at?: string
           user_input_fields?: Json | null
@@ -4843,12 +5155,21 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           name?: string
+          published_version_id?: string | null
           thumbnail_url?: string | null
           updated_at?: string
           user_input_fields?: Json | null
           workflow_steps?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "workflow_templates_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_template_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
@@ -5311,6 +5632,42 @@ export type Database = {
           retry_after_ms: number
         }[]
       }
+      claim_video_editor_render_job: {
+        Args: { p_lease_seconds?: number; p_worker_id: string }
+        Returns: {
+          audio_track: Json | null
+          claimed_at: string | null
+          clips: Json | null
+          cost_credits: number | null
+          created_at: string
+          error_message: string | null
+          final_video_url: string | null
+          id: string
+          job_type: string
+          lease_expires_at: string | null
+          output_settings: Json | null
+          reframe_path: Json | null
+          render_backend: string
+          render_payload: Json | null
+          shotstack_render_id: string | null
+          source_generation_id: string | null
+          source_job_id: string | null
+          status: string
+          subtitle_config: Json | null
+          total_duration: number | null
+          updated_at: string
+          user_id: string
+          worker_id: string | null
+        }[]
+      }
+      claim_workflow_steps: {
+        Args: {
+          p_execution_id: string
+          p_skip_steps?: number[]
+          p_start_steps: number[]
+        }
+        Returns: number[]
+      }
       cleanup_all_old_logs: {
         Args: never
         Returns: {
@@ -5338,6 +5695,39 @@ export type Database = {
       cleanup_old_reminder_logs: { Args: never; Returns: number }
       cleanup_old_webhook_events: { Args: never; Returns: undefined }
       cleanup_rate_limits: { Args: never; Returns: undefined }
+      complete_video_editor_render_job: {
+        Args: { p_final_video_url: string; p_job_id: string; p_worker_id: string }
+        Returns: boolean
+      }
+      complete_workflow_step: {
+        Args: {
+          p_execution_id: string
+          p_output: Json
+          p_step_number: number
+          p_tokens_used?: number
+        }
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          current_step: number | null
+          error_message: string | null
+          final_output_url: string | null
+          generation_ids: string[] | null
+          id: string
+          prepaid_credits: number
+          resume_count: number
+          status: string
+          step_outputs: Json | null
+          step_overrides: Json
+          step_states: Json
+          template_version_id: string | null
+          tokens_used: number | null
+          total_steps: number
+          user_id: string
+          user_inputs: Json
+          workflow_template_id: string
+        }[]
+      }
       decrypt_payment_id: { Args: { ciphertext: string }; Returns: string }
       deduct_user_tokens: {
         Args: { p_cost: number; p_user_id: string }
@@ -5347,7 +5737,23 @@ export type Database = {
           tokens_remaining: number
         }[]
       }
+      draw_workflow_prepaid_credits: {
+        Args: { p_amount: number; p_execution_id: string; p_user_id: string }
+        Returns: number
+      }
       encrypt_payment_id: { Args: { plaintext: string }; Returns: string }
+      fail_video_editor_render_job: {
+        Args: { p_error_message: string; p_job_id: string; p_worker_id: string }
+        Returns: boolean
+      }
+      fail_workflow_step: {
+        Args: {
+          p_error_message: string
+          p_execution_id: string
+          p_step_number: number
+        }
+        Returns: undefined
+      }
       find_user_by_dodo_customer: {
         Args: { p_customer_id: string }
         Returns: {
@@ -5423,6 +5829,22 @@ export type Database = {
           user_message: string
         }[]
       }
+      get_workflow_template_version_stats: {
+        Args: { p_template_id?: string }
+        Returns: {
+          avg_tokens_used: number
+          completed: number
+          conversion_rate_pct: number
+          executions: number
+          failed: number
+          published_at: string
+          status: string
+          template_id: string
+          template_name: string
+          version_id: string
+          version_number: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -5468,6 +5890,26 @@ export type Database = {
         Args: { p_device_id_hash: string; p_user_id: string }
         Returns: number
       }
+      publish_workflow_template_version: {
+        Args: { p_version_id: string }
+        Returns: {
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          hidden_field_defaults: Json | null
+          id: string
+          preset_parameters: Json | null
+          published_at: string | null
+          published_by: string | null
+          rolled_back_from: string | null
+          status: string
+          template_id: string
+          user_editable_fields: Json | null
+          user_input_fields: Json | null
+          version_number: number
+          workflow_steps: Json
+        }[]
+      }
       record_metric: {
         Args: {
           p_name: string
@@ -5481,13 +5923,72 @@ export type Database = {
         Args: { p_code: string; p_referred_user_id: string }
         Returns: boolean
       }
+      renew_video_editor_render_lease: {
+        Args: {
+          p_job_id: string
+          p_lease_seconds?: number
+          p_status?: string
+          p_worker_id: string
+        }
+        Returns: boolean
+      }
       reset_rate_limit: { Args: { p_key: string }; Returns: boolean }
       reset_user_rate_limits: { Args: { p_user_id: string }; Returns: number }
       resolve_error_event: {
         Args: { p_error_id: string; p_resolution_notes?: string }
         Returns: undefined
       }
+      resume_workflow_execution: {
+        Args: {
+          p_execution_id: string
+          p_prepay_credits?: number
+          p_recovered_states?: Json
+          p_step_overrides?: Json
+          p_user_id: string
+        }
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          current_step: number | null
+          error_message: string | null
+          final_output_url: string | null
+          generation_ids: string[] | null
+          id: string
+          prepaid_credits: number
+          resume_count: number
+          status: string
+          step_outputs: Json | null
+          step_overrides: Json
+          step_states: Json
+          template_version_id: string | null
+          tokens_used: number | null
+          total_steps: number
+          user_id: string
+          user_inputs: Json
+          workflow_template_id: string
+        }[]
+      }
       sanitize_provider_data: { Args: { data: Json }; Returns: Json }
+      rollback_workflow_template: {
+        Args: { p_template_id: string; p_version_id: string }
+        Returns: {
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          hidden_field_defaults: Json | null
+          id: string
+          preset_parameters: Json | null
+          published_at: string | null
+          published_by: string | null
+          rolled_back_from: string | null
+          status: string
+          template_id: string
+          user_editable_fields: Json | null
+          user_input_fields: Json | null
+          version_number: number
+          workflow_steps: Json
+        }[]
+      }
       search_admin_users: {
         Args: {
           filter_email_verified?: boolean
@@ -5516,6 +6017,10 @@ export type Database = {
           total_count: number
         }[]
       }
+      settle_workflow_prepaid_credits: {
+        Args: { p_execution_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -2,7 +2,7 @@ import React, { useState } from "react";
 import Link from "next/link";
 import { usePathname, redirect } from "next/navigation";
 import { useAdminRole } from "@/hooks/useAdminRole";
-import { Sparkles, Database, FileText, Users, BarChart3, Loader2, Image, Flag, TrendingUp, AlertTriangle, Video, FolderTree, Activity, LayoutDashboard, TestTube2, Mail, PenSquare, Layers, DollarSign, ToggleLeft, Shield, ShieldAlert, Menu, Globe } from "lucide-react";
+import { Sparkles, Database, FileText, Users, BarChart3, Loader2, Image, Flag, TrendingUp, AlertTriangle, Video, FolderTree, Activity, LayoutDashboard, TestTube2, Mail, PenSquare, Layers, DollarSign, ToggleLeft, Shield, ShieldAlert, Menu, Globe, BookOpen } from "lucide-react";
 import { AdminAlertBell } from "@/components/admin/AdminAlertBell";
 import { cn } from "@/lib/utils";
 import { Footer } from "@/components/Footer";
@@ -39,6 +39,7 @@ const navItems = [
   { path: "/admin/template-categories", label: "Categories", icon: FolderTree },
   { path: "/admin/template-analytics", label: "Template Analytics", icon: BarChart3 },
   { path: "/admin/cinematic-prompts", label: "Cinematic Prompts", icon: Sparkles },
+  { path: "/admin/narrative-formats", label: "Narrative Formats", icon: BookOpen },
 ];
 
 /**
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { diffTemplateVersions, type TemplateVersionContent } from './template-version-diff';
+
+const base: TemplateVersionContent = {
+  workflow_steps: [
+    { step_number: 1, step_name: 'Image', parameters: { aspect_ratio: '1:1' } },
+    { step_number: 2, step_name: 'Animate', parameters: { duration: 5 } },
+  ],
+  user_input_fields: [{ name: 'subject', type: 'text', required: true }],
+  preset_parameters: null,
+};
+
+describe('diffTemplateVersions', () => {
+  it('reports no changes for identical content', () => {
+    expect(diffTemplateVersions(base, structuredClone(base))).toEqual([]);
+  });
+
+  it('treats null and empty fields as equal', () => {
+    const next = { ...base, preset_parameters: {}, hidden_field_defaults: undefined };
+    expect(diffTemplateVersions(base, next)).toEqual([]);
+  });
+
+  it('matches steps by step number and reports nested parameter changes', () => {
+    const next = {
+      ...base,
+      workflow_steps: [
+        { step_number: 2, step_name: 'Animate', parameters: { duration: 10 } },
+        { step_number: 1, step_name: 'Image', parameters: { aspect_ratio: '1:1' } },
+      ],
+    };
+
+    expect(diffTemplateVersions(base, next)).toEqual([
+      {
+        field: 'workflow_steps',
+        path: 'step 2 › parameters.duration',
+        kind: 'changed',
+        before: 5,
+        after: 10,
+      },
+    ]);
+  });
+
+  it('reports added and removed steps, fields and content template settings', () => {
+    const next = {
+      workflow_steps: [{ step_number: 1, step_name: 'Image', parameters: { aspect_ratio: '1:1' } }],
+      user_input_fields: [
+        { name: 'subject', type: 'text', required: false },
+        { name: 'style', type: 'select' },
+      ],
+      preset_parameters: { quality: 'high' },
+    };
+
+    const changes = diffTemplateVersions(base, next);
+
+    expect(changes).toEqual([
+      {
+        field: 'workflow_steps',
+        path: 'step 2',
+        kind: 'removed',
+        before: { step_number: 2, step_name: 'Animate', parameters: { duration: 5 } },
+      },
+      { field: 'user_input_fields', path: 'subject › required', kind: 'changed', before: true, after: false },
+      { field: 'user_input_fields', path: 'style', kind: 'added', after: { name: 'style', type: 'select' } },
+      { field: 'preset_parameters', path: '', kind: 'added', after: { quality: 'high' } },
+    ]);
+  });
+
+  it('falls back to positional comparison for arrays without identities', () => {
+    const from = { workflow_steps: [], user_input_fields: null, user_editable_fields: ['prompt', 'style'] };
+    const to = { workflow_steps: [], user_input_fields: null, user_editable_fields: ['prompt'] };
+
+    expect(diffTemplateVersions(from, to)).toEqual([
+      { field: 'user_editable_fields', path: '[1]', kind: 'removed', before: 'style' },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Template version diffing
+ *
+ * Compares the versioned content of two template versions field by field.
+ * Steps are matched by step_number and input fields by name, so reordering
+ * or inserting a step shows up as that step changing rather than every later
+ * step changing.
+ */
+
+/** Template content that is versioned (everything else is edited in place) */
+export interface TemplateVersionContent {
+  workflow_steps: unknown;
+  user_input_fields: unknown;
+  preset_parameters?: unknown;
+  user_editable_fields?: unknown;
+  hidden_field_defaults?: unknown;
+}
+
+export const VERSIONED_TEMPLATE_FIELDS = [
+  'workflow_steps',
+  'user_input_fields',
+  'preset_parameters',
+  'user_editable_fields',
+  'hidden_field_defaults',
+] as const;
+
+export type VersionedTemplateField = typeof VERSIONED_TEMPLATE_FIELDS[number];
+
+export interface TemplateVersionChange {
+  field: VersionedTemplateField;
+  /** Location inside the field, e.g. "step 2 › parameters.duration"; empty for the whole field */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Stable identity of an array item, if it has one */
+const itemKey = (item: unknown): string | null => {
+  if (!isRecord(item)) return null;
+  if (typeof item.step_number === 'number') return `step ${String(item.step_number)}`;
+  if (typeof item.name === 'string' && item.name) return item.name;
+  if (typeof item.field_name === 'string' && item.field_name) return item.field_name;
+  return null;
+};
+
+const keyedEntries = (items: unknown[]): Map<string, unknown> | null => {
+  const entries = new Map<string, unknown>();
+  for (const item of items) {
+    const key = itemKey(item);
+    if (key === null || entries.has(key)) return null;
+    entries.set(key, item);
+  }
+  return entries;
+};
+
+/** Array items are separated with "›", object keys with "." */
+const joinPath = (path: string, segment: string, separator: ' › ' | '.'): string =>
+  path ? `${path}${separator}${segment}` : segment;
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null ||
+  (Array.isArray(value) && value.length === 0) ||
+  (isRecord(value) && Object.keys(value).length === 0);
+
+function diffValues(
+  field: VersionedTemplateField,
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: TemplateVersionChange[],
+  inArrayItem = false
+): void {
+  if (before === undefined && after === undefined) return;
+  if (before === undefined) {
+    changes.push({ field, path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ field, path, kind: 'removed', before });
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const beforeKeyed = keyedEntries(before);
+    const afterKeyed = keyedEntries(after);
+    if (beforeKeyed && afterKeyed) {
+      const keys = new Set([...beforeKeyed.keys(), ...afterKeyed.keys()]);
+      for (const key of keys) {
+        diffValues(field, joinPath(path, key, ' › '), beforeKeyed.get(key), afterKeyed.get(key), changes, true);
+      }
+    } else {
+      const length = Math.max(before.length, after.length);
+      for (let i = 0; i < length; i++) {
+        diffValues(field, joinPath(path, `[${String(i)}]`, ' › '), before[i], after[i], changes, true);
+      }
+    }
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      diffValues(field, joinPath(path, key, inArrayItem ? ' › ' : '.'), before[key], after[key], changes);
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ field, path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * List the changes needed to turn `from` into `to`. A field that is null or
+ * empty on both sides is unchanged, whichever of the two it is.
+ */
+export function diffTemplateVersions(
+  from: TemplateVersionContent,
+  to: TemplateVersionContent
+): TemplateVersionChange[] {
+  const changes: TemplateVersionChange[] = [];
+  for (const field of VERSIONED_TEMPLATE_FIELDS) {
+    const before = from[field];
+    const after = to[field];
+    if (isEmpty(before) && isEmpty(after)) continue;
+    diffValues(field, '', isEmpty(before) ? undefined : before, isEmpty(after) ? undefined : after, changes);
+  }
+  return changes;
+}
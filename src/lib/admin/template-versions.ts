@@ -0,0 +1,186 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { logger } from "@/lib/logger";
+import { diffTemplateVersions, type TemplateVersionContent } from "./template-version-diff";
+
+export type TemplateVersion = Tables<'workflow_template_versions'>;
+
+export type TemplateVersionStats = {
+  template_id: string;
+  template_name: string;
+  version_id: string;
+  version_number: number;
+  status: string;
+  published_at: string | null;
+  executions: number;
+  completed: number;
+  failed: number;
+  conversion_rate_pct: number | null;
+  avg_tokens_used: number | null;
+};
+
+/**
+ * Fetch all versions of a template, newest first
+ * @param templateId - The workflow template id
+ */
+export async function fetchTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+  const { data, error } = await supabase
+    .from('workflow_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Save edited template content as a draft. Updates the open draft if there is
+ * one, otherwise starts a new draft - unless the content is identical to the
+ * published version, in which case nothing is saved.
+ * @param templateId - The workflow template id
+ * @param content - The edited versioned content
+ * @param changeNote - Optional note describing the change
+ * @returns The saved draft, or null if there was nothing to save
+ */
+export async function saveTemplateDraft(
+  templateId: string,
+  content: TemplateVersionContent,
+  changeNote?: string
+): Promise<TemplateVersion | null> {
+  const versions = await fetchTemplateVersions(templateId);
+  const openDraft = versions.find(v => v.status === 'draft');
+  const published = versions.find(v => v.status === 'published');
+
+  const fields = {
+    workflow_steps: (content.workflow_steps ?? []) as Json,
+    user_input_fields: (content.user_input_fields ?? null) as Json,
+    preset_parameters: (content.preset_parameters ?? null) as Json,
+    user_editable_fields: (content.user_editable_fields ?? null) as Json,
+    hidden_field_defaults: (content.hidden_field_defaults ?? null) as Json,
+  };
+
+  if (openDraft) {
+    const { data, error } = await supabase
+      .from('workflow_template_versions')
+      .update({ ...fields, change_note: changeNote ?? openDraft.change_note })
+      .eq('id', openDraft.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  if (published && diffTemplateVersions(published, content).length === 0) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('workflow_template_versions')
+    .insert({ ...fields, template_id: templateId, change_note: changeNote ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Publish a draft version - it becomes the live content of the template
+ * @param version - The draft to publish
+ */
+export async function publishTemplateVersion(version: TemplateVersion): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('publish_workflow_template_version', {
+      p_version_id: version.id,
+    });
+
+    if (error) throw error;
+
+    toast.success(`Version ${String(version.version_number)} published`);
+  } catch (error) {
+    logger.error('Template version publish failed', error as Error, {
+      utility: 'template-versions',
+      templateId: version.template_id,
+      versionId: version.id,
+      operation: 'publishTemplateVersion'
+    });
+    toast.error(`Failed to publish version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw error;
+  }
+}
+
+/**
+ * Roll a template back to an earlier version. The earlier content is
+ * published as a new version, so history is never rewritten.
+ * @param version - The version to roll back to
+ */
+export async function rollbackTemplateVersion(version: TemplateVersion): Promise<void> {
+  if (!confirm(`Roll back to version ${String(version.version_number)}? It goes live for all users immediately.`)) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase.rpc('rollback_workflow_template', {
+      p_template_id: version.template_id,
+      p_version_id: version.id,
+    });
+
+    if (error) throw error;
+
+    toast.success(`Rolled back to version ${String(version.version_number)}`);
+  } catch (error) {
+    logger.error('Template rollback failed', error as Error, {
+      utility: 'template-versions',
+      templateId: version.template_id,
+      versionId: version.id,
+      operation: 'rollbackTemplateVersion'
+    });
+    toast.error(`Failed to roll back: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw error;
+  }
+}
+
+/**
+ * Discard an unpublished draft
+ * @param version - The draft to delete
+ */
+export async function discardTemplateDraft(version: TemplateVersion): Promise<void> {
+  if (!confirm(`Discard draft version ${String(version.version_number)}?`)) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('workflow_template_versions')
+    .delete()
+    .eq('id', version.id)
+    .eq('status', 'draft');
+
+  if (error) {
+    logger.error('Template draft discard failed', error, {
+      utility: 'template-versions',
+      templateId: version.template_id,
+      versionId: version.id,
+      operation: 'discardTemplateDraft'
+    });
+    toast.error("Failed to discard draft");
+    throw error;
+  }
+
+  toast.success("Draft discarded");
+}
+
+/**
+ * Execution outcomes per published version, for comparing versions
+ * @param templateId - Limit to one template; all templates when omitted
+ */
+export async function fetchTemplateVersionStats(templateId?: string): Promise<TemplateVersionStats[]> {
+  const { data, error } = await supabase.rpc('get_workflow_template_version_stats', {
+    p_template_id: templateId,
+  });
+
+  if (error) throw error;
+  return data as TemplateVersionStats[];
+}
@@ -116,3 +116,42 @@ export async function downloadMultipleOutputs(
     toast.error(`Failed to download files: ${error instanceof Error ? error.message : 'Unknown error'}. Try downloading individually from History.`);
   }
 }
+
+/**
+ * Download a file from a (signed) URL under the given name. Browsers ignore
+ * the download attribute on cross-origin links, so the file is fetched and
+ * saved from a blob URL.
+ */
+export async function downloadFromUrl(
+  url: string,
+  filename: string,
+  onDownloadSuccess?: () => void
+) {
+  const toastId = toast.loading('Preparing download...');
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${String(response.status)}`);
+    }
+    const blob = await response.blob();
+    const blobUrl = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = blobUrl;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(blobUrl);
+    document.body.removeChild(a);
+    toast.dismiss(toastId);
+    onDownloadSuccess?.();
+  } catch (error) {
+    toast.dismiss(toastId);
+    logger.error('URL download failed', error as Error, {
+      utility: 'download-utils',
+      filename,
+      operation: 'downloadFromUrl'
+    });
+    toast.error(`Failed to download: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
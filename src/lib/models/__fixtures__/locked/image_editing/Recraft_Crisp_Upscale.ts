@@ -0,0 +1,61 @@
+/**
+ * The locked model file as it was before the model moved to
+ * src/lib/models/manifests/image_editing/Recraft_Crisp_Upscale.json.
+ * Only the parts manifest-parity.test.ts compares are kept.
+ */
+export const MODEL_CONFIG = {
+  modelId: "recraft/crisp-upscale",
+  recordId: "00ef3f28-4fab-4244-b93f-0ba48641fcbd",
+  modelName: "Crisp Image Upscale",
+  provider: "kie_ai",
+  contentType: "image_editing",
+  use_api_key: "KIE_AI_API_KEY_IMAGE_EDITING",
+  baseCreditCost: 0.25,
+  estimatedTimeSeconds: 20,
+  costMultipliers: {},
+  apiEndpoint: "/api/v1/jobs/createTask",
+  payloadStructure: "wrapper",
+  maxImages: 1,
+  defaultOutputs: 1,
+
+  // UI metadata
+  isActive: true,
+  logoUrl: "/logos/recraft.png",
+  modelFamily: "Recraft",
+  variantName: "Crisp Image Upscale",
+  displayOrderInFamily: 2,
+
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/image_editing/Recraft_Crisp_Upscale.ts",
+} as const;
+
+export const SCHEMA = {
+  type: "object",
+  properties: {
+    image: {
+      type: "string",
+      description: "Image to upscale. Accepted types: image/jpeg, image/png, image/webp; Max size: 10.0MB",
+      renderer: "image",
+    },
+  },
+  required: ["image"],
+  imageInputField: "image",
+  "x-order": ["image"],
+};
+
+export function validate(inputs: Record<string, any>): { valid: boolean; error?: string } {
+  if (!inputs.image) return { valid: false, error: "Image is required" };
+  return { valid: true };
+}
+
+export function preparePayload(inputs: Record<string, any>): Record<string, any> {
+  // Return only schema parameters - the provider will wrap them in 'input' structure
+  return {
+    image: inputs.image,
+  };
+}
+
+export function calculateCost(_inputs: Record<string, any>): number {
+  return MODEL_CONFIG.baseCreditCost;
+}
@@ -0,0 +1,23 @@
+/**
+ * The locked model file as it was before the model moved to
+ * src/lib/models/manifests/image_editing/Remove_Background_kie_ai.json.
+ * Only the parts manifest-parity.test.ts compares are kept.
+ */
+export const MODEL_CONFIG = { modelId: "recraft/remove-background", recordId: "58b8b09f-57fd-42e3-ae2d-689e9ea3064d", modelName: "Remove Background", provider: "kie_ai", contentType: "image_editing",
+  use_api_key: "KIE_AI_API_KEY_IMAGE_EDITING", baseCreditCost: 0.5, estimatedTimeSeconds: 20, costMultipliers: {}, apiEndpoint: "/api/v1/jobs/createTask", payloadStructure: "wrapper", maxImages: 1, defaultOutputs: 1, 
+  // UI metadata
+  isActive: true,
+  logoUrl: "/logos/plum.png",
+  modelFamily: "Recraft",
+  variantName: "Remove Background",
+  displayOrderInFamily: 2,
+
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/image_editing/Remove_Background_kie_ai.ts" } as const;
+
+export const SCHEMA = { imageInputField: "image", properties: { image: { renderer: "image", type: "string" } }, required: ["image"], type: "object" } as const;
+
+export function validate(inputs: Record<string, any>) { return inputs.image ? { valid: true } : { valid: false, error: "Image required" }; }
+export function preparePayload(inputs: Record<string, any>) { return { modelId: MODEL_CONFIG.modelId, input: { image: inputs.image } }; }
+export function calculateCost(_inputs: Record<string, any>) { return MODEL_CONFIG.baseCreditCost; }
@@ -0,0 +1,88 @@
+/**
+ * The locked model file as it was before the model moved to
+ * src/lib/models/manifests/image_editing/Remove_Background_runware.json.
+ * Only the parts manifest-parity.test.ts compares are kept.
+ */
+import { API_ENDPOINTS } from "@/lib/config/api-endpoints";
+import { brand } from "@/config/brand";
+
+export const MODEL_CONFIG = {
+  modelId: "runware:110@1",
+  recordId: "d1d8b152-e123-4375-8f55-c0d0a699009b",
+  modelName: "Remove Background",
+  provider: "runware",
+  contentType: "image_editing",
+  use_api_key: "RUNWARE_API_KEY_IMAGE_EDITING",
+  baseCreditCost: 0.06,
+  estimatedTimeSeconds: 15,
+  costMultipliers: {},
+  apiEndpoint: API_ENDPOINTS.RUNWARE.fullUrl,
+  payloadStructure: "flat",
+  maxImages: 1,
+  defaultOutputs: 1,
+
+  // UI metadata
+  isActive: true,
+  logoUrl: brand.logoPath,
+  modelFamily: "Artifio",
+  variantName: "Remove Background",
+  displayOrderInFamily: 2,
+
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/image_editing/Remove_Background_runware.ts",
+} as const;
+
+export const SCHEMA = {
+  imageInputField: "inputImage",
+  properties: {
+    includeCost: {
+      default: true,
+      showToUser: false,
+      type: "boolean",
+    },
+    inputImage: {
+      renderer: "image",
+      type: "string",
+    },
+    outputFormat: {
+      default: "PNG",
+      enum: ["PNG", "JPEG", "WEBP"],
+      type: "string",
+    },
+    outputType: {
+      default: ["URL"],
+      items: {
+        format: "uri",
+        type: "string",
+      },
+      showToUser: false,
+      type: "array",
+    },
+    taskType: {
+      default: "imageBackgroundRemoval",
+      showToUser: false,
+      type: "string",
+    },
+  },
+  required: ["inputImage"],
+  type: "object",
+} as const;
+
+export function validate(inputs: Record<string, any>) {
+  return inputs.inputImage ? { valid: true } : { valid: false, error: "Image required" };
+}
+
+export function preparePayload(inputs: Record<string, any>) {
+  return {
+    taskType: "imageBackgroundRemoval",
+    inputImage: inputs.inputImage,
+    outputFormat: inputs.outputFormat || "PNG",
+    outputType: ["URL"],
+    includeCost: true,
+  };
+}
+
+export function calculateCost(_inputs: Record<string, any>) {
+  return MODEL_CONFIG.baseCreditCost;
+}
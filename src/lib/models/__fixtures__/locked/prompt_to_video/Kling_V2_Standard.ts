@@ -0,0 +1,53 @@
+/**
+ * The locked model file as it was before the model moved to
+ * src/lib/models/manifests/prompt_to_video/Kling_V2_Standard.json.
+ * Only the parts manifest-parity.test.ts compares are kept.
+ */
+export const MODEL_CONFIG = {
+  modelId: "kling/v2-standard",
+  recordId: "e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b",
+  modelName: "Kling V2.1 Standard",
+  provider: "kie_ai",
+  contentType: "prompt_to_video",
+  use_api_key: "KIE_AI_API_KEY_PROMPT_TO_VIDEO",
+  baseCreditCost: 12.5,
+  estimatedTimeSeconds: 180,
+  costMultipliers: { duration: { "5": 1, "10": 2 } },
+  apiEndpoint: "/api/v1/jobs/createTask",
+  payloadStructure: "wrapper",
+  maxImages: 0,
+  defaultOutputs: 1,
+  // UI metadata
+  isActive: true,
+  logoUrl: "/logos/kling.png",
+  modelFamily: "Kling",
+  variantName: "Kling V2.1 Standard",
+  displayOrderInFamily: 2,
+
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/prompt_to_video/Kling_V2_Standard.ts",
+} as const;
+
+export const SCHEMA = {
+  properties: {
+    aspect_ratio: { default: "16:9", enum: ["16:9", "9:16", "1:1"], type: "string" },
+    duration: { default: "5", enum: ["5", "10"], type: "string" },
+    prompt: { maxLength: 5000, renderer: "prompt", type: "string" },
+  },
+  required: ["prompt"],
+  type: "object",
+} as const;
+
+export function validate(inputs: Record<string, any>) {
+  return inputs.prompt ? { valid: true } : { valid: false, error: "Prompt required" };
+}
+export function preparePayload(inputs: Record<string, any>) {
+  return {
+    modelId: MODEL_CONFIG.modelId,
+    input: { prompt: inputs.prompt, aspect_ratio: inputs.aspect_ratio || "16:9", duration: inputs.duration || "5" },
+  };
+}
+export function calculateCost(inputs: Record<string, any>) {
+  return MODEL_CONFIG.baseCreditCost * (inputs.duration === "10" ? 2 : 1);
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MODEL_EQUIVALENCE_GROUPS } from '@shared/model-equivalence';
+import { MODEL_MANIFESTS } from '@shared/model-manifests.generated';
+import { RECORD_ID_REGISTRY } from './registry';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+describe('model equivalence groups', () => {
+  for (const group of MODEL_EQUIVALENCE_GROUPS) {
+    describe(group.id, () => {
+      const modules = group.members.map(member => RECORD_ID_REGISTRY[member.recordId]);
+
+      it('lists registered models of one content type on distinct providers', () => {
+        expect(modules.every(Boolean)).toBe(true);
+        expect(new Set(modules.map(m => m.MODEL_CONFIG.contentType)).size).toBe(1);
+        expect(new Set(modules.map(m => m.MODEL_CONFIG.provider)).size).toBe(modules.length);
+      });
+
+      it('maps roles to parameters each model SCHEMA declares', () => {
+        group.members.forEach((member, index) => {
+          for (const parameter of Object.values(member.parameters)) {
+            expect(modules[index].SCHEMA.properties).toHaveProperty(parameter);
+          }
+        });
+      });
+
+      it('maps every required parameter', () => {
+        group.members.forEach((member, index) => {
+          const mapped = Object.values(member.parameters);
+          for (const required of modules[index].SCHEMA.required ?? []) {
+            expect(mapped).toContain(required);
+          }
+        });
+      });
+    });
+  }
+
+  it('defines every member by a manifest, which generate-content prices failovers from', () => {
+    const manifestIds = MODEL_MANIFESTS.map(manifest => manifest.config.recordId);
+
+    for (const group of MODEL_EQUIVALENCE_GROUPS) {
+      for (const member of group.members) {
+        expect(manifestIds).toContain(member.recordId);
+      }
+    }
+  });
+});
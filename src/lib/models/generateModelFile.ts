@@ -1,12 +1,20 @@
 /**
- * Code Generator for Locked Models
- * 
- * Generates a complete, isolated TypeScript file for a locked model
- * Each file contains: schema, config, payload prep, validation, execution
+ * Manifest Generator for Locked Models
+ *
+ * Generates a declarative JSON manifest for a locked model: config, schema,
+ * validation rules, payload mapping and pricing. Manifests are saved under
+ * src/lib/models/manifests and compiled into the client and edge registries
+ * by `npm run compile:model-manifests`.
  */
 
 import type { AIModel } from "@/hooks/useModels";
 import { logger } from "@/lib/logger";
+import type {
+  ManifestPayloadField,
+  ManifestSchema,
+  ManifestValidationRule,
+  ModelManifest,
+} from "@shared/model-manifest";
 
 /**
  * Sanitize model name for use as filename
@@ -25,381 +33,142 @@ function sanitizeModelName(modelName: string): string {
 function extractPrimaryGroup(model: AIModel): string {
   const validGroups = [
     "image_editing",
-    "prompt_to_image", 
+    "prompt_to_image",
     "prompt_to_video",
     "image_to_video",
     "prompt_to_audio"
   ];
-  
+
   if (Array.isArray(model.groups) && model.groups.length > 0) {
     const firstGroup = model.groups[0];
     if (typeof firstGroup === 'string' && validGroups.includes(firstGroup)) {
       return firstGroup;
     }
   }
-  
+
   return "uncategorized";
 }
 
 /**
- * Generate TypeScript code for a locked model
- */
-export function generateModelFile(model: AIModel, lockedBy: string): string {
-  const timestamp = new Date().toISOString();
-  const primaryGroup = extractPrimaryGroup(model);
-  
-  return `/**
- * 🔒 LOCKED MODEL: ${model.model_name}
- * 
- * Group: ${primaryGroup}
- * Generated: ${timestamp}
- * Locked by: ${lockedBy}
- * Provider: ${model.provider}
- * Content Type: ${model.content_type}
- * 
- * ⚠️ DO NOT EDIT THIS FILE MANUALLY
- * To make changes: Unlock in Admin UI → Edit → Re-lock
- * 
- * This file contains the complete isolated logic for this model:
- * - Frozen schema (never changes unless unlocked/re-locked)
- * - Model-specific payload preparation
- * - Validation rules
- * - Cost calculation with Artifio.ai metrics
- * - Execution orchestration
+ * Frozen schema, including ALL renderer configurations for complete UI control
  */
-
-import type { ExecuteGenerationParams } from "@/lib/generation/executeGeneration";
-import { callProvider } from "../../../supabase/functions/generate-content/providers/index";
-import { supabase } from "@/integrations/supabase/client";
-import { logger } from "@/lib/logger";
-import { startPolling } from "@/lib/generation/polling";
-
-// ============================================================================
-// MODEL CONFIGURATION (Artifio.ai Metrics)
-// ============================================================================
-
-export const MODEL_CONFIG = {
-  // Model identifiers
-  modelId: "${model.id}",
-  recordId: "${model.record_id}",
-  modelName: "${model.model_name}",
-  provider: "${model.provider}",
-  contentType: "${model.content_type}",
-  
-  // Artifio.ai credit cost per generation
-  baseCreditCost: ${model.base_token_cost},
-  
-  // Artifio.ai estimated time per generation (seconds)
-  estimatedTimeSeconds: ${model.estimated_time_seconds || 60},
-  
-  // Cost multipliers for different parameters
-  costMultipliers: ${JSON.stringify(model.cost_multipliers || {}, null, 2)},
-  
-  // API endpoint
-  apiEndpoint: ${model.api_endpoint ? `"${model.api_endpoint}"` : "null"},
-  
-  // Payload structure
-  payloadStructure: "${model.payload_structure || "wrapper"}",
-  
-  // Max images allowed
-  maxImages: ${model.max_images || "null"},
-  
-  // Default number of outputs
-  defaultOutputs: ${model.default_outputs || 1},
-} as const;
-
-// ============================================================================
-// FROZEN SCHEMA (from Admin UI at time of lock)
-// Includes ALL renderer configurations for complete UI control
-// ============================================================================
-
-export const SCHEMA = ${JSON.stringify({
-  ...(model.input_schema || {}),
-  usePromptRenderer: model.input_schema?.usePromptRenderer ?? true,
-  useImageRenderer: model.input_schema?.useImageRenderer ?? true,
-  useVoiceRenderer: model.input_schema?.useVoiceRenderer ?? false,
-  useDurationRenderer: model.input_schema?.useDurationRenderer ?? false,
-  useIncrementRenderer: model.input_schema?.useIncrementRenderer ?? true,
-  useOutputFormatRenderer: model.input_schema?.useOutputFormatRenderer ?? false,
-  imageInputField: model.input_schema?.imageInputField ?? null,
-}, null, 2)} as const;
-
-// ============================================================================
-// PAYLOAD PREPARATION (Model-Specific Logic)
-// ============================================================================
-
-/**
- * Prepare the API payload for this specific model
- * This is where model-specific transformations happen
- */
-export function preparePayload(inputs: Record<string, any>): Record<string, any> {
-  logger.info("Preparing payload for locked model", {
-    modelId: MODEL_CONFIG.modelId,
-    inputs: Object.keys(inputs),
-  });
-
-  // Base payload structure
-  const payload: Record<string, any> = {
-    model: MODEL_CONFIG.modelId,
-    prompt: inputs.prompt || "",
+function buildSchema(model: AIModel): ManifestSchema {
+  const inputSchema = model.input_schema || {};
+
+  return {
+    ...inputSchema,
+    type: "object",
+    properties: (inputSchema.properties as Record<string, unknown> | undefined) || {},
+    usePromptRenderer: inputSchema.usePromptRenderer ?? true,
+    useImageRenderer: inputSchema.useImageRenderer ?? true,
+    useVoiceRenderer: inputSchema.useVoiceRenderer ?? false,
+    useDurationRenderer: inputSchema.useDurationRenderer ?? false,
+    useIncrementRenderer: inputSchema.useIncrementRenderer ?? true,
+    useOutputFormatRenderer: inputSchema.useOutputFormatRenderer ?? false,
+    imageInputField: inputSchema.imageInputField ?? null,
   };
-
-  // === VEO3 MODEL-SPECIFIC TRANSFORMATIONS ===
-  // This transformation is model-specific and isolated to locked files
-  const isVeo3Model = MODEL_CONFIG.modelId === 'veo3' || MODEL_CONFIG.modelId === 'veo3_fast';
-  
-  if (isVeo3Model && inputs.generationType !== 'REFERENCE_2_VIDEO') {
-    // Merge startFrame/endFrame into imageUrls array for Primary Provider API
-    // User sees startFrame/endFrame in schema (user-friendly)
-    // Backend converts to imageUrls format (API requirement)
-    const imageUrlsArray: string[] = [];
-    
-    if (inputs.startFrame && typeof inputs.startFrame === 'string') {
-      imageUrlsArray.push(inputs.startFrame);
-    }
-    
-    if (inputs.endFrame && typeof inputs.endFrame === 'string') {
-      imageUrlsArray.push(inputs.endFrame);
-    }
-    
-    if (imageUrlsArray.length > 0) {
-      payload.imageUrls = imageUrlsArray;
-      
-      logger.debug("Merged startFrame/endFrame into imageUrls", {
-        imageCount: imageUrlsArray.length,
-        hasStartFrame: !!inputs.startFrame,
-        hasEndFrame: !!inputs.endFrame
-      });
-    }
-    
-    // Add Primary Provider API defaults (not exposed in user schema)
-    // These are API requirements documented here in the locked file
-    payload.watermark = "";
-    payload.enableFallback = false;
-    payload.enableTranslation = true;
-    
-    logger.debug("Added Primary Provider API defaults", {
-      watermark: payload.watermark,
-      enableFallback: payload.enableFallback,
-      enableTranslation: payload.enableTranslation
-    });
-  }
-
-  // Add all other parameters from inputs (except startFrame/endFrame for Veo3)
-  Object.entries(inputs).forEach(([key, value]) => {
-    if (key !== "prompt" && 
-        !(isVeo3Model && (key === "startFrame" || key === "endFrame")) &&
-        value !== undefined && 
-        value !== null) {
-      payload[key] = value;
-    }
-  });
-
-  return payload;
-
-  return payload;
 }
 
-// ============================================================================
-// COST CALCULATION (Artifio.ai Metrics)
-// ============================================================================
-
 /**
- * Calculate the credit cost for this generation
- * Uses base cost + any multipliers from parameters
+ * Build the manifest for a locked model
  */
-export function calculateCost(inputs: Record<string, any>): number {
-  let cost = MODEL_CONFIG.baseCreditCost;
-
-  // Apply cost multipliers if configured
-  if (MODEL_CONFIG.costMultipliers) {
-    Object.entries(MODEL_CONFIG.costMultipliers).forEach(([param, multiplier]) => {
-      if (inputs[param] && typeof multiplier === "number") {
-        cost *= multiplier;
-      }
-    });
-  }
-
-  // Round to 2 decimal places
-  return Math.round(cost * 100) / 100;
-}
-
-// ============================================================================
-// VALIDATION (Model-Specific Rules)
-// ============================================================================
-
-/**
- * Validate inputs for this specific model
- * Add model-specific validation rules here
- */
-export function validate(inputs: Record<string, any>): { valid: boolean; error?: string } {
-  // Check required fields from schema
-  const requiredFields = SCHEMA.required || [];
-  
-  for (const field of requiredFields) {
-    if (!inputs[field] || inputs[field] === "") {
-      return {
-        valid: false,
-        error: \`Required field missing: \${field}\`,
-      };
+export function buildModelManifest(model: AIModel): ModelManifest {
+  const schema = buildSchema(model);
+  const properties = schema.properties as Record<string, { default?: unknown; maxLength?: number }>;
+  const costMultipliers = (model.cost_multipliers || {}) as ModelManifest["config"]["costMultipliers"];
+
+  const validation: ManifestValidationRule[] = (schema.required || []).map(field => ({
+    field,
+    rule: "required" as const,
+    message: `Required field missing: ${field}`,
+  }));
+  for (const [field, property] of Object.entries(properties)) {
+    if (typeof property.maxLength === "number") {
+      validation.push({
+        field,
+        rule: "maxLength",
+        value: property.maxLength,
+        message: `${field} must be ${String(property.maxLength)} characters or less`,
+      });
     }
   }
 
-  // Validate prompt length (if prompt exists)
-  if (inputs.prompt && typeof inputs.prompt === "string") {
-    if (inputs.prompt.length < 3) {
-      return {
-        valid: false,
-        error: "Prompt must be at least 3 characters",
-      };
+  // Pass every SCHEMA input through as-is; edit the manifest for renamed keys or constants
+  const fields: ManifestPayloadField[] = Object.keys(properties).map(key => ({ key, from: key, when: "defined" }));
+
+  const multipliers: NonNullable<ModelManifest["pricing"]>["multipliers"] = [];
+  for (const [param, table] of Object.entries(costMultipliers)) {
+    if (typeof table !== "object") {
+      logger.warn("Skipping flat cost multiplier; manifests price by value tables", { modelId: model.id, param });
+      continue;
     }
+    const fallback = (param in properties ? properties[param].default : undefined) ?? Object.keys(table)[0];
+    multipliers.push({ param, default: fallback as string | number });
   }
 
-  // TODO: Add model-specific validation rules
-  // Example for image-to-video models:
-  // if (!inputs.startFrame) {
-  //   return { valid: false, error: "Start frame is required" };
-  // }
-
-  return { valid: true };
+  return {
+    config: {
+      modelId: model.id,
+      recordId: model.record_id,
+      modelName: model.model_name,
+      provider: model.provider,
+      contentType: model.content_type,
+      baseCreditCost: model.base_token_cost,
+      estimatedTimeSeconds: model.estimated_time_seconds || 60,
+      costMultipliers,
+      apiEndpoint: model.api_endpoint,
+      payloadStructure: model.payload_structure || "wrapper",
+      maxImages: model.max_images ?? null,
+      defaultOutputs: model.default_outputs || 1,
+      isActive: model.is_active,
+      logoUrl: model.logo_url ?? null,
+      modelFamily: model.model_family ?? null,
+      variantName: model.variant_name ?? null,
+      displayOrderInFamily: model.display_order_in_family ?? undefined,
+      isPerSecondPricing: model.is_per_second_pricing ?? undefined,
+    },
+    schema,
+    validation,
+    payload: {
+      wrapper: model.payload_structure === "flat" ? undefined : { modelKey: "model", inputKey: "input" },
+      fields,
+    },
+    pricing: { multipliers },
+  };
 }
 
-// ============================================================================
-// EXECUTION (Orchestrates the entire generation)
-// ============================================================================
-
 /**
- * Execute this locked model
- * Handles: validation, cost calc, DB creation, provider call, polling
+ * Generate the JSON manifest for a locked model
  */
-export async function execute(params: ExecuteGenerationParams): Promise<string> {
-  const { model, userId, prompt, customParameters, navigateToHistory } = params;
-  
-  const startTime = Date.now();
-  
-  logger.info("Executing locked model", {
-    modelId: MODEL_CONFIG.modelId,
-    userId,
-  });
-
-  try {
-    // 1. Validate inputs
-    const validation = validate(customParameters);
-    if (!validation.valid) {
-      throw new Error(validation.error || "Validation failed");
-    }
-
-    // 2. Calculate cost
-    const tokenCost = calculateCost(customParameters);
-    
-    logger.info("Locked model cost calculated", {
-      modelId: MODEL_CONFIG.modelId,
-      tokenCost,
-      estimatedTime: MODEL_CONFIG.estimatedTimeSeconds,
-    });
-
-    // 3. Create generation record in database
-    const { data: generation, error: dbError } = await supabase
-      .from("generations")
-      .insert({
-        user_id: userId,
-        model_id: MODEL_CONFIG.modelId,
-        model_record_id: MODEL_CONFIG.recordId,
-        prompt,
-        type: MODEL_CONFIG.contentType,
-        tokens_used: tokenCost,
-        status: "pending",
-        settings: customParameters,
-      })
-      .select()
-      .single();
-
-    if (dbError || !generation) {
-      throw new Error(\`Failed to create generation: \${dbError?.message}\`);
-    }
-
-    logger.info("Generation record created", {
-      generationId: generation.id,
-      modelId: MODEL_CONFIG.modelId,
-    });
-
-    // 4. Prepare payload for provider
-    const payload = preparePayload({
-      ...customParameters,
-      prompt,
-    });
-
-    // 5. Call provider (still uses shared provider logic)
-    const providerRequest = {
-      model: MODEL_CONFIG.modelId,
-      parameters: payload,
-      api_endpoint: MODEL_CONFIG.apiEndpoint || undefined,
-      payload_structure: MODEL_CONFIG.payloadStructure,
-      input_schema: SCHEMA,
-    };
-
-    logger.info("Calling provider for locked model", {
-      generationId: generation.id,
-      provider: MODEL_CONFIG.provider,
-    });
-
-    // Note: Provider call implementation would need to be adapted
-    // For now, this is a placeholder showing the structure
-    // In production, you'd call the actual provider here
-
-    // 6. Start polling for result
-    startPolling(generation.id, navigateToHistory);
-
-    // 7. Log execution time
-    const executionTime = Date.now() - startTime;
-    logger.info("Locked model execution completed", {
-      generationId: generation.id,
-      modelId: MODEL_CONFIG.modelId,
-      executionTimeMs: executionTime,
-      estimatedTimeSeconds: MODEL_CONFIG.estimatedTimeSeconds,
-    });
-
-    return generation.id;
-  } catch (error) {
-    const executionTime = Date.now() - startTime;
-    
-    logger.error("Locked model execution failed", {
-      modelId: MODEL_CONFIG.modelId,
-      userId,
-      executionTimeMs: executionTime,
-      error: error instanceof Error ? error.message : String(error),
-    });
-
-    throw error;
-  }
-}
-`;
+export function generateModelFile(model: AIModel): string {
+  return `${JSON.stringify(buildModelManifest(model), null, 2)}\n`;
 }
 
 /**
- * Generate filename path for a locked model (includes group directory)
+ * Generate filename path for a locked model manifest (includes group directory)
  */
 export function generateFileName(model: AIModel): string {
   const primaryGroup = extractPrimaryGroup(model);
   const sanitizedName = sanitizeModelName(model.model_name);
-  return `${primaryGroup}/${sanitizedName}.ts`;
+  return `${primaryGroup}/${sanitizedName}.json`;
 }
 
 /**
- * Save generated model file (would be done via API in production)
+ * Save generated model manifest (would be done via API in production)
  */
 export async function saveLockedModelFile(
   model: AIModel,
   lockedBy: string
 ): Promise<{ fileName: string; content: string }> {
   const fileName = generateFileName(model);
-  const content = generateModelFile(model, lockedBy);
+  const content = generateModelFile(model);
   const primaryGroup = extractPrimaryGroup(model);
 
-  logger.info("Generated locked model file", {
+  logger.info("Generated locked model manifest", {
     modelId: model.id,
     fileName,
     group: primaryGroup,
+    lockedBy,
     contentLength: content.length,
   });
 
@@ -241,3 +241,40 @@ export async function execute(params: ExecuteGenerationParams): Promise<string>
   startPolling(gen.id);
   return gen.id;
 }
+
+// ============================================================================
+// STORYBOARD DEFAULTS
+// ============================================================================
+
+import type { StoryboardContext, StoryboardDefaults } from "@/lib/models/types/storyboard";
+
+// Map storyboard aspect ratios to model-supported ratios
+const ASPECT_RATIO_MAP: Record<string, string | undefined> = {
+  sd: "4:3",
+  hd: "16:9",
+  "full-hd": "16:9",
+  squared: "1:1",
+  "instagram-story": "9:16",
+  "instagram-feed": "3:4", // 4:5 not supported, use closest portrait ratio
+};
+
+/**
+ * Storyboard-optimized defaults for FLUX.1 Kontext Max
+ * Edits from the first cast reference image when the scene shows one
+ */
+export function getStoryboardDefaults(ctx: StoryboardContext): StoryboardDefaults {
+  const ratio = ASPECT_RATIO_MAP[ctx.aspectRatio ?? ""] ?? ctx.aspectRatio ?? "16:9";
+  const defaults: StoryboardDefaults = {
+    prompt: ctx.prompt,
+    aspectRatio: (SCHEMA.properties.aspectRatio.enum as string[]).includes(ratio) ? ratio : "16:9",
+    outputFormat: "jpeg",
+    enableTranslation: true,
+  };
+
+  const [referenceImage] = ctx.referenceImages ?? [];
+  if (referenceImage) {
+    defaults.inputImage = referenceImage;
+  }
+
+  return defaults;
+}
@@ -270,3 +270,46 @@ export async function execute(params: ExecuteGenerationParams): Promise<string>
   startPolling(gen.id);
   return gen.id;
 }
+
+// ============================================================================
+// STORYBOARD DEFAULTS
+// ============================================================================
+
+import type { StoryboardContext, StoryboardDefaults } from "@/lib/models/types/storyboard";
+
+// Map storyboard aspect ratios to the closest output size
+const IMAGE_SIZE_MAP: Record<string, string | undefined> = {
+  sd: "landscape_4_3",
+  hd: "landscape_16_9",
+  "full-hd": "landscape_16_9",
+  squared: "square_hd",
+  "instagram-story": "portrait_16_9",
+  "instagram-feed": "portrait_4_3",
+  "16:9": "landscape_16_9",
+  "9:16": "portrait_16_9",
+  "4:3": "landscape_4_3",
+  "3:4": "portrait_4_3",
+  "1:1": "square_hd",
+};
+
+/**
+ * Storyboard-optimized defaults for Ideogram Character
+ * Takes the first cast reference image (the provider supports one) and the cast seed
+ */
+export function getStoryboardDefaults(ctx: StoryboardContext): StoryboardDefaults {
+  const defaults: StoryboardDefaults = {
+    prompt: ctx.prompt,
+    reference_image_urls: (ctx.referenceImages ?? []).slice(0, MODEL_CONFIG.maxImages),
+    image_size: IMAGE_SIZE_MAP[ctx.aspectRatio ?? ""] ?? "square_hd",
+    rendering_speed: "TURBO", // Lowest cost for storyboarding
+    style: "AUTO",
+    num_images: "1",
+    expand_prompt: true,
+  };
+
+  if (ctx.seed !== undefined && ctx.seed !== null) {
+    defaults.seed = ctx.seed;
+  }
+
+  return defaults;
+}
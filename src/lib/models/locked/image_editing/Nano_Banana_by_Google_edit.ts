@@ -174,3 +174,34 @@ export async function execute(params: ExecuteGenerationParams): Promise<string>
   startPolling(gen.id);
   return gen.id;
 }
+
+// ============================================================================
+// STORYBOARD DEFAULTS
+// ============================================================================
+
+import type { StoryboardContext, StoryboardDefaults } from "@/lib/models/types/storyboard";
+
+// Map storyboard aspect ratios to model-supported ratios
+const ASPECT_RATIO_MAP: Record<string, string | undefined> = {
+  sd: "4:3",
+  hd: "16:9",
+  "full-hd": "16:9",
+  squared: "1:1",
+  "instagram-story": "9:16",
+  "instagram-feed": "4:5",
+};
+
+/**
+ * Storyboard-optimized defaults for Nano Banana edit
+ * Scenes showing cast members get their reference images as image_urls
+ */
+export function getStoryboardDefaults(ctx: StoryboardContext): StoryboardDefaults {
+  const ratio = ASPECT_RATIO_MAP[ctx.aspectRatio ?? ""] ?? ctx.aspectRatio ?? "auto";
+
+  return {
+    prompt: ctx.prompt,
+    image_urls: (ctx.referenceImages ?? []).slice(0, MODEL_CONFIG.maxImages),
+    image_size: (SCHEMA.properties.image_size.enum as readonly string[]).includes(ratio) ? ratio : "auto",
+    output_format: "png",
+  };
+}
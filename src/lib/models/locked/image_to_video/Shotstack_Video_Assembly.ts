@@ -0,0 +1,204 @@
+/** Shotstack Video Assembly (image_to_video) - Record: fb0754dc-d121-4ea6-a069-25116a38b946 */
+import { getGenerationType } from "@/lib/models/registry";
+import { supabase } from "@/integrations/supabase/client";
+import type { ExecuteGenerationParams } from "@/lib/generation/executeGeneration";
+import { reserveCredits } from "@/lib/models/creditDeduction";
+import { GENERATION_STATUS } from "@/constants/generation-status";
+import { sanitizeForStorage } from "@/lib/database/sanitization";
+import { extractEdgeFunctionError } from "@/lib/utils/edge-function-error";
+import { brand } from "@/config/brand";
+
+/**
+ * Shotstack Video Assembly
+ * - Renders an MP4 from images shown in sequence, with an optional voiceover
+ *   and background music
+ * - The edit is built server-side (generate-content/providers/shotstack.ts)
+ * - In workflows, map image_urls and audio_url to earlier steps' outputs
+ * - Pricing: 0.2 credits per second of video, 1 credit minimum
+ */
+export const MODEL_CONFIG = {
+  modelId: "shotstack/video-assembly",
+  recordId: "fb0754dc-d121-4ea6-a069-25116a38b946",
+  modelName: "Shotstack Video Assembly",
+  provider: "shotstack",
+  contentType: "image_to_video",
+  baseCreditCost: 1, // Minimum
+  creditsPerSecond: 0.2,
+  estimatedTimeSeconds: 90,
+  apiEndpoint: null, // Render request is built by the provider
+  payloadStructure: "wrapper",
+  costMultipliers: null,
+  maxImages: 20,
+  maxAudios: 1,
+  defaultOutputs: 1,
+  // UI metadata
+  isActive: true,
+  logoUrl: brand.logoPath,
+  modelFamily: "Shotstack",
+  variantName: "Video Assembly",
+  displayOrderInFamily: 1,
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/image_to_video/Shotstack_Video_Assembly.ts",
+  // Pricing display
+  isPerSecondPricing: true,
+} as const;
+
+export const SCHEMA = {
+  imageInputField: "image_urls",
+  audioInputField: "audio_url",
+  properties: {
+    image_urls: {
+      type: "array",
+      title: "Images",
+      description: "Images shown in order, one clip each (max 20)",
+      renderer: "image",
+      items: { type: "string", format: "uri" },
+      minItems: 1,
+      maxItems: 20,
+    },
+    audio_url: {
+      type: "string",
+      format: "uri",
+      title: "Voiceover",
+      description: "Optional narration played from the start of the video",
+      renderer: "audio",
+    },
+    background_music_url: {
+      type: "string",
+      format: "uri",
+      title: "Background Music",
+      description: "Optional music track, faded in and out",
+      showToUser: false,
+    },
+    music_volume: {
+      type: "number",
+      minimum: 0,
+      maximum: 1,
+      default: 0.2,
+      title: "Music Volume",
+      showToUser: false,
+    },
+    clip_duration: {
+      type: "number",
+      minimum: 1,
+      maximum: 30,
+      default: 5,
+      title: "Seconds per Image",
+    },
+    aspect_ratio: {
+      type: "string",
+      enum: ["16:9", "9:16", "4:5", "1:1"],
+      default: "16:9",
+      title: "Aspect Ratio",
+    },
+    transition: {
+      type: "string",
+      enum: ["fade", "zoom", "slideLeft", "none"],
+      default: "fade",
+      title: "Transition",
+    },
+  },
+  required: ["image_urls"],
+  type: "object",
+} as const;
+
+export function validate(inputs: Record<string, any>) {
+  if (!inputs.image_urls || inputs.image_urls.length === 0) {
+    return { valid: false, error: "At least one image is required" };
+  }
+  if (inputs.image_urls.length > 20) return { valid: false, error: "Maximum 20 images allowed" };
+  if (inputs.clip_duration !== undefined && (inputs.clip_duration < 1 || inputs.clip_duration > 30)) {
+    return { valid: false, error: "Seconds per image must be between 1 and 30" };
+  }
+  return { valid: true };
+}
+
+export function preparePayload(inputs: Record<string, any>) {
+  const payload: Record<string, any> = {
+    image_urls: Array.isArray(inputs.image_urls) ? inputs.image_urls : [inputs.image_urls],
+    clip_duration: inputs.clip_duration ?? 5,
+    aspect_ratio: inputs.aspect_ratio || "16:9",
+    transition: inputs.transition || "fade",
+  };
+
+  if (inputs.audio_url) payload.audio_url = inputs.audio_url;
+  if (inputs.background_music_url) {
+    payload.background_music_url = inputs.background_music_url;
+    payload.music_volume = inputs.music_volume ?? 0.2;
+  }
+
+  return {
+    model: MODEL_CONFIG.modelId,
+    input: payload,
+  };
+}
+
+export function calculateCost(inputs: Record<string, any>) {
+  const imageCount = Array.isArray(inputs.image_urls) ? inputs.image_urls.length : 1;
+  const duration = imageCount * (inputs.clip_duration || 5);
+  return Math.max(MODEL_CONFIG.baseCreditCost, Math.ceil(duration * MODEL_CONFIG.creditsPerSecond));
+}
+
+export async function execute(params: ExecuteGenerationParams): Promise<string> {
+  const {
+    prompt,
+    modelParameters,
+    uploadedImages,
+    uploadedAudios,
+    userId,
+    uploadImagesToStorage,
+    uploadAudiosToStorage,
+    startPolling,
+  } = params;
+  const inputs: Record<string, any> = { ...modelParameters };
+
+  if (uploadedImages.length > 0) {
+    inputs.image_urls = await uploadImagesToStorage(userId);
+  }
+  if (uploadedAudios && uploadedAudios.length > 0 && uploadAudiosToStorage) {
+    const audioUrls = await uploadAudiosToStorage(userId);
+    inputs.audio_url = audioUrls[0];
+  }
+
+  const validation = validate(inputs);
+  if (!validation.valid) throw new Error(validation.error);
+  const cost = calculateCost(inputs);
+  await reserveCredits(userId, cost);
+
+  const { data: gen, error } = await supabase
+    .from("generations")
+    .insert({
+      user_id: userId,
+      model_id: MODEL_CONFIG.modelId,
+      model_record_id: MODEL_CONFIG.recordId,
+      type: getGenerationType(MODEL_CONFIG.contentType),
+      prompt: prompt || "Video assembly",
+      tokens_used: cost,
+      status: GENERATION_STATUS.PENDING,
+      settings: sanitizeForStorage(modelParameters),
+    })
+    .select()
+    .single();
+  if (error || !gen) throw new Error(`Failed: ${error?.message}`);
+
+  const { error: funcError } = await supabase.functions.invoke("generate-content", {
+    body: {
+      generationId: gen.id,
+      model_config: MODEL_CONFIG,
+      model_schema: SCHEMA,
+      prompt,
+      custom_parameters: preparePayload(inputs),
+      preCalculatedCost: cost,
+    },
+  });
+
+  if (funcError) {
+    await supabase.from("generations").update({ status: GENERATION_STATUS.FAILED }).eq("id", gen.id);
+    const errorMessage = await extractEdgeFunctionError(funcError);
+    throw new Error(errorMessage);
+  }
+
+  startPolling(gen.id);
+  return gen.id;
+}
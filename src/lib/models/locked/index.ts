@@ -17,6 +17,9 @@
 
 import { logger } from "@/lib/logger";
 import type { ExecuteGenerationParams } from "@/lib/generation/executeGeneration";
+import type { ComfyWorkflowTemplate } from "@shared/comfy-workflow";
+import { compileModelManifest } from "@/lib/models/manifest";
+import { MODEL_MANIFESTS } from "@shared/model-manifests.generated";
 
 /**
  * Helper function: Convert contentType to database generation type
@@ -53,7 +56,6 @@ export function getGenerationType(contentType: string): 'image' | 'video' | 'aud
 
 // Image Editing Models (20)
 import * as ChatGPT4oImage_ImageEditing from "./image_editing/ChatGPT_4o_Image";
-import * as RecraftCrispUpscale from "./image_editing/Recraft_Crisp_Upscale";
 import * as FLUX1KontextMax_ImageEditing from "./image_editing/FLUX_1_Kontext_Max";
 import * as FLUX1KontextPro_ImageEditing from "./image_editing/FLUX_1_Kontext_Pro";
 import * as FLUX2FlexImageToImage from "./image_editing/FLUX_2_Flex_Image_to_Image";
@@ -67,8 +69,6 @@ import * as NanoBananaEdit from "./image_editing/Nano_Banana_by_Google_edit";
 import * as NanoBananaProEditing from "./image_editing/Nano_Banana_Pro";
 import * as QwenImageEditorPro from "./image_editing/Qwen_Image_Editor_Pro";
 import * as QwenImageToImage from "./image_editing/Qwen_Image_to_Image";
-import * as RemoveBackgroundKie from "./image_editing/Remove_Background_kie_ai";
-import * as RemoveBackgroundRunware from "./image_editing/Remove_Background_runware";
 import * as Seedream45 from "./image_editing/Seedream_4_5";
 import * as SeedreamV4_ImageEditing from "./image_editing/Seedream_V4";
 import * as RunwareUpscale from "./image_editing/runware_upscale";
@@ -90,7 +90,6 @@ import * as Kling26_ImageToVideo from "./image_to_video/Kling_2_6_I2V";
 import * as KlingV25TurboPro_ImageToVideo from "./image_to_video/Kling_V2_5_Turbo_Pro_I2V";
 import * as KlingV2Master_ImageToVideo from "./image_to_video/Kling_V2_Master";
 import * as KlingV2Pro_ImageToVideo from "./image_to_video/Kling_V2_Pro";
-import * as KlingV2Standard_ImageToVideo from "./image_to_video/Kling_V2_Standard";
 import * as MidjourneyI2V from "./image_to_video/Midjourney_I2V";
 import * as Runway_ImageToVideo from "./image_to_video/Runway";
 import * as SeedanceV1Lite_ImageToVideo from "./image_to_video/Seedance_V1_Lite";
@@ -105,6 +104,8 @@ import * as SeedanceV1ProFastRunware from "./image_to_video/Seedance_V1_0_Pro_Fa
 import * as Seedance15Pro_ImageToVideo from "./image_to_video/Seedance_1_5_Pro_I2V";
 import * as Wan26_ImageToVideo from "./image_to_video/Wan_2_6_I2V";
 import * as RunwareSeedanceProFastI2V from "./image_to_video/Runware_Seedance_Pro_Fast_I2V";
+import * as ShotstackVideoAssembly from "./image_to_video/Shotstack_Video_Assembly";
+import * as Json2VideoVideoAssembly from "./image_to_video/JSON2Video_Video_Assembly";
 
 // Video to Video Models (3)
 import * as TopazVideoUpscale from "./video_to_video/Topaz_Video_Upscale";
@@ -170,6 +171,7 @@ import * as RunwareChatGPTImage15 from "./prompt_to_image/Runware_ChatGPT_Image_
 import * as RunwareFlux2DevT2I from "./prompt_to_image/Runware_Flux2_Dev_T2I";
 import * as RunwareWan25PreviewImage from "./prompt_to_image/Runware_Wan25_Preview_Image";
 import * as RunwareFlux1SchnellNew from "./prompt_to_image/Runware_Flux1_Schnell_New";
+import * as ComfyUISDXL from "./prompt_to_image/ComfyUI_SDXL";
 import * as RunwareFlux1DevNew from "./prompt_to_image/Runware_Flux1_Dev_New";
 import * as RunwareHiDreamI1Full from "./prompt_to_image/Runware_HiDream_I1_Full";
 import * as RunwareHiDreamI1Dev from "./prompt_to_image/Runware_HiDream_I1_Dev";
@@ -196,7 +198,6 @@ import * as Kling26_PromptToVideo from "./prompt_to_video/Kling_2_6_T2V";
 import * as KlingV25TurboPro_PromptToVideo from "./prompt_to_video/Kling_V2_5_Turbo_Pro_T2V";
 import * as KlingV2Master_PromptToVideo from "./prompt_to_video/Kling_V2_Master";
 import * as KlingV2Pro_PromptToVideo from "./prompt_to_video/Kling_V2_Pro";
-import * as KlingV2Standard_PromptToVideo from "./prompt_to_video/Kling_V2_Standard";
 import * as Runway_PromptToVideo from "./prompt_to_video/Runway";
 import * as SeedanceV1Lite_PromptToVideo from "./prompt_to_video/Seedance_V1_Lite";
 import * as SeedanceV1ProFastRunware_PromptToVideo from "./prompt_to_video/Seedance_V1_0_Pro_Fast_runware";
@@ -263,6 +264,7 @@ export interface ModelModule {
     apiEndpoint: string | null;
     payloadStructure: string;
     maxImages: number | null;
+    comfyWorkflow?: ComfyWorkflowTemplate; // Self-hosted ComfyUI models only
 
     // UI metadata
     isActive: boolean;
@@ -286,6 +288,14 @@ export interface ModelModule {
   execute: (params: ExecuteGenerationParams) => Promise<string>;
 }
 
+/**
+ * Models defined by declarative manifests (src/lib/models/manifests)
+ * instead of locked files, compiled into the same module shape
+ */
+const MANIFEST_MODELS: Record<string, ModelModule> = Object.fromEntries(
+  MODEL_MANIFESTS.map(manifest => [manifest.config.recordId, compileModelManifest(manifest)])
+);
+
 /**
  * Registry mapping model IDs to their modules (fallback lookup)
  * Note: Some models share the same model_id but differ by record_id
@@ -294,7 +304,7 @@ export interface ModelModule {
 export const MODEL_REGISTRY: Record<string, ModelModule> = {
   // Image Editing
   "4o-image-api": ChatGPT4oImage_ImageEditing as ModelModule,
-  "recraft/crisp-upscale": RecraftCrispUpscale as ModelModule,
+  "recraft/crisp-upscale": MANIFEST_MODELS["00ef3f28-4fab-4244-b93f-0ba48641fcbd"],
   
   // Prompt to Audio
   "elevenlabs/text-to-speech-turbo-2-5": ElevenLabsFast as ModelModule,
@@ -348,7 +358,6 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   // IMAGE EDITING MODELS (20 total)
   // ═══════════════════════════════════════════════════════════════════════════
   "4b68811b-28be-45cb-bcae-9db721ba4547": ChatGPT4oImage_ImageEditing as ModelModule,      // ChatGPT 4o Image | image_editing | kie_ai
-  "00ef3f28-4fab-4244-b93f-0ba48641fcbd": RecraftCrispUpscale as ModelModule,               // Crisp Image Upscale | image_editing | kie_ai
   "ab0ae096-f0ef-4197-b186-f38d69e72dd3": FLUX1KontextMax_ImageEditing as ModelModule,      // FLUX.1 Kontext Max | image_editing | kie_ai
   "d0ef1f83-a613-47d4-82f8-10e41da3e2a0": FLUX1KontextPro_ImageEditing as ModelModule,      // FLUX.1 Kontext Pro | image_editing | kie_ai
   "e1f2a3b4-5c6d-7e8f-9a0b-1c2d3e4f5a6b": FLUX2FlexImageToImage as ModelModule,             // FLUX 2 Flex Image-to-Image | image_editing | kie_ai
@@ -362,8 +371,6 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   "b4c5d6e7-8f9a-0b1c-2d3e-4f5a6b7c8d9e": NanoBananaProEditing as ModelModule,              // Nano Banana Pro | image_editing | kie_ai
   "b6d430f1-e823-4192-bf72-0dba29079931": QwenImageEditorPro as ModelModule,                // Qwen Image Editor Pro | image_editing | kie_ai
   "99532b69-d951-4431-87e3-1d88a9c8ee73": QwenImageToImage as ModelModule,                  // Qwen Image to Image | image_editing | kie_ai
-  "58b8b09f-57fd-42e3-ae2d-689e9ea3064d": RemoveBackgroundKie as ModelModule,               // Remove Background | image_editing | kie_ai
-  "d1d8b152-e123-4375-8f55-c0d0a699009b": RemoveBackgroundRunware as ModelModule,           // Remove Background | image_editing | runware
   "a3b4c5d6-7e8f-9a0b-1c2d-3e4f5a6b7c8d": Seedream45 as ModelModule,                        // Seedream 4.5 | image_editing | kie_ai
   "57f1e8f3-e4e3-42bd-bd9e-2f2ac6eee41d": SeedreamV4_ImageEditing as ModelModule,           // Seedream V4 | image_editing | kie_ai
   "f14e7b76-98a8-47c7-a0bc-e58dc9ba811c": RunwareUpscale as ModelModule,                    // runware:upscale | image_editing | runware
@@ -417,6 +424,7 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   "8b9c0d1e-2f3a-4b5c-6d7e-567890123456": RunwareHiDreamI1Dev as ModelModule,               // HiDream-i1 Dev | prompt_to_image | runware
   "9c0d1e2f-3a4b-5c6d-7e8f-678901234567": RunwareHiDreamI1Fast as ModelModule,              // HiDream-i1 Fast | prompt_to_image | runware
   "b2c3d4e5-6a7b-8c9d-0e1f-2a3b4c5d6e7f": GPTImage15T2I as ModelModule,                     // GPT Image 1.5 T2I | prompt_to_image | kie_ai
+  "abcee7ef-63d7-46f2-9e39-918d790f620e": ComfyUISDXL as ModelModule,                       // ComfyUI SDXL | prompt_to_image | comfyui
 
   // ═══════════════════════════════════════════════════════════════════════════
   // IMAGE TO VIDEO MODELS (22 total)
@@ -433,7 +441,6 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   "a3b7c9d1-4e5f-6a7b-8c9d-0e1f2a3b4c5d": KlingV25TurboPro_ImageToVideo as ModelModule,     // Kling V2.5 Turbo Pro | image_to_video | kie_ai
   "c3397c13-3a52-4973-a87c-b4c20aca0fc0": KlingV2Master_ImageToVideo as ModelModule,        // Kling V2 Master | image_to_video | kie_ai
   "84084ca4-4153-46bc-8d01-cd4e37d1da68": KlingV2Pro_ImageToVideo as ModelModule,           // Kling V2 Pro | image_to_video | kie_ai
-  "88e09730-07e0-4481-bda8-d9d9bde9fec6": KlingV2Standard_ImageToVideo as ModelModule,      // Kling V2 Standard | image_to_video | kie_ai
   "e5f6a7b8-9c0d-1e2f-3a4b-5c6d7e8f9a0b": MidjourneyI2V as ModelModule,                     // Midjourney I2V | image_to_video | kie_ai
   "d2c37239-d544-4cce-bd8d-fb48ea44b287": Runway_ImageToVideo as ModelModule,               // Runway | image_to_video | kie_ai
   "d7df81f6-dc86-4e04-9f75-d4e8c9b03fb2": SeedanceV1Lite_ImageToVideo as ModelModule,      // Seedance V1 Lite | image_to_video | kie_ai
@@ -447,6 +454,8 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   "a6b1c2d3-8e9f-0a1b-2c3d-4e5f6a7b8c9d": Wan25_ImageToVideo as ModelModule,                // Wan 2.5 | image_to_video | kie_ai
   "b2c3d4e5-6f7a-8b9c-0d1e-f2a3b4c5d6e7": Seedance15Pro_ImageToVideo as ModelModule,        // Seedance 1.5 Pro | image_to_video | kie_ai
   "a1b2c3d4-e5f6-0a1b-2c3d-4e5f6a7b8c9d": RunwareSeedanceProFastI2V as ModelModule,         // Seedance 1.0 Pro Fast (I2V) | image_to_video | runware
+  "fb0754dc-d121-4ea6-a069-25116a38b946": ShotstackVideoAssembly as ModelModule,            // Shotstack Video Assembly | image_to_video | shotstack
+  "51b77842-d771-47c8-8502-1e3bd60e5aea": Json2VideoVideoAssembly as ModelModule,           // JSON2Video Video Assembly | image_to_video | json2video
   
   // ═══════════════════════════════════════════════════════════════════════════
   // PROMPT TO VIDEO MODELS (22 total)
@@ -460,7 +469,6 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   "c5d9e1f3-6a7b-8c9d-0e1f-2a3b4c5d6e7f": KlingV25TurboPro_PromptToVideo as ModelModule,    // Kling V2.5 Turbo Pro | prompt_to_video | kie_ai
   "c5754cad-2b2c-4636-bc19-4ccaa97dde3d": KlingV2Master_PromptToVideo as ModelModule,       // Kling V2 Master | prompt_to_video | kie_ai
   "b6e8c4a3-5d2f-1c7e-8a0f-3d5b6c7e4a8f": KlingV2Pro_PromptToVideo as ModelModule,          // Kling V2 Pro | prompt_to_video | kie_ai
-  "e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b": KlingV2Standard_PromptToVideo as ModelModule,     // Kling V2 Standard | prompt_to_video | kie_ai
   "7bde9fb9-b16b-47b0-86a7-c0762a1a58e3": Runway_PromptToVideo as ModelModule,              // Runway | prompt_to_video | kie_ai
   "d9808197-5344-431e-a28e-b84482de076a": SeedanceV1Lite_PromptToVideo as ModelModule,     // Seedance V1 Lite | prompt_to_video | kie_ai
   "734c7712-aae3-4ad2-93b9-df198623503d": SeedanceV1ProFastRunware_PromptToVideo as ModelModule, // Seedance V1.0 Pro Fast | prompt_to_video | runware
@@ -497,6 +505,11 @@ export const RECORD_ID_REGISTRY: Record<string, ModelModule> = {
   // Additional Wan 2.6 models
   "b3c4d5e6-7f8a-9b0c-1d2e-3f4a5b6c7d8e": Wan26_ImageToVideo as ModelModule,                // Wan 2.6 I2V | image_to_video | kie_ai
   "c4d5e6f7-8a9b-0c1d-2e3f-4a5b6c7d8e9f": Wan26_PromptToVideo as ModelModule,               // Wan 2.6 T2V | prompt_to_video | kie_ai
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MANIFEST MODELS (compiled from src/lib/models/manifests)
+  // ═══════════════════════════════════════════════════════════════════════════
+  ...MANIFEST_MODELS,
 };
 
 /**
@@ -0,0 +1,205 @@
+/** ComfyUI SDXL (prompt_to_image) - Record: abcee7ef-63d7-46f2-9e39-918d790f620e */
+import { getGenerationType } from "@/lib/models/registry";
+import { supabase } from "@/integrations/supabase/client";
+import type { ExecuteGenerationParams } from "@/lib/generation/executeGeneration";
+import { reserveCredits } from "@/lib/models/creditDeduction";
+import { GENERATION_STATUS } from "@/constants/generation-status";
+import { sanitizeForStorage } from "@/lib/database/sanitization";
+import { extractEdgeFunctionError } from "@/lib/utils/edge-function-error";
+import type { ComfyWorkflowTemplate } from "@shared/comfy-workflow";
+import { brand } from "@/config/brand";
+
+/**
+ * Stock SDXL text-to-image graph in ComfyUI API format
+ * (Workflow > Export (API) in the ComfyUI editor). Each SCHEMA property is
+ * bound to the node input it fills; node 9 saves the result.
+ */
+const COMFY_WORKFLOW: ComfyWorkflowTemplate = {
+  workflow: {
+    "3": {
+      class_type: "KSampler",
+      inputs: {
+        seed: 0,
+        steps: 30,
+        cfg: 7,
+        sampler_name: "dpmpp_2m",
+        scheduler: "karras",
+        denoise: 1,
+        model: ["4", 0],
+        positive: ["6", 0],
+        negative: ["7", 0],
+        latent_image: ["5", 0],
+      },
+    },
+    "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "sd_xl_base_1.0.safetensors" } },
+    "5": { class_type: "EmptyLatentImage", inputs: { width: 1024, height: 1024, batch_size: 1 } },
+    "6": { class_type: "CLIPTextEncode", inputs: { text: "", clip: ["4", 1] } },
+    "7": { class_type: "CLIPTextEncode", inputs: { text: "", clip: ["4", 1] } },
+    "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+    "9": { class_type: "SaveImage", inputs: { filename_prefix: "generation", images: ["8", 0] } },
+  },
+  bindings: {
+    prompt: { node: "6", input: "text" },
+    negative_prompt: { node: "7", input: "text" },
+    width: { node: "5", input: "width" },
+    height: { node: "5", input: "height" },
+    steps: { node: "3", input: "steps" },
+    cfg: { node: "3", input: "cfg" },
+    seed: { node: "3", input: "seed" },
+  },
+  outputNode: "9",
+};
+
+/**
+ * ComfyUI SDXL
+ * - Runs on the team's self-hosted ComfyUI (COMFYUI_BASE_URL)
+ * - The graph above is submitted by generate-content/providers/comfyui.ts;
+ *   copy this file and swap the workflow and bindings to add another graph
+ * - Inactive until a ComfyUI server is configured for the environment
+ */
+export const MODEL_CONFIG = {
+  modelId: "comfyui/sdxl",
+  recordId: "abcee7ef-63d7-46f2-9e39-918d790f620e",
+  modelName: "ComfyUI SDXL",
+  provider: "comfyui",
+  contentType: "prompt_to_image",
+  baseCreditCost: 0.5,
+  estimatedTimeSeconds: 30,
+  apiEndpoint: null, // Workflow is queued by the provider
+  payloadStructure: "flat",
+  costMultipliers: null,
+  maxImages: 0,
+  defaultOutputs: 1,
+  comfyWorkflow: COMFY_WORKFLOW,
+  // UI metadata
+  isActive: false,
+  logoUrl: brand.logoPath,
+  modelFamily: "ComfyUI",
+  variantName: "SDXL",
+  displayOrderInFamily: 1,
+  // Lock system
+  isLocked: true,
+  lockedFilePath: "src/lib/models/locked/prompt_to_image/ComfyUI_SDXL.ts",
+} as const;
+
+export const SCHEMA = {
+  properties: {
+    prompt: {
+      type: "string",
+      renderer: "prompt",
+      maxLength: 2000,
+    },
+    negative_prompt: {
+      type: "string",
+      title: "Negative Prompt",
+      default: "",
+    },
+    width: {
+      type: "integer",
+      enum: [768, 832, 896, 1024, 1152, 1216, 1344],
+      default: 1024,
+      title: "Width",
+    },
+    height: {
+      type: "integer",
+      enum: [768, 832, 896, 1024, 1152, 1216, 1344],
+      default: 1024,
+      title: "Height",
+    },
+    steps: {
+      type: "integer",
+      minimum: 10,
+      maximum: 60,
+      default: 30,
+      title: "Steps",
+      showToUser: false,
+    },
+    cfg: {
+      type: "number",
+      minimum: 1,
+      maximum: 15,
+      default: 7,
+      title: "Guidance",
+      showToUser: false,
+    },
+    seed: {
+      type: "integer",
+      minimum: 0,
+      title: "Seed",
+      description: "Leave empty for a random seed",
+      showToUser: false,
+    },
+  },
+  required: ["prompt"],
+  type: "object",
+} as const;
+
+export function validate(inputs: Record<string, any>) {
+  if (!inputs.prompt) return { valid: false, error: "Prompt required" };
+  if (inputs.prompt.length > 2000) return { valid: false, error: "Prompt must be 2000 characters or less" };
+  return { valid: true };
+}
+
+export function preparePayload(inputs: Record<string, any>) {
+  return {
+    prompt: inputs.prompt,
+    negative_prompt: inputs.negative_prompt || "",
+    width: inputs.width ?? 1024,
+    height: inputs.height ?? 1024,
+    steps: inputs.steps ?? 30,
+    cfg: inputs.cfg ?? 7,
+    // ComfyUI caches identical prompts, so a fixed seed would return the last image
+    seed: inputs.seed ?? Math.floor(Math.random() * 2 ** 32),
+  };
+}
+
+export function calculateCost(_inputs: Record<string, any>) {
+  return MODEL_CONFIG.baseCreditCost;
+}
+
+export async function execute(params: ExecuteGenerationParams): Promise<string> {
+  const { prompt, modelParameters, userId, startPolling } = params;
+  const inputs: Record<string, any> = { ...modelParameters, prompt };
+
+  const validation = validate(inputs);
+  if (!validation.valid) throw new Error(validation.error);
+
+  const cost = calculateCost(inputs);
+  await reserveCredits(userId, cost);
+
+  const { data: gen, error } = await supabase
+    .from("generations")
+    .insert({
+      user_id: userId,
+      model_id: MODEL_CONFIG.modelId,
+      model_record_id: MODEL_CONFIG.recordId,
+      type: getGenerationType(MODEL_CONFIG.contentType),
+      prompt,
+      tokens_used: cost,
+      status: GENERATION_STATUS.PENDING,
+      settings: sanitizeForStorage(modelParameters),
+    })
+    .select()
+    .single();
+  if (error || !gen) throw new Error(`Failed: ${error?.message}`);
+
+  const { error: funcError } = await supabase.functions.invoke("generate-content", {
+    body: {
+      generationId: gen.id,
+      model_config: MODEL_CONFIG,
+      model_schema: SCHEMA,
+      prompt: inputs.prompt,
+      custom_parameters: preparePayload(inputs),
+      preCalculatedCost: cost,
+    },
+  });
+
+  if (funcError) {
+    await supabase.from("generations").update({ status: GENERATION_STATUS.FAILED }).eq("id", gen.id);
+    const errorMessage = await extractEdgeFunctionError(funcError);
+    throw new Error(errorMessage);
+  }
+
+  startPolling(gen.id);
+  return gen.id;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { RECORD_ID_REGISTRY, type ModelModule } from './registry';
+import { buildSchemaCases, type SchemaProperty } from './registry-drift';
+import * as RecraftCrispUpscale from './__fixtures__/locked/image_editing/Recraft_Crisp_Upscale';
+import * as RemoveBackgroundKieAi from './__fixtures__/locked/image_editing/Remove_Background_kie_ai';
+import * as RemoveBackgroundRunware from './__fixtures__/locked/image_editing/Remove_Background_runware';
+import * as KlingV2StandardImageToVideo from './__fixtures__/locked/image_to_video/Kling_V2_Standard';
+import * as KlingV2StandardPromptToVideo from './__fixtures__/locked/prompt_to_video/Kling_V2_Standard';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+/**
+ * Parity between model manifests and the hand-written locked files they
+ * replace. A model migrated to a manifest must reproduce its locked file's
+ * config, schema, validation, payload and cost for the same inputs; the
+ * locked files are kept under __fixtures__ for this comparison.
+ */
+
+type ComparedModule = Pick<ModelModule, 'MODEL_CONFIG' | 'SCHEMA' | 'validate' | 'preparePayload' | 'calculateCost'>;
+
+const MIGRATED_MODELS: Record<string, ComparedModule> = {
+  'image_editing/Recraft_Crisp_Upscale': RecraftCrispUpscale as unknown as ComparedModule,
+  'image_editing/Remove_Background_kie_ai': RemoveBackgroundKieAi as unknown as ComparedModule,
+  'image_editing/Remove_Background_runware': RemoveBackgroundRunware as unknown as ComparedModule,
+  'image_to_video/Kling_V2_Standard': KlingV2StandardImageToVideo as unknown as ComparedModule,
+  'prompt_to_video/Kling_V2_Standard': KlingV2StandardPromptToVideo as unknown as ComparedModule,
+};
+
+function attempt<T>(fn: () => T): T | { threw: string } {
+  try {
+    return fn();
+  } catch (error) {
+    return { threw: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function describeBehavior(module: ComparedModule) {
+  const { isLocked: _isLocked, lockedFilePath: _lockedFilePath, ...config } = module.MODEL_CONFIG;
+  const schemaCases = buildSchemaCases(module as ModelModule);
+  const cases = Object.entries(schemaCases).map(([name, inputs]) => ({
+    name,
+    validate: attempt(() => module.validate({ ...inputs })),
+    cost: attempt(() => module.calculateCost({ ...inputs })),
+    payload: attempt(() => module.preparePayload({ ...inputs })),
+  }));
+
+  const properties = module.SCHEMA.properties as Record<string, SchemaProperty>;
+  const overlong = Object.entries(properties)
+    .filter(([, property]) => property.type === 'string' && property.maxLength !== undefined)
+    .map(([name, property]) => {
+      const inputs = { ...schemaCases.defaults, [name]: 'a'.repeat((property.maxLength ?? 0) + 1) };
+      return {
+        name: `${name}>maxLength`,
+        validate: attempt(() => module.validate({ ...inputs })),
+        cost: attempt(() => module.calculateCost({ ...inputs })),
+      };
+    });
+
+  return { config, schema: module.SCHEMA, cases, overlong };
+}
+
+describe('model manifest parity', () => {
+  beforeAll(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    vi.spyOn(crypto, 'randomUUID').mockReturnValue('00000000-0000-4000-8000-000000000000');
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  for (const [name, locked] of Object.entries(MIGRATED_MODELS)) {
+    it(`reproduces the locked ${name}`, () => {
+      const manifest = RECORD_ID_REGISTRY[locked.MODEL_CONFIG.recordId];
+      expect(manifest).toBeDefined();
+      expect(describeBehavior(manifest)).toEqual(describeBehavior(locked));
+    });
+  }
+});
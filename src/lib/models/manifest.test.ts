@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { compileModelManifest } from './manifest';
+import { validateModelManifest } from '@shared/model-manifest';
+import { MODEL_MANIFESTS } from '@shared/model-manifests.generated';
+import { RECORD_ID_REGISTRY } from './registry';
+import { buildModelManifest, generateFileName } from './generateModelFile';
+import type { AIModel } from '@/hooks/useModels';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+const MANIFEST_DIR = 'src/lib/models/manifests';
+
+function readManifestSources(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return readManifestSources(path);
+    return entry.name.endsWith('.json') ? [path] : [];
+  });
+}
+
+describe('model manifests', () => {
+  it('are compiled from the current JSON sources', () => {
+    const sources = readManifestSources(MANIFEST_DIR).sort();
+
+    expect(MODEL_MANIFESTS.map(manifest => manifest.source)).toEqual(sources);
+    for (const manifest of MODEL_MANIFESTS) {
+      const { source, ...compiled } = manifest;
+      expect(compiled).toEqual(JSON.parse(readFileSync(source ?? '', 'utf-8')));
+    }
+  });
+
+  it('pass manifest validation', () => {
+    for (const manifest of MODEL_MANIFESTS) {
+      expect(validateModelManifest(manifest), manifest.source).toEqual([]);
+    }
+  });
+
+  it('replace the registry entry for their record ID', () => {
+    for (const { config, source } of MODEL_MANIFESTS) {
+      expect(RECORD_ID_REGISTRY[config.recordId].MODEL_CONFIG.lockedFilePath).toBe(source);
+    }
+  });
+
+  it('resolve environment references in the config', () => {
+    const runware = MODEL_MANIFESTS.find(manifest => manifest.config.apiEndpoint === '$api.RUNWARE');
+    const module = compileModelManifest(runware!);
+
+    expect(module.MODEL_CONFIG.apiEndpoint).toMatch(/^https:\/\//);
+    expect(module.MODEL_CONFIG.logoUrl).not.toMatch(/^\$/);
+    expect(() => compileModelManifest({ ...runware!, config: { ...runware!.config, apiEndpoint: '$api.NOPE' } }))
+      .toThrow('Unknown manifest config reference');
+  });
+});
+
+describe('generateModelFile', () => {
+  const model: AIModel = {
+    record_id: '11111111-2222-3333-4444-555555555555',
+    id: 'acme/video-v1',
+    provider: 'kie_ai',
+    model_name: 'Acme Video V1',
+    content_type: 'prompt_to_video',
+    base_token_cost: 10,
+    cost_multipliers: { duration: { '5': 1, '10': 2 }, hd: 1.5 },
+    input_schema: {
+      type: 'object',
+      required: ['prompt'],
+      properties: {
+        prompt: { type: 'string', maxLength: 1000 },
+        duration: { type: 'string', enum: ['5', '10'], default: '5' },
+      },
+    },
+    api_endpoint: '/api/v1/jobs/createTask',
+    is_active: true,
+    groups: ['prompt_to_video'],
+  };
+
+  it('emits a valid manifest instead of code', () => {
+    const manifest = buildModelManifest(model);
+
+    expect(generateFileName(model)).toBe('prompt_to_video/Acme_Video_V1.json');
+    expect(validateModelManifest(manifest)).toEqual([]);
+    expect(manifest.pricing?.multipliers).toEqual([{ param: 'duration', default: '5' }]);
+  });
+
+  it('compiles into a working module', () => {
+    const module = compileModelManifest(buildModelManifest(model));
+
+    expect(module.validate({})).toEqual({ valid: false, error: 'Required field missing: prompt' });
+    expect(module.validate({ prompt: 'a'.repeat(1001) }).valid).toBe(false);
+    expect(module.preparePayload({ prompt: 'a cat', duration: '10' })).toEqual({
+      model: 'acme/video-v1',
+      input: { prompt: 'a cat', duration: '10' },
+    });
+    expect(module.calculateCost({ duration: '10' })).toBe(20);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Model Manifests
+ *
+ * Compiles the declarative manifests in model-manifests.generated.ts into the
+ * same ModelModule shape the locked files export, so RECORD_ID_REGISTRY
+ * serves both. Source JSON lives in src/lib/models/manifests; run
+ * `npm run compile:model-manifests` after editing it.
+ */
+
+// Manifest data and config sources load before the registry: the registry
+// compiles manifests while this module may itself still be loading
+import {
+  calculateManifestCost,
+  prepareManifestPayload,
+  validateManifestInputs,
+  type ModelManifest,
+  type ValidationResult,
+} from '@shared/model-manifest';
+import { API_ENDPOINTS } from '@/lib/config/api-endpoints';
+import { brand } from '@/config/brand';
+import type { ExecuteGenerationParams } from '@/lib/generation/executeGeneration';
+import { executeModelGeneration } from '@/lib/models/shared/executeModelGeneration';
+import type { ModelModule } from '@/lib/models/registry';
+
+/**
+ * Resolve config values that depend on the client environment, referenced
+ * from JSON as "$api.<PROVIDER>" or "$brand.logoPath"
+ */
+function resolveReference(value: string | null | undefined): string | null | undefined {
+  if (typeof value !== 'string' || !value.startsWith('$')) return value;
+
+  if (value === '$brand.logoPath') return brand.logoPath;
+
+  const endpoint = value.startsWith('$api.')
+    ? (API_ENDPOINTS as Record<string, { fullUrl?: string }>)[value.slice('$api.'.length)]
+    : undefined;
+  if (!endpoint?.fullUrl) {
+    throw new Error(`Unknown manifest config reference: ${value}`);
+  }
+  return endpoint.fullUrl;
+}
+
+export function compileModelManifest(manifest: ModelManifest): ModelModule {
+  const MODEL_CONFIG = {
+    ...manifest.config,
+    apiEndpoint: resolveReference(manifest.config.apiEndpoint) ?? null,
+    logoUrl: resolveReference(manifest.config.logoUrl),
+    isLocked: true,
+    lockedFilePath: manifest.source ?? '',
+  };
+  const SCHEMA = manifest.schema;
+
+  const validate = (inputs: Record<string, unknown>): ValidationResult => validateManifestInputs(manifest, inputs);
+  const preparePayload = (inputs: Record<string, unknown>): Record<string, unknown> => prepareManifestPayload(manifest, inputs);
+  const calculateCost = (inputs: Record<string, unknown>): number => calculateManifestCost(manifest, inputs);
+
+  return {
+    MODEL_CONFIG,
+    SCHEMA,
+    validate,
+    preparePayload,
+    calculateCost,
+    execute: (params: ExecuteGenerationParams) => executeModelGeneration({
+      modelConfig: MODEL_CONFIG,
+      modelSchema: SCHEMA,
+      modelFunctions: { validate, calculateCost, preparePayload },
+      params,
+      ...manifest.execution,
+    }),
+  };
+}
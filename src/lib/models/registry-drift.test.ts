@@ -0,0 +1,360 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RECORD_ID_REGISTRY, type ModelModule } from './registry';
+import { buildRegistryDriftReport, checkModelDrift, type DriftIssue, type DriftKind } from './registry-drift';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+/**
+ * Conformance between the client model registry and what the edge functions
+ * do with the same model. Every difference must be listed in ACCEPTED_DRIFT
+ * with the reason it is tolerated; new drift fails here, and fixing drift
+ * means deleting its entry in the same change.
+ */
+
+interface AcceptedDrift {
+  kind: DriftKind;
+  /** Metadata or payload fields accepted; omitted for issues with no field */
+  fields?: readonly string[];
+  reason: string;
+  recordIds: readonly string[];
+}
+
+const ACCEPTED_DRIFT: readonly AcceptedDrift[] = [
+  {
+    kind: 'metadata',
+    reason: 'Retired client models; their edge metadata stays so webhooks and timeout checks still resolve existing generations',
+    recordIds: [
+      '7a2f8c3e-4b5d-6e9a-1f8c-2d4b6e9a3f5c', // FLUX.1 Pro
+      '8b3e9d2f-5c6a-7f1b-2e9c-4d5a8f3b7c1e', // FLUX.1 Schnell
+      'dcd3329b-fafa-4689-b2e4-a08f7832c7ac', // Seedream V4
+    ],
+  },
+  {
+    kind: 'metadata',
+    reason: 'Known issue: no MODEL_METADATA entry, so webhooks and timeout checks for its generations run without model metadata',
+    recordIds: [
+      '57f1e8f3-e4e3-42bd-bd9e-2f2ac6eee41d', // Seedream V4
+    ],
+  },
+  {
+    kind: 'metadata',
+    fields: ['modelName'],
+    reason: 'Edge names only appear in logs and notifications',
+    recordIds: [
+      'edc7a24b-b9da-46a7-8155-635626c0f9a3', // Flux 1.1 pro
+      '3c4d5e6f-7a8b-9c0d-1e2f-012345678902', // FLUX.2 [dev]
+      '2b3c4d5e-6f7a-8b9c-0d1e-f12345678901', // FLUX.2 Dev
+      'c3397c13-3a52-4973-a87c-b4c20aca0fc0', // Kling V2.1 Master
+      'c5754cad-2b2c-4636-bc19-4ccaa97dde3d', // Kling V2.1 Master
+      '84084ca4-4153-46bc-8d01-cd4e37d1da68', // Kling V2.1 Pro
+      'b6e8c4a3-5d2f-1c7e-8a0f-3d5b6c7e4a8f', // Kling V2.1 Pro
+      'b4c8d0e2-5f6a-7b8c-9d0e-1f2a3b4c5d6e', // Kling V2.6
+      'd6e0f2a4-7b8c-9d0e-1f2a-3b4c5d6e7f8a', // Kling V2.6
+      'c1d2e3f4-5a6b-0c1d-2e3f-4a5b6c7d8e9f', // KlingAI Avatar 2.0
+      'e5f6a7b8-9c0d-1e2f-3a4b-5c6d7e8f9a0b', // Midjourney
+      'f6a7b8c9-0d1e-2f3a-4b5c-6d7e8f9a0b1c', // Midjourney
+      '36246bd4-f2e5-472b-bcf8-3dd99bc313d8', // Qwen
+      'a1b2c3d4-e5f6-0a1b-2c3d-4e5f6a7b8c9d', // Seedance 1.0 Pro Fast
+      '50eb3f02-1e58-4b85-a535-e8391a5623c4', // Seedance V1 Pro
+      'b2e60db5-d8b5-4b27-971d-7e195e6ffeda', // Seedance V1 Pro
+      '4d5e6f7a-8b9c-0d1e-2f3a-123456789012', // Wan 2.5 Preview
+    ],
+  },
+  {
+    kind: 'metadata',
+    fields: ['modelId'],
+    reason: 'Requests name the model from the client config; the kie.ai webhook only reads the edge modelId to recognise Midjourney, Suno and speech-to-text results, which these are not',
+    recordIds: [
+      '1a2b3c4d-5e6f-7a8b-9c0d-ef1234567890', // ChatGPT Image 1.5
+      '3c4d5e6f-7a8b-9c0d-1e2f-012345678902', // FLUX.2 [dev]
+      '2b3c4d5e-6f7a-8b9c-0d1e-f12345678901', // FLUX.2 Dev
+      '7a8b9c0d-1e2f-3a4b-5c6d-456789012345', // HiDream-I1 Full
+      '7bde9fb9-b16b-47b0-86a7-c0762a1a58e3', // Runway
+      'd9808197-5344-431e-a28e-b84482de076a', // Seedance V1 Lite
+      'b2e60db5-d8b5-4b27-971d-7e195e6ffeda', // Seedance V1 Pro
+      '4d5e6f7a-8b9c-0d1e-2f3a-123456789012', // Wan 2.5 Preview
+    ],
+  },
+  {
+    kind: 'metadata',
+    fields: ['baseCreditCost'],
+    reason: 'Generations are charged the client cost; the edge price only feeds model pages, admin test runs and resume estimates, which settle against the real charge',
+    recordIds: [
+      '1a2b3c4d-5e6f-7a8b-9c0d-ef1234567890', // ChatGPT Image 1.5
+      '45fc7e71-0174-48eb-998d-547e8d2476db', // ElevenLabs Multilingual V2
+      '379f8945-bd7f-48f3-a1bb-9d2e2413234c', // ElevenLabs Turbo V2.5
+      'e1f2a3b4-5c6d-7e8f-9a0b-1c2d3e4f5a6b', // FLUX 2 Flex Image-to-Image
+      'b2c3d4e5-f6a7-8901-bcde-f12345678901', // FLUX 2 Flex Text-to-Image
+      'f2e3d4c5-6b7a-8f9e-0d1c-2b3a4e5f6d7c', // FLUX 2 Pro Image-to-Image
+      'a1b2c3d4-e5f6-7890-abcd-ef1234567890', // FLUX 2 Pro Text-to-Image
+      '6f7a8b9c-0d1e-2f3a-4b5c-345678901234', // Flux.1 [Dev]
+      '5e6f7a8b-9c0d-1e2f-3a4b-234567890123', // Flux.1 [Schnell]
+      '3c4d5e6f-7a8b-9c0d-1e2f-012345678902', // FLUX.2 [dev]
+      '2b3c4d5e-6f7a-8b9c-0d1e-f12345678901', // FLUX.2 Dev
+      'a0c5d6e7-2f3a-4b5c-6d7e-8f9a0b1c2d3e', // Hailuo 02 Standard
+      'b1d6e7f8-3a4b-5c6d-7e8f-9a0b1c2d3e4f', // Hailuo 2.3 Pro
+      '8b9c0d1e-2f3a-4b5c-6d7e-567890123456', // HiDream-i1 Dev
+      '7a8b9c0d-1e2f-3a4b-5c6d-456789012345', // HiDream-I1 Full
+      'a9b0c1d2-3e4f-5a6b-7c8d-9e0f1a2b3c4d', // Infinitalk
+      'b8c9d0e1-2f3a-4b5c-6d7e-8f9a0b1c2d3e', // Kling Avatar Pro
+      'a7b8c9d0-1e2f-3a4b-5c6d-7e8f9a0b1c2d', // Kling Avatar Standard
+      'c3397c13-3a52-4973-a87c-b4c20aca0fc0', // Kling V2.1 Master
+      'c5754cad-2b2c-4636-bc19-4ccaa97dde3d', // Kling V2.1 Master
+      '84084ca4-4153-46bc-8d01-cd4e37d1da68', // Kling V2.1 Pro
+      'b6e8c4a3-5d2f-1c7e-8a0f-3d5b6c7e4a8f', // Kling V2.1 Pro
+      'a3b7c9d1-4e5f-6a7b-8c9d-0e1f2a3b4c5d', // Kling V2.5 Turbo Pro
+      'c5d9e1f3-6a7b-8c9d-0e1f-2a3b4c5d6e7f', // Kling V2.5 Turbo Pro
+      'b4c8d0e2-5f6a-7b8c-9d0e-1f2a3b4c5d6e', // Kling V2.6
+      'd6e0f2a4-7b8c-9d0e-1f2a-3b4c5d6e7f8a', // Kling V2.6
+      'e5f6a7b8-9c0d-1e2f-3a4b-5c6d7e8f9a0b', // Midjourney
+      'eff6c62e-c20e-4eed-9f5b-81e1a7f01529', // Midjourney
+      'f6a7b8c9-0d1e-2f3a-4b5c-6d7e8f9a0b1c', // Midjourney
+      'b4c5d6e7-8f9a-0b1c-2d3e-4f5a6b7c8d9e', // Nano Banana Pro
+      'c5d6e7f8-9a0b-1c2d-3e4f-5a6b7c8d9e0f', // Nano Banana Pro
+      'f5a1b2c3-4d5e-6f7a-8b9c-0d1e2f3a4b5c', // Qwen Image Editor Lite
+      '7bde9fb9-b16b-47b0-86a7-c0762a1a58e3', // Runway
+      'd2c37239-d544-4cce-bd8d-fb48ea44b287', // Runway
+      'a1b2c3d4-e5f6-0a1b-2c3d-4e5f6a7b8c9d', // Seedance 1.0 Pro Fast
+      'b2c3d4e5-f6a7-1b2c-3d4e-5f6a7b8c9d0e', // Seedance 1.0 Pro Fast
+      'd7df81f6-dc86-4e04-9f75-d4e8c9b03fb2', // Seedance V1 Lite
+      'd9808197-5344-431e-a28e-b84482de076a', // Seedance V1 Lite
+      '50eb3f02-1e58-4b85-a535-e8391a5623c4', // Seedance V1 Pro
+      'b2e60db5-d8b5-4b27-971d-7e195e6ffeda', // Seedance V1 Pro
+      '3ac57af3-f7f0-4205-b1a4-3c7c3c1c7dad', // Seedance V1.0 Pro Fast
+      '734c7712-aae3-4ad2-93b9-df198623503d', // Seedance V1.0 Pro Fast
+      'a3b4c5d6-7e8f-9a0b-1c2d-3e4f5a6b7c8d', // Seedream 4.5
+      'c0e4f338-683a-4b5d-8289-518f2b5ea983', // Seedream V4
+      'd5e6f7a8-9b0c-1d2e-3f4a-5b6c7d8e9f0a', // Seedream V4.5
+      'b0c4d5e6-1f2a-3b4c-5d6e-7f8a9b0c1d2e', // Sora 2
+      'e7f1a2b3-8c9d-0e1f-2a3b-4c5d6e7f8a9b', // Sora 2
+      'c1d5e6f7-2a3b-4c5d-6e7f-8a9b0c1d2e3f', // Sora 2 Pro
+      'f8a2b3c4-9d0e-1f2a-3b4c-5d6e7f8a9b0c', // Sora 2 Pro
+      'a9b3c4d5-0e1f-2a3b-4c5d-6e7f8a9b0c1d', // Sora 2 Pro Storyboard
+      '6a7b8c9d-0e1f-2a3b-4c5d-5e6f7a8b9c0d', // Suno V4
+      '7b8c9d0e-1f2a-3b4c-5d6e-6f7a8b9c0d1e', // Suno V4.5
+      '8c9d0e1f-2a3b-4c5d-6e7f-7a8b9c0d1e2f', // Suno V4.5+
+      '9d0e1f2a-3b4c-5d6e-7f8a-8b9c0d1e2f3a', // Suno V4.5ALL
+      '0e1f2a3b-4c5d-6e7f-8a9b-9c0d1e2f3a4b', // Suno V5
+      'd3e4f5a6-0b1c-2d3e-4f5a-6b7c8d9e0f1a', // Wan 2.2 Animate Move
+      'e4f5a6b7-1c2d-3e4f-5a6b-7c8d9e0f1a2b', // Wan 2.2 Animate Replace
+      'c0d1e2f3-4a5b-6c7d-8e9f-0a1b2c3d4e5f', // Wan 2.2 Speech-to-Video
+      'd3e8f9a0-5b6c-7d8e-9f0a-1b2c3d4e5f6a', // Wan 2.2 Turbo
+      'e4f9a0b1-6c7d-8e9f-0a1b-2c3d4e5f6a7b', // Wan 2.2 Turbo
+      '4d5e6f7a-8b9c-0d1e-2f3a-123456789012', // Wan 2.5 Preview
+      'a2b3c4d5-6e7f-8a9b-0c1d-2e3f4a5b6c7d', // Wan 2.6
+      'b3c4d5e6-7f8a-9b0c-1d2e-3f4a5b6c7d8e', // Wan 2.6
+      'c4d5e6f7-8a9b-0c1d-2e3f-4a5b6c7d8e9f', // Wan 2.6
+      'c3d4e5f6-a7b8-9012-cdef-123456789012', // Z-Image
+      'd4e5f6a7-8b9c-0d1e-2f3a-4b5c6d7e8f9a', // Z-Image Turbo
+    ],
+  },
+  {
+    kind: 'metadata',
+    fields: ['estimatedTimeSeconds'],
+    reason: 'The edge estimate only decides when a kie.ai callback is logged as late; late callbacks are never rejected',
+    recordIds: [
+      '5e6f7a8b-9c0d-1e2f-3a4b-234567890123', // Flux.1 [Schnell]
+      '3c4d5e6f-7a8b-9c0d-1e2f-012345678902', // FLUX.2 [dev]
+      '2b3c4d5e-6f7a-8b9c-0d1e-f12345678901', // FLUX.2 Dev
+      '0643a43b-4995-4c5b-ac1d-76ea257a93a0', // Grok Imagine
+      '8c46aade-1272-4409-bb3a-3701e2423320', // Grok Imagine
+      '8b9c0d1e-2f3a-4b5c-6d7e-567890123456', // HiDream-i1 Dev
+      '7a8b9c0d-1e2f-3a4b-5c6d-456789012345', // HiDream-I1 Full
+      '94c0e508-226a-4e3d-8229-3820a61faa88', // Ideogram V3
+      'c5754cad-2b2c-4636-bc19-4ccaa97dde3d', // Kling V2.1 Master
+      'c1d2e3f4-5a6b-0c1d-2e3f-4a5b6c7d8e9f', // KlingAI Avatar 2.0
+      'b0c4d5e6-1f2a-3b4c-5d6e-7f8a9b0c1d2e', // Sora 2
+      'e7f1a2b3-8c9d-0e1f-2a3b-4c5d6e7f8a9b', // Sora 2
+      'c1d5e6f7-2a3b-4c5d-6e7f-8a9b0c1d2e3f', // Sora 2 Pro
+      'f8a2b3c4-9d0e-1f2a-3b4c-5d6e7f8a9b0c', // Sora 2 Pro
+      'a9b3c4d5-0e1f-2a3b-4c5d-6e7f8a9b0c1d', // Sora 2 Pro Storyboard
+      'c0d1e2f3-4a5b-6c7d-8e9f-0a1b2c3d4e5f', // Wan 2.2 Speech-to-Video
+      'a2b3c4d5-6e7f-8a9b-0c1d-2e3f4a5b6c7d', // Wan 2.6
+      'b3c4d5e6-7f8a-9b0c-1d2e-3f4a5b6c7d8e', // Wan 2.6
+      'c4d5e6f7-8a9b-0c1d-2e3f-4a5b6c7d8e9f', // Wan 2.6
+    ],
+  },
+  {
+    kind: 'cost',
+    reason: 'Requests carry calculateCost as cost or preCalculatedCost, which generate-content deducts before its costMultipliers fallback; these models price duration, resolution, quality or result counts that the fallback does not',
+    recordIds: [
+      'c3d4e5f6-0a1b-2c3d-4e5f-a6b7c8d9e0f1', // ElevenLabs Audio Isolation
+      'b2c3d4e5-6f0a-1b2c-3d4e-f5a6b7c8d9e0', // ElevenLabs Speech-to-Text
+      '4c680009-d3fe-436f-85a7-467c76e85f9e', // GPT-5 Image (Lovable AI)
+      'a0c5d6e7-2f3a-4b5c-6d7e-8f9a0b1c2d3e', // Hailuo 02 Standard
+      'b1d6e7f8-3a4b-5c6d-7e8f-9a0b1c2d3e4f', // Hailuo 2.3 Pro
+      'c2e7f8a9-4b5c-6d7e-8f9a-0b1c2d3e4f5a', // Hailuo 2.3 Standard
+      'a9b0c1d2-3e4f-5a6b-7c8d-9e0f1a2b3c4d', // Infinitalk
+      'd6e7f8a9-0b1c-2d3e-4f5a-6b7c8d9e0f1a', // Kling 2.6 Motion Control
+      'c1d2e3f4-5a6b-0c1d-2e3f-4a5b6c7d8e9f', // KlingAI Avatar 2.0
+      'd7df81f6-dc86-4e04-9f75-d4e8c9b03fb2', // Seedance V1 Lite
+      'd9808197-5344-431e-a28e-b84482de076a', // Seedance V1 Lite
+      '50eb3f02-1e58-4b85-a535-e8391a5623c4', // Seedance V1 Pro
+      'b2e60db5-d8b5-4b27-971d-7e195e6ffeda', // Seedance V1 Pro
+      '734c7712-aae3-4ad2-93b9-df198623503d', // Seedance V1.0 Pro Fast
+      '57f1e8f3-e4e3-42bd-bd9e-2f2ac6eee41d', // Seedream V4
+      'c0e4f338-683a-4b5d-8289-518f2b5ea983', // Seedream V4
+      'd2e3f4a5-6b7c-1d2e-3f4a-5b6c7d8e9f0a', // Sync Lipsync-2
+      'f8c5a7e9-9d4b-6f2c-8a1e-5d7b3c9f4a6e', // Ultra Detail V0
+      'd3e4f5a6-0b1c-2d3e-4f5a-6b7c8d9e0f1a', // Wan 2.2 Animate Move
+      'e4f5a6b7-1c2d-3e4f-5a6b-7c8d9e0f1a2b', // Wan 2.2 Animate Replace
+      'c0d1e2f3-4a5b-6c7d-8e9f-0a1b2c3d4e5f', // Wan 2.2 Speech-to-Video
+      'd3e8f9a0-5b6c-7d8e-9f0a-1b2c3d4e5f6a', // Wan 2.2 Turbo
+      'e4f9a0b1-6c7d-8e9f-0a1b-2c3d4e5f6a7b', // Wan 2.2 Turbo
+    ],
+  },
+  {
+    kind: 'validation',
+    reason: 'Known issue: preparePayload returns a Runware task array, which generate-content rejects',
+    recordIds: [
+      '79ce627d-f90c-47b2-ae3f-9437d93f4529', // HiDream Dev
+      '7fe80ee8-701c-49b9-a21e-79f8c82489c8', // HiDream Fast
+    ],
+  },
+  {
+    kind: 'payload',
+    fields: ['modelId'],
+    reason: 'kie.ai requests take the model from the client config, so the modelId repeated in the payload is not needed',
+    recordIds: [
+      '2959b083-2177-4b8c-ae56-31170c2eb9dc', // Google Image Upscale
+      'a8f5c3e9-7d4b-6f2c-9a1e-5d8b3c7f4a6e', // Ideogram Character
+      'f9c5e7a3-8d4b-6f2c-9a1e-5d7b3c8f4a6e', // Ideogram V2+
+      'd8c5a7f3-9b4e-6f2c-8a1d-5e7b3c9f4a6e', // Jasper Text to Image
+      'b6e8c4a3-5d2f-1c7e-8a0f-3d5b6c7e4a8f', // Kling V2.1 Pro
+      'e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b', // Kling V2.1 Standard
+      '58b8b09f-57fd-42e3-ae2d-689e9ea3064d', // Remove Background
+      '11a995d9-a89e-47a2-b00c-11b2b7dbb717', // Sora 2 by OpenAI (Watermarked)
+      '81a078c7-10fa-450c-92d5-c9f46166be45', // Sora 2 by OpenAI (Watermarked)
+      'f8c5a7e9-9d4b-6f2c-8a1e-5d7b3c9f4a6e', // Ultra Detail V0
+      '0aaf528a-1334-4121-8467-331c95e8da6d', // WAN 2.2 Turbo
+      'e4ae6c36-dfcb-4fe4-94f3-46962df720b1', // WAN 2.2 Turbo
+    ],
+  },
+  {
+    kind: 'payload',
+    fields: ['steps', 'numberResults', 'CFGScale', 'scheduler', 'checkNSFW'],
+    reason: 'Fixed Runware settings the models do not expose in SCHEMA; the edge drops them and Runware applies its own defaults, including a single result',
+    recordIds: [
+      'edc7a24b-b9da-46a7-8155-635626c0f9a3', // Flux 1.1 pro
+      '100@1', // FLUX.1 Pro
+      '32e98d54-3e47-41f8-ae70-0b0c18b78b8f', // Flux.1 Schnell
+      'schnell', // FLUX.1 Schnell
+      'c8f9b5e2-7d4a-6f3b-9e1c-5a8d3f7b4e9a', // runware stable diffusion v3
+      'b7f8c5e2-6d4a-5f3b-8e1c-4a7d2f6b3e9a', // runware stable diffusion xl
+    ],
+  },
+  {
+    kind: 'payload',
+    fields: ['generationType'],
+    reason: 'Known issue: generationType is not in SCHEMA, so the edge drops it and kie.ai receives no Veo mode',
+    recordIds: [
+      '8aac94cb-5625-47f4-880c-4f0fd8bd83a1', // Google Veo 3.1 Fast
+      'a96af675-b780-4879-a61f-7285be8766c2', // Google Veo 3.1 Fast
+      'a5c2ec16-6294-4588-86b6-7b4182601cda', // Google Veo 3.1 HQ
+      'd117daae-f3ec-4b79-b98f-adefeee21454', // Google Veo 3.1 HQ
+      '6e8a863e-8630-4eef-bdbb-5b41f4c883f9', // Google Veo 3.1 Reference
+    ],
+  },
+  {
+    kind: 'payload',
+    fields: ['inputs'],
+    reason: 'Known issue: the edge drops the nested Runware inputs the client builds, while the provider only rebuilds them from flat inputImage/inputAudio fields',
+    recordIds: [
+      'c1d2e3f4-5a6b-0c1d-2e3f-4a5b6c7d8e9f', // KlingAI Avatar 2.0
+      'd2e3f4a5-6b7c-1d2e-3f4a-5b6c7d8e9f0a', // Sync Lipsync-2
+    ],
+  },
+];
+
+function isAccepted(entry: AcceptedDrift, recordId: string, issue: DriftIssue): boolean {
+  return entry.kind === issue.kind
+    && entry.recordIds.includes(recordId)
+    && (entry.fields ? issue.field !== undefined && entry.fields.includes(issue.field) : issue.field === undefined);
+}
+
+function format(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function summarize(issue: DriftIssue): string {
+  const scope = [issue.kind, issue.case, issue.field].filter(Boolean).join(' ');
+  return `${scope}: ${format(issue.client)} -> ${format(issue.edge)}`;
+}
+
+const report = buildRegistryDriftReport();
+const driftByRecordId = new Map(report.models.map(model => [model.recordId, model.issues]));
+
+describe('registry drift', () => {
+  it('checks every client model', () => {
+    for (const recordId of Object.keys(RECORD_ID_REGISTRY)) {
+      expect(report.models.every(model => model.recordId !== recordId || model.casesChecked > 0)).toBe(true);
+    }
+    expect(report.modelCount).toBeGreaterThanOrEqual(Object.keys(RECORD_ID_REGISTRY).length);
+  });
+
+  it('maps every content type to the same generation type', () => {
+    expect(report.issueCounts.generation_type).toBe(0);
+  });
+
+  it('has no drift beyond the accepted list', () => {
+    const unaccepted = report.models.flatMap(model => model.issues
+      .filter(issue => !ACCEPTED_DRIFT.some(entry => isAccepted(entry, model.recordId, issue)))
+      .map(issue => `${model.modelName} (${model.recordId}) ${summarize(issue)}`));
+
+    expect(unaccepted).toEqual([]);
+  });
+
+  it('accepts only drift that still exists', () => {
+    const stale = ACCEPTED_DRIFT.flatMap(entry => entry.recordIds
+      .filter(recordId => !(driftByRecordId.get(recordId) ?? []).some(issue => isAccepted(entry, recordId, issue)))
+      .map(recordId => `${recordId}: ${entry.reason}`));
+
+    expect(stale).toEqual([]);
+  });
+});
+
+describe('checkModelDrift', () => {
+  const [recordId, agreeing] = Object.entries(RECORD_ID_REGISTRY)
+    .find(([id]) => !driftByRecordId.has(id)) as [string, ModelModule];
+
+  it('reports nothing when client and edge agree', () => {
+    expect(checkModelDrift(recordId, agreeing).issues).toEqual([]);
+  });
+
+  it('reports a client cost the edge does not deduct', () => {
+    const module = { ...agreeing, calculateCost: () => agreeing.MODEL_CONFIG.baseCreditCost + 5 };
+
+    const issues = checkModelDrift(recordId, module).issues;
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues.every(issue => issue.kind === 'cost')).toBe(true);
+  });
+
+  it('reports payloads the edge pipeline rejects or rewrites', () => {
+    const rejected = { ...agreeing, preparePayload: () => [{ taskType: 'imageInference' }] };
+    const dropped = {
+      ...agreeing,
+      preparePayload: (inputs: Record<string, unknown>) => ({
+        ...(agreeing.preparePayload(inputs) as Record<string, unknown>),
+        extra: 1,
+      }),
+    };
+
+    expect(checkModelDrift(recordId, rejected).issues[0]).toMatchObject({
+      kind: 'validation',
+      edge: 'custom_parameters must be an object',
+    });
+    expect(checkModelDrift(recordId, dropped).issues[0]).toMatchObject({ kind: 'payload', field: 'extra', client: 1 });
+  });
+
+  it('reports metadata the edge holds differently', () => {
+    const module = { ...agreeing, MODEL_CONFIG: { ...agreeing.MODEL_CONFIG, baseCreditCost: 999 } };
+
+    expect(checkModelDrift(recordId, module).issues).toContainEqual(expect.objectContaining({
+      kind: 'metadata',
+      field: 'baseCreditCost',
+      client: 999,
+    }));
+  });
+});
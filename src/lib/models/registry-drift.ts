@@ -0,0 +1,344 @@
+/**
+ * Client/Edge Model Registry Drift Detector
+ *
+ * Runs every registered model on schema-derived inputs (enum values and
+ * numeric boundaries) through both sides of a generation:
+ * - client: the model's validate, calculateCost and preparePayload
+ * - edge: generate-content's parameter pipeline and cost (per-second metadata
+ *   pricing, else calculateTokenCost) over the payload the client sends, plus
+ *   the static MODEL_METADATA and getGenerationType edge functions look models
+ *   up with
+ *
+ * Disagreements are collected into a RegistryDriftReport, checked against the
+ * accepted drift in registry-drift.test.ts and shown in the admin AI Models
+ * dashboard.
+ */
+
+import { RECORD_ID_REGISTRY, getGenerationType, type ModelModule } from '@/lib/models/registry';
+import {
+  MODEL_METADATA,
+  calculatePerSecondCost,
+  getGenerationType as getEdgeGenerationType,
+  type ModelMetadata,
+} from '@shared/registry';
+import {
+  coerceParametersBySchema,
+  isPreparedRunwarePayload,
+  normalizeParameterKeys,
+  unwrapProviderInput,
+  validateAndFilterParameters,
+} from '@shared/parameter-pipeline';
+import { calculateTokenCost } from '../../../supabase/functions/generate-content/utils/token-calculator.ts';
+
+export interface SchemaProperty {
+  type?: string;
+  default?: unknown;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  format?: string;
+  renderer?: string;
+  items?: SchemaProperty;
+}
+
+export type DriftKind = 'metadata' | 'generation_type' | 'validation' | 'cost' | 'payload';
+
+export interface DriftIssue {
+  kind: DriftKind;
+  /** Schema-derived input case, e.g. "duration=10" */
+  case?: string;
+  /** Metadata or payload field the sides disagree on */
+  field?: string;
+  client: unknown;
+  edge: unknown;
+  message: string;
+}
+
+export interface ModelDriftReport {
+  recordId: string;
+  modelName: string;
+  provider: string;
+  contentType: string;
+  casesChecked: number;
+  issues: DriftIssue[];
+}
+
+export interface RegistryDriftReport {
+  generatedAt: string;
+  modelCount: number;
+  casesChecked: number;
+  driftedModelCount: number;
+  issueCounts: Record<DriftKind, number>;
+  /** Models with at least one issue, most issues first */
+  models: ModelDriftReport[];
+}
+
+const SAMPLE_URL = 'https://example.com/input.png';
+const SAMPLE_TEXT = 'A lighthouse on a cliff at dawn';
+const MAX_ENUM_CASES = 8;
+const METADATA_FIELDS = [
+  'modelId', 'modelName', 'provider', 'contentType', 'baseCreditCost', 'estimatedTimeSeconds', 'isActive',
+] as const;
+
+/**
+ * Representative value for a SCHEMA property: its default, first enum value
+ * or a type-appropriate sample
+ */
+export function sampleValue(name: string, property: SchemaProperty): unknown {
+  if (property.default !== undefined) return property.default;
+  if (property.enum?.length) return property.enum[0];
+
+  switch (property.type) {
+    case 'array':
+      return [sampleValue(name, property.items ?? {})];
+    case 'number':
+    case 'integer':
+      return property.minimum ?? 1;
+    case 'boolean':
+      return true;
+    case 'object':
+      return {};
+    default:
+      return property.format === 'uri' || property.renderer === 'image' || /image|url|frame|video|audio/i.test(name)
+        ? SAMPLE_URL
+        : SAMPLE_TEXT;
+  }
+}
+
+/**
+ * Named input cases for a model: empty, required-only, defaults, every enum
+ * value (up to MAX_ENUM_CASES per field) and numeric min/max/past-max
+ */
+export function buildSchemaCases(module: ModelModule): Record<string, Record<string, unknown>> {
+  const properties = module.SCHEMA.properties as Record<string, SchemaProperty>;
+  const required: Record<string, unknown> = {};
+  for (const name of module.SCHEMA.required ?? []) {
+    required[name] = sampleValue(name, properties[name] ?? {});
+  }
+
+  const defaults: Record<string, unknown> = { ...required };
+  for (const [name, property] of Object.entries(properties)) {
+    if (property.default !== undefined) defaults[name] = property.default;
+  }
+
+  const cases: Record<string, Record<string, unknown>> = { empty: {}, required, defaults };
+  for (const [name, property] of Object.entries(properties)) {
+    for (const value of property.enum?.slice(0, MAX_ENUM_CASES) ?? []) {
+      cases[`${name}=${String(value)}`] = { ...defaults, [name]: value };
+    }
+    if (property.type === 'number' || property.type === 'integer') {
+      if (property.minimum !== undefined) cases[`${name}=min`] = { ...defaults, [name]: property.minimum };
+      if (property.maximum !== undefined && property.maximum < Number.MAX_SAFE_INTEGER) {
+        cases[`${name}=max`] = { ...defaults, [name]: property.maximum };
+        cases[`${name}>max`] = { ...defaults, [name]: property.maximum + 1 };
+      }
+    }
+  }
+  return cases;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * What generate-content derives from a client payload: the parameters it
+ * forwards to the provider and the credits it deducts
+ */
+function runEdgePipeline(
+  module: ModelModule,
+  payload: unknown
+): { parameters: Record<string, unknown>; cost: number } {
+  // custom_parameters is validated as z.record() before anything else runs
+  if (!isPlainObject(payload)) {
+    throw new Error('custom_parameters must be an object');
+  }
+
+  const { MODEL_CONFIG, SCHEMA } = module;
+  const parameters = normalizeParameterKeys(unwrapProviderInput({ ...payload }));
+  const applyDefaults = !isPreparedRunwarePayload(String(MODEL_CONFIG.provider), parameters);
+  const validated = coerceParametersBySchema(
+    validateAndFilterParameters(parameters, SCHEMA, { applyDefaults }),
+    SCHEMA
+  );
+  const cost = calculatePerSecondCost(MODEL_CONFIG.recordId, validated) ?? calculateTokenCost(
+    MODEL_CONFIG.baseCreditCost,
+    (MODEL_CONFIG.costMultipliers ?? {}) as Record<string, unknown>,
+    validated
+  );
+
+  return { parameters: validated, cost };
+}
+
+function checkMetadata(module: ModelModule, metadata: ModelMetadata | undefined): DriftIssue[] {
+  const config = module.MODEL_CONFIG as Record<string, unknown>;
+  if (!metadata) {
+    return [{
+      kind: 'metadata',
+      client: config.recordId,
+      edge: null,
+      message: 'Model has no edge MODEL_METADATA entry',
+    }];
+  }
+
+  return METADATA_FIELDS
+    .filter(field => config[field] !== metadata[field])
+    .map(field => ({
+      kind: 'metadata' as const,
+      field,
+      client: config[field],
+      edge: metadata[field],
+      message: `MODEL_METADATA.${field} differs from MODEL_CONFIG`,
+    }));
+}
+
+function checkCase(module: ModelModule, name: string, inputs: Record<string, unknown>): DriftIssue[] {
+  // Cases the client rejects never reach the edge function
+  if (!module.validate({ ...inputs }).valid) return [];
+
+  const clientCost = module.calculateCost({ ...inputs });
+  const payload = module.preparePayload({ ...inputs });
+
+  let edge: ReturnType<typeof runEdgePipeline>;
+  try {
+    edge = runEdgePipeline(module, payload);
+  } catch (error) {
+    return [{
+      kind: 'validation',
+      case: name,
+      client: 'valid',
+      edge: errorMessage(error),
+      message: 'Edge pipeline rejects inputs the client accepts',
+    }];
+  }
+
+  const issues: DriftIssue[] = [];
+  if (Math.abs(clientCost - edge.cost) >= 0.01) {
+    issues.push({
+      kind: 'cost',
+      case: name,
+      client: clientCost,
+      edge: edge.cost,
+      message: 'Edge deducts a different cost than the client reserves',
+    });
+  }
+
+  const sent = normalizeParameterKeys(unwrapProviderInput({ ...(payload as Record<string, unknown>) }));
+  for (const [field, value] of Object.entries(sent)) {
+    if (value === undefined) continue;
+    if (!(field in edge.parameters)) {
+      issues.push({
+        kind: 'payload',
+        case: name,
+        field,
+        client: value,
+        edge: undefined,
+        message: 'Edge drops a payload field that is not in SCHEMA',
+      });
+    } else if (isScalar(value) && String(edge.parameters[field] as typeof value) !== String(value)) {
+      issues.push({
+        kind: 'payload',
+        case: name,
+        field,
+        client: value,
+        edge: edge.parameters[field],
+        message: 'Edge replaces a payload value',
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Compare one client model module against the edge registry and pipeline
+ */
+export function checkModelDrift(recordId: string, module: ModelModule): ModelDriftReport {
+  const config = module.MODEL_CONFIG;
+  const issues = checkMetadata(module, MODEL_METADATA[recordId]);
+
+  const clientType = getGenerationType(config.contentType);
+  const edgeType = getEdgeGenerationType(config.contentType);
+  if (clientType !== edgeType) {
+    issues.push({
+      kind: 'generation_type',
+      field: 'contentType',
+      client: clientType,
+      edge: edgeType,
+      message: `Content type "${config.contentType}" maps to a different generation type`,
+    });
+  }
+
+  const cases = Object.entries(buildSchemaCases(module));
+  for (const [name, inputs] of cases) {
+    try {
+      issues.push(...checkCase(module, name, inputs));
+    } catch {
+      // A client function throwing is the model's own behavior, not drift
+    }
+  }
+
+  return {
+    recordId,
+    modelName: config.modelName,
+    provider: config.provider,
+    contentType: config.contentType,
+    casesChecked: cases.length,
+    issues,
+  };
+}
+
+/**
+ * Check every model in RECORD_ID_REGISTRY, plus edge metadata for models the
+ * client no longer registers
+ */
+export function buildRegistryDriftReport(
+  registry: Record<string, ModelModule> = RECORD_ID_REGISTRY
+): RegistryDriftReport {
+  const reports = Object.entries(registry).map(([recordId, module]) => checkModelDrift(recordId, module));
+
+  for (const metadata of Object.values(MODEL_METADATA)) {
+    if (metadata.recordId in registry) continue;
+    reports.push({
+      recordId: metadata.recordId,
+      modelName: metadata.modelName,
+      provider: metadata.provider,
+      contentType: metadata.contentType,
+      casesChecked: 0,
+      issues: [{
+        kind: 'metadata',
+        client: null,
+        edge: metadata.recordId,
+        message: 'Edge MODEL_METADATA has a model the client registry does not',
+      }],
+    });
+  }
+
+  const issueCounts: Record<DriftKind, number> = {
+    metadata: 0, generation_type: 0, validation: 0, cost: 0, payload: 0,
+  };
+  for (const issue of reports.flatMap(report => report.issues)) {
+    issueCounts[issue.kind]++;
+  }
+
+  const models = reports
+    .filter(report => report.issues.length > 0)
+    .sort((a, b) => b.issues.length - a.issues.length || a.modelName.localeCompare(b.modelName));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    modelCount: reports.length,
+    casesChecked: reports.reduce((total, report) => total + report.casesChecked, 0),
+    driftedModelCount: models.length,
+    issueCounts,
+    models,
+  };
+}
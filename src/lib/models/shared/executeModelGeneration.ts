@@ -67,6 +67,10 @@ export interface ExecuteOptions {
   params: ExecuteGenerationParams;
   /** Input field name for prompt (default: 'prompt') */
   promptField?: string;
+  /** Input field that receives the first uploaded image */
+  imageField?: string;
+  /** Prompt stored on the generation when the user gives none */
+  defaultPrompt?: string;
 }
 
 /**
@@ -103,10 +107,12 @@ export async function executeModelGeneration(options: ExecuteOptions): Promise<s
     modelSchema,
     modelFunctions,
     params,
-    promptField = 'prompt'
+    promptField = 'prompt',
+    imageField,
+    defaultPrompt
   } = options;
 
-  const { prompt, modelParameters, userId, startPolling } = params;
+  const { prompt, modelParameters, uploadedImages, userId, uploadImagesToStorage, startPolling } = params;
 
   // Build inputs object with prompt and parameters
   const inputs: Record<string, any> = {
@@ -114,6 +120,12 @@ export async function executeModelGeneration(options: ExecuteOptions): Promise<s
     ...modelParameters
   };
 
+  if (imageField && uploadedImages.length > 0) {
+    inputs[imageField] = (await uploadImagesToStorage(userId))[0];
+  }
+
+  const generationPrompt = !prompt && defaultPrompt ? defaultPrompt : prompt;
+
   // 1. Validate inputs
   const validation = modelFunctions.validate(inputs);
   if (!validation.valid) {
@@ -134,7 +146,7 @@ export async function executeModelGeneration(options: ExecuteOptions): Promise<s
       model_id: modelConfig.modelId,
       model_record_id: modelConfig.recordId,
       type: getGenerationType(modelConfig.contentType),
-      prompt,
+      prompt: generationPrompt,
       tokens_used: cost,
       status: GENERATION_STATUS.PENDING, // Edge function will process
       settings: sanitizeForStorage(modelParameters)
@@ -163,7 +175,7 @@ export async function executeModelGeneration(options: ExecuteOptions): Promise<s
       generationId: gen.id,
       model_config: modelConfig,
       model_schema: modelSchema,
-      prompt: inputs[promptField],
+      prompt: inputs[promptField] || generationPrompt,
       custom_parameters: payload
     }
   });
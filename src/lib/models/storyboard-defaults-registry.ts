@@ -7,6 +7,13 @@
  */
 
 import type { StoryboardContext, StoryboardDefaults } from './types/storyboard';
+import {
+  buildCastPrompt,
+  getCastReferenceImages,
+  getCastSeed,
+  getSceneCast,
+  type CastMember,
+} from '@shared/storyboard-cast';
 
 // Import model storyboard defaults functions
 import { getStoryboardDefaults as getSeedanceI2VDefaults } from './locked/image_to_video/Runware_Seedance_Pro_Fast_I2V';
@@ -14,6 +21,22 @@ import { getStoryboardDefaults as getSeedanceV1ProFastDefaults } from './locked/
 import { getStoryboardDefaults as getFluxProDefaults } from './locked/prompt_to_image/FLUX_1_Pro';
 import { getStoryboardDefaults as getSeedance15ProDefaults } from './locked/image_to_video/Seedance_1_5_Pro_I2V';
 import { getStoryboardDefaults as getKlingV21ProDefaults } from './locked/image_to_video/Kling_V2_Pro';
+import {
+  MODEL_CONFIG as NANO_BANANA_EDIT,
+  getStoryboardDefaults as getNanoBananaEditDefaults,
+} from './locked/image_editing/Nano_Banana_by_Google_edit';
+import {
+  MODEL_CONFIG as IDEOGRAM_CHARACTER,
+  getStoryboardDefaults as getIdeogramCharacterDefaults,
+} from './locked/image_editing/Ideogram_Character';
+import {
+  MODEL_CONFIG as KONTEXT_PRO,
+  getStoryboardDefaults as getKontextProDefaults,
+} from './locked/image_editing/FLUX_1_Kontext_Pro';
+import {
+  MODEL_CONFIG as KONTEXT_MAX,
+  getStoryboardDefaults as getKontextMaxDefaults,
+} from './locked/image_editing/FLUX_1_Kontext_Max';
 
 /**
  * Registry mapping model record IDs to their storyboard defaults functions
@@ -27,6 +50,30 @@ const STORYBOARD_DEFAULTS_REGISTRY: Record<string, (ctx: StoryboardContext) => S
   
   // Prompt-to-Image models
   '7a2f8c3e-4b5d-6e9a-1f8c-2d4b6e9a3f5c': getFluxProDefaults, // FLUX.1 Pro
+
+  // Reference-image models (storyboard cast)
+  [NANO_BANANA_EDIT.recordId]: getNanoBananaEditDefaults, // Nano Banana edit
+  [IDEOGRAM_CHARACTER.recordId]: getIdeogramCharacterDefaults, // Ideogram Character
+  [KONTEXT_PRO.recordId]: getKontextProDefaults, // FLUX.1 Kontext Pro
+  [KONTEXT_MAX.recordId]: getKontextMaxDefaults, // FLUX.1 Kontext Max
+};
+
+/**
+ * Reference-image model that stands in for a prompt-to-image model when a
+ * scene shows cast members with reference images. Models of other families
+ * fall back to Nano Banana edit, which takes the most references.
+ */
+const CAST_REFERENCE_MODELS: Record<string, { recordId: string; maxImages: number }> = {
+  '09b03fa3-e648-4d42-8494-b91bd2e609b8': NANO_BANANA_EDIT, // Nano Banana
+  'a8f5c3e9-7d4b-6f2c-9a1e-5d8b3c7f4a6e': IDEOGRAM_CHARACTER, // Ideogram Character (text-to-image)
+  '94c0e508-226a-4e3d-8229-3820a61faa88': IDEOGRAM_CHARACTER, // Ideogram V3
+  'f9c5e7a3-8d4b-6f2c-9a1e-5d7b3c8f4a6e': IDEOGRAM_CHARACTER, // Ideogram V2 Plus
+  '94b43382-bf4b-490d-82b5-265d14473f9b': KONTEXT_PRO, // FLUX.1 Kontext Pro (text-to-image)
+  'c1bd50df-1c27-48a3-8630-0970eedd21f6': KONTEXT_MAX, // FLUX.1 Kontext Max (text-to-image)
+  [NANO_BANANA_EDIT.recordId]: NANO_BANANA_EDIT,
+  [IDEOGRAM_CHARACTER.recordId]: IDEOGRAM_CHARACTER,
+  [KONTEXT_PRO.recordId]: KONTEXT_PRO,
+  [KONTEXT_MAX.recordId]: KONTEXT_MAX,
 };
 
 /**
@@ -56,3 +103,61 @@ export function getModelStoryboardDefaults(
 export function hasStoryboardDefaults(modelRecordId: string): boolean {
   return modelRecordId in STORYBOARD_DEFAULTS_REGISTRY;
 }
+
+function getCastReferenceModel(modelRecordId: string): { recordId: string; maxImages: number } {
+  return CAST_REFERENCE_MODELS[modelRecordId] ?? NANO_BANANA_EDIT;
+}
+
+/**
+ * Model a scene image is generated with: the reference-image stand-in for
+ * the picked model when the scene's cast has reference images
+ */
+export function getCastModelRecordId(modelRecordId: string, sceneCast: CastMember[]): string {
+  const hasReferences = sceneCast.some(member => member.referenceImageUrls.length > 0);
+  return hasReferences ? getCastReferenceModel(modelRecordId).recordId : modelRecordId;
+}
+
+/**
+ * Scene image request with the storyboard cast injected
+ */
+export interface CastStoryboardRequest {
+  /** Model to generate with - a reference-image model when the scene has cast references */
+  modelRecordId: string;
+  /** Scene prompt with the cast descriptions appended */
+  prompt: string;
+  /** Storyboard defaults for that model, or null if it has none */
+  parameters: StoryboardDefaults | null;
+  /** Cast entries the scene shows */
+  sceneCast: CastMember[];
+}
+
+/**
+ * Build a scene image request that carries the cast the scene mentions:
+ * descriptions go into the prompt, reference images and the seed into the
+ * model parameters, switching to the matching reference-image model when
+ * there are references to send.
+ *
+ * @param modelRecordId - The prompt-to-image model the user picked
+ * @param context - Storyboard context for the scene
+ * @param cast - The storyboard's cast and style bible
+ */
+export function getCastStoryboardRequest(
+  modelRecordId: string,
+  context: StoryboardContext,
+  cast: CastMember[]
+): CastStoryboardRequest {
+  const sceneCast = getSceneCast(context.prompt, cast);
+  const prompt = buildCastPrompt(context.prompt, sceneCast);
+  const seed = getCastSeed(sceneCast);
+  const targetRecordId = getCastModelRecordId(modelRecordId, sceneCast);
+  const referenceImages = getCastReferenceImages(sceneCast, getCastReferenceModel(modelRecordId).maxImages);
+
+  const parameters = getModelStoryboardDefaults(targetRecordId, {
+    ...context,
+    prompt,
+    referenceImages,
+    seed,
+  });
+
+  return { modelRecordId: targetRecordId, prompt, parameters, sceneCast };
+}
@@ -27,6 +27,12 @@ export interface StoryboardContext {
   
   /** Whether to connect to next scene (use next scene image as end frame) */
   connectToNextScene?: boolean;
+
+  /** Reference images of the cast the scene shows (reference-image models only) */
+  referenceImages?: string[];
+
+  /** Seed from the storyboard cast, for models that accept one */
+  seed?: number | null;
 }
 
 /**
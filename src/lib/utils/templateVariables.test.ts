@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderTemplate,
+  resolveMappingExpression,
+  createTemplateContext,
+  validateTemplate,
+  TemplateExpressionError,
+} from './templateVariables';
+
+const context = createTemplateContext(
+  { style: '', name: 'ada', tags: ['neon', 'rain'], duration: '5' },
+  { step2: { image: 'step2.png', outputs: [{ url: 'https://cdn.test/a.png' }, { url: 'https://cdn.test/b.png' }] } }
+);
+
+describe('templateVariables expressions', () => {
+  describe('renderTemplate', () => {
+    it('should keep plain {{dot.path}} lookups working', () => {
+      expect(renderTemplate('Hi {{user.name}}, see {{step2.image}}', context)).toBe('Hi ada, see step2.png');
+      expect(renderTemplate('{{user_input.name}}', context)).toBe('ada');
+    });
+
+    it('should apply filters in order', () => {
+      expect(renderTemplate('{{user.style | default:"cinematic" | upper}}', context)).toBe('CINEMATIC');
+      expect(renderTemplate('{{user.tags | join:" + "}}', context)).toBe('neon + rain');
+      expect(renderTemplate('{{"a long sentence" | truncate:8}}', context)).toBe('a lon...');
+    });
+
+    it('should index into prior step outputs', () => {
+      expect(renderTemplate('{{steps.2.outputs[1].url}}', context)).toBe('https://cdn.test/b.png');
+      expect(renderTemplate('{{steps.2.outputs[-1].url}}', context)).toBe('https://cdn.test/b.png');
+    });
+
+    it('should evaluate arithmetic and conditionals', () => {
+      expect(renderTemplate('{{user.duration * 2 + 1}}s', context)).toBe('11s');
+      expect(renderTemplate('{{user.name == "ada" ? "hi" : "bye"}}', context)).toBe('hi');
+      expect(renderTemplate('{{#if user.style}}styled{{else}}plain{{/if}}', context)).toBe('plain');
+    });
+
+    it('should render missing values as empty strings instead of leaving braces', () => {
+      expect(renderTemplate('[{{user.missing}}]', context)).toBe('[]');
+    });
+
+    it('should refuse prototype access and report syntax errors', () => {
+      expect(() => renderTemplate('{{user.constructor}}', context)).toThrow(TemplateExpressionError);
+      expect(() => renderTemplate('{{user.name | shout}}', context)).toThrow('Unknown filter "shout"');
+      expect(() => renderTemplate('{{1 / 0}}', context)).toThrow('Division by zero');
+    });
+  });
+
+  describe('resolveMappingExpression', () => {
+    it('should keep the value type for plain expressions', () => {
+      expect(resolveMappingExpression('user.tags', context)).toEqual(['neon', 'rain']);
+      expect(resolveMappingExpression('user.duration | number', context)).toBe(5);
+    });
+
+    it('should render mappings containing braces as templates', () => {
+      expect(resolveMappingExpression('{{user.name}}-{{user.tags | first}}', context)).toBe('ada-neon');
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should report unknown variables and fields', () => {
+      const issues = validateTemplate('{{user.nam}} {{step9.output}}', {
+        roots: ['user', 'steps'],
+        knownFields: { user: ['name'] },
+      });
+      expect(issues.map((i) => i.message)).toEqual(['"user.nam" does not exist', 'Unknown variable "step9"']);
+    });
+
+    it('should report unclosed blocks', () => {
+      expect(validateTemplate('{{#if user.name}}hello')[0].message).toContain('never closed');
+    });
+  });
+});
@@ -4,9 +4,27 @@
  * Provides reusable template string variable replacement functions.
  * Extracted from duplicate implementations across template handling files.
  *
+ * Workflow prompt templates and input mappings use the richer expression
+ * language (filters, conditionals, arithmetic) shared with the
+ * workflow-executor edge function - see the re-exports below.
+ *
  * @module templateVariables
  */
 
+export {
+  renderTemplate,
+  evaluateExpression,
+  resolveMappingExpression,
+  createTemplateContext,
+  validateTemplate,
+  validateMappingExpression,
+  TemplateExpressionError,
+  TEMPLATE_FILTERS,
+  TEMPLATE_LIMITS,
+  type TemplateIssue,
+  type TemplateValidationOptions,
+} from '@shared/template-expressions';
+
 /**
  * Template variable options
  */
@@ -0,0 +1,89 @@
+import type { WorkflowStep, UserInputField } from '@/hooks/useWorkflowTemplates';
+import {
+  validateTemplate,
+  validateMappingExpression,
+  type TemplateIssue,
+  type TemplateValidationOptions,
+} from '@/lib/utils/templateVariables';
+
+/**
+ * Save-time validation of a workflow step's templates
+ *
+ * Checks prompt templates, templated parameters, input mappings and run
+ * conditions for syntax errors and references to inputs or steps that do not
+ * exist, so broken `{{...}}` expressions are caught in the editor instead of
+ * at generation time.
+ */
+
+export interface StepTemplateIssue extends TemplateIssue {
+  /** Which part of the step the issue was found in, e.g. "Prompt template" */
+  field: string;
+}
+
+function buildValidationOptions(
+  userInputFields: UserInputField[],
+  upstreamSteps: WorkflowStep[]
+): TemplateValidationOptions {
+  const userFields = userInputFields.map((f) => f.name);
+  const knownFields: Record<string, string[]> = {
+    user: userFields,
+    user_input: userFields,
+    steps: upstreamSteps.map((s) => String(s.step_number)),
+  };
+
+  for (const step of upstreamSteps) {
+    knownFields[`step${String(step.step_number)}`] = [step.output_key || 'output', 'outputs', 'generation_id'];
+  }
+
+  return {
+    roots: Object.keys(knownFields),
+    knownFields,
+  };
+}
+
+export function validateWorkflowStepTemplates(
+  step: WorkflowStep,
+  userInputFields: UserInputField[],
+  upstreamSteps: WorkflowStep[]
+): StepTemplateIssue[] {
+  const options = buildValidationOptions(userInputFields, upstreamSteps);
+  const issues: StepTemplateIssue[] = [];
+  const add = (field: string, found: TemplateIssue[]): void => {
+    issues.push(...found.map((issue) => ({ ...issue, field })));
+  };
+
+  if (step.prompt_template) {
+    add('Prompt template', validateTemplate(step.prompt_template, options));
+  }
+
+  for (const [name, value] of Object.entries(step.parameters)) {
+    if (typeof value === 'string' && (name === 'prompt' || value.includes('{{'))) {
+      add(`Parameter "${name}"`, validateTemplate(value, options));
+    }
+  }
+
+  for (const [name, mapping] of Object.entries(step.input_mappings)) {
+    add(`Mapping for "${name}"`, validateMappingExpression(mapping, options));
+  }
+
+  if (step.run_if) {
+    add('Run condition', validateMappingExpression(step.run_if.source, options));
+  }
+
+  return issues;
+}
+
+/**
+ * Validate every step; returns issues keyed by step index (only steps with issues).
+ */
+export function validateWorkflowTemplates(
+  steps: WorkflowStep[],
+  userInputFields: UserInputField[]
+): Record<number, StepTemplateIssue[]> {
+  const result: Record<number, StepTemplateIssue[]> = {};
+  steps.forEach((step, index) => {
+    const issues = validateWorkflowStepTemplates(step, userInputFields, steps.slice(0, index));
+    if (issues.length > 0) result[index] = issues;
+  });
+  return result;
+}
@@ -0,0 +1,186 @@
+import { MarkerType, type Edge, type Node } from '@xyflow/react';
+import type { WorkflowStep, UserInputField } from '@/hooks/useWorkflowTemplates';
+import {
+  getSinkSteps,
+  getStepLevels,
+  resolveStepDependencies,
+  type StepCondition,
+} from '@shared/workflow-graph';
+
+/**
+ * Layout of a workflow step DAG for React Flow
+ *
+ * Steps are placed in rows by dependency depth (parallel steps share a row)
+ * between the user-input node and the final-output node.
+ */
+
+export const USER_INPUT_NODE_ID = 'user-input';
+export const OUTPUT_NODE_ID = 'output';
+
+export interface WorkflowGraphLayoutOptions {
+  origin: { x: number; y: number };
+  columnWidth: number;
+  rowHeight: number;
+  draggable?: boolean;
+  /** Extra data merged into every step node (e.g. an onEdit callback) */
+  stepNodeData?: Record<string, unknown>;
+}
+
+export function stepNodeId(stepNumber: number): string {
+  return `step-${String(stepNumber)}`;
+}
+
+export function parseStepNodeId(nodeId: string): number | null {
+  const match = /^step-(\d+)$/.exec(nodeId);
+  return match ? Number(match[1]) : null;
+}
+
+export function describeStepCondition(condition: StepCondition): string {
+  const needsValue = ['equals', 'not_equals', 'in'].includes(condition.operator);
+  const value = Array.isArray(condition.value) ? condition.value.join(', ') : JSON.stringify(condition.value ?? '');
+  return `if ${condition.source} ${condition.operator.replace('_', ' ')}${needsValue ? ` ${value}` : ''}`;
+}
+
+export function buildWorkflowGraph(
+  steps: WorkflowStep[],
+  userInputFields: UserInputField[],
+  options: WorkflowGraphLayoutOptions
+): { nodes: Node[]; edges: Edge[] } {
+  const { origin, columnWidth, rowHeight, draggable, stepNodeData } = options;
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+
+  const dependencies = resolveStepDependencies(steps);
+  const levels = getStepLevels(steps);
+  const sinks = getSinkSteps(steps);
+  const maxLevel = Math.max(-1, ...levels.values());
+
+  nodes.push({
+    id: USER_INPUT_NODE_ID,
+    type: 'userInput',
+    position: origin,
+    data: { fields: userInputFields },
+    draggable,
+  });
+
+  // Group steps into rows by level
+  const rows = new Map<number, WorkflowStep[]>();
+  [...steps]
+    .sort((a, b) => a.step_number - b.step_number)
+    .forEach((step) => {
+      const level = levels.get(step.step_number) ?? 0;
+      rows.set(level, [...(rows.get(level) ?? []), step]);
+    });
+
+  for (const [level, rowSteps] of rows) {
+    rowSteps.forEach((step, index) => {
+      nodes.push({
+        id: stepNodeId(step.step_number),
+        type: 'step',
+        position: {
+          x: origin.x + (index - (rowSteps.length - 1) / 2) * columnWidth,
+          y: origin.y + (level + 1) * rowHeight,
+        },
+        data: { ...stepNodeData, step },
+        draggable,
+      });
+    });
+  }
+
+  for (const step of steps) {
+    const target = stepNodeId(step.step_number);
+    const deps = dependencies.get(step.step_number) ?? [];
+    const sources = deps.length > 0 ? deps.map(stepNodeId) : [USER_INPUT_NODE_ID];
+
+    for (const source of sources) {
+      edges.push({
+        id: `e-${source}-${target}`,
+        source,
+        target,
+        animated: !step.run_if,
+        label: step.run_if ? describeStepCondition(step.run_if) : undefined,
+        style: step.run_if ? { strokeDasharray: '6 4' } : undefined,
+        markerEnd: { type: MarkerType.ArrowClosed },
+      });
+    }
+  }
+
+  if (steps.length > 0) {
+    const finalStep = steps.find((s) => s.step_number === Math.max(...sinks));
+    nodes.push({
+      id: OUTPUT_NODE_ID,
+      type: 'output',
+      position: { x: origin.x, y: origin.y + (maxLevel + 2) * rowHeight },
+      data: { outputKey: finalStep?.output_key },
+      draggable,
+    });
+
+    for (const sink of sinks) {
+      edges.push({
+        id: `e-${stepNodeId(sink)}-${OUTPUT_NODE_ID}`,
+        source: stepNodeId(sink),
+        target: OUTPUT_NODE_ID,
+        animated: true,
+        markerEnd: { type: MarkerType.ArrowClosed },
+      });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Return a copy of `steps` where `targetStep` also depends on `sourceStep`.
+ * Inferred (linear / parallel-group) dependencies are made explicit first.
+ */
+export function addStepDependency(
+  steps: WorkflowStep[],
+  sourceStep: number,
+  targetStep: number
+): WorkflowStep[] {
+  const dependencies = resolveStepDependencies(steps);
+  return steps.map((step) => {
+    if (step.step_number !== targetStep) return step;
+    const current = dependencies.get(targetStep) ?? [];
+    return current.includes(sourceStep)
+      ? step
+      : { ...step, depends_on: [...current, sourceStep].sort((a, b) => a - b) };
+  });
+}
+
+/**
+ * Return a copy of `steps` where `targetStep` no longer depends on `sourceStep`.
+ */
+export function removeStepDependency(
+  steps: WorkflowStep[],
+  sourceStep: number,
+  targetStep: number
+): WorkflowStep[] {
+  const dependencies = resolveStepDependencies(steps);
+  return steps.map((step) =>
+    step.step_number === targetStep
+      ? { ...step, depends_on: (dependencies.get(targetStep) ?? []).filter((d) => d !== sourceStep) }
+      : step
+  );
+}
+
+/**
+ * Remove the step at `index`, renumber the steps after it and rewrite every
+ * explicit dependency so the graph keeps pointing at the same steps.
+ */
+export function removeWorkflowStep(steps: WorkflowStep[], index: number): WorkflowStep[] {
+  if (index < 0 || index >= steps.length) return steps;
+  const removed = steps[index].step_number;
+
+  const renumber = (stepNumber: number): number => (stepNumber > removed ? stepNumber - 1 : stepNumber);
+
+  return steps
+    .filter((_, i) => i !== index)
+    .map((step) => ({
+      ...step,
+      step_number: renumber(step.step_number),
+      depends_on: step.depends_on
+        ?.filter((d) => d !== removed)
+        .map(renumber),
+    }));
+}
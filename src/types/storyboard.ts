@@ -3,6 +3,10 @@
  * Consolidated type definitions for storyboard functionality
  */
 
+import type { SceneConsistency } from '@shared/storyboard-cast';
+import type { SceneTake } from '@shared/storyboard-script';
+import type { DialogueLine, DialogueSpeaker } from '@shared/storyboard-dialogue';
+
 export interface StoryboardLocalState {
   showScenes: boolean;
   showSubtitleCustomizer: boolean;
@@ -26,10 +30,19 @@ export interface Scene {
   order_number: number;
   voice_over_text: string;
   image_prompt: string;
+  image_prompt_2?: string | null;
   image_preview_url?: string;
   video_url?: string;
   is_edited: boolean;
   storyboard_id: string;
+  consistency?: SceneConsistency | null;
+  takes?: SceneTake[];
+  beat?: string | null;
+  format_fields?: Record<string, string>;
+  dialogue?: DialogueLine[];
+  /** Cue timings of a subtitle import, in seconds */
+  start_seconds?: number | null;
+  end_seconds?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -55,6 +68,11 @@ export interface Storyboard {
   video_quality?: string;
   aspect_ratio?: string | null;
   render_mode?: 'quick' | 'customize';
+  narrative_format?: string;
+  voice_model?: string | null;
+  dialogue_characters?: DialogueSpeaker[];
+  /** Set when the script was imported rather than generated */
+  import_format?: string | null;
   subtitle_settings?: Record<string, any>;
   music_settings?: Record<string, any>;
   image_animation_settings?: {
@@ -4,6 +4,7 @@
  */
 
 import type { UserInputField } from "@/hooks/useWorkflowTemplates";
+import type { StepCondition } from "@shared/workflow-graph";
 
 /**
  * Base workflow template (admin-only, from database)
@@ -38,6 +39,12 @@ export interface WorkflowStep {
   parameters: Record<string, any>;
   input_mappings: Record<string, string>;
   output_key: string;
+  /** Step numbers this step waits for; omitted = previous step (linear) */
+  depends_on?: number[];
+  /** Steps sharing a group run in parallel */
+  parallel_group?: string;
+  /** Conditional edge - the step is skipped when this evaluates false */
+  run_if?: StepCondition;
 }
 
 /**
@@ -39,6 +39,42 @@ export const WorkflowProgressSchema = z.object({
 
 export type WorkflowProgress = z.infer<typeof WorkflowProgressSchema>;
 
+/**
+ * Resuming failed workflow executions
+ */
+export const WorkflowStepOverrideSchema = z.object({
+  model_record_id: z.string().uuid().optional(),
+  prompt: z.string().max(20000).optional(),
+  parameters: z.record(z.unknown()).optional(),
+});
+
+export type WorkflowStepOverride = z.infer<typeof WorkflowStepOverrideSchema>;
+
+/** Overrides keyed by step number */
+export type WorkflowStepOverrides = Record<string, WorkflowStepOverride>;
+
+export const WorkflowResumePreviewSchema = z.object({
+  execution_id: z.string(),
+  steps: z.array(z.object({
+    step_number: z.number(),
+    step_name: z.string(),
+    model_record_id: z.string().nullable(),
+    prompt: z.string(),
+    parameters: z.record(z.unknown()),
+    estimated_credits: z.number(),
+  })),
+  remaining_steps: z.array(z.number()),
+  estimated_credits: z.number(),
+  available_credits: z.number(),
+});
+
+export type WorkflowResumePreview = z.infer<typeof WorkflowResumePreviewSchema>;
+
+export interface FailedWorkflowExecution {
+  executionId: string;
+  error: string;
+}
+
 /**
  * Workflow template schemas
  */
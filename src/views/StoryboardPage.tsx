@@ -6,6 +6,8 @@ import { BlackboardStoryboardInput } from '@/components/storyboard/BlackboardSto
 import { StoryboardEditor } from '@/components/storyboard/StoryboardEditor';
 import { StoryboardModeSelector } from '@/components/storyboard/StoryboardModeSelector';
 import { useStoryboard } from '@/hooks/useStoryboard';
+import { useNarrativeFormats } from '@/hooks/storyboard/useNarrativeFormats';
+import { DEFAULT_NARRATIVE_FORMAT_ID } from '@shared/narrative-formats';
 import { Film, ChevronDown, RotateCcw, Coins, Sparkles, Edit3, Palette } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -28,7 +30,8 @@ import {
 export default function StoryboardPage() {
   const queryClient = useQueryClient();
   const { execute } = useErrorHandler();
-  const { storyboard, scenes, clearStoryboard } = useStoryboard();
+  const { storyboard, scenes, clearStoryboard, rewriteInFormat, isGenerating } = useStoryboard();
+  const { formats } = useNarrativeFormats();
   const [showInputForm, setShowInputForm] = useState(true);
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [showModeSelector, setShowModeSelector] = useState(false);
@@ -77,6 +80,11 @@ export default function StoryboardPage() {
     }
   };
 
+  const handleFormatChange = async (narrativeFormat: string) => {
+    if (!storyboard || narrativeFormat === storyboard.narrative_format) return;
+    await rewriteInFormat(storyboard.id, narrativeFormat);
+  };
+
   const handleReset = async () => {
     if (storyboard?.id) {
       setShowResetDialog(true);
@@ -216,6 +224,11 @@ export default function StoryboardPage() {
           onSelectMode={handleModeSelection}
           sceneCount={scenes.length}
           estimatedDuration={storyboard.duration}
+          formats={formats}
+          narrativeFormat={storyboard.narrative_format ?? DEFAULT_NARRATIVE_FORMAT_ID}
+          onChangeFormat={(format) => { void handleFormatChange(format); }}
+          isRewriting={isGenerating}
+          isImported={!!storyboard.import_format}
         />
       )}
 
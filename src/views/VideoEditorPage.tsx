@@ -3,21 +3,26 @@ import { ChevronDown } from 'lucide-react';
 import {
   MediaUploader,
   MediaLibrary,
-  ClipList,
+  Timeline,
+  ClipSettingsPanel,
   OutputSettingsPanel,
   RenderButton,
   useVideoEditorStore,
   VideoPreview,
+  PreviewCompositor,
   AudioTrackPanel,
+  AutoEditPanel,
   SubtitlePanel,
   GlobalTransitionsPanel,
+  ProjectBar,
+  ReframePanel,
 } from '@/features/video-editor';
 import { useState, useCallback } from 'react';
 
-type SectionKey = 'audio' | 'subtitles' | 'transitions' | 'output' | null;
+type SectionKey = 'audio' | 'autoEdit' | 'subtitles' | 'transitions' | 'output' | 'reframe' | null;
 
 const VideoEditorPage = () => {
-  const { clips, assets, getTotalDuration, selectClip } = useVideoEditorStore();
+  const { clips, tracks, assets, getTotalDuration, selectClip } = useVideoEditorStore();
   // Single open section - only one can be open at a time
   const [openSection, setOpenSection] = useState<SectionKey>(null);
 
@@ -43,10 +48,13 @@ const VideoEditorPage = () => {
           <div>
             <h1 className="text-3xl md:text-4xl font-black">Video Editor</h1>
             <p className="text-sm md:text-base text-foreground/80 font-medium">
-              {assets.length} assets • {clips.length} clips • {getTotalDuration().toFixed(1)}s total
+              {assets.length} assets • {clips.length} clips on {tracks.length} tracks • {getTotalDuration().toFixed(1)}s total
             </p>
           </div>
 
+          {/* Project, save status and undo/redo */}
+          <ProjectBar />
+
           {/* Main content */}
           <div className="grid lg:grid-cols-3 gap-6">
             {/* Left column - Upload, Library & Clips */}
@@ -60,14 +68,23 @@ const VideoEditorPage = () => {
                 <MediaLibrary />
               </div>
 
-              {/* Clip Sequence */}
+              {/* Live preview */}
+              <div>
+                <h3 className="font-medium mb-3">Preview</h3>
+                <PreviewCompositor />
+              </div>
+
+              {/* Timeline */}
               <div>
-                <h3 className="font-medium mb-3">Clip Sequence</h3>
+                <h3 className="font-medium mb-3">Timeline</h3>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Drag to reorder clips. Click the arrow to expand settings.
+                  Drag clips along the ruler or onto another track. Drag a clip's edges to trim it. Click a clip to edit its settings.
                 </p>
-                <ClipList onClipExpand={() => setOpenSection(null)} />
+                <Timeline onClipSelect={() => setOpenSection(null)} />
               </div>
+
+              {/* Selected clip */}
+              <ClipSettingsPanel />
             </div>
 
             {/* Right column - Settings & Render */}
@@ -87,6 +104,21 @@ const VideoEditorPage = () => {
                 </div>
               </Collapsible>
 
+              {/* Auto-edit to the background music */}
+              <Collapsible open={openSection === 'autoEdit'} onOpenChange={() => { toggleSection('autoEdit'); }}>
+                <div className="bg-card border rounded-lg">
+                  <CollapsibleTrigger className="w-full p-4 flex items-center justify-between hover:bg-muted/50 transition-colors">
+                    <h3 className="font-medium">Auto-Edit to Music</h3>
+                    <ChevronDown className={`h-5 w-5 transition-transform ${openSection === 'autoEdit' ? 'rotate-180' : ''}`} />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="px-4 pb-4">
+                      <AutoEditPanel />
+                    </div>
+                  </CollapsibleContent>
+                </div>
+              </Collapsible>
+
               {/* Subtitles */}
               <Collapsible open={openSection === 'subtitles'} onOpenChange={() => toggleSection('subtitles')}>
                 <div className="bg-card border rounded-lg">
@@ -143,6 +175,21 @@ const VideoEditorPage = () => {
                 <h3 className="font-medium mb-4">Video Output</h3>
                 <VideoPreview />
               </div>
+
+              {/* Reframe finished videos to other aspect ratios */}
+              <Collapsible open={openSection === 'reframe'} onOpenChange={() => { toggleSection('reframe'); }}>
+                <div className="bg-card border rounded-lg">
+                  <CollapsibleTrigger className="w-full p-4 flex items-center justify-between hover:bg-muted/50 transition-colors">
+                    <h3 className="font-medium">Reframe</h3>
+                    <ChevronDown className={`h-5 w-5 transition-transform ${openSection === 'reframe' ? 'rotate-180' : ''}`} />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className="px-4 pb-4">
+                      <ReframePanel />
+                    </div>
+                  </CollapsibleContent>
+                </div>
+              </Collapsible>
             </div>
           </div>
         </div>
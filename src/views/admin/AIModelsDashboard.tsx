@@ -11,6 +11,7 @@ import { ChevronDown, ChevronRight, Search, Eye, EyeOff, Ban, EyeIcon, ArrowUpDo
 import { toast } from "sonner";
 import { getAllModels } from "@/lib/models/registry";
 import { useQuery } from "@tanstack/react-query";
+import { RegistryDriftPanel } from "@/components/admin/RegistryDriftPanel";
 
 const CONTENT_TYPE_LABELS: Record<string, string> = {
   "image_editing": "Image Editing",
@@ -468,6 +469,9 @@ export default function AIModelsDashboard() {
         </Card>
       </div>
 
+      {/* Client/edge registry drift */}
+      <RegistryDriftPanel />
+
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
@@ -0,0 +1,402 @@
+import { useMemo, useState } from "react";
+import { useAdminNarrativeFormats, type NarrativeFormatRecord } from "@/hooks/useAdminNarrativeFormats";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SmartLoader } from "@/components/ui/smart-loader";
+import { Plus, Edit, Trash2, Copy } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  BUILT_IN_NARRATIVE_FORMATS,
+  DEFAULT_NARRATIVE_FORMAT_ID,
+  parseNarrativeFormat,
+  toNarrativeFormat,
+  type NarrativeFormat,
+} from "@shared/narrative-formats";
+
+// Everything but id, name and description, which have their own columns
+const toDefinition = ({
+  persona, brief, secondsPerScene, minScenes, maxScenes, wordsPerSecond, intro, beats, sceneFields, rules,
+}: NarrativeFormat) => ({
+  persona, brief, secondsPerScene, minScenes, maxScenes, wordsPerSecond, intro, beats, sceneFields, rules,
+});
+
+const isBuiltIn = (id: string) => BUILT_IN_NARRATIVE_FORMATS.some((format) => format.id === id);
+
+const starterFormat = BUILT_IN_NARRATIVE_FORMATS.find((format) => format.id === DEFAULT_NARRATIVE_FORMAT_ID)
+  ?? BUILT_IN_NARRATIVE_FORMATS[0];
+
+export default function NarrativeFormatsManager() {
+  const { formats, isLoading, createFormat, updateFormat, deleteFormat } = useAdminNarrativeFormats();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingFormat, setEditingFormat] = useState<NarrativeFormatRecord | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [replacedBuiltInId, setReplacedBuiltInId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    id: "",
+    name: "",
+    description: "",
+    definition: "",
+    sort_order: 0,
+    is_active: true,
+  });
+
+  // Checked as the admin types, with the same rules generate-storyboard applies
+  const validation = useMemo(() => {
+    let definition: unknown;
+    try {
+      definition = JSON.parse(formData.definition);
+    } catch (error) {
+      return { format: null, errors: [`Definition is not valid JSON: ${error instanceof Error ? error.message : "parse error"}`] };
+    }
+    if (!definition || typeof definition !== "object" || Array.isArray(definition)) {
+      return { format: null, errors: ["Definition must be a JSON object"] };
+    }
+    return parseNarrativeFormat({
+      ...definition,
+      id: formData.id,
+      name: formData.name,
+      description: formData.description,
+    });
+  }, [formData.definition, formData.id, formData.name, formData.description]);
+
+  // `builtIn` opens a copy of that built-in, saved under its id to replace it
+  const handleOpenDialog = (record?: NarrativeFormatRecord, builtIn?: NarrativeFormat) => {
+    if (record) {
+      setEditingFormat(record);
+      setFormData({
+        id: record.id,
+        name: record.name,
+        description: record.description,
+        definition: JSON.stringify(record.definition, null, 2),
+        sort_order: record.sort_order,
+        is_active: record.is_active,
+      });
+    } else {
+      setEditingFormat(null);
+      setReplacedBuiltInId(builtIn?.id ?? null);
+      setFormData({
+        id: builtIn?.id ?? "",
+        name: builtIn?.name ?? "",
+        description: builtIn?.description ?? "",
+        definition: JSON.stringify(toDefinition(builtIn ?? starterFormat), null, 2),
+        sort_order: (formats?.length || 0) * 10,
+        is_active: true,
+      });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { format } = validation;
+    if (!format) return;
+
+    const fields = {
+      name: format.name,
+      description: format.description,
+      definition: toDefinition(format) as unknown as Json,
+      sort_order: formData.sort_order,
+      is_active: formData.is_active,
+    };
+
+    if (editingFormat) {
+      await updateFormat.mutateAsync({ id: editingFormat.id, updates: fields });
+    } else {
+      await createFormat.mutateAsync({ ...fields, id: format.id });
+    }
+
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (deleteId) {
+      await deleteFormat.mutateAsync(deleteId);
+      setDeleteId(null);
+    }
+  };
+
+  const handleNameChange = (name: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      name,
+      id: editingFormat || replacedBuiltInId
+        ? prev.id
+        : name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, ""),
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-[50vh]">
+        <SmartLoader />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Narrative Formats</h1>
+          <p className="text-muted-foreground">
+            Script structures users can pick when generating a storyboard
+          </p>
+        </div>
+        <Button onClick={() => { handleOpenDialog(); }}>
+          <Plus className="w-4 h-4 mr-2" />
+          Create Format
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Id</TableHead>
+              <TableHead>Scenes</TableHead>
+              <TableHead>Beats</TableHead>
+              <TableHead>Sort Order</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {formats?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No custom formats yet. Create one, or customize a built-in format below.
+                </TableCell>
+              </TableRow>
+            ) : (
+              formats?.map((record) => {
+                const format = toNarrativeFormat(record);
+                return (
+                  <TableRow key={record.id}>
+                    <TableCell className="font-medium">
+                      {record.name}
+                      {isBuiltIn(record.id) && (
+                        <Badge variant="outline" className="ml-2">Replaces built-in</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{record.id}</TableCell>
+                    <TableCell>{format ? `${String(format.minScenes)}–${String(format.maxScenes)}` : "—"}</TableCell>
+                    <TableCell className="max-w-md truncate">
+                      {format ? format.beats.map((beat) => beat.label).join(" → ") : "—"}
+                    </TableCell>
+                    <TableCell>{record.sort_order}</TableCell>
+                    <TableCell>
+                      {!format ? (
+                        <span className="text-destructive">Invalid</span>
+                      ) : record.is_active ? (
+                        <span className="text-green-600">Active</span>
+                      ) : (
+                        <span className="text-muted-foreground">Hidden</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { handleOpenDialog(record); }}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setDeleteId(record.id); }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">Built-in Formats</h2>
+          <p className="text-sm text-muted-foreground">
+            Shipped with the app. Customizing one saves a copy under the same id that replaces it.
+          </p>
+        </div>
+        <div className="border rounded-lg">
+          <Table>
+            <TableBody>
+              {BUILT_IN_NARRATIVE_FORMATS.map((format) => {
+                const isReplaced = formats?.some((record) => record.id === format.id) ?? false;
+                return (
+                  <TableRow key={format.id}>
+                    <TableCell className="font-medium">{format.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{format.id}</TableCell>
+                    <TableCell className="max-w-md truncate text-muted-foreground">{format.description}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isReplaced}
+                        onClick={() => { handleOpenDialog(undefined, format); }}
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        {isReplaced ? "Customized" : "Customize"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingFormat ? "Edit Narrative Format" : "Create Narrative Format"}
+            </DialogTitle>
+            <DialogDescription>
+              The definition sets scene timing, word rate, intro, beats, extra scene fields and rules.
+              Exactly one beat uses {'"scenes": "rest"'} to fill the scenes the others leave.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => { handleNameChange(e.target.value); }}
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="id">Id *</Label>
+                  <Input
+                    id="id"
+                    value={formData.id}
+                    onChange={(e) => { setFormData({ ...formData, id: e.target.value }); }}
+                    disabled={!!editingFormat || !!replacedBuiltInId}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => { setFormData({ ...formData, description: e.target.value }); }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="definition">Definition (JSON) *</Label>
+                <Textarea
+                  id="definition"
+                  value={formData.definition}
+                  onChange={(e) => { setFormData({ ...formData, definition: e.target.value }); }}
+                  className="min-h-[320px] font-mono text-xs"
+                  spellCheck={false}
+                />
+                {validation.errors.length > 0 && (
+                  <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+                    {validation.errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sort_order">Sort Order</Label>
+                  <Input
+                    id="sort_order"
+                    type="number"
+                    value={formData.sort_order}
+                    onChange={(e) => { setFormData({ ...formData, sort_order: parseInt(e.target.value) || 0 }); }}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="is_active">Active</Label>
+                  <Switch
+                    id="is_active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked) => { setFormData({ ...formData, is_active: checked }); }}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => { setIsDialogOpen(false); }}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!validation.format}>
+                {editingFormat ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => { setDeleteId(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Narrative Format?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users can no longer pick it. Existing storyboards keep their scripts; a deleted
+              replacement of a built-in brings the built-in back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
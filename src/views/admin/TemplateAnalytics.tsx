@@ -3,7 +3,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SmartLoader } from "@/components/ui/smart-loader";
+import { Badge } from "@/components/ui/badge";
 import { Eye, MousePointerClick, TrendingUp, Award } from "lucide-react";
+import { useTemplateVersionStats } from "@/hooks/admin/useTemplateVersions";
+import type { TemplateVersionStats } from "@/lib/admin/template-versions";
 
 interface TemplateLandingPage {
   id: string;
@@ -50,6 +53,8 @@ export default function TemplateAnalytics() {
     },
   });
 
+  const { data: versionStats } = useTemplateVersionStats();
+
   if (isLoading) {
     return <SmartLoader message="Loading analytics..." />;
   }
@@ -65,6 +70,17 @@ export default function TemplateAnalytics() {
 
   const topTemplates = templates?.slice(0, 5) || [];
 
+  // Versions grouped per workflow template (rows arrive ordered by name, newest version first)
+  const versionsByTemplate = (versionStats || []).reduce((groups: Record<string, TemplateVersionStats[]>, row: TemplateVersionStats) => {
+    const group = groups[row.template_id] as TemplateVersionStats[] | undefined;
+    if (group) {
+      group.push(row);
+    } else {
+      groups[row.template_id] = [row];
+    }
+    return groups;
+  }, {});
+
   return (
     <div className="space-y-6">
       <div>
@@ -121,6 +137,7 @@ export default function TemplateAnalytics() {
         <TabsList>
           <TabsTrigger value="templates">Top Templates</TabsTrigger>
           <TabsTrigger value="categories">By Category</TabsTrigger>
+          <TabsTrigger value="versions">By Version</TabsTrigger>
         </TabsList>
 
         <TabsContent value="templates" className="space-y-4">
@@ -215,6 +232,54 @@ export default function TemplateAnalytics() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="versions" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Workflow Completion by Template Version</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-6">
+                {Object.keys(versionsByTemplate).length === 0 && (
+                  <p className="text-sm text-muted-foreground">No workflow executions recorded per version yet.</p>
+                )}
+                {Object.entries(versionsByTemplate).map(([templateId, versions]) => (
+                  <div key={templateId} className="space-y-2">
+                    <h3 className="font-semibold">{versions[0].template_name}</h3>
+                    {versions.map((version: TemplateVersionStats) => (
+                      <div key={version.version_id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium">v{version.version_number}</span>
+                          <Badge variant={version.status === 'published' ? 'default' : 'outline'}>{version.status}</Badge>
+                          {version.published_at && (
+                            <span className="text-sm text-muted-foreground">
+                              {new Date(version.published_at).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex gap-6 text-sm">
+                          <div className="text-center">
+                            <div className="text-muted-foreground">Runs</div>
+                            <div className="font-semibold">{version.executions.toLocaleString()}</div>
+                          </div>
+                          <div className="text-center">
+                            <div className="text-muted-foreground">Failed</div>
+                            <div className="font-semibold">{version.failed.toLocaleString()}</div>
+                          </div>
+                          <div className="text-center">
+                            <div className="text-muted-foreground">Completed</div>
+                            <div className="font-semibold text-primary">
+                              {version.conversion_rate_pct !== null ? `${version.conversion_rate_pct.toFixed(1)}%` : '—'}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for ComfyUI workflow templates
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  extractComfyOutputs,
+  getComfyExecutionStatus,
+  injectComfyParameters,
+  parseComfyMessage,
+  validateComfyWorkflowTemplate,
+  type ComfyWorkflowTemplate,
+} from "../comfy-workflow.ts";
+
+const template: ComfyWorkflowTemplate = {
+  workflow: {
+    "3": { class_type: "KSampler", inputs: { seed: 0, steps: 20, model: ["4", 0] } },
+    "6": { class_type: "CLIPTextEncode", inputs: { text: "default prompt" } },
+    "9": { class_type: "SaveImage", inputs: { images: ["8", 0] } },
+  },
+  bindings: {
+    prompt: { node: "6", input: "text" },
+    seed: { node: "3", input: "seed" },
+    steps: [{ node: "3", input: "steps" }],
+  },
+  outputNode: "9",
+};
+
+Deno.test("Comfy workflow - parameters are written into bound inputs of a copy", () => {
+  const workflow = injectComfyParameters(template, { prompt: "a red fox", seed: 42, steps: undefined });
+
+  assertEquals(workflow["6"].inputs.text, "a red fox");
+  assertEquals(workflow["3"].inputs, { seed: 42, steps: 20, model: ["4", 0] });
+  assertEquals(template.workflow["6"].inputs.text, "default prompt");
+});
+
+Deno.test("Comfy workflow - bindings to missing nodes are rejected", () => {
+  const broken = { ...template, bindings: { prompt: { node: "99", input: "text" } } };
+
+  assertThrows(() => injectComfyParameters(broken, { prompt: "x" }), Error, "no node 99");
+  assertEquals(validateComfyWorkflowTemplate(broken, { prompt: {} }), [
+    'Binding "prompt" targets missing node 99 (text)',
+  ]);
+});
+
+Deno.test("Comfy workflow - bindings must name SCHEMA properties", () => {
+  assertEquals(validateComfyWorkflowTemplate(template, { prompt: {}, seed: {} }), [
+    'Binding "steps" is not a SCHEMA property',
+  ]);
+});
+
+Deno.test("Comfy workflow - outputs come from the output node only", () => {
+  const entry = {
+    outputs: {
+      "7": { images: [{ filename: "preview.png", subfolder: "", type: "temp" }] },
+      "9": { images: [{ filename: "result_00001_.png", subfolder: "runs", type: "output" }] },
+    },
+  };
+
+  assertEquals(extractComfyOutputs(entry, "9"), [
+    { node: "9", filename: "result_00001_.png", subfolder: "runs", type: "output" },
+  ]);
+  assertEquals(extractComfyOutputs(entry).length, 2);
+});
+
+Deno.test("Comfy workflow - history status reports completion and errors", () => {
+  assertEquals(getComfyExecutionStatus(undefined), { state: "running" });
+  assertEquals(getComfyExecutionStatus({ status: { status_str: "success", completed: true } }), { state: "completed" });
+  assertEquals(
+    getComfyExecutionStatus({
+      status: {
+        status_str: "error",
+        completed: false,
+        messages: [["execution_start", {}], ["execution_error", { exception_message: "CUDA out of memory" }]],
+      },
+    }),
+    { state: "failed", error: "CUDA out of memory" }
+  );
+});
+
+Deno.test("Comfy workflow - websocket messages are filtered by prompt", () => {
+  const progress = JSON.stringify({ type: "progress", data: { value: 5, max: 20, node: "3", prompt_id: "p1" } });
+
+  assertEquals(parseComfyMessage(progress, "p1"), { kind: "progress", percent: 25, node: "3" });
+  assertEquals(parseComfyMessage(progress, "other"), null);
+  assertEquals(parseComfyMessage(JSON.stringify({ type: "executing", data: { node: null, prompt_id: "p1" } }), "p1"), { kind: "done" });
+  assertEquals(parseComfyMessage(JSON.stringify({ type: "executing", data: { node: "3", prompt_id: "p1" } }), "p1"), null);
+  assertEquals(parseComfyMessage("not json", "p1"), null);
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for model equivalence groups
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  areEquivalentModels,
+  getEquivalentModels,
+  reconcileFailoverCost,
+  translateEquivalentParameters,
+} from "../model-equivalence.ts";
+
+const KIE_REMOVE_BG = '58b8b09f-57fd-42e3-ae2d-689e9ea3064d';
+const RUNWARE_REMOVE_BG = 'd1d8b152-e123-4375-8f55-c0d0a699009b';
+
+Deno.test("Model equivalence - members list the other providers only", () => {
+  assertEquals(getEquivalentModels(KIE_REMOVE_BG).map(m => m.recordId), [RUNWARE_REMOVE_BG]);
+  assertEquals(getEquivalentModels('00000000-0000-0000-0000-000000000000'), []);
+  assertEquals(areEquivalentModels(KIE_REMOVE_BG, RUNWARE_REMOVE_BG), true);
+  assertEquals(areEquivalentModels(KIE_REMOVE_BG, KIE_REMOVE_BG), false);
+});
+
+Deno.test("Model equivalence - parameters are renamed through shared roles", () => {
+  assertEquals(
+    translateEquivalentParameters(KIE_REMOVE_BG, RUNWARE_REMOVE_BG, { image: 'https://cdn/a.png', modelId: 'x' }),
+    { inputImage: 'https://cdn/a.png' }
+  );
+  assertEquals(
+    translateEquivalentParameters(RUNWARE_REMOVE_BG, KIE_REMOVE_BG, {
+      inputImage: 'https://cdn/a.png',
+      outputFormat: 'WEBP',
+      taskType: 'imageBackgroundRemoval',
+    }),
+    { image: 'https://cdn/a.png' }
+  );
+});
+
+Deno.test("Model equivalence - translating between unrelated models throws", () => {
+  assertThrows(
+    () => translateEquivalentParameters(KIE_REMOVE_BG, '00000000-0000-0000-0000-000000000000', {}),
+    Error,
+    'not equivalent'
+  );
+});
+
+Deno.test("Model equivalence - rerouted cost never exceeds the quote", () => {
+  assertEquals(reconcileFailoverCost(0.5, 0.06), 0.06);
+  assertEquals(reconcileFailoverCost(0.06, 0.5), 0.06);
+});
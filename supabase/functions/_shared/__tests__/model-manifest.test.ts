@@ -0,0 +1,99 @@
+/**
+ * Unit tests for declarative model manifests
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  calculateManifestCost,
+  prepareManifestPayload,
+  validateManifestInputs,
+  validateModelManifest,
+  type ModelManifest,
+} from "../model-manifest.ts";
+
+const manifest: ModelManifest = {
+  config: {
+    modelId: "acme/video-v1",
+    recordId: "11111111-2222-3333-4444-555555555555",
+    modelName: "Acme Video V1",
+    provider: "kie_ai",
+    contentType: "prompt_to_video",
+    baseCreditCost: 10,
+    estimatedTimeSeconds: 120,
+    costMultipliers: { duration: { "5": 1, "10": 2 } },
+    apiEndpoint: "/api/v1/jobs/createTask",
+    payloadStructure: "wrapper",
+    maxImages: 0,
+    defaultOutputs: 1,
+    isActive: true,
+  },
+  schema: {
+    type: "object",
+    required: ["prompt"],
+    properties: { prompt: {}, duration: {}, seed: {}, negative_prompt: {}, strength: {} },
+  },
+  validation: [
+    { field: "prompt", rule: "required", message: "Prompt required" },
+    { field: "prompt", rule: "maxLength", value: 10, message: "Prompt too long" },
+    { field: "strength", rule: "range", minimum: 0, maximum: 1, message: "Strength must be between 0 and 1" },
+  ],
+  payload: {
+    wrapper: { modelKey: "model", inputKey: "input" },
+    fields: [
+      { key: "prompt", from: "prompt" },
+      { key: "duration", from: "duration", value: "5" },
+      { key: "seed", from: "seed", when: "defined" },
+      { key: "negative_prompt", from: "negative_prompt", when: "truthy" },
+      { key: "watermark", value: false },
+    ],
+  },
+  pricing: { multipliers: [{ param: "duration", default: "5" }] },
+};
+
+Deno.test("Model manifest - validation rules apply in order", () => {
+  assertEquals(validateManifestInputs(manifest, {}), { valid: false, error: "Prompt required" });
+  assertEquals(validateManifestInputs(manifest, { prompt: "a very long prompt" }), { valid: false, error: "Prompt too long" });
+  assertEquals(validateManifestInputs(manifest, { prompt: "a cat", strength: 2 }), {
+    valid: false,
+    error: "Strength must be between 0 and 1",
+  });
+  assertEquals(validateManifestInputs(manifest, { prompt: "a cat", strength: 0 }), { valid: true });
+});
+
+Deno.test("Model manifest - payload fields map, default and skip inputs", () => {
+  assertEquals(prepareManifestPayload(manifest, { prompt: "a cat", negative_prompt: "" }), {
+    model: "acme/video-v1",
+    input: { prompt: "a cat", duration: "5", watermark: false },
+  });
+  assertEquals(prepareManifestPayload(manifest, { prompt: "a cat", duration: "10", seed: 0, negative_prompt: "blur" }), {
+    model: "acme/video-v1",
+    input: { prompt: "a cat", duration: "10", seed: 0, negative_prompt: "blur", watermark: false },
+  });
+  assertEquals(prepareManifestPayload({ ...manifest, payload: { fields: [{ key: "text", from: "prompt" }] } }, { prompt: "hi" }), {
+    text: "hi",
+  });
+});
+
+Deno.test("Model manifest - cost multiplies the base by value tables", () => {
+  assertEquals(calculateManifestCost(manifest, {}), 10);
+  assertEquals(calculateManifestCost(manifest, { duration: "10" }), 20);
+  assertEquals(calculateManifestCost(manifest, { duration: "15" }), 10);
+});
+
+Deno.test("Model manifest - mistakes are reported before generation time", () => {
+  assertEquals(validateModelManifest(manifest), []);
+  assertEquals(
+    validateModelManifest({
+      ...manifest,
+      validation: [{ field: "image", rule: "required", message: "Image required" }],
+      payload: { fields: [{ key: "image_url", from: "image" }, { key: "empty" }] },
+      pricing: { multipliers: [{ param: "resolution", default: "720p" }] },
+    }),
+    [
+      'Validation field "image" is not a SCHEMA property',
+      'Payload key "image_url" reads "image", which is not a SCHEMA property',
+      'Payload key "empty" has neither an input nor a value',
+      'Pricing multiplier "resolution" has no table in config.costMultipliers',
+    ]
+  );
+});
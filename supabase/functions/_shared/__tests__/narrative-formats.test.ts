@@ -0,0 +1,134 @@
+/**
+ * Unit tests for narrative format validation, planning and scene fields
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  BUILT_IN_NARRATIVE_FORMATS,
+  buildFormatStructure,
+  findMissingFormatFields,
+  getFormatFields,
+  getFormatSceneCount,
+  getFormatWordBudget,
+  listNarrativeFormats,
+  parseNarrativeFormat,
+  planBeats,
+  resolveNarrativeFormat,
+  toNarrativeFormat,
+  type NarrativeFormat,
+} from "../narrative-formats.ts";
+import { getWordBudget } from "../storyboard-script.ts";
+
+const builtIn = (id: string): NarrativeFormat => {
+  const format = BUILT_IN_NARRATIVE_FORMATS.find(f => f.id === id);
+  if (!format) throw new Error(`Missing built-in format ${id}`);
+  return format;
+};
+
+const viral = builtIn("viral-story");
+const listicle = builtIn("listicle");
+const comparison = builtIn("comparison");
+
+const recipe = {
+  id: "recipe",
+  name: "Recipe",
+  persona: "You are a home cook.",
+  brief: "Create a recipe video.",
+  minScenes: 3,
+  maxScenes: 10,
+  intro: { line1: "Name the dish", line2: "Why it's worth making" },
+  beats: [
+    { id: "ingredients", label: "Ingredients", guidance: "List them", scenes: 1 },
+    { id: "method", label: "Method", guidance: "One step per scene", scenes: "rest" },
+  ],
+  sceneFields: [{ key: "stepTitle", description: "Step label", required: true }],
+};
+
+Deno.test("Narrative formats - every built-in passes its own validation", () => {
+  for (const format of BUILT_IN_NARRATIVE_FORMATS) {
+    assertEquals(parseNarrativeFormat(format), { format, errors: [] });
+  }
+});
+
+Deno.test("Narrative formats - the viral story keeps the original scene count and word budget", () => {
+  for (const duration of [15, 30, 60, 120]) {
+    const sceneCount = getFormatSceneCount(viral, duration);
+    assertEquals(sceneCount, Math.floor(duration / 5) - 1);
+    assertEquals(getFormatWordBudget(viral, duration, sceneCount), getWordBudget(duration, sceneCount));
+  }
+});
+
+Deno.test("Narrative formats - scene counts stay within the format's bounds", () => {
+  assertEquals(getFormatSceneCount(listicle, 15), 3);
+  assertEquals(getFormatSceneCount(listicle, 60), 9);
+  assertEquals(getFormatSceneCount(listicle, 120), 11);
+});
+
+Deno.test("Narrative formats - admin definitions get defaults and readable errors", () => {
+  const { format, errors } = parseNarrativeFormat(recipe);
+  assertEquals(errors, []);
+  assertEquals(format?.secondsPerScene, 5);
+  assertEquals(format?.wordsPerSecond, 2.5);
+  assertEquals(format?.intro.maxWords, 20);
+  assertEquals(format?.description, "");
+  assertEquals(format?.rules, []);
+
+  const broken = parseNarrativeFormat({
+    ...recipe,
+    id: "Bad Id",
+    minScenes: 1,
+    beats: [{ id: "all", label: "All", guidance: "Everything", scenes: 2 }],
+    sceneFields: [{ key: "voiceOverText", description: "Clash", required: true }],
+  });
+  assertEquals(broken.format, null);
+  assertEquals(broken.errors, [
+    "id must be lowercase letters, digits and dashes",
+    'Exactly one beat must have "scenes": "rest"',
+    "Beats with a fixed scene count need more scenes than minScenes allows",
+    'sceneFields[0].key "voiceOverText" is already used by every scene',
+  ]);
+
+  assertEquals(parseNarrativeFormat([]).errors, ["Format must be a JSON object"]);
+});
+
+Deno.test("Narrative formats - admin rows replace built-ins of the same id and add the rest", () => {
+  const custom = toNarrativeFormat({ id: "recipe", name: "Recipe", description: null, definition: recipe });
+  const override = { ...listicle, name: "Top List" };
+  if (!custom) throw new Error("recipe should parse");
+
+  const formats = listNarrativeFormats([custom, override]);
+  assertEquals(formats.map(f => f.id), [...BUILT_IN_NARRATIVE_FORMATS.map(f => f.id), "recipe"]);
+  assertEquals(resolveNarrativeFormat("listicle", [override])?.name, "Top List");
+  assertEquals(resolveNarrativeFormat(null, [])?.id, "viral-story");
+  assertEquals(resolveNarrativeFormat("missing", []), null);
+  assertEquals(toNarrativeFormat({ id: "broken", name: "Broken", description: null, definition: "nope" }), null);
+});
+
+Deno.test("Narrative formats - beats fill the scenes in order, the rest beat stretching", () => {
+  assertEquals(planBeats(viral, 5), ["hook", "build", "build", "build", "payoff"]);
+  assertEquals(planBeats(viral, 2), ["hook", "payoff"]);
+  assertEquals(planBeats(viral, 1), ["hook"]);
+  assertEquals(planBeats(comparison, 4), ["contenders", "rounds", "rounds", "verdict"]);
+});
+
+Deno.test("Narrative formats - the structure names scene ranges and rules", () => {
+  assertEquals(
+    buildFormatStructure(listicle, 6),
+    `NARRATIVE STRUCTURE (CRITICAL - LISTICLE):
+- Scenes 1-5: ITEMS - ${listicle.beats[0].guidance}
+- Scene 6: WRAP-UP - ${listicle.beats[1].guidance}
+
+FORMAT RULES (CRITICAL):
+${listicle.rules.map(rule => `- ${rule}`).join("\n")}`,
+  );
+});
+
+Deno.test("Narrative formats - scene fields accept either key style and report what's missing", () => {
+  assertEquals(getFormatFields(comparison, { criterion: " Price ", winner: "tie", extra: "x" }), { criterion: "Price", winner: "tie" });
+  assertEquals(getFormatFields(listicle, { item_title: "Anglerfish" }), { itemTitle: "Anglerfish" });
+  assertEquals(
+    findMissingFormatFields(comparison, [{ criterion: "Price" }, { winner: "A" }, { criterion: "  " }]),
+    [{ index: 1, keys: ["criterion"] }, { index: 2, keys: ["criterion"] }],
+  );
+  assertEquals(findMissingFormatFields(viral, [{}]), []);
+});
@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the generate-content parameter pipeline
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  coerceParametersBySchema,
+  isPreparedRunwarePayload,
+  normalizeParameterKeys,
+  unwrapProviderInput,
+  validateAndFilterParameters,
+} from "../parameter-pipeline.ts";
+
+const schema = {
+  properties: {
+    prompt: { type: "string" },
+    duration: { type: "number", enum: [5, 10], default: 5 },
+    style: { type: "string", enum: ["vivid", "natural"] },
+  },
+};
+
+Deno.test("Parameter pipeline - unwraps { model, input } and strips input. prefixes", () => {
+  assertEquals(
+    normalizeParameterKeys(unwrapProviderInput({ model: "acme/v1", input: { "input.prompt": "a cat" }, seed: 1 })),
+    { prompt: "a cat", seed: 1 }
+  );
+  assertEquals(unwrapProviderInput({ prompt: "a cat" }), { prompt: "a cat" });
+});
+
+Deno.test("Parameter pipeline - filters to SCHEMA, applies defaults and coerces", () => {
+  const filtered = validateAndFilterParameters({ prompt: "a cat", duration: "", extra: true, taskType: "x" }, schema);
+
+  assertEquals(filtered, { prompt: "a cat", duration: 5, taskType: "x" });
+  assertEquals(coerceParametersBySchema({ duration: "10" }, schema), { duration: 10 });
+  assertThrows(() => validateAndFilterParameters({ style: "noir" }, schema));
+});
+
+Deno.test("Parameter pipeline - recognizes prepared Runware payloads", () => {
+  assertEquals(isPreparedRunwarePayload("runware", { taskType: "imageInference", model: "m", width: 1024 }), true);
+  assertEquals(isPreparedRunwarePayload("runware", { taskType: "imageInference", model: "m" }), false);
+  assertEquals(isPreparedRunwarePayload("kie_ai", { taskType: "imageInference", model: "m", width: 1024 }), false);
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for smart reframe paths and edits
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildReframeEdit,
+  getCropWindow,
+  getPathPoint,
+  getReframeCredits,
+  mergeManualKeyframes,
+  smoothTrackingSamples,
+  validateReframePath,
+} from "../reframe.ts";
+
+const landscape = { width: 1920, height: 1080 };
+
+Deno.test("Reframe - credits are an MP4 render per target ratio", () => {
+  assertEquals(getReframeCredits(10, 1), 5);
+  assertEquals(getReframeCredits(10, 3), 15);
+});
+
+Deno.test("Reframe - the crop window follows the subject but stays inside the source", () => {
+  const portrait = { width: 1080, height: 1920 };
+
+  assertEquals(getCropWindow(landscape, portrait, { x: 0.5, y: 0.5 }), { left: 0.342, top: 0, width: 0.316, height: 1 });
+  assertEquals(getCropWindow(landscape, portrait, { x: 0.95, y: 0.5 }).left, 0.684);
+  assertEquals(getCropWindow(portrait, landscape, { x: 0.5, y: 0 }), { left: 0, top: 0, width: 1, height: 0.316 });
+});
+
+Deno.test("Reframe - path points move linearly between keyframes and hold at the ends", () => {
+  const path = [{ time: 1, x: 0.2, y: 0.5 }, { time: 3, x: 0.6, y: 0.5 }];
+
+  assertEquals(getPathPoint(path, 0), { x: 0.2, y: 0.5 });
+  assertEquals(getPathPoint(path, 2), { x: 0.4, y: 0.5 });
+  assertEquals(getPathPoint(path, 5), { x: 0.6, y: 0.5 });
+  assertEquals(getPathPoint([], 1), { x: 0.5, y: 0.5 });
+});
+
+Deno.test("Reframe - tracking holds through jitter and pans when the subject moves", () => {
+  const samples = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4].map((time, i) => ({
+    time,
+    x: i < 5 ? 0.3 + (i % 2) * 0.02 : 0.7,
+    y: 0.5,
+    confidence: 0.9,
+  }));
+  const path = smoothTrackingSamples(samples);
+
+  // The jitter is ignored: held until just before the move, then panned
+  assertEquals(path[0], { time: 0, x: 0.307, y: 0.5 });
+  assertEquals(path[1], { time: 1, x: 0.307, y: 0.5 });
+  assertEquals(path.at(-1), { time: 3.5, x: 0.7, y: 0.5 });
+  assertEquals(smoothTrackingSamples([{ time: 0, x: 0.1, y: 0.1, confidence: 0.1 }]), []);
+});
+
+Deno.test("Reframe - manual keyframes replace nearby tracked ones", () => {
+  const tracked = [{ time: 0, x: 0.3, y: 0.5 }, { time: 2, x: 0.4, y: 0.5 }, { time: 5, x: 0.6, y: 0.5 }];
+  const merged = mergeManualKeyframes(tracked, [{ time: 2.5, x: 0.9, y: 0.5 }]);
+
+  assertEquals(merged.map(k => [k.time, k.x, k.manual ?? false]), [[0, 0.3, false], [2.5, 0.9, true], [5, 0.6, false]]);
+});
+
+Deno.test("Reframe - paths are validated", () => {
+  assertEquals(validateReframePath([{ time: 0, x: 0.5, y: 0.5, extra: 1 }], 10), { path: [{ time: 0, x: 0.5, y: 0.5 }] });
+  assertEquals(validateReframePath("x", 10), { error: "Reframe path must be a list of keyframes" });
+  assertEquals(validateReframePath([{ time: 11, x: 0.5, y: 0.5 }], 10), { error: "Invalid reframe keyframe" });
+  assertEquals(
+    validateReframePath([{ time: 2, x: 0.5, y: 0.5 }, { time: 1, x: 0.5, y: 0.5 }], 10),
+    { error: "Reframe keyframes must be in time order" }
+  );
+});
+
+Deno.test("Reframe - edits pan the covering video along the path", () => {
+  const source = { src: "https://cdn/master.mp4", duration: 4, ...landscape };
+  const edit = buildReframeEdit(source, "9:16", [{ time: 1, x: 0.5, y: 0.5 }, { time: 3, x: 1, y: 0.5 }]);
+  const [clip] = edit.timeline.tracks[0].clips;
+
+  assertEquals(edit.output, { format: "mp4", aspectRatio: "9:16", fps: 30, size: { width: 1080, height: 1920 } });
+  assertEquals(clip.fit, "crop");
+  assertEquals(clip.length, 4);
+  // Panning right moves the video left, no further than its right edge
+  assertEquals(clip.offset?.x, [
+    { from: 0, to: 0, start: 0, length: 1, interpolation: "linear" },
+    { from: 0, to: -1.08, start: 1, length: 2, interpolation: "linear" },
+    { from: -1.08, to: -1.08, start: 3, length: 1, interpolation: "linear" },
+  ]);
+  assertEquals(clip.offset?.y, 0);
+});
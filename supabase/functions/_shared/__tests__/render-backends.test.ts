@@ -0,0 +1,221 @@
+/**
+ * Unit tests for render backend selection and the FFmpeg render plan
+ */
+
+import { assert, assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildFfmpegArgs,
+  buildFfmpegRenderPlan,
+  getFfmpegUnsupportedFeatures,
+  selectRenderBackend,
+  type RenderClip,
+  type RenderEdit,
+} from "../render-backends.ts";
+
+const edit = (clips: RenderClip[], overrides: Partial<RenderEdit['timeline']> = {}): RenderEdit => ({
+  timeline: { tracks: [{ clips }], background: '#101010', ...overrides },
+  output: { fps: 30, size: { width: 1280, height: 720 } },
+});
+
+const video = (start: number, length: number, overrides: Partial<RenderClip> = {}): RenderClip => ({
+  asset: { type: 'video', src: `https://cdn/v${start}.mp4`, volume: 1 },
+  start,
+  length,
+  fit: 'cover',
+  ...overrides,
+});
+
+Deno.test("Render backends - simple edits are rendered locally on auto", () => {
+  const simple = edit([video(0, 4, { transition: { in: 'fade', out: 'slideLeftFast' } })]);
+
+  assertEquals(getFfmpegUnsupportedFeatures(simple), []);
+  assertEquals(selectRenderBackend('auto', simple, true), { backend: 'ffmpeg' });
+  assertEquals(selectRenderBackend('auto', simple, false), { backend: 'shotstack' });
+  assertEquals(selectRenderBackend(undefined, simple, true), { backend: 'shotstack' });
+});
+
+Deno.test("Render backends - features only Shotstack renders are reported", () => {
+  const complex = edit([
+    { asset: { type: 'caption', src: 'alias://speech-source' }, start: 0, length: 'end' },
+    video(0, 4, { transition: { in: 'zoom' }, scale: [{ from: 1, to: 2, start: 0, length: 4 }] }),
+  ]);
+
+  assertEquals(getFfmpegUnsupportedFeatures(complex), ['auto-generated captions', 'the zoom transition', 'keyframe animation']);
+  assertEquals(selectRenderBackend('auto', complex, true), { backend: 'shotstack' });
+  assertEquals(selectRenderBackend('ffmpeg', complex, true), {
+    backend: null,
+    error: "Local rendering doesn't support auto-generated captions, the zoom transition, keyframe animation",
+  });
+  assertThrows(() => buildFfmpegRenderPlan(complex), Error, "can't be rendered with FFmpeg");
+});
+
+Deno.test("Render backends - burned-in subtitles need Shotstack unless the export has no picture", () => {
+  const subtitled = edit([
+    { asset: { type: 'html', html: '<div class="caption"><p><span>Hi</span></p></div>' }, start: 0, length: 1 },
+    video(0, 4),
+  ]);
+
+  assertEquals(getFfmpegUnsupportedFeatures(subtitled), ['burned-in subtitles']);
+  assertEquals(selectRenderBackend('auto', subtitled, true), { backend: 'shotstack' });
+  assertEquals(getFfmpegUnsupportedFeatures(subtitled, 'wav'), []);
+  assertEquals(buildFfmpegRenderPlan(subtitled, { format: 'wav' }).inputs.map(input => input.src), ['https://cdn/v0.mp4']);
+});
+
+Deno.test("Render backends - unknown and disabled backends are refused", () => {
+  assertEquals(selectRenderBackend('remotion', edit([]), true), { backend: null, error: 'Unknown render backend: remotion' });
+  assertEquals(selectRenderBackend('ffmpeg', edit([]), false), { backend: null, error: 'Local rendering is not available' });
+});
+
+Deno.test("FFmpeg plan - inputs carry trim and still-image length", () => {
+  const plan = buildFfmpegRenderPlan(edit([
+    video(0, 3, { asset: { type: 'video', src: 'https://cdn/a.mp4', trim: 1.5 } }),
+    { asset: { type: 'image', src: 'https://cdn/b.png' }, start: 3, length: 2, fit: 'contain' },
+  ]));
+
+  assertEquals(plan.inputs, [
+    { src: 'https://cdn/a.mp4', type: 'video', args: ['-ss', '1.5', '-t', '3'] },
+    { src: 'https://cdn/b.png', type: 'image', args: ['-loop', '1', '-framerate', '30', '-t', '2'] },
+  ]);
+  assertEquals(plan.duration, 5);
+  assertStringIncludes(plan.filterComplex, 'color=c=0x101010:s=1280x720:r=30:d=5');
+  assertStringIncludes(plan.filterComplex, 'force_original_aspect_ratio=decrease');
+});
+
+Deno.test("FFmpeg plan - clips are placed, faded and overlaid bottom track first", () => {
+  const plan = buildFfmpegRenderPlan({
+    timeline: {
+      tracks: [
+        { clips: [{ asset: { type: 'image', src: 'https://cdn/logo.png' }, start: 1, length: 2, fit: 'none', offset: { x: 0.4, y: -0.4 }, scale: 0.2, opacity: 0.5 }] },
+        { clips: [video(0, 4, { transition: { in: 'fadeBlack', out: 'fade' } })] },
+      ],
+    },
+    output: { fps: 25 },
+  });
+
+  const filters = plan.filterComplex.split(';');
+  assertEquals(plan.width, 1920);
+  assertStringIncludes(filters[1], '[0:a]');
+  assertStringIncludes(filters[2], '[0:v]setpts=PTS-STARTPTS,format=rgba,scale=w=1920:h=1080:force_original_aspect_ratio=increase');
+  assertStringIncludes(filters[2], 'fade=t=in:st=0:d=1:color=black,fade=t=out:st=3:d=1:alpha=1,setpts=PTS+0/TB[v0]');
+  assertStringIncludes(filters[3], "[base][v0]overlay=x='(W-w)/2+(0)*W'");
+  assertStringIncludes(filters[4], 'scale=w=iw*0.2:h=ih*0.2,colorchannelmixer=aa=0.5,setpts=PTS+1/TB[v1]');
+  assertStringIncludes(filters[5], "[c0][v1]overlay=x='(W-w)/2+(0.4)*W':y='(H-h)/2-(-0.4)*H'");
+  assertStringIncludes(filters[5], "enable='gte(t,1)*lt(t,3)'[c1]");
+  assertEquals(filters[6], '[c1]format=yuv420p[vout]');
+});
+
+Deno.test("FFmpeg plan - slides move the same way in and out", () => {
+  const plan = buildFfmpegRenderPlan(edit([video(2, 4, { transition: { in: 'slideLeft', out: 'slideLeft' } })]));
+
+  assertStringIncludes(plan.filterComplex, '+W*if(lt(t,3),1-(t-2)/1,0)');
+  assertStringIncludes(plan.filterComplex, '-W*if(gt(t,5),(t-5)/1,0)');
+});
+
+Deno.test("FFmpeg plan - audio is delayed, mixed with the soundtrack and skipped when silent", () => {
+  const plan = buildFfmpegRenderPlan(
+    edit(
+      [
+        video(0, 2, { asset: { type: 'video', src: 'https://cdn/silent.mp4', volume: 1 } }),
+        video(2, 2, { asset: { type: 'video', src: 'https://cdn/talk.mp4', volume: 0.4 } }),
+        { asset: { type: 'audio', src: 'https://cdn/vo.mp3', volume: 0 }, start: 0, length: 4 },
+      ],
+      { soundtrack: { src: 'https://cdn/music.mp3', volume: 0.3, effect: 'fadeInFadeOut' } }
+    ),
+    { hasAudio: src => src !== 'https://cdn/silent.mp4' }
+  );
+
+  assertEquals(plan.inputs.at(-1), { src: 'https://cdn/music.mp3', type: 'audio', args: ['-t', '4'] });
+  assertStringIncludes(plan.filterComplex, '[1:a]asetpts=PTS-STARTPTS,volume=0.4,adelay=2000:all=1[a1]');
+  assert(!plan.filterComplex.includes('[0:a]'));
+  assert(!plan.filterComplex.includes('[2:a]'));
+  assertStringIncludes(plan.filterComplex, '[3:a]asetpts=PTS-STARTPTS,volume=0.3,afade=t=in:st=0:d=2,afade=t=out:st=2:d=2[soundtrack]');
+  assertStringIncludes(plan.filterComplex, '[silence][a1][soundtrack]amix=inputs=3:duration=first:normalize=0[aout]');
+});
+
+Deno.test("FFmpeg plan - an edit without audio still gets a silent track", () => {
+  const plan = buildFfmpegRenderPlan(edit([{ asset: { type: 'image', src: 'https://cdn/a.png' }, start: 0, length: 3 }]));
+
+  assertStringIncludes(plan.filterComplex, 'anullsrc=r=48000:cl=stereo,atrim=duration=3[aout]');
+});
+
+Deno.test("FFmpeg args - inputs in order, then the graph and output", () => {
+  const plan = buildFfmpegRenderPlan(edit([video(0, 2)]));
+  const args = buildFfmpegArgs(plan, ['/tmp/job/0.mp4'], '/tmp/job/out.mp4');
+
+  assertEquals(args.slice(0, 9), ['-y', '-hide_banner', '-loglevel', 'error', '-t', '2', '-i', '/tmp/job/0.mp4', '-filter_complex']);
+  assertEquals(args.at(-1), '/tmp/job/out.mp4');
+  assertThrows(() => buildFfmpegArgs(plan, [], '/tmp/out.mp4'), Error, 'Expected 1 input files');
+});
+
+Deno.test("Render backends - formats Shotstack can't export need the FFmpeg worker", () => {
+  const simple = edit([video(0, 4)]);
+
+  assertEquals(selectRenderBackend('auto', simple, true, 'gif'), { backend: 'ffmpeg' });
+  assertEquals(selectRenderBackend('auto', simple, false, 'mp3'), { backend: 'shotstack' });
+  assertEquals(selectRenderBackend('auto', simple, false, 'webm'), {
+    backend: null,
+    error: 'WebM export needs local rendering, which is not available',
+  });
+  assertEquals(selectRenderBackend('shotstack', simple, true, 'wav'), { backend: null, error: 'WAV export needs local rendering' });
+  assertEquals(selectRenderBackend('auto', simple, true, 'mov'), { backend: null, error: 'Unknown export format: mov' });
+});
+
+Deno.test("Render backends - audio-only exports ignore visual features", () => {
+  const captioned = edit([
+    { asset: { type: 'caption', src: 'alias://speech-source' }, start: 0, length: 'end' },
+    video(0, 4, { transition: { in: 'zoom' } }),
+  ]);
+
+  assertEquals(getFfmpegUnsupportedFeatures(captioned, 'wav'), []);
+  assertEquals(selectRenderBackend('auto', captioned, true, 'wav'), { backend: 'ffmpeg' });
+});
+
+Deno.test("FFmpeg plan - GIF builds a palette and drops the audio", () => {
+  const plan = buildFfmpegRenderPlan(
+    edit([video(0, 3), { asset: { type: 'audio', src: 'https://cdn/vo.mp3' }, start: 0, length: 3 }], {
+      soundtrack: { src: 'https://cdn/music.mp3' },
+    }),
+    { format: 'gif', exportOptions: { gif: { fps: 10, colors: 64, dither: false, width: 320 } } }
+  );
+
+  assertEquals(plan.inputs.map(input => input.src), ['https://cdn/v0.mp4']);
+  assert(!plan.filterComplex.includes(':a]'));
+  assertStringIncludes(plan.filterComplex, '[c0]fps=10,scale=320:-1:flags=lanczos,split[gif0][gif1]');
+  assertStringIncludes(plan.filterComplex, '[gif0]palettegen=max_colors=64:stats_mode=diff[palette]');
+  assertStringIncludes(plan.filterComplex, '[gif1][palette]paletteuse=dither=none[vout]');
+  assertEquals(plan.outputArgs, ['-map', '[vout]', '-loop', '0', '-t', '3']);
+  assertEquals(plan.outputName, 'output.gif');
+});
+
+Deno.test("FFmpeg plan - transparent WebM keeps the alpha channel", () => {
+  const plan = buildFfmpegRenderPlan(edit([video(0, 2)]), { format: 'webm', exportOptions: { transparentBackground: true } });
+
+  assertStringIncludes(plan.filterComplex, 'color=c=black@0:s=1280x720');
+  assertStringIncludes(plan.filterComplex, '[c0]format=yuva420p[vout]');
+  assertEquals(plan.outputArgs.slice(4, 6), ['-c:v', 'libvpx-vp9']);
+  assertStringIncludes(plan.outputArgs.join(' '), '-pix_fmt yuva420p');
+});
+
+Deno.test("FFmpeg plan - audio-only exports mix without a video graph", () => {
+  const plan = buildFfmpegRenderPlan(
+    edit([{ asset: { type: 'image', src: 'https://cdn/a.png' }, start: 0, length: 2 }, video(2, 2)]),
+    { format: 'mp3' }
+  );
+
+  assertEquals(plan.inputs.map(input => input.src), ['https://cdn/v2.mp4']);
+  assert(!plan.filterComplex.includes('[base]'));
+  assertStringIncludes(plan.filterComplex, '[0:a]asetpts=PTS-STARTPTS,volume=1,adelay=2000:all=1[a1]');
+  assertEquals(plan.outputArgs.slice(0, 4), ['-map', '[aout]', '-c:a', 'libmp3lame']);
+  assertEquals(plan.outputName, 'output.mp3');
+});
+
+Deno.test("FFmpeg plan - frames are sampled for sequences and poster sheets", () => {
+  const sequence = buildFfmpegRenderPlan(edit([video(0, 10)]), { format: 'png-sequence', exportOptions: { frameInterval: 2 } });
+  assertStringIncludes(sequence.filterComplex, '[c0]fps=1/2[vout]');
+  assertEquals(sequence.outputName, 'frame-%05d.png');
+
+  // 100s at one frame a second would exceed the sheet limit, so the interval widens
+  const sheet = buildFfmpegRenderPlan(edit([video(0, 100)]), { format: 'poster-sheet', exportOptions: { frameInterval: 1, sheetColumns: 6 } });
+  assertStringIncludes(sheet.filterComplex, '[c0]fps=1/2.083,scale=213:-1,tile=6x8[vout]');
+  assertEquals(sheet.outputArgs, ['-map', '[vout]', '-frames:v', '1']);
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for render request validation, media checks and pricing
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  MAX_RENDER_SECONDS,
+  attachRenderAssets,
+  getRenderAssetIds,
+  getRenderCredits,
+  isStorageUrl,
+  validateRenderRequest,
+  type RenderRequestDocument,
+} from "../render-request.ts";
+import { buildShotstackPayload } from "../render-payload.ts";
+
+const SUPABASE_URL = "https://project.supabase.co";
+const storageUrl = (path: string) => `${SUPABASE_URL}/storage/v1/object/public/video-editor/user-1/${path}`;
+
+const clip = (overrides: Record<string, unknown> = {}) => ({
+  id: "clip-1",
+  assetId: "video-a",
+  trackId: "video-1",
+  start: 0,
+  duration: 4,
+  trimStart: 0,
+  transitionIn: "none",
+  transitionOut: "fade",
+  transitionDuration: 0.5,
+  volume: 1,
+  fit: "cover",
+  position: { x: 0.5, y: 0.5 },
+  scale: 1,
+  ...overrides,
+});
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  tracks: [
+    { id: "video-1", type: "visual", name: "Video 1", volume: 1, muted: false, hidden: false },
+    { id: "audio-1", type: "audio", name: "Audio 1", volume: 1, muted: false, hidden: false },
+  ],
+  clips: [clip()],
+  audioTrack: null,
+  subtitleConfig: {
+    mode: "none",
+    cues: [],
+    style: "classic",
+    fontSize: 24,
+    fontColor: "#FFFFFF",
+    highlightColor: "#FFFF00",
+    backgroundColor: "#000000",
+    showBackground: true,
+    outlineColor: "#000000",
+    outlineWidth: 0,
+    allCaps: false,
+    maxWordsPerLine: 4,
+    position: "bottom",
+  },
+  outputSettings: { aspectRatio: "16:9", format: "mp4", backgroundColor: "#000000", fps: 30, quality: "hd" },
+  estimatedCredits: 2,
+  ...overrides,
+});
+
+const validDocument = (overrides: Record<string, unknown> = {}): RenderRequestDocument => {
+  const result = validateRenderRequest(request(overrides));
+  if ("error" in result) throw new Error(result.error);
+  return result.document;
+};
+
+const errorOf = (body: unknown): string | null => {
+  const result = validateRenderRequest(body);
+  return "error" in result ? result.error : null;
+};
+
+Deno.test("Render request - copies only the fields a render uses", () => {
+  const document = validDocument({ clips: [clip({ asset: { url: "https://evil.example/x.mp4" }, extra: 1 })], shotstackPayload: {} });
+
+  assertEquals(Object.keys(document).sort(), ["audioTrack", "clips", "outputSettings", "subtitleConfig", "tracks"]);
+  assertEquals("asset" in document.clips[0], false);
+  assertEquals("extra" in document.clips[0], false);
+  // Export options are filled in with the defaults
+  assertEquals(document.outputSettings.exportOptions.gif.fps, 12);
+});
+
+Deno.test("Render request - rejects malformed edits", () => {
+  assertEquals(errorOf(null), "Invalid render request");
+  assertEquals(errorOf(request({ clips: [] })), "No clips provided");
+  assertEquals(errorOf(request({ clips: [clip({ trackId: "missing" })] })), "Invalid clip");
+  assertEquals(errorOf(request({ clips: [clip({ duration: -1 })] })), "Invalid clip");
+  assertEquals(errorOf(request({ clips: [clip({ transitionIn: "explode" })] })), "Invalid clip");
+  assertEquals(errorOf(request({ clips: [clip({ keyframes: [{ id: "k", time: 0, easing: "linear", opacity: 2 }] })] })), "Invalid clip");
+  assertEquals(errorOf(request({ outputSettings: { ...request().outputSettings, format: "avi" } })), "Invalid output settings");
+});
+
+Deno.test("Render request - colours that would inject markup into captions are refused", () => {
+  const subtitleConfig = { ...request().subtitleConfig, fontColor: "red;}</style><script>" };
+  assertEquals(errorOf(request({ subtitleConfig })), "Invalid subtitle settings");
+
+  const cue = { id: "c", start: 0, end: 1, words: [{ text: "hi", start: 0, end: 1, style: { color: "url(x)" } }] };
+  assertEquals(errorOf(request({ subtitleConfig: { ...request().subtitleConfig, cues: [cue] } })), "Invalid subtitle cue");
+});
+
+Deno.test("Render request - timelines over the limit are refused", () => {
+  const long = clip({ start: MAX_RENDER_SECONDS - 1, duration: 2 });
+  assertEquals(errorOf(request({ clips: [long] })), "Videos up to 10 minutes can be rendered");
+});
+
+Deno.test("Render request - media must live in the project's storage", () => {
+  assert(isStorageUrl(storageUrl("a.mp4"), SUPABASE_URL));
+  assert(isStorageUrl(`${SUPABASE_URL}/storage/v1/object/sign/generated-content/a.mp4?token=t`, SUPABASE_URL));
+  assertEquals(isStorageUrl("https://evil.example/storage/v1/object/public/a.mp4", SUPABASE_URL), false);
+  assertEquals(isStorageUrl(`${SUPABASE_URL}/rest/v1/users`, SUPABASE_URL), false);
+  assertEquals(isStorageUrl("not a url", SUPABASE_URL), false);
+});
+
+Deno.test("Render request - every clip needs the user's own media on a matching track", () => {
+  const document = validDocument({
+    clips: [clip(), clip({ id: "clip-2", assetId: "music", trackId: "audio-1" })],
+    audioTrack: { id: "bg", assetId: "music", volume: 0.5, fadeIn: true, fadeOut: false, trimStart: 0, loop: false },
+  });
+  const video = { id: "video-a", type: "video" as const, url: storageUrl("a.mp4"), duration: 10 };
+  const music = { id: "music", type: "audio" as const, url: storageUrl("m.mp3"), duration: 60 };
+
+  assertEquals(getRenderAssetIds(document), ["video-a", "music"]);
+  assertEquals(attachRenderAssets(document, [video]), { error: "Media not found in your library" });
+  assertEquals(
+    attachRenderAssets(document, [video, { ...music, type: "image" }]),
+    { error: "Videos and images can only go on video tracks" },
+  );
+
+  const attached = attachRenderAssets(document, [video, music]);
+  if ("error" in attached) throw new Error(attached.error);
+  const payload = buildShotstackPayload(attached.document);
+  assertEquals(payload.timeline.tracks[0].clips[0].asset.src, video.url);
+  assertEquals(payload.timeline.soundtrack?.src, music.url);
+});
+
+Deno.test("Render request - credits cover the whole timeline at the format's rate", () => {
+  assertEquals(getRenderCredits(validDocument()), 2);
+  // Hidden tracks still count, as in the editor's estimate
+  const hidden = validDocument({
+    tracks: [{ id: "video-1", type: "visual", name: "Video 1", volume: 1, muted: false, hidden: true }],
+    clips: [clip({ duration: 9 })],
+  });
+  assertEquals(getRenderCredits(hidden), 4.5);
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the Shotstack edit builder
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { ShotstackJsonBuilder } from "../shotstack-edit.ts";
+
+const CALLBACK = 'https://example.supabase.co/functions/v1/video-assembly-webhook?provider=shotstack';
+
+type BuiltEdit = {
+  timeline: { soundtrack?: unknown; tracks: Array<{ clips: Array<Record<string, unknown>> }> };
+  output: { size: { width: number; height: number } };
+  callback?: string;
+};
+
+Deno.test("Shotstack edit - images are sequenced and the voiceover gets its own track", () => {
+  const edit = new ShotstackJsonBuilder('9:16')
+    .addImageClips(['https://cdn/a.png', 'https://cdn/b.png'], { clipDuration: 4, scale: 1, transition: null })
+    .addVoiceoverWithAlias('https://cdn/vo.mp3', 'voiceover')
+    .setCallback(CALLBACK)
+    .build() as BuiltEdit;
+
+  assertEquals(edit.timeline.tracks[0].clips.map(c => [c.start, c.length]), [[0, 4], [4, 4]]);
+  assertEquals(edit.timeline.tracks[0].clips.map(c => c.transition), [undefined, undefined]);
+  assertEquals(edit.timeline.tracks[1].clips[0].asset, { type: 'audio', src: 'https://cdn/vo.mp3' });
+  assertEquals(edit.timeline.soundtrack, undefined);
+  assertEquals(edit.output.size, { width: 1080, height: 1920 });
+  assertEquals(edit.callback, CALLBACK);
+});
+
+Deno.test("Shotstack edit - images fade in after the first unless told otherwise", () => {
+  const edit = new ShotstackJsonBuilder('16:9')
+    .addImageClips(['https://cdn/a.png', 'https://cdn/b.png'])
+    .addSoundtrack('https://cdn/music.mp3', 0.2)
+    .build() as BuiltEdit;
+
+  assertEquals(edit.timeline.tracks[0].clips.map(c => c.transition), [undefined, { in: 'fade', out: 'fade' }]);
+  assertEquals(edit.timeline.soundtrack, { src: 'https://cdn/music.mp3', effect: 'fadeInFadeOut', volume: 0.2 });
+  assertEquals(edit.callback, undefined);
+});
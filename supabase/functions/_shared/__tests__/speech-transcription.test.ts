@@ -0,0 +1,96 @@
+/**
+ * Unit tests for video editor speech transcription helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  getOwnedStoragePath,
+  getTranscribedSeconds,
+  getTranscriptionCredits,
+  getTranscriptionSeconds,
+  mergeTranscribedWords,
+  toTimelineWords,
+  validateTranscriptionSources,
+} from "../speech-transcription.ts";
+
+Deno.test("Speech transcription - credits follow the per-minute rate, rounded up", () => {
+  assertEquals(getTranscriptionCredits(60), 1.8);
+  assertEquals(getTranscriptionCredits(120), 3.5);
+  assertEquals(getTranscriptionCredits(1), 0.1);
+});
+
+Deno.test("Speech transcription - sources are validated", () => {
+  const source = { assetId: "asset-a", start: 2, trimStart: 1, duration: 4 };
+
+  assertEquals(validateTranscriptionSources([source]), { sources: [source] });
+  assertEquals(validateTranscriptionSources([]), { error: "No speech sources provided" });
+  assertEquals(
+    validateTranscriptionSources([{ src: "https://cdn/a.mp4", start: 2, trimStart: 1, duration: 4 }]),
+    { error: "Speech sources must be editor assets" }
+  );
+  assertEquals(validateTranscriptionSources([{ ...source, duration: 0 }]), { error: "Invalid speech source timing" });
+});
+
+Deno.test("Speech transcription - whole assets are billed once, whatever the clips play", () => {
+  const sources = [
+    { assetId: "a", start: 0, trimStart: 0, duration: 1 },
+    { assetId: "a", start: 5, trimStart: 30, duration: 1 },
+    { assetId: "b", start: 0, trimStart: 0, duration: 2 },
+  ];
+
+  assertEquals(getTranscriptionSeconds(sources, { a: 90, b: 30 }), { seconds: 120 });
+  assertEquals(getTranscriptionSeconds(sources, { a: 90 }), { error: "The length of a speech source is unknown" });
+  assertEquals(
+    getTranscriptionSeconds(sources, { a: 590, b: 30 }),
+    { error: "Transcriptions are limited to 10 minutes of media" }
+  );
+});
+
+Deno.test("Speech transcription - the transcript shows how long a file really is", () => {
+  assertEquals(getTranscribedSeconds([]), 0);
+  assertEquals(getTranscribedSeconds([
+    { text: "Hi", start: 0.5, end: 0.9, type: "word" },
+    { text: " ", start: 0.9, end: 42.5, type: "spacing" },
+  ]), 42.5);
+});
+
+Deno.test("Speech transcription - only files in the user's own storage folder are accepted", () => {
+  const bucket = "https://project.supabase.co/storage/v1/object/public/generated-content/";
+
+  assertEquals(
+    getOwnedStoragePath({ url: `${bucket}user-1/video-editor/a.mp4`, storage_path: "user-1/video-editor/a.mp4" }, "user-1", bucket),
+    "user-1/video-editor/a.mp4"
+  );
+  assertEquals(
+    getOwnedStoragePath({ url: `${bucket}user-1/gen-1/0.mp4?t=1`, storage_path: "" }, "user-1", bucket),
+    "user-1/gen-1/0.mp4"
+  );
+  assertEquals(getOwnedStoragePath({ url: `${bucket}user-2/gen-1/0.mp4`, storage_path: "" }, "user-1", bucket), null);
+  assertEquals(getOwnedStoragePath({ url: "https://example.com/a.mp4", storage_path: "" }, "user-1", bucket), null);
+  assertEquals(getOwnedStoragePath({ url: "", storage_path: "user-1/../user-2/a.mp4" }, "user-1", bucket), null);
+});
+
+Deno.test("Speech transcription - words in the played part of a source move onto the timeline", () => {
+  const words = toTimelineWords([
+    { text: "Before", start: 0.2, end: 0.8, type: "word" },
+    { text: "Hello", start: 1.2, end: 1.6, type: "word" },
+    { text: " ", start: 1.6, end: 1.7, type: "spacing" },
+    { text: "(laughs)", start: 1.7, end: 2, type: "audio_event" },
+    { text: "world", start: 4.8, end: 5.6, type: "word" },
+    { text: "after", start: 5.2, end: 5.5, type: "word" },
+  ], { assetId: "asset-a", start: 10, trimStart: 1, duration: 4 });
+
+  assertEquals(words, [
+    { text: "Hello", start: 10.2, end: 10.6 },
+    { text: "world", start: 13.8, end: 14 },
+  ]);
+});
+
+Deno.test("Speech transcription - speech heard on overlapping sources is kept once", () => {
+  const merged = mergeTranscribedWords([
+    [{ text: "Hi", start: 1, end: 1.3 }, { text: "there", start: 1.4, end: 1.8 }],
+    [{ text: "hi", start: 1.1, end: 1.4 }, { text: "Bye", start: 3, end: 3.3 }],
+  ]);
+
+  assertEquals(merged.map(w => w.text), ["Hi", "there", "Bye"]);
+});
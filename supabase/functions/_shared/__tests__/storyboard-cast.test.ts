@@ -0,0 +1,126 @@
+/**
+ * Unit tests for storyboard cast injection and consistency reports
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildCastPrompt,
+  getCastReferenceImages,
+  getCastSeed,
+  getDriftedCast,
+  getSceneCast,
+  mentionsCastMember,
+  parseAliases,
+  parseConsistencyReport,
+  toCastMember,
+  type CastMember,
+} from "../storyboard-cast.ts";
+
+const member = (overrides: Partial<CastMember> = {}): CastMember => ({
+  id: "mia",
+  kind: "character",
+  name: "Mia",
+  aliases: [],
+  description: "",
+  referenceImageUrls: [],
+  seed: null,
+  ...overrides,
+});
+
+const mia = member({
+  aliases: ["the detective"],
+  description: "red-haired woman in a green trench coat",
+  referenceImageUrls: ["mia-1.png", "mia-2.png"],
+  seed: 42,
+});
+const harbour = member({
+  id: "harbour",
+  kind: "location",
+  name: "Old Harbour",
+  description: "foggy harbour with a red lighthouse",
+  referenceImageUrls: ["harbour.png"],
+  seed: 7,
+});
+const noir = member({ id: "noir", kind: "style", name: "Noir", description: "high-contrast film noir, 35mm grain" });
+
+Deno.test("Storyboard cast - mentions match whole names and aliases in any case", () => {
+  assertEquals(mentionsCastMember("Close-up of Mia at the door", mia), true);
+  assertEquals(mentionsCastMember("MIA'S hands on the wheel", mia), true);
+  assertEquals(mentionsCastMember("The Detective looks out to sea", mia), true);
+  assertEquals(mentionsCastMember("Sunset over Miami", mia), false);
+  assertEquals(mentionsCastMember("a detective novel", mia), false);
+  assertEquals(mentionsCastMember("Dawn at the old harbour.", harbour), true);
+});
+
+Deno.test("Storyboard cast - scenes get what they mention plus every style, characters first", () => {
+  const cast = [noir, harbour, mia];
+
+  assertEquals(getSceneCast("The Old Harbour, where Mia waits", cast).map(m => m.id), ["mia", "harbour", "noir"]);
+  assertEquals(getSceneCast("An empty street", cast).map(m => m.id), ["noir"]);
+});
+
+Deno.test("Storyboard cast - descriptions are appended to the prompt", () => {
+  const sceneCast = getSceneCast("Mia at the Old Harbour", [mia, harbour, noir]);
+
+  assertEquals(
+    buildCastPrompt("Mia at the Old Harbour ", sceneCast),
+    "Mia at the Old Harbour\n\nMia: red-haired woman in a green trench coat\nOld Harbour: foggy harbour with a red lighthouse\nStyle: high-contrast film noir, 35mm grain",
+  );
+  assertEquals(buildCastPrompt("A street", [member()]), "A street");
+});
+
+Deno.test("Storyboard cast - every entry gets a reference image before any gets a second", () => {
+  const sceneCast = [mia, harbour];
+
+  assertEquals(getCastReferenceImages(sceneCast, 10), ["mia-1.png", "harbour.png", "mia-2.png"]);
+  assertEquals(getCastReferenceImages(sceneCast, 2), ["mia-1.png", "harbour.png"]);
+  assertEquals(getCastReferenceImages(sceneCast, 1), ["mia-1.png"]);
+  assertEquals(getCastReferenceImages([noir], 4), []);
+});
+
+Deno.test("Storyboard cast - the seed comes from the first entry that has one", () => {
+  assertEquals(getCastSeed([mia, harbour]), 42);
+  assertEquals(getCastSeed([member({ id: "x" }), harbour]), 7);
+  assertEquals(getCastSeed([noir]), null);
+});
+
+Deno.test("Storyboard cast - rows and typed aliases are normalised", () => {
+  assertEquals(
+    toCastMember({ id: "a", kind: "prop", name: "Key", aliases: null, description: null, reference_image_urls: null, seed: null }),
+    member({ id: "a", name: "Key" }),
+  );
+  assertEquals(parseAliases(" the detective, , Mia Stone,The Detective "), ["the detective", "Mia Stone"]);
+});
+
+Deno.test("Storyboard cast - consistency reports are matched to the scene cast and clamped", () => {
+  const report = {
+    results: [
+      { name: "mia", score: 3.6, issue: " hair is blonde " },
+      { name: "Old Harbour", score: 14 },
+      { name: "Somebody else", score: 1 },
+      { name: "Mia", score: 9 },
+    ],
+  };
+
+  assertEquals(parseConsistencyReport(report, [mia, harbour]), [
+    { castId: "mia", name: "Mia", score: 4, issue: "hair is blonde" },
+    { castId: "harbour", name: "Old Harbour", score: 10, issue: null },
+  ]);
+  assertEquals(parseConsistencyReport({ results: [{ name: "Mia", score: "low" }] }, [mia]), null);
+  assertEquals(parseConsistencyReport("not json", [mia]), null);
+});
+
+Deno.test("Storyboard cast - only a check of the current image can flag drift", () => {
+  const consistency = {
+    imageUrl: "scene-2.png",
+    checkedAt: "2026-10-19T12:00:00.000Z",
+    results: [
+      { castId: "mia", name: "Mia", score: 4, issue: "hair is blonde" },
+      { castId: "harbour", name: "Old Harbour", score: 8, issue: null },
+    ],
+  };
+
+  assertEquals(getDriftedCast(consistency, "scene-2.png").map(r => r.castId), ["mia"]);
+  assertEquals(getDriftedCast(consistency, "scene-2-regenerated.png"), []);
+  assertEquals(getDriftedCast(null, "scene-2.png"), []);
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for dialogue speakers, lines and the per-line render scenes
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  DEFAULT_CHARACTER_VOICES,
+  MAX_LINE_PAUSE_MS,
+  SPEAKER_COLORS,
+  buildDialogueMovieScenes,
+  buildLineSpeech,
+  createCharacters,
+  dialogueToVoiceOverText,
+  getDialogueSpeakers,
+  getSceneLines,
+  parseCharacterNames,
+  toDialogueCharacters,
+  toDialogueLines,
+  type DialogueLine,
+} from "../storyboard-dialogue.ts";
+
+const narratorVoice = { voiceId: "en-US-JennyNeural", voiceName: "Jenny" };
+const characters = createCharacters(["Mia", "Leo"], narratorVoice.voiceId);
+const speakers = getDialogueSpeakers(narratorVoice, characters);
+
+const line = (speakerId: string, text: string, extra: Partial<DialogueLine> = {}): DialogueLine => ({
+  speakerId,
+  text,
+  emotion: "neutral",
+  pace: "normal",
+  pauseAfterMs: 0,
+  ...extra,
+});
+
+Deno.test("Storyboard dialogue - character names are split, trimmed and deduplicated", () => {
+  assertEquals(parseCharacterNames(" Mia,  leo , MIA, narrator, ,Dr.  Chen"), ["Mia", "leo", "Dr. Chen"]);
+});
+
+Deno.test("Storyboard dialogue - new characters get unique ids and voices other than the narrator's", () => {
+  assertEquals(characters.map(c => c.id), ["mia", "leo"]);
+  assertEquals(characters.map(c => c.voiceId), [DEFAULT_CHARACTER_VOICES[1].voiceId, DEFAULT_CHARACTER_VOICES[2].voiceId]);
+  assertEquals(characters.map(c => c.color), SPEAKER_COLORS.slice(0, 2));
+  assertEquals(createCharacters(["Mia", "mia"], "x").map(c => c.id), ["mia", "mia-2"]);
+});
+
+Deno.test("Storyboard dialogue - stored characters drop malformed entries", () => {
+  assertEquals(
+    toDialogueCharacters([
+      { id: "mia", name: "Mia", voiceId: "Rachel-id", voiceName: "Rachel", voiceModel: "elevenlabs", color: "red" },
+      { id: "narrator", name: "Narrator", voiceId: "x" },
+      { name: "No id", voiceId: "x" },
+      "junk",
+    ]),
+    [{ id: "mia", name: "Mia", role: "character", voiceId: "Rachel-id", voiceName: "Rachel", voiceModel: "elevenlabs", color: null }],
+  );
+  assertEquals(toDialogueCharacters(null), []);
+});
+
+Deno.test("Storyboard dialogue - model lines resolve speakers by name and clamp the rest", () => {
+  assertEquals(
+    toDialogueLines([
+      { speaker: "MIA", text: "  We made it! ", emotion: "Excited", pace: "fast" },
+      { speaker: "Stranger", text: "Who goes there?", emotion: "bored", pause_after_ms: 9000 },
+      { speaker: "leo", text: "   " },
+    ], speakers),
+    [
+      line("mia", "We made it!", { emotion: "excited", pace: "fast" }),
+      line("narrator", "Who goes there?", { pauseAfterMs: MAX_LINE_PAUSE_MS }),
+    ],
+  );
+});
+
+Deno.test("Storyboard dialogue - a rewritten voiceover falls back to the narrator", () => {
+  const dialogue = [line("mia", "Look up."), line("leo", "It's huge!")];
+  const voiceOver = dialogueToVoiceOverText(dialogue);
+
+  assertEquals(getSceneLines({ voice_over_text: ` ${voiceOver} `, dialogue }, speakers), dialogue);
+  assertEquals(getSceneLines({ voice_over_text: "Something else entirely.", dialogue }, speakers), [
+    line("narrator", "Something else entirely."),
+  ]);
+  assertEquals(getSceneLines({ voice_over_text: "", dialogue: [] }, speakers), []);
+});
+
+Deno.test("Storyboard dialogue - Azure lines carry emotion and pace as SSML", () => {
+  const [, mia] = speakers;
+  assertEquals(
+    buildLineSpeech(line("mia", "Tom & Jerry", { emotion: "fearful", pace: "slow", pauseAfterMs: 400 }), mia),
+    '<mstts:express-as style="terrified"><prosody rate="-15%">Tom &amp; Jerry</prosody></mstts:express-as><break time="400ms"/>',
+  );
+  assertEquals(
+    buildLineSpeech(line("mia", "Hi", { emotion: "sad", pauseAfterMs: 500 }), { ...mia, voiceModel: "elevenlabs" }),
+    'Hi <break time="0.5s" />',
+  );
+});
+
+Deno.test("Storyboard dialogue - every line becomes a movie scene in its speaker's voice and colour", () => {
+  const movieScenes = buildDialogueMovieScenes(
+    [{
+      comment: "Scene 1",
+      visual: { type: "video", src: "https://cdn.example/clip.mp4" },
+      lines: [line("narrator", "One two three four five"), line("leo", "Six")],
+    }],
+    speakers,
+    { subtitlesModel: "default", subtitleSettings: { "line-color": "#FFFFFF", style: "boxed-word" }, zoom: 2 },
+  );
+
+  assertEquals(movieScenes.length, 2);
+  assertEquals(movieScenes.map(scene => scene.comment), ["Scene 1 - line 1 (Narrator)", "Scene 1 - line 2 (Leo)"]);
+
+  const [first, second] = movieScenes.map(scene => scene.elements as Record<string, unknown>[]);
+  assertEquals(first[0].seek, 0);
+  assertEquals(second[0].seek, 2);
+  assertEquals(first[1].voice, narratorVoice.voiceId);
+  assertEquals(second[1].voice, characters[1].voiceId);
+  assertEquals(first[2].settings, { "line-color": "#FFFFFF", style: "boxed-word" });
+  assertEquals(second[2].settings, { "line-color": characters[1].color, style: "boxed-word" });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for storyboard script editing helpers
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  MAX_SCENE_TAKES,
+  addSceneTake,
+  buildScriptEditPrompt,
+  buildScriptOutline,
+  countWords,
+  getActiveTake,
+  getDraftCount,
+  getWordBudget,
+  parseSceneDrafts,
+  toSceneTakes,
+  type SceneTake,
+} from "../storyboard-script.ts";
+
+const take = (id: string, overrides: Partial<SceneTake> = {}): SceneTake => ({
+  id,
+  voiceOverText: `Voiceover ${id}`,
+  imagePrompt: `cinematic image for ${id}`,
+  imagePrompt2: null,
+  source: "rewrite",
+  note: null,
+  createdAt: "2026-10-19T12:00:00.000Z",
+  ...overrides,
+});
+
+Deno.test("Storyboard script - word budget matches generate-storyboard and shrinks with more scenes", () => {
+  assertEquals(getWordBudget(30, 5), { total: 75, intro: 11, perScene: 12 });
+  assertEquals(getWordBudget(30, 6).perScene, 10);
+  assertEquals(getWordBudget(120, 23), { total: 300, intro: 20, perScene: 12 });
+  assertEquals(countWords("  Ancient temples  held secrets "), 4);
+  assertEquals(countWords(""), 0);
+});
+
+Deno.test("Storyboard script - the active take is the one the scene text matches", () => {
+  const takes = [take("a"), take("b")];
+
+  assertEquals(getActiveTake({ voiceOverText: "Voiceover b ", imagePrompt: "cinematic image for b" }, takes)?.id, "b");
+  assertEquals(getActiveTake({ voiceOverText: "Edited by hand", imagePrompt: "cinematic image for b" }, takes), null);
+});
+
+Deno.test("Storyboard script - adding a take keeps the current text when no take holds it", () => {
+  const current = take("now", { source: "manual" });
+
+  assertEquals(addSceneTake([], current, take("new")).map(t => [t.id, t.source]), [["now", "original"], ["new", "rewrite"]]);
+  assertEquals(addSceneTake([take("a")], current, take("new")).map(t => [t.id, t.source]), [["a", "rewrite"], ["now", "manual"], ["new", "rewrite"]]);
+  assertEquals(addSceneTake([take("a")], take("copy-of-a", { voiceOverText: "Voiceover a", imagePrompt: "cinematic image for a" }), take("new")).map(t => t.id), ["a", "new"]);
+});
+
+Deno.test("Storyboard script - take history is capped, dropping the oldest", () => {
+  const takes = Array.from({ length: MAX_SCENE_TAKES }, (_, i) => take(String(i)));
+  const history = addSceneTake(takes, takes[MAX_SCENE_TAKES - 1], take("new"));
+
+  assertEquals(history.length, MAX_SCENE_TAKES);
+  assertEquals(history[0].id, "1");
+  assertEquals(history[MAX_SCENE_TAKES - 1].id, "new");
+});
+
+Deno.test("Storyboard script - stored takes are read defensively", () => {
+  assertEquals(toSceneTakes(null), []);
+  assertEquals(
+    toSceneTakes([{ id: "a", voiceOverText: "Hi", imagePrompt: "cinematic hi", source: "bogus" }, { id: 3 }]),
+    [{ id: "a", voiceOverText: "Hi", imagePrompt: "cinematic hi", imagePrompt2: null, source: "manual", note: null, createdAt: "" }],
+  );
+});
+
+Deno.test("Storyboard script - outline marks the scenes being written", () => {
+  const scenes = [{ voiceOverText: "One." }, { voiceOverText: "Two." }, { voiceOverText: "Three." }];
+
+  assertEquals(buildScriptOutline("Hook", scenes, { from: 1, to: 2 }), "Intro: Hook\nScene 1: One.\n>> Scene 2: Two.\n>> Scene 3: Three.");
+  assertEquals(getDraftCount("tone", 3, 1), 2);
+  assertEquals(getDraftCount("split", 3, 1), 2);
+  assertEquals(getDraftCount("insert", 3, 3), 1);
+});
+
+Deno.test("Storyboard script - prompts carry the operation, budget and editor direction", () => {
+  const { system, user } = buildScriptEditPrompt({
+    operation: "insert",
+    topic: "Deep sea",
+    style: "cinematic",
+    tone: "mysterious",
+    wordsPerScene: 10,
+    intro: "What lives down there?",
+    scenes: [{ voiceOverText: "One." }, { voiceOverText: "Two." }],
+    index: 1,
+    instruction: " mention anglerfish ",
+  });
+
+  assertEquals(system.includes("Return exactly 1 scene,"), true);
+  assertEquals(system.includes("8 to 10 words"), true);
+  assertEquals(user.includes("between scene 1 and scene 2"), true);
+  assertEquals(user.endsWith("Direction from the editor: mention anglerfish"), true);
+});
+
+Deno.test("Storyboard script - drafts need the expected count and valid fields", () => {
+  const scene = { voiceOverText: " Down in the dark ", image_prompt: "cinematic deep sea trench" };
+
+  assertEquals(parseSceneDrafts({ scenes: [scene] }, 1), [
+    { voiceOverText: "Down in the dark", imagePrompt: "cinematic deep sea trench", imagePrompt2: null },
+  ]);
+  assertEquals(parseSceneDrafts({ scenes: [scene] }, 2), null);
+  assertEquals(parseSceneDrafts({ scenes: [{ ...scene, image_prompt: "short" }] }, 1), null);
+  assertEquals(parseSceneDrafts("nope", 1), null);
+});
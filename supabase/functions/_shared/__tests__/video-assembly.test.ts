@@ -0,0 +1,69 @@
+/**
+ * Unit tests for video assembly payloads and render callbacks
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildJson2VideoMovie,
+  parseRenderCallback,
+  parseVideoAssemblyInput,
+} from "../video-assembly.ts";
+import { calculatePerSecondCost } from "../model-metadata.ts";
+
+const CALLBACK = 'https://example.supabase.co/functions/v1/video-assembly-webhook?provider=x';
+
+Deno.test("Video assembly - a single mapped image URL becomes a one-image list", () => {
+  const input = parseVideoAssemblyInput({ image_urls: 'https://cdn/a.png', audio_url: 'https://cdn/vo.mp3' });
+
+  assertEquals(input.imageUrls, ['https://cdn/a.png']);
+  assertEquals(input.audioUrl, 'https://cdn/vo.mp3');
+  assertEquals(input.clipDuration, 5);
+  assertEquals(input.aspectRatio, '16:9');
+  assertEquals([input.width, input.height], [1920, 1080]);
+});
+
+Deno.test("Video assembly - missing images are rejected", () => {
+  assertThrows(() => parseVideoAssemblyInput({ image_urls: [] }), Error, 'at least one image URL');
+});
+
+Deno.test("Video assembly - JSON2Video movie has a scene per image and a webhook export", () => {
+  const input = parseVideoAssemblyInput({
+    image_urls: ['https://cdn/a.png', 'https://cdn/b.png'],
+    background_music_url: 'https://cdn/music.mp3',
+    music_volume: 3,
+    transition: 'fade',
+  });
+  const movie = buildJson2VideoMovie(input, CALLBACK) as {
+    scenes: Array<Record<string, unknown>>;
+    elements: unknown[];
+    exports: Array<{ destinations: Array<{ endpoint: string }> }>;
+  };
+
+  assertEquals(movie.scenes.length, 2);
+  assertEquals(movie.scenes[0].transition, undefined);
+  assertEquals(movie.scenes[1].transition, { style: 'fade', duration: 0.5 });
+  assertEquals(movie.elements, [{ type: 'audio', src: 'https://cdn/music.mp3', volume: 1 }]);
+  assertEquals(movie.exports[0].destinations[0].endpoint, CALLBACK);
+});
+
+Deno.test("Video assembly - render callbacks normalize per provider", () => {
+  assertEquals(
+    parseRenderCallback('shotstack', { id: 'r1', status: 'done', url: 'https://cdn/out.mp4' }),
+    { taskId: 'r1', state: 'completed', outputUrl: 'https://cdn/out.mp4', error: null }
+  );
+  assertEquals(parseRenderCallback('shotstack', { id: 'r1', status: 'rendering' }).state, 'processing');
+  assertEquals(
+    parseRenderCallback('json2video', { project: 'p1', id: 'x', success: false, error: 'Bad asset' }),
+    { taskId: 'p1', state: 'failed', outputUrl: null, error: 'Bad asset' }
+  );
+  assertEquals(parseRenderCallback('json2video', { project: 'p1', success: true, url: 'u' }).state, 'completed');
+});
+
+Deno.test("Video assembly - both providers charge 0.2 credits per second of video", () => {
+  for (const recordId of ["fb0754dc-d121-4ea6-a069-25116a38b946", "51b77842-d771-47c8-8502-1e3bd60e5aea"]) {
+    assertEquals(calculatePerSecondCost(recordId, { image_urls: ['https://cdn/a.png', 'https://cdn/b.png'], clip_duration: 30 }), 12);
+    assertEquals(calculatePerSecondCost(recordId, { image_urls: ['https://cdn/a.png'] }), 1);
+    assertEquals(calculatePerSecondCost(recordId, { image_urls: 'https://cdn/a.png', clip_duration: 8 }), 2);
+  }
+  assertEquals(calculatePerSecondCost("379f8945-bd7f-48f3-a1bb-9d2e2413234c", { clip_duration: 30 }), undefined);
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for workflow DAG scheduling
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  resolveStepDependencies,
+  validateWorkflowGraph,
+  getStepLevels,
+  planNextSteps,
+  isWorkflowSettled,
+  selectFinalOutputStep,
+  type WorkflowGraphStep,
+} from "../workflow-graph.ts";
+
+// One prompt -> three image models in parallel -> pick best -> animate
+const fanOutFanIn: WorkflowGraphStep[] = [
+  { step_number: 1 },
+  { step_number: 2, parallel_group: 'variants' },
+  { step_number: 3, parallel_group: 'variants' },
+  { step_number: 4, parallel_group: 'variants' },
+  { step_number: 5 },
+  { step_number: 6 },
+];
+
+Deno.test("Workflow graph - legacy steps stay linear", () => {
+  const deps = resolveStepDependencies([{ step_number: 1 }, { step_number: 2 }, { step_number: 3 }]);
+
+  assertEquals(deps.get(1), []);
+  assertEquals(deps.get(2), [1]);
+  assertEquals(deps.get(3), [2]);
+});
+
+Deno.test("Workflow graph - parallel groups fan out and fan in", () => {
+  const deps = resolveStepDependencies(fanOutFanIn);
+
+  assertEquals(deps.get(2), [1]);
+  assertEquals(deps.get(3), [1]);
+  assertEquals(deps.get(4), [1]);
+  assertEquals(deps.get(5), [2, 3, 4]);
+  assertEquals(deps.get(6), [5]);
+  assertEquals(getStepLevels(fanOutFanIn).get(5), 2);
+});
+
+Deno.test("Workflow graph - detects cycles and unknown dependencies", () => {
+  assertEquals(
+    validateWorkflowGraph([
+      { step_number: 1, depends_on: [2] },
+      { step_number: 2, depends_on: [1] },
+    ]),
+    ['Workflow steps contain a dependency cycle']
+  );
+  assertEquals(
+    validateWorkflowGraph([{ step_number: 1, depends_on: [9] }]),
+    ['Step 1 depends on unknown step 9']
+  );
+  assertEquals(validateWorkflowGraph(fanOutFanIn), []);
+});
+
+Deno.test("Workflow graph - schedules steps whose inputs are ready", () => {
+  assertEquals(planNextSteps(fanOutFanIn, {}, {}), { start: [1], skip: [] });
+  assertEquals(planNextSteps(fanOutFanIn, { '1': 'completed' }, {}), { start: [2, 3, 4], skip: [] });
+  assertEquals(
+    planNextSteps(fanOutFanIn, { '1': 'completed', '2': 'completed', '3': 'running', '4': 'completed' }, {}),
+    { start: [], skip: [] }
+  );
+  assertEquals(
+    planNextSteps(fanOutFanIn, { '1': 'completed', '2': 'completed', '3': 'completed', '4': 'completed' }, {}),
+    { start: [5], skip: [] }
+  );
+});
+
+Deno.test("Workflow graph - failed conditions skip the step and its dependents", () => {
+  const steps: WorkflowGraphStep[] = [
+    { step_number: 1 },
+    { step_number: 2, run_if: { source: 'step1.flagged', operator: 'falsy' } },
+    { step_number: 3 },
+  ];
+  const context = { step1: { flagged: true } };
+
+  const plan = planNextSteps(steps, { '1': 'completed' }, context);
+  assertEquals(plan, { start: [], skip: [2, 3] });
+
+  const states = { '1': 'completed', '2': 'skipped', '3': 'skipped' } as const;
+  assertEquals(isWorkflowSettled(steps, states), true);
+  assertEquals(selectFinalOutputStep(steps, states), 1);
+});
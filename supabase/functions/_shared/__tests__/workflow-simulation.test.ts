@@ -0,0 +1,108 @@
+/**
+ * Unit tests for workflow simulation traces
+ */
+
+import { assert, assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildSimulationTrace,
+  createMockOutputUrl,
+  diffSimulationTraces,
+  MOCK_OUTPUT_BASE_URL,
+  type SimulatedGeneration,
+  type SimulationTraceStep,
+} from "../workflow-simulation.ts";
+
+const steps: SimulationTraceStep[] = [
+  { step_number: 1, step_name: 'Generate image', model_record_id: 'image-model', output_key: 'image' },
+  { step_number: 2, step_name: 'Animate', model_record_id: 'video-model', depends_on: [1] },
+  { step_number: 3, step_name: 'Upscale', model_record_id: 'image-model', depends_on: [1], run_if: { source: 'user.upscale', operator: 'truthy' } },
+];
+
+const imageGeneration: SimulatedGeneration = {
+  model_record_id: 'image-model',
+  prompt: 'A red fox',
+  parameters: { aspect_ratio: '16:9' },
+  cost: 2,
+};
+
+const videoGeneration: SimulatedGeneration = {
+  model_record_id: 'video-model',
+  prompt: 'Animate mock://image',
+  parameters: { duration: 5 },
+  cost: 10,
+};
+
+const completedExecution = {
+  status: 'completed',
+  step_states: { '1': 'completed', '2': 'completed', '3': 'skipped' },
+  step_outputs: {
+    step1: { image: 'mock://image', outputs: [{ url: 'mock://image' }], simulation: imageGeneration },
+    step2: { output: 'mock://video', outputs: [{ url: 'mock://video' }], simulation: videoGeneration },
+  },
+  final_output_url: 'mock://video',
+  error_message: null,
+};
+
+Deno.test("Workflow simulation - mock outputs are deterministic and typed", () => {
+  const url = createMockOutputUrl(2, 'video', videoGeneration);
+
+  assert(url.startsWith(`${MOCK_OUTPUT_BASE_URL}/step-2/video-`));
+  assert(url.endsWith('.mp4'));
+  assertEquals(createMockOutputUrl(2, 'video', { ...videoGeneration, parameters: { duration: 5 } }), url);
+  assertNotEquals(createMockOutputUrl(2, 'video', { ...videoGeneration, prompt: 'Other' }), url);
+});
+
+Deno.test("Workflow simulation - trace is built from the settled execution", () => {
+  const trace = buildSimulationTrace(steps, completedExecution, (recordId) => `Model ${recordId}`);
+
+  assertEquals(trace.status, 'completed');
+  assertEquals(trace.final_step, 2);
+  assertEquals(trace.final_output_url, 'mock://video');
+  assertEquals(trace.total_cost, 12);
+  assertEquals(trace.steps.map((s) => s.status), ['completed', 'completed', 'skipped']);
+  assertEquals(trace.steps[0].output_url, 'mock://image');
+  assertEquals(trace.steps[0].resolved_prompt, 'A red fox');
+  assertEquals(trace.steps[1].model_name, 'Model video-model');
+  assertEquals(trace.steps[2].parameters, null);
+  assertEquals(trace.steps[2].cost, 0);
+});
+
+Deno.test("Workflow simulation - failed execution carries its error and no final step", () => {
+  const trace = buildSimulationTrace(steps, {
+    status: 'failed',
+    step_states: { '1': 'completed', '2': 'failed', '3': 'skipped' },
+    step_outputs: { step1: completedExecution.step_outputs.step1 },
+    final_output_url: null,
+    error_message: 'Step 2 failed to start: duration must be a number',
+  });
+
+  assertEquals(trace.status, 'failed');
+  assertEquals(trace.final_step, null);
+  assertEquals(trace.error, 'Step 2 failed to start: duration must be a number');
+  assertEquals(trace.total_cost, 2);
+});
+
+Deno.test("Workflow simulation - diff lists changed steps and workflow fields", () => {
+  const before = buildSimulationTrace(steps, completedExecution);
+  const after = buildSimulationTrace(steps, {
+    ...completedExecution,
+    step_outputs: {
+      ...completedExecution.step_outputs,
+      step2: {
+        output: 'mock://video-2',
+        simulation: { ...videoGeneration, parameters: { duration: 10 }, cost: 20 },
+      },
+    },
+    final_output_url: 'mock://video-2',
+  });
+
+  const changes = diffSimulationTraces(before, after);
+  assertEquals(changes.map((c) => `${String(c.step_number)}:${c.field}`), [
+    'null:final_output_url',
+    'null:total_cost',
+    '2:parameters',
+    '2:cost',
+    '2:output_url',
+  ]);
+  assertEquals(diffSimulationTraces(before, before), []);
+});
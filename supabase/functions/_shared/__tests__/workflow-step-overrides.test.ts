@@ -0,0 +1,45 @@
+/**
+ * Unit tests for resumed-step overrides
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { applyStepOverride, getStepOverride } from "../workflow-step-overrides.ts";
+
+const step = {
+  step_number: 2,
+  model_id: 'old/model',
+  model_record_id: 'old-record',
+  prompt_template: 'Animate {{user.subject}}',
+  parameters: { duration: 5, prompt: '{{steps.1.output}}' },
+  input_mappings: { image_url: 'step1.output', aspect_ratio: 'user.ratio' },
+};
+
+Deno.test("Step overrides - missing override leaves the step untouched", () => {
+  assertEquals(applyStepOverride(step, undefined), step);
+  assertEquals(getStepOverride({ "3": { prompt: 'x' } }, 2), undefined);
+  assertEquals(getStepOverride(null, 2), undefined);
+});
+
+Deno.test("Step overrides - swapping the model replaces record and model id", () => {
+  const result = applyStepOverride(step, { model_record_id: 'new-record', model_id: 'new/model' });
+
+  assertEquals(result.model_record_id, 'new-record');
+  assertEquals(result.model_id, 'new/model');
+  assertEquals(result.input_mappings, step.input_mappings);
+});
+
+Deno.test("Step overrides - edited parameters win over input mappings", () => {
+  const result = applyStepOverride(step, { parameters: { aspect_ratio: '9:16', duration: 10 } });
+
+  assertEquals(result.parameters, { duration: 10, prompt: '{{steps.1.output}}', aspect_ratio: '9:16' });
+  assertEquals(result.input_mappings, { image_url: 'step1.output' });
+  assertEquals(result.model_record_id, 'old-record');
+});
+
+Deno.test("Step overrides - edited prompt replaces template and prompt parameter", () => {
+  const override = getStepOverride({ "2": { prompt: 'A slow pan' } }, 2);
+  const result = applyStepOverride(step, override);
+
+  assertEquals(result.prompt_template, 'A slow pan');
+  assertEquals(result.parameters, { duration: 5 });
+});
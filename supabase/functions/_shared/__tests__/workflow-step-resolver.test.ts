@@ -0,0 +1,48 @@
+/**
+ * Unit tests for resolving a workflow step's prompt and parameters
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { resolveWorkflowStep } from "../workflow-step-resolver.ts";
+import { createTemplateContext, TemplateExpressionError } from "../template-expressions.ts";
+
+const context = createTemplateContext(
+  { prompt: 'Poster for our {{ big sale }}', subject: 'a {{cat}}' },
+  { step1: { output: 'https://example.com/1.png' } }
+);
+
+Deno.test("Step resolver - the prompt template is rendered with the context", () => {
+  const resolved = resolveWorkflowStep({
+    prompt_template: 'Animate {{user.subject}} from {{steps.1.output}}',
+    input_mappings: { image_url: 'step1.output' },
+  }, context);
+
+  assertEquals(resolved.prompt, 'Animate a {{cat}} from https://example.com/1.png');
+  assertEquals(resolved.parameters, { image_url: 'https://example.com/1.png' });
+});
+
+Deno.test("Step resolver - braces in a mapped user prompt are kept as written", () => {
+  const resolved = resolveWorkflowStep({
+    prompt_template: 'unused',
+    input_mappings: { prompt: 'user.prompt' },
+  }, context);
+
+  assertEquals(resolved.prompt, 'Poster for our {{ big sale }}');
+  assertEquals(resolved.parameters.prompt, 'Poster for our {{ big sale }}');
+});
+
+Deno.test("Step resolver - a static prompt parameter is rendered like the template", () => {
+  const resolved = resolveWorkflowStep({
+    prompt_template: 'unused',
+    parameters: { prompt: 'Upscale {{steps.1.output}}' },
+  }, context);
+
+  assertEquals(resolved.prompt, 'Upscale https://example.com/1.png');
+});
+
+Deno.test("Step resolver - invalid template syntax in the step still throws", () => {
+  assertThrows(
+    () => resolveWorkflowStep({ prompt_template: 'Broken {{ big sale }}' }, context),
+    TemplateExpressionError
+  );
+});
@@ -95,6 +95,38 @@ export const JSON2VIDEO_ENDPOINTS = {
   },
 } as const;
 
+/**
+ * ComfyUI API endpoints (self-hosted)
+ */
+export const COMFYUI_ENDPOINTS = {
+  BASE: getEnvOrDefault('COMFYUI_BASE_URL', 'http://localhost:8188'),
+  PROMPT: '/prompt',
+  HISTORY: '/history',
+  VIEW: '/view',
+  WS: '/ws',
+
+  get promptUrl(): string {
+    return `${this.BASE}${this.PROMPT}`;
+  },
+
+  getHistoryUrl(promptId: string): string {
+    return `${this.BASE}${this.HISTORY}/${promptId}`;
+  },
+
+  getViewUrl(file: { filename: string; subfolder?: string; type?: string }): string {
+    const params = new URLSearchParams({
+      filename: file.filename,
+      subfolder: file.subfolder ?? '',
+      type: file.type ?? 'output',
+    });
+    return `${this.BASE}${this.VIEW}?${params.toString()}`;
+  },
+
+  getWebSocketUrl(clientId: string): string {
+    return `${this.BASE.replace(/^http/, 'ws')}${this.WS}?clientId=${clientId}`;
+  },
+} as const;
+
 /**
  * ElevenLabs API endpoints
  */
@@ -175,6 +207,7 @@ export const API_ENDPOINTS = {
   RUNWARE: RUNWARE_ENDPOINTS,
   SHOTSTACK: SHOTSTACK_ENDPOINTS,
   JSON2VIDEO: JSON2VIDEO_ENDPOINTS,
+  COMFYUI: COMFYUI_ENDPOINTS,
   ELEVENLABS: ELEVENLABS_ENDPOINTS,
   OPENAI: OPENAI_ENDPOINTS,
   ANTHROPIC: ANTHROPIC_ENDPOINTS,
@@ -0,0 +1,193 @@
+/**
+ * ComfyUI Workflow Templates
+ *
+ * A locked model file for a self-hosted ComfyUI model declares a
+ * `comfyWorkflow`: an API-format workflow (node id -> { class_type, inputs })
+ * plus bindings from SCHEMA property names to the node inputs they fill.
+ * Parameters are injected into a copy of the workflow before it is queued, so
+ * adding a model needs no provider-specific payload code.
+ *
+ * Import-free so the client registry and edge provider share one definition.
+ */
+
+export interface ComfyNode {
+  class_type: string;
+  inputs: Record<string, unknown>;
+  _meta?: { title?: string };
+}
+
+export type ComfyWorkflow = Record<string, ComfyNode>;
+
+export interface ComfyInputBinding {
+  node: string;
+  input: string;
+}
+
+export interface ComfyWorkflowTemplate {
+  workflow: ComfyWorkflow;
+  /** SCHEMA property name -> node input(s) it is written to */
+  bindings: Record<string, ComfyInputBinding | ComfyInputBinding[]>;
+  /** Node whose files are the result; defaults to the first node that produced files */
+  outputNode?: string;
+}
+
+export interface ComfyOutputFile {
+  node: string;
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+const asBindingList = (binding: ComfyInputBinding | ComfyInputBinding[]): ComfyInputBinding[] =>
+  Array.isArray(binding) ? binding : [binding];
+
+/**
+ * Check a template against the model SCHEMA. Returns one message per problem:
+ * bindings to unknown nodes or to properties the SCHEMA does not declare, and
+ * an output node that is not in the workflow.
+ */
+export function validateComfyWorkflowTemplate(
+  template: ComfyWorkflowTemplate,
+  schemaProperties: Record<string, unknown> = {}
+): string[] {
+  const errors: string[] = [];
+
+  for (const [property, binding] of Object.entries(template.bindings)) {
+    if (!(property in schemaProperties)) {
+      errors.push(`Binding "${property}" is not a SCHEMA property`);
+    }
+    for (const { node, input } of asBindingList(binding)) {
+      if (!(node in template.workflow)) {
+        errors.push(`Binding "${property}" targets missing node ${node} (${input})`);
+      }
+    }
+  }
+
+  if (template.outputNode && !(template.outputNode in template.workflow)) {
+    errors.push(`Output node ${template.outputNode} is not in the workflow`);
+  }
+
+  return errors;
+}
+
+/**
+ * Copy the workflow with parameter values written into their bound node
+ * inputs. Empty parameters leave the workflow's own value in place.
+ */
+export function injectComfyParameters(
+  template: ComfyWorkflowTemplate,
+  parameters: Record<string, unknown>
+): ComfyWorkflow {
+  const workflow = structuredClone(template.workflow);
+
+  for (const [property, binding] of Object.entries(template.bindings)) {
+    const value = parameters[property];
+    if (value === undefined || value === null || value === '') continue;
+
+    for (const { node, input } of asBindingList(binding)) {
+      if (!workflow[node]) {
+        throw new Error(`Invalid model configuration: workflow has no node ${node} for "${property}"`);
+      }
+      workflow[node].inputs[input] = value;
+    }
+  }
+
+  return workflow;
+}
+
+type HistoryFile = { filename?: string; subfolder?: string; type?: string };
+
+/**
+ * Files a finished prompt produced, from its /history entry. Only the output
+ * node's files when one is given.
+ */
+export function extractComfyOutputs(
+  historyEntry: { outputs?: Record<string, Record<string, unknown>> } | undefined,
+  outputNode?: string
+): ComfyOutputFile[] {
+  const outputs = historyEntry?.outputs ?? {};
+  const nodes = outputNode ? [outputNode] : Object.keys(outputs);
+  const files: ComfyOutputFile[] = [];
+
+  for (const node of nodes) {
+    for (const value of Object.values(outputs[node] ?? {})) {
+      if (!Array.isArray(value)) continue;
+      for (const file of value as HistoryFile[]) {
+        if (typeof file?.filename !== 'string') continue;
+        files.push({
+          node,
+          filename: file.filename,
+          subfolder: file.subfolder ?? '',
+          type: file.type ?? 'output',
+        });
+      }
+    }
+  }
+
+  return files;
+}
+
+export type ComfyExecutionStatus =
+  | { state: 'running' }
+  | { state: 'completed' }
+  | { state: 'failed'; error: string };
+
+/**
+ * Execution state from a /history entry (absent while the prompt is queued)
+ */
+export function getComfyExecutionStatus(
+  historyEntry: { status?: { status_str?: string; completed?: boolean; messages?: unknown[] } } | undefined
+): ComfyExecutionStatus {
+  const status = historyEntry?.status;
+  if (!status) return { state: 'running' };
+
+  if (status.status_str === 'error') {
+    const errorMessage = (status.messages ?? [])
+      .map(message => Array.isArray(message) && message[0] === 'execution_error'
+        ? (message[1] as { exception_message?: string })?.exception_message
+        : undefined)
+      .find(Boolean);
+    return { state: 'failed', error: errorMessage || 'ComfyUI workflow failed' };
+  }
+
+  return status.completed ? { state: 'completed' } : { state: 'running' };
+}
+
+export type ComfyEvent =
+  | { kind: 'progress'; percent: number; node: string | null }
+  | { kind: 'done' }
+  | { kind: 'error'; message: string };
+
+/**
+ * Parse a websocket message for the given prompt. Returns null for messages
+ * about other prompts and for ones that carry nothing we track.
+ */
+export function parseComfyMessage(raw: string, promptId: string): ComfyEvent | null {
+  let message: { type?: string; data?: Record<string, unknown> };
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const data = message.data ?? {};
+  if (data.prompt_id !== promptId) return null;
+
+  switch (message.type) {
+    case 'progress': {
+      const value = Number(data.value);
+      const max = Number(data.max);
+      if (!Number.isFinite(value) || !(max > 0)) return null;
+      return { kind: 'progress', percent: Math.round((value / max) * 100), node: (data.node as string) ?? null };
+    }
+    case 'executing':
+      // A null node means the whole prompt has finished executing
+      return data.node === null ? { kind: 'done' } : null;
+    case 'execution_success':
+      return { kind: 'done' };
+    case 'execution_error':
+      return { kind: 'error', message: String(data.exception_message || 'ComfyUI workflow failed') };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Export Formats
+ *
+ * The file types a video editor render can produce, shared by the editor
+ * (format picker, cost estimate, downloads), render-video-editor (backend
+ * selection) and the FFmpeg worker. Shotstack renders MP4 and MP3; the other
+ * formats need encoder control only the FFmpeg worker has.
+ *
+ * Import-free so the client can use it too.
+ */
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'mp3' | 'wav' | 'png-sequence' | 'poster-sheet';
+
+export interface ExportFormatSpec {
+  label: string;
+  description: string;
+  extension: string; // of the delivered file
+  contentType: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  creditsPerSecond: number;
+  shotstackFormat?: 'mp4' | 'mp3'; // set when Shotstack can render the format
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  'mp4': {
+    label: 'MP4',
+    description: 'H.264 video with AAC audio',
+    extension: 'mp4',
+    contentType: 'video/mp4',
+    hasVideo: true,
+    hasAudio: true,
+    creditsPerSecond: 0.5,
+    shotstackFormat: 'mp4',
+  },
+  'webm': {
+    label: 'WebM',
+    description: 'VP9 video, optionally with a transparent background for overlays',
+    extension: 'webm',
+    contentType: 'video/webm',
+    hasVideo: true,
+    hasAudio: true,
+    creditsPerSecond: 0.6,
+  },
+  'gif': {
+    label: 'GIF',
+    description: 'Looping animation without sound',
+    extension: 'gif',
+    contentType: 'image/gif',
+    hasVideo: true,
+    hasAudio: false,
+    creditsPerSecond: 0.4,
+  },
+  'mp3': {
+    label: 'MP3',
+    description: 'The mixed audio only',
+    extension: 'mp3',
+    contentType: 'audio/mpeg',
+    hasVideo: false,
+    hasAudio: true,
+    creditsPerSecond: 0.1,
+    shotstackFormat: 'mp3',
+  },
+  'wav': {
+    label: 'WAV',
+    description: 'The mixed audio only, uncompressed',
+    extension: 'wav',
+    contentType: 'audio/wav',
+    hasVideo: false,
+    hasAudio: true,
+    creditsPerSecond: 0.1,
+  },
+  'png-sequence': {
+    label: 'PNG sequence',
+    description: 'Still frames at a fixed interval, zipped',
+    extension: 'zip',
+    contentType: 'application/zip',
+    hasVideo: true,
+    hasAudio: false,
+    creditsPerSecond: 0.3,
+  },
+  'poster-sheet': {
+    label: 'Poster sheet',
+    description: 'One PNG with a grid of frames across the video',
+    extension: 'png',
+    contentType: 'image/png',
+    hasVideo: true,
+    hasAudio: false,
+    creditsPerSecond: 0.1,
+  },
+};
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+// ─── Format options ──────────────────────────────────────────────────────────
+
+export interface GifOptions {
+  fps: number; // 5-30
+  colors: number; // palette size, 16-256
+  dither: boolean;
+  width: number; // output width in pixels; height follows the aspect ratio
+}
+
+export interface ExportOptions {
+  gif: GifOptions;
+  transparentBackground: boolean; // WebM only
+  frameInterval: number; // seconds between frames of a PNG sequence or poster sheet
+  sheetColumns: number; // poster sheet grid width
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  gif: { fps: 12, colors: 256, dither: true, width: 480 },
+  transparentBackground: false,
+  frameInterval: 1,
+  sheetColumns: 4,
+};
+
+// Poster sheets sample at most this many frames, widening the interval if needed
+export const MAX_POSTER_SHEET_FRAMES = 48;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Fill in and clamp export options from a job or a saved project, which may
+ * predate some options or come from an untrusted client
+ */
+export function resolveExportOptions(options: Partial<ExportOptions> | null | undefined): ExportOptions {
+  const defaults = DEFAULT_EXPORT_OPTIONS;
+  const gif: Partial<GifOptions> = options?.gif ?? {};
+  return {
+    gif: {
+      fps: Math.round(clamp(gif.fps, 5, 30, defaults.gif.fps)),
+      colors: Math.round(clamp(gif.colors, 16, 256, defaults.gif.colors)),
+      dither: typeof gif.dither === 'boolean' ? gif.dither : defaults.gif.dither,
+      width: Math.round(clamp(gif.width, 120, 1920, defaults.gif.width)),
+    },
+    transparentBackground: options?.transparentBackground === true,
+    frameInterval: clamp(options?.frameInterval, 0.1, 60, defaults.frameInterval),
+    sheetColumns: Math.round(clamp(options?.sheetColumns, 1, 12, defaults.sheetColumns)),
+  };
+}
+
+/** Cost of rendering `duration` seconds in a format, rounded up to 0.1 credit */
+export function getExportCredits(format: ExportFormat, duration: number): number {
+  return Math.ceil(duration * EXPORT_FORMATS[format].creditsPerSecond * 10) / 10;
+}
@@ -0,0 +1,86 @@
+/**
+ * Model Equivalence Groups
+ *
+ * Models that run the same underlying model on different providers. When a
+ * provider's circuit breaker is open, generate-content reroutes a request to
+ * a healthy member of the same group.
+ *
+ * Each member maps shared roles (e.g. "image") to its own parameter names, so
+ * parameters can be translated between the members' preparePayload shapes.
+ * Parameters without a role are dropped; the target model's SCHEMA defaults
+ * fill the rest.
+ *
+ * Import-free so the client registry and edge functions share one definition.
+ */
+
+export interface EquivalentModel {
+  recordId: string;
+  /** Role -> this model's parameter name */
+  parameters: Record<string, string>;
+}
+
+export interface ModelEquivalenceGroup {
+  id: string;
+  /** In order of preference when rerouting */
+  members: EquivalentModel[];
+}
+
+export const MODEL_EQUIVALENCE_GROUPS: readonly ModelEquivalenceGroup[] = [
+  {
+    id: 'remove-background',
+    members: [
+      { recordId: '58b8b09f-57fd-42e3-ae2d-689e9ea3064d', parameters: { image: 'image' } },           // kie_ai
+      { recordId: 'd1d8b152-e123-4375-8f55-c0d0a699009b', parameters: { image: 'inputImage', format: 'outputFormat' } }, // runware
+    ],
+  },
+];
+
+export function getEquivalenceGroup(recordId: string): ModelEquivalenceGroup | undefined {
+  return MODEL_EQUIVALENCE_GROUPS.find(group => group.members.some(member => member.recordId === recordId));
+}
+
+/**
+ * The other members of a model's group, in preference order
+ */
+export function getEquivalentModels(recordId: string): EquivalentModel[] {
+  return getEquivalenceGroup(recordId)?.members.filter(member => member.recordId !== recordId) ?? [];
+}
+
+export function areEquivalentModels(recordId: string, otherRecordId: string): boolean {
+  return recordId !== otherRecordId && getEquivalentModels(recordId).some(member => member.recordId === otherRecordId);
+}
+
+/**
+ * Rename parameters from one member's names to another's via their shared
+ * roles. Throws if the two models are not in the same group.
+ */
+export function translateEquivalentParameters(
+  fromRecordId: string,
+  toRecordId: string,
+  parameters: Record<string, unknown>
+): Record<string, unknown> {
+  const group = getEquivalenceGroup(fromRecordId);
+  const from = group?.members.find(member => member.recordId === fromRecordId);
+  const to = group?.members.find(member => member.recordId === toRecordId);
+
+  if (!from || !to || from === to) {
+    throw new Error(`Models ${fromRecordId} and ${toRecordId} are not equivalent`);
+  }
+
+  const translated: Record<string, unknown> = {};
+  for (const [role, fromName] of Object.entries(from.parameters)) {
+    const toName = to.parameters[role];
+    if (toName && parameters[fromName] !== undefined) {
+      translated[toName] = parameters[fromName];
+    }
+  }
+  return translated;
+}
+
+/**
+ * Credits charged for a rerouted generation: the equivalent model's price
+ * when it is cheaper, otherwise the original quote
+ */
+export function reconcileFailoverCost(quotedCost: number, equivalentCost: number): number {
+  return Math.min(quotedCost, equivalentCost);
+}
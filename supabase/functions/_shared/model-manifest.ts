@@ -0,0 +1,180 @@
+/**
+ * Declarative Model Manifests
+ *
+ * A manifest describes a model as data instead of a hand-written locked file:
+ * its MODEL_CONFIG, input SCHEMA, validation constraints, payload mapping
+ * rules and pricing. Manifests live as JSON under src/lib/models/manifests and
+ * are compiled by scripts/compile-model-manifests.ts into
+ * model-manifests.generated.ts, which both the client registry and the edge
+ * MODEL_METADATA read.
+ *
+ * Import-free so the client registry and edge functions share one definition.
+ */
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface ModelManifestConfig {
+  modelId: string;
+  recordId: string;
+  modelName: string;
+  provider: string;
+  contentType: string;
+  baseCreditCost: number;
+  estimatedTimeSeconds: number;
+  costMultipliers: Record<string, number | Record<string, number>>;
+  /** Literal endpoint, or a "$api.<PROVIDER>" reference resolved by the client */
+  apiEndpoint: string | null;
+  payloadStructure: string;
+  maxImages: number | null;
+  defaultOutputs: number;
+  isActive: boolean;
+  /** Literal path, or "$brand.logoPath" */
+  logoUrl?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ManifestSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Checked in order; the first failing rule's message is returned.
+ * - required: fails when the input is falsy
+ * - maxLength: fails when the input is set and longer than `value`
+ * - range: fails when the input is defined and outside [minimum, maximum]
+ */
+export type ManifestValidationRule =
+  | { field: string; rule: 'required'; message: string }
+  | { field: string; rule: 'maxLength'; value: number; message: string }
+  | { field: string; rule: 'range'; minimum: number; maximum: number; message: string };
+
+export interface ManifestPayloadField {
+  /** Payload key */
+  key: string;
+  /** Input the value is read from; omit for a constant `value` */
+  from?: string;
+  /** Constant for the key, or the fallback when the input is falsy */
+  value?: unknown;
+  /** always (default), or only when the input is defined / truthy */
+  when?: 'always' | 'defined' | 'truthy';
+}
+
+export interface ManifestPayloadRules {
+  /** Nest the fields under `inputKey` next to the model id, e.g. { model, input } */
+  wrapper?: { modelKey: string; inputKey: string };
+  fields: ManifestPayloadField[];
+}
+
+export interface ManifestPricingRules {
+  /** Multiply the base cost by config.costMultipliers[param][value], 1 for unlisted values */
+  multipliers?: { param: string; default: string | number }[];
+}
+
+export interface ManifestExecutionRules {
+  /** Input that receives the prompt (default: prompt) */
+  promptField?: string;
+  /** Input that receives the first uploaded image */
+  imageField?: string;
+  /** Prompt stored on the generation when the user gives none */
+  defaultPrompt?: string;
+}
+
+export interface ModelManifest {
+  /** Repo path of the JSON source, set by the compiler */
+  source?: string;
+  config: ModelManifestConfig;
+  schema: ManifestSchema;
+  validation?: ManifestValidationRule[];
+  payload: ManifestPayloadRules;
+  pricing?: ManifestPricingRules;
+  execution?: ManifestExecutionRules;
+}
+
+const REQUIRED_CONFIG_KEYS = [
+  'modelId', 'recordId', 'modelName', 'provider', 'contentType',
+  'baseCreditCost', 'estimatedTimeSeconds', 'payloadStructure',
+] as const;
+
+/**
+ * Check a manifest for mistakes that would only surface at generation time.
+ * Returns a message per problem; empty when the manifest is usable.
+ */
+export function validateModelManifest(manifest: ModelManifest): string[] {
+  const errors: string[] = [];
+  const properties = manifest.schema?.properties ?? {};
+
+  for (const key of REQUIRED_CONFIG_KEYS) {
+    if (manifest.config?.[key] === undefined) errors.push(`config.${key} is missing`);
+  }
+
+  for (const rule of manifest.validation ?? []) {
+    if (!(rule.field in properties)) errors.push(`Validation field "${rule.field}" is not a SCHEMA property`);
+  }
+
+  for (const field of manifest.payload?.fields ?? []) {
+    if (field.from === undefined && field.value === undefined) {
+      errors.push(`Payload key "${field.key}" has neither an input nor a value`);
+    } else if (field.from !== undefined && !(field.from in properties)) {
+      errors.push(`Payload key "${field.key}" reads "${field.from}", which is not a SCHEMA property`);
+    }
+  }
+
+  for (const { param } of manifest.pricing?.multipliers ?? []) {
+    if (typeof manifest.config?.costMultipliers?.[param] !== 'object') {
+      errors.push(`Pricing multiplier "${param}" has no table in config.costMultipliers`);
+    }
+  }
+
+  return errors;
+}
+
+export function validateManifestInputs(manifest: ModelManifest, inputs: Record<string, unknown>): ValidationResult {
+  for (const rule of manifest.validation ?? []) {
+    const value = inputs[rule.field];
+
+    const failed = rule.rule === 'required'
+      ? !value
+      : rule.rule === 'maxLength'
+        ? !!value && String(value).length > rule.value
+        : value !== undefined && ((value as number) < rule.minimum || (value as number) > rule.maximum);
+
+    if (failed) return { valid: false, error: rule.message };
+  }
+  return { valid: true };
+}
+
+export function prepareManifestPayload(manifest: ModelManifest, inputs: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const field of manifest.payload.fields) {
+    if (field.from === undefined) {
+      fields[field.key] = field.value;
+      continue;
+    }
+
+    const value = inputs[field.from];
+    if (field.when === 'defined' && value === undefined) continue;
+    if (field.when === 'truthy' && !value) continue;
+    fields[field.key] = field.value !== undefined ? value || field.value : value;
+  }
+
+  const { wrapper } = manifest.payload;
+  return wrapper ? { [wrapper.modelKey]: manifest.config.modelId, [wrapper.inputKey]: fields } : fields;
+}
+
+export function calculateManifestCost(manifest: ModelManifest, inputs: Record<string, unknown>): number {
+  let cost = manifest.config.baseCreditCost;
+
+  for (const { param, default: fallback } of manifest.pricing?.multipliers ?? []) {
+    const table = manifest.config.costMultipliers[param] as Record<string, number>;
+    cost *= table[String(inputs[param] || fallback)] || 1;
+  }
+
+  return cost;
+}
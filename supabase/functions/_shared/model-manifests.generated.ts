@@ -0,0 +1,472 @@
+/**
+ * GENERATED by scripts/compile-model-manifests.ts - do not edit.
+ * Edit the JSON manifests under src/lib/models/manifests and re-run the script.
+ */
+
+import type { ModelManifest } from "./model-manifest.ts";
+
+export const MODEL_MANIFESTS: readonly ModelManifest[] = [
+  {
+    "source": "src/lib/models/manifests/image_editing/Recraft_Crisp_Upscale.json",
+    "config": {
+      "modelId": "recraft/crisp-upscale",
+      "recordId": "00ef3f28-4fab-4244-b93f-0ba48641fcbd",
+      "modelName": "Crisp Image Upscale",
+      "provider": "kie_ai",
+      "contentType": "image_editing",
+      "use_api_key": "KIE_AI_API_KEY_IMAGE_EDITING",
+      "baseCreditCost": 0.25,
+      "estimatedTimeSeconds": 20,
+      "costMultipliers": {},
+      "apiEndpoint": "/api/v1/jobs/createTask",
+      "payloadStructure": "wrapper",
+      "maxImages": 1,
+      "defaultOutputs": 1,
+      "isActive": true,
+      "logoUrl": "/logos/recraft.png",
+      "modelFamily": "Recraft",
+      "variantName": "Crisp Image Upscale",
+      "displayOrderInFamily": 2
+    },
+    "schema": {
+      "type": "object",
+      "properties": {
+        "image": {
+          "type": "string",
+          "description": "Image to upscale. Accepted types: image/jpeg, image/png, image/webp; Max size: 10.0MB",
+          "renderer": "image"
+        }
+      },
+      "required": [
+        "image"
+      ],
+      "imageInputField": "image",
+      "x-order": [
+        "image"
+      ]
+    },
+    "validation": [
+      {
+        "field": "image",
+        "rule": "required",
+        "message": "Image is required"
+      }
+    ],
+    "payload": {
+      "fields": [
+        {
+          "key": "image",
+          "from": "image"
+        }
+      ]
+    },
+    "execution": {
+      "imageField": "image",
+      "defaultPrompt": "Upscale image"
+    }
+  },
+  {
+    "source": "src/lib/models/manifests/image_editing/Remove_Background_kie_ai.json",
+    "config": {
+      "modelId": "recraft/remove-background",
+      "recordId": "58b8b09f-57fd-42e3-ae2d-689e9ea3064d",
+      "modelName": "Remove Background",
+      "provider": "kie_ai",
+      "contentType": "image_editing",
+      "use_api_key": "KIE_AI_API_KEY_IMAGE_EDITING",
+      "baseCreditCost": 0.5,
+      "estimatedTimeSeconds": 20,
+      "costMultipliers": {},
+      "apiEndpoint": "/api/v1/jobs/createTask",
+      "payloadStructure": "wrapper",
+      "maxImages": 1,
+      "defaultOutputs": 1,
+      "isActive": true,
+      "logoUrl": "/logos/plum.png",
+      "modelFamily": "Recraft",
+      "variantName": "Remove Background",
+      "displayOrderInFamily": 2
+    },
+    "schema": {
+      "type": "object",
+      "imageInputField": "image",
+      "properties": {
+        "image": {
+          "renderer": "image",
+          "type": "string"
+        }
+      },
+      "required": [
+        "image"
+      ]
+    },
+    "validation": [
+      {
+        "field": "image",
+        "rule": "required",
+        "message": "Image required"
+      }
+    ],
+    "payload": {
+      "wrapper": {
+        "modelKey": "modelId",
+        "inputKey": "input"
+      },
+      "fields": [
+        {
+          "key": "image",
+          "from": "image"
+        }
+      ]
+    },
+    "execution": {
+      "imageField": "image",
+      "defaultPrompt": "Remove background"
+    }
+  },
+  {
+    "source": "src/lib/models/manifests/image_editing/Remove_Background_runware.json",
+    "config": {
+      "modelId": "runware:110@1",
+      "recordId": "d1d8b152-e123-4375-8f55-c0d0a699009b",
+      "modelName": "Remove Background",
+      "provider": "runware",
+      "contentType": "image_editing",
+      "use_api_key": "RUNWARE_API_KEY_IMAGE_EDITING",
+      "baseCreditCost": 0.06,
+      "estimatedTimeSeconds": 15,
+      "costMultipliers": {},
+      "apiEndpoint": "$api.RUNWARE",
+      "payloadStructure": "flat",
+      "maxImages": 1,
+      "defaultOutputs": 1,
+      "isActive": true,
+      "logoUrl": "$brand.logoPath",
+      "modelFamily": "Artifio",
+      "variantName": "Remove Background",
+      "displayOrderInFamily": 2
+    },
+    "schema": {
+      "type": "object",
+      "imageInputField": "inputImage",
+      "properties": {
+        "includeCost": {
+          "default": true,
+          "showToUser": false,
+          "type": "boolean"
+        },
+        "inputImage": {
+          "renderer": "image",
+          "type": "string"
+        },
+        "outputFormat": {
+          "default": "PNG",
+          "enum": [
+            "PNG",
+            "JPEG",
+            "WEBP"
+          ],
+          "type": "string"
+        },
+        "outputType": {
+          "default": [
+            "URL"
+          ],
+          "items": {
+            "format": "uri",
+            "type": "string"
+          },
+          "showToUser": false,
+          "type": "array"
+        },
+        "taskType": {
+          "default": "imageBackgroundRemoval",
+          "showToUser": false,
+          "type": "string"
+        }
+      },
+      "required": [
+        "inputImage"
+      ]
+    },
+    "validation": [
+      {
+        "field": "inputImage",
+        "rule": "required",
+        "message": "Image required"
+      }
+    ],
+    "payload": {
+      "fields": [
+        {
+          "key": "taskType",
+          "value": "imageBackgroundRemoval"
+        },
+        {
+          "key": "inputImage",
+          "from": "inputImage"
+        },
+        {
+          "key": "outputFormat",
+          "from": "outputFormat",
+          "value": "PNG"
+        },
+        {
+          "key": "outputType",
+          "value": [
+            "URL"
+          ]
+        },
+        {
+          "key": "includeCost",
+          "value": true
+        }
+      ]
+    },
+    "execution": {
+      "imageField": "inputImage",
+      "defaultPrompt": "Remove background"
+    }
+  },
+  {
+    "source": "src/lib/models/manifests/image_to_video/Kling_V2_Standard.json",
+    "config": {
+      "modelId": "kling/v2-1-standard",
+      "recordId": "88e09730-07e0-4481-bda8-d9d9bde9fec6",
+      "modelName": "Kling V2.1 Standard",
+      "provider": "kie_ai",
+      "contentType": "image_to_video",
+      "use_api_key": "KIE_AI_API_KEY_IMAGE_TO_VIDEO",
+      "baseCreditCost": 12.5,
+      "estimatedTimeSeconds": 300,
+      "costMultipliers": {
+        "duration": {
+          "5": 1,
+          "10": 2
+        }
+      },
+      "apiEndpoint": "/api/v1/jobs/createTask",
+      "payloadStructure": "wrapper",
+      "maxImages": 1,
+      "maxFileSize": 10485760,
+      "defaultOutputs": 1,
+      "isActive": true,
+      "logoUrl": "/logos/kling.png",
+      "modelFamily": "Kling",
+      "variantName": "Kling V2.1 Standard",
+      "displayOrderInFamily": 1
+    },
+    "schema": {
+      "type": "object",
+      "imageInputField": "image_url",
+      "properties": {
+        "prompt": {
+          "maxLength": 5000,
+          "renderer": "prompt",
+          "type": "string",
+          "description": "Text prompt describing the desired video content"
+        },
+        "image_url": {
+          "type": "string",
+          "format": "uri",
+          "title": "Image",
+          "description": "URL of image for video generation. Formats: jpeg, png, webp (max 10MB)",
+          "renderer": "image"
+        },
+        "duration": {
+          "default": "5",
+          "enum": [
+            "5",
+            "10"
+          ],
+          "enumLabels": {
+            "5": "5 seconds",
+            "10": "10 seconds"
+          },
+          "type": "string"
+        },
+        "negative_prompt": {
+          "default": "blur, distort, and low quality",
+          "maxLength": 500,
+          "type": "string",
+          "description": "Elements to avoid in the generated video"
+        },
+        "cfg_scale": {
+          "type": "number",
+          "minimum": 0,
+          "maximum": 1,
+          "step": 0.1,
+          "default": 0.5,
+          "title": "CFG Scale",
+          "description": "How closely to follow the prompt (0-1)",
+          "showToUser": false
+        }
+      },
+      "required": [
+        "prompt",
+        "image_url"
+      ]
+    },
+    "validation": [
+      {
+        "field": "prompt",
+        "rule": "required",
+        "message": "Prompt required"
+      },
+      {
+        "field": "image_url",
+        "rule": "required",
+        "message": "Image required"
+      },
+      {
+        "field": "prompt",
+        "rule": "maxLength",
+        "value": 5000,
+        "message": "Prompt must be 5000 characters or less"
+      },
+      {
+        "field": "negative_prompt",
+        "rule": "maxLength",
+        "value": 500,
+        "message": "Negative prompt must be 500 characters or less"
+      }
+    ],
+    "payload": {
+      "wrapper": {
+        "modelKey": "model",
+        "inputKey": "input"
+      },
+      "fields": [
+        {
+          "key": "prompt",
+          "from": "prompt"
+        },
+        {
+          "key": "image_url",
+          "from": "image_url"
+        },
+        {
+          "key": "duration",
+          "from": "duration",
+          "value": "5"
+        },
+        {
+          "key": "negative_prompt",
+          "from": "negative_prompt",
+          "when": "truthy"
+        },
+        {
+          "key": "cfg_scale",
+          "from": "cfg_scale",
+          "when": "defined"
+        }
+      ]
+    },
+    "pricing": {
+      "multipliers": [
+        {
+          "param": "duration",
+          "default": "5"
+        }
+      ]
+    },
+    "execution": {
+      "imageField": "image_url"
+    }
+  },
+  {
+    "source": "src/lib/models/manifests/prompt_to_video/Kling_V2_Standard.json",
+    "config": {
+      "modelId": "kling/v2-standard",
+      "recordId": "e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b",
+      "modelName": "Kling V2.1 Standard",
+      "provider": "kie_ai",
+      "contentType": "prompt_to_video",
+      "use_api_key": "KIE_AI_API_KEY_PROMPT_TO_VIDEO",
+      "baseCreditCost": 12.5,
+      "estimatedTimeSeconds": 180,
+      "costMultipliers": {
+        "duration": {
+          "5": 1,
+          "10": 2
+        }
+      },
+      "apiEndpoint": "/api/v1/jobs/createTask",
+      "payloadStructure": "wrapper",
+      "maxImages": 0,
+      "defaultOutputs": 1,
+      "isActive": true,
+      "logoUrl": "/logos/kling.png",
+      "modelFamily": "Kling",
+      "variantName": "Kling V2.1 Standard",
+      "displayOrderInFamily": 2
+    },
+    "schema": {
+      "type": "object",
+      "properties": {
+        "aspect_ratio": {
+          "default": "16:9",
+          "enum": [
+            "16:9",
+            "9:16",
+            "1:1"
+          ],
+          "type": "string"
+        },
+        "duration": {
+          "default": "5",
+          "enum": [
+            "5",
+            "10"
+          ],
+          "type": "string"
+        },
+        "prompt": {
+          "maxLength": 5000,
+          "renderer": "prompt",
+          "type": "string"
+        }
+      },
+      "required": [
+        "prompt"
+      ]
+    },
+    "validation": [
+      {
+        "field": "prompt",
+        "rule": "required",
+        "message": "Prompt required"
+      }
+    ],
+    "payload": {
+      "wrapper": {
+        "modelKey": "modelId",
+        "inputKey": "input"
+      },
+      "fields": [
+        {
+          "key": "prompt",
+          "from": "prompt"
+        },
+        {
+          "key": "aspect_ratio",
+          "from": "aspect_ratio",
+          "value": "16:9"
+        },
+        {
+          "key": "duration",
+          "from": "duration",
+          "value": "5"
+        }
+      ]
+    },
+    "pricing": {
+      "multipliers": [
+        {
+          "param": "duration",
+          "default": "5"
+        }
+      ]
+    }
+  }
+];
@@ -10,9 +10,13 @@
  * - settle-generation-credits (credit calculation)
  * 
  * When adding new models, update this file alongside the model file in
- * src/lib/models/locked/
+ * src/lib/models/locked/. Models defined by a manifest in
+ * src/lib/models/manifests/ get their metadata from the compiled manifest
+ * instead.
  */
 
+import { MODEL_MANIFESTS } from "./model-manifests.generated.ts";
+
 export interface ModelMetadata {
   recordId: string;
   modelId: string;
@@ -22,13 +26,26 @@ export interface ModelMetadata {
   baseCreditCost: number;
   estimatedTimeSeconds: number;
   isActive: boolean;
+  perSecondCost?: PerSecondCostRule;
+}
+
+/**
+ * Pricing for models billed on the length of what they render: the seconds
+ * in `secondsParameter`, times the number of items in `countParameter` when
+ * set, at `creditsPerSecond`, rounded up and never below baseCreditCost
+ */
+export interface PerSecondCostRule {
+  secondsParameter: string;
+  defaultSeconds: number;
+  countParameter?: string;
+  creditsPerSecond: number;
 }
 
 /**
  * Static model metadata - extracted from model files
  * Total: 88 models across 5 categories
  */
-export const MODEL_METADATA: Record<string, ModelMetadata> = {
+const LOCKED_MODEL_METADATA: Record<string, ModelMetadata> = {
   // ═══════════════════════════════════════════════════════════════════════════
   // PROMPT TO AUDIO MODELS (8 total)
   // ═══════════════════════════════════════════════════════════════════════════
@@ -136,16 +153,6 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 120,
     isActive: true,
   },
-  "00ef3f28-4fab-4244-b93f-0ba48641fcbd": {
-    recordId: "00ef3f28-4fab-4244-b93f-0ba48641fcbd",
-    modelId: "recraft/crisp-upscale",
-    modelName: "Crisp Image Upscale",
-    provider: "kie_ai",
-    contentType: "image_editing",
-    baseCreditCost: 0.25,
-    estimatedTimeSeconds: 20,
-    isActive: true,
-  },
   "e1f2a3b4-5c6d-7e8f-9a0b-1c2d3e4f5a6b": {
     recordId: "e1f2a3b4-5c6d-7e8f-9a0b-1c2d3e4f5a6b",
     modelId: "flux-2/flex-image-to-image",
@@ -276,26 +283,6 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 25,
     isActive: true,
   },
-  "58b8b09f-57fd-42e3-ae2d-689e9ea3064d": {
-    recordId: "58b8b09f-57fd-42e3-ae2d-689e9ea3064d",
-    modelId: "recraft/remove-background",
-    modelName: "Remove Background",
-    provider: "kie_ai",
-    contentType: "image_editing",
-    baseCreditCost: 0.5,
-    estimatedTimeSeconds: 20,
-    isActive: true,
-  },
-  "d1d8b152-e123-4375-8f55-c0d0a699009b": {
-    recordId: "d1d8b152-e123-4375-8f55-c0d0a699009b",
-    modelId: "runware:110@1",
-    modelName: "Remove Background",
-    provider: "runware",
-    contentType: "image_editing",
-    baseCreditCost: 0.06,
-    estimatedTimeSeconds: 15,
-    isActive: true,
-  },
   "dcd3329b-fafa-4689-b2e4-a08f7832c7ac": {
     recordId: "dcd3329b-fafa-4689-b2e4-a08f7832c7ac",
     modelId: "bytedance/seedream-v4-edit",
@@ -702,6 +689,16 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 30,
     isActive: true,
   },
+  "abcee7ef-63d7-46f2-9e39-918d790f620e": {
+    recordId: "abcee7ef-63d7-46f2-9e39-918d790f620e",
+    modelId: "comfyui/sdxl",
+    modelName: "ComfyUI SDXL",
+    provider: "comfyui",
+    contentType: "prompt_to_image",
+    baseCreditCost: 0.5,
+    estimatedTimeSeconds: 30,
+    isActive: false,
+  },
 
   // ═══════════════════════════════════════════════════════════════════════════
   // IMAGE TO VIDEO MODELS (17 total)
@@ -766,16 +763,6 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 300,
     isActive: true,
   },
-  "88e09730-07e0-4481-bda8-d9d9bde9fec6": {
-    recordId: "88e09730-07e0-4481-bda8-d9d9bde9fec6",
-    modelId: "kling/v2-1-standard",
-    modelName: "Kling V2 Standard",
-    provider: "kie_ai",
-    contentType: "image_to_video",
-    baseCreditCost: 6,
-    estimatedTimeSeconds: 300,
-    isActive: true,
-  },
   "d2c37239-d544-4cce-bd8d-fb48ea44b287": {
     recordId: "d2c37239-d544-4cce-bd8d-fb48ea44b287",
     modelId: "runway-duration-5-generate",
@@ -910,16 +897,6 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 240,
     isActive: true,
   },
-  "e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b": {
-    recordId: "e1f2a3b4-c5d6-7e8f-9a0b-1c2d3e4f5a6b",
-    modelId: "kling/v2-standard",
-    modelName: "Kling V2 Standard",
-    provider: "kie_ai",
-    contentType: "prompt_to_video",
-    baseCreditCost: 18,
-    estimatedTimeSeconds: 180,
-    isActive: true,
-  },
   "7bde9fb9-b16b-47b0-86a7-c0762a1a58e3": {
     recordId: "7bde9fb9-b16b-47b0-86a7-c0762a1a58e3",
     modelId: "runway-duration-5-generate model",
@@ -1542,6 +1519,56 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     estimatedTimeSeconds: 30,
     isActive: true,
   },
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VIDEO ASSEMBLY MODELS (2 total)
+  // ═══════════════════════════════════════════════════════════════════════════
+  "fb0754dc-d121-4ea6-a069-25116a38b946": {
+    recordId: "fb0754dc-d121-4ea6-a069-25116a38b946",
+    modelId: "shotstack/video-assembly",
+    modelName: "Shotstack Video Assembly",
+    provider: "shotstack",
+    contentType: "image_to_video",
+    baseCreditCost: 1,
+    estimatedTimeSeconds: 90,
+    isActive: true,
+    perSecondCost: {
+      secondsParameter: "clip_duration",
+      defaultSeconds: 5,
+      countParameter: "image_urls",
+      creditsPerSecond: 0.2,
+    },
+  },
+  "51b77842-d771-47c8-8502-1e3bd60e5aea": {
+    recordId: "51b77842-d771-47c8-8502-1e3bd60e5aea",
+    modelId: "json2video/video-assembly",
+    modelName: "JSON2Video Video Assembly",
+    provider: "json2video",
+    contentType: "image_to_video",
+    baseCreditCost: 1,
+    estimatedTimeSeconds: 90,
+    isActive: true,
+    perSecondCost: {
+      secondsParameter: "clip_duration",
+      defaultSeconds: 5,
+      countParameter: "image_urls",
+      creditsPerSecond: 0.2,
+    },
+  },
+};
+
+export const MODEL_METADATA: Record<string, ModelMetadata> = {
+  ...LOCKED_MODEL_METADATA,
+  ...Object.fromEntries(MODEL_MANIFESTS.map(({ config }) => [config.recordId, {
+    recordId: config.recordId,
+    modelId: config.modelId,
+    modelName: config.modelName,
+    provider: config.provider,
+    contentType: config.contentType,
+    baseCreditCost: config.baseCreditCost,
+    estimatedTimeSeconds: config.estimatedTimeSeconds,
+    isActive: config.isActive,
+  }])),
 };
 
 /**
@@ -1551,6 +1578,22 @@ export function getModelMetadata(recordId: string): ModelMetadata | undefined {
   return MODEL_METADATA[recordId];
 }
 
+/**
+ * Credits for a generation of a per-second model with these parameters, or
+ * undefined when the model is not priced per second
+ */
+export function calculatePerSecondCost(recordId: string, parameters: Record<string, unknown>): number | undefined {
+  const metadata = MODEL_METADATA[recordId];
+  const rule = metadata?.perSecondCost;
+  if (!rule) return undefined;
+
+  const seconds = Number(parameters[rule.secondsParameter]) || rule.defaultSeconds;
+  const items = rule.countParameter
+    ? (Array.isArray(parameters[rule.countParameter]) ? (parameters[rule.countParameter] as unknown[]).length : 1)
+    : 1;
+  return Math.max(metadata.baseCreditCost, Math.ceil(items * seconds * rule.creditsPerSecond));
+}
+
 /**
  * Get all available model record IDs
  */
@@ -0,0 +1,502 @@
+/**
+ * Narrative Formats
+ *
+ * The structures generate-storyboard can write a script in: a viral story,
+ * a listicle, a how-to, a product ad, a news recap, a comparison, plus any
+ * format admins add to the `narrative_formats` table. A format decides how
+ * many scenes a duration gets, the word budget, what the intro says, the
+ * beats the scenes are grouped into, extra fields the model returns per
+ * scene and the rules the script must follow.
+ *
+ * Admin formats are plain JSON checked by parseNarrativeFormat; one saved
+ * under a built-in id replaces that built-in. Kept import-free (apart from
+ * storyboard-script) so the app can re-export it.
+ */
+
+import { MAX_STORYBOARD_SCENES, getWordBudget, type WordBudget, type WordRate } from './storyboard-script.ts';
+
+/** A run of consecutive scenes with one job in the script */
+export interface FormatBeat {
+  id: string;
+  label: string;
+  guidance: string;
+  /** Scenes the beat spans; the single 'rest' beat takes whatever the others leave */
+  scenes: number | 'rest';
+}
+
+/** A format-specific value the model returns on every scene, kept in `format_fields` */
+export interface FormatSceneField {
+  key: string;
+  description: string;
+  required: boolean;
+}
+
+export interface FormatIntro {
+  /** What each of the two intro lines should say */
+  line1: string;
+  line2: string;
+  /** Share of the total words the intro may use, capped at maxWords */
+  share: number;
+  maxWords: number;
+}
+
+export interface NarrativeFormat {
+  id: string;
+  name: string;
+  description: string;
+  /** Who the model writes as */
+  persona: string;
+  /** What the user prompt asks for */
+  brief: string;
+  /** Seconds of video per scene; the intro takes one slot */
+  secondsPerScene: number;
+  minScenes: number;
+  maxScenes: number;
+  wordsPerSecond: number;
+  intro: FormatIntro;
+  beats: FormatBeat[];
+  sceneFields: FormatSceneField[];
+  rules: string[];
+}
+
+// narrative_formats row, as stored
+export interface NarrativeFormatRow {
+  id: string;
+  name: string;
+  description: string | null;
+  definition: unknown;
+}
+
+export const DEFAULT_NARRATIVE_FORMAT_ID = 'viral-story';
+
+const MAX_BEATS = 10;
+const MAX_SCENE_FIELDS = 8;
+const MAX_RULES = 12;
+
+// Keys the scene JSON already uses
+const RESERVED_SCENE_KEYS = [
+  'voiceOverText', 'voiceOverPart1', 'voiceOverPart2', 'imagePrompt', 'imagePrompt2', 'videoSearchQuery',
+];
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const FIELD_KEY_PATTERN = /^[a-z][a-zA-Z0-9]{0,39}$/;
+
+export const BUILT_IN_NARRATIVE_FORMATS: NarrativeFormat[] = [
+  {
+    id: 'viral-story',
+    name: 'Viral Story',
+    description: 'A hook, a build-up of revelations and a satisfying payoff.',
+    persona: 'You are a viral faceless video creator specializing in engaging, educational content that tells compelling stories.',
+    brief: 'Create a compelling STORY (not just facts) about this topic. Each scene should flow naturally into the next, building curiosity and leading to a satisfying conclusion.',
+    secondsPerScene: 5,
+    minScenes: 2,
+    maxScenes: 23,
+    wordsPerSecond: 2.5,
+    intro: {
+      line1: 'First line - attention-grabbing question or statement',
+      line2: 'Second line - compelling hook that draws viewer in',
+      share: 0.15,
+      maxWords: 20,
+    },
+    beats: [
+      { id: 'hook', label: 'Hook', scenes: 1, guidance: 'Start with a surprising fact or question that grabs attention immediately' },
+      { id: 'build', label: 'Build', scenes: 'rest', guidance: 'Each scene reveals the next piece of the puzzle, flowing naturally from the previous scene\'s content. Be SPECIFIC to your topic and build suspense through the revelation of specific details' },
+      { id: 'payoff', label: 'Payoff', scenes: 1, guidance: 'Satisfying conclusion that ties everything together with a memorable insight' },
+    ],
+    sceneFields: [],
+    rules: [
+      'AVOID CLICHÉS like "what happened next changed everything", "but here\'s the twist", "this is where it gets interesting", "little did they know" - use topic-specific transitions that reference actual content',
+      'NOT a list of disconnected facts, YES a cohesive narrative journey with beginning, middle, and satisfying end',
+      'Use connective language between scenes and build momentum toward the conclusion',
+    ],
+  },
+  {
+    id: 'listicle',
+    name: 'Listicle',
+    description: 'A numbered countdown, one item per scene.',
+    persona: 'You are a short-form video creator who makes punchy, countdown-style list videos.',
+    brief: 'Create a numbered list video about this topic. Every scene presents one item, saving the most surprising one for last.',
+    secondsPerScene: 6,
+    minScenes: 3,
+    maxScenes: 11,
+    wordsPerSecond: 2.5,
+    intro: {
+      line1: 'Title card naming the list, e.g. "5 Ocean Creatures That Glow"',
+      line2: 'One line promising why the list is worth watching to the end',
+      share: 0.12,
+      maxWords: 16,
+    },
+    beats: [
+      { id: 'items', label: 'Items', scenes: 'rest', guidance: 'One list item per scene, counting down, each with one specific fact that makes it stand out' },
+      { id: 'wrap-up', label: 'Wrap-up', scenes: 1, guidance: 'Recap the top item or ask the viewer which item surprised them most' },
+    ],
+    sceneFields: [
+      { key: 'itemTitle', description: 'On-screen title of the list item (2-5 words)', required: true },
+    ],
+    rules: [
+      'Every item scene names exactly one item and says its number ("Number three...")',
+      'Never repeat an item',
+      'Items stand on their own, but keep the countdown moving',
+    ],
+  },
+  {
+    id: 'how-to',
+    name: 'How-To Tutorial',
+    description: 'What you need, the steps in order, then the result.',
+    persona: 'You are a clear, friendly instructor who makes short step-by-step tutorial videos.',
+    brief: 'Create a step-by-step tutorial for this topic that a beginner can follow along with.',
+    secondsPerScene: 6,
+    minScenes: 3,
+    maxScenes: 15,
+    wordsPerSecond: 2.3,
+    intro: {
+      line1: 'Title card naming the result, e.g. "How to Repot a Succulent"',
+      line2: 'What the viewer will be able to do by the end',
+      share: 0.12,
+      maxWords: 16,
+    },
+    beats: [
+      { id: 'prep', label: 'What you need', scenes: 1, guidance: 'The tools, ingredients or prerequisites, all in one scene' },
+      { id: 'steps', label: 'Steps', scenes: 'rest', guidance: 'One concrete action per scene, in the order the viewer performs it' },
+      { id: 'result', label: 'Result', scenes: 1, guidance: 'Show the finished result and give one tip for getting it right' },
+    ],
+    sceneFields: [
+      { key: 'stepTitle', description: 'Imperative on-screen label for the step, e.g. "Loosen the roots"', required: true },
+    ],
+    rules: [
+      'Write steps in the imperative ("Pour", "Cut", "Press")',
+      'Never skip a step the viewer needs to get the result',
+      'Image prompts show hands doing the action of the step',
+    ],
+  },
+  {
+    id: 'product-ad',
+    name: 'Product Ad',
+    description: 'Problem, agitate, solve, then a call to action.',
+    persona: 'You are a direct-response copywriter who writes short, persuasive video ads.',
+    brief: 'Create a video ad for this product or offer that makes the viewer feel the problem and want the solution.',
+    secondsPerScene: 5,
+    minScenes: 4,
+    maxScenes: 12,
+    wordsPerSecond: 2.5,
+    intro: {
+      line1: 'Call out the viewer\'s problem as a question',
+      line2: 'Hint that there is a better way',
+      share: 0.12,
+      maxWords: 16,
+    },
+    beats: [
+      { id: 'problem', label: 'Problem', scenes: 1, guidance: 'Name the pain the viewer has, concretely and in their words' },
+      { id: 'agitate', label: 'Agitate', scenes: 1, guidance: 'Make the cost of the problem vivid: lost time, money or peace of mind' },
+      { id: 'solve', label: 'Solve', scenes: 'rest', guidance: 'Introduce the product as the answer, one benefit per scene with a concrete detail' },
+      { id: 'cta', label: 'Call to action', scenes: 1, guidance: 'Tell the viewer exactly what to do next' },
+    ],
+    sceneFields: [
+      { key: 'onScreenText', description: 'Short overlay text for the scene (max 6 words)', required: false },
+    ],
+    rules: [
+      'Sell benefits, not features',
+      'Do not invent prices, statistics, testimonials or guarantees the topic does not give',
+      'End on the call to action',
+    ],
+  },
+  {
+    id: 'news-recap',
+    name: 'News Recap',
+    description: 'What happened, the key details, and what comes next.',
+    persona: 'You are a news presenter who recaps stories in short, neutral, factual videos.',
+    brief: 'Create a short news recap of this story. Keep it factual and neutral.',
+    secondsPerScene: 5,
+    minScenes: 3,
+    maxScenes: 23,
+    wordsPerSecond: 2.7,
+    intro: {
+      line1: 'The headline in plain words',
+      line2: 'Why it matters to the viewer',
+      share: 0.12,
+      maxWords: 18,
+    },
+    beats: [
+      { id: 'what-happened', label: 'What happened', scenes: 1, guidance: 'The core facts: who, what, when and where' },
+      { id: 'details', label: 'Key details', scenes: 'rest', guidance: 'One development or fact per scene, most important first' },
+      { id: 'whats-next', label: 'What\'s next', scenes: 1, guidance: 'What happens now, or what to watch for' },
+    ],
+    sceneFields: [
+      { key: 'caption', description: 'Lower-third caption summing up the scene (max 8 words)', required: true },
+    ],
+    rules: [
+      'Stay neutral and never present speculation as fact',
+      'Attribute claims ("officials said", "according to the report")',
+      'Do not invent names, numbers or quotes that are not in the topic',
+    ],
+  },
+  {
+    id: 'comparison',
+    name: 'Comparison',
+    description: 'Two options compared round by round, then a verdict.',
+    persona: 'You are a reviewer who makes fair, side-by-side comparison videos.',
+    brief: 'Create a comparison video for this topic that helps the viewer choose between the options.',
+    secondsPerScene: 6,
+    minScenes: 3,
+    maxScenes: 15,
+    wordsPerSecond: 2.5,
+    intro: {
+      line1: 'Title card naming both options, e.g. "Tea vs Coffee"',
+      line2: 'The question the comparison answers',
+      share: 0.12,
+      maxWords: 16,
+    },
+    beats: [
+      { id: 'contenders', label: 'Contenders', scenes: 1, guidance: 'Introduce both options in one scene' },
+      { id: 'rounds', label: 'Rounds', scenes: 'rest', guidance: 'One criterion per scene: how each option does and which wins the round' },
+      { id: 'verdict', label: 'Verdict', scenes: 1, guidance: 'Who should pick which option, not just an overall winner' },
+    ],
+    sceneFields: [
+      { key: 'criterion', description: 'The criterion the scene compares, e.g. "Battery life"', required: true },
+      { key: 'winner', description: 'Which option wins the round, or "tie"', required: false },
+    ],
+    rules: [
+      'Be fair to both options',
+      'Use concrete specifics, not vague praise',
+      'Image prompts show both options side by side where possible',
+    ],
+  },
+];
+
+// ─── Validation ──────────────────────────────────────────────────────────
+
+export interface NarrativeFormatParseResult {
+  format: NarrativeFormat | null;
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Check a format definition, as saved by an admin, and fill in defaults.
+ * `format` is null whenever there are errors.
+ */
+export function parseNarrativeFormat(raw: unknown): NarrativeFormatParseResult {
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    return { format: null, errors: ['Format must be a JSON object'] };
+  }
+
+  const text = (key: string, value: unknown, max: number, fallback?: string): string => {
+    if (fallback !== undefined && (value === undefined || value === '')) return fallback;
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`${key} is required`);
+      return '';
+    }
+    if (value.trim().length > max) errors.push(`${key} must be ${String(max)} characters or less`);
+    return value.trim();
+  };
+
+  const number = (key: string, value: unknown, min: number, max: number, fallback?: number, integer = false): number => {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      errors.push(`${key} must be ${integer ? 'a whole number' : 'a number'}`);
+      return min;
+    }
+    if (value < min || value > max) errors.push(`${key} must be between ${String(min)} and ${String(max)}`);
+    return value;
+  };
+
+  const list = (key: string, value: unknown, max: number): unknown[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`${key} must be a list`);
+      return [];
+    }
+    if (value.length > max) errors.push(`${key} can have at most ${String(max)} entries`);
+    return value;
+  };
+
+  const id = text('id', raw.id, 40);
+  if (id && !SLUG_PATTERN.test(id)) errors.push('id must be lowercase letters, digits and dashes');
+
+  const minScenes = number('minScenes', raw.minScenes, 1, MAX_STORYBOARD_SCENES, undefined, true);
+  const maxScenes = number('maxScenes', raw.maxScenes, 1, MAX_STORYBOARD_SCENES, undefined, true);
+  if (maxScenes < minScenes) errors.push('maxScenes must be at least minScenes');
+
+  const intro = isRecord(raw.intro) ? raw.intro : {};
+  if (!isRecord(raw.intro)) errors.push('intro is required');
+
+  const beats = list('beats', raw.beats, MAX_BEATS).map((beat, index): FormatBeat => {
+    const key = `beats[${String(index)}]`;
+    if (!isRecord(beat)) {
+      errors.push(`${key} must be an object`);
+      return { id: '', label: '', guidance: '', scenes: 1 };
+    }
+    const beatId = text(`${key}.id`, beat.id, 40);
+    if (beatId && !SLUG_PATTERN.test(beatId)) errors.push(`${key}.id must be lowercase letters, digits and dashes`);
+    return {
+      id: beatId,
+      label: text(`${key}.label`, beat.label, 30),
+      guidance: text(`${key}.guidance`, beat.guidance, 500),
+      scenes: beat.scenes === 'rest' ? 'rest' : number(`${key}.scenes`, beat.scenes, 1, MAX_STORYBOARD_SCENES, undefined, true),
+    };
+  });
+
+  if (beats.length === 0) errors.push('beats needs at least one beat');
+  if (beats.filter(beat => beat.scenes === 'rest').length !== 1) {
+    errors.push('Exactly one beat must have "scenes": "rest"');
+  }
+  if (new Set(beats.map(beat => beat.id)).size !== beats.length) errors.push('Beat ids must be unique');
+  const fixedScenes = beats.reduce((sum, beat) => sum + (beat.scenes === 'rest' ? 0 : beat.scenes), 0);
+  if (fixedScenes > minScenes) errors.push('Beats with a fixed scene count need more scenes than minScenes allows');
+
+  const sceneFields = list('sceneFields', raw.sceneFields, MAX_SCENE_FIELDS).map((field, index): FormatSceneField => {
+    const key = `sceneFields[${String(index)}]`;
+    if (!isRecord(field)) {
+      errors.push(`${key} must be an object`);
+      return { key: '', description: '', required: false };
+    }
+    const fieldKey = text(`${key}.key`, field.key, 40);
+    if (fieldKey && !FIELD_KEY_PATTERN.test(fieldKey)) errors.push(`${key}.key must be camelCase letters and digits`);
+    if (RESERVED_SCENE_KEYS.includes(fieldKey)) errors.push(`${key}.key "${fieldKey}" is already used by every scene`);
+    return {
+      key: fieldKey,
+      description: text(`${key}.description`, field.description, 200),
+      required: field.required === true,
+    };
+  });
+  if (new Set(sceneFields.map(field => field.key)).size !== sceneFields.length) errors.push('Scene field keys must be unique');
+
+  const rules = list('rules', raw.rules, MAX_RULES).map((rule, index) => text(`rules[${String(index)}]`, rule, 300));
+
+  const format: NarrativeFormat = {
+    id,
+    name: text('name', raw.name, 60),
+    description: text('description', raw.description, 300, ''),
+    persona: text('persona', raw.persona, 500),
+    brief: text('brief', raw.brief, 500),
+    secondsPerScene: number('secondsPerScene', raw.secondsPerScene, 3, 15, 5),
+    minScenes,
+    maxScenes,
+    wordsPerSecond: number('wordsPerSecond', raw.wordsPerSecond, 1.5, 3.5, 2.5),
+    intro: {
+      line1: text('intro.line1', intro.line1, 200),
+      line2: text('intro.line2', intro.line2, 200),
+      share: number('intro.share', intro.share, 0, 0.5, 0.15),
+      maxWords: number('intro.maxWords', intro.maxWords, 4, 60, 20, true),
+    },
+    beats,
+    sceneFields,
+    rules,
+  };
+
+  return errors.length > 0 ? { format: null, errors } : { format, errors };
+}
+
+/**
+ * A `narrative_formats` row as a format, or null if its definition no longer
+ * validates
+ */
+export function toNarrativeFormat(row: NarrativeFormatRow): NarrativeFormat | null {
+  const definition = isRecord(row.definition) ? row.definition : {};
+  return parseNarrativeFormat({ ...definition, id: row.id, name: row.name, description: row.description ?? '' }).format;
+}
+
+/**
+ * Every format on offer: built-ins (replaced by admin formats of the same id),
+ * then the admin formats
+ */
+export function listNarrativeFormats(custom: NarrativeFormat[]): NarrativeFormat[] {
+  const builtIns = BUILT_IN_NARRATIVE_FORMATS.map(format => custom.find(c => c.id === format.id) ?? format);
+  return [...builtIns, ...custom.filter(c => !BUILT_IN_NARRATIVE_FORMATS.some(format => format.id === c.id))];
+}
+
+export function resolveNarrativeFormat(id: string | null | undefined, custom: NarrativeFormat[]): NarrativeFormat | null {
+  return listNarrativeFormats(custom).find(format => format.id === (id || DEFAULT_NARRATIVE_FORMAT_ID)) ?? null;
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────
+
+/** Scenes a video of `duration` seconds gets, besides the intro */
+export function getFormatSceneCount(format: NarrativeFormat, duration: number): number {
+  const slots = Math.floor(duration / format.secondsPerScene) - 1;
+  return Math.min(format.maxScenes, Math.max(format.minScenes, slots));
+}
+
+export function getFormatWordRate(format: NarrativeFormat): WordRate {
+  return { wordsPerSecond: format.wordsPerSecond, introShare: format.intro.share, maxIntroWords: format.intro.maxWords };
+}
+
+export function getFormatWordBudget(format: NarrativeFormat, duration: number, sceneCount: number): WordBudget {
+  return getWordBudget(duration, sceneCount, getFormatWordRate(format));
+}
+
+/** The beat id of each scene, in order */
+export function planBeats(format: NarrativeFormat, sceneCount: number): string[] {
+  const fixed = format.beats.reduce((sum, beat) => sum + (beat.scenes === 'rest' ? 0 : beat.scenes), 0);
+  const plan = format.beats.flatMap(beat =>
+    Array<string>(beat.scenes === 'rest' ? Math.max(0, sceneCount - fixed) : beat.scenes).fill(beat.id)
+  );
+  // Too few scenes for every fixed beat: keep the opening and the ending
+  while (plan.length > sceneCount) plan.splice(Math.floor(plan.length / 2), 1);
+  return plan;
+}
+
+/**
+ * The NARRATIVE STRUCTURE and FORMAT RULES sections of the system prompt
+ */
+export function buildFormatStructure(format: NarrativeFormat, sceneCount: number): string {
+  const plan = planBeats(format, sceneCount);
+  const lines = format.beats.flatMap(beat => {
+    const first = plan.indexOf(beat.id) + 1;
+    const last = plan.lastIndexOf(beat.id) + 1;
+    if (first === 0) return [];
+    const scenes = first === last ? `Scene ${String(first)}` : `Scenes ${String(first)}-${String(last)}`;
+    return [`- ${scenes}: ${beat.label.toUpperCase()} - ${beat.guidance}`];
+  });
+
+  const rules = format.rules.length > 0
+    ? `\n\nFORMAT RULES (CRITICAL):\n${format.rules.map(rule => `- ${rule}`).join('\n')}`
+    : '';
+
+  return `NARRATIVE STRUCTURE (CRITICAL - ${format.name.toUpperCase()}):\n${lines.join('\n')}${rules}`;
+}
+
+/**
+ * The format's extra keys for the scene object in the OUTPUT FORMAT example
+ */
+export function describeFormatSceneFields(format: NarrativeFormat): string[] {
+  return format.sceneFields.map(field =>
+    `"${field.key}": "${field.description.replace(/"/g, '\'')}${field.required ? '' : ' (optional)'}"`
+  );
+}
+
+const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+/**
+ * The format field values of a scene from the model, accepting snake_case
+ * keys like the rest of the scene
+ */
+export function getFormatFields(format: NarrativeFormat, scene: unknown): Record<string, string> {
+  if (!isRecord(scene)) return {};
+
+  const fields: Record<string, string> = {};
+  for (const { key } of format.sceneFields) {
+    const value = scene[key] ?? scene[toSnakeCase(key)];
+    if (typeof value === 'string' && value.trim()) fields[key] = value.trim();
+    else if (typeof value === 'number' && Number.isFinite(value)) fields[key] = String(value);
+  }
+  return fields;
+}
+
+/**
+ * Required format fields each scene is missing, by scene index. Empty when
+ * every scene is complete.
+ */
+export function findMissingFormatFields(format: NarrativeFormat, scenes: unknown[]): { index: number; keys: string[] }[] {
+  const required = format.sceneFields.filter(field => field.required).map(field => field.key);
+  if (required.length === 0) return [];
+
+  return scenes.flatMap((scene, index) => {
+    const fields = getFormatFields(format, scene);
+    const keys = required.filter(key => !(key in fields));
+    return keys.length > 0 ? [{ index, keys }] : [];
+  });
+}
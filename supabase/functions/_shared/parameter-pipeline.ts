@@ -0,0 +1,169 @@
+/**
+ * Provider Parameter Pipeline
+ *
+ * How generate-content turns a request's custom_parameters into the
+ * parameters it prices and sends to the provider: unwrap the { model, input }
+ * wrapper, strip "input." key prefixes, filter against the model SCHEMA
+ * (applying defaults and enum checks) and coerce types.
+ *
+ * Import-free so the client registry drift harness runs the same code the
+ * edge function does.
+ */
+
+/** The part of EdgeLogger the pipeline uses */
+export interface PipelineLogger {
+  debug(message: string, context?: { metadata?: Record<string, unknown> }): void;
+}
+
+/**
+ * Lift parameters out of a { model, input } wrapper, keeping other top-level keys
+ */
+export function unwrapProviderInput(parameters: Record<string, unknown>): Record<string, unknown> {
+  if (parameters.input && typeof parameters.input === 'object' && !Array.isArray(parameters.input)) {
+    const inputParams = parameters.input as Record<string, unknown>;
+    const { model: _model, input: _input, ...otherTopLevel } = parameters;
+    return { ...inputParams, ...otherTopLevel };
+  }
+  return parameters;
+}
+
+/**
+ * Runware payloads prepared by the locked file already carry their final
+ * dimensions, so SCHEMA defaults must not be re-applied on top
+ */
+export function isPreparedRunwarePayload(provider: string, parameters: Record<string, unknown>): boolean {
+  return provider === 'runware' &&
+    typeof parameters?.taskType === 'string' && typeof parameters?.model === 'string' &&
+    (parameters?.width !== undefined || parameters?.height !== undefined);
+}
+
+/**
+ * API control parameters that models can pass but aren't user-facing schema fields
+ */
+export const API_CONTROL_PARAMS = [
+  'taskType', 'model', 'version', 'apiVersion',
+  'width', 'height',
+  'outputType', 'outputFormat', 'outputQuality',
+  'includeCost', 'safety',
+  'providerSettings',
+  'frameImages',
+];
+
+/**
+ * Validate and filter parameters against schema
+ */
+export function validateAndFilterParameters(
+  parameters: Record<string, unknown>,
+  schema: { properties?: Record<string, unknown> },
+  options: { applyDefaults?: boolean } = {},
+  logger?: PipelineLogger
+): Record<string, unknown> {
+  if (!schema?.properties) return parameters;
+
+  const applyDefaults = options.applyDefaults !== false;
+  const allowedKeys = Object.keys(schema.properties);
+  const filtered: Record<string, unknown> = {};
+  const appliedDefaults: string[] = [];
+
+  for (const key of allowedKeys) {
+    const schemaProperty = schema.properties[key] as {
+      enum?: unknown[];
+      default?: unknown;
+      type?: string;
+      [key: string]: unknown;
+    };
+    const candidateValue = parameters[key];
+
+    // Validate enum values
+    if (schemaProperty?.enum && Array.isArray(schemaProperty.enum)) {
+      if (candidateValue === "" || candidateValue === undefined || candidateValue === null) {
+        if (applyDefaults && schemaProperty.default !== undefined) {
+          filtered[key] = schemaProperty.default;
+          appliedDefaults.push(`${key}=${JSON.stringify(schemaProperty.default)} (was empty)`);
+        }
+      }
+      else if (!schemaProperty.enum.includes(candidateValue)) {
+        if (applyDefaults && schemaProperty.default !== undefined) {
+          filtered[key] = schemaProperty.default;
+          appliedDefaults.push(`${key}=${JSON.stringify(schemaProperty.default)} (invalid: ${JSON.stringify(candidateValue)})`);
+        } else {
+          const error = `Invalid parameter '${key}'. Value '${candidateValue}' is not in allowed values: ${schemaProperty.enum.join(', ')}`;
+          throw new Error(error);
+        }
+      }
+      else {
+        filtered[key] = candidateValue;
+      }
+    }
+    else if (candidateValue !== undefined && candidateValue !== null && candidateValue !== '') {
+      filtered[key] = candidateValue;
+    }
+    else if (applyDefaults && schemaProperty?.default !== undefined) {
+      filtered[key] = schemaProperty.default;
+      appliedDefaults.push(`${key}=${JSON.stringify(schemaProperty.default)}`);
+    }
+  }
+
+  // Preserve API control parameters
+  for (const controlParam of API_CONTROL_PARAMS) {
+    if (controlParam in parameters && parameters[controlParam] !== undefined) {
+      filtered[controlParam] = parameters[controlParam];
+    }
+  }
+
+  if (logger) {
+    logger.debug('Parameters filtered from schema', {
+      metadata: {
+        original_keys: Object.keys(parameters).length,
+        filtered_keys: Object.keys(filtered).length,
+        defaults_applied: appliedDefaults.length,
+        defaults_enabled: applyDefaults
+      }
+    });
+  }
+
+  return filtered;
+}
+
+/**
+ * Coerce parameter types based on schema
+ */
+export function coerceParametersBySchema(
+  params: Record<string, unknown>,
+  schema: { properties?: Record<string, unknown> }
+): Record<string, unknown> {
+  if (!schema?.properties) return params;
+  const coerced: Record<string, unknown> = {};
+  
+  for (const [key, val] of Object.entries(params)) {
+    const prop = schema.properties[key] as { type?: string } | undefined;
+    if (!prop) { coerced[key] = val; continue; }
+    const t = prop.type;
+    if (t === 'boolean') {
+      coerced[key] = typeof val === 'boolean' ? val : String(val) === 'true';
+    } else if (t === 'integer') {
+      const n = typeof val === 'number' ? val : parseInt(String(val), 10);
+      coerced[key] = Number.isNaN(n) ? val : n;
+    } else if (t === 'number') {
+      const n = typeof val === 'number' ? val : parseFloat(String(val));
+      coerced[key] = Number.isNaN(n) ? val : n;
+    } else if (t === 'array') {
+      coerced[key] = Array.isArray(val) ? val : [val];
+    } else {
+      coerced[key] = val;
+    }
+  }
+  return coerced;
+}
+
+/**
+ * Normalize parameter keys by stripping "input." prefix
+ */
+export function normalizeParameterKeys(params: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(params || {})) {
+    const normalizedKey = key.startsWith('input.') ? key.substring(6) : key;
+    normalized[normalizedKey] = value;
+  }
+  return normalized;
+}
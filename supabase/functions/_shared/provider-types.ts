@@ -5,6 +5,8 @@
  * Eliminates scattered definitions across edge functions.
  */
 
+import type { ComfyWorkflowTemplate } from "./comfy-workflow.ts";
+
 export interface SchemaProperty {
   type: string;
   enum?: unknown[];
@@ -31,6 +33,7 @@ export interface ProviderRequest {
   payload_structure?: string;
   uploadEndpoint?: string;
   input_schema?: InputSchema;
+  comfy_workflow?: ComfyWorkflowTemplate;
 }
 
 export interface ProviderResponse {
@@ -41,6 +44,16 @@ export interface ProviderResponse {
   storage_path?: string;
 }
 
+/**
+ * Progress reported by providers that run synchronously inside the request
+ */
+export interface ProviderProgress {
+  percent: number;
+  stage?: string;
+}
+
+export type ProviderProgressCallback = (progress: ProviderProgress) => Promise<void>;
+
 /**
  * Type guard for InputSchema
  */
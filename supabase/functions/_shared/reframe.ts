@@ -0,0 +1,243 @@
+/**
+ * Smart Reframe
+ *
+ * Turns a finished video into other aspect ratios by panning a crop window
+ * over it. The window follows a path of subject positions - tracked in the
+ * editor, where manual keyframes override the tracking - and each target
+ * ratio becomes a one-clip Shotstack edit whose offsets tween along the
+ * path. Shared by reframe-video and the editor's reframe dialog.
+ *
+ * Only imports other import-free modules, so the client can use it too.
+ */
+
+import { getExportCredits } from "./export-formats.ts";
+import type { RenderClip, RenderTween } from "./render-backends.ts";
+
+export type ReframeAspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '21:9';
+
+// Same output sizes as editor renders (ASPECT_RATIO_DIMENSIONS)
+export const REFRAME_SIZES: Record<ReframeAspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '21:9': { width: 2560, height: 1080 },
+};
+
+export const MAX_REFRAME_TARGETS = 4;
+export const MAX_REFRAME_SECONDS = 10 * 60;
+export const MAX_REFRAME_KEYFRAMES = 600;
+
+// Manual keyframes replace tracked ones this close to them
+export const MANUAL_KEYFRAME_SECONDS = 1;
+
+export function isReframeAspectRatio(value: unknown): value is ReframeAspectRatio {
+  return typeof value === 'string' && value in REFRAME_SIZES;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// Where the subject is at a moment, as fractions of the source frame
+export interface ReframeKeyframe {
+  time: number; // seconds
+  x: number; // 0-1 from the left
+  y: number; // 0-1 from the top
+  manual?: boolean; // placed by hand rather than tracked
+}
+
+// One tracker reading; confidence 0-1
+export interface TrackingSample {
+  time: number;
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+// Part of the source shown in the target frame, as fractions of the source
+export interface CropWindow {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/** Cost of reframing `duration` seconds into each of `targets` ratios - an MP4 render per ratio */
+export function getReframeCredits(duration: number, targets: number): number {
+  return round(getExportCredits('mp4', duration) * targets);
+}
+
+/** Subject position at a time, moving linearly between keyframes and holding at the ends */
+export function getPathPoint(path: ReframeKeyframe[], time: number): { x: number; y: number } {
+  if (path.length === 0) return { x: 0.5, y: 0.5 };
+  const nextIndex = path.findIndex(k => k.time > time);
+  if (nextIndex === 0) return { x: path[0].x, y: path[0].y };
+  const previous = path[(nextIndex === -1 ? path.length : nextIndex) - 1];
+  const next = nextIndex === -1 ? undefined : path[nextIndex];
+  if (!next) return { x: previous.x, y: previous.y };
+  const progress = (time - previous.time) / (next.time - previous.time);
+  return {
+    x: previous.x + (next.x - previous.x) * progress,
+    y: previous.y + (next.y - previous.y) * progress,
+  };
+}
+
+/**
+ * The largest window of the target's shape that fits the source, centred on
+ * the subject as far as the source edges allow
+ */
+export function getCropWindow(source: FrameSize, target: FrameSize, centre: { x: number; y: number }): CropWindow {
+  const ratio = (target.width / target.height) / (source.width / source.height);
+  const width = Math.min(1, ratio);
+  const height = Math.min(1, 1 / ratio);
+  return {
+    left: round(clamp(centre.x - width / 2, 0, 1 - width)),
+    top: round(clamp(centre.y - height / 2, 0, 1 - height)),
+    width: round(width),
+    height: round(height),
+  };
+}
+
+// Moving-average window and how far the subject moves before the frame follows
+const SMOOTHING_SAMPLES = 2; // either side
+const DEAD_ZONE = 0.08;
+const MIN_CONFIDENCE = 0.2;
+
+/**
+ * Turn tracker readings into a calm camera path: unsure readings are
+ * dropped, the rest smoothed, and the frame holds still until the subject
+ * moves out of a dead zone, then pans to it
+ */
+export function smoothTrackingSamples(samples: TrackingSample[]): ReframeKeyframe[] {
+  const confident = [...samples].sort((a, b) => a.time - b.time).filter(s => s.confidence >= MIN_CONFIDENCE);
+  if (confident.length === 0) return [];
+
+  const smoothed = confident.map((sample, i) => {
+    const window = confident.slice(Math.max(0, i - SMOOTHING_SAMPLES), i + SMOOTHING_SAMPLES + 1);
+    return {
+      time: sample.time,
+      x: window.reduce((sum, s) => sum + s.x, 0) / window.length,
+      y: window.reduce((sum, s) => sum + s.y, 0) / window.length,
+    };
+  });
+
+  const path: ReframeKeyframe[] = [{ time: round(smoothed[0].time), x: round(smoothed[0].x), y: round(smoothed[0].y) }];
+  for (let i = 1; i < smoothed.length; i++) {
+    const held = path[path.length - 1];
+    const point = smoothed[i];
+    if (Math.hypot(point.x - held.x, point.y - held.y) <= DEAD_ZONE) continue;
+    // Hold until the previous reading, then pan
+    const previous = smoothed[i - 1];
+    if (previous.time > held.time) path.push({ time: round(previous.time), x: held.x, y: held.y });
+    path.push({ time: round(point.time), x: round(point.x), y: round(point.y) });
+  }
+  return path;
+}
+
+/** Tracked keyframes with the manual ones laid over them */
+export function mergeManualKeyframes(tracked: ReframeKeyframe[], manual: ReframeKeyframe[]): ReframeKeyframe[] {
+  const kept = tracked.filter(k => !manual.some(m => Math.abs(m.time - k.time) < MANUAL_KEYFRAME_SECONDS));
+  return [...kept, ...manual.map(m => ({ ...m, manual: true }))].sort((a, b) => a.time - b.time);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check a reframe path from an untrusted client: keyframes in time order
+ * within the video, positions inside the frame
+ */
+export function validateReframePath(value: unknown, duration: number): { path: ReframeKeyframe[] } | { error: string } {
+  if (!Array.isArray(value)) return { error: 'Reframe path must be a list of keyframes' };
+  if (value.length > MAX_REFRAME_KEYFRAMES) return { error: `At most ${MAX_REFRAME_KEYFRAMES} reframe keyframes are allowed` };
+
+  const path: ReframeKeyframe[] = [];
+  for (const item of value as Array<Record<string, unknown>>) {
+    const { time, x, y, manual } = item ?? {};
+    if (!isNumber(time) || !isNumber(x) || !isNumber(y) || time < 0 || time > duration || x < 0 || x > 1 || y < 0 || y > 1) {
+      return { error: 'Invalid reframe keyframe' };
+    }
+    if (path.length > 0 && time <= path[path.length - 1].time) return { error: 'Reframe keyframes must be in time order' };
+    path.push({ time, x, y, ...(manual === true ? { manual: true } : {}) });
+  }
+  return { path };
+}
+
+// Shotstack edit for one reframed ratio
+export interface ReframeEdit {
+  timeline: {
+    background: string;
+    tracks: Array<{ clips: RenderClip[] }>;
+  };
+  output: {
+    format: 'mp4';
+    aspectRatio: ReframeAspectRatio;
+    fps: number;
+    size: FrameSize;
+  };
+}
+
+export interface ReframeSourceVideo extends FrameSize {
+  src: string;
+  duration: number;
+}
+
+/**
+ * One-clip edit that covers the target frame with the source and pans it
+ * along the path. Shotstack offsets are fractions of the output frame from
+ * its centre, y up; each is clamped so the video always fills the frame.
+ */
+export function buildReframeEdit(
+  source: ReframeSourceVideo,
+  aspectRatio: ReframeAspectRatio,
+  path: ReframeKeyframe[],
+  fps = 30
+): ReframeEdit {
+  const size = REFRAME_SIZES[aspectRatio];
+  const coverScale = Math.max(size.width / source.width, size.height / source.height);
+  const shownWidth = source.width * coverScale;
+  const shownHeight = source.height * coverScale;
+  const maxX = (shownWidth - size.width) / 2 / size.width;
+  const maxY = (shownHeight - size.height) / 2 / size.height;
+
+  const offsetAt = (point: { x: number; y: number }) => ({
+    x: round(clamp(-(point.x - 0.5) * shownWidth / size.width, -maxX, maxX)) || 0,
+    y: round(clamp((point.y - 0.5) * shownHeight / size.height, -maxY, maxY)) || 0,
+  });
+
+  // Keyframes inside the clip, plus its ends
+  const times = [...new Set([0, ...path.map(k => k.time).filter(t => t > 0 && t < source.duration), source.duration])];
+  const offsets = times.map(time => offsetAt(getPathPoint(path, time)));
+
+  const channel = (axis: 'x' | 'y'): number | RenderTween[] => {
+    if (offsets.every(o => o[axis] === offsets[0][axis])) return offsets[0][axis];
+    return times.slice(0, -1).map((time, i) => ({
+      from: offsets[i][axis],
+      to: offsets[i + 1][axis],
+      start: round(time),
+      length: round(times[i + 1] - time),
+      interpolation: 'linear',
+    }));
+  };
+
+  return {
+    timeline: {
+      background: '#000000',
+      tracks: [{
+        clips: [{
+          asset: { type: 'video', src: source.src, volume: 1 },
+          start: 0,
+          length: round(source.duration),
+          fit: 'crop',
+          offset: { x: channel('x'), y: channel('y') },
+        }],
+      }],
+    },
+    output: { format: 'mp4', aspectRatio, fps, size },
+  };
+}
@@ -16,6 +16,7 @@ import {
   modelExists as checkModelExists,
   getModelsByContentType as filterByContentType,
   getModelsByProvider as filterByProvider,
+  calculatePerSecondCost,
   type ModelMetadata 
 } from '../model-metadata.ts';
 
@@ -88,4 +89,4 @@ export function getModelsByProvider(provider: string): ModelMetadata[] {
 }
 
 // Re-export types and metadata for convenience
-export { MODEL_METADATA, type ModelMetadata };
+export { MODEL_METADATA, calculatePerSecondCost, type ModelMetadata };
@@ -0,0 +1,543 @@
+/**
+ * Render Backends
+ *
+ * Video editor renders go either to Shotstack or to the self-hosted FFmpeg
+ * worker (scripts/ffmpeg-render-worker.ts). Both consume the same Shotstack
+ * edit: this module decides which backend a job runs on and compiles an
+ * edit into an FFmpeg command for the worker, in any export format.
+ *
+ * The worker covers cut-and-fade edits: trimmed, scaled and cropped video
+ * and image clips, the FFMPEG_TRANSITIONS, a soundtrack and clip audio.
+ * Out of scope for FFmpeg, and rendered by Shotstack only:
+ * - captions and burned-in subtitles
+ * - zoom, wipe and other transitions outside FFMPEG_TRANSITIONS
+ * - keyframe animation of offset, scale, opacity or rotation
+ * - storyboard renders, which JSON2Video renders from its own templates
+ * getFfmpegUnsupportedFeatures names these, so `auto` keeps such edits on
+ * Shotstack and an explicit `ffmpeg` request for them is refused.
+ *
+ * Only imports other import-free modules, so it can be unit tested without
+ * FFmpeg or provider credentials.
+ */
+
+import {
+  EXPORT_FORMATS,
+  MAX_POSTER_SHEET_FRAMES,
+  isExportFormat,
+  resolveExportOptions,
+  type ExportFormat,
+  type ExportOptions,
+} from "./export-formats.ts";
+
+export type RenderBackend = 'shotstack' | 'ffmpeg';
+
+export const RENDER_BACKENDS: readonly RenderBackend[] = ['shotstack', 'ffmpeg'];
+
+export function isRenderBackend(backend: string): backend is RenderBackend {
+  return (RENDER_BACKENDS as readonly string[]).includes(backend);
+}
+
+// ─── Shotstack edit (the subset the editor emits) ────────────────────────────
+
+export interface RenderTween {
+  from: number;
+  to: number;
+  start: number;
+  length: number;
+  interpolation?: string;
+  easing?: string;
+}
+
+type RenderValue = number | RenderTween[];
+
+export interface RenderClip {
+  asset: {
+    type: string;
+    src?: string; // every asset type except html
+    html?: string; // burned-in subtitles, which only Shotstack renders
+    volume?: number;
+    trim?: number;
+    crop?: { top: number; bottom: number; left: number; right: number };
+  };
+  start: number;
+  length: number | 'end' | 'auto';
+  transition?: { in?: string; out?: string };
+  fit?: 'cover' | 'contain' | 'crop' | 'none';
+  offset?: { x?: RenderValue; y?: RenderValue };
+  scale?: RenderValue;
+  opacity?: RenderValue;
+  transform?: { rotate?: { angle: RenderValue } };
+}
+
+export interface RenderEdit {
+  timeline: {
+    tracks: Array<{ clips: RenderClip[] }>;
+    background?: string;
+    soundtrack?: { src: string; effect?: string; volume?: number };
+  };
+  output: {
+    fps: number;
+    size?: { width: number; height: number };
+  };
+}
+
+// ─── Backend selection ───────────────────────────────────────────────────────
+
+// Transitions the FFmpeg worker reproduces; zooms and wipes need Shotstack
+const FFMPEG_TRANSITIONS = ['fade', 'fadeBlack', 'fadeWhite', 'slideLeft', 'slideRight', 'slideUp', 'slideDown'];
+
+const transitionBase = (name: string): string => name.replace(/(Fast|Slow)$/, '');
+
+const isAnimated = (value: RenderValue | undefined): boolean => Array.isArray(value);
+
+/**
+ * Features of an edit the FFmpeg worker can't render, as readable reasons.
+ * Empty when the worker can render the edit. Audio-only exports ignore
+ * everything visual.
+ */
+export function getFfmpegUnsupportedFeatures(edit: RenderEdit, format: ExportFormat = 'mp4'): string[] {
+  const { hasVideo } = EXPORT_FORMATS[format];
+  const reasons = new Set<string>();
+  for (const track of edit.timeline.tracks) {
+    for (const clip of track.clips) {
+      if (clip.asset.type === 'caption') {
+        if (hasVideo) reasons.add('auto-generated captions');
+        continue;
+      }
+      if (clip.asset.type === 'html') {
+        if (hasVideo) reasons.add('burned-in subtitles');
+        continue;
+      }
+      if (!['video', 'image', 'audio'].includes(clip.asset.type)) {
+        reasons.add(`${clip.asset.type} assets`);
+      }
+      if (typeof clip.length !== 'number') {
+        reasons.add('clips without a fixed length');
+      }
+      if (!hasVideo) continue;
+      for (const name of [clip.transition?.in, clip.transition?.out]) {
+        if (name && !FFMPEG_TRANSITIONS.includes(transitionBase(name))) {
+          reasons.add(`the ${transitionBase(name)} transition`);
+        }
+      }
+      if (
+        isAnimated(clip.offset?.x) || isAnimated(clip.offset?.y) || isAnimated(clip.scale) ||
+        isAnimated(clip.opacity) || isAnimated(clip.transform?.rotate?.angle)
+      ) {
+        reasons.add('keyframe animation');
+      }
+    }
+  }
+  return [...reasons];
+}
+
+export type RenderBackendSelection =
+  | { backend: RenderBackend }
+  | { backend: null; error: string };
+
+/**
+ * Pick the backend for a job. `auto` sends edits the worker can render to
+ * FFmpeg and everything else to Shotstack; an explicit request for a
+ * backend that can't render the edit or its format is refused rather than
+ * silently rerouted.
+ * @param requested - Backend the client asked for (defaults to shotstack)
+ * @param edit - The Shotstack edit to render
+ * @param ffmpegEnabled - Whether a worker is deployed for this project
+ * @param format - Export format (defaults to mp4)
+ */
+export function selectRenderBackend(
+  requested: string | undefined,
+  edit: RenderEdit,
+  ffmpegEnabled: boolean,
+  format: string = 'mp4'
+): RenderBackendSelection {
+  const choice = requested ?? 'shotstack';
+  if (choice !== 'auto' && !isRenderBackend(choice)) {
+    return { backend: null, error: `Unknown render backend: ${choice}` };
+  }
+  if (!isExportFormat(format)) {
+    return { backend: null, error: `Unknown export format: ${format}` };
+  }
+  const { label, shotstackFormat } = EXPORT_FORMATS[format];
+  if (choice === 'shotstack') {
+    return shotstackFormat
+      ? { backend: 'shotstack' }
+      : { backend: null, error: `${label} export needs local rendering` };
+  }
+
+  const unsupported = getFfmpegUnsupportedFeatures(edit, format);
+  if (choice === 'auto' && shotstackFormat) {
+    return { backend: ffmpegEnabled && unsupported.length === 0 ? 'ffmpeg' : 'shotstack' };
+  }
+  if (!ffmpegEnabled) {
+    return {
+      backend: null,
+      error: choice === 'auto' ? `${label} export needs local rendering, which is not available` : 'Local rendering is not available',
+    };
+  }
+  if (unsupported.length > 0) {
+    return { backend: null, error: `Local rendering doesn't support ${unsupported.join(', ')}` };
+  }
+  return { backend: 'ffmpeg' };
+}
+
+// ─── FFmpeg command ──────────────────────────────────────────────────────────
+
+// Transition and soundtrack fade timings, matching the in-browser preview
+const TRANSITION_SECONDS = 1;
+const SOUNDTRACK_FADE_SECONDS = 2;
+const AUDIO_SAMPLE_RATE = 48000;
+const DEFAULT_SIZE = { width: 1920, height: 1080 };
+
+export interface FfmpegInput {
+  src: string;
+  type: 'video' | 'image' | 'audio';
+  args: string[]; // input options, placed before its -i
+}
+
+export interface FfmpegRenderPlan {
+  inputs: FfmpegInput[];
+  filterComplex: string;
+  outputArgs: string[];
+  outputName: string; // file name, or a numbered pattern for PNG sequences
+  duration: number;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface FfmpegPlanOptions {
+  // Whether a downloaded video has an audio stream; silent videos are left out of the mix
+  hasAudio?: (src: string) => boolean;
+  format?: ExportFormat;
+  exportOptions?: Partial<ExportOptions>;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const num = (value: number): string => String(round(value));
+
+// The worker only renders edits without tweens, so values are plain numbers
+const staticValue = (value: RenderValue | undefined, fallback: number): number =>
+  typeof value === 'number' ? value : fallback;
+
+const ffmpegColor = (color: string | undefined): string =>
+  color && /^#[0-9a-f]{6}$/i.test(color) ? `0x${color.slice(1)}` : 'black';
+
+const transitionSeconds = (name: string, length: number): number => {
+  const seconds = name.endsWith('Fast') ? TRANSITION_SECONDS / 2 : name.endsWith('Slow') ? TRANSITION_SECONDS * 2 : TRANSITION_SECONDS;
+  return Math.min(seconds, length / 2);
+};
+
+// FFmpeg fade filter for fade-style transitions
+const fadeFilter = (name: string, direction: 'in' | 'out', length: number): string | null => {
+  const base = transitionBase(name);
+  const seconds = transitionSeconds(name, length);
+  const start = direction === 'in' ? 0 : length - seconds;
+  const timing = `fade=t=${direction}:st=${num(start)}:d=${num(seconds)}`;
+  if (base === 'fade') return `${timing}:alpha=1`;
+  if (base === 'fadeBlack') return `${timing}:color=black`;
+  if (base === 'fadeWhite') return `${timing}:color=white`;
+  return null;
+};
+
+/**
+ * Overlay position terms for slide transitions. In the overlay filter `W`
+ * and `H` are the frame size and `t` the timeline time.
+ */
+const slideTerms = (clip: RenderClip, length: number): { x: string; y: string } => {
+  const terms = { x: '', y: '' };
+  const add = (name: string | undefined, direction: 'in' | 'out') => {
+    if (!name) return;
+    const base = transitionBase(name);
+    if (!base.startsWith('slide')) return;
+    const seconds = transitionSeconds(name, length);
+    // Hidden fraction: 1 -> 0 while sliding in, 0 -> 1 while sliding out
+    const hidden = direction === 'in'
+      ? `if(lt(t,${num(clip.start + seconds)}),1-(t-${num(clip.start)})/${num(seconds)},0)`
+      : `if(gt(t,${num(clip.start + length - seconds)}),(t-${num(clip.start + length - seconds)})/${num(seconds)},0)`;
+    // Slides keep moving the same way on the way out as on the way in
+    const sign = (base === 'slideLeft' || base === 'slideUp') === (direction === 'in') ? '+' : '-';
+    if (base === 'slideLeft' || base === 'slideRight') terms.x += `${sign}W*${hidden}`;
+    else terms.y += `${sign}H*${hidden}`;
+  };
+  add(clip.transition?.in, 'in');
+  add(clip.transition?.out, 'out');
+  return terms;
+};
+
+const clipLength = (clip: RenderClip): number => (typeof clip.length === 'number' ? clip.length : 0);
+
+/** Length of the edit: the end of its last clip */
+export function getEditDuration(edit: RenderEdit): number {
+  return edit.timeline.tracks.reduce(
+    (end, track) => track.clips.reduce((trackEnd, clip) => Math.max(trackEnd, clip.start + clipLength(clip)), end),
+    0
+  );
+}
+
+/**
+ * Final video filters and output options for each export format. The video
+ * chain ends on `canvas`; `[aout]` is the audio mix when the format has sound.
+ */
+function formatOutput(
+  format: ExportFormat,
+  options: ExportOptions,
+  canvas: string,
+  size: { width: number; height: number; fps: number; duration: number }
+): { filters: string[]; outputArgs: string[]; outputName: string } {
+  const { width, fps, duration } = size;
+  const audioArgs = ['-ar', String(AUDIO_SAMPLE_RATE), '-t', num(duration)];
+
+  switch (format) {
+    case 'webm': {
+      const pixelFormat = options.transparentBackground ? 'yuva420p' : 'yuv420p';
+      return {
+        filters: [`[${canvas}]format=${pixelFormat}[vout]`],
+        outputArgs: [
+          '-map', '[vout]',
+          '-map', '[aout]',
+          '-c:v', 'libvpx-vp9',
+          '-crf', '32',
+          '-b:v', '0',
+          '-row-mt', '1',
+          '-pix_fmt', pixelFormat,
+          '-r', String(fps),
+          '-c:a', 'libopus',
+          '-b:a', '128k',
+          ...audioArgs,
+        ],
+        outputName: 'output.webm',
+      };
+    }
+    case 'gif': {
+      // A palette built from the whole clip keeps colours stable across frames
+      const { gif } = options;
+      return {
+        filters: [
+          `[${canvas}]fps=${String(gif.fps)},scale=${String(gif.width)}:-1:flags=lanczos,split[gif0][gif1]`,
+          `[gif0]palettegen=max_colors=${String(gif.colors)}:stats_mode=diff[palette]`,
+          `[gif1][palette]paletteuse=dither=${gif.dither ? 'sierra2_4a' : 'none'}[vout]`,
+        ],
+        outputArgs: ['-map', '[vout]', '-loop', '0', '-t', num(duration)],
+        outputName: 'output.gif',
+      };
+    }
+    case 'mp3':
+      return {
+        filters: [],
+        outputArgs: ['-map', '[aout]', '-c:a', 'libmp3lame', '-b:a', '192k', ...audioArgs],
+        outputName: 'output.mp3',
+      };
+    case 'wav':
+      return {
+        filters: [],
+        outputArgs: ['-map', '[aout]', '-c:a', 'pcm_s16le', ...audioArgs],
+        outputName: 'output.wav',
+      };
+    case 'png-sequence':
+      return {
+        filters: [`[${canvas}]fps=1/${num(options.frameInterval)}[vout]`],
+        outputArgs: ['-map', '[vout]', '-start_number', '1', '-t', num(duration)],
+        outputName: 'frame-%05d.png',
+      };
+    case 'poster-sheet': {
+      const interval = Math.max(options.frameInterval, duration / MAX_POSTER_SHEET_FRAMES);
+      const frames = Math.max(1, Math.ceil(duration / interval));
+      const columns = Math.min(options.sheetColumns, frames);
+      const rows = Math.ceil(frames / columns);
+      return {
+        filters: [
+          `[${canvas}]fps=1/${num(interval)},scale=${String(Math.floor(width / columns))}:-1,tile=${String(columns)}x${String(rows)}[vout]`,
+        ],
+        outputArgs: ['-map', '[vout]', '-frames:v', '1'],
+        outputName: 'output.png',
+      };
+    }
+    case 'mp4':
+      return {
+        filters: [`[${canvas}]format=yuv420p[vout]`],
+        outputArgs: [
+          '-map', '[vout]',
+          '-map', '[aout]',
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-crf', '20',
+          '-pix_fmt', 'yuv420p',
+          '-r', String(fps),
+          '-c:a', 'aac',
+          '-b:a', '192k',
+          '-movflags', '+faststart',
+          ...audioArgs,
+        ],
+        outputName: 'output.mp4',
+      };
+  }
+}
+
+/**
+ * Compile a Shotstack edit into FFmpeg inputs and a filter graph. Visual
+ * clips are fitted, cropped, scaled, rotated and faded, then overlaid on a
+ * background-colour canvas bottom track first (Shotstack lists the top
+ * track first). Clip audio is delayed to its start and mixed with the
+ * soundtrack at the edit's volumes. Formats without sound skip the audio
+ * graph and audio-only formats skip the visual one.
+ * @throws Error when the edit uses features the worker can't render
+ */
+export function buildFfmpegRenderPlan(edit: RenderEdit, options: FfmpegPlanOptions = {}): FfmpegRenderPlan {
+  const format = options.format ?? 'mp4';
+  const unsupported = getFfmpegUnsupportedFeatures(edit, format);
+  if (unsupported.length > 0) {
+    throw new Error(`Edit can't be rendered with FFmpeg: ${unsupported.join(', ')}`);
+  }
+
+  const spec = EXPORT_FORMATS[format];
+  const exportOptions = resolveExportOptions(options.exportOptions);
+  const hasAudio = options.hasAudio ?? (() => true);
+  const { width, height } = edit.output.size ?? DEFAULT_SIZE;
+  const fps = edit.output.fps;
+  const duration = round(getEditDuration(edit));
+
+  const inputs: FfmpegInput[] = [];
+  const filters: string[] = [];
+  if (spec.hasVideo) {
+    const background = format === 'webm' && exportOptions.transparentBackground
+      ? 'black@0'
+      : ffmpegColor(edit.timeline.background);
+    filters.push(`color=c=${background}:s=${String(width)}x${String(height)}:r=${String(fps)}:d=${num(duration)},format=rgba[base]`);
+  }
+  const audioLabels: string[] = [];
+  let canvas = 'base';
+
+  const clips = [...edit.timeline.tracks].reverse().flatMap(track => track.clips);
+  clips.forEach((clip, index) => {
+    const { asset } = clip;
+    if (asset.type === 'caption' || asset.type === 'html' || !asset.src) return;
+    if (!spec.hasVideo && asset.type === 'image') return;
+    if (!spec.hasAudio && asset.type === 'audio') return;
+
+    const length = clipLength(clip);
+    const trim = asset.trim ?? 0;
+    const input = inputs.length;
+
+    if (asset.type === 'image') {
+      inputs.push({ src: asset.src, type: 'image', args: ['-loop', '1', '-framerate', String(fps), '-t', num(length)] });
+    } else {
+      inputs.push({
+        src: asset.src,
+        type: asset.type === 'audio' ? 'audio' : 'video',
+        args: [...(trim > 0 ? ['-ss', num(trim)] : []), '-t', num(length)],
+      });
+    }
+
+    const volume = asset.volume ?? 1;
+    if (spec.hasAudio && (asset.type === 'audio' || (asset.type === 'video' && hasAudio(asset.src)))) {
+      if (volume > 0) {
+        const delay = Math.round(clip.start * 1000);
+        filters.push(`[${String(input)}:a]asetpts=PTS-STARTPTS,volume=${num(volume)},adelay=${String(delay)}:all=1[a${String(index)}]`);
+        audioLabels.push(`a${String(index)}`);
+      }
+    }
+    if (asset.type === 'audio' || !spec.hasVideo) return;
+
+    const chain = ['setpts=PTS-STARTPTS', 'format=rgba'];
+    const crop = asset.crop;
+    if (crop && (crop.top > 0 || crop.bottom > 0 || crop.left > 0 || crop.right > 0)) {
+      chain.push(`crop=w=iw*${num(1 - crop.left - crop.right)}:h=ih*${num(1 - crop.top - crop.bottom)}:x=iw*${num(crop.left)}:y=ih*${num(crop.top)}`);
+    }
+    const fit = clip.fit ?? 'crop';
+    if (fit !== 'none') {
+      const mode = fit === 'contain' ? 'decrease' : 'increase';
+      chain.push(`scale=w=${String(width)}:h=${String(height)}:force_original_aspect_ratio=${mode}`);
+    }
+    const scale = staticValue(clip.scale, 1);
+    if (scale !== 1) chain.push(`scale=w=iw*${num(scale)}:h=ih*${num(scale)}`);
+    const rotation = staticValue(clip.transform?.rotate?.angle, 0);
+    if (rotation !== 0) {
+      const radians = `${num(rotation)}*PI/180`;
+      chain.push(`rotate=${radians}:c=none:ow=rotw(${radians}):oh=roth(${radians})`);
+    }
+    const opacity = staticValue(clip.opacity, 1);
+    if (opacity !== 1) chain.push(`colorchannelmixer=aa=${num(opacity)}`);
+    for (const [name, direction] of [[clip.transition?.in, 'in'], [clip.transition?.out, 'out']] as const) {
+      const fade = name ? fadeFilter(name, direction, length) : null;
+      if (fade) chain.push(fade);
+    }
+    chain.push(`setpts=PTS+${num(clip.start)}/TB`);
+    filters.push(`[${String(input)}:v]${chain.join(',')}[v${String(index)}]`);
+
+    const slide = slideTerms(clip, length);
+    // Shotstack offsets are fractions of the frame from its centre, y up
+    const x = `(W-w)/2+(${num(staticValue(clip.offset?.x, 0))})*W${slide.x}`;
+    const y = `(H-h)/2-(${num(staticValue(clip.offset?.y, 0))})*H${slide.y}`;
+    const end = clip.start + length;
+    const next = `c${String(index)}`;
+    filters.push(
+      `[${canvas}][v${String(index)}]overlay=x='${x}':y='${y}':eof_action=pass:enable='gte(t,${num(clip.start)})*lt(t,${num(end)})'[${next}]`
+    );
+    canvas = next;
+  });
+
+  const output = formatOutput(format, exportOptions, canvas, { width, height, fps, duration });
+  filters.push(...output.filters);
+
+  const { soundtrack } = edit.timeline;
+  if (soundtrack && spec.hasAudio) {
+    const input = inputs.length;
+    inputs.push({ src: soundtrack.src, type: 'audio', args: ['-t', num(duration)] });
+    const effect = soundtrack.effect ?? '';
+    const chain = [`volume=${num(soundtrack.volume ?? 1)}`];
+    if (effect === 'fadeIn' || effect === 'fadeInFadeOut') {
+      chain.push(`afade=t=in:st=0:d=${num(SOUNDTRACK_FADE_SECONDS)}`);
+    }
+    if (effect === 'fadeOut' || effect === 'fadeInFadeOut') {
+      chain.push(`afade=t=out:st=${num(Math.max(0, duration - SOUNDTRACK_FADE_SECONDS))}:d=${num(SOUNDTRACK_FADE_SECONDS)}`);
+    }
+    filters.push(`[${String(input)}:a]asetpts=PTS-STARTPTS,${chain.join(',')}[soundtrack]`);
+    audioLabels.push('soundtrack');
+  }
+
+  if (spec.hasAudio) {
+    // A silent bed sets the mix length, so edits without audio still get a track
+    const silence = `anullsrc=r=${String(AUDIO_SAMPLE_RATE)}:cl=stereo,atrim=duration=${num(duration)}`;
+    if (audioLabels.length === 0) {
+      filters.push(`${silence}[aout]`);
+    } else {
+      filters.push(`${silence}[silence]`);
+      const mixInputs = ['silence', ...audioLabels].map(label => `[${label}]`).join('');
+      filters.push(`${mixInputs}amix=inputs=${String(audioLabels.length + 1)}:duration=first:normalize=0[aout]`);
+    }
+  }
+
+  return {
+    inputs,
+    filterComplex: filters.join(';'),
+    outputArgs: output.outputArgs,
+    outputName: output.outputName,
+    duration,
+    width,
+    height,
+    fps,
+  };
+}
+
+/**
+ * Full FFmpeg argument list for a plan
+ * @param plan - The compiled render plan
+ * @param inputPaths - Local file for each plan input, in order
+ * @param outputPath - Where to write the MP4
+ */
+export function buildFfmpegArgs(plan: FfmpegRenderPlan, inputPaths: string[], outputPath: string): string[] {
+  if (inputPaths.length !== plan.inputs.length) {
+    throw new Error(`Expected ${String(plan.inputs.length)} input files, got ${String(inputPaths.length)}`);
+  }
+  return [
+    '-y',
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...plan.inputs.flatMap((input, index) => [...input.args, '-i', inputPaths[index]]),
+    '-filter_complex', plan.filterComplex,
+    ...plan.outputArgs,
+    outputPath,
+  ];
+}
@@ -0,0 +1,826 @@
+/**
+ * Video Editor Render Payload
+ *
+ * The part of the editor document a render needs - assets, tracks, clips,
+ * background audio, subtitles and output settings - and the Shotstack edit
+ * built from it. render-video-editor rebuilds the edit from the validated
+ * document, and the editor's store and preview use the same builder, so
+ * what the preview shows is what gets rendered.
+ *
+ * Only imports other import-free modules, so the client can use it too.
+ */
+
+import { EXPORT_FORMATS, type ExportFormat, type ExportOptions } from "./export-formats.ts";
+
+// ─── Editor document ─────────────────────────────────────────────────────────
+
+export type MediaType = 'video' | 'image' | 'audio';
+
+// What a render needs of a media asset
+export interface EditorAsset {
+  id: string;
+  type: MediaType;
+  url: string;
+  duration?: number; // in seconds, for video/audio
+}
+
+// Fraction (0-1) cut from each edge
+export interface CropRect {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Curve from a keyframe to the next; 'hold' keeps the value until the next keyframe
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'hold';
+
+export type AnimatableProperty = 'position' | 'scale' | 'rotation' | 'opacity' | 'crop';
+
+// The animatable values of a clip at one moment
+export interface ClipTransform {
+  position: { x: number; y: number };
+  scale: number;
+  rotation: number;
+  opacity: number;
+  crop: CropRect;
+}
+
+// A keyframe sets any subset of the animatable properties; each property
+// animates between the keyframes that set it
+export interface ClipKeyframe extends Partial<ClipTransform> {
+  id: string;
+  time: number; // seconds from the clip start
+  easing: Easing;
+}
+
+export type TransitionType =
+  | 'none'
+  | 'fade'
+  | 'fadeToBlack'
+  | 'fadeToWhite'
+  | 'slideLeft'
+  | 'slideRight'
+  | 'slideUp'
+  | 'slideDown'
+  | 'zoom'
+  | 'wipeLeft'
+  | 'wipeRight';
+
+export type ClipFit = 'cover' | 'contain' | 'crop' | 'none';
+
+export interface EditorClip {
+  id: string;
+  assetId: string;
+  trackId: string;
+  start: number; // timeline position in seconds
+  duration: number; // in seconds
+  trimStart: number; // trim from start in seconds
+  transitionIn?: TransitionType;
+  transitionOut?: TransitionType;
+  transitionDuration: number; // in seconds
+  volume: number; // 0-1
+  fit: ClipFit;
+  position: { x: number; y: number }; // 0-1 relative position
+  scale: number; // 1 = 100%
+  rotation?: number; // degrees clockwise, default 0
+  opacity?: number; // 0-1, default 1
+  crop?: CropRect; // default no crop
+  keyframes?: ClipKeyframe[]; // animate the values above over the clip
+}
+
+export type TrackType = 'visual' | 'audio';
+
+// A timeline lane. Visual tracks stack in array order (first = on top);
+// audio tracks mix together regardless of order
+export interface TimelineTrack {
+  id: string;
+  type: TrackType;
+  name: string;
+  volume: number; // 0-1, multiplies the volume of every clip on the track
+  muted: boolean;
+  hidden: boolean; // visual tracks only - excluded from the render
+}
+
+export interface EditorAudioTrack {
+  id: string;
+  assetId: string;
+  volume: number; // 0-1
+  fadeIn: boolean;
+  fadeOut: boolean;
+  fadeInDuration: number; // seconds
+  fadeOutDuration: number; // seconds
+  trimStart: number; // seconds
+  trimEnd?: number; // seconds, undefined = until end
+  loop: boolean;
+}
+
+export type SubtitleMode = 'none' | 'auto' | 'upload';
+
+// Burn-in styles, as in the storyboard subtitle settings
+export type CaptionStyle = 'classic' | 'classic-progressive' | 'classic-one-word' | 'boxed-line' | 'boxed-word';
+
+export interface SubtitleWordStyle {
+  color?: string; // hex, wins over the line and highlight colours
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface SubtitleWord {
+  text: string;
+  start: number; // timeline seconds
+  end: number;
+  style?: SubtitleWordStyle;
+}
+
+// One caption on screen; its words are timed within [start, end]
+export interface SubtitleCue {
+  id: string;
+  start: number; // timeline seconds
+  end: number;
+  words: SubtitleWord[];
+}
+
+export type SubtitlePosition = 'top' | 'center' | 'bottom';
+
+export interface EditorSubtitleConfig {
+  mode: SubtitleMode;
+  cues: SubtitleCue[]; // transcribed or imported; burned in when not empty
+  style: CaptionStyle;
+  fontSize: number; // 12-72
+  fontColor: string; // hex
+  highlightColor: string; // hex, the word being spoken
+  backgroundColor: string; // hex, also the box colour of boxed styles
+  showBackground: boolean;
+  outlineColor: string; // hex
+  outlineWidth: number; // px, 0 for none
+  allCaps: boolean;
+  maxWordsPerLine: number; // when splitting a transcript into cues
+  position: SubtitlePosition;
+}
+
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '21:9';
+
+export interface OutputSettings {
+  aspectRatio: AspectRatio;
+  format: ExportFormat;
+  exportOptions: ExportOptions; // format-specific settings, see export-formats.ts
+  backgroundColor: string; // hex
+  fps: 25 | 30 | 60;
+  quality: 'sd' | 'hd' | '4k';
+}
+
+// Aspect ratio dimensions
+export const ASPECT_RATIO_DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '21:9': { width: 2560, height: 1080 },
+};
+
+export interface RenderDocument {
+  assets: EditorAsset[];
+  tracks: TimelineTrack[];
+  clips: EditorClip[];
+  audioTrack: EditorAudioTrack | null;
+  subtitleConfig: EditorSubtitleConfig;
+  outputSettings: OutputSettings;
+}
+
+// ─── Shotstack edit ──────────────────────────────────────────────────────────
+
+// Animates a clip property from one value to another over part of the clip
+export interface ShotstackTween {
+  from: number;
+  to: number;
+  start: number; // seconds from the clip start
+  length: number;
+  interpolation?: 'linear' | 'bezier';
+  easing?: string;
+}
+
+export interface ShotstackClip {
+  asset: {
+    type: 'video' | 'image' | 'audio' | 'caption' | 'html';
+    src?: string; // every asset type except html
+    volume?: number;
+    trim?: number;
+    crop?: {
+      top: number;
+      bottom: number;
+      left: number;
+      right: number;
+    };
+    // Caption assets only
+    font?: {
+      size?: number;
+      color?: string;
+    };
+    background?: {
+      color: string;
+      padding: number;
+    };
+    // HTML assets only - burned-in subtitles, one caption state per clip
+    html?: string;
+    css?: string;
+    width?: number;
+    height?: number;
+    position?: SubtitlePosition; // of the text within the asset
+  };
+  start: number;
+  length: number | 'end' | 'auto';
+  transition?: {
+    in?: string;
+    out?: string;
+  };
+  fit?: ClipFit;
+  position?: 'center' | 'top' | 'bottom' | 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+  offset?: {
+    x?: number | ShotstackTween[];
+    y?: number | ShotstackTween[];
+  };
+  scale?: number | ShotstackTween[];
+  opacity?: number | ShotstackTween[];
+  transform?: {
+    rotate?: {
+      angle: number | ShotstackTween[];
+    };
+  };
+  alias?: string;
+}
+
+export interface ShotstackTrack {
+  clips: ShotstackClip[];
+}
+
+export interface ShotstackTimeline {
+  tracks: ShotstackTrack[];
+  background?: string;
+  soundtrack?: {
+    src: string;
+    effect?: 'fadeIn' | 'fadeOut' | 'fadeInFadeOut';
+    volume?: number;
+  };
+}
+
+export interface ShotstackPayload {
+  timeline: ShotstackTimeline;
+  output: {
+    format: 'mp4' | 'mp3';
+    resolution?: 'sd' | 'hd' | '4k'; // Optional - mutually exclusive with size
+    aspectRatio: string;
+    fps: number;
+    size?: {
+      width: number;
+      height: number;
+    };
+  };
+}
+
+// ─── Timeline ────────────────────────────────────────────────────────────────
+
+export const clipEnd = (clip: Pick<EditorClip, 'start' | 'duration'>): number => clip.start + clip.duration;
+
+// Timeline length: the end of the last clip on any track
+export const getTimelineDuration = (clips: Pick<EditorClip, 'start' | 'duration'>[]): number =>
+  clips.reduce((end, clip) => Math.max(end, clipEnd(clip)), 0);
+
+export const getTrackClips = <C extends Pick<EditorClip, 'trackId' | 'start'>>(clips: C[], trackId: string): C[] =>
+  clips.filter(c => c.trackId === trackId).sort((a, b) => a.start - b.start);
+
+// ─── Keyframes ───────────────────────────────────────────────────────────────
+
+export const NO_CROP: CropRect = { top: 0, bottom: 0, left: 0, right: 0 };
+
+// Easing curves, t in 0-1. Match Shotstack's quadratic easeIn/easeOut/easeInOut.
+export const ease = (easing: Easing, t: number): number => {
+  switch (easing) {
+    case 'easeIn':
+      return t * t;
+    case 'easeOut':
+      return t * (2 - t);
+    case 'easeInOut':
+      return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+    case 'hold':
+      return 0;
+    default:
+      return t;
+  }
+};
+
+const lerp = (from: number, to: number, t: number): number => from + (to - from) * t;
+
+// The clip's value for a property when it isn't animated
+export const getStaticValue = <P extends AnimatableProperty>(clip: EditorClip, property: P): ClipTransform[P] => {
+  const values: ClipTransform = {
+    position: clip.position,
+    scale: clip.scale,
+    rotation: clip.rotation ?? 0,
+    opacity: clip.opacity ?? 1,
+    crop: clip.crop ?? NO_CROP,
+  };
+  return values[property];
+};
+
+const interpolate = <P extends AnimatableProperty>(
+  property: P,
+  from: ClipTransform[P],
+  to: ClipTransform[P],
+  t: number,
+): ClipTransform[P] => {
+  if (property === 'position') {
+    const a = from as ClipTransform['position'];
+    const b = to as ClipTransform['position'];
+    return { x: lerp(a.x, b.x, t), y: lerp(a.y, b.y, t) } as ClipTransform[P];
+  }
+  if (property === 'crop') {
+    const a = from as CropRect;
+    const b = to as CropRect;
+    return {
+      top: lerp(a.top, b.top, t),
+      bottom: lerp(a.bottom, b.bottom, t),
+      left: lerp(a.left, b.left, t),
+      right: lerp(a.right, b.right, t),
+    } as ClipTransform[P];
+  }
+  return lerp(from as number, to as number, t) as ClipTransform[P];
+};
+
+export const sortKeyframes = (keyframes: ClipKeyframe[]): ClipKeyframe[] =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+// The keyframes that set a property, in time order
+export const getPropertyKeyframes = (clip: EditorClip, property: AnimatableProperty): ClipKeyframe[] =>
+  sortKeyframes((clip.keyframes ?? []).filter(k => k[property] !== undefined));
+
+export const isAnimated = (clip: EditorClip, property: AnimatableProperty): boolean =>
+  getPropertyKeyframes(clip, property).length > 0;
+
+/**
+ * Value of a property at a time (seconds from the clip start). Before the
+ * first keyframe and after the last one the nearest keyframe's value holds;
+ * between keyframes the earlier keyframe's easing shapes the curve.
+ */
+export const getAnimatedValue = <P extends AnimatableProperty>(clip: EditorClip, property: P, time: number): ClipTransform[P] => {
+  const keyframes = getPropertyKeyframes(clip, property);
+  if (keyframes.length === 0) return getStaticValue(clip, property);
+
+  const value = (k: ClipKeyframe) => k[property] as ClipTransform[P];
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (time <= first.time) return value(first);
+  if (time >= last.time) return value(last);
+
+  const nextIndex = keyframes.findIndex(k => k.time > time);
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const t = ease(from.easing, (time - from.time) / (to.time - from.time));
+  return interpolate(property, value(from), value(to), t);
+};
+
+// ─── Caption frames ──────────────────────────────────────────────────────────
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export const sortCues = (cues: SubtitleCue[]): SubtitleCue[] => [...cues].sort((a, b) => a.start - b.start);
+
+export interface CaptionWord {
+  text: string;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+  box?: string; // boxed-word background
+}
+
+// What the subtitles show over [start, end)
+export interface CaptionFrame {
+  start: number;
+  end: number;
+  words: CaptionWord[];
+  lineBox?: string; // background behind the whole line
+}
+
+export type CaptionStyleSettings = Pick<
+  EditorSubtitleConfig,
+  'style' | 'fontColor' | 'highlightColor' | 'backgroundColor' | 'showBackground' | 'allCaps'
+>;
+
+const captionWords = (words: SubtitleWord[], spoken: number, settings: CaptionStyleSettings): CaptionWord[] => {
+  const { style } = settings;
+  const highlighted = style === 'classic' || style === 'boxed-word' ? spoken : -1;
+  const toCaption = (word: SubtitleWord, index: number): CaptionWord => ({
+    text: settings.allCaps ? word.text.toUpperCase() : word.text,
+    color: word.style?.color ?? (index === highlighted ? settings.highlightColor : settings.fontColor),
+    bold: word.style?.bold ?? index === highlighted,
+    italic: word.style?.italic ?? false,
+    box: style === 'boxed-word' ? settings.backgroundColor : undefined,
+  });
+
+  if (style === 'classic-progressive') return words.slice(0, spoken + 1).map(toCaption);
+  if (style === 'classic-one-word') return spoken >= 0 ? [toCaption(words[spoken], spoken)] : [];
+  return words.map(toCaption);
+};
+
+/**
+ * The caption states of a set of cues in the given style: one frame per
+ * cue for boxed lines, otherwise a frame each time a word starts
+ */
+export const getCaptionFrames = (cues: SubtitleCue[], settings: CaptionStyleSettings): CaptionFrame[] => {
+  const lineBox = settings.style === 'boxed-line' || (settings.style !== 'boxed-word' && settings.showBackground)
+    ? settings.backgroundColor
+    : undefined;
+  const frames: CaptionFrame[] = [];
+
+  for (const cue of sortCues(cues)) {
+    if (cue.words.length === 0 || cue.end <= cue.start) continue;
+    const wordStarts = settings.style === 'boxed-line'
+      ? []
+      : cue.words.map(w => round(w.start)).filter(t => t > cue.start && t < cue.end);
+    const times = [...new Set([cue.start, ...wordStarts, cue.end])].sort((a, b) => a - b);
+
+    for (let i = 0; i < times.length - 1; i++) {
+      const start = times[i];
+      const spoken = cue.words.findLastIndex(w => round(w.start) <= start);
+      const words = captionWords(cue.words, spoken, settings);
+      if (words.length === 0) continue;
+      frames.push({ start: round(start), end: round(times[i + 1]), words, lineBox });
+    }
+  }
+  return frames;
+};
+
+// ─── Payload builder ─────────────────────────────────────────────────────────
+
+export type ShotstackPayloadInput = RenderDocument;
+
+const SPEECH_SOURCE_ALIAS = 'speech-source';
+
+// Helper to map transition type to Shotstack transition name
+const mapTransition = (transition?: TransitionType): string | undefined => {
+  if (!transition || transition === 'none') return undefined;
+
+  const transitionMap: Record<TransitionType, string> = {
+    none: '',
+    fade: 'fade',
+    fadeToBlack: 'fadeBlack',
+    fadeToWhite: 'fadeWhite',
+    slideLeft: 'slideLeft',
+    slideRight: 'slideRight',
+    slideUp: 'slideUp',
+    slideDown: 'slideDown',
+    zoom: 'zoom',
+    wipeLeft: 'wipeLeft',
+    wipeRight: 'wipeRight',
+  };
+
+  return transitionMap[transition];
+};
+
+const trackVolume = (clip: EditorClip, track: TimelineTrack): number =>
+  track.muted ? 0 : round(clip.volume * track.volume);
+
+// Editor positions are 0-1 from the top-left; Shotstack offsets are relative
+// to the frame centre with y pointing up
+const offsetX = (position: ClipTransform['position']): number => round(position.x - 0.5);
+const offsetY = (position: ClipTransform['position']): number => round(0.5 - position.y);
+
+// Shotstack can't tween crop, so an animated crop is rendered as short
+// consecutive clips, each with the crop sampled at its midpoint
+export const CROP_STEP_SECONDS = 0.25;
+
+// A numeric Shotstack channel of an animatable property
+interface Channel {
+  property: AnimatableProperty;
+  read: (transform: ClipTransform) => number;
+}
+
+const CHANNELS = {
+  offsetX: { property: 'position', read: t => offsetX(t.position) },
+  offsetY: { property: 'position', read: t => offsetY(t.position) },
+  scale: { property: 'scale', read: t => round(t.scale) },
+  rotation: { property: 'rotation', read: t => round(t.rotation) },
+  opacity: { property: 'opacity', read: t => round(t.opacity) },
+} satisfies Record<string, Channel>;
+
+const readAt = (clip: EditorClip, channel: Channel, time: number): number =>
+  channel.read({ [channel.property]: getAnimatedValue(clip, channel.property, time) } as unknown as ClipTransform);
+
+const mapEasing = (easing: Easing): Pick<ShotstackTween, 'interpolation' | 'easing'> =>
+  easing === 'linear' || easing === 'hold'
+    ? { interpolation: 'linear' }
+    : { interpolation: 'bezier', easing };
+
+/**
+ * Tweens covering [windowStart, windowEnd] of the clip, relative to the
+ * window start. Spans that lie fully between two keyframes keep the
+ * keyframe's easing; spans cut by the window edges are linear.
+ */
+const keyframeTweens = (clip: EditorClip, channel: Channel, windowStart: number, windowEnd: number): ShotstackTween[] => {
+  const keyframes = getPropertyKeyframes(clip, channel.property);
+  const times = [
+    windowStart,
+    ...keyframes.map(k => k.time).filter(t => t > windowStart && t < windowEnd),
+    windowEnd,
+  ];
+
+  const tweens: ShotstackTween[] = [];
+  for (let i = 0; i < times.length - 1; i++) {
+    const a = times[i];
+    const b = times[i + 1];
+    if (b - a <= 0) continue;
+    const governing = keyframes.filter(k => k.time <= a).at(-1);
+    const next = keyframes.find(k => k.time >= b);
+    const exactSpan = !!governing && !!next && governing.time === a && next.time === b;
+    const from = readAt(clip, channel, a);
+    const to = governing?.easing === 'hold' ? from : readAt(clip, channel, b);
+    tweens.push({
+      from,
+      to,
+      start: round(a - windowStart),
+      length: round(b - a),
+      ...(exactSpan ? mapEasing(governing.easing) : { interpolation: 'linear' }),
+    });
+  }
+  return tweens;
+};
+
+// Static value, or tweens when the property is animated
+const channelValue = (
+  clip: EditorClip,
+  channel: Channel,
+  windowStart: number,
+  windowEnd: number,
+): number | ShotstackTween[] => {
+  if (!isAnimated(clip, channel.property)) {
+    return channel.read({ [channel.property]: getStaticValue(clip, channel.property) } as unknown as ClipTransform);
+  }
+  const tweens = keyframeTweens(clip, channel, windowStart, windowEnd);
+  // Collapse a window where nothing changes back to a plain value
+  return tweens.every(t => t.from === tweens[0].from && t.to === tweens[0].from) ? tweens[0].from : tweens;
+};
+
+const isDefault = (value: number | ShotstackTween[], defaultValue: number): boolean =>
+  typeof value === 'number' && value === defaultValue;
+
+const roundCrop = (crop: CropRect): CropRect | undefined => {
+  const rounded = {
+    top: round(crop.top),
+    bottom: round(crop.bottom),
+    left: round(crop.left),
+    right: round(crop.right),
+  };
+  return Object.values(rounded).some(v => v > 0) ? rounded : undefined;
+};
+
+// Shotstack clip for [windowStart, windowEnd] of an editor clip
+const buildVisualWindow = (
+  clip: EditorClip,
+  track: TimelineTrack,
+  asset: EditorAsset,
+  windowStart: number,
+  windowEnd: number,
+  crop: CropRect,
+): ShotstackClip => {
+  const x = channelValue(clip, CHANNELS.offsetX, windowStart, windowEnd);
+  const y = channelValue(clip, CHANNELS.offsetY, windowStart, windowEnd);
+  const scale = channelValue(clip, CHANNELS.scale, windowStart, windowEnd);
+  const rotation = channelValue(clip, CHANNELS.rotation, windowStart, windowEnd);
+  const opacity = channelValue(clip, CHANNELS.opacity, windowStart, windowEnd);
+
+  const shotstackClip: ShotstackClip = {
+    asset: {
+      type: asset.type === 'video' ? 'video' : 'image',
+      src: asset.url,
+      crop: roundCrop(crop),
+    },
+    start: round(clip.start + windowStart),
+    length: round(windowEnd - windowStart),
+    transition: {
+      in: windowStart === 0 ? mapTransition(clip.transitionIn) : undefined,
+      out: windowEnd === clip.duration ? mapTransition(clip.transitionOut) : undefined,
+    },
+    fit: clip.fit,
+    scale: isDefault(scale, 1) ? undefined : scale,
+    offset: isDefault(x, 0) && isDefault(y, 0) ? undefined : { x, y },
+    opacity: isDefault(opacity, 1) ? undefined : opacity,
+    transform: isDefault(rotation, 0) ? undefined : { rotate: { angle: rotation } },
+  };
+
+  // Only video assets take volume and trim (images don't support these)
+  if (asset.type === 'video') {
+    shotstackClip.asset.volume = trackVolume(clip, track);
+    const trim = round(clip.trimStart + windowStart);
+    if (trim > 0) {
+      shotstackClip.asset.trim = trim;
+    }
+  }
+
+  return shotstackClip;
+};
+
+// One Shotstack clip per editor clip, or a run of short clips when the crop is animated
+const buildVisualClips = (clip: EditorClip, track: TimelineTrack, asset: EditorAsset): ShotstackClip[] => {
+  if (!isAnimated(clip, 'crop')) {
+    return [buildVisualWindow(clip, track, asset, 0, clip.duration, getStaticValue(clip, 'crop'))];
+  }
+
+  const clips: ShotstackClip[] = [];
+  for (let windowStart = 0; windowStart < clip.duration; windowStart += CROP_STEP_SECONDS) {
+    const windowEnd = Math.min(clip.duration, round(windowStart + CROP_STEP_SECONDS));
+    const crop = getAnimatedValue(clip, 'crop', (windowStart + windowEnd) / 2);
+    clips.push(buildVisualWindow(clip, track, asset, round(windowStart), windowEnd, crop));
+  }
+  return clips;
+};
+
+// Burned-in subtitles: each caption state is an HTML clip a few lines tall,
+// spanning most of the frame width. Styles that vary per word are inline.
+const CAPTION_WIDTH = 0.9; // fraction of the frame width
+const CAPTION_LINES = 3;
+const CAPTION_LINE_HEIGHT = 1.3;
+const CAPTION_CSS = [
+  ".caption { text-align: center; font-family: 'Open Sans', sans-serif; font-weight: 600; line-height: 1.3; }",
+  '.caption p { display: inline-block; margin: 0; padding: 0.1em 0.4em; border-radius: 0.2em; }',
+  '.caption span { padding: 0 0.15em; border-radius: 0.2em; }',
+].join(' ');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildCaptionHtml = (
+  frame: CaptionFrame,
+  subtitleConfig: Pick<EditorSubtitleConfig, 'fontSize' | 'outlineColor' | 'outlineWidth'>,
+): string => {
+  const lineStyle = [
+    `font-size:${String(subtitleConfig.fontSize)}px`,
+    subtitleConfig.outlineWidth > 0 && `-webkit-text-stroke:${String(subtitleConfig.outlineWidth)}px ${subtitleConfig.outlineColor}`,
+    frame.lineBox && `background-color:${frame.lineBox}`,
+  ].filter(Boolean).join(';');
+  const words = frame.words.map((word) => {
+    const style = [
+      `color:${word.color}`,
+      word.bold && 'font-weight:bold',
+      word.italic && 'font-style:italic',
+      word.box && `background-color:${word.box}`,
+    ].filter(Boolean).join(';');
+    return `<span style="${style}">${escapeHtml(word.text)}</span>`;
+  });
+  return `<div class="caption"><p style="${lineStyle}">${words.join(' ')}</p></div>`;
+};
+
+const buildCaptionClip = (frame: CaptionFrame, subtitleConfig: EditorSubtitleConfig, frameWidth: number): ShotstackClip => ({
+  asset: {
+    type: 'html',
+    html: buildCaptionHtml(frame, subtitleConfig),
+    css: CAPTION_CSS,
+    width: Math.round(frameWidth * CAPTION_WIDTH),
+    height: Math.round(subtitleConfig.fontSize * CAPTION_LINE_HEIGHT * CAPTION_LINES),
+    position: subtitleConfig.position,
+  },
+  start: frame.start,
+  length: round(frame.end - frame.start),
+  position: subtitleConfig.position,
+});
+
+const buildAudioClip = (clip: EditorClip, track: TimelineTrack, asset: EditorAsset): ShotstackClip => ({
+  asset: {
+    type: 'audio',
+    src: asset.url,
+    volume: trackVolume(clip, track),
+    trim: clip.trimStart > 0 ? clip.trimStart : undefined,
+  },
+  start: clip.start,
+  length: clip.duration,
+});
+
+export const buildShotstackPayload = (state: ShotstackPayloadInput): ShotstackPayload => {
+  const { assets, tracks, clips, audioTrack, outputSettings, subtitleConfig } = state;
+
+  const findAsset = (assetId: string): EditorAsset => {
+    const asset = assets.find(a => a.id === assetId);
+    if (!asset) throw new Error(`Asset not found: ${assetId}`);
+    return asset;
+  };
+
+  // Hidden visual tracks and muted audio tracks are left out of the render
+  const visualTracks = tracks.filter(t => t.type === 'visual' && !t.hidden);
+  const audioTracks = tracks.filter(t => t.type === 'audio' && !t.muted);
+  const renderedTrackIds = new Set([...visualTracks, ...audioTracks].map(t => t.id));
+  const renderedClips = clips.filter(c => renderedTrackIds.has(c.trackId));
+  const totalDuration = getTimelineDuration(renderedClips);
+
+  // Edited cues are burned in; auto mode without cues leaves transcription to Shotstack
+  const burnInCues = subtitleConfig.mode !== 'none' && subtitleConfig.cues.length > 0;
+  const autoCaptions = subtitleConfig.mode === 'auto' && !burnInCues;
+
+  // Determine caption source: prefer audio track (voiceover), fallback to earliest video clip
+  const soundtrackAsset = audioTrack ? assets.find(a => a.id === audioTrack.assetId) : undefined;
+  const useSoundtrackForCaptions = autoCaptions && !!soundtrackAsset;
+  const firstVideoClip = renderedClips
+    .filter(c => visualTracks.some(t => t.id === c.trackId) && findAsset(c.assetId).type === 'video')
+    .sort((a, b) => a.start - b.start)[0] as EditorClip | undefined;
+
+  // Shotstack renders tracks in array order, first on top: captions, then
+  // visual tracks in editor order, then audio
+  const shotstackTracks: ShotstackTrack[] = [];
+
+  if (burnInCues) {
+    const { width } = ASPECT_RATIO_DIMENSIONS[outputSettings.aspectRatio];
+    shotstackTracks.push({
+      clips: getCaptionFrames(subtitleConfig.cues, subtitleConfig).map(frame => buildCaptionClip(frame, subtitleConfig, width)),
+    });
+  }
+
+  if (autoCaptions && (useSoundtrackForCaptions || firstVideoClip)) {
+    const captionClip: ShotstackClip = {
+      asset: {
+        type: 'caption',
+        src: `alias://${SPEECH_SOURCE_ALIAS}`,
+      },
+      start: 0,
+      length: totalDuration > 0 ? totalDuration : 'end',
+      // Position is set at clip level, not asset level
+      position: subtitleConfig.position,
+    };
+    if (subtitleConfig.fontSize || subtitleConfig.fontColor) {
+      captionClip.asset.font = {
+        size: subtitleConfig.fontSize || undefined,
+        color: subtitleConfig.fontColor || undefined,
+      };
+    }
+    if (subtitleConfig.showBackground) {
+      captionClip.asset.background = {
+        color: subtitleConfig.backgroundColor,
+        padding: 10,
+      };
+    }
+    shotstackTracks.push({ clips: [captionClip] });
+  }
+
+  // The soundtrack carries the caption alias, so it becomes a regular audio track
+  if (useSoundtrackForCaptions && audioTrack) {
+    shotstackTracks.push({
+      clips: [{
+        asset: {
+          type: 'audio',
+          src: soundtrackAsset.url,
+          volume: audioTrack.volume,
+        },
+        start: 0,
+        length: totalDuration > 0 ? totalDuration : soundtrackAsset.duration || 'auto',
+        alias: SPEECH_SOURCE_ALIAS,
+      }],
+    });
+  }
+
+  for (const track of visualTracks) {
+    const trackClips = getTrackClips(renderedClips, track.id).flatMap((clip) => {
+      const shotstackClips = buildVisualClips(clip, track, findAsset(clip.assetId));
+      // Alias the caption source clip (only if no audio track)
+      if (autoCaptions && !useSoundtrackForCaptions && clip.id === firstVideoClip?.id) {
+        shotstackClips[0].alias = SPEECH_SOURCE_ALIAS;
+      }
+      return shotstackClips;
+    });
+    if (trackClips.length > 0) shotstackTracks.push({ clips: trackClips });
+  }
+
+  for (const track of audioTracks) {
+    const trackClips = getTrackClips(renderedClips, track.id)
+      .map(clip => buildAudioClip(clip, track, findAsset(clip.assetId)));
+    if (trackClips.length > 0) shotstackTracks.push({ clips: trackClips });
+  }
+
+  const timeline: ShotstackTimeline = {
+    tracks: shotstackTracks,
+    background: outputSettings.backgroundColor,
+  };
+
+  // Add soundtrack if present AND not using it for captions (avoid duplicate audio)
+  if (audioTrack && soundtrackAsset && !useSoundtrackForCaptions) {
+    timeline.soundtrack = {
+      src: soundtrackAsset.url,
+      volume: audioTrack.volume,
+      effect: audioTrack.fadeIn && audioTrack.fadeOut
+        ? 'fadeInFadeOut'
+        : audioTrack.fadeIn
+          ? 'fadeIn'
+          : audioTrack.fadeOut
+            ? 'fadeOut'
+            : undefined,
+    };
+  }
+
+  return {
+    timeline,
+    output: {
+      // Shotstack renders MP4 and MP3; the FFmpeg worker converts the edit
+      // to the other formats itself
+      format: EXPORT_FORMATS[outputSettings.format].shotstackFormat ?? 'mp4',
+      aspectRatio: outputSettings.aspectRatio,
+      fps: outputSettings.fps,
+      size: ASPECT_RATIO_DIMENSIONS[outputSettings.aspectRatio],
+    },
+  };
+};
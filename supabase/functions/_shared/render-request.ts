@@ -0,0 +1,402 @@
+/**
+ * Video Editor Render Requests
+ *
+ * Checks and prices the edit a client sends to render-video-editor. The
+ * request carries the editor model - tracks, clips, background audio,
+ * subtitles and output settings - and never a Shotstack edit or a price:
+ * the function validates the model, attaches the user's own media and
+ * builds the edit itself (render-payload.ts), charging what
+ * getRenderCredits says. The editor shows its estimate with the same rules.
+ *
+ * Only imports other import-free modules, so the client can use it too.
+ */
+
+import { getExportCredits, isExportFormat, resolveExportOptions } from "./export-formats.ts";
+import {
+  ASPECT_RATIO_DIMENSIONS,
+  getTimelineDuration,
+  type AspectRatio,
+  type CaptionStyle,
+  type ClipFit,
+  type ClipKeyframe,
+  type ClipTransform,
+  type CropRect,
+  type Easing,
+  type EditorAsset,
+  type EditorAudioTrack,
+  type EditorClip,
+  type EditorSubtitleConfig,
+  type OutputSettings,
+  type RenderDocument,
+  type SubtitleCue,
+  type SubtitleMode,
+  type SubtitlePosition,
+  type SubtitleWord,
+  type TimelineTrack,
+  type TrackType,
+  type TransitionType,
+} from "./render-payload.ts";
+
+export const MAX_RENDER_SECONDS = 10 * 60;
+export const MAX_RENDER_TRACKS = 20;
+export const MAX_RENDER_CLIPS = 500;
+export const MAX_CLIP_KEYFRAMES = 200;
+export const MAX_SUBTITLE_CUES = 2000;
+export const MAX_CUE_WORDS = 100;
+
+const MAX_ID_LENGTH = 100;
+const MAX_TEXT_LENGTH = 200;
+
+// The render model minus the media, which the server looks up itself
+export type RenderRequestDocument = Omit<RenderDocument, 'assets'>;
+
+type Result<T> = T | { error: string };
+
+const TRACK_TYPES: TrackType[] = ['visual', 'audio'];
+const TRANSITIONS: TransitionType[] = [
+  'none', 'fade', 'fadeToBlack', 'fadeToWhite', 'slideLeft', 'slideRight', 'slideUp', 'slideDown', 'zoom', 'wipeLeft', 'wipeRight',
+];
+const FITS: ClipFit[] = ['cover', 'contain', 'crop', 'none'];
+const EASINGS: Easing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'hold'];
+const SUBTITLE_MODES: SubtitleMode[] = ['none', 'auto', 'upload'];
+const CAPTION_STYLES: CaptionStyle[] = ['classic', 'classic-progressive', 'classic-one-word', 'boxed-line', 'boxed-word'];
+const SUBTITLE_POSITIONS: SubtitlePosition[] = ['top', 'center', 'bottom'];
+const FPS_OPTIONS: OutputSettings['fps'][] = [25, 30, 60];
+const QUALITIES: OutputSettings['quality'][] = ['sd', 'hd', '4k'];
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBetween = (value: unknown, min: number, max: number): value is number => isNumber(value) && value >= min && value <= max;
+const isId = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+const isOneOf = <T>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+// Colours end up in Shotstack HTML, so only plain hex is accepted
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+const isError = <T>(result: Result<T>): result is { error: string } => isObject(result) && typeof result.error === 'string';
+
+function parseTrack(value: unknown): TimelineTrack | null {
+  if (!isObject(value)) return null;
+  const { id, type, name, volume, muted, hidden } = value;
+  if (!isId(id) || !isOneOf(type, TRACK_TYPES) || !isBetween(volume, 0, 1)) return null;
+  return {
+    id,
+    type,
+    name: typeof name === 'string' ? name.slice(0, MAX_TEXT_LENGTH) : '',
+    volume,
+    muted: muted === true,
+    hidden: hidden === true,
+  };
+}
+
+function parseCrop(value: unknown): CropRect | null {
+  if (!isObject(value)) return null;
+  const { top, bottom, left, right } = value;
+  if (![top, bottom, left, right].every(edge => isBetween(edge, 0, 1))) return null;
+  return { top, bottom, left, right } as CropRect;
+}
+
+function parsePosition(value: unknown): ClipTransform['position'] | null {
+  if (!isObject(value) || !isBetween(value.x, -10, 10) || !isBetween(value.y, -10, 10)) return null;
+  return { x: value.x, y: value.y };
+}
+
+// The animatable values a clip or keyframe sets; null when one is invalid
+function parseTransform(value: Fields): Partial<ClipTransform> | null {
+  const transform: Partial<ClipTransform> = {};
+  if (value.position !== undefined) {
+    const position = parsePosition(value.position);
+    if (!position) return null;
+    transform.position = position;
+  }
+  if (value.scale !== undefined) {
+    if (!isBetween(value.scale, 0.01, 10)) return null;
+    transform.scale = value.scale;
+  }
+  if (value.rotation !== undefined) {
+    if (!isBetween(value.rotation, -3600, 3600)) return null;
+    transform.rotation = value.rotation;
+  }
+  if (value.opacity !== undefined) {
+    if (!isBetween(value.opacity, 0, 1)) return null;
+    transform.opacity = value.opacity;
+  }
+  if (value.crop !== undefined) {
+    const crop = parseCrop(value.crop);
+    if (!crop) return null;
+    transform.crop = crop;
+  }
+  return transform;
+}
+
+function parseKeyframe(value: unknown): ClipKeyframe | null {
+  if (!isObject(value) || !isId(value.id) || !isBetween(value.time, 0, MAX_RENDER_SECONDS) || !isOneOf(value.easing, EASINGS)) {
+    return null;
+  }
+  const transform = parseTransform(value);
+  return transform && { id: value.id, time: value.time, easing: value.easing, ...transform };
+}
+
+function parseClip(value: unknown, trackIds: Set<string>): EditorClip | null {
+  if (!isObject(value)) return null;
+  const { id, assetId, trackId, start, duration, trimStart, transitionIn, transitionOut, transitionDuration, volume, fit } = value;
+  if (
+    !isId(id) || !isId(assetId) || typeof trackId !== 'string' || !trackIds.has(trackId) ||
+    !isBetween(start, 0, MAX_RENDER_SECONDS) || !isBetween(duration, 0.01, MAX_RENDER_SECONDS) ||
+    !isBetween(trimStart, 0, 24 * 3600) || !isBetween(transitionDuration, 0, 60) || !isBetween(volume, 0, 1) ||
+    !isOneOf(fit, FITS) ||
+    (transitionIn !== undefined && !isOneOf(transitionIn, TRANSITIONS)) ||
+    (transitionOut !== undefined && !isOneOf(transitionOut, TRANSITIONS))
+  ) {
+    return null;
+  }
+
+  const transform = parseTransform(value);
+  if (!transform?.position || transform.scale === undefined) return null;
+
+  let keyframes: ClipKeyframe[] | undefined;
+  if (value.keyframes !== undefined) {
+    if (!Array.isArray(value.keyframes) || value.keyframes.length > MAX_CLIP_KEYFRAMES) return null;
+    keyframes = [];
+    for (const item of value.keyframes) {
+      const keyframe = parseKeyframe(item);
+      if (!keyframe) return null;
+      keyframes.push(keyframe);
+    }
+  }
+
+  return {
+    id,
+    assetId,
+    trackId,
+    start,
+    duration,
+    trimStart,
+    transitionIn,
+    transitionOut,
+    transitionDuration,
+    volume,
+    fit,
+    position: transform.position,
+    scale: transform.scale,
+    rotation: transform.rotation,
+    opacity: transform.opacity,
+    crop: transform.crop,
+    keyframes,
+  };
+}
+
+function parseAudioTrack(value: unknown): EditorAudioTrack | null {
+  if (!isObject(value)) return null;
+  const { id, assetId, volume, fadeIn, fadeOut, fadeInDuration, fadeOutDuration, trimStart, trimEnd, loop } = value;
+  if (
+    !isId(id) || !isId(assetId) || !isBetween(volume, 0, 1) ||
+    !isBetween(fadeInDuration ?? 0, 0, 60) || !isBetween(fadeOutDuration ?? 0, 0, 60) ||
+    !isBetween(trimStart ?? 0, 0, 24 * 3600) || (trimEnd != null && !isBetween(trimEnd, 0, 24 * 3600))
+  ) {
+    return null;
+  }
+  return {
+    id,
+    assetId,
+    volume,
+    fadeIn: fadeIn === true,
+    fadeOut: fadeOut === true,
+    fadeInDuration: (fadeInDuration ?? 0) as number,
+    fadeOutDuration: (fadeOutDuration ?? 0) as number,
+    trimStart: (trimStart ?? 0) as number,
+    trimEnd: trimEnd == null ? undefined : trimEnd as number,
+    loop: loop === true,
+  };
+}
+
+function parseWord(value: unknown): SubtitleWord | null {
+  if (!isObject(value) || typeof value.text !== 'string' || value.text.length > MAX_TEXT_LENGTH) return null;
+  if (!isBetween(value.start, 0, MAX_RENDER_SECONDS) || !isBetween(value.end, 0, MAX_RENDER_SECONDS)) return null;
+  const word: SubtitleWord = { text: value.text, start: value.start, end: value.end };
+  if (value.style !== undefined) {
+    if (!isObject(value.style)) return null;
+    const { color, bold, italic } = value.style;
+    if (color !== undefined && !isColor(color)) return null;
+    word.style = {
+      color,
+      bold: typeof bold === 'boolean' ? bold : undefined,
+      italic: typeof italic === 'boolean' ? italic : undefined,
+    };
+  }
+  return word;
+}
+
+function parseCue(value: unknown): SubtitleCue | null {
+  if (!isObject(value) || !isId(value.id) || !Array.isArray(value.words) || value.words.length > MAX_CUE_WORDS) return null;
+  if (!isBetween(value.start, 0, MAX_RENDER_SECONDS) || !isBetween(value.end, 0, MAX_RENDER_SECONDS)) return null;
+  const words: SubtitleWord[] = [];
+  for (const item of value.words) {
+    const word = parseWord(item);
+    if (!word) return null;
+    words.push(word);
+  }
+  return { id: value.id, start: value.start, end: value.end, words };
+}
+
+function parseSubtitleConfig(value: unknown): Result<{ subtitleConfig: EditorSubtitleConfig }> {
+  if (!isObject(value)) return { error: 'Invalid subtitle settings' };
+  const { mode, style, fontSize, fontColor, highlightColor, backgroundColor, outlineColor, outlineWidth, maxWordsPerLine, position } = value;
+  if (
+    !isOneOf(mode, SUBTITLE_MODES) || !isOneOf(style, CAPTION_STYLES) || !isOneOf(position, SUBTITLE_POSITIONS) ||
+    !isBetween(fontSize, 8, 200) || !isBetween(outlineWidth, 0, 20) || !isBetween(maxWordsPerLine, 1, 50) ||
+    ![fontColor, highlightColor, backgroundColor, outlineColor].every(isColor)
+  ) {
+    return { error: 'Invalid subtitle settings' };
+  }
+
+  const cueValues = value.cues ?? [];
+  if (!Array.isArray(cueValues) || cueValues.length > MAX_SUBTITLE_CUES) {
+    return { error: `At most ${MAX_SUBTITLE_CUES} subtitle cues can be burned in` };
+  }
+  const cues: SubtitleCue[] = [];
+  for (const item of cueValues) {
+    const cue = parseCue(item);
+    if (!cue) return { error: 'Invalid subtitle cue' };
+    cues.push(cue);
+  }
+
+  return {
+    subtitleConfig: {
+      mode,
+      cues,
+      style,
+      fontSize,
+      fontColor: fontColor as string,
+      highlightColor: highlightColor as string,
+      backgroundColor: backgroundColor as string,
+      showBackground: value.showBackground === true,
+      outlineColor: outlineColor as string,
+      outlineWidth,
+      allCaps: value.allCaps === true,
+      maxWordsPerLine,
+      position,
+    },
+  };
+}
+
+function parseOutputSettings(value: unknown): OutputSettings | null {
+  if (!isObject(value)) return null;
+  const { aspectRatio, format, exportOptions, backgroundColor, fps, quality } = value;
+  if (
+    typeof aspectRatio !== 'string' || !(aspectRatio in ASPECT_RATIO_DIMENSIONS) ||
+    typeof format !== 'string' || !isExportFormat(format) ||
+    !isColor(backgroundColor) || !isOneOf(fps, FPS_OPTIONS) || !isOneOf(quality, QUALITIES)
+  ) {
+    return null;
+  }
+  return {
+    aspectRatio: aspectRatio as AspectRatio,
+    format,
+    exportOptions: resolveExportOptions(isObject(exportOptions) ? exportOptions : null),
+    backgroundColor,
+    fps,
+    quality,
+  };
+}
+
+/**
+ * Check the edit in a render request from an untrusted client and copy out
+ * only the fields a render uses
+ */
+export function validateRenderRequest(body: unknown): Result<{ document: RenderRequestDocument }> {
+  if (!isObject(body)) return { error: 'Invalid render request' };
+
+  if (!Array.isArray(body.tracks) || body.tracks.length === 0 || body.tracks.length > MAX_RENDER_TRACKS) {
+    return { error: `Renders need 1 to ${MAX_RENDER_TRACKS} tracks` };
+  }
+  const tracks: TimelineTrack[] = [];
+  for (const item of body.tracks) {
+    const track = parseTrack(item);
+    if (!track || tracks.some(t => t.id === track.id)) return { error: 'Invalid track' };
+    tracks.push(track);
+  }
+  const trackIds = new Set(tracks.map(t => t.id));
+
+  if (!Array.isArray(body.clips) || body.clips.length === 0) return { error: 'No clips provided' };
+  if (body.clips.length > MAX_RENDER_CLIPS) return { error: `At most ${MAX_RENDER_CLIPS} clips can be rendered` };
+  const clips: EditorClip[] = [];
+  for (const item of body.clips) {
+    const clip = parseClip(item, trackIds);
+    if (!clip) return { error: 'Invalid clip' };
+    clips.push(clip);
+  }
+
+  const duration = getTimelineDuration(clips);
+  if (duration > MAX_RENDER_SECONDS) {
+    return { error: `Videos up to ${MAX_RENDER_SECONDS / 60} minutes can be rendered` };
+  }
+
+  const audioTrack = body.audioTrack == null ? null : parseAudioTrack(body.audioTrack);
+  if (body.audioTrack != null && !audioTrack) return { error: 'Invalid background audio' };
+
+  const subtitles = parseSubtitleConfig(body.subtitleConfig);
+  if (isError(subtitles)) return subtitles;
+
+  const outputSettings = parseOutputSettings(body.outputSettings);
+  if (!outputSettings) return { error: 'Invalid output settings' };
+
+  return {
+    document: { tracks, clips, audioTrack, subtitleConfig: subtitles.subtitleConfig, outputSettings },
+  };
+}
+
+/** Ids of the media an edit uses, each once */
+export function getRenderAssetIds(document: Pick<RenderRequestDocument, 'clips' | 'audioTrack'>): string[] {
+  const ids = document.clips.map(c => c.assetId);
+  if (document.audioTrack) ids.push(document.audioTrack.assetId);
+  return [...new Set(ids)];
+}
+
+/**
+ * Whether a media URL points into the project's own storage, as uploads and
+ * generations do - renders never fetch arbitrary URLs
+ */
+export function isStorageUrl(url: string, supabaseUrl: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const storage = new URL(supabaseUrl);
+    return parsed.protocol === 'https:' && parsed.origin === storage.origin &&
+      /^\/storage\/v1\/object\/(public|sign)\//.test(parsed.pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Attach the user's media to a validated edit. Every clip needs one of the
+ * given assets, of a type its track can play.
+ */
+export function attachRenderAssets(
+  document: RenderRequestDocument,
+  assets: EditorAsset[],
+): Result<{ document: RenderDocument }> {
+  const findAsset = (assetId: string) => assets.find(a => a.id === assetId);
+  for (const clip of document.clips) {
+    const asset = findAsset(clip.assetId);
+    if (!asset) return { error: 'Media not found in your library' };
+    const trackType = document.tracks.find(t => t.id === clip.trackId)?.type;
+    if ((trackType === 'audio') !== (asset.type === 'audio')) {
+      return { error: asset.type === 'audio' ? 'Audio can only go on audio tracks' : 'Videos and images can only go on video tracks' };
+    }
+  }
+  if (document.audioTrack) {
+    const asset = findAsset(document.audioTrack.assetId);
+    if (!asset) return { error: 'Media not found in your library' };
+    if (asset.type === 'image') return { error: 'Background audio must be an audio or video file' };
+  }
+  return { document: { ...document, assets } };
+}
+
+/**
+ * Cost of rendering an edit: the whole timeline, hidden and muted tracks
+ * included, at the export format's rate
+ */
+export function getRenderCredits(document: Pick<RenderDocument, 'clips' | 'outputSettings'>): number {
+  return getExportCredits(document.outputSettings.format, getTimelineDuration(document.clips));
+}
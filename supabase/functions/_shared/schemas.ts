@@ -10,6 +10,16 @@ import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 export const WorkflowExecutorRequestSchema = z.object({
   workflow_template_id: z.string().uuid("Invalid workflow template ID format"),
   user_inputs: z.record(z.unknown()),
+  /** Run against the stub provider and return a trace instead of generating (admins only) */
+  simulate: z.boolean().optional(),
+  /** Locked model SCHEMA by model_record_id, used to coerce simulated step parameters */
+  simulation_schemas: z.record(z.record(z.unknown())).optional(),
+});
+
+export const StepConditionSchema = z.object({
+  source: z.string().min(1, "Condition source cannot be empty"),
+  operator: z.enum(['equals', 'not_equals', 'exists', 'not_exists', 'truthy', 'falsy', 'in']),
+  value: z.unknown().optional(),
 });
 
 export const WorkflowStepSchema = z.object({
@@ -20,6 +30,24 @@ export const WorkflowStepSchema = z.object({
   prompt_template: z.string(),
   parameters: z.record(z.unknown()).optional(),
   input_mappings: z.record(z.string()).optional(),
+  output_key: z.string().optional(),
+  depends_on: z.array(z.number().int().positive()).optional(),
+  parallel_group: z.string().min(1).optional(),
+  run_if: StepConditionSchema.optional(),
+});
+
+export const WorkflowStepOverrideSchema = z.object({
+  model_record_id: z.string().uuid().optional(),
+  prompt: z.string().max(20000).optional(),
+  parameters: z.record(z.unknown()).optional(),
+});
+
+export const WorkflowResumeRequestSchema = z.object({
+  execution_id: z.string().uuid("Invalid workflow execution ID format"),
+  // Keyed by step number; only steps that have not completed may be overridden
+  step_overrides: z.record(z.string().regex(/^\d+$/, "Invalid step number"), WorkflowStepOverrideSchema).default({}),
+  // Return the resolved steps and credit estimate without resuming
+  preview: z.boolean().default(false),
 });
 
 export const WorkflowTemplateSchema = z.object({
@@ -87,6 +115,12 @@ export const ModelConfigSchema = z.object({
   maxImages: z.number().nullable().optional(),
   defaultOutputs: z.number().optional(),
   isActive: z.boolean().optional(),
+  // Self-hosted ComfyUI models: API-format workflow plus SCHEMA -> node input bindings
+  comfyWorkflow: z.object({
+    workflow: z.record(z.any()),
+    bindings: z.record(z.any()),
+    outputNode: z.string().optional(),
+  }).optional(),
 });
 
 export const ModelSchemaDefinition = z.object({
@@ -199,6 +233,9 @@ export const ErrorResponseSchema = z.object({
 // Type exports for use in edge functions
 export type WorkflowExecutorRequest = z.infer<typeof WorkflowExecutorRequestSchema>;
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
+export type StepCondition = z.infer<typeof StepConditionSchema>;
+export type WorkflowStepOverride = z.infer<typeof WorkflowStepOverrideSchema>;
+export type WorkflowResumeRequest = z.infer<typeof WorkflowResumeRequestSchema>;
 export type WorkflowTemplate = z.infer<typeof WorkflowTemplateSchema>;
 export type GenerateCaptionRequest = z.infer<typeof GenerateCaptionRequestSchema>;
 export type CaptionResponse = z.infer<typeof CaptionResponseSchema>;
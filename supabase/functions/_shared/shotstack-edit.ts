@@ -1,5 +1,30 @@
-import { aspectRatioConfig } from '@/config/captionStyles';
-import { CaptionStyle } from '@/types/video';
+/**
+ * Shotstack Edit Builder
+ *
+ * Fluent builder for Shotstack edit JSON, used by the Shotstack video
+ * assembly provider. Import-free so client code can use it through
+ * `@shared` as well.
+ */
+
+/** Output sizes, matching aspectRatioConfig on the client */
+export const SHOTSTACK_OUTPUT_SIZES: Record<string, { width: number; height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '4:5': { width: 1080, height: 1350 },
+  '1:1': { width: 1080, height: 1080 },
+};
+
+/** The caption style fields the builder reads (a subset of the client's CaptionStyle) */
+export interface ShotstackCaptionStyle {
+  position: 'top' | 'center' | 'bottom';
+  fontSize: number;
+  fontWeight: 'normal' | 'bold' | 'black';
+  fontFamily: string;
+  textColor: string;
+  backgroundColor: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+}
 
 interface ShotstackEdit {
   timeline: {
@@ -155,7 +180,7 @@ interface SkewAnimation {
 export class ShotstackJsonBuilder {
   private edit: ShotstackEdit;
   constructor(aspectRatio: string = '4:5') {
-    const config = aspectRatioConfig[aspectRatio as keyof typeof aspectRatioConfig];
+    const config = SHOTSTACK_OUTPUT_SIZES[aspectRatio];
     
     this.edit = {
       timeline: {
@@ -185,6 +210,14 @@ export class ShotstackJsonBuilder {
     return this;
   }
 
+  /**
+   * Have Shotstack POST the render status to this URL when it finishes
+   */
+  setCallback(callbackUrl: string): this {
+    this.edit.callback = callbackUrl;
+    return this;
+  }
+
   addSoundtrack(audioUrl: string, volume: number = 1, effect?: string): this {
     this.edit.timeline.soundtrack = {
       src: audioUrl,
@@ -267,7 +300,7 @@ export class ShotstackJsonBuilder {
    * Add auto-generated captions from audio alias
    * This is the RECOMMENDED method - Shotstack handles all timing
    */
-  addAutoCaptions(voiceoverAlias: string, style: CaptionStyle): this {
+  addAutoCaptions(voiceoverAlias: string, style: ShotstackCaptionStyle): this {
     const captionAsset: Asset = {
       type: 'caption',
       src: `alias://${voiceoverAlias}`,
@@ -317,7 +350,7 @@ export class ShotstackJsonBuilder {
   /**
    * Add manual captions from SRT/VTT file
    */
-  addManualCaptions(srtUrl: string, style?: CaptionStyle): this {
+  addManualCaptions(srtUrl: string, style?: ShotstackCaptionStyle): this {
     const captionAsset: Asset = {
       type: 'caption',
       src: srtUrl
@@ -492,6 +525,7 @@ export class ShotstackJsonBuilder {
 
   /**
    * Add multiple image clips sequentially
+   * Pass `transition: null` to cut between images instead of fading
    */
   addImageClips(imageUrls: string[], options: {
     clipDuration?: number;
@@ -501,7 +535,7 @@ export class ShotstackJsonBuilder {
     transition?: {
       in?: string;
       out?: string;
-    };
+    } | null;
   } = {}): this {
     const clips: Clip[] = imageUrls.map((imageUrl, index) => ({
       asset: {
@@ -513,7 +547,9 @@ export class ShotstackJsonBuilder {
       fit: options.fit || 'cover',
       scale: options.scale || 1.05,
       effect: options.effect,
-      transition: index > 0 ? (options.transition || { in: 'fade', out: 'fade' }) : undefined
+      transition: index > 0 && options.transition !== null
+        ? (options.transition || { in: 'fade', out: 'fade' })
+        : undefined
     }));
 
     this.edit.timeline.tracks.push({ clips });
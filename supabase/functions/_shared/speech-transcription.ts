@@ -0,0 +1,146 @@
+/**
+ * Speech Transcription
+ *
+ * Prices video editor transcriptions and turns ElevenLabs speech-to-text
+ * words for each piece of media into words timed on the editor timeline.
+ * Shared by transcribe-video-editor and the editor's cost estimate.
+ *
+ * Import-free so the client can use it too.
+ */
+
+// Same rate as the ElevenLabs Speech to Text model
+export const TRANSCRIPTION_CREDITS_PER_MINUTE = 1.75;
+export const MAX_TRANSCRIPTION_SOURCES = 10;
+export const MAX_TRANSCRIPTION_SECONDS = 10 * 60;
+
+// A stretch of the timeline whose speech comes from one editor asset
+export interface TranscriptionSource {
+  assetId: string; // video_editor_assets id
+  start: number; // timeline seconds where the media starts playing
+  trimStart: number; // seconds into the media
+  duration: number; // seconds played
+}
+
+export interface TranscribedWord {
+  text: string;
+  start: number; // timeline seconds
+  end: number;
+}
+
+// An ElevenLabs speech-to-text word; spacing and audio events are skipped
+export interface SpeechToTextWord {
+  text: string;
+  start: number;
+  end: number;
+  type?: string;
+}
+
+// Words closer than this with the same text are one word heard on two sources
+const DUPLICATE_WORD_SECONDS = 0.3;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/** Cost of transcribing `seconds` of media, rounded up to 0.1 credit */
+export function getTranscriptionCredits(seconds: number): number {
+  return Math.ceil((seconds / 60) * TRANSCRIPTION_CREDITS_PER_MINUTE * 10) / 10;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check transcription sources from an untrusted client: asset ids and sane
+ * times. What they cost is decided from the assets, see getTranscriptionSeconds.
+ */
+export function validateTranscriptionSources(
+  value: unknown
+): { sources: TranscriptionSource[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) return { error: 'No speech sources provided' };
+  if (value.length > MAX_TRANSCRIPTION_SOURCES) {
+    return { error: `At most ${MAX_TRANSCRIPTION_SOURCES} speech sources can be transcribed at once` };
+  }
+
+  const sources: TranscriptionSource[] = [];
+  for (const item of value as Array<Record<string, unknown>>) {
+    const { assetId, start, trimStart, duration } = item ?? {};
+    if (typeof assetId !== 'string' || !assetId) return { error: 'Speech sources must be editor assets' };
+    if (!isNumber(start) || !isNumber(trimStart) || !isNumber(duration) || start < 0 || trimStart < 0 || duration <= 0) {
+      return { error: 'Invalid speech source timing' };
+    }
+    sources.push({ assetId, start, trimStart, duration });
+  }
+  return { sources };
+}
+
+/**
+ * Seconds billed for transcribing the sources: the whole of every asset
+ * used, once per asset, since the whole file is sent for transcription.
+ * `assetDurations` maps asset ids to their full length in seconds.
+ */
+export function getTranscriptionSeconds(
+  sources: TranscriptionSource[],
+  assetDurations: Record<string, number | null | undefined>
+): { seconds: number } | { error: string } {
+  let seconds = 0;
+  for (const assetId of new Set(sources.map(source => source.assetId))) {
+    const duration = assetDurations[assetId];
+    if (!isNumber(duration) || duration <= 0) return { error: 'The length of a speech source is unknown' };
+    seconds += duration;
+  }
+
+  if (seconds > MAX_TRANSCRIPTION_SECONDS) {
+    return { error: `Transcriptions are limited to ${MAX_TRANSCRIPTION_SECONDS / 60} minutes of media` };
+  }
+  return { seconds: round(seconds) };
+}
+
+/** How far into a file ElevenLabs heard anything, spacing included */
+export function getTranscribedSeconds(words: SpeechToTextWord[]): number {
+  return words.reduce((end, word) => Math.max(end, isNumber(word.end) ? word.end : 0), 0);
+}
+
+/**
+ * Storage path of an asset's file if it lies in the user's own folder of the
+ * content bucket, from its recorded path or else its public storage URL
+ * (`publicBucketUrl` is the bucket's public URL prefix, ending in a slash)
+ */
+export function getOwnedStoragePath(
+  asset: { url: string; storage_path: string | null },
+  userId: string,
+  publicBucketUrl: string
+): string | null {
+  let path = asset.storage_path || '';
+  if (!path && asset.url.startsWith(publicBucketUrl)) {
+    path = decodeURIComponent(asset.url.slice(publicBucketUrl.length).split('?')[0]);
+  }
+  const owned = path.startsWith(`${userId}/`) && !path.split('/').includes('..');
+  return owned ? path : null;
+}
+
+/** Words spoken in the played part of a source, moved onto the timeline */
+export function toTimelineWords(words: SpeechToTextWord[], source: TranscriptionSource): TranscribedWord[] {
+  const mediaEnd = source.trimStart + source.duration;
+  const toTimeline = (time: number) => round(time - source.trimStart + source.start);
+  return words
+    .filter(w => (w.type ?? 'word') === 'word' && w.text.trim() && w.start >= source.trimStart && w.start < mediaEnd)
+    .map(w => ({
+      text: w.text.trim(),
+      start: toTimeline(w.start),
+      end: toTimeline(Math.max(w.start, Math.min(w.end, mediaEnd))),
+    }));
+}
+
+/**
+ * Combine the words of every source in timeline order. Speech heard on two
+ * overlapping sources (a video's own sound and its voiceover, say) is kept once.
+ */
+export function mergeTranscribedWords(wordLists: TranscribedWord[][]): TranscribedWord[] {
+  const merged: TranscribedWord[] = [];
+  for (const word of wordLists.flat().sort((a, b) => a.start - b.start)) {
+    const duplicate = merged.some(kept =>
+      Math.abs(kept.start - word.start) < DUPLICATE_WORD_SECONDS &&
+      kept.text.toLowerCase() === word.text.toLowerCase()
+    );
+    if (!duplicate) merged.push(word);
+  }
+  return merged;
+}
@@ -53,6 +53,7 @@ function getMimeType(extension: string, contentType: string): string {
     'txt': 'text/plain',
     'json': 'application/json',
     'pdf': 'application/pdf',
+    'zip': 'application/zip',
   };
 
   const mime = mimeTypes[extension.toLowerCase()];
@@ -0,0 +1,219 @@
+/**
+ * Storyboard Cast
+ *
+ * A storyboard's cast and style bible: characters, locations and overall
+ * looks, each with a description, reference images and a seed. Scene
+ * image requests pick up every entry their prompt mentions - style entries
+ * apply to all scenes - so the same protagonist looks the same from scene
+ * to scene. Shared by check-storyboard-consistency and the storyboard
+ * editor, which injects the cast into scene image requests.
+ *
+ * Import-free, so the client can use it too.
+ */
+
+export type CastKind = 'character' | 'location' | 'style';
+
+export const CAST_KINDS: CastKind[] = ['character', 'location', 'style'];
+
+export const MAX_CAST_MEMBERS = 20;
+export const MAX_CAST_REFERENCE_IMAGES = 4;
+export const MAX_CAST_DESCRIPTION_LENGTH = 1000;
+
+// Credits per scene image compared against the cast
+export const CONSISTENCY_CHECK_COST = 0.2;
+// Cast entries scored below this (0-10) count as drifted
+export const CONSISTENCY_THRESHOLD = 6;
+
+export interface CastMember {
+  id: string;
+  kind: CastKind;
+  name: string;
+  aliases: string[];
+  description: string;
+  referenceImageUrls: string[];
+  seed: number | null;
+}
+
+// storyboard_cast row, as stored
+export interface StoryboardCastRow {
+  id: string;
+  kind: string;
+  name: string;
+  aliases: string[] | null;
+  description: string | null;
+  reference_image_urls: string[] | null;
+  seed: number | null;
+}
+
+export function isCastKind(value: unknown): value is CastKind {
+  return typeof value === 'string' && (CAST_KINDS as string[]).includes(value);
+}
+
+export function toCastMember(row: StoryboardCastRow): CastMember {
+  return {
+    id: row.id,
+    kind: isCastKind(row.kind) ? row.kind : 'character',
+    name: row.name,
+    aliases: row.aliases ?? [],
+    description: row.description ?? '',
+    referenceImageUrls: row.reference_image_urls ?? [],
+    seed: row.seed,
+  };
+}
+
+/**
+ * Split a comma-separated alias list as typed in the cast editor
+ */
+export function parseAliases(value: string): string[] {
+  const aliases = value.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0);
+  return aliases.filter((alias, index) => aliases.findIndex(a => a.toLowerCase() === alias.toLowerCase()) === index);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether the text names the cast member or one of its aliases as a whole
+ * word - "Mia" and "Mia's" match, "Miami" does not
+ */
+export function mentionsCastMember(text: string, member: CastMember): boolean {
+  const names = [member.name, ...member.aliases].map(name => name.trim()).filter(name => name.length > 0);
+  return names.some(name =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text)
+  );
+}
+
+const KIND_ORDER: Record<CastKind, number> = { character: 0, location: 1, style: 2 };
+
+/**
+ * Cast entries that apply to a scene: those its prompt mentions plus every
+ * style entry, characters first, then locations, then styles
+ */
+export function getSceneCast(prompt: string, cast: CastMember[]): CastMember[] {
+  return cast
+    .filter(member => member.kind === 'style' || mentionsCastMember(prompt, member))
+    .map((member, index) => ({ member, index }))
+    .sort((a, b) => KIND_ORDER[a.member.kind] - KIND_ORDER[b.member.kind] || a.index - b.index)
+    .map(({ member }) => member);
+}
+
+/**
+ * The scene prompt with the descriptions of its cast appended, so models
+ * without reference images still get the same wording every time
+ */
+export function buildCastPrompt(prompt: string, sceneCast: CastMember[]): string {
+  const notes = sceneCast
+    .filter(member => member.description.trim().length > 0)
+    .map(member => member.kind === 'style'
+      ? `Style: ${member.description.trim()}`
+      : `${member.name}: ${member.description.trim()}`);
+
+  if (notes.length === 0) return prompt;
+  return `${prompt.trim()}\n\n${notes.join('\n')}`;
+}
+
+/**
+ * Reference images for a scene, at most `limit`. Every entry gets its first
+ * image before any gets a second, in scene cast order.
+ */
+export function getCastReferenceImages(sceneCast: CastMember[], limit: number): string[] {
+  const images: string[] = [];
+  const rounds = Math.max(0, ...sceneCast.map(member => member.referenceImageUrls.length));
+
+  for (let round = 0; round < rounds; round++) {
+    for (const member of sceneCast) {
+      const url = member.referenceImageUrls[round];
+      if (url && !images.includes(url)) images.push(url);
+    }
+  }
+
+  return images.slice(0, Math.max(0, limit));
+}
+
+/**
+ * Seed of the first scene cast entry that has one
+ */
+export function getCastSeed(sceneCast: CastMember[]): number | null {
+  return sceneCast.find(member => member.seed !== null)?.seed ?? null;
+}
+
+// ─── Consistency check ──────────────────────────────────────────────────
+
+export interface CastConsistencyResult {
+  castId: string;
+  name: string;
+  score: number; // 0-10, 10 = identical to the references
+  issue: string | null;
+}
+
+// storyboard_scenes.consistency: the last check of a scene image
+export interface SceneConsistency {
+  imageUrl: string;
+  checkedAt: string;
+  results: CastConsistencyResult[];
+}
+
+/**
+ * Scene cast entries a consistency check can compare against
+ */
+export function getCheckableCast(sceneCast: CastMember[]): CastMember[] {
+  return sceneCast.filter(member => member.referenceImageUrls.length > 0 || member.description.trim().length > 0);
+}
+
+/**
+ * Instructions for scoring a scene image against its cast
+ */
+export function buildConsistencyPrompt(sceneCast: CastMember[]): string {
+  const entries = sceneCast.map(member => {
+    const what = member.kind === 'character'
+      ? 'face, hair, build and clothing'
+      : member.kind === 'location' ? 'architecture, landmarks and layout' : 'palette, medium and lighting';
+    const description = member.description.trim() ? ` Described as: ${member.description.trim()}` : '';
+    const references = member.referenceImageUrls.length > 0 ? ' Reference images follow.' : '';
+    return `- "${member.name}" (${member.kind}; compare ${what}).${description}${references}`;
+  });
+
+  return `You check storyboard scenes for visual consistency. The last image is the scene. Score from 0 to 10 how faithfully the scene shows each entry below, where 10 means it clearly matches the references and description and 0 means it is unrecognisable or missing. For scores below ${String(CONSISTENCY_THRESHOLD)}, name the main difference in a few words.
+
+${entries.join('\n')}`;
+}
+
+/**
+ * Scores from the model's report, matched to the scene cast by name.
+ * Returns null when the report isn't usable.
+ */
+export function parseConsistencyReport(raw: unknown, sceneCast: CastMember[]): CastConsistencyResult[] | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entries = (raw as { results?: unknown }).results;
+  if (!Array.isArray(entries)) return null;
+
+  const results: CastConsistencyResult[] = [];
+  for (const entry of entries) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { name, score, issue } = entry as { name?: unknown; score?: unknown; issue?: unknown };
+    if (typeof name !== 'string' || typeof score !== 'number' || !Number.isFinite(score)) continue;
+
+    const member = sceneCast.find(m => m.name.toLowerCase() === name.trim().toLowerCase());
+    if (!member || results.some(r => r.castId === member.id)) continue;
+
+    results.push({
+      castId: member.id,
+      name: member.name,
+      score: Math.round(Math.min(10, Math.max(0, score))),
+      issue: typeof issue === 'string' && issue.trim() ? issue.trim().slice(0, 200) : null,
+    });
+  }
+
+  return results.length > 0 ? results : null;
+}
+
+/**
+ * Cast entries the scene image drifted from. A check of an earlier image
+ * says nothing about the current one.
+ */
+export function getDriftedCast(
+  consistency: SceneConsistency | null | undefined,
+  imageUrl: string | null | undefined
+): CastConsistencyResult[] {
+  if (!consistency || !imageUrl || consistency.imageUrl !== imageUrl) return [];
+  return consistency.results.filter(result => result.score < CONSISTENCY_THRESHOLD);
+}
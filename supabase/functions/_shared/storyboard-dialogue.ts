@@ -0,0 +1,366 @@
+/**
+ * Storyboard Dialogue
+ *
+ * Multi-voice storyboards: the narrator (the storyboard's own voice) plus up
+ * to MAX_DIALOGUE_CHARACTERS characters, each with a voice and a subtitle
+ * colour, and scenes told as speaker-tagged lines with an emotion, a pace
+ * and a pause after. A scene's voice_over_text stays the text of its lines
+ * run together, so word budgets and render pricing work unchanged; when the
+ * two drift apart (a script rewrite, a take switch) the voiceover wins and
+ * the narrator reads it.
+ *
+ * The render plays every line as its own JSON2Video scene over the scene's
+ * visual, so speakers follow each other at their real speaking length and
+ * each line's subtitles take its speaker's colour. Kept import-free (apart
+ * from storyboard-script) so the app can re-export it.
+ */
+
+import { countWords } from './storyboard-script.ts';
+
+export type SpeakerRole = 'narrator' | 'character';
+export type VoiceModel = 'azure' | 'elevenlabs';
+export type LineEmotion = 'neutral' | 'cheerful' | 'excited' | 'sad' | 'angry' | 'fearful' | 'whispering' | 'serious';
+export type LinePace = 'slow' | 'normal' | 'fast';
+
+export const LINE_EMOTIONS: LineEmotion[] = ['neutral', 'cheerful', 'excited', 'sad', 'angry', 'fearful', 'whispering', 'serious'];
+export const LINE_PACES: LinePace[] = ['slow', 'normal', 'fast'];
+
+export const NARRATOR_SPEAKER_ID = 'narrator';
+export const MAX_DIALOGUE_CHARACTERS = 4;
+export const MAX_LINES_PER_SCENE = 8;
+export const MAX_LINE_PAUSE_MS = 2000;
+export const MAX_SPEAKER_NAME_LENGTH = 40;
+
+// Subtitle line colours handed to characters in order; the narrator keeps the storyboard's own
+export const SPEAKER_COLORS = ['#7DD3FC', '#FCA5A5', '#86EFAC', '#FDE68A'];
+
+// Azure voices handed to characters until someone picks one - all take the emotion styles below
+export const DEFAULT_CHARACTER_VOICES: { voiceId: string; voiceName: string }[] = [
+  { voiceId: 'en-US-JennyNeural', voiceName: 'Jenny' },
+  { voiceId: 'en-US-GuyNeural', voiceName: 'Guy' },
+  { voiceId: 'en-US-AriaNeural', voiceName: 'Aria' },
+  { voiceId: 'en-US-DavisNeural', voiceName: 'Davis' },
+  { voiceId: 'en-US-SaraNeural', voiceName: 'Sara' },
+  { voiceId: 'en-US-TonyNeural', voiceName: 'Tony' },
+];
+
+export interface DialogueSpeaker {
+  id: string;
+  name: string;
+  role: SpeakerRole;
+  voiceId: string;
+  voiceName: string;
+  voiceModel: VoiceModel;
+  /** Subtitle line colour; null keeps the storyboard's subtitle settings */
+  color: string | null;
+}
+
+export interface DialogueLine {
+  speakerId: string;
+  text: string;
+  emotion: LineEmotion;
+  pace: LinePace;
+  pauseAfterMs: number;
+}
+
+/** The storyboard voice the narrator speaks with */
+export interface NarratorVoice {
+  voiceId: string;
+  voiceName: string;
+  voiceModel?: string | null;
+}
+
+const AZURE_EMOTION_STYLES: Record<LineEmotion, string | null> = {
+  neutral: null,
+  cheerful: 'cheerful',
+  excited: 'excited',
+  sad: 'sad',
+  angry: 'angry',
+  fearful: 'terrified',
+  whispering: 'whispering',
+  serious: 'serious',
+};
+
+const AZURE_PACE_RATES: Record<LinePace, string | null> = {
+  slow: '-15%',
+  normal: null,
+  fast: '+15%',
+};
+
+const PACE_SPEED: Record<LinePace, number> = {
+  slow: 0.85,
+  normal: 1,
+  fast: 1.15,
+};
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVoiceModel = (value: unknown): value is VoiceModel => value === 'azure' || value === 'elevenlabs';
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+export function getNarrator(voice: NarratorVoice): DialogueSpeaker {
+  return {
+    id: NARRATOR_SPEAKER_ID,
+    name: 'Narrator',
+    role: 'narrator',
+    voiceId: voice.voiceId,
+    voiceName: voice.voiceName,
+    voiceModel: isVoiceModel(voice.voiceModel) ? voice.voiceModel : 'azure',
+    color: null,
+  };
+}
+
+/**
+ * Slug a character name into a speaker id, e.g. "Dr. Mia Chen" → "dr-mia-chen"
+ */
+export function toSpeakerId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'character';
+}
+
+/**
+ * Split a comma-separated list of character names as typed in the
+ * storyboard form, dropping duplicates and the narrator
+ */
+export function parseCharacterNames(value: string): string[] {
+  const names = value
+    .split(',')
+    .map(name => normalizeText(name).slice(0, MAX_SPEAKER_NAME_LENGTH))
+    .filter(name => name.length > 0 && name.toLowerCase() !== NARRATOR_SPEAKER_ID);
+  return names.filter((name, index) => names.findIndex(n => n.toLowerCase() === name.toLowerCase()) === index);
+}
+
+/**
+ * A new character with the next free default voice and colour
+ */
+export function createCharacter(name: string, existing: DialogueSpeaker[], narratorVoiceId: string): DialogueSpeaker {
+  const baseId = toSpeakerId(name);
+  let id = baseId;
+  for (let suffix = 2; id === NARRATOR_SPEAKER_ID || existing.some(speaker => speaker.id === id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+
+  const takenVoices = new Set([narratorVoiceId, ...existing.map(speaker => speaker.voiceId)]);
+  const voice = DEFAULT_CHARACTER_VOICES.find(v => !takenVoices.has(v.voiceId))
+    ?? DEFAULT_CHARACTER_VOICES[existing.length % DEFAULT_CHARACTER_VOICES.length];
+  const takenColors = new Set(existing.map(speaker => speaker.color));
+  const color = SPEAKER_COLORS.find(c => !takenColors.has(c)) ?? SPEAKER_COLORS[existing.length % SPEAKER_COLORS.length];
+
+  return {
+    id,
+    name: normalizeText(name).slice(0, MAX_SPEAKER_NAME_LENGTH),
+    role: 'character',
+    voiceId: voice.voiceId,
+    voiceName: voice.voiceName,
+    voiceModel: 'azure',
+    color,
+  };
+}
+
+export function createCharacters(names: string[], narratorVoiceId: string): DialogueSpeaker[] {
+  if (names.length > MAX_DIALOGUE_CHARACTERS) {
+    throw new Error(`A storyboard can have at most ${MAX_DIALOGUE_CHARACTERS} dialogue characters`);
+  }
+  return names.reduce<DialogueSpeaker[]>(
+    (characters, name) => [...characters, createCharacter(name, characters, narratorVoiceId)],
+    [],
+  );
+}
+
+/**
+ * Characters as stored in `storyboards.dialogue_characters`; malformed
+ * entries are dropped
+ */
+export function toDialogueCharacters(raw: unknown): DialogueSpeaker[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): DialogueSpeaker[] => {
+    if (!isRecord(entry)) return [];
+    const { id, name, voiceId, voiceName, voiceModel, color } = entry;
+    if (typeof id !== 'string' || id === NARRATOR_SPEAKER_ID || typeof name !== 'string' || !name.trim()) return [];
+    if (typeof voiceId !== 'string' || !voiceId) return [];
+
+    return [{
+      id,
+      name: name.trim(),
+      role: 'character',
+      voiceId,
+      voiceName: typeof voiceName === 'string' && voiceName ? voiceName : voiceId,
+      voiceModel: isVoiceModel(voiceModel) ? voiceModel : 'azure',
+      color: typeof color === 'string' && COLOR_PATTERN.test(color) ? color : null,
+    }];
+  }).slice(0, MAX_DIALOGUE_CHARACTERS);
+}
+
+/** The narrator followed by the characters */
+export function getDialogueSpeakers(narratorVoice: NarratorVoice, characters: DialogueSpeaker[]): DialogueSpeaker[] {
+  return [getNarrator(narratorVoice), ...characters];
+}
+
+/**
+ * Lines from the model or from `storyboard_scenes.dialogue`. Speakers may be
+ * named by id or by name; unknown speakers fall back to the narrator, empty
+ * lines are dropped and emotion, pace and pause get defaults.
+ */
+export function toDialogueLines(raw: unknown, speakers: DialogueSpeaker[]): DialogueLine[] {
+  if (!Array.isArray(raw)) return [];
+
+  const findSpeaker = (value: unknown) => {
+    if (typeof value !== 'string') return undefined;
+    const key = value.trim().toLowerCase();
+    return speakers.find(speaker => speaker.id === key || speaker.name.toLowerCase() === key);
+  };
+
+  return raw.flatMap((entry): DialogueLine[] => {
+    if (!isRecord(entry)) return [];
+    const text = typeof entry.text === 'string' ? normalizeText(entry.text) : '';
+    if (!text) return [];
+
+    const speaker = findSpeaker(entry.speakerId ?? entry.speaker_id ?? entry.speaker);
+    const emotion = typeof entry.emotion === 'string' ? entry.emotion.trim().toLowerCase() : '';
+    const pace = typeof entry.pace === 'string' ? entry.pace.trim().toLowerCase() : '';
+    const pause = Number(entry.pauseAfterMs ?? entry.pause_after_ms ?? 0);
+
+    return [{
+      speakerId: speaker?.id ?? NARRATOR_SPEAKER_ID,
+      text,
+      emotion: (LINE_EMOTIONS as string[]).includes(emotion) ? emotion as LineEmotion : 'neutral',
+      pace: (LINE_PACES as string[]).includes(pace) ? pace as LinePace : 'normal',
+      pauseAfterMs: Number.isFinite(pause) ? Math.min(Math.max(Math.round(pause), 0), MAX_LINE_PAUSE_MS) : 0,
+    }];
+  }).slice(0, MAX_LINES_PER_SCENE);
+}
+
+/** The scene voiceover the lines add up to */
+export function dialogueToVoiceOverText(lines: DialogueLine[]): string {
+  return lines.map(line => line.text).join(' ');
+}
+
+export function narratorLine(text: string): DialogueLine {
+  return { speakerId: NARRATOR_SPEAKER_ID, text: normalizeText(text), emotion: 'neutral', pace: 'normal', pauseAfterMs: 0 };
+}
+
+/**
+ * The lines a scene is spoken in: its dialogue while that still matches the
+ * voiceover, otherwise the voiceover read by the narrator
+ */
+export function getSceneLines(
+  scene: { voice_over_text: string; dialogue?: unknown },
+  speakers: DialogueSpeaker[],
+): DialogueLine[] {
+  const lines = toDialogueLines(scene.dialogue, speakers);
+  if (lines.length > 0 && dialogueToVoiceOverText(lines) === normalizeText(scene.voice_over_text)) {
+    return lines;
+  }
+  return scene.voice_over_text.trim() ? [narratorLine(scene.voice_over_text)] : [];
+}
+
+/** Rough spoken length of a line, pause included */
+export function estimateLineSeconds(line: DialogueLine, wordsPerSecond = 2.5): number {
+  return countWords(line.text) / (wordsPerSecond * PACE_SPEED[line.pace]) + line.pauseAfterMs / 1000;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * The text a voice element speaks. Azure voices take SSML for emotion and
+ * pace; ElevenLabs voices read plain text and only honour the pause.
+ */
+export function buildLineSpeech(line: DialogueLine, speaker: DialogueSpeaker): string {
+  if (speaker.voiceModel === 'elevenlabs') {
+    return line.pauseAfterMs > 0
+      ? `${line.text} <break time="${(line.pauseAfterMs / 1000).toFixed(1)}s" />`
+      : line.text;
+  }
+
+  let speech = escapeXml(line.text);
+  const rate = AZURE_PACE_RATES[line.pace];
+  if (rate) speech = `<prosody rate="${rate}">${speech}</prosody>`;
+  const style = AZURE_EMOTION_STYLES[line.emotion];
+  if (style) speech = `<mstts:express-as style="${style}">${speech}</mstts:express-as>`;
+  if (line.pauseAfterMs > 0) speech += `<break time="${line.pauseAfterMs}ms"/>`;
+  return speech;
+}
+
+/** What a storyboard scene shows while its lines play */
+export type DialogueVisual =
+  | { type: 'video'; src: string }
+  | { type: 'image'; src: string }
+  | { type: 'prompt'; prompt: string; model: string };
+
+export interface DialogueRenderScene {
+  comment: string;
+  visual: DialogueVisual;
+  lines: DialogueLine[];
+}
+
+export interface DialogueRenderOptions {
+  subtitlesModel: string;
+  /** JSON2Video subtitle settings; each character's colour replaces line-color */
+  subtitleSettings: Record<string, unknown>;
+  zoom: number;
+  wordsPerSecond?: number;
+}
+
+/**
+ * JSON2Video movie scenes for a dialogue storyboard: one per line, each with
+ * the storyboard scene's visual, the line's voice and subtitles in the
+ * speaker's colour. Videos seek to where the previous lines left off so the
+ * clip carries on across a scene's lines.
+ */
+export function buildDialogueMovieScenes(
+  scenes: DialogueRenderScene[],
+  speakers: DialogueSpeaker[],
+  options: DialogueRenderOptions,
+): Record<string, unknown>[] {
+  const narrator = speakers.find(speaker => speaker.id === NARRATOR_SPEAKER_ID) ?? speakers[0];
+
+  return scenes.flatMap(scene => {
+    let elapsed = 0;
+
+    return scene.lines.map((line, index) => {
+      const speaker = speakers.find(s => s.id === line.speakerId) ?? narrator;
+      const seek = Math.round(elapsed * 10) / 10;
+      elapsed += estimateLineSeconds(line, options.wordsPerSecond);
+
+      const visual = scene.visual.type === 'video'
+        ? { type: 'video', src: scene.visual.src, seek, duration: -2, muted: true }
+        : scene.visual.type === 'image'
+          ? { type: 'image', src: scene.visual.src, zoom: options.zoom, duration: -2 }
+          : { type: 'image', model: scene.visual.model, prompt: scene.visual.prompt, zoom: options.zoom, duration: -2 };
+
+      return {
+        comment: `${scene.comment} - line ${index + 1} (${speaker.name})`,
+        elements: [
+          visual,
+          {
+            type: 'voice',
+            text: buildLineSpeech(line, speaker),
+            voice: speaker.voiceModel === 'elevenlabs' ? speaker.voiceName : speaker.voiceId,
+            model: speaker.voiceModel,
+            volume: 1,
+            start: 0,
+          },
+          {
+            type: 'subtitles',
+            language: 'auto',
+            model: options.subtitlesModel,
+            settings: speaker.color
+              ? { ...options.subtitleSettings, 'line-color': speaker.color }
+              : options.subtitleSettings,
+          },
+        ],
+      };
+    });
+  });
+}
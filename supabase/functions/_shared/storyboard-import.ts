@@ -0,0 +1,688 @@
+/**
+ * Storyboard Import
+ *
+ * Builds a storyboard from a script the user already has instead of one the
+ * model writes: a scene-marked script, Markdown, SRT/WebVTT subtitles or
+ * plain text (documents and web pages arrive as Markdown). The user's wording
+ * is kept as written - only markup is removed - and cut into scenes at their
+ * scene markers, headings, paragraphs and sentences; subtitle imports keep
+ * each scene's cue timings. The model only writes the image prompts.
+ * Kept import-free (apart from storyboard-script) so the app can re-export it.
+ */
+
+import { DEFAULT_WORD_RATE, MAX_STORYBOARD_SCENES, countWords } from './storyboard-script.ts';
+
+export type ImportFormat = 'script' | 'markdown' | 'srt' | 'text';
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ['script', 'markdown', 'srt', 'text'];
+
+export const MAX_IMPORT_CHARACTERS = 20000;
+
+/** Imported scripts may run longer than generated ones, up to this many seconds */
+export const MAX_IMPORT_SECONDS = 300;
+
+export const MAX_IMPORT_PDF_BYTES = 5 * 1024 * 1024;
+
+// Same limit as storyboard_scenes.voice_over_text
+const MAX_SEGMENT_CHARACTERS = 1000;
+const TARGET_SEGMENT_WORDS = 25;
+const MAX_SEGMENT_WORDS = 45;
+// A silence this long between subtitle cues is a natural scene break
+const SUBTITLE_SCENE_GAP_SECONDS = 1.5;
+const MAX_TOPIC_LENGTH = 100;
+const MAX_TITLE_WORDS = 12;
+
+/** A passage of the user's script that becomes one scene */
+export interface ImportSegment {
+  text: string;
+  /** Heading or scene label the passage sits under; not spoken */
+  label: string | null;
+  /** Visual direction written in the script (e.g. "VISUAL: ..."); not spoken */
+  visualNote: string | null;
+  /** Cue timings of a subtitle import, in seconds */
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+export interface ImportedScript {
+  format: ImportFormat;
+  topic: string;
+  /** Spoken over the intro: the document title, or else the first passage */
+  intro: string;
+  scenes: ImportSegment[];
+  /** Storyboard length in seconds, a multiple of 5 */
+  duration: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === 'string' && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+const SCENE_MARKER = /^(?:scene|shot|slide|segment|part)\s*#?\s*\d+\b\s*[:.\-–—]?\s*(.*)$/i;
+const SLUGLINE = /^(?:INT|EXT|INT\/EXT|I\/E)\.\s+\S/;
+const VISUAL_PREFIX = /^(?:visuals?|images?|b-?roll|on[\s-]screen|footage|shot|cut to)\s*:\s*(.*)$/i;
+const VOICE_PREFIX = /^(?:vo|v\.o\.|voice[\s-]?over|narrator|narration)\s*:\s*(.*)$/i;
+const THEMATIC_BREAK = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/** The scene marker on a line of a script ("Scene 2: The lab", "[SHOT 3]"), if any */
+const readSceneMarker = (line: string): { label: string } | null => {
+  const trimmed = line.trim().replace(/^#{1,6}\s*/, '');
+  const unwrapped = /^[[(].*[\])]$/.test(trimmed) ? trimmed.slice(1, -1).trim() : trimmed;
+  const marker = SCENE_MARKER.exec(unwrapped);
+  if (marker) return { label: cleanInline(unwrapped) };
+  if (SLUGLINE.test(unwrapped)) return { label: unwrapped };
+  return null;
+};
+
+/** Guesses the format of pasted text when the user leaves it on auto */
+export function detectImportFormat(text: string): ImportFormat {
+  const lines = text.split(/\r?\n/);
+  if (/^\uFEFF?WEBVTT/.test(text) || lines.some(line => TIMING_LINE.test(line))) return 'srt';
+  if (lines.some(line => readSceneMarker(line) !== null)) return 'script';
+  if (lines.some(line => HEADING.test(line) || /^\s*(?:[-*+]|\d+[.)])\s+\S/.test(line)) || /\[[^\]]+\]\([^)]+\)|\*\*[^*]+\*\*/.test(text)) {
+    return 'markdown';
+  }
+  return 'text';
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/** Removes inline Markdown and HTML from a line, keeping the words */
+function cleanInline(text: string): string {
+  return decodeEntities(
+    text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[\^[^\]]+\]/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<https?:\/\/[^>]+>/g, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+      .replace(/(^|[^\w*])([*_])(?=\S)(.+?)(?<=\S)\2(?=[^\w*]|$)/g, '$1$3')
+  ).replace(/\s+/g, ' ').trim();
+}
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'break' }
+  | { kind: 'marker'; label: string }
+  | { kind: 'visual'; text: string }
+  | { kind: 'paragraph'; text: string };
+
+/**
+ * Splits text into headings, scene markers, breaks and paragraphs. Script
+ * direction (visual notes, "VO:" prefixes) is only read in scripts, where it
+ * is expected; elsewhere every line is the user's text.
+ */
+function toBlocks(text: string, format: Exclude<ImportFormat, 'srt'>): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const joined = paragraph.join(' ').replace(/\s+/g, ' ').trim();
+    if (joined) blocks.push({ kind: 'paragraph', text: joined });
+    paragraph = [];
+  };
+
+  // YAML front matter carries metadata, not script
+  const body = text.replace(/^\uFEFF?---\r?\n[\s\S]*?\r?\n---\r?\n/, '').replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    if (format !== 'text') {
+      if (format === 'script') {
+        const marker = readSceneMarker(line);
+        if (marker) {
+          flush();
+          blocks.push({ kind: 'marker', label: marker.label });
+          continue;
+        }
+      }
+      const heading = HEADING.exec(rawLine);
+      if (heading) {
+        flush();
+        const headingText = cleanInline(heading[2]);
+        if (headingText) blocks.push({ kind: 'heading', level: heading[1].length, text: headingText });
+        continue;
+      }
+      if (THEMATIC_BREAK.test(line)) {
+        flush();
+        blocks.push({ kind: 'break' });
+        continue;
+      }
+      // Tables, footnote definitions and reference link definitions are not spoken
+      if (line.startsWith('|') || /^\[[^\]]+\]:\s/.test(line)) continue;
+    }
+
+    let content = format === 'text' ? line : line.replace(/^>\s?/, '').replace(/^(?:[-*+]|\d+[.)])\s+/, '');
+
+    if (format === 'script') {
+      const visual = VISUAL_PREFIX.exec(content);
+      if (visual || /^[[(].*[\])]$/.test(content)) {
+        flush();
+        const note = cleanInline(visual ? visual[1] : content.slice(1, -1));
+        if (note) blocks.push({ kind: 'visual', text: note });
+        continue;
+      }
+      const voice = VOICE_PREFIX.exec(content);
+      if (voice) content = voice[1];
+    }
+
+    paragraph.push(format === 'text' ? content : cleanInline(content));
+  }
+  flush();
+  return blocks;
+}
+
+/** Sentences of a passage, with any sentence too long for a scene cut into word runs */
+function toSentences(text: string): string[] {
+  // Punctuation only ends a sentence before a space, so "3.5" stays whole
+  const sentences = text.match(/\S[\s\S]*?(?:[.!?…]+["'”’)\]]*(?=\s|$)|$)/g) ?? [text];
+  return sentences.map(sentence => sentence.trim()).filter(Boolean).flatMap(sentence => {
+    const words = sentence.split(/\s+/);
+    if (words.length <= MAX_SEGMENT_WORDS && sentence.length <= MAX_SEGMENT_CHARACTERS) return [sentence];
+    const runs: string[] = [];
+    for (let i = 0; i < words.length; i += TARGET_SEGMENT_WORDS) {
+      runs.push(words.slice(i, i + TARGET_SEGMENT_WORDS).join(' '));
+    }
+    return runs;
+  });
+}
+
+const segment = (text: string, label: string | null, visualNote: string | null = null): ImportSegment => ({
+  text,
+  label,
+  visualNote,
+  startSeconds: null,
+  endSeconds: null,
+});
+
+/**
+ * Packs paragraphs into scenes of about TARGET_SEGMENT_WORDS words, breaking
+ * between sentences and preferring paragraph ends
+ */
+function packParagraphs(paragraphs: string[], label: string | null, visualNote: string | null): ImportSegment[] {
+  const segments: ImportSegment[] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      segments.push(segment(current.join(' '), label, segments.length === 0 ? visualNote : null));
+    }
+    current = [];
+    words = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    for (const sentence of toSentences(paragraph)) {
+      const sentenceWords = countWords(sentence);
+      const length = current.join(' ').length + sentence.length + 1;
+      if (words > 0 && (words + sentenceWords > MAX_SEGMENT_WORDS || length > MAX_SEGMENT_CHARACTERS)) flush();
+      current.push(sentence);
+      words += sentenceWords;
+      if (words >= TARGET_SEGMENT_WORDS) flush();
+    }
+    if (words >= TARGET_SEGMENT_WORDS / 2) flush();
+  }
+  flush();
+  return segments;
+}
+
+// A short first line without closing punctuation reads as a title
+const isTitleLike = (text: string): boolean =>
+  countWords(text) <= MAX_TITLE_WORDS && !/[.!?,;:…]["'”’)\]]*$/.test(text);
+
+/** Title and scenes of a script, Markdown document or plain text */
+function segmentDocument(text: string, format: Exclude<ImportFormat, 'srt'>): { title: string | null; segments: ImportSegment[] } {
+  const blocks = toBlocks(text, format);
+  let title: string | null = null;
+
+  const first = blocks[0] as Block | undefined;
+  if (first?.kind === 'heading') {
+    title = first.text;
+    blocks.shift();
+  } else if (first?.kind === 'paragraph' && blocks.length > 1 && isTitleLike(first.text)) {
+    title = first.text;
+    blocks.shift();
+  }
+
+  const segments: ImportSegment[] = [];
+  let label: string | null = null;
+  let visualNote: string | null = null;
+  let paragraphs: string[] = [];
+
+  const closeSection = () => {
+    if (paragraphs.length > 0) {
+      // A script's scenes stay as the user marked them unless too long for one scene
+      const sceneText = paragraphs.join(' ');
+      segments.push(...(format === 'script' && sceneText.length <= MAX_SEGMENT_CHARACTERS
+        ? [segment(sceneText, label, visualNote)]
+        : packParagraphs(paragraphs, label, visualNote)));
+    }
+    paragraphs = [];
+    visualNote = null;
+  };
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading':
+      case 'marker':
+        closeSection();
+        label = block.kind === 'heading' ? block.text : block.label;
+        break;
+      case 'break':
+        closeSection();
+        break;
+      case 'visual':
+        // Direction anywhere in a scene belongs to that scene
+        visualNote = visualNote ? `${visualNote}; ${block.text}` : block.text;
+        break;
+      case 'paragraph':
+        paragraphs.push(block.text);
+        break;
+    }
+  }
+  closeSection();
+
+  return { title, segments };
+}
+
+const parseTimestamp = (match: RegExpExecArray, offset: number): number => {
+  const [hours, minutes, seconds, fraction] = match.slice(offset, offset + 4);
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction.padEnd(3, '0')}`);
+};
+
+/** Reads the cues of an SRT or WebVTT file, dropping styling tags */
+export function parseSubtitleCues(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const block of text.replace(/\r/g, '').split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const timing = TIMING_LINE.exec(lines[timingIndex]);
+    if (!timing) continue;
+    const start = parseTimestamp(timing, 1);
+    const end = parseTimestamp(timing, 5);
+    const cueText = cleanInline(lines.slice(timingIndex + 1).join(' ').replace(/\{\\[^}]*\}/g, ''));
+    if (cueText && end > start) cues.push({ start, end, text: cueText });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Groups subtitle cues into scenes at sentence ends and pauses; each scene
+ * keeps the start of its first cue and the end of its last
+ */
+function segmentSubtitles(text: string): ImportSegment[] {
+  const segments: ImportSegment[] = [];
+  let group: SubtitleCue[] = [];
+  let words = 0;
+
+  const flush = () => {
+    if (group.length > 0) {
+      segments.push({
+        ...segment(group.map(cue => cue.text).join(' '), null),
+        startSeconds: group[0].start,
+        endSeconds: group[group.length - 1].end,
+      });
+    }
+    group = [];
+    words = 0;
+  };
+
+  for (const cue of parseSubtitleCues(text)) {
+    const previous = group[group.length - 1] as SubtitleCue | undefined;
+    const cueWords = countWords(cue.text);
+    if (previous && cue.start - previous.end >= SUBTITLE_SCENE_GAP_SECONDS) flush();
+    if (words > 0 && words + cueWords > MAX_SEGMENT_WORDS) flush();
+
+    group.push(cue);
+    words += cueWords;
+    if (words >= TARGET_SEGMENT_WORDS && /[.!?…]["'”’)\]]*$/.test(cue.text)) flush();
+  }
+  flush();
+  return segments;
+}
+
+const toTopic = (text: string): string => {
+  const firstSentence = toSentences(text)[0] ?? '';
+  if (firstSentence.length <= MAX_TOPIC_LENGTH) return firstSentence;
+  const cut = firstSentence.slice(0, MAX_TOPIC_LENGTH);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1)).trim()}…`;
+};
+
+/**
+ * Cuts an imported script into the intro and scenes, and works out the
+ * storyboard's duration: the last cue's end for subtitles, otherwise the
+ * speaking time at the default rate. Throws with a message for the user when
+ * the script cannot become a storyboard.
+ */
+export function importScript(text: string, format: ImportFormat | 'auto' = 'auto'): ImportedScript {
+  if (text.length > MAX_IMPORT_CHARACTERS) {
+    throw new Error(`Imported text must be ${String(MAX_IMPORT_CHARACTERS)} characters or less`);
+  }
+  const resolvedFormat = format === 'auto' ? detectImportFormat(text) : format;
+
+  const { title, segments } = resolvedFormat === 'srt'
+    ? { title: null, segments: segmentSubtitles(text) }
+    : segmentDocument(text, resolvedFormat);
+
+  if (segments.length === 0) {
+    throw new Error(resolvedFormat === 'srt' ? 'No subtitle cues found' : 'No script text found');
+  }
+  if (!title && segments.length < 2) {
+    throw new Error('The script is too short: a storyboard needs an intro and at least one scene');
+  }
+
+  const intro = title ?? segments[0].text;
+  const scenes = title ? segments : segments.slice(1);
+  const lastEnd = scenes[scenes.length - 1].endSeconds;
+  const seconds = lastEnd ?? (countWords(intro) + scenes.reduce((sum, scene) => sum + countWords(scene.text), 0))
+    / DEFAULT_WORD_RATE.wordsPerSecond;
+  const duration = Math.max(15, Math.ceil(seconds / 5) * 5);
+  if (duration > MAX_IMPORT_SECONDS) {
+    throw new Error(`The script runs about ${String(Math.round(seconds))} seconds; imported storyboards can be at most ${String(MAX_IMPORT_SECONDS)} seconds`);
+  }
+  if (scenes.length > MAX_STORYBOARD_SCENES) {
+    throw new Error(`The script makes ${String(scenes.length)} scenes; storyboards can have at most ${String(MAX_STORYBOARD_SCENES)}`);
+  }
+
+  const topic = toTopic(title ?? intro);
+  return {
+    format: resolvedFormat,
+    topic: topic.length >= 5 ? topic : 'Imported script',
+    intro,
+    scenes,
+    duration,
+  };
+}
+
+/**
+ * Words that fit a subtitle-timed scene at the default speaking rate, so edits
+ * keep the scene in step with its cues; null for untimed scenes
+ */
+export function getTimedSceneWords(scene: { start_seconds?: number | null; end_seconds?: number | null }): number | null {
+  if (scene.start_seconds == null || scene.end_seconds == null) return null;
+  return Math.max(1, Math.floor((scene.end_seconds - scene.start_seconds) * DEFAULT_WORD_RATE.wordsPerSecond));
+}
+
+// ============================================================================
+// Web pages
+// ============================================================================
+
+const DROPPED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'aside', 'form', 'button', 'figure'];
+
+/**
+ * Readable text of a web page as Markdown: the article (or main content, or
+ * body) with headings kept and navigation, scripts and media removed. The
+ * page title becomes the heading when the content has none.
+ */
+export function htmlToImportText(html: string): string {
+  const pageTitle = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const region = (/<article[\s>][\s\S]*<\/article>/i.exec(html)
+    ?? /<main[\s>][\s\S]*<\/main>/i.exec(html)
+    ?? /<body[\s>][\s\S]*<\/body>/i.exec(html))?.[0] ?? html;
+  const isBody = !/^<(?:article|main)/i.test(region);
+
+  let content = region.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of isBody ? [...DROPPED_ELEMENTS, 'header', 'footer'] : DROPPED_ELEMENTS) {
+    content = content.replace(new RegExp(`<${tag}[\\s>][\\s\\S]*?<\\/${tag}>`, 'gi'), '');
+  }
+
+  content = content
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, ' ')}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(?:p|div|section|article|main|header|footer|ul|ol|li|blockquote|pre|table|tr)[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  const text = decodeEntities(content)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (/^#\s/m.test(text) || !pageTitle) return text;
+  // "Post title | Site name" - the site name is not part of the script
+  const title = decodeEntities(pageTitle).replace(/\s+/g, ' ').trim().replace(/\s+[|–—-]\s+[^|–—-]+$/, '');
+  return title ? `# ${title}\n\n${text}` : text;
+}
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const parts = address.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part) || part < 0 || part > 255)) return false;
+  const [a, b] = parts;
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19));
+};
+
+/** The eight 16-bit groups of an IPv6 address, or null if it is not one */
+const parseIPv6 = (address: string): number[] | null => {
+  let ip = address;
+  // A trailing dotted IPv4 part fills the last two groups
+  const dotted = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  if (dotted) {
+    const parts = dotted[2].split('.').map(Number);
+    if (parts.some(part => part > 255)) return null;
+    ip = `${dotted[1]}${((parts[0] << 8) | parts[1]).toString(16)}:${((parts[2] << 8) | parts[3]).toString(16)}`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const toIPv4 = (high: number, low: number): string =>
+  [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+
+/** Whether an IP address is loopback, private, link-local or otherwise not on the public internet */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return isPrivateIPv4(ip);
+  if (!ip.includes(':')) return false;
+
+  // Anything that does not parse is refused rather than guessed at
+  const groups = parseIPv6(ip.replace(/%.*$/, ''));
+  if (!groups) return true;
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+
+  // IPv4-compatible (::a.b.c.d, including :: and ::1), IPv4-mapped
+  // (::ffff:a.b.c.d), IPv4-translated (::ffff:0:a.b.c.d) and NAT64
+  // (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 address. URL
+  // rewrites all of these into hex groups.
+  const prefixIsZero = g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0;
+  if (prefixIsZero && g4 === 0 && (g5 === 0 || g5 === 0xffff)) return isPrivateIPv4(toIPv4(g6, g7));
+  if (prefixIsZero && g4 === 0xffff && g5 === 0) return isPrivateIPv4(toIPv4(g6, g7));
+  if (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return isPrivateIPv4(toIPv4(g6, g7));
+  }
+  // 6to4 (2002:a.b.c.d::/48) carries an IPv4 address in its second and third groups
+  if (g0 === 0x2002) return isPrivateIPv4(toIPv4(g1, g2));
+
+  return (g0 & 0xfe00) === 0xfc00 // unique local
+    || (g0 & 0xffc0) === 0xfe80 // link-local
+    || (g0 & 0xffc0) === 0xfec0 // site-local
+    || (g0 & 0xff00) === 0xff00 // multicast
+    || (g0 === 0x64 && g1 === 0xff9b) // local-use NAT64
+    || (g0 === 0x2001 && (g1 === 0 || g1 === 0xdb8)) // Teredo, documentation
+    || (g0 === 0x100 && g1 === 0 && g2 === 0 && g3 === 0) // discard-only
+    || prefixIsZero;
+}
+
+/**
+ * Whether a URL may be fetched for an import: http(s) on the default ports,
+ * no credentials, and not an internal host. Hostnames still need their
+ * addresses checked with isPrivateAddress once resolved.
+ */
+export function isPublicHttpUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+  if (url.username || url.password || url.port) return false;
+
+  const host = url.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false;
+  }
+  return !isPrivateAddress(host);
+}
+
+// ============================================================================
+// Image prompts
+// ============================================================================
+
+export interface ImportVisualsPromptOptions {
+  script: ImportedScript;
+  style: string;
+  styleGuideline: string;
+  tone: string;
+  mediaType: string;
+}
+
+/** Visuals of one imported scene, with the user's text and timings */
+export interface ImportedScene {
+  voiceOverText: string;
+  imagePrompt: string | null;
+  imagePrompt2: string | null;
+  videoSearchQuery: string | null;
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+/**
+ * Prompt asking the model for the visuals of an imported script. The script
+ * is sent numbered and marked final; the response has the same shape as a
+ * generated storyboard's, without voiceover.
+ */
+export function buildImportVisualsPrompt(options: ImportVisualsPromptOptions): { system: string; user: string } {
+  const { script, style, styleGuideline, tone, mediaType } = options;
+  const count = script.scenes.length;
+  const sceneShape = mediaType === 'video'
+    ? '{ "videoSearchQuery": "abstract loop or motion background keywords" }'
+    : `{ "imagePrompt": "${style} image illustrating the first half of the passage", "imagePrompt2": "${style} image illustrating the second half of the passage" }`;
+
+  const system = `You are a visual director for faceless videos. The user wrote the script; it is final. Do NOT rewrite, shorten or add to it - only plan the visuals.
+
+OUTPUT FORMAT (strict JSON only):
+{
+  "variables": {
+    "introImagePrompt": "${style} image for the intro",
+    "introImagePrompt2": "${style} image for the end of the intro",
+    "scenes": [${sceneShape}]
+  }
+}
+
+RULES:
+- Return exactly ${String(count)} scene${count === 1 ? '' : 's'}, one per numbered passage, in order
+- Each prompt DIRECTLY illustrates what its passage says; follow any visual note given with a passage
+${mediaType === 'video'
+    ? '- videoSearchQuery: abstract loop or motion backgrounds (e.g. "neon tunnel loop"), never literal scenes'
+    : `- All prompts MUST start with "${style}" then add "${styleGuideline}"
+- imagePrompt and imagePrompt2 show different things
+- No written words, captions or logos in the images`}
+- The visuals suit a ${tone} tone`;
+
+  const passages = script.scenes.map((scene, index) => {
+    const context = [
+      scene.label ? `Section: ${scene.label}` : null,
+      scene.visualNote ? `Visual note: ${scene.visualNote}` : null,
+    ].filter(Boolean).join(' | ');
+    return `${String(index + 1)}. ${context ? `[${context}] ` : ''}${scene.text}`;
+  });
+
+  const user = `Topic: ${script.topic}
+
+Intro: ${script.intro}
+
+Passages:
+${passages.join('\n')}`;
+
+  return { system, user };
+}
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const clip = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length).trim()}…` : text);
+
+/**
+ * Pairs the model's visuals with the imported scenes by position. The text
+ * always comes from the import; a scene the model skipped gets a prompt
+ * made from its own text.
+ */
+export function mergeImportVisuals(script: ImportedScript, rawScenes: unknown, style: string, mediaType: string): ImportedScene[] {
+  const visuals = Array.isArray(rawScenes) ? rawScenes : [];
+
+  return script.scenes.map((scene, index) => {
+    const item: unknown = visuals[index];
+    const visual = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+    const imagePrompt = readString(visual.imagePrompt ?? visual.image_prompt);
+    const imagePrompt2 = readString(visual.imagePrompt2 ?? visual.image_prompt_2);
+    const videoSearchQuery = readString(visual.videoSearchQuery ?? visual.video_search_query);
+
+    return {
+      voiceOverText: scene.text,
+      imagePrompt: mediaType === 'video' ? null : imagePrompt || `${style} image illustrating: ${clip(scene.visualNote ?? scene.text, 200)}`,
+      imagePrompt2: mediaType === 'video' ? null : imagePrompt2 || null,
+      videoSearchQuery: mediaType === 'video' ? videoSearchQuery || 'abstract motion loop' : null,
+      startSeconds: scene.startSeconds,
+      endSeconds: scene.endSeconds,
+    };
+  });
+}
@@ -0,0 +1,264 @@
+/**
+ * Storyboard script editing
+ *
+ * Word budgets, the alternate-take history kept per scene, and the prompt /
+ * response handling for context-aware script operations (rewrite a scene,
+ * insert or split scenes, change the tone from a scene onwards). Kept
+ * import-free so the app can re-export it.
+ */
+
+export type ScriptOperation = 'rewrite' | 'insert' | 'split' | 'tone';
+
+export const SCRIPT_OPERATIONS: readonly ScriptOperation[] = ['rewrite', 'insert', 'split', 'tone'];
+
+export type SceneTakeSource = 'original' | 'rewrite' | 'insert' | 'split' | 'tone' | 'manual';
+
+/** One version of a scene's script; the scene row holds whichever take is active */
+export interface SceneTake {
+  id: string;
+  voiceOverText: string;
+  imagePrompt: string;
+  imagePrompt2: string | null;
+  source: SceneTakeSource;
+  /** Instruction or tone the take was written with */
+  note: string | null;
+  createdAt: string;
+}
+
+/** Scene text as written by the model */
+export interface SceneDraft {
+  voiceOverText: string;
+  imagePrompt: string;
+  imagePrompt2: string | null;
+}
+
+export interface WordBudget {
+  total: number;
+  intro: number;
+  perScene: number;
+}
+
+/** Credits per script operation, whatever the number of scenes it writes */
+export const SCRIPT_EDIT_COST = 5;
+
+/** Takes kept per scene; the oldest are dropped first */
+export const MAX_SCENE_TAKES = 8;
+
+export const MAX_SCRIPT_INSTRUCTION_LENGTH = 500;
+
+/** Storyboards stay within the scene count `generate-storyboard` can produce */
+export const MAX_STORYBOARD_SCENES = 30;
+
+const TAKE_SOURCES: readonly SceneTakeSource[] = ['original', 'rewrite', 'insert', 'split', 'tone', 'manual'];
+
+export function isScriptOperation(value: unknown): value is ScriptOperation {
+  return typeof value === 'string' && (SCRIPT_OPERATIONS as readonly string[]).includes(value);
+}
+
+/** Speaking rate and intro share a word budget is computed from */
+export interface WordRate {
+  wordsPerSecond: number;
+  introShare: number;
+  maxIntroWords: number;
+}
+
+export const DEFAULT_WORD_RATE: WordRate = { wordsPerSecond: 2.5, introShare: 0.15, maxIntroWords: 20 };
+
+/**
+ * Word budget for a script of `sceneCount` scenes (by default 2.5
+ * words/second, ~15% for the intro). Recomputed whenever scenes are
+ * inserted or split so the video keeps its duration.
+ */
+export function getWordBudget(duration: number, sceneCount: number, rate: WordRate = DEFAULT_WORD_RATE): WordBudget {
+  const total = Math.floor(duration * rate.wordsPerSecond);
+  const intro = Math.min(rate.maxIntroWords, Math.floor(total * rate.introShare));
+  const perScene = Math.max(1, Math.floor((total - intro) / Math.max(1, sceneCount)));
+  return { total, intro, perScene };
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/** Reads a `takes` JSONB value, dropping anything malformed */
+export function toSceneTakes(value: unknown): SceneTake[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): SceneTake[] => {
+    if (!item || typeof item !== 'object') return [];
+    const take = item as Record<string, unknown>;
+    if (typeof take.id !== 'string' || typeof take.voiceOverText !== 'string' || typeof take.imagePrompt !== 'string') {
+      return [];
+    }
+    return [{
+      id: take.id,
+      voiceOverText: take.voiceOverText,
+      imagePrompt: take.imagePrompt,
+      imagePrompt2: typeof take.imagePrompt2 === 'string' ? take.imagePrompt2 : null,
+      source: TAKE_SOURCES.includes(take.source as SceneTakeSource) ? take.source as SceneTakeSource : 'manual',
+      note: typeof take.note === 'string' ? take.note : null,
+      createdAt: typeof take.createdAt === 'string' ? take.createdAt : '',
+    }];
+  });
+}
+
+const sameText = (a: string, b: string) => a.trim() === b.trim();
+
+/** The take the scene currently shows, or null after a manual edit */
+export function getActiveTake(
+  scene: { voiceOverText: string; imagePrompt: string },
+  takes: SceneTake[],
+): SceneTake | null {
+  for (let i = takes.length - 1; i >= 0; i--) {
+    const take = takes[i];
+    if (sameText(take.voiceOverText, scene.voiceOverText) && sameText(take.imagePrompt, scene.imagePrompt)) {
+      return take;
+    }
+  }
+  return null;
+}
+
+/**
+ * Adds `next` to the history. The text the scene shows now is kept as a take
+ * first if no take holds it yet (the first generation, or a manual edit), so
+ * switching never loses a version.
+ */
+export function addSceneTake(takes: SceneTake[], current: SceneTake, next?: SceneTake): SceneTake[] {
+  const history = getActiveTake(current, takes)
+    ? [...takes]
+    : [...takes, { ...current, source: takes.length === 0 ? 'original' as const : current.source }];
+
+  if (next) history.push(next);
+  return history.slice(-MAX_SCENE_TAKES);
+}
+
+/**
+ * Numbered script outline for the model. Scenes in `focus` (0-based, inclusive)
+ * are marked as the ones being written.
+ */
+export function buildScriptOutline(
+  intro: string,
+  scenes: Array<{ voiceOverText: string }>,
+  focus?: { from: number; to: number },
+): string {
+  const lines = [`Intro: ${intro.trim() || '(none)'}`];
+  scenes.forEach((scene, index) => {
+    const marker = focus && index >= focus.from && index <= focus.to ? '>> ' : '';
+    lines.push(`${marker}Scene ${String(index + 1)}: ${scene.voiceOverText.trim()}`);
+  });
+  return lines.join('\n');
+}
+
+export interface ScriptEditPromptOptions {
+  operation: ScriptOperation;
+  topic: string;
+  style: string;
+  tone: string;
+  wordsPerScene: number;
+  intro: string;
+  scenes: Array<{ voiceOverText: string }>;
+  /** 0-based scene the operation applies to; for insert, the scene the new one goes before (scenes.length = at the end) */
+  index: number;
+  instruction?: string | null;
+}
+
+/** Number of scenes the model must return for an operation */
+export function getDraftCount(operation: ScriptOperation, sceneCount: number, index: number): number {
+  switch (operation) {
+    case 'split':
+      return 2;
+    case 'tone':
+      return sceneCount - index;
+    default:
+      return 1;
+  }
+}
+
+export function buildScriptEditPrompt(options: ScriptEditPromptOptions): { system: string; user: string } {
+  const { operation, topic, style, tone, wordsPerScene, intro, scenes, index, instruction } = options;
+  const count = getDraftCount(operation, scenes.length, index);
+  const sceneNumber = index + 1;
+
+  const system = `You are a viral faceless video creator editing an existing video script scene by scene.
+
+OUTPUT FORMAT (strict JSON only):
+{
+  "scenes": [
+    {
+      "voiceOverText": "Scene voiceover (${String(Math.max(1, wordsPerScene - 2))} to ${String(wordsPerScene)} words MAX)",
+      "imagePrompt": "${style} image that illustrates the first half of the voiceover",
+      "imagePrompt2": "${style} image that illustrates the second half of the voiceover"
+    }
+  ]
+}
+
+RULES:
+- Return exactly ${String(count)} scene${count === 1 ? '' : 's'}, in script order
+- Each voiceover: ${String(Math.max(1, wordsPerScene - 2))} to ${String(wordsPerScene)} words (NO MORE - the video duration depends on it)
+- The script must stay one continuous narrative: pick up from the scene before and lead into the scene after
+- Be specific to the topic; avoid clichéd transitions like "but here's the twist"
+- Image prompts MUST start with "${style}" and show different things
+- Voiceover: concise, engaging, 6th-8th grade language`;
+
+  const outline = buildScriptOutline(intro, scenes, operation === 'insert'
+    ? undefined
+    : { from: index, to: operation === 'tone' ? scenes.length - 1 : index });
+
+  let task: string;
+  switch (operation) {
+    case 'rewrite':
+      task = `Rewrite scene ${String(sceneNumber)} (marked >>) in a ${tone} tone so it flows from the scene before it into the scene after it.`;
+      break;
+    case 'insert':
+      task = index >= scenes.length
+        ? `Write a new final scene in a ${tone} tone that follows scene ${String(scenes.length)} and brings the script to a satisfying close.`
+        : index === 0
+          ? `Write a new first scene in a ${tone} tone that follows the intro and leads into the current scene 1.`
+          : `Write a new scene in a ${tone} tone that goes between scene ${String(index)} and scene ${String(sceneNumber)}, bridging them naturally.`;
+      break;
+    case 'split':
+      task = `Split scene ${String(sceneNumber)} (marked >>) into two consecutive scenes in a ${tone} tone that together cover what it says, each within the word limit.`;
+      break;
+    case 'tone':
+      task = `Rewrite scenes ${String(sceneNumber)} to ${String(scenes.length)} (marked >>) in a ${tone} tone. Keep what each scene says and the order of events; change only how it is told, and make the shift read naturally after ${index === 0 ? 'the intro' : `scene ${String(index)}`}.`;
+      break;
+  }
+
+  const user = `Topic: ${topic}
+
+Current script:
+${outline}
+
+Task: ${task}${instruction?.trim() ? `\nDirection from the editor: ${instruction.trim()}` : ''}`;
+
+  return { system, user };
+}
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Reads the model's scenes, accepting camelCase or snake_case keys. Returns
+ * null unless exactly `expected` usable scenes came back.
+ */
+export function parseSceneDrafts(raw: unknown, expected: number): SceneDraft[] | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const scenes = (raw as { scenes?: unknown }).scenes;
+  if (!Array.isArray(scenes) || scenes.length !== expected) return null;
+
+  const drafts: SceneDraft[] = [];
+  for (const item of scenes) {
+    if (!item || typeof item !== 'object') return null;
+    const scene = item as Record<string, unknown>;
+    const voiceOverText = readString(scene.voiceOverText ?? scene.voice_over_text);
+    const imagePrompt = readString(scene.imagePrompt ?? scene.image_prompt);
+    const imagePrompt2 = readString(scene.imagePrompt2 ?? scene.image_prompt_2);
+
+    // Same limits as the storyboard_scenes columns
+    if (!voiceOverText || voiceOverText.length > 1000 || imagePrompt.length < 10 || imagePrompt.length > 2000) {
+      return null;
+    }
+    drafts.push({ voiceOverText, imagePrompt, imagePrompt2: imagePrompt2 || null });
+  }
+  return drafts;
+}
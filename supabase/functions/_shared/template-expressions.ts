@@ -0,0 +1,813 @@
+/**
+ * Template Expression Language
+ *
+ * Small sandboxed evaluator for workflow prompt templates and input mappings.
+ * Supported inside `{{ ... }}`:
+ * - paths:        user.style, step1.output, steps.2.outputs[0].url
+ * - literals:     "text", 'text', 42, 1.5, true, false, null
+ * - arithmetic:   + - * / %   (string + anything concatenates)
+ * - comparisons:  == != < <= > >=
+ * - logic:        && || ! and the ternary `cond ? a : b`
+ * - filters:      {{user.style | default:"cinematic" | upper}}
+ * - blocks:       {{#if expr}} ... {{else}} ... {{/if}}
+ *
+ * Expressions are parsed by hand and never passed to eval/Function. Property
+ * access is limited to own properties of plain objects and arrays, and
+ * template size, nesting depth, evaluation work and output size are capped.
+ *
+ * This module is import-free so it can be shared by the edge functions and
+ * the admin UI (src/lib/utils/templateVariables.ts).
+ */
+
+// ==================== Limits ====================
+
+export const TEMPLATE_LIMITS = {
+  maxTemplateLength: 20_000,
+  maxExpressionLength: 1_000,
+  maxNestingDepth: 32,
+  maxEvaluationSteps: 10_000,
+  maxOutputLength: 50_000,
+} as const;
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// ==================== Errors ====================
+
+export class TemplateExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position?: number
+  ) {
+    super(message);
+    this.name = 'TemplateExpressionError';
+  }
+}
+
+export interface TemplateIssue {
+  expression: string;
+  message: string;
+}
+
+// ==================== Tokenizer ====================
+
+type TokenType = 'number' | 'string' | 'name' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const PUNCTUATORS = ['||', '&&', '==', '!=', '<=', '>=', '.', '[', ']', '(', ')', ',', ':', '?', '|', '!', '<', '>', '+', '-', '*', '/', '%'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+
+    // Path segment after a dot may be numeric (steps.2.outputs)
+    if (previous?.type === 'punct' && previous.value === '.' && /[A-Za-z0-9_]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'name', value: source.slice(start, i), position: start });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, i), position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'name', value: source.slice(start, i), position: start });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (source[i] !== ch) {
+        throw new TemplateExpressionError('Unterminated string literal', source, start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (!punct) {
+      throw new TemplateExpressionError(`Unexpected character "${ch}"`, source, i);
+    }
+    tokens.push({ type: 'punct', value: punct, position: i });
+    i += punct.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ==================== Parser ====================
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; root: string; segments: (string | ExpressionNode)[] }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'filter'; name: string; input: ExpressionNode; args: ExpressionNode[] };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+};
+
+class ExpressionParser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parsePipeline();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.fail(`Unexpected "${token.value}"`, token);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected "${value}"`, this.peek());
+    }
+    this.index++;
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new TemplateExpressionError(message, this.source, token.position);
+  }
+
+  private enter(): void {
+    if (++this.depth > TEMPLATE_LIMITS.maxNestingDepth) {
+      this.fail('Expression is nested too deeply', this.peek());
+    }
+  }
+
+  private leave(): void {
+    this.depth--;
+  }
+
+  private parsePipeline(): ExpressionNode {
+    let node = this.parseConditional();
+
+    while (this.isPunct('|')) {
+      this.index++;
+      const nameToken = this.next();
+      if (nameToken.type !== 'name') {
+        this.fail('Expected a filter name after "|"', nameToken);
+      }
+      if (!(nameToken.value in FILTERS)) {
+        this.fail(`Unknown filter "${nameToken.value}"`, nameToken);
+      }
+
+      const args: ExpressionNode[] = [];
+      if (this.isPunct(':')) {
+        this.index++;
+        args.push(this.parseConditional());
+        while (this.isPunct(',')) {
+          this.index++;
+          args.push(this.parseConditional());
+        }
+      }
+      node = { type: 'filter', name: nameToken.value, input: node, args };
+    }
+
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinary(1);
+    let node = test;
+    if (this.isPunct('?')) {
+      this.index++;
+      const consequent = this.parseConditional();
+      this.expectPunct(':');
+      const alternate = this.parseConditional();
+      node = { type: 'conditional', test, consequent, alternate };
+    }
+    this.leave();
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punct' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isPunct('!') || this.isPunct('-')) {
+      const operator = this.next().value as '!' | '-';
+      this.enter();
+      const argument = this.parseUnary();
+      this.leave();
+      return { type: 'unary', operator, argument };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'punct' && token.value === '(') {
+      this.enter();
+      const node = this.parsePipeline();
+      this.leave();
+      this.expectPunct(')');
+      return node;
+    }
+    if (token.type === 'name') {
+      if (token.value === 'true') return { type: 'literal', value: true };
+      if (token.value === 'false') return { type: 'literal', value: false };
+      if (token.value === 'null') return { type: 'literal', value: null };
+      return this.parsePath(token);
+    }
+
+    return this.fail(token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token);
+  }
+
+  private parsePath(rootToken: Token): ExpressionNode {
+    if (FORBIDDEN_PROPERTIES.has(rootToken.value)) {
+      this.fail(`Access to "${rootToken.value}" is not allowed`, rootToken);
+    }
+
+    const segments: (string | ExpressionNode)[] = [];
+    for (;;) {
+      if (this.isPunct('.')) {
+        this.index++;
+        const segment = this.next();
+        if (segment.type !== 'name') {
+          this.fail('Expected a property name after "."', segment);
+        }
+        if (FORBIDDEN_PROPERTIES.has(segment.value)) {
+          this.fail(`Access to "${segment.value}" is not allowed`, segment);
+        }
+        segments.push(segment.value);
+      } else if (this.isPunct('[')) {
+        this.index++;
+        this.enter();
+        const index = this.parsePipeline();
+        this.leave();
+        this.expectPunct(']');
+        segments.push(index.type === 'literal' && (typeof index.value === 'number' || typeof index.value === 'string')
+          ? String(index.value)
+          : index);
+      } else {
+        break;
+      }
+    }
+
+    return { type: 'path', root: rootToken.value, segments };
+  }
+}
+
+/**
+ * Parse an expression (without the surrounding braces).
+ * Throws TemplateExpressionError on syntax errors.
+ */
+function parseExpression(expression: string): ExpressionNode {
+  if (expression.length > TEMPLATE_LIMITS.maxExpressionLength) {
+    throw new TemplateExpressionError(
+      `Expression exceeds ${TEMPLATE_LIMITS.maxExpressionLength} characters`,
+      expression.slice(0, 50)
+    );
+  }
+  if (expression.trim() === '') {
+    throw new TemplateExpressionError('Empty expression', expression);
+  }
+  return new ExpressionParser(expression, tokenize(expression)).parse();
+}
+
+// ==================== Filters ====================
+
+type FilterFn = (input: unknown, args: unknown[]) => unknown;
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isNaN(n) ? 0 : n;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+const FILTERS: Record<string, FilterFn> = {
+  default: (input, [fallback]) => (isEmpty(input) ? fallback : input),
+  upper: (input) => toText(input).toUpperCase(),
+  lower: (input) => toText(input).toLowerCase(),
+  capitalize: (input) => {
+    const text = toText(input);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: (input) => toText(input).trim(),
+  truncate: (input, [length, suffix]) => {
+    const text = toText(input);
+    const max = Math.max(0, Math.floor(toNumber(length ?? 50)));
+    const tail = suffix === undefined ? '...' : toText(suffix);
+    return text.length > max ? text.slice(0, Math.max(0, max - tail.length)) + tail : text;
+  },
+  replace: (input, [search, replacement]) => toText(input).split(toText(search)).join(toText(replacement)),
+  join: (input, [separator]) => (Array.isArray(input) ? input.map(toText).join(separator === undefined ? ', ' : toText(separator)) : toText(input)),
+  split: (input, [separator]) => toText(input).split(separator === undefined ? ',' : toText(separator)),
+  first: (input) => (Array.isArray(input) ? input[0] : toText(input).charAt(0)),
+  last: (input) => (Array.isArray(input) ? input[input.length - 1] : toText(input).slice(-1)),
+  length: (input) => (Array.isArray(input) ? input.length : toText(input).length),
+  slice: (input, [start, end]) => {
+    const from = Math.floor(toNumber(start ?? 0));
+    const to = end === undefined ? undefined : Math.floor(toNumber(end));
+    return Array.isArray(input) ? input.slice(from, to) : toText(input).slice(from, to);
+  },
+  number: (input) => toNumber(input),
+  string: (input) => toText(input),
+  round: (input, [digits]) => {
+    const factor = 10 ** Math.max(0, Math.min(10, Math.floor(toNumber(digits ?? 0))));
+    return Math.round(toNumber(input) * factor) / factor;
+  },
+  floor: (input) => Math.floor(toNumber(input)),
+  ceil: (input) => Math.ceil(toNumber(input)),
+  abs: (input) => Math.abs(toNumber(input)),
+  clamp: (input, [min, max]) => Math.min(toNumber(max), Math.max(toNumber(min), toNumber(input))),
+  json: (input) => JSON.stringify(input ?? null),
+};
+
+export const TEMPLATE_FILTERS: readonly string[] = Object.keys(FILTERS);
+
+// ==================== Evaluator ====================
+
+interface EvaluationBudget {
+  steps: number;
+}
+
+function readProperty(target: unknown, key: string): unknown {
+  if (FORBIDDEN_PROPERTIES.has(key)) return undefined;
+  if (Array.isArray(target)) {
+    if (key === 'length') return target.length;
+    const index = Number(key);
+    return Number.isInteger(index) ? target[index < 0 ? target.length + index : index] : undefined;
+  }
+  if (target && typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, key)) {
+    return (target as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const bothNumeric = typeof left === 'number' && typeof right === 'number';
+  switch (operator) {
+    case '==':
+      return bothNumeric || typeof left === typeof right ? left === right : toText(left) === toText(right);
+    case '!=':
+      return !compare('==', left, right);
+  }
+
+  const [a, b] = bothNumeric ? [left, right] : [toText(left), toText(right)];
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return false;
+  }
+}
+
+function evaluateNode(
+  node: ExpressionNode,
+  context: Record<string, unknown>,
+  budget: EvaluationBudget,
+  source: string
+): unknown {
+  if (++budget.steps > TEMPLATE_LIMITS.maxEvaluationSteps) {
+    throw new TemplateExpressionError('Template evaluation limit exceeded', source);
+  }
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'path': {
+      let value = readProperty(context, node.root);
+      for (const segment of node.segments) {
+        const key = typeof segment === 'string' ? segment : toText(evaluateNode(segment, context, budget, source));
+        value = readProperty(value, key);
+        if (value === undefined) return undefined;
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const argument = evaluateNode(node.argument, context, budget, source);
+      return node.operator === '!' ? !isTruthy(argument) : -toNumber(argument);
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, context, budget, source);
+        return isTruthy(left) ? evaluateNode(node.right, context, budget, source) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, context, budget, source);
+        return isTruthy(left) ? left : evaluateNode(node.right, context, budget, source);
+      }
+
+      const left = evaluateNode(node.left, context, budget, source);
+      const right = evaluateNode(node.right, context, budget, source);
+
+      switch (node.operator) {
+        case '+':
+          return typeof left === 'string' || typeof right === 'string'
+            ? toText(left) + toText(right)
+            : toNumber(left) + toNumber(right);
+        case '-':
+          return toNumber(left) - toNumber(right);
+        case '*':
+          return toNumber(left) * toNumber(right);
+        case '/':
+        case '%': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new TemplateExpressionError('Division by zero', source);
+          return node.operator === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+        }
+        default:
+          return compare(node.operator, left, right);
+      }
+    }
+
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, context, budget, source))
+        ? evaluateNode(node.consequent, context, budget, source)
+        : evaluateNode(node.alternate, context, budget, source);
+
+    case 'filter': {
+      const input = evaluateNode(node.input, context, budget, source);
+      const args = node.args.map((arg) => evaluateNode(arg, context, budget, source));
+      return FILTERS[node.name](input, args);
+    }
+  }
+}
+
+/**
+ * Evaluate a single expression (without braces) against a context.
+ */
+export function evaluateExpression(expression: string, context: Record<string, unknown>): unknown {
+  return evaluateNode(parseExpression(expression), context, { steps: 0 }, expression);
+}
+
+// ==================== Templates ====================
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; source: string; node: ExpressionNode }
+  | { type: 'if'; source: string; test: ExpressionNode; consequent: TemplateNode[]; alternate: TemplateNode[] };
+
+/**
+ * Find the `}}` that closes a tag starting at `start`, skipping quoted strings.
+ */
+function findTagEnd(template: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < template.length - 1; i++) {
+    const ch = template[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '}' && template[i + 1] === '}') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  if (template.length > TEMPLATE_LIMITS.maxTemplateLength) {
+    throw new TemplateExpressionError(
+      `Template exceeds ${TEMPLATE_LIMITS.maxTemplateLength} characters`,
+      template.slice(0, 50)
+    );
+  }
+
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.alternate : top.node.consequent;
+  };
+
+  let position = 0;
+  while (position < template.length) {
+    const open = template.indexOf('{{', position);
+    if (open === -1) {
+      current().push({ type: 'text', value: template.slice(position) });
+      break;
+    }
+    if (open > position) {
+      current().push({ type: 'text', value: template.slice(position, open) });
+    }
+
+    const close = findTagEnd(template, open + 2);
+    if (close === -1) {
+      throw new TemplateExpressionError('Unclosed "{{"', template.slice(open, open + 50), open);
+    }
+
+    const tag = template.slice(open + 2, close).trim();
+    position = close + 2;
+
+    if (tag.startsWith('#if')) {
+      const source = tag.slice(3).trim();
+      const node: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        source,
+        test: parseExpression(source),
+        consequent: [],
+        alternate: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+      if (stack.length > TEMPLATE_LIMITS.maxNestingDepth) {
+        throw new TemplateExpressionError('Too many nested {{#if}} blocks', tag, open);
+      }
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateExpressionError('{{else}} without a matching {{#if}}', tag, open);
+      }
+      top.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new TemplateExpressionError('{{/if}} without a matching {{#if}}', tag, open);
+      }
+    } else {
+      current().push({ type: 'expression', source: tag, node: parseExpression(tag) });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateExpressionError(`{{#if ${stack[stack.length - 1].node.source}}} is never closed`, template.slice(0, 50));
+  }
+
+  return root;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: Record<string, unknown>,
+  budget: EvaluationBudget
+): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'expression') {
+      output += toText(evaluateNode(node.node, context, budget, node.source));
+    } else {
+      const branch = isTruthy(evaluateNode(node.test, context, budget, node.source)) ? node.consequent : node.alternate;
+      output += renderNodes(branch, context, budget);
+    }
+
+    if (output.length > TEMPLATE_LIMITS.maxOutputLength) {
+      throw new TemplateExpressionError('Rendered template is too long', output.slice(0, 50));
+    }
+  }
+  return output;
+}
+
+/**
+ * Render a template. Missing values render as an empty string; syntax
+ * errors throw TemplateExpressionError.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), context, { steps: 0 });
+}
+
+/**
+ * Resolve an input mapping. Plain mappings (`user.image`, `steps.1.outputs[0]`)
+ * are evaluated as expressions and keep their type (arrays stay arrays);
+ * mappings containing `{{` are rendered as templates.
+ */
+export function resolveMappingExpression(mapping: string, context: Record<string, unknown>): unknown {
+  return mapping.includes('{{') ? renderTemplate(mapping, context) : evaluateExpression(mapping, context);
+}
+
+// ==================== Context ====================
+
+/**
+ * Build the evaluation context for a workflow step.
+ *
+ * - `user` / `user_input` – the user's inputs (both names are accepted)
+ * - `step1`, `step2`, ... – completed step outputs
+ * - `steps.1`, `steps.2`, ... – the same outputs addressed by number
+ */
+export function createTemplateContext(
+  userInputs: unknown,
+  stepOutputs: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const steps: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(stepOutputs)) {
+    const match = /^step(\d+)$/.exec(key);
+    if (match) steps[match[1]] = value;
+  }
+
+  return {
+    ...stepOutputs,
+    user: userInputs ?? {},
+    user_input: userInputs ?? {},
+    steps,
+  };
+}
+
+// ==================== Validation ====================
+
+export interface TemplateValidationOptions {
+  /** Root identifiers that may be referenced (default: any) */
+  roots?: string[];
+  /** Known first-level fields per root; other fields are reported */
+  knownFields?: Record<string, string[]>;
+}
+
+function collectPaths(node: ExpressionNode, paths: { root: string; field?: string }[]): void {
+  switch (node.type) {
+    case 'path': {
+      const first = node.segments[0];
+      paths.push({ root: node.root, field: typeof first === 'string' ? first : undefined });
+      node.segments.forEach((segment) => {
+        if (typeof segment !== 'string') collectPaths(segment, paths);
+      });
+      break;
+    }
+    case 'unary':
+      collectPaths(node.argument, paths);
+      break;
+    case 'binary':
+      collectPaths(node.left, paths);
+      collectPaths(node.right, paths);
+      break;
+    case 'conditional':
+      collectPaths(node.test, paths);
+      collectPaths(node.consequent, paths);
+      collectPaths(node.alternate, paths);
+      break;
+    case 'filter':
+      collectPaths(node.input, paths);
+      node.args.forEach((arg) => collectPaths(arg, paths));
+      break;
+  }
+}
+
+function collectTemplateExpressions(nodes: TemplateNode[], out: { source: string; node: ExpressionNode }[]): void {
+  for (const node of nodes) {
+    if (node.type === 'expression') {
+      out.push({ source: node.source, node: node.node });
+    } else if (node.type === 'if') {
+      out.push({ source: node.source, node: node.test });
+      collectTemplateExpressions(node.consequent, out);
+      collectTemplateExpressions(node.alternate, out);
+    }
+  }
+}
+
+function checkReferences(
+  source: string,
+  node: ExpressionNode,
+  options: TemplateValidationOptions
+): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const paths: { root: string; field?: string }[] = [];
+  collectPaths(node, paths);
+
+  for (const { root, field } of paths) {
+    if (options.roots && !options.roots.includes(root)) {
+      issues.push({ expression: source, message: `Unknown variable "${root}"` });
+      continue;
+    }
+    const known = options.knownFields?.[root];
+    if (known && field !== undefined && !known.includes(field)) {
+      issues.push({ expression: source, message: `"${root}.${field}" does not exist` });
+    }
+  }
+
+  return issues;
+}
+
+function toIssue(error: unknown, fallbackExpression: string): TemplateIssue {
+  if (error instanceof TemplateExpressionError) {
+    return { expression: error.expression, message: error.message };
+  }
+  return { expression: fallbackExpression, message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Validate a template's syntax and, optionally, the variables it references.
+ */
+export function validateTemplate(template: string, options: TemplateValidationOptions = {}): TemplateIssue[] {
+  try {
+    const expressions: { source: string; node: ExpressionNode }[] = [];
+    collectTemplateExpressions(parseTemplate(template), expressions);
+    return expressions.flatMap(({ source, node }) => checkReferences(source, node, options));
+  } catch (error) {
+    return [toIssue(error, template.slice(0, 50))];
+  }
+}
+
+/**
+ * Validate an input mapping (expression or template).
+ */
+export function validateMappingExpression(mapping: string, options: TemplateValidationOptions = {}): TemplateIssue[] {
+  if (mapping.includes('{{')) return validateTemplate(mapping, options);
+  try {
+    return checkReferences(mapping, parseExpression(mapping), options);
+  } catch (error) {
+    return [toIssue(error, mapping)];
+  }
+}
@@ -142,6 +142,23 @@ export const RegenerateStoryboardSceneSchema = z.object({
 
 export type RegenerateStoryboardSceneRequest = z.infer<typeof RegenerateStoryboardSceneSchema>;
 
+/**
+ * Schema for edit-storyboard-script edge function
+ */
+export const EditStoryboardScriptSchema = z.object({
+  storyboardId: CommonSchemas.uuid,
+  sceneId: CommonSchemas.uuid,
+  operation: z.enum(['rewrite', 'insert', 'split', 'tone']),
+  position: z.enum(['before', 'after']).optional(),
+  instruction: z.string().max(500, 'Instruction must be 500 characters or less').optional(),
+  tone: z.string().min(1).max(50).optional(),
+}).refine(data => data.operation !== 'tone' || !!data.tone, {
+  message: 'tone is required to change the tone',
+  path: ['tone'],
+});
+
+export type EditStoryboardScriptRequest = z.infer<typeof EditStoryboardScriptSchema>;
+
 /**
  * Schema for delete-storyboard edge function
  */
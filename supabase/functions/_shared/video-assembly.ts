@@ -0,0 +1,153 @@
+/**
+ * Video Assembly Payloads
+ *
+ * Normalizes the flat parameters a locked model sends into one assembly
+ * input, builds JSON2Video render requests from it, and normalizes the
+ * providers' render callbacks into one shape for video-assembly-webhook.
+ * Shotstack edits are built with ShotstackJsonBuilder.
+ *
+ * Only imports its sibling shotstack-edit.ts, so it can be unit tested without
+ * provider credentials.
+ */
+
+import { SHOTSTACK_OUTPUT_SIZES } from "./shotstack-edit.ts";
+
+export type VideoAssemblyProvider = 'shotstack' | 'json2video';
+
+export const VIDEO_ASSEMBLY_PROVIDERS: readonly VideoAssemblyProvider[] = ['shotstack', 'json2video'];
+
+export function isVideoAssemblyProvider(provider: string): provider is VideoAssemblyProvider {
+  return (VIDEO_ASSEMBLY_PROVIDERS as readonly string[]).includes(provider);
+}
+
+export const DEFAULT_CLIP_DURATION_SECONDS = 5;
+
+export interface VideoAssemblyInput {
+  imageUrls: string[];
+  audioUrl: string | null;
+  musicUrl: string | null;
+  musicVolume: number;
+  clipDuration: number;
+  /** A key of SHOTSTACK_OUTPUT_SIZES */
+  aspectRatio: string;
+  width: number;
+  height: number;
+  transition: string | null;
+}
+
+const asUrlList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value ? [value] : [];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v.length > 0);
+  return [];
+};
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.length > 0 ? value : null;
+
+/**
+ * Normalize model parameters into an assembly input.
+ * Accepts `image_urls` as an array or a single URL (a workflow step mapping
+ * one step's output), and falls back to `image_url`.
+ */
+export function parseVideoAssemblyInput(parameters: Record<string, unknown>): VideoAssemblyInput {
+  const imageUrls = asUrlList(parameters.image_urls ?? parameters.image_url);
+  if (imageUrls.length === 0) {
+    throw new Error('Invalid parameters: at least one image URL is required for video assembly');
+  }
+
+  const requestedRatio = String(parameters.aspect_ratio);
+  const aspectRatio = Object.prototype.hasOwnProperty.call(SHOTSTACK_OUTPUT_SIZES, requestedRatio)
+    ? requestedRatio
+    : '16:9';
+  const size = SHOTSTACK_OUTPUT_SIZES[aspectRatio];
+  const clipDuration = Number(parameters.clip_duration);
+  const musicVolume = Number(parameters.music_volume);
+  const transition = asString(parameters.transition);
+
+  return {
+    imageUrls,
+    audioUrl: asString(parameters.audio_url),
+    musicUrl: asString(parameters.background_music_url),
+    musicVolume: Number.isFinite(musicVolume) ? Math.min(Math.max(musicVolume, 0), 1) : 0.2,
+    clipDuration: Number.isFinite(clipDuration) && clipDuration > 0 ? clipDuration : DEFAULT_CLIP_DURATION_SECONDS,
+    aspectRatio,
+    width: size.width,
+    height: size.height,
+    transition: transition === 'none' ? null : transition,
+  };
+}
+
+/**
+ * JSON2Video movie: one scene per image, with voiceover and music as
+ * movie-level elements so they play across scenes.
+ */
+export function buildJson2VideoMovie(input: VideoAssemblyInput, callbackUrl: string): Record<string, unknown> {
+  const elements: Record<string, unknown>[] = [];
+  if (input.audioUrl) {
+    elements.push({ type: 'audio', src: input.audioUrl });
+  }
+  if (input.musicUrl) {
+    elements.push({ type: 'audio', src: input.musicUrl, volume: input.musicVolume });
+  }
+
+  return {
+    resolution: 'custom',
+    width: input.width,
+    height: input.height,
+    quality: 'high',
+    scenes: input.imageUrls.map((src, index) => ({
+      duration: input.clipDuration,
+      ...(input.transition && index > 0 && { transition: { style: input.transition, duration: 0.5 } }),
+      elements: [{ type: 'image', src }],
+    })),
+    elements,
+    exports: [
+      {
+        destinations: [
+          { type: 'webhook', endpoint: callbackUrl, 'content-type': 'json' },
+        ],
+      },
+    ],
+  };
+}
+
+export interface RenderCallback {
+  taskId: string | null;
+  state: 'completed' | 'failed' | 'processing';
+  outputUrl: string | null;
+  error: string | null;
+}
+
+/**
+ * Normalize a render callback.
+ * Shotstack: { id, status: 'done' | 'failed' | ..., url, error }
+ * JSON2Video: { project, id, success, status, url, error }
+ */
+export function parseRenderCallback(
+  provider: VideoAssemblyProvider,
+  payload: Record<string, unknown>
+): RenderCallback {
+  const status = typeof payload.status === 'string' ? payload.status.toLowerCase() : '';
+  const outputUrl = asString(payload.url);
+  const error = typeof payload.error === 'string' && payload.error ? payload.error : null;
+
+  if (provider === 'shotstack') {
+    return {
+      taskId: asString(payload.id),
+      state: status === 'done' ? 'completed' : status === 'failed' ? 'failed' : 'processing',
+      outputUrl,
+      error,
+    };
+  }
+
+  const isComplete = payload.success === true || status === 'done' || status === 'success';
+  const isFailed = payload.success === false || status === 'error' || status === 'failed';
+
+  return {
+    // JSON2Video returns the project id at render time; `id` is its internal render id
+    taskId: asString(payload.project) ?? asString(payload.id),
+    state: isFailed ? 'failed' : isComplete ? 'completed' : 'processing',
+    outputUrl,
+    error,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Workflow Graph Scheduling
+ *
+ * Workflow templates describe their steps as a DAG:
+ * - `depends_on` lists the step numbers whose outputs a step needs (fan-in)
+ * - steps sharing a `parallel_group` are scheduled side by side (fan-out)
+ * - `run_if` is a conditional edge; a step whose condition fails is skipped
+ *
+ * Templates written before DAG support have none of these fields and keep
+ * their strictly linear behaviour (each step depends on the previous one).
+ *
+ * This module is pure and import-free so it can be shared by the
+ * workflow-executor, the webhook orchestrator and the admin workflow editor.
+ */
+
+export type WorkflowStepState = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export type StepConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'exists'
+  | 'not_exists'
+  | 'truthy'
+  | 'falsy'
+  | 'in';
+
+export const STEP_CONDITION_OPERATORS: readonly StepConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'exists',
+  'not_exists',
+  'truthy',
+  'falsy',
+  'in',
+];
+
+export interface StepCondition {
+  /** Context path, e.g. `user.style` or `step2.flagged` */
+  source: string;
+  operator: StepConditionOperator;
+  value?: unknown;
+}
+
+export interface WorkflowGraphStep {
+  step_number: number;
+  depends_on?: number[];
+  parallel_group?: string;
+  run_if?: StepCondition;
+}
+
+export type WorkflowStepStates = Record<string, WorkflowStepState>;
+
+export interface WorkflowSchedulePlan {
+  /** Steps whose inputs are ready and whose condition passed */
+  start: number[];
+  /** Steps skipped because their condition failed or every dependency was skipped */
+  skip: number[];
+}
+
+function readPath(obj: unknown, path: string): unknown {
+  return path.split('.').reduce((current: unknown, key: string) => {
+    if (current && typeof current === 'object' && key in current) {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, obj);
+}
+
+function sortedByNumber<T extends WorkflowGraphStep>(steps: T[]): T[] {
+  return [...steps].sort((a, b) => a.step_number - b.step_number);
+}
+
+/**
+ * Resolve the effective dependencies of every step.
+ *
+ * Explicit `depends_on` always wins. Otherwise a step depends on the closest
+ * preceding step outside its own parallel group; if that step belongs to a
+ * group, the step depends on the whole group (fan-in).
+ */
+export function resolveStepDependencies(steps: WorkflowGraphStep[]): Map<number, number[]> {
+  const ordered = sortedByNumber(steps);
+  const dependencies = new Map<number, number[]>();
+
+  ordered.forEach((step, index) => {
+    if (step.depends_on) {
+      dependencies.set(step.step_number, [...new Set(step.depends_on)]);
+      return;
+    }
+
+    let previousIndex = index - 1;
+    while (
+      previousIndex >= 0 &&
+      step.parallel_group &&
+      ordered[previousIndex].parallel_group === step.parallel_group
+    ) {
+      previousIndex--;
+    }
+
+    if (previousIndex < 0) {
+      dependencies.set(step.step_number, []);
+      return;
+    }
+
+    const previous = ordered[previousIndex];
+    const group = previous.parallel_group;
+    dependencies.set(
+      step.step_number,
+      group
+        ? ordered.filter((s) => s.parallel_group === group && s.step_number < step.step_number).map((s) => s.step_number)
+        : [previous.step_number]
+    );
+  });
+
+  return dependencies;
+}
+
+/**
+ * Validate the workflow graph. Returns a list of human-readable errors
+ * (empty when the graph is a valid DAG).
+ */
+export function validateWorkflowGraph(steps: WorkflowGraphStep[]): string[] {
+  const errors: string[] = [];
+  const stepNumbers = new Set<number>();
+
+  for (const step of steps) {
+    if (stepNumbers.has(step.step_number)) {
+      errors.push(`Duplicate step number ${step.step_number}`);
+    }
+    stepNumbers.add(step.step_number);
+  }
+
+  const dependencies = resolveStepDependencies(steps);
+  for (const [stepNumber, deps] of dependencies) {
+    for (const dep of deps) {
+      if (dep === stepNumber) {
+        errors.push(`Step ${stepNumber} cannot depend on itself`);
+      } else if (!stepNumbers.has(dep)) {
+        errors.push(`Step ${stepNumber} depends on unknown step ${dep}`);
+      }
+    }
+  }
+
+  for (const step of steps) {
+    if (step.run_if && !STEP_CONDITION_OPERATORS.includes(step.run_if.operator)) {
+      errors.push(`Step ${step.step_number} has unknown condition operator "${step.run_if.operator}"`);
+    }
+  }
+
+  if (errors.length === 0 && getTopologicalOrder(steps) === null) {
+    errors.push('Workflow steps contain a dependency cycle');
+  }
+
+  return errors;
+}
+
+/**
+ * Topological order of step numbers (Kahn's algorithm, ties broken by step
+ * number). Returns null when the graph contains a cycle.
+ */
+export function getTopologicalOrder(steps: WorkflowGraphStep[]): number[] | null {
+  const dependencies = resolveStepDependencies(steps);
+  const remaining = new Map<number, Set<number>>();
+  for (const [stepNumber, deps] of dependencies) {
+    remaining.set(stepNumber, new Set(deps.filter((d) => dependencies.has(d))));
+  }
+
+  const order: number[] = [];
+  while (remaining.size > 0) {
+    const ready = [...remaining.entries()]
+      .filter(([, deps]) => deps.size === 0)
+      .map(([stepNumber]) => stepNumber)
+      .sort((a, b) => a - b);
+
+    if (ready.length === 0) return null;
+
+    for (const stepNumber of ready) {
+      order.push(stepNumber);
+      remaining.delete(stepNumber);
+      for (const deps of remaining.values()) deps.delete(stepNumber);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Depth of every step in the graph (roots are level 0). Used for layout.
+ */
+export function getStepLevels(steps: WorkflowGraphStep[]): Map<number, number> {
+  const dependencies = resolveStepDependencies(steps);
+  const order = getTopologicalOrder(steps) ?? sortedByNumber(steps).map((s) => s.step_number);
+  const levels = new Map<number, number>();
+
+  for (const stepNumber of order) {
+    const deps = dependencies.get(stepNumber) ?? [];
+    const level = deps.reduce((max, dep) => Math.max(max, (levels.get(dep) ?? -1) + 1), 0);
+    levels.set(stepNumber, level);
+  }
+
+  return levels;
+}
+
+/**
+ * Steps that no other step depends on – their outputs are the workflow result.
+ */
+export function getSinkSteps(steps: WorkflowGraphStep[]): number[] {
+  const dependencies = resolveStepDependencies(steps);
+  const referenced = new Set([...dependencies.values()].flat());
+  return sortedByNumber(steps)
+    .map((s) => s.step_number)
+    .filter((stepNumber) => !referenced.has(stepNumber));
+}
+
+export function evaluateStepCondition(
+  condition: StepCondition,
+  context: Record<string, unknown>
+): boolean {
+  const actual = readPath(context, condition.source.trim());
+
+  switch (condition.operator) {
+    case 'equals':
+      return String(actual) === String(condition.value);
+    case 'not_equals':
+      return String(actual) !== String(condition.value);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'not_exists':
+      return actual === undefined || actual === null;
+    case 'truthy':
+      return Boolean(actual) && actual !== 'false';
+    case 'falsy':
+      return !actual || actual === 'false';
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.map(String).includes(String(actual));
+    default:
+      return false;
+  }
+}
+
+function isSettled(state: WorkflowStepState | undefined): boolean {
+  return state === 'completed' || state === 'skipped';
+}
+
+/**
+ * Work out which steps to start and which to skip given the current step
+ * states. Skips cascade: once a step is skipped its dependents are
+ * re-evaluated within the same plan.
+ */
+export function planNextSteps(
+  steps: WorkflowGraphStep[],
+  states: WorkflowStepStates,
+  context: Record<string, unknown>
+): WorkflowSchedulePlan {
+  const dependencies = resolveStepDependencies(steps);
+  const working: WorkflowStepStates = { ...states };
+  const plan: WorkflowSchedulePlan = { start: [], skip: [] };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const step of sortedByNumber(steps)) {
+      const key = String(step.step_number);
+      if (working[key] && working[key] !== 'pending') continue;
+
+      const deps = dependencies.get(step.step_number) ?? [];
+      if (!deps.every((dep) => isSettled(working[String(dep)]))) continue;
+
+      const allDepsSkipped = deps.length > 0 && deps.every((dep) => working[String(dep)] === 'skipped');
+      const conditionPassed = !step.run_if || evaluateStepCondition(step.run_if, context);
+
+      if (allDepsSkipped || !conditionPassed) {
+        working[key] = 'skipped';
+        plan.skip.push(step.step_number);
+        changed = true;
+      } else {
+        working[key] = 'running';
+        plan.start.push(step.step_number);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * True once no step is pending or running.
+ */
+export function isWorkflowSettled(steps: WorkflowGraphStep[], states: WorkflowStepStates): boolean {
+  return steps.every((step) => isSettled(states[String(step.step_number)]));
+}
+
+/**
+ * Pick the step whose output becomes the workflow's final output: the
+ * highest-numbered completed sink, falling back to the highest-numbered
+ * completed step.
+ */
+export function selectFinalOutputStep(
+  steps: WorkflowGraphStep[],
+  states: WorkflowStepStates
+): number | null {
+  const completed = (stepNumber: number) => states[String(stepNumber)] === 'completed';
+  const sinks = getSinkSteps(steps).filter(completed);
+  if (sinks.length > 0) return Math.max(...sinks);
+
+  const anyCompleted = steps.map((s) => s.step_number).filter(completed);
+  return anyCompleted.length > 0 ? Math.max(...anyCompleted) : null;
+}
@@ -0,0 +1,226 @@
+/**
+ * Workflow Simulation
+ *
+ * workflow-executor can run a template in simulate mode: executions, step
+ * claims and completions go through the same RPCs and the same webhook
+ * orchestrator as a real run, but every generation is answered by a
+ * deterministic stub provider instead of generate-content, so nothing is
+ * generated and no credits are spent.
+ *
+ * A simulated step stores what the stub was asked for next to its output,
+ * and the executor turns the settled execution into a step-by-step trace.
+ * Traces only depend on the template and the inputs, so traces of two
+ * template versions can be compared with diffSimulationTraces.
+ *
+ * This module is pure so it can be shared by the workflow-executor, the
+ * webhook orchestrator and the admin workflow test dialog.
+ */
+
+import {
+  selectFinalOutputStep,
+  type WorkflowGraphStep,
+  type WorkflowStepState,
+  type WorkflowStepStates,
+} from "./workflow-graph.ts";
+
+export const MOCK_OUTPUT_BASE_URL = 'mock://workflow-simulation';
+
+const OUTPUT_EXTENSIONS: Record<string, string> = {
+  image: 'png',
+  video: 'mp4',
+  audio: 'mp3',
+  text: 'txt',
+};
+
+/** What the stub provider was asked for, stored in the step output as `simulation` */
+export interface SimulatedGeneration {
+  model_record_id: string;
+  prompt: string;
+  parameters: Record<string, unknown>;
+  cost: number;
+}
+
+export interface SimulatedStepTrace {
+  step_number: number;
+  step_name: string;
+  model_record_id: string | null;
+  model_name: string | null;
+  status: WorkflowStepState;
+  resolved_prompt: string | null;
+  parameters: Record<string, unknown> | null;
+  cost: number;
+  output_url: string | null;
+}
+
+export interface WorkflowSimulationTrace {
+  status: 'completed' | 'failed';
+  steps: SimulatedStepTrace[];
+  final_step: number | null;
+  final_output_url: string | null;
+  total_cost: number;
+  error?: string;
+}
+
+export interface SimulationTraceChange {
+  /** null for workflow-level fields (final output, total cost) */
+  step_number: number | null;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SimulationTraceStep extends WorkflowGraphStep {
+  step_name: string;
+  model_record_id?: string;
+  output_key?: string;
+}
+
+/** The workflow_executions columns a trace is built from */
+export interface SimulatedExecution {
+  status: string;
+  step_states: unknown;
+  step_outputs: unknown;
+  final_output_url: string | null;
+  error_message: string | null;
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize identically
+ */
+export function stableStringify(value: unknown, space?: number): string {
+  const normalize = (input: unknown): unknown => {
+    if (Array.isArray(input)) return input.map(normalize);
+    if (input && typeof input === 'object') {
+      return Object.fromEntries(
+        Object.keys(input)
+          .sort()
+          .map((key) => [key, normalize((input as Record<string, unknown>)[key])])
+      );
+    }
+    return input;
+  };
+  return JSON.stringify(normalize(value), null, space);
+}
+
+/** FNV-1a, rendered as 8 hex characters */
+function hashString(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Stub provider: a placeholder output URL derived from the request.
+ * Identical requests yield identical URLs.
+ */
+export function createMockOutputUrl(
+  stepNumber: number,
+  generationType: string,
+  generation: SimulatedGeneration
+): string {
+  const extension = OUTPUT_EXTENSIONS[generationType] ?? 'bin';
+  const hash = hashString(stableStringify({
+    model: generation.model_record_id,
+    prompt: generation.prompt,
+    parameters: generation.parameters,
+  }));
+  return `${MOCK_OUTPUT_BASE_URL}/step-${String(stepNumber)}/${generationType}-${hash}.${extension}`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+/**
+ * Build the trace of a simulated execution once it has settled
+ */
+export function buildSimulationTrace(
+  steps: SimulationTraceStep[],
+  execution: SimulatedExecution,
+  getModelName: (recordId: string) => string | undefined = () => undefined
+): WorkflowSimulationTrace {
+  const states = asRecord(execution.step_states) as WorkflowStepStates;
+  const outputs = asRecord(execution.step_outputs);
+
+  const traces = [...steps]
+    .sort((a, b) => a.step_number - b.step_number)
+    .map((step): SimulatedStepTrace => {
+      const output = asRecord(outputs[`step${String(step.step_number)}`]);
+      const simulation = output.simulation as SimulatedGeneration | undefined;
+      const outputUrl = output[step.output_key || 'output'];
+      const recordId = simulation?.model_record_id ?? step.model_record_id ?? null;
+
+      return {
+        step_number: step.step_number,
+        step_name: step.step_name,
+        model_record_id: recordId,
+        model_name: recordId ? getModelName(recordId) ?? null : null,
+        status: states[String(step.step_number)] ?? 'pending',
+        resolved_prompt: simulation?.prompt ?? null,
+        parameters: simulation?.parameters ?? null,
+        cost: simulation?.cost ?? 0,
+        output_url: typeof outputUrl === 'string' ? outputUrl : null,
+      };
+    });
+
+  const failed = execution.status === 'failed';
+  return {
+    status: failed ? 'failed' : 'completed',
+    steps: traces,
+    final_step: failed ? null : selectFinalOutputStep(steps, states),
+    final_output_url: execution.final_output_url,
+    total_cost: traces.reduce((sum, t) => sum + (t.status === 'completed' ? t.cost : 0), 0),
+    ...(failed && execution.error_message ? { error: execution.error_message } : {}),
+  };
+}
+
+const COMPARED_STEP_FIELDS = [
+  'status',
+  'model_record_id',
+  'resolved_prompt',
+  'parameters',
+  'cost',
+  'output_url',
+] as const;
+
+/**
+ * List what changed between two simulation traces, e.g. of two versions of
+ * the same template run with the same inputs.
+ */
+export function diffSimulationTraces(
+  before: WorkflowSimulationTrace,
+  after: WorkflowSimulationTrace
+): SimulationTraceChange[] {
+  const changes: SimulationTraceChange[] = [];
+  const differs = (a: unknown, b: unknown): boolean => stableStringify(a) !== stableStringify(b);
+
+  for (const field of ['status', 'final_output_url', 'total_cost', 'error'] as const) {
+    if (differs(before[field] ?? null, after[field] ?? null)) {
+      changes.push({ step_number: null, field, before: before[field] ?? null, after: after[field] ?? null });
+    }
+  }
+
+  const stepNumbers = [...new Set([...before.steps, ...after.steps].map((s) => s.step_number))].sort((a, b) => a - b);
+  for (const stepNumber of stepNumbers) {
+    const a = before.steps.find((s) => s.step_number === stepNumber);
+    const b = after.steps.find((s) => s.step_number === stepNumber);
+
+    if (!a || !b) {
+      changes.push({ step_number: stepNumber, field: 'step', before: a?.step_name ?? null, after: b?.step_name ?? null });
+      continue;
+    }
+
+    for (const field of COMPARED_STEP_FIELDS) {
+      if (differs(a[field] ?? null, b[field] ?? null)) {
+        changes.push({ step_number: stepNumber, field, before: a[field] ?? null, after: b[field] ?? null });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,80 @@
+/**
+ * Workflow Step Overrides
+ *
+ * A failed workflow execution can be resumed with per-step overrides: a
+ * different model, an edited prompt or edited parameters. Overrides are
+ * stored on the execution (step_overrides, keyed by step number) and applied
+ * to the template step by whoever starts it - workflow-resume for the
+ * retried step, the webhook orchestrator for the steps after it.
+ *
+ * This module is pure and import-free so it can be shared by the edge
+ * functions and the client.
+ */
+
+export interface WorkflowStepOverride {
+  model_record_id?: string;
+  /** Filled in server-side from the model registry when the model is swapped */
+  model_id?: string;
+  /** Replaces the step's prompt template (rendered like any other template) */
+  prompt?: string;
+  /** Take precedence over both static parameters and input mappings */
+  parameters?: Record<string, unknown>;
+}
+
+export type WorkflowStepOverrides = Record<string, WorkflowStepOverride>;
+
+export interface OverridableWorkflowStep {
+  step_number: number;
+  model_id?: string;
+  model_record_id?: string;
+  prompt_template?: string;
+  parameters?: Record<string, unknown>;
+  input_mappings?: Record<string, string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the override for one step from a stored step_overrides value.
+ */
+export function getStepOverride(overrides: unknown, stepNumber: number): WorkflowStepOverride | undefined {
+  if (!isRecord(overrides)) return undefined;
+  const override = overrides[String(stepNumber)];
+  return isRecord(override) ? (override as WorkflowStepOverride) : undefined;
+}
+
+/**
+ * Return a copy of `step` with `override` applied. Overridden parameters
+ * replace the input mappings that would have produced them, and an overridden
+ * prompt replaces both the prompt template and any `prompt` parameter.
+ */
+export function applyStepOverride<T extends OverridableWorkflowStep>(
+  step: T,
+  override: WorkflowStepOverride | undefined
+): T {
+  if (!override) return step;
+
+  const parameters: Record<string, unknown> = { ...(step.parameters || {}), ...(override.parameters || {}) };
+  const inputMappings: Record<string, string> = { ...(step.input_mappings || {}) };
+  for (const key of Object.keys(override.parameters || {})) {
+    delete inputMappings[key];
+  }
+
+  let promptTemplate = step.prompt_template;
+  if (override.prompt !== undefined) {
+    promptTemplate = override.prompt;
+    delete parameters.prompt;
+    delete inputMappings.prompt;
+  }
+
+  return {
+    ...step,
+    model_record_id: override.model_record_id ?? step.model_record_id,
+    model_id: override.model_record_id ? override.model_id : step.model_id,
+    prompt_template: promptTemplate,
+    parameters,
+    input_mappings: inputMappings,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Workflow Step Resolution
+ *
+ * Turns a template step into the prompt and parameters handed to
+ * generate-content, given the execution context (user inputs plus the
+ * outputs of completed steps). Shared by workflow-executor, workflow-resume
+ * and the webhook orchestrator so every entry point resolves steps the same
+ * way.
+ */
+
+import { renderTemplate, resolveMappingExpression } from "./template-expressions.ts";
+
+export interface ResolvableWorkflowStep {
+  prompt_template?: string;
+  parameters?: Record<string, unknown>;
+  input_mappings?: Record<string, string>;
+}
+
+export interface ResolvedWorkflowStep {
+  prompt: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Resolve input mappings from context. Mappings that resolve to nothing are
+ * left out so static parameters keep their value.
+ */
+export function resolveInputMappings(
+  mappings: Record<string, string>,
+  context: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const [paramKey, mapping] of Object.entries(mappings)) {
+    const value = resolveMappingExpression(mapping, context);
+    if (value !== undefined && value !== null) {
+      resolved[paramKey] = value;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Merge static parameters with resolved mappings and render the prompt - a
+ * `prompt` parameter wins over the step's prompt template.
+ *
+ * Only text authored on the step (its prompt template, or a static `prompt`
+ * parameter) is rendered. A prompt mapped from the user's inputs or an
+ * earlier step's output is used as written, so a prompt such as
+ * "{{ big sale }}" reaches the model unchanged instead of being parsed.
+ * Throws TemplateExpressionError on invalid template syntax in the step.
+ */
+export function resolveWorkflowStep(
+  step: ResolvableWorkflowStep,
+  context: Record<string, unknown>
+): ResolvedWorkflowStep {
+  const resolvedMappings = resolveInputMappings(step.input_mappings || {}, context);
+  const parameters = { ...(step.parameters || {}), ...resolvedMappings };
+
+  let prompt: string;
+  if (resolvedMappings.prompt !== undefined) {
+    prompt = typeof resolvedMappings.prompt === 'string' ? resolvedMappings.prompt : String(resolvedMappings.prompt);
+  } else if (parameters.prompt) {
+    prompt = renderTemplate(String(parameters.prompt), context);
+  } else {
+    prompt = renderTemplate(step.prompt_template || '', context);
+  }
+
+  return { prompt, parameters };
+}
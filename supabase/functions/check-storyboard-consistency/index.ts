@@ -0,0 +1,285 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EdgeLogger } from "../_shared/edge-logger.ts";
+import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
+import {
+  CONSISTENCY_CHECK_COST,
+  CONSISTENCY_THRESHOLD,
+  buildConsistencyPrompt,
+  getCheckableCast,
+  getSceneCast,
+  parseConsistencyReport,
+  toCastMember,
+  type CastMember,
+  type SceneConsistency,
+  type StoryboardCastRow,
+} from "../_shared/storyboard-cast.ts";
+
+// Scenes compared at once
+const CHECK_CONCURRENCY = 4;
+
+interface SceneToCheck {
+  id: string;
+  imageUrl: string;
+  sceneCast: CastMember[];
+}
+
+Deno.serve(async (req) => {
+  const responseHeaders = getResponseHeaders(req);
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflight(req);
+  }
+
+  const startTime = Date.now();
+  const requestId = crypto.randomUUID();
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  const logger = new EdgeLogger('check-storyboard-consistency', requestId, supabaseClient, true);
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !userData.user) {
+      throw new Error('Unauthorized');
+    }
+    const user = userData.user;
+
+    const { storyboardId, sceneIds } = await req.json();
+    if (typeof storyboardId !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'storyboardId is required' }),
+        { status: 400, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: storyboard, error: storyboardError } = await supabaseClient
+      .from('storyboards')
+      .select('id')
+      .eq('id', storyboardId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (storyboardError || !storyboard) {
+      throw new Error('Storyboard not found or unauthorized');
+    }
+
+    const { data: castRows, error: castError } = await supabaseClient
+      .from('storyboard_cast')
+      .select('id, kind, name, aliases, description, reference_image_urls, seed')
+      .eq('storyboard_id', storyboardId)
+      .order('order_number', { ascending: true });
+
+    if (castError) {
+      throw new Error('Failed to load storyboard cast');
+    }
+    const cast = (castRows as StoryboardCastRow[]).map(toCastMember);
+
+    let scenesQuery = supabaseClient
+      .from('storyboard_scenes')
+      .select('id, image_prompt, image_preview_url')
+      .eq('storyboard_id', storyboardId)
+      .not('image_preview_url', 'is', null)
+      .order('order_number', { ascending: true });
+    if (Array.isArray(sceneIds) && sceneIds.length > 0) {
+      scenesQuery = scenesQuery.in('id', sceneIds);
+    }
+
+    const { data: scenes, error: scenesError } = await scenesQuery;
+    if (scenesError) {
+      throw new Error('Failed to load scenes');
+    }
+
+    // Only scenes that show cast entries with something to compare against
+    const toCheck: SceneToCheck[] = (scenes ?? [])
+      .map((scene) => ({
+        id: scene.id as string,
+        imageUrl: scene.image_preview_url as string,
+        sceneCast: getCheckableCast(getSceneCast(scene.image_prompt ?? '', cast)),
+      }))
+      .filter((scene) => scene.sceneCast.length > 0);
+
+    if (toCheck.length === 0) {
+      return new Response(
+        JSON.stringify({ checked: 0, drifted: [], tokensUsed: 0 }),
+        { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+    if (!lovableApiKey) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    // Charge for every scene up front, refund the ones that can't be checked
+    const tokenCost = Number((CONSISTENCY_CHECK_COST * toCheck.length).toFixed(2));
+    const { data: deductResult, error: deductError } = await supabaseClient
+      .rpc('deduct_user_tokens', { p_user_id: user.id, p_cost: tokenCost });
+
+    if (deductError) {
+      logger.error('Credit deduction failed', deductError instanceof Error ? deductError : new Error(String(deductError)), { userId: user.id });
+      throw new Error('Failed to deduct credits');
+    }
+    if (!deductResult?.[0]?.success) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient credits' }),
+        { status: 402, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const checkScene = async (scene: SceneToCheck): Promise<SceneConsistency | null> => {
+      const content: Array<Record<string, unknown>> = [
+        { type: 'text', text: buildConsistencyPrompt(scene.sceneCast) },
+      ];
+      for (const member of scene.sceneCast) {
+        if (member.referenceImageUrls.length === 0) continue;
+        content.push({ type: 'text', text: `References for "${member.name}":` });
+        for (const url of member.referenceImageUrls) {
+          content.push({ type: 'image_url', image_url: { url } });
+        }
+      }
+      content.push({ type: 'text', text: 'Scene image:' });
+      content.push({ type: 'image_url', image_url: { url: scene.imageUrl } });
+
+      const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${lovableApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'google/gemini-2.5-flash',
+          messages: [{ role: 'user', content }],
+          tools: [
+            {
+              type: 'function',
+              function: {
+                name: 'report_consistency',
+                description: 'Report how consistently the scene shows each cast entry',
+                parameters: {
+                  type: 'object',
+                  properties: {
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string', description: 'Cast entry name, exactly as listed' },
+                          score: { type: 'number', description: '0-10, 10 = matches the references' },
+                          issue: { type: 'string', description: `Main difference, for scores below ${String(CONSISTENCY_THRESHOLD)}` },
+                        },
+                        required: ['name', 'score'],
+                        additionalProperties: false,
+                      },
+                    },
+                  },
+                  required: ['results'],
+                  additionalProperties: false,
+                },
+              },
+            },
+          ],
+          tool_choice: { type: 'function', function: { name: 'report_consistency' } },
+        }),
+      });
+
+      if (!aiResponse.ok) {
+        const errorText = await aiResponse.text();
+        logger.error('AI API error', undefined, {
+          userId: user.id,
+          metadata: { sceneId: scene.id, status: aiResponse.status, error: errorText.substring(0, 200) }
+        });
+        return null;
+      }
+
+      const aiData = await aiResponse.json();
+      const toolCall = aiData.choices?.[0]?.message?.tool_calls?.[0];
+      let report: unknown = null;
+      try {
+        report = JSON.parse(toolCall?.function?.arguments ?? 'null');
+      } catch {
+        report = null;
+      }
+
+      const results = parseConsistencyReport(report, scene.sceneCast);
+      if (!results) {
+        logger.warn('Unusable consistency report', { userId: user.id, metadata: { sceneId: scene.id } });
+        return null;
+      }
+
+      const consistency: SceneConsistency = {
+        imageUrl: scene.imageUrl,
+        checkedAt: new Date().toISOString(),
+        results,
+      };
+
+      const { error: updateError } = await supabaseClient
+        .from('storyboard_scenes')
+        .update({ consistency })
+        .eq('id', scene.id);
+
+      if (updateError) {
+        logger.error('Scene update error', undefined, { userId: user.id, metadata: { sceneId: scene.id } });
+        return null;
+      }
+
+      return consistency;
+    };
+
+    const drifted: string[] = [];
+    let checked = 0;
+    for (let i = 0; i < toCheck.length; i += CHECK_CONCURRENCY) {
+      const batch = toCheck.slice(i, i + CHECK_CONCURRENCY);
+      const outcomes = await Promise.all(batch.map((scene) => checkScene(scene).catch(() => null)));
+
+      outcomes.forEach((consistency, index) => {
+        if (!consistency) return;
+        checked++;
+        if (consistency.results.some((result) => result.score < CONSISTENCY_THRESHOLD)) {
+          drifted.push(batch[index].id);
+        }
+      });
+    }
+
+    const refund = Number((CONSISTENCY_CHECK_COST * (toCheck.length - checked)).toFixed(2));
+    if (refund > 0) {
+      await supabaseClient.rpc('increment_tokens', {
+        user_id_param: user.id,
+        amount: refund
+      });
+      logger.info('Tokens refunded for unchecked scenes', {
+        userId: user.id,
+        metadata: { tokens_refunded: refund }
+      });
+    }
+
+    logger.logDuration('Consistency check completed', startTime, {
+      userId: user.id,
+      metadata: {
+        storyboard_id: storyboardId,
+        checked,
+        drifted: drifted.length,
+        tokens_used: tokenCost - refund
+      }
+    });
+
+    return new Response(
+      JSON.stringify({ checked, drifted, tokensUsed: Number((tokenCost - refund).toFixed(2)) }),
+      { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    logger.error('Check storyboard consistency error', error instanceof Error ? error : undefined);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,365 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EdgeLogger } from "../_shared/edge-logger.ts";
+import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
+import {
+  EditStoryboardScriptSchema,
+  validateRequest,
+  createValidationErrorResponse
+} from "../_shared/validation.ts";
+import {
+  DEFAULT_WORD_RATE,
+  MAX_STORYBOARD_SCENES,
+  SCRIPT_EDIT_COST,
+  addSceneTake,
+  buildScriptEditPrompt,
+  getDraftCount,
+  getWordBudget,
+  parseSceneDrafts,
+  toSceneTakes,
+  type SceneDraft,
+  type SceneTake,
+  type SceneTakeSource,
+} from "../_shared/storyboard-script.ts";
+import {
+  getFormatWordRate,
+  resolveNarrativeFormat,
+  toNarrativeFormat,
+  type NarrativeFormat,
+} from "../_shared/narrative-formats.ts";
+
+interface SceneRow {
+  id: string;
+  order_number: number;
+  voice_over_text: string;
+  image_prompt: string | null;
+  image_prompt_2: string | null;
+  takes: unknown;
+  beat: string | null;
+  updated_at: string | null;
+}
+
+const makeTake = (draft: SceneDraft, source: SceneTakeSource, note: string | null): SceneTake => ({
+  id: crypto.randomUUID(),
+  ...draft,
+  source,
+  note,
+  createdAt: new Date().toISOString(),
+});
+
+// The text a scene shows now, so it can be kept as a take before being replaced
+const snapshotScene = (scene: SceneRow): SceneTake => ({
+  id: crypto.randomUUID(),
+  voiceOverText: scene.voice_over_text,
+  imagePrompt: scene.image_prompt ?? '',
+  imagePrompt2: scene.image_prompt_2,
+  source: 'manual',
+  note: null,
+  createdAt: scene.updated_at ?? new Date().toISOString(),
+});
+
+Deno.serve(async (req) => {
+  const responseHeaders = getResponseHeaders(req);
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflight(req);
+  }
+
+  const startTime = Date.now();
+  const requestId = crypto.randomUUID();
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  const logger = new EdgeLogger('edit-storyboard-script', requestId, supabaseClient, true);
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !userData.user) {
+      throw new Error('Unauthorized');
+    }
+    const user = userData.user;
+
+    const validation = validateRequest(EditStoryboardScriptSchema, await req.json(), logger, 'edit-storyboard-script');
+    if (!validation.success) {
+      return createValidationErrorResponse(validation.formattedErrors, responseHeaders);
+    }
+    const { storyboardId, sceneId, operation, position = 'after', instruction, tone: newTone } = validation.data;
+
+    const { data: storyboard, error: storyboardError } = await supabaseClient
+      .from('storyboards')
+      .select('id, topic, style, tone, duration, media_type, intro_voiceover_text, narrative_format')
+      .eq('id', storyboardId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (storyboardError || !storyboard) {
+      throw new Error('Storyboard not found or unauthorized');
+    }
+
+    const { data: sceneRows, error: scenesError } = await supabaseClient
+      .from('storyboard_scenes')
+      .select('id, order_number, voice_over_text, image_prompt, image_prompt_2, takes, beat, updated_at')
+      .eq('storyboard_id', storyboardId)
+      .order('order_number', { ascending: true });
+
+    if (scenesError) {
+      throw new Error('Failed to load scenes');
+    }
+    const scenes = (sceneRows ?? []) as SceneRow[];
+
+    const sceneIndex = scenes.findIndex((scene) => scene.id === sceneId);
+    if (sceneIndex === -1) {
+      throw new Error('Scene not found');
+    }
+
+    const addsScene = operation === 'insert' || operation === 'split';
+    if (addsScene && scenes.length >= MAX_STORYBOARD_SCENES) {
+      return new Response(
+        JSON.stringify({ error: `Storyboards can have at most ${MAX_STORYBOARD_SCENES} scenes` }),
+        { status: 400, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // For insert, the index the new scene will take
+    const index = operation === 'insert' && position === 'after' ? sceneIndex + 1 : sceneIndex;
+    const tone = operation === 'tone' && newTone ? newTone : storyboard.tone;
+
+    // Budget at the speaking rate of the format the script was written in
+    const { data: formatRows } = await supabaseClient
+      .from('narrative_formats')
+      .select('id, name, description, definition')
+      .eq('id', storyboard.narrative_format)
+      .eq('is_active', true);
+    const format = resolveNarrativeFormat(
+      storyboard.narrative_format,
+      (formatRows ?? []).flatMap((row): NarrativeFormat[] => {
+        const customFormat = toNarrativeFormat(row);
+        return customFormat ? [customFormat] : [];
+      })
+    );
+    const { perScene: wordsPerScene } = getWordBudget(
+      storyboard.duration,
+      scenes.length + (addsScene ? 1 : 0),
+      format ? getFormatWordRate(format) : DEFAULT_WORD_RATE
+    );
+
+    const prompt = buildScriptEditPrompt({
+      operation,
+      topic: storyboard.topic,
+      style: storyboard.style,
+      tone,
+      wordsPerScene,
+      intro: storyboard.intro_voiceover_text ?? '',
+      scenes: scenes.map((scene) => ({ voiceOverText: scene.voice_over_text })),
+      index,
+      instruction,
+    });
+    const expected = getDraftCount(operation, scenes.length, index);
+
+    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+    if (!lovableApiKey) {
+      throw new Error('LOVABLE_API_KEY not configured');
+    }
+
+    const { data: deductResult, error: deductError } = await supabaseClient
+      .rpc('deduct_user_tokens', { p_user_id: user.id, p_cost: SCRIPT_EDIT_COST });
+
+    if (deductError) {
+      logger.error('Credit deduction failed', deductError instanceof Error ? deductError : new Error(String(deductError)), { userId: user.id });
+      throw new Error('Failed to deduct credits');
+    }
+    if (!deductResult?.[0]?.success) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient credits' }),
+        { status: 402, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    try {
+      logger.info('Calling Lovable AI Gateway', {
+        userId: user.id,
+        metadata: { storyboardId, sceneId, operation, expected }
+      });
+
+      const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${lovableApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'google/gemini-2.5-flash',
+          messages: [
+            { role: 'system', content: prompt.system },
+            { role: 'user', content: prompt.user }
+          ],
+          response_format: { type: 'json_object' }
+        }),
+      });
+
+      if (!aiResponse.ok) {
+        const errorText = await aiResponse.text();
+        logger.error('AI API error', undefined, {
+          userId: user.id,
+          metadata: { status: aiResponse.status, error: errorText.substring(0, 200) }
+        });
+
+        if (aiResponse.status === 429) {
+          throw new Error('Rate limit exceeded. Please try again later.');
+        } else if (aiResponse.status === 402) {
+          throw new Error('AI credits exhausted. Please contact support.');
+        }
+
+        throw new Error(`AI generation failed: ${aiResponse.status}`);
+      }
+
+      const aiData = await aiResponse.json();
+      let content: string = (aiData.choices?.[0]?.message?.content ?? '').trim();
+      if (content.startsWith('```')) {
+        content = content.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '').trim();
+      }
+
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        parsed = null;
+      }
+
+      const drafts = parseSceneDrafts(parsed, expected);
+      if (!drafts) {
+        logger.error('Invalid AI response format', undefined, {
+          userId: user.id,
+          metadata: { operation, expected, content_preview: content.substring(0, 200) }
+        });
+        throw new Error('Invalid AI response format');
+      }
+
+      const now = new Date().toISOString();
+      const note = operation === 'tone' ? tone : (instruction?.trim() || null);
+
+      const replaceScene = async (scene: SceneRow, draft: SceneDraft, source: SceneTakeSource) => {
+        const { data, error } = await supabaseClient
+          .from('storyboard_scenes')
+          .update({
+            voice_over_text: draft.voiceOverText,
+            image_prompt: draft.imagePrompt,
+            image_prompt_2: draft.imagePrompt2,
+            takes: addSceneTake(toSceneTakes(scene.takes), snapshotScene(scene), makeTake(draft, source, note)),
+            is_edited: true,
+            updated_at: now
+          })
+          .eq('id', scene.id)
+          .select()
+          .single();
+
+        if (error) throw new Error('Failed to update scene');
+        return data;
+      };
+
+      const insertScene = async (orderNumber: number, draft: SceneDraft, source: SceneTakeSource) => {
+        // Highest first, so the unique (storyboard_id, order_number) never collides
+        const later = scenes.filter((scene) => scene.order_number >= orderNumber).reverse();
+        for (const scene of later) {
+          const { error } = await supabaseClient
+            .from('storyboard_scenes')
+            .update({ order_number: scene.order_number + 1 })
+            .eq('id', scene.id);
+          if (error) throw new Error('Failed to reorder scenes');
+        }
+
+        const { data, error } = await supabaseClient
+          .from('storyboard_scenes')
+          .insert({
+            storyboard_id: storyboardId,
+            order_number: orderNumber,
+            voice_over_text: draft.voiceOverText,
+            image_prompt: draft.imagePrompt,
+            image_prompt_2: draft.imagePrompt2,
+            video_search_query: storyboard.media_type === 'video' ? 'abstract motion loop' : null,
+            // New scenes belong to the beat of the scene they were written from
+            beat: scenes[sceneIndex].beat,
+            takes: [makeTake(draft, source, note)],
+            is_edited: true
+          })
+          .select()
+          .single();
+
+        if (error) throw new Error('Failed to insert scene');
+        return data;
+      };
+
+      const target = scenes[sceneIndex];
+      const changedScenes = [];
+      switch (operation) {
+        case 'rewrite':
+          changedScenes.push(await replaceScene(target, drafts[0], 'rewrite'));
+          break;
+        case 'insert':
+          changedScenes.push(await insertScene(
+            position === 'after' ? target.order_number + 1 : target.order_number,
+            drafts[0],
+            'insert'
+          ));
+          break;
+        case 'split':
+          changedScenes.push(await replaceScene(target, drafts[0], 'split'));
+          changedScenes.push(await insertScene(target.order_number + 1, drafts[1], 'split'));
+          break;
+        case 'tone':
+          for (let i = 0; i < drafts.length; i++) {
+            changedScenes.push(await replaceScene(scenes[sceneIndex + i], drafts[i], 'tone'));
+          }
+          // A change from the first scene is a change for the whole script
+          if (sceneIndex === 0) {
+            await supabaseClient.from('storyboards').update({ tone }).eq('id', storyboardId);
+          }
+          break;
+      }
+
+      logger.logDuration('Script edit completed', startTime, {
+        userId: user.id,
+        metadata: {
+          storyboard_id: storyboardId,
+          scene_id: sceneId,
+          operation,
+          scenes_written: drafts.length,
+          tokens_used: SCRIPT_EDIT_COST
+        }
+      });
+
+      return new Response(
+        JSON.stringify({
+          scenes: changedScenes,
+          wordsPerScene,
+          tokensUsed: SCRIPT_EDIT_COST
+        }),
+        { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      await supabaseClient.rpc('increment_tokens', {
+        user_id_param: user.id,
+        amount: SCRIPT_EDIT_COST
+      });
+      logger.info('Tokens refunded after error', {
+        userId: user.id,
+        metadata: { tokens_refunded: SCRIPT_EDIT_COST }
+      });
+      throw error;
+    }
+
+  } catch (error) {
+    logger.error('Edit storyboard script error', error instanceof Error ? error : undefined);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
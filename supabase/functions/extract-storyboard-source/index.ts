@@ -0,0 +1,219 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EdgeLogger } from "../_shared/edge-logger.ts";
+import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
+import { applyRateLimit } from "../_shared/rate-limit-middleware.ts";
+import {
+  MAX_IMPORT_CHARACTERS,
+  MAX_IMPORT_PDF_BYTES,
+  htmlToImportText,
+  isPrivateAddress,
+  isPublicHttpUrl,
+} from "../_shared/storyboard-import.ts";
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+const PDF_TRANSCRIPTION_PROMPT = `Transcribe the text of this document exactly as written, as Markdown.
+
+RULES:
+- Keep every word of the body text; do NOT summarise, translate, correct or reword anything
+- Headings as Markdown headings (# for the title), paragraphs separated by a blank line
+- Join lines that were only wrapped by the page layout
+- Leave out page numbers, running headers and footers, and image captions
+- Output only the Markdown, with no commentary`;
+
+// Every address a host resolves to must be public, so a public name cannot point inside the network
+const resolvesToPublicAddresses = async (hostname: string): Promise<boolean> => {
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) return !isPrivateAddress(hostname);
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+  return addresses.length > 0 && addresses.every((address) => !isPrivateAddress(address));
+};
+
+/** Fetches a public page, checking every redirect hop the same way */
+const fetchPage = async (url: string): Promise<{ body: string; contentType: string }> => {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!isPublicHttpUrl(current) || !(await resolvesToPublicAddresses(new URL(current).hostname))) {
+      throw new Error('That address cannot be imported');
+    }
+
+    const response = await fetch(current, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { 'Accept': 'text/html, text/plain, text/markdown;q=0.9' },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Could not fetch the page (${response.status})`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!/^text\/(html|plain|markdown)|^application\/xhtml\+xml/i.test(contentType)) {
+      await response.body?.cancel();
+      throw new Error('Only web pages and text can be imported from a URL');
+    }
+    if (Number(response.headers.get('content-length') ?? 0) > MAX_PAGE_BYTES) {
+      await response.body?.cancel();
+      throw new Error('The page is too large to import');
+    }
+
+    const body = await response.text();
+    if (body.length > MAX_PAGE_BYTES) {
+      throw new Error('The page is too large to import');
+    }
+    return { body, contentType };
+  }
+  throw new Error('The page redirects too many times');
+};
+
+Deno.serve(async (req) => {
+  const responseHeaders = getResponseHeaders(req);
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflight(req);
+  }
+
+  const rateLimitResponse = await applyRateLimit(req, 'generation', 'extract-storyboard-source');
+  if (rateLimitResponse) return rateLimitResponse;
+
+  const startTime = Date.now();
+  const requestId = crypto.randomUUID();
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  const logger = new EdgeLogger('extract-storyboard-source', requestId, supabaseClient, true);
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: userData, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !userData.user) {
+      throw new Error('Unauthorized');
+    }
+    const user = userData.user;
+
+    const { url, file_base64: fileBase64, file_name: fileName } = await req.json();
+
+    let text: string;
+    if (typeof url === 'string' && url.trim()) {
+      logger.info('Fetching page for import', { userId: user.id, metadata: { url } });
+
+      const page = await fetchPage(url.trim());
+      text = /html/i.test(page.contentType) ? htmlToImportText(page.body) : page.body.trim();
+    } else if (typeof fileBase64 === 'string' && fileBase64) {
+      // Base64 takes 4 characters for every 3 bytes
+      if (fileBase64.length * 0.75 > MAX_IMPORT_PDF_BYTES) {
+        throw new Error(`PDFs must be ${MAX_IMPORT_PDF_BYTES / (1024 * 1024)} MB or smaller`);
+      }
+      if (!fileBase64.startsWith('JVBER')) {
+        throw new Error('Only PDF documents can be uploaded for transcription');
+      }
+
+      const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+      if (!lovableApiKey) {
+        throw new Error('LOVABLE_API_KEY not configured');
+      }
+
+      logger.info('Transcribing PDF for import', {
+        userId: user.id,
+        metadata: { fileName, bytes: Math.round(fileBase64.length * 0.75) }
+      });
+
+      const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${lovableApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'google/gemini-2.5-flash',
+          messages: [
+            { role: 'system', content: PDF_TRANSCRIPTION_PROMPT },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: 'Transcribe this document.' },
+                {
+                  type: 'file',
+                  file: {
+                    filename: typeof fileName === 'string' ? fileName : 'document.pdf',
+                    file_data: `data:application/pdf;base64,${fileBase64}`,
+                  },
+                },
+              ],
+            },
+          ],
+          temperature: 0,
+        }),
+      });
+
+      if (!aiResponse.ok) {
+        const errorText = await aiResponse.text();
+        logger.error('AI API error', undefined, {
+          userId: user.id,
+          metadata: { status: aiResponse.status, error: errorText.substring(0, 200) }
+        });
+
+        if (aiResponse.status === 429) {
+          throw new Error('Rate limit exceeded. Please try again later.');
+        } else if (aiResponse.status === 402) {
+          throw new Error('AI credits exhausted. Please contact support.');
+        }
+
+        throw new Error(`Document transcription failed: ${aiResponse.status}`);
+      }
+
+      const aiData = await aiResponse.json();
+      text = (aiData.choices?.[0]?.message?.content ?? '').trim()
+        .replace(/^```(?:markdown|md)?\n?/, '')
+        .replace(/\n?```$/, '')
+        .trim();
+    } else {
+      throw new Error('Provide a url or a PDF file');
+    }
+
+    if (!text) {
+      throw new Error('No text found to import');
+    }
+
+    // The user trims anything over the limit before importing
+    const truncated = text.length > MAX_IMPORT_CHARACTERS;
+    const importText = truncated ? text.slice(0, MAX_IMPORT_CHARACTERS) : text;
+
+    logger.logDuration('Import source extracted', startTime, {
+      userId: user.id,
+      metadata: { source: typeof url === 'string' && url.trim() ? 'url' : 'pdf', characters: text.length, truncated }
+    });
+
+    return new Response(
+      JSON.stringify({ text: importText, format: 'markdown', truncated }),
+      { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    logger.error('Extract storyboard source error', error instanceof Error ? error : undefined);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
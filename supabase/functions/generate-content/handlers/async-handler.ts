@@ -6,6 +6,7 @@
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { EdgeLogger } from "../../_shared/edge-logger.ts";
 import { refundTokens } from "../services/credit-service.ts";
+import { isVideoAssemblyProvider } from "../../_shared/video-assembly.ts";
 import type { Model } from "./validation.ts";
 
 export interface AsyncProviderResponse {
@@ -23,7 +24,8 @@ export function isWebhookProvider(
   provider: string,
   response: AsyncProviderResponse
 ): boolean {
-  return (provider === 'kie_ai' || provider === 'runware') && !!response.metadata?.task_id;
+  return (provider === 'kie_ai' || provider === 'runware' || isVideoAssemblyProvider(provider)) &&
+    !!response.metadata?.task_id;
 }
 
 /**
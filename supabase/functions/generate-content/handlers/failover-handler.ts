@@ -0,0 +1,190 @@
+/**
+ * Failover Handler Module
+ * Reroutes a generation to an equivalent model on another provider when the
+ * original provider's circuit breaker is open
+ */
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EdgeLogger } from "../../_shared/edge-logger.ts";
+import { getCircuitBreaker } from "../../_shared/circuit-breaker-enhanced.ts";
+import {
+  getEquivalentModels,
+  reconcileFailoverCost,
+  translateEquivalentParameters,
+} from "../../_shared/model-equivalence.ts";
+import { calculateManifestCost, type ModelManifest } from "../../_shared/model-manifest.ts";
+import { MODEL_MANIFESTS } from "../../_shared/model-manifests.generated.ts";
+import { API_ENDPOINTS } from "../../_shared/api-endpoints.ts";
+import { deductTokens, refundTokens } from "../services/credit-service.ts";
+import { logGenerationEvent } from "../services/audit-service.ts";
+import {
+  validateAndFilterParameters,
+  coerceParametersBySchema,
+  type Model,
+} from "./validation.ts";
+
+export interface FailoverCandidate {
+  model: Model;
+  parameters: Record<string, unknown>;
+  cost: number;
+  /** What the original model costs for this request, which caps a reroute's charge */
+  quotedCost: number;
+}
+
+export type FailoverRecord = {
+  from: { record_id: string; model_id: string; provider: string };
+  to: { record_id: string; model_id: string; provider: string };
+  reason: string;
+  quoted_cost: number;
+  equivalent_cost: number;
+  charged_cost: number;
+  rerouted_at: string;
+};
+
+/**
+ * Whether the provider's circuit breaker would let a request through
+ */
+export function isProviderAvailable(provider: string, supabase: SupabaseClient): boolean {
+  return getCircuitBreaker(`provider_${provider}`, 'ai_provider', supabase).isAllowed();
+}
+
+/**
+ * The provider model a compiled manifest describes, with "$api.<PROVIDER>"
+ * endpoint references resolved against the edge endpoints
+ */
+function modelFromManifest(manifest: ModelManifest): Model {
+  const { config } = manifest;
+  const apiEndpoint = config.apiEndpoint?.startsWith('$api.')
+    ? (API_ENDPOINTS as Record<string, { fullUrl?: string }>)[config.apiEndpoint.slice('$api.'.length)]?.fullUrl
+    : config.apiEndpoint;
+
+  return {
+    id: config.modelId,
+    record_id: config.recordId,
+    provider: config.provider,
+    content_type: config.contentType,
+    base_token_cost: config.baseCreditCost,
+    input_schema: manifest.schema,
+    cost_multipliers: config.costMultipliers as Record<string, number>,
+    api_endpoint: apiEndpoint || undefined,
+    payload_structure: config.payloadStructure || 'wrapper',
+  };
+}
+
+function findManifest(recordId: string): ModelManifest | undefined {
+  return MODEL_MANIFESTS.find(entry => entry.config.recordId === recordId);
+}
+
+/**
+ * Build the members of the original's equivalence group as failover
+ * targets. Their config, schema and price - and the original's quote - come
+ * from the compiled manifests, never from the request, so a client can
+ * neither pick the model nor set the price of a reroute.
+ */
+export function buildFailoverCandidates(
+  primary: Model,
+  parameters: Record<string, unknown>,
+  logger: EdgeLogger
+): FailoverCandidate[] {
+  const candidates: FailoverCandidate[] = [];
+  const equivalents = getEquivalentModels(primary.record_id);
+  if (equivalents.length === 0) return candidates;
+
+  const primaryManifest = findManifest(primary.record_id);
+  if (!primaryManifest) {
+    logger.warn('Skipping failover for a model without a manifest', {
+      metadata: { record_id: primary.record_id }
+    });
+    return candidates;
+  }
+  const quotedCost = calculateManifestCost(primaryManifest, parameters);
+
+  for (const { recordId } of equivalents) {
+    const manifest = findManifest(recordId);
+    if (!manifest) {
+      logger.warn('Skipping equivalent model without a manifest', {
+        metadata: { record_id: primary.record_id, failover_record_id: recordId }
+      });
+      continue;
+    }
+
+    const model = modelFromManifest(manifest);
+    const translated = translateEquivalentParameters(primary.record_id, model.record_id, parameters);
+    const schema = model.input_schema || { properties: {} };
+    const candidateParameters = coerceParametersBySchema(
+      validateAndFilterParameters(translated, schema, { applyDefaults: true }, logger),
+      schema
+    );
+
+    candidates.push({
+      model,
+      parameters: candidateParameters,
+      cost: calculateManifestCost(manifest, candidateParameters),
+      quotedCost,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Point the generation at the equivalent model, settle the difference
+ * between what was paid and the reroute's charge, and record the reroute in
+ * the audit log for the credit ledger
+ */
+export async function recordFailover(
+  supabase: SupabaseClient,
+  userId: string,
+  generationId: string,
+  from: Model,
+  to: FailoverCandidate,
+  paidCost: number,
+  reason: string,
+  isTestMode: boolean,
+  logger: EdgeLogger
+): Promise<FailoverRecord> {
+  const chargedCost = reconcileFailoverCost(to.quotedCost, to.cost);
+  const refund = paidCost - chargedCost;
+
+  // The up-front charge may rest on a client-side quote; a reroute is
+  // always charged at server prices, so collect anything still owed
+  if (refund < 0 && !isTestMode) {
+    const topUp = await deductTokens(supabase, userId, -refund, logger, {});
+    if (!topUp.success) {
+      throw new Error('Insufficient credits for the equivalent model');
+    }
+  }
+
+  const record: FailoverRecord = {
+    from: { record_id: from.record_id, model_id: from.id, provider: from.provider },
+    to: { record_id: to.model.record_id, model_id: to.model.id, provider: to.model.provider },
+    reason,
+    quoted_cost: to.quotedCost,
+    equivalent_cost: to.cost,
+    charged_cost: chargedCost,
+    rerouted_at: new Date().toISOString(),
+  };
+
+  await supabase.from('generations')
+    .update({ model_id: to.model.id, model_record_id: to.model.record_id, tokens_used: chargedCost, actual_token_cost: chargedCost })
+    .eq('id', generationId);
+
+  if (refund > 0 && !isTestMode) {
+    await refundTokens(supabase, userId, refund, logger, 'failover_reconciliation');
+  }
+
+  await logGenerationEvent(supabase, userId, generationId, 'generation_rerouted', {
+    modelId: to.model.id,
+    tokensUsed: chargedCost,
+    tokensRefunded: refund > 0 ? refund : undefined,
+    reason,
+    failover: record,
+  });
+
+  logger.info('Generation rerouted to equivalent model', {
+    userId,
+    metadata: { generationId, from: from.provider, to: to.model.provider, chargedCost }
+  });
+
+  return record;
+}
@@ -17,8 +17,9 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { EdgeLogger } from "../_shared/edge-logger.ts";
 import { TestExecutionLogger } from "../_shared/test-execution-logger.ts";
 import { callProvider } from "./providers/index.ts";
-import { isProviderRequest } from "../_shared/provider-types.ts";
+import { isProviderRequest, type ProviderProgress } from "../_shared/provider-types.ts";
 import { calculateTokenCost } from "./utils/token-calculator.ts";
+import { calculatePerSecondCost } from "../_shared/registry/index.ts";
 import { convertImagesToUrls } from "./utils/image-processor.ts";
 import { validateGenerationSettingsWithSchema } from "../_shared/jsonb-validation-schemas.ts";
 import { SYSTEM_LIMITS } from "../_shared/constants.ts";
@@ -37,6 +38,8 @@ import {
   validateAndFilterParameters,
   coerceParametersBySchema,
   normalizeParameterKeys,
+  unwrapProviderInput,
+  isPreparedRunwarePayload,
   detectBase64Images,
   analyzePromptField,
   normalizeContentType,
@@ -44,10 +47,11 @@ import {
   type EdgeFunctionUser,
   type Model
 } from "./handlers/validation.ts";
-import { deductTokens, refundTokens } from "./services/credit-service.ts";
+import { deductTokens, drawWorkflowPrepaidCredits, refundTokens } from "./services/credit-service.ts";
 import { logTokenEvent, logGenerationEvent, markGenerationFailed } from "./services/audit-service.ts";
 import { isWebhookProvider, saveProviderTaskId, buildAsyncResponse } from "./handlers/async-handler.ts";
 import { processBackgroundUpload, buildSyncResponse } from "./handlers/sync-handler.ts";
+import { buildFailoverCandidates, isProviderAvailable, recordFailover, type FailoverRecord } from "./handlers/failover-handler.ts";
 import { enhancePrompt } from "./services/prompt-enhancement.ts";
 
 // Circuit breaker state
@@ -174,13 +178,7 @@ Deno.serve(async (req) => {
       });
     }
     
-    if (parameters.input && typeof parameters.input === 'object' && !Array.isArray(parameters.input)) {
-      const inputParams = parameters.input as Record<string, unknown>;
-      const { model: _model, input: _input, ...otherTopLevel } = parameters;
-      parameters = { ...inputParams, ...otherTopLevel };
-    }
-
-    parameters = normalizeParameterKeys(parameters);
+    parameters = normalizeParameterKeys(unwrapProviderInput(parameters));
 
     // Prompt field analysis
     const { hasPromptField, promptFieldName, promptRequired } = analyzePromptField(model.input_schema);
@@ -217,12 +215,8 @@ Deno.serve(async (req) => {
     }
 
     // Parameter validation - skip schema defaults for storyboard requests
-    const isPreparedRunwarePayload = model.provider === 'runware' &&
-      typeof parameters?.taskType === 'string' && typeof parameters?.model === 'string' &&
-      (parameters?.width !== undefined || parameters?.height !== undefined);
-
     // For storyboard defaults, skip schema default injection entirely
-    const skipSchemaDefaults = useStoryboardDefaults || isPreparedRunwarePayload;
+    const skipSchemaDefaults = useStoryboardDefaults || isPreparedRunwarePayload(model.provider, parameters);
 
     let validatedParameters = validateAndFilterParameters(
       parameters, model.input_schema || { properties: {}, required: [] },
@@ -238,9 +232,11 @@ Deno.serve(async (req) => {
         metadata: { model_id: model.id, cost: validatedRequest.cost }
       });
     }
-    const tokenCost = validatedRequest.preCalculatedCost ?? validatedRequest.cost ?? calculateTokenCost(
-      model.base_token_cost, model.cost_multipliers || {}, validatedParameters
-    );
+    // Models priced per second are charged from their edge metadata
+    const tokenCost = calculatePerSecondCost(model.record_id, validatedParameters)
+      ?? validatedRequest.preCalculatedCost ?? validatedRequest.cost ?? calculateTokenCost(
+        model.base_token_cost, model.cost_multipliers || {}, validatedParameters
+      );
 
     // Transaction-like token deduction + generation creation
     let tokensDeducted = false;
@@ -250,10 +246,19 @@ Deno.serve(async (req) => {
     try {
       // Deduct tokens (skip for test mode)
       if (!isTestMode) {
-        const deductResult = await deductTokens(supabase, authenticatedUser.id, tokenCost, logger, responseHeaders);
-        if (!deductResult.success) return deductResult.response;
+        // A resumed workflow has already paid for its remaining steps
+        const prepaid = workflow_execution_id
+          ? await drawWorkflowPrepaidCredits(supabase, workflow_execution_id, authenticatedUser.id, tokenCost, logger)
+          : 0;
+        if (prepaid < tokenCost) {
+          const deductResult = await deductTokens(supabase, authenticatedUser.id, tokenCost - prepaid, logger, responseHeaders);
+          if (!deductResult.success) {
+            if (prepaid > 0) await refundTokens(supabase, authenticatedUser.id, prepaid, logger, 'insufficient_credits');
+            return deductResult.response;
+          }
+          await logTokenEvent(supabase, authenticatedUser.id, 'tokens_deducted', tokenCost, deductResult.newBalance, model.id);
+        }
         tokensDeducted = true;
-        await logTokenEvent(supabase, authenticatedUser.id, 'tokens_deducted', tokenCost, deductResult.newBalance, model.id);
       }
 
       const webhookToken = crypto.randomUUID();
@@ -332,44 +337,77 @@ Deno.serve(async (req) => {
     // Provider call
     const requestPromise = (async () => {
       let providerRequest: Record<string, unknown> | null = null;
+      let activeModel = model;
+      let chargedCost = tokenCost;
       try {
         const parametersWithPrompt = { ...validatedParameters };
         if (hasPromptField && finalPrompt && promptFieldName) parametersWithPrompt[promptFieldName] = finalPrompt;
 
         const processedParams = await convertImagesToUrls(parametersWithPrompt, authenticatedUser.id, supabase, logger);
-        providerRequest = { model: model.id, model_record_id: model.record_id, parameters: processedParams, input_schema: model.input_schema, api_endpoint: model.api_endpoint, payload_structure: model.payload_structure || 'wrapper', userId: authenticatedUser.id, generationId: createdGeneration.id };
-
-        if (!isProviderRequest(providerRequest)) throw new Error('Invalid provider request structure');
 
         const webhookToken = createdGeneration.settings?._webhook_token as string | undefined;
+        // Providers that run to completion here (comfyui) report progress onto the generation
+        const reportProgress = async (progress: ProviderProgress) => {
+          await supabase.from('generations').update({ provider_response: { progress: progress.percent, stage: progress.stage ?? null, timestamp: new Date().toISOString() } }).eq('id', createdGeneration.id);
+        };
         await supabase.from('generations').update({ api_call_started_at: new Date().toISOString() }).eq('id', createdGeneration.id);
 
-        const providerResponse = await withCircuitBreaker(`provider_${model.provider}`, 'ai_provider', () => callProvider(model.provider, providerRequest!, webhookToken), supabase) as Record<string, unknown>;
+        // Equivalent models on other providers take over while a provider's circuit breaker is open
+        const candidates = [{ model, parameters: processedParams, cost: tokenCost, quotedCost: tokenCost }, ...buildFailoverCandidates(model, processedParams, logger)];
+        let providerResponse: Record<string, unknown> | null = null;
+        let failover: FailoverRecord | null = null;
+
+        for (const [index, candidate] of candidates.entries()) {
+          const isLastCandidate = index === candidates.length - 1;
+          if (!isLastCandidate && !isProviderAvailable(candidate.model.provider, supabase)) continue;
+
+          if (candidate.model !== model) {
+            failover = await recordFailover(supabase, authenticatedUser.id, createdGeneration.id, activeModel, candidate, chargedCost, `${activeModel.provider} circuit breaker open`, isTestMode, logger);
+            chargedCost = failover.charged_cost;
+          }
+          const candidateModel = candidate.model;
+          activeModel = candidateModel;
+          const candidateRequest = { model: candidateModel.id, model_record_id: candidateModel.record_id, parameters: candidate.parameters, input_schema: candidateModel.input_schema, api_endpoint: candidateModel.api_endpoint, payload_structure: candidateModel.payload_structure || 'wrapper', comfy_workflow: candidateModel.comfy_workflow, userId: authenticatedUser.id, generationId: createdGeneration.id, ...(failover && { failover }) };
+          providerRequest = candidateRequest;
+
+          if (!isProviderRequest(candidateRequest)) throw new Error('Invalid provider request structure');
+
+          try {
+            providerResponse = await withCircuitBreaker(`provider_${candidateModel.provider}`, 'ai_provider', () => callProvider(candidateModel.provider, candidateRequest, webhookToken, reportProgress), supabase) as Record<string, unknown>;
+            break;
+          } catch (error) {
+            // Only a failure that opened the breaker moves on to an equivalent model
+            if (isLastCandidate || isProviderAvailable(candidateModel.provider, supabase)) throw error;
+            logger.warn('Provider circuit opened - trying equivalent model', { userId: authenticatedUser.id, metadata: { provider: candidateModel.provider, generationId: createdGeneration.id } });
+          }
+        }
+
+        if (!providerResponse) throw new Error('No provider available for this model');
 
         // Handle async webhook providers
-        if (isWebhookProvider(model.provider, providerResponse as { metadata?: { task_id?: string } })) {
+        if (isWebhookProvider(activeModel.provider, providerResponse as { metadata?: { task_id?: string } })) {
           const taskId = (providerResponse.metadata as { task_id?: string })?.task_id!;
-          const saveResult = await saveProviderTaskId(supabase, createdGeneration.id, taskId, providerRequest, providerResponse.metadata as Record<string, unknown>, authenticatedUser.id, tokenCost, isTestMode, logger, model);
+          const saveResult = await saveProviderTaskId(supabase, createdGeneration.id, taskId, providerRequest!, providerResponse.metadata as Record<string, unknown>, authenticatedUser.id, chargedCost, isTestMode, logger, activeModel);
           if (!saveResult.success) throw new Error(saveResult.error);
-          return buildAsyncResponse(createdGeneration.id, tokenCost, model.content_type, !!(enhance_prompt), responseHeaders);
+          return buildAsyncResponse(createdGeneration.id, chargedCost, activeModel.content_type, !!(enhance_prompt), responseHeaders);
         }
 
         // Sync flow - process in background
         processBackgroundUpload({
           supabase, logger, testLogger, userId: authenticatedUser.id, generationId: createdGeneration.id,
-          model, tokenCost, startTime, providerRequest,
+          model: activeModel, tokenCost: chargedCost, startTime, providerRequest: providerRequest!,
           providerResponse: providerResponse as { storage_path?: string; output_data?: Uint8Array; file_extension?: string; file_size?: number; metadata?: Record<string, unknown> }
         });
 
         CIRCUIT_BREAKER.failures = 0;
-        return buildSyncResponse(createdGeneration.id, tokenCost, model.content_type, !!(enhance_prompt), responseHeaders);
+        return buildSyncResponse(createdGeneration.id, chargedCost, activeModel.content_type, !!(enhance_prompt), responseHeaders);
 
       } catch (providerError) {
         CIRCUIT_BREAKER.failures++;
         CIRCUIT_BREAKER.lastFailure = Date.now();
         await supabase.from('generations').update({ status: 'failed', tokens_used: 0, provider_request: providerRequest, provider_response: { error: (providerError instanceof Error ? providerError.message : String(providerError)).substring(0, 200), timestamp: new Date().toISOString() } }).eq('id', createdGeneration.id);
-        if (!isTestMode) await refundTokens(supabase, authenticatedUser.id, tokenCost, logger, 'provider_error');
-        await logGenerationEvent(supabase, authenticatedUser.id, createdGeneration.id, 'generation_failed', { modelId: model.id, tokensRefunded: tokenCost, error: providerError instanceof Error ? providerError.message : 'Unknown', durationMs: Date.now() - startTime });
+        if (!isTestMode) await refundTokens(supabase, authenticatedUser.id, chargedCost, logger, 'provider_error');
+        await logGenerationEvent(supabase, authenticatedUser.id, createdGeneration.id, 'generation_failed', { modelId: activeModel.id, tokensRefunded: chargedCost, error: providerError instanceof Error ? providerError.message : 'Unknown', durationMs: Date.now() - startTime });
         throw providerError;
       }
     })();
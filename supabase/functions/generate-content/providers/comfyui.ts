@@ -0,0 +1,202 @@
+import { ProviderRequest, ProviderResponse } from "./index.ts";
+import { EdgeLogger } from "../../_shared/edge-logger.ts";
+import { API_ENDPOINTS } from "../../_shared/api-endpoints.ts";
+import type { ProviderProgressCallback } from "../../_shared/provider-types.ts";
+import {
+  extractComfyOutputs,
+  getComfyExecutionStatus,
+  injectComfyParameters,
+  parseComfyMessage,
+  validateComfyWorkflowTemplate,
+} from "../../_shared/comfy-workflow.ts";
+
+const HISTORY_POLL_INTERVAL_MS = 3000;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+// Report progress in steps this size so a 50-step sampler is not 50 writes
+const PROGRESS_STEP_PERCENT = 10;
+
+function getAuthHeaders(): Record<string, string> {
+  const apiKey = Deno.env.get('COMFYUI_API_KEY');
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+async function fetchHistoryEntry(promptId: string) {
+  const response = await fetch(API_ENDPOINTS.COMFYUI.getHistoryUrl(promptId), {
+    headers: getAuthHeaders()
+  });
+  if (!response.ok) {
+    throw new Error(`History request failed: ${response.status}`);
+  }
+  const history = await response.json();
+  return history[promptId];
+}
+
+/**
+ * Wait for the prompt to finish. Listens on the ComfyUI websocket for
+ * progress and completion, and polls /history as well so a socket that
+ * cannot connect (or misses the final message) does not stall the request.
+ */
+function waitForCompletion(
+  promptId: string,
+  clientId: string,
+  logger: EdgeLogger,
+  onProgress?: ProviderProgressCallback
+): Promise<void> {
+  const timeoutMs = Number(Deno.env.get('COMFYUI_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let socket: WebSocket | null = null;
+    let pollTimer: number | undefined;
+    let timeoutTimer: number | undefined;
+    let lastReported = { node: null as string | null, percent: -PROGRESS_STEP_PERCENT };
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearInterval(pollTimer);
+      clearTimeout(timeoutTimer);
+      socket?.close();
+      if (error) reject(error);
+      else resolve();
+    };
+
+    try {
+      socket = new WebSocket(API_ENDPOINTS.COMFYUI.getWebSocketUrl(clientId));
+      socket.onmessage = (message) => {
+        // Binary frames are live previews
+        if (typeof message.data !== 'string') return;
+
+        const event = parseComfyMessage(message.data, promptId);
+        if (!event) return;
+
+        if (event.kind === 'progress') {
+          const nodeChanged = event.node !== lastReported.node;
+          if (nodeChanged || event.percent >= lastReported.percent + PROGRESS_STEP_PERCENT || event.percent === 100) {
+            lastReported = { node: event.node, percent: event.percent };
+            onProgress?.({ percent: event.percent, stage: event.node ? `node ${event.node}` : undefined })
+              .catch(error => logger.warn('Progress update failed', { metadata: { error: String(error) } }));
+          }
+        } else if (event.kind === 'error') {
+          finish(new Error(event.message));
+        } else {
+          finish();
+        }
+      };
+      socket.onerror = () => {
+        logger.warn('ComfyUI websocket unavailable - relying on history polling', { metadata: { promptId } });
+      };
+    } catch (error) {
+      logger.warn('ComfyUI websocket could not be opened', { metadata: { promptId, error: String(error) } });
+    }
+
+    pollTimer = setInterval(async () => {
+      try {
+        const status = getComfyExecutionStatus(await fetchHistoryEntry(promptId));
+        if (status.state === 'completed') finish();
+        else if (status.state === 'failed') finish(new Error(status.error));
+      } catch (error) {
+        logger.warn('History poll failed', { metadata: { promptId, error: String(error) } });
+      }
+    }, HISTORY_POLL_INTERVAL_MS);
+
+    timeoutTimer = setTimeout(() => {
+      finish(new Error(`ComfyUI workflow timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  });
+}
+
+/**
+ * ComfyUI (self-hosted)
+ *
+ * Injects the request parameters into the model's `comfyWorkflow` template,
+ * queues it, waits for it to finish and downloads the first output file.
+ * The caller stores the bytes like any other synchronous provider.
+ */
+export async function callComfyUI(
+  request: ProviderRequest,
+  onProgress?: ProviderProgressCallback
+): Promise<ProviderResponse> {
+  const logger = new EdgeLogger('comfyui-provider', crypto.randomUUID());
+  const template = request.comfy_workflow;
+
+  if (!template) {
+    throw new Error(`Invalid model configuration: ${request.model} has no comfyWorkflow template`);
+  }
+
+  const templateErrors = validateComfyWorkflowTemplate(template, request.input_schema?.properties);
+  if (templateErrors.length > 0) {
+    throw new Error(`Invalid model configuration: ${templateErrors.join('; ')}`);
+  }
+
+  const workflow = injectComfyParameters(template, request.parameters);
+  const clientId = crypto.randomUUID();
+
+  logger.info('Queueing ComfyUI workflow', {
+    metadata: { model: request.model, nodes: Object.keys(workflow).length, outputNode: template.outputNode }
+  });
+
+  try {
+    const response = await fetch(API_ENDPOINTS.COMFYUI.promptUrl, {
+      method: 'POST',
+      headers: { ...getAuthHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow, client_id: clientId })
+    });
+
+    if (!response.ok) {
+      const responseText = await response.text();
+      logger.error('ComfyUI API error', undefined, {
+        metadata: { httpStatus: response.status, responseBody: responseText.substring(0, 500), model: request.model }
+      });
+      throw new Error(`Prompt request failed: ${response.status} - ${responseText.substring(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const promptId: string | undefined = data.prompt_id;
+
+    if (!promptId) {
+      throw new Error(`Prompt request failed: ${JSON.stringify(data.node_errors ?? data.error ?? data).substring(0, 200)}`);
+    }
+
+    logger.info('ComfyUI workflow queued', { metadata: { promptId, queueNumber: data.number } });
+
+    await waitForCompletion(promptId, clientId, logger, onProgress);
+
+    const outputs = extractComfyOutputs(await fetchHistoryEntry(promptId), template.outputNode);
+    if (outputs.length === 0) {
+      throw new Error('Workflow finished without output files');
+    }
+
+    const output = outputs[0];
+    const fileResponse = await fetch(API_ENDPOINTS.COMFYUI.getViewUrl(output), {
+      headers: getAuthHeaders()
+    });
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to download output: ${fileResponse.status}`);
+    }
+
+    const outputData = new Uint8Array(await fileResponse.arrayBuffer());
+    const fileExtension = output.filename.split('.').pop()?.toLowerCase() || 'png';
+
+    logger.info('ComfyUI output downloaded', {
+      metadata: { promptId, filename: output.filename, size_bytes: outputData.length }
+    });
+
+    return {
+      output_data: outputData,
+      file_extension: fileExtension,
+      file_size: outputData.length,
+      metadata: {
+        model: request.model,
+        prompt_id: promptId,
+        output_node: output.node,
+        filename: output.filename,
+        output_count: outputs.length
+      }
+    };
+  } catch (error) {
+    logger.error('ComfyUI provider error', error as Error, { metadata: { model: request.model } });
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Generation provider failed: ${errorMsg}`);
+  }
+}
@@ -1,8 +1,11 @@
 import { callKieAI } from "./kie-ai.ts";
 import { callRunware } from "./runware.ts";
 import { callLovableAI } from "./lovable-ai.ts";
+import { callShotstack } from "./shotstack.ts";
+import { callJson2Video } from "./json2video.ts";
+import { callComfyUI } from "./comfyui.ts";
 import { webhookLogger } from "../../_shared/logger.ts";
-import type { ProviderRequest, ProviderResponse } from "../../_shared/provider-types.ts";
+import type { ProviderProgressCallback, ProviderRequest, ProviderResponse } from "../../_shared/provider-types.ts";
 
 // Re-export for backwards compatibility
 export type { ProviderRequest, ProviderResponse };
@@ -10,7 +13,8 @@ export type { ProviderRequest, ProviderResponse };
 export async function callProvider(
   provider: string,
   request: ProviderRequest,
-  webhookToken?: string
+  webhookToken?: string,
+  onProgress?: ProviderProgressCallback
 ): Promise<ProviderResponse> {
   webhookLogger.info(`Calling provider: ${provider}`);
 
@@ -28,13 +32,19 @@ export async function callProvider(
       return await callLovableAI(request);
     
     case 'json2video':
-      throw new Error('JSON2Video provider not yet implemented. Please configure in providers/json2video.ts');
+      if (!webhookToken) {
+        throw new Error('webhookToken is required for json2video provider');
+      }
+      return await callJson2Video(request, webhookToken);
     
     case 'shotstack':
-      throw new Error('Shotstack provider not yet implemented. Please configure in providers/shotstack.ts');
+      if (!webhookToken) {
+        throw new Error('webhookToken is required for shotstack provider');
+      }
+      return await callShotstack(request, webhookToken);
     
     case 'comfyui':
-      throw new Error('ComfyUI provider not yet implemented. Please configure in providers/comfyui.ts');
+      return await callComfyUI(request, onProgress);
     
     case 'lovable_ai':
       throw new Error('Lovable AI provider not yet implemented for direct generation. Use for prompt enhancement only.');
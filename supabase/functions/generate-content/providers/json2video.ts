@@ -0,0 +1,78 @@
+import { ProviderRequest, ProviderResponse } from "./index.ts";
+import { EdgeLogger } from "../../_shared/edge-logger.ts";
+import { GENERATION_STATUS } from "../../_shared/constants.ts";
+import { API_ENDPOINTS } from "../../_shared/api-endpoints.ts";
+import { buildJson2VideoMovie, parseVideoAssemblyInput } from "../../_shared/video-assembly.ts";
+import { getVideoAssemblyCallbackUrl } from "./video-assembly-callback.ts";
+
+/**
+ * JSON2Video video assembly
+ *
+ * Builds a movie from the model's flat parameters (one scene per image,
+ * voiceover and music across scenes) and queues a render. The render is
+ * finished by video-assembly-webhook.
+ */
+export async function callJson2Video(
+  request: ProviderRequest,
+  webhookToken: string
+): Promise<ProviderResponse> {
+  const logger = new EdgeLogger('json2video-provider', crypto.randomUUID());
+  const JSON2VIDEO_API_KEY = Deno.env.get('JSON2VIDEO_API_KEY');
+
+  if (!JSON2VIDEO_API_KEY) {
+    throw new Error('JSON2VIDEO_API_KEY not configured. Please add it to your Supabase secrets.');
+  }
+
+  const callbackUrl = getVideoAssemblyCallbackUrl('json2video', webhookToken);
+  const input = parseVideoAssemblyInput(request.parameters);
+  const movie = buildJson2VideoMovie(input, callbackUrl);
+
+  logger.info('Queueing JSON2Video render', {
+    metadata: { model: request.model, scenes: input.imageUrls.length, hasVoiceover: !!input.audioUrl }
+  });
+
+  try {
+    const response = await fetch(API_ENDPOINTS.JSON2VIDEO.moviesUrl, {
+      method: 'POST',
+      headers: {
+        'x-api-key': JSON2VIDEO_API_KEY,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(movie)
+    });
+
+    if (!response.ok) {
+      const responseText = await response.text();
+      logger.error('JSON2Video API error', undefined, {
+        metadata: { httpStatus: response.status, responseBody: responseText, model: request.model }
+      });
+      throw new Error(`Render request failed: ${response.status} - ${responseText}`);
+    }
+
+    const data = await response.json();
+
+    // JSON2Video assigns the project id; callbacks reference it, not our ids
+    const projectId = data.project;
+    if (!projectId) {
+      throw new Error(`Render request failed: ${data.message || 'No project id in response'}`);
+    }
+
+    logger.info('JSON2Video render queued', { metadata: { projectId } });
+
+    return {
+      output_data: new Uint8Array(), // Empty - webhook will handle
+      file_extension: 'pending',
+      file_size: 0,
+      metadata: {
+        model: request.model,
+        task_id: projectId,
+        status: GENERATION_STATUS.PROCESSING,
+        callback_url: callbackUrl
+      }
+    };
+  } catch (error) {
+    logger.error('JSON2Video provider error', error as Error, { metadata: { model: request.model } });
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Generation provider failed: ${errorMsg}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { ProviderRequest, ProviderResponse } from "./index.ts";
+import { EdgeLogger } from "../../_shared/edge-logger.ts";
+import { GENERATION_STATUS } from "../../_shared/constants.ts";
+import { API_ENDPOINTS } from "../../_shared/api-endpoints.ts";
+import { parseVideoAssemblyInput } from "../../_shared/video-assembly.ts";
+import { ShotstackJsonBuilder } from "../../_shared/shotstack-edit.ts";
+import { getVideoAssemblyCallbackUrl } from "./video-assembly-callback.ts";
+
+/**
+ * Shotstack video assembly
+ *
+ * Builds an edit from the model's flat parameters (images, voiceover, music)
+ * and queues a render. The render is finished by video-assembly-webhook.
+ */
+export async function callShotstack(
+  request: ProviderRequest,
+  webhookToken: string
+): Promise<ProviderResponse> {
+  const logger = new EdgeLogger('shotstack-provider', crypto.randomUUID());
+  const SHOTSTACK_API_KEY = Deno.env.get('SHOTSTACK_API_KEY');
+
+  if (!SHOTSTACK_API_KEY) {
+    throw new Error('SHOTSTACK_API_KEY not configured. Please add it to your Supabase secrets.');
+  }
+
+  const callbackUrl = getVideoAssemblyCallbackUrl('shotstack', webhookToken);
+  const input = parseVideoAssemblyInput(request.parameters);
+
+  // Images in sequence on one track, voiceover on another, background music as the soundtrack
+  const builder = new ShotstackJsonBuilder(input.aspectRatio)
+    .addImageClips(input.imageUrls, {
+      clipDuration: input.clipDuration,
+      scale: 1,
+      transition: input.transition ? { in: input.transition, out: input.transition } : null,
+    })
+    .setCallback(callbackUrl);
+  if (input.audioUrl) {
+    builder.addVoiceoverWithAlias(input.audioUrl, 'voiceover');
+  }
+  if (input.musicUrl) {
+    builder.addSoundtrack(input.musicUrl, input.musicVolume);
+  }
+  const edit = builder.build();
+
+  logger.info('Queueing Shotstack render', {
+    metadata: { model: request.model, clips: input.imageUrls.length, hasVoiceover: !!input.audioUrl }
+  });
+
+  try {
+    const response = await fetch(API_ENDPOINTS.SHOTSTACK.renderUrl, {
+      method: 'POST',
+      headers: {
+        'x-api-key': SHOTSTACK_API_KEY,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(edit)
+    });
+
+    if (!response.ok) {
+      const responseText = await response.text();
+      logger.error('Shotstack API error', undefined, {
+        metadata: { httpStatus: response.status, responseBody: responseText, model: request.model }
+      });
+      throw new Error(`Render request failed: ${response.status} - ${responseText}`);
+    }
+
+    const data = await response.json();
+    const renderId = data.response?.id;
+
+    if (!data.success || !renderId) {
+      throw new Error(`Render request failed: ${data.message || 'No render id in response'}`);
+    }
+
+    logger.info('Shotstack render queued', { metadata: { renderId } });
+
+    return {
+      output_data: new Uint8Array(), // Empty - webhook will handle
+      file_extension: 'pending',
+      file_size: 0,
+      metadata: {
+        model: request.model,
+        task_id: renderId,
+        status: GENERATION_STATUS.PROCESSING,
+        callback_url: callbackUrl
+      }
+    };
+  } catch (error) {
+    logger.error('Shotstack provider error', error as Error, { metadata: { model: request.model } });
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Generation provider failed: ${errorMsg}`);
+  }
+}
@@ -0,0 +1,17 @@
+import type { VideoAssemblyProvider } from "../../_shared/video-assembly.ts";
+
+/**
+ * Callback URL for video assembly renders, carrying the same two security
+ * tokens as the kie_ai callback: the static URL token and the per-generation
+ * verify token.
+ */
+export function getVideoAssemblyCallbackUrl(provider: VideoAssemblyProvider, webhookToken: string): string {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const urlToken = Deno.env.get('KIE_WEBHOOK_URL_TOKEN');
+
+  if (!urlToken) {
+    throw new Error('KIE_WEBHOOK_URL_TOKEN not configured. Please add it to your Supabase secrets.');
+  }
+
+  return `${supabaseUrl}/functions/v1/video-assembly-webhook?provider=${provider}&token=${urlToken}&verify=${webhookToken}`;
+}
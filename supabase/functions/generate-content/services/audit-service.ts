@@ -9,7 +9,8 @@ export type GenerationAction =
   | 'generation_created'
   | 'generation_completed'
   | 'generation_failed'
-  | 'generation_canceled';
+  | 'generation_canceled'
+  | 'generation_rerouted';
 
 export interface GenerationAuditData {
   modelId: string;
@@ -19,6 +20,7 @@ export interface GenerationAuditData {
   durationMs?: number;
   error?: string;
   reason?: string;
+  failover?: Record<string, unknown>;
 }
 
 /**
@@ -53,6 +55,9 @@ export async function logGenerationEvent(
   if (data.reason) {
     metadata.reason = data.reason;
   }
+  if (data.failover) {
+    metadata.failover = data.failover;
+  }
 
   await supabase.from('audit_logs').insert({
     user_id: userId,
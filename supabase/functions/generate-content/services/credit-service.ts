@@ -133,6 +133,34 @@ export async function deductTokens(
   return { success: true, newBalance: result.tokens_remaining };
 }
 
+/**
+ * Take what a resumed workflow prepaid towards a starting step, so the step
+ * is not charged twice. Returns the credits taken; the rest is deducted as usual.
+ */
+export async function drawWorkflowPrepaidCredits(
+  supabase: SupabaseClient,
+  executionId: string,
+  userId: string,
+  tokenCost: number,
+  logger: EdgeLogger
+): Promise<number> {
+  const { data: drawn, error } = await supabase.rpc('draw_workflow_prepaid_credits', {
+    p_execution_id: executionId,
+    p_user_id: userId,
+    p_amount: tokenCost
+  });
+
+  if (error) {
+    logger.error('Drawing workflow prepaid credits failed', error instanceof Error ? error : new Error(String(error)), {
+      userId,
+      metadata: { executionId, cost: tokenCost }
+    });
+    throw new Error('Failed to deduct tokens - database error');
+  }
+
+  return Number(drawn) || 0;
+}
+
 /**
  * Refund tokens to user account
  */
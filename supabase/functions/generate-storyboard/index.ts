@@ -5,6 +5,36 @@ import { validateJsonbSize, MAX_JSONB_SIZE } from "../_shared/jsonb-validation-s
 import { STORYBOARD_STATUS } from "../_shared/constants.ts";
 import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
 import { applyRateLimit } from "../_shared/rate-limit-middleware.ts";
+import {
+  DEFAULT_NARRATIVE_FORMAT_ID,
+  buildFormatStructure,
+  describeFormatSceneFields,
+  findMissingFormatFields,
+  getFormatFields,
+  getFormatSceneCount,
+  getFormatWordBudget,
+  planBeats,
+  resolveNarrativeFormat,
+  toNarrativeFormat,
+  type NarrativeFormat,
+} from "../_shared/narrative-formats.ts";
+import {
+  LINE_EMOTIONS,
+  createCharacters,
+  dialogueToVoiceOverText,
+  getDialogueSpeakers,
+  toDialogueCharacters,
+  toDialogueLines,
+  type DialogueLine,
+} from "../_shared/storyboard-dialogue.ts";
+import {
+  MAX_IMPORT_SECONDS,
+  buildImportVisualsPrompt,
+  importScript,
+  isImportFormat,
+  mergeImportVisuals,
+  type ImportedScript,
+} from "../_shared/storyboard-import.ts";
 
 Deno.serve(async (req) => {
   const responseHeaders = getResponseHeaders(req);
@@ -41,6 +71,26 @@ Deno.serve(async (req) => {
     }
     const user = userData.user;
 
+    const requestBody = await req.json();
+
+    // Rewriting a fresh draft in another narrative format reuses its settings
+    // and replaces it once the new script is saved
+    const replaceStoryboardId = requestBody.replace_storyboard_id;
+    let replacedStoryboard = null;
+    if (replaceStoryboardId) {
+      const { data: existing } = await supabaseClient
+        .from('storyboards')
+        .select('*')
+        .eq('id', replaceStoryboardId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!existing || existing.render_mode) {
+        throw new Error('Only a new storyboard that has not been edited can be rewritten in another format');
+      }
+      replacedStoryboard = existing;
+    }
+
     // Check for in-progress storyboard generation (prevent duplicate submissions)
     const { data: inProgressStoryboard } = await supabaseClient
       .from('storyboards')
@@ -52,7 +102,7 @@ Deno.serve(async (req) => {
       .limit(1)
       .single();
 
-    if (inProgressStoryboard) {
+    if (inProgressStoryboard && inProgressStoryboard.id !== replacedStoryboard?.id) {
       logger.warn('Duplicate generation blocked - returning existing storyboard', {
         userId: user.id,
         metadata: { existingId: inProgressStoryboard.id, topic: inProgressStoryboard.topic }
@@ -76,6 +126,20 @@ Deno.serve(async (req) => {
       );
     }
 
+    // An imported script keeps the user's text: its topic and duration come
+    // from the script and the model only plans the visuals
+    let imported: ImportedScript | null = null;
+    if (requestBody.import_text !== undefined && requestBody.import_text !== null) {
+      const importFormat = requestBody.import_format ?? 'auto';
+      if (replacedStoryboard || typeof requestBody.import_text !== 'string') {
+        throw new Error('import_text must be the text of the script to import');
+      }
+      if (importFormat !== 'auto' && !isImportFormat(importFormat)) {
+        throw new Error('Invalid import format');
+      }
+      imported = importScript(requestBody.import_text, importFormat);
+    }
+
     const { 
       topic,
       duration, 
@@ -95,25 +159,103 @@ Deno.serve(async (req) => {
       image_animation_settings: imageAnimationSettings,
       enable_cache: enableCache = true,
       draft_mode: draftMode = false,
-    } = await req.json();
+      narrative_format: narrativeFormatId = DEFAULT_NARRATIVE_FORMAT_ID,
+    } = replacedStoryboard
+      ? {
+          topic: replacedStoryboard.topic,
+          duration: replacedStoryboard.duration,
+          style: replacedStoryboard.style,
+          tone: replacedStoryboard.tone,
+          voice_id: replacedStoryboard.voice_id,
+          voice_name: replacedStoryboard.voice_name,
+          media_type: replacedStoryboard.media_type ?? undefined,
+          background_music_url: replacedStoryboard.background_music_url ?? undefined,
+          background_music_volume: replacedStoryboard.background_music_url
+            ? Math.round((replacedStoryboard.background_music_volume ?? 0.05) * 100)
+            : undefined,
+          aspect_ratio: replacedStoryboard.aspect_ratio ?? undefined,
+          video_quality: replacedStoryboard.video_quality ?? undefined,
+          custom_width: replacedStoryboard.custom_width,
+          custom_height: replacedStoryboard.custom_height,
+          subtitle_settings: replacedStoryboard.subtitle_settings,
+          music_settings: replacedStoryboard.music_settings,
+          image_animation_settings: replacedStoryboard.image_animation_settings,
+          enable_cache: replacedStoryboard.enable_cache ?? undefined,
+          draft_mode: replacedStoryboard.draft_mode ?? undefined,
+          narrative_format: requestBody.narrative_format,
+        }
+      : imported
+        ? { ...requestBody, topic: imported.topic, duration: imported.duration }
+        : requestBody;
 
     // Validate inputs
     if (!topic || topic.length < 5 || topic.length > 500) {
       throw new Error('Topic must be between 5 and 500 characters');
     }
 
-    if (!duration || duration < 15 || duration > 120 || duration % 5 !== 0) {
-      throw new Error('Duration must be between 15 and 120 seconds in 5-second increments');
+    const maxDuration = imported ? MAX_IMPORT_SECONDS : 120;
+    if (!duration || duration < 15 || duration > maxDuration || duration % 5 !== 0) {
+      throw new Error(`Duration must be between 15 and ${maxDuration} seconds in 5-second increments`);
     }
 
-    // Calculate scene count: (duration / 5) - 1
-    const sceneCount = Math.floor(duration / 5) - 1;
-    
-    // Calculate word budgets for accurate duration (2-2.5 words/second for natural speech)
-    const totalWordBudget = Math.floor(duration * 2.5); // Max words for entire video
-    const introWordBudget = Math.min(20, Math.floor(totalWordBudget * 0.15)); // ~15% for intro
-    const scenesWordBudget = totalWordBudget - introWordBudget;
-    const wordsPerScene = Math.floor(scenesWordBudget / sceneCount);
+    if (typeof narrativeFormatId !== 'string' || narrativeFormatId.length > 40) {
+      throw new Error('Invalid narrative format');
+    }
+
+    // Dialogue characters speak alongside the narrator; a rewrite keeps the
+    // replaced draft's characters and their voices
+    const characterNames = requestBody.dialogue_characters ?? [];
+    if (!Array.isArray(characterNames) || characterNames.some((name: unknown) => typeof name !== 'string' || !name.trim())) {
+      throw new Error('dialogue_characters must be a list of names');
+    }
+    const dialogueCharacters = replacedStoryboard
+      ? toDialogueCharacters(replacedStoryboard.dialogue_characters)
+      : imported ? [] : createCharacters(characterNames, voiceID);
+    const speakers = getDialogueSpeakers({ voiceId: voiceID, voiceName }, dialogueCharacters);
+    const isDialogue = dialogueCharacters.length > 0;
+
+    // Admin formats, including replacements of built-ins, live in the database
+    const { data: formatRows, error: formatsError } = await supabaseClient
+      .from('narrative_formats')
+      .select('id, name, description, definition')
+      .eq('id', narrativeFormatId)
+      .eq('is_active', true);
+
+    if (formatsError) {
+      logger.warn('Failed to load narrative formats', {
+        userId: user.id,
+        metadata: { narrativeFormatId, error: formatsError.message }
+      });
+    }
+
+    const customFormats = (formatRows ?? []).flatMap((row): NarrativeFormat[] => {
+      const customFormat = toNarrativeFormat(row);
+      if (!customFormat) {
+        logger.warn('Skipping invalid narrative format', { userId: user.id, metadata: { id: row.id } });
+      }
+      return customFormat ? [customFormat] : [];
+    });
+
+    const format = resolveNarrativeFormat(narrativeFormatId, customFormats);
+    if (!format) {
+      throw new Error(`Unknown narrative format: "${narrativeFormatId}"`);
+    }
+
+    // Scene count and word budgets follow the format (the intro takes one scene slot)
+    const sceneCount = getFormatSceneCount(format, duration);
+    const sceneBeats = planBeats(format, sceneCount);
+    const {
+      total: totalWordBudget,
+      intro: introWordBudget,
+      perScene: wordsPerScene,
+    } = getFormatWordBudget(format, duration, sceneCount);
+    const formatSceneFields = describeFormatSceneFields(format)
+      .map(field => `,\n        ${field}`)
+      .join('');
+    const speakerNames = speakers.map(speaker => speaker.name).join(', ');
+    const dialogueSceneField = isDialogue
+      ? `,\n        "lines": [{ "speaker": "One of: ${speakerNames}", "text": "What they say", "emotion": "${LINE_EMOTIONS.join('|')}", "pace": "slow|normal|fast" }]`
+      : '';
     
     // Initial cost estimate: 0.25 credits per second of video duration
     const tokenCost = duration * 0.25;
@@ -140,22 +282,26 @@ Deno.serve(async (req) => {
 
 // Prepare AI prompt with enhanced narrative structure for DUAL IMAGE generation
     // NEW: Split voiceover into two halves, generate distinct images for each half
-    const systemPrompt = `You are a viral faceless video creator specializing in engaging, educational content that tells compelling stories.
+    const importPrompt = imported
+      ? buildImportVisualsPrompt({ script: imported, style, styleGuideline, tone, mediaType })
+      : null;
+
+    const systemPrompt = importPrompt?.system ?? `${format.persona}
 
 OUTPUT FORMAT (strict JSON only):
 {
   "comment": "Creative direction note",
   "variables": {
-    "introLine1": "First line - attention-grabbing question or statement",
-    "introLine2": "Second line - compelling hook that draws viewer in",
+    "introLine1": "${format.intro.line1.replace(/"/g, "'")}",
+    "introLine2": "${format.intro.line2.replace(/"/g, "'")}",
     "introImagePrompt": "${style} image matching introLine1",
     "introImagePrompt2": "${style} image matching introLine2",
     "introVoiceoverText": "introLine1\\nintroLine2 (MAX ${introWordBudget} words total)",
     "scenes": [
       {
-        "voiceOverText": "Scene voiceover (${wordsPerScene - 2} to ${wordsPerScene} words MAX)",
+        "voiceOverText": "${isDialogue ? 'Text of all lines joined in order' : 'Scene voiceover'} (${wordsPerScene - 2} to ${wordsPerScene} words MAX)",
         "voiceOverPart1": "First half of the sentence",
-        "voiceOverPart2": "Second half of the sentence",
+        "voiceOverPart2": "Second half of the sentence"${formatSceneFields}${dialogueSceneField},
         ${mediaType === 'video' ? '"videoSearchQuery": "specific video search keywords"' : `"imagePrompt": "${style} image that DIRECTLY illustrates voiceOverPart1",
         "imagePrompt2": "${style} image that DIRECTLY illustrates voiceOverPart2"`}
       }
@@ -165,7 +311,7 @@ OUTPUT FORMAT (strict JSON only):
 
 ⚠️ WORD BUDGET (CRITICAL - affects video duration and cost):
 - Total video duration: ${duration} seconds
-- MAXIMUM TOTAL WORDS: ${totalWordBudget} (at 2-2.5 words/second speaking rate)
+- MAXIMUM TOTAL WORDS: ${totalWordBudget} (at ${format.wordsPerSecond} words/second speaking rate)
 - Intro (2 lines combined): MAXIMUM ${introWordBudget} words
 - Each scene voiceover: ${wordsPerScene - 2} to ${wordsPerScene} words (NO MORE!)
 - Generate exactly ${sceneCount} scenes
@@ -175,29 +321,16 @@ CRITICAL RULES:
 - Write voiceover that flows naturally when spoken aloud
 - Tone: ${tone}
 
-NARRATIVE STRUCTURE (CRITICAL):
-- Scene 1: HOOK - Start with a surprising fact or question that grabs attention immediately
-- Scenes 2-${sceneCount-1}: BUILD - Each scene reveals the next piece of the puzzle
-  * Create natural transitions that flow from the previous scene's content
-  * AVOID generic phrases like "what happened next", "here's the twist", "this is where it gets interesting"
-  * Be SPECIFIC to your topic - reference actual content, not clichéd transitions
-  * Build suspense through revelation of specific details
-  * Each scene should naturally flow from the previous one
-  * Create a progressive revelation of information
-- Scene ${sceneCount}: PAYOFF - Satisfying conclusion that ties everything together with a memorable insight
-
-AVOID CLICHÉS (CRITICAL):
-- DO NOT use: "what happened next changed everything", "but here's the twist", "this is where it gets interesting", "little did they know"
-- Instead: Use topic-specific transitions that reference actual content
-- Example: Instead of "what happened next changed everything" → "When scientists analyzed the data, they discovered something unexpected"
-
-STORY FLOW:
-- NOT a list of disconnected facts
-- YES a cohesive narrative journey with beginning, middle, and satisfying end
-- Create emotional engagement through storytelling
-- Use connective language between scenes
-- Build momentum toward the conclusion
-
+${buildFormatStructure(format, sceneCount)}
+${isDialogue ? `
+DIALOGUE (CRITICAL - MULTI-VOICE):
+- Speakers: ${speakerNames}
+- Tell every scene as "lines", each spoken by exactly one speaker
+- The narrator sets the scene; characters speak in the first person, in their own voice
+- 1 to 4 lines per scene - the scene word budget covers all of its lines together
+- The intro is spoken by the narrator only
+- emotion: how the line is delivered; pace: slow, normal or fast
+` : ''}
 ${mediaType === 'image' ? `IMAGE PROMPTS (CONTENT-MATCHED DUAL IMAGE SYSTEM):
 ⚠️ CRITICAL: SPLIT VOICEOVER → SPLIT IMAGES ⚠️
 
@@ -282,11 +415,12 @@ LANGUAGE:
 - Make it emotionally engaging and memorable
 - Natural conversational tone`;
 
-    const userPrompt = `Topic: ${topic}
+    const userPrompt = importPrompt?.user ?? `Topic: ${topic}
+Format: ${format.name}
 Duration: ${duration}s (${sceneCount} scenes)
 Media Type: ${mediaType === 'image' ? 'Static Images' : mediaType === 'video' ? 'Video Clips' : 'Animated Images'}
 
-Create a compelling STORY (not just facts) about this topic. Each scene should flow naturally into the next, building curiosity and leading to a satisfying conclusion.`;
+${format.brief}`;
 
     // Call Lovable AI Gateway
     const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
@@ -296,7 +430,7 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
 
     logger.info('Calling Lovable AI Gateway', { 
       userId: user.id,
-      metadata: { topic, duration, style, mediaType, sceneCount }
+      metadata: { topic, duration, style, mediaType, sceneCount, narrativeFormat: format.id, dialogueCharacters: dialogueCharacters.length, importFormat: imported?.format }
     });
     
     const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
@@ -401,6 +535,13 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
       });
       throw new Error(`Invalid AI response format. Expected 'scenes' array but got: ${JSON.stringify(Object.keys(parsedContent))}`);
     }
+
+    // Imported scripts: the text is the user's, whatever the model sent back
+    if (imported) {
+      scenes = mergeImportVisuals(imported, scenes, style, mediaType);
+      introVoiceoverText = imported.intro;
+      introImagePrompt = introImagePrompt || `${style} ${styleGuideline}, illustrating: ${imported.intro}`;
+    }
     
     // Helper to check if two prompts are too similar (more than 80% overlap)
     const arePromptsTooSimilar = (prompt1: string, prompt2: string): boolean => {
@@ -426,7 +567,7 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
       throw new Error(`Invalid scenes array. Expected array with ${sceneCount} scenes, got: ${scenes ? scenes.length : 'null'}`);
     }
     
-    if (scenes.length !== sceneCount) {
+    if (!imported && scenes.length !== sceneCount) {
       logger.warn('Scene count mismatch', {
         userId: user.id,
         metadata: { expected: sceneCount, got: scenes.length }
@@ -447,6 +588,10 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
       image_prompt?: string;
       imagePrompt2?: string;
       image_prompt_2?: string;
+      lines?: unknown;
+      dialogue?: DialogueLine[];
+      startSeconds?: number | null;
+      endSeconds?: number | null;
     }
 
     // Helper function to split voiceover text into two halves
@@ -488,6 +633,14 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
       };
     };
 
+    // Dialogue scenes: the lines are the voiceover
+    if (isDialogue) {
+      scenes = scenes.map((scene: SceneData) => {
+        const dialogue = toDialogueLines(scene.lines, speakers);
+        return dialogue.length > 0 ? { ...scene, voiceOverText: dialogueToVoiceOverText(dialogue), dialogue } : scene;
+      });
+    }
+
     const invalidScenes = scenes.filter((scene: SceneData, index: number) => {
       const hasVoiceOver = scene.voiceOverText || scene.voice_over_text;
       const hasMedia = mediaType === 'video'
@@ -507,6 +660,16 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
     if (invalidScenes.length > 0) {
       throw new Error(`${invalidScenes.length} scenes missing required fields (voiceOverText and ${mediaType === 'video' ? 'videoSearchQuery' : 'imagePrompt'})`);
     }
+
+    const missingFormatFields = imported ? [] : findMissingFormatFields(format, scenes);
+    if (missingFormatFields.length > 0) {
+      logger.error('Scenes missing format fields', undefined, {
+        userId: user.id,
+        metadata: { narrativeFormat: format.id, missing: missingFormatFields }
+      });
+      const keys = [...new Set(missingFormatFields.flatMap(missing => missing.keys))];
+      throw new Error(`${missingFormatFields.length} scenes missing ${format.name} fields (${keys.join(', ')})`);
+    }
     
     // Log if AI provided split voiceover parts
     const scenesWithSplitVoiceover = scenes.filter((scene: SceneData) => 
@@ -637,6 +800,9 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
         },
         enable_cache: enableCache,
         draft_mode: draftMode,
+        narrative_format: format.id,
+        dialogue_characters: dialogueCharacters,
+        import_format: imported?.format ?? null,
         estimated_render_cost: tokenCost, // Store initial estimate for later comparison
         original_character_count: originalCharacterCount, // Store original script length for pricing
       })
@@ -711,6 +877,11 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
           ? (scene.videoSearchQuery || scene.video_search_query || 'abstract motion loop')
           : null,
         video_url: null, // Will be populated later via video search
+        beat: imported ? null : sceneBeats[index] ?? null,
+        format_fields: imported ? {} : getFormatFields(format, scene),
+        dialogue: scene.dialogue ?? [],
+        start_seconds: scene.startSeconds ?? null,
+        end_seconds: scene.endSeconds ?? null,
         is_edited: false
       };
     });
@@ -737,11 +908,25 @@ Create a compelling STORY (not just facts) about this topic. Each scene should f
       throw new Error(`Failed to create scenes: ${scenesError.message}`);
     }
 
+    if (replacedStoryboard) {
+      await supabaseClient.from('storyboard_scenes').delete().eq('storyboard_id', replacedStoryboard.id);
+      const { error: replaceError } = await supabaseClient.from('storyboards').delete().eq('id', replacedStoryboard.id);
+      if (replaceError) {
+        logger.warn('Failed to delete replaced storyboard', {
+          userId: user.id,
+          metadata: { replaced_id: replacedStoryboard.id, error: replaceError.message }
+        });
+      }
+    }
+
     logger.logDuration('Storyboard generation completed', startTime, {
       userId: user.id,
       metadata: {
         storyboard_id: storyboard.id,
         scene_count: createdScenes.length,
+        narrative_format: format.id,
+        import_format: imported?.format,
+        replaced_storyboard_id: replacedStoryboard?.id,
         tokens_cost: tokenCost
       }
     });
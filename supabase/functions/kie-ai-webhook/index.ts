@@ -23,7 +23,7 @@ import { uploadToStorage } from "./storage/content-uploader.ts";
 import { determineFileExtension } from "./storage/mime-utils.ts";
 
 // Orchestration
-import { orchestrateWorkflow } from "./orchestration/workflow-orchestrator.ts";
+import { orchestrateWorkflow, failWorkflowStepForGeneration } from "./orchestration/workflow-orchestrator.ts";
 import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
 
 
@@ -213,6 +213,8 @@ Deno.serve(async (req) => {
 
       logger.info('Credits released for failed generation', { metadata: { amount: generation.tokens_used } });
 
+      await failWorkflowStepForGeneration(generation, sanitizedError, supabase);
+
       // Audit log
       await supabase.from('kie_credit_audits').insert({
         generation_id: generation.id,
@@ -459,6 +461,8 @@ Deno.serve(async (req) => {
             }
           });
           
+          await failWorkflowStepForGeneration(generation, 'Failed to download from provider', supabase);
+
           return new Response(
             JSON.stringify({ success: true, message: 'Download failed - user refunded' }),
             { status: 200, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
@@ -489,6 +493,8 @@ Deno.serve(async (req) => {
             }
           });
           
+          await failWorkflowStepForGeneration(generation, 'Storage upload failed', supabase);
+
           return new Response(
             JSON.stringify({ success: true, message: 'Storage failed - user refunded' }),
             { status: 200, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
@@ -622,6 +628,8 @@ Deno.serve(async (req) => {
             body: { generationId: generation.id, status: GENERATION_STATUS.FAILED }
           });
           
+          await failWorkflowStepForGeneration(generation, 'All outputs failed', supabase);
+
           return new Response(
             JSON.stringify({ success: true, message: 'All outputs failed - user refunded' }),
             { status: 200, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
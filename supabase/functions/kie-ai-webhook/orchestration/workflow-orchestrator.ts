@@ -1,29 +1,134 @@
 /**
  * Multi-step workflow orchestration
  *
+ * Steps form a DAG (see _shared/workflow-graph.ts): when a step completes,
+ * every step whose dependencies are now settled is started in parallel.
+ *
  * ADR 007: Uses model registry for schema instead of database
  */
 
 import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { EdgeLogger } from "../../_shared/edge-logger.ts";
-import { getModelConfig, type ModelMetadata } from "../../_shared/registry/index.ts";
+import {
+  calculatePerSecondCost,
+  getGenerationType,
+  getModelConfig,
+  type ModelMetadata
+} from "../../_shared/registry/index.ts";
 import { GENERATION_STATUS } from "../../_shared/constants.ts";
 import type { GenerationRecord } from "../../_shared/database-types.ts";
 import {
-  replaceTemplateVariables,
-  resolveInputMappings,
-  coerceParametersToSchema,
-  sanitizeParametersForProviders,
-} from "./parameter-resolver.ts";
+  planNextSteps,
+  isWorkflowSettled,
+  selectFinalOutputStep,
+  type WorkflowGraphStep,
+  type WorkflowStepStates,
+} from "../../_shared/workflow-graph.ts";
+import { createTemplateContext } from "../../_shared/template-expressions.ts";
+import { resolveWorkflowStep } from "../../_shared/workflow-step-resolver.ts";
+import { applyStepOverride, getStepOverride } from "../../_shared/workflow-step-overrides.ts";
+import {
+  coerceParametersBySchema,
+  isPreparedRunwarePayload,
+  normalizeParameterKeys,
+  unwrapProviderInput,
+  validateAndFilterParameters,
+} from "../../_shared/parameter-pipeline.ts";
+import { createMockOutputUrl, type SimulatedGeneration } from "../../_shared/workflow-simulation.ts";
+import { sanitizeParametersForProviders } from "./parameter-resolver.ts";
 
 // Minimal interface for workflow orchestration
 interface Generation extends Pick<GenerationRecord, 'id' | 'workflow_execution_id' | 'workflow_step_number' | 'storage_path' | 'tokens_used'> {}
 
+/**
+ * Simulate mode (see _shared/workflow-simulation.ts): steps are answered by
+ * the stub provider in-process instead of being sent to generate-content
+ */
+export interface WorkflowSimulation {
+  /** Locked model SCHEMA by model_record_id, used to coerce parameters */
+  schemas: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Answer a claimed step with the stub provider and hand its output to the
+ * orchestrator, exactly as the webhook does when a real generation completes.
+ * Parameters go through the generate-content pipeline and the step is priced
+ * the way generate-content would charge it, but nothing is generated or paid.
+ */
+export async function simulateWorkflowStep(
+  step: { step_number: number; model_record_id: string },
+  prompt: string,
+  parameters: Record<string, unknown>,
+  executionId: string,
+  simulation: WorkflowSimulation,
+  supabase: SupabaseClient
+): Promise<void> {
+  const metadata = getModelConfig(step.model_record_id);
+  const schema = simulation.schemas[step.model_record_id] ?? { properties: {} };
+
+  const unwrapped = normalizeParameterKeys(unwrapProviderInput({ ...parameters }));
+  const applyDefaults = !isPreparedRunwarePayload(metadata.provider, unwrapped);
+  const coerced = coerceParametersBySchema(
+    validateAndFilterParameters(unwrapped, schema, { applyDefaults }),
+    schema
+  );
+
+  const generation: SimulatedGeneration = {
+    model_record_id: step.model_record_id,
+    prompt,
+    parameters: coerced,
+    cost: calculatePerSecondCost(step.model_record_id, coerced) ?? metadata.baseCreditCost,
+  };
+  const outputUrl = createMockOutputUrl(step.step_number, getGenerationType(metadata.contentType), generation);
+
+  await orchestrateWorkflow(
+    {
+      id: `simulated-step-${step.step_number}`,
+      workflow_execution_id: executionId,
+      workflow_step_number: step.step_number,
+      storage_path: outputUrl,
+      tokens_used: 0,
+    },
+    outputUrl,
+    false,
+    supabase,
+    { ...simulation, generation }
+  );
+}
+
+/**
+ * Mark the workflow step a failed generation belonged to as failed, so the
+ * execution stops waiting for it and can be resumed from that step.
+ */
+export async function failWorkflowStepForGeneration(
+  generation: Pick<Generation, 'workflow_execution_id' | 'workflow_step_number'>,
+  errorMessage: string,
+  supabase: SupabaseClient
+): Promise<void> {
+  if (!generation.workflow_execution_id || !generation.workflow_step_number) {
+    return; // Not part of a workflow
+  }
+
+  const { error } = await supabase.rpc('fail_workflow_step', {
+    p_execution_id: generation.workflow_execution_id,
+    p_step_number: generation.workflow_step_number,
+    p_error_message: `Step ${generation.workflow_step_number} failed: ${errorMessage}`,
+  });
+
+  if (error) {
+    const logger = new EdgeLogger('workflow-orchestrator', crypto.randomUUID());
+    logger.error('Failed to mark workflow step as failed', error as Error, {
+      metadata: { workflowExecutionId: generation.workflow_execution_id }
+    });
+  }
+}
+
 export async function orchestrateWorkflow(
   generation: Generation,
   storagePath: string | null,
   isMultiOutput: boolean,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  simulation?: WorkflowSimulation & { generation: SimulatedGeneration }
 ): Promise<void> {
   const logger = new EdgeLogger('workflow-orchestrator', crypto.randomUUID());
   
@@ -42,7 +147,7 @@ export async function orchestrateWorkflow(
     // Fetch workflow execution and template
     const { data: workflowExecution, error: execError } = await supabase
       .from('workflow_executions')
-      .select('*, workflow_templates(*)')
+      .select('*, workflow_templates(*), workflow_template_versions!workflow_executions_template_version_id_fkey(workflow_steps)')
       .eq('id', generation.workflow_execution_id)
       .single();
 
@@ -52,7 +157,7 @@ export async function orchestrateWorkflow(
     }
 
     const currentStepNumber = generation.workflow_step_number;
-    interface WorkflowStep {
+    interface WorkflowStep extends WorkflowGraphStep {
       step_number: number;
       step_name: string;
       model_record_id: string;
@@ -63,8 +168,11 @@ export async function orchestrateWorkflow(
       output_key?: string;
     }
 
+    // Run the template version the execution was started with, so publishing
+    // a new version never changes an execution that is already running
     const template = workflowExecution.workflow_templates as Record<string, unknown>;
-    const steps = (template.workflow_steps as WorkflowStep[]) || [];
+    const pinnedVersion = workflowExecution.workflow_template_versions as { workflow_steps: unknown } | null;
+    const steps = ((pinnedVersion?.workflow_steps ?? template.workflow_steps) as WorkflowStep[]) || [];
     const totalSteps = steps.length;
     const currentStep = steps.find(s => s.step_number === currentStepNumber);
 
@@ -72,96 +180,157 @@ export async function orchestrateWorkflow(
       metadata: { currentStep: currentStepNumber, totalSteps } 
     });
 
-    // Determine output storage path
+    // Determine output storage paths (all outputs are addressable as
+    // steps.N.outputs[i].url; the first one is the step's primary output)
     let stepOutputPath = storagePath || generation.storage_path;
-    if (!stepOutputPath && isMultiOutput) {
-      const { data: firstChild } = await supabase
+    let stepOutputPaths: string[] = stepOutputPath ? [stepOutputPath] : [];
+    if (isMultiOutput) {
+      const { data: children } = await supabase
         .from('generations')
         .select('storage_path, output_url')
         .eq('parent_generation_id', generation.id)
-        .eq('output_index', 0)
-        .maybeSingle();
-      stepOutputPath = firstChild?.storage_path || firstChild?.output_url || null;
+        .order('output_index', { ascending: true });
+      const childPaths = (children || [])
+        .map(child => child.storage_path || child.output_url)
+        .filter((path): path is string => Boolean(path));
+      if (childPaths.length > 0) stepOutputPaths = childPaths;
+      stepOutputPath = stepOutputPath || childPaths[0] || null;
       logger.debug('Multi-output: using first child path', { 
-        metadata: { stepOutputPath } 
+        metadata: { stepOutputPath, outputCount: childPaths.length } 
       });
     }
 
-    // Update step_outputs
-    const existingOutputs = (workflowExecution.step_outputs as Record<string, unknown>) || {};
-    const updatedOutputs = {
-      ...existingOutputs,
-      [`step${currentStepNumber}`]: {
+    // Record this step's output atomically - parallel steps may complete
+    // concurrently and must not overwrite each other's outputs. This happens
+    // even when a sibling has already failed the execution, so a resume
+    // reuses the output instead of finding the step stuck in 'running'
+    const { data: completedRows, error: completeError } = await supabase.rpc('complete_workflow_step', {
+      p_execution_id: generation.workflow_execution_id,
+      p_step_number: currentStepNumber,
+      p_output: {
         [currentStep?.output_key || 'output']: stepOutputPath,
+        outputs: stepOutputPaths.map(path => ({ url: path })),
         generation_id: generation.id,
+        ...(simulation ? { simulation: simulation.generation } : {}),
       },
-    };
+      p_tokens_used: generation.tokens_used || 0,
+    });
+
+    const updatedExecution = (completedRows as Record<string, unknown>[] | null)?.[0];
+    if (completeError || !updatedExecution) {
+      logger.error('Failed to record workflow step completion', completeError as Error);
+      return;
+    }
 
-    const currentTokens = (workflowExecution.tokens_used as number) || 0;
-    const newTokens = currentTokens + (generation.tokens_used || 0);
+    if (updatedExecution.status === GENERATION_STATUS.FAILED) {
+      logger.info('Workflow execution already failed - not scheduling further steps');
+      return;
+    }
 
-    // Check if there are more steps
-    if (currentStepNumber < totalSteps) {
-      const nextStepNumber = currentStepNumber + 1;
-      const nextStep = steps.find(s => s.step_number === nextStepNumber);
-      
-      logger.info('Starting next step', { 
-        metadata: { nextStepNumber, totalSteps } 
-      });
+    const updatedOutputs = (updatedExecution.step_outputs as Record<string, unknown>) || {};
+    const stepStates = (updatedExecution.step_states as WorkflowStepStates) || {};
 
-      await supabase
-        .from('workflow_executions')
-        .update({
-          step_outputs: updatedOutputs,
-          tokens_used: newTokens,
-          current_step: nextStepNumber,
-        })
-        .eq('id', generation.workflow_execution_id);
+    // Build context and work out which steps are now ready
+    const context = createTemplateContext(workflowExecution.user_inputs, updatedOutputs);
+
+    const plan = planNextSteps(steps, stepStates, context);
+    const { data: claimedSteps, error: claimError } = await supabase.rpc('claim_workflow_steps', {
+      p_execution_id: generation.workflow_execution_id,
+      p_start_steps: plan.start,
+      p_skip_steps: plan.skip,
+    });
+
+    if (claimError) {
+      logger.error('Failed to claim next workflow steps', claimError as Error);
+      return;
+    }
 
-      // Build context and resolve parameters
-      const context = {
-        user: workflowExecution.user_inputs,
-        ...updatedOutputs,
-      };
+    const startedSteps = (claimedSteps as number[] | null) || [];
+    logger.info('Scheduling next steps', { 
+      metadata: { startedSteps, skippedSteps: plan.skip, totalSteps } 
+    });
 
-      const resolvedMappings = resolveInputMappings(nextStep?.input_mappings || {}, context);
-      const allParameters = { ...(nextStep?.parameters || {}), ...resolvedMappings };
+    // Every claimed step is already 'running': one that cannot be resolved or
+    // started is failed on its own and the loop moves on, or the steps
+    // claimed after it would wait forever with no generation behind them
+    for (const nextStepNumber of startedSteps) {
+      const nextStep = steps.find(s => s.step_number === nextStepNumber);
 
-      // Validate nextStep exists before proceeding
       if (!nextStep) {
-        throw new Error(`Step ${nextStepNumber} not found in workflow template`);
+        logger.error('Claimed step not found in workflow template', undefined, {
+          metadata: { nextStepNumber }
+        });
+        await supabase.rpc('fail_workflow_step', {
+          p_execution_id: generation.workflow_execution_id,
+          p_step_number: nextStepNumber,
+          p_error_message: `Step ${nextStepNumber} not found in workflow template`,
+        });
+        continue;
       }
 
-      // Note: Schema coercion skipped - static metadata doesn't include full schema
-      // Parameters will be validated by the generate-content edge function
-      const coercedParameters = allParameters;
-
-      const sanitizedParameters = await sanitizeParametersForProviders(
-        coercedParameters,
-        workflowExecution.user_id,
-        supabase
+      // Apply any model/prompt/parameter override stored when the execution was resumed
+      const effectiveStep = applyStepOverride(
+        nextStep,
+        getStepOverride(workflowExecution.step_overrides, nextStepNumber)
       );
 
-      // Generate prompt
       let resolvedPrompt: string;
-      if (sanitizedParameters.prompt) {
-        const promptString = typeof sanitizedParameters.prompt === 'string'
-          ? sanitizedParameters.prompt
-          : String(sanitizedParameters.prompt);
-        resolvedPrompt = replaceTemplateVariables(promptString, context);
-      } else {
-        resolvedPrompt = replaceTemplateVariables(nextStep.prompt_template || '', context);
+      let sanitizedParameters: Record<string, unknown>;
+      try {
+        const resolved = resolveWorkflowStep(effectiveStep, context);
+
+        // Note: Schema coercion skipped - static metadata doesn't include full schema
+        // Parameters will be validated by the generate-content edge function
+
+        sanitizedParameters = await sanitizeParametersForProviders(
+          resolved.parameters,
+          workflowExecution.user_id,
+          supabase
+        );
+        resolvedPrompt = resolved.prompt;
+      } catch (resolveError) {
+        const message = resolveError instanceof Error ? resolveError.message : String(resolveError);
+        logger.error('Failed to resolve next step', resolveError instanceof Error ? resolveError : undefined, {
+          metadata: { nextStepNumber }
+        });
+        await supabase.rpc('fail_workflow_step', {
+          p_execution_id: generation.workflow_execution_id,
+          p_step_number: nextStepNumber,
+          p_error_message: `Step ${nextStepNumber} could not be prepared: ${message}`,
+        });
+        continue;
       }
 
       logger.info('Resolved prompt for next step', { 
         metadata: { nextStepNumber, prompt: resolvedPrompt.substring(0, 100) } 
       });
 
+      if (simulation) {
+        try {
+          await simulateWorkflowStep(
+            effectiveStep,
+            resolvedPrompt,
+            sanitizedParameters,
+            generation.workflow_execution_id,
+            simulation,
+            supabase
+          );
+        } catch (simulateError) {
+          const message = simulateError instanceof Error ? simulateError.message : String(simulateError);
+          await supabase.rpc('fail_workflow_step', {
+            p_execution_id: generation.workflow_execution_id,
+            p_step_number: nextStepNumber,
+            p_error_message: `Step ${nextStepNumber} failed to start: ${message}`,
+          });
+        }
+        continue;
+      }
+
       // Start next step
       const generateResponse = await supabase.functions.invoke('generate-content', {
         body: {
-          model_id: nextStep.model_id || null,
-          model_record_id: nextStep.model_record_id,
+          model_id: effectiveStep.model_id || null,
+          model_record_id: effectiveStep.model_record_id,
           prompt: resolvedPrompt,
           custom_parameters: sanitizedParameters,
           workflow_execution_id: generation.workflow_execution_id,
@@ -173,35 +342,44 @@ export async function orchestrateWorkflow(
         logger.error('Failed to start next step', generateResponse.error, { 
           metadata: { nextStepNumber } 
         });
-        await supabase
-          .from('workflow_executions')
-          .update({
-            status: GENERATION_STATUS.FAILED,
-            error_message: `Step ${nextStepNumber} failed to start: ${generateResponse.error.message}`,
-          })
-          .eq('id', generation.workflow_execution_id);
-      } else {
-        logger.info('Next step started successfully', { 
-          metadata: { nextStepNumber } 
+        await supabase.rpc('fail_workflow_step', {
+          p_execution_id: generation.workflow_execution_id,
+          p_step_number: nextStepNumber,
+          p_error_message: `Step ${nextStepNumber} failed to start: ${generateResponse.error.message}`,
         });
+        continue;
       }
-    } else {
-      // All steps completed
-      logger.info('All steps completed - finalizing workflow');
 
-      const finalOutput = updatedOutputs[`step${totalSteps}`];
-      const finalOutputUrl = finalOutput
-        ? (finalOutput as Record<string, unknown>)[Object.keys(finalOutput).find(k => k !== 'generation_id') || 'output']
-        : null;
+      logger.info('Next step started successfully', { 
+        metadata: { nextStepNumber } 
+      });
+    }
+
+    const settledStates: WorkflowStepStates = { ...stepStates };
+    plan.skip.forEach(stepNumber => { settledStates[String(stepNumber)] = 'skipped'; });
 
-      logger.info('Final output URL determined', { metadata: { finalOutputUrl } });
+    if (startedSteps.length === 0 && isWorkflowSettled(steps, settledStates)) {
+      // All steps completed or skipped
+      logger.info('All steps settled - finalizing workflow');
+
+      const finalStepNumber = selectFinalOutputStep(steps, settledStates);
+      const finalStep = steps.find(s => s.step_number === finalStepNumber);
+      const finalOutput = finalStepNumber !== null
+        ? updatedOutputs[`step${finalStepNumber}`] as Record<string, unknown> | undefined
+        : undefined;
+      const finalOutputUrl = finalOutput?.[finalStep?.output_key || 'output'] ?? null;
+
+      logger.info('Final output URL determined', { metadata: { finalStepNumber, finalOutputUrl } });
+
+      // Refund whatever a resume prepaid for steps that ended up skipped or cheaper
+      await supabase.rpc('settle_workflow_prepaid_credits', {
+        p_execution_id: generation.workflow_execution_id,
+      });
 
       await supabase
         .from('workflow_executions')
         .update({
           status: GENERATION_STATUS.COMPLETED,
-          step_outputs: updatedOutputs,
-          tokens_used: newTokens,
           final_output_url: finalOutputUrl,
           completed_at: new Date().toISOString(),
         })
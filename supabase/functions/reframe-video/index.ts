@@ -0,0 +1,289 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  MAX_REFRAME_SECONDS,
+  MAX_REFRAME_TARGETS,
+  REFRAME_SIZES,
+  buildReframeEdit,
+  getReframeCredits,
+  isReframeAspectRatio,
+  validateReframePath,
+  type ReframeAspectRatio,
+} from "../_shared/reframe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const SHOTSTACK_RENDER_URL = "https://api.shotstack.io/edit/v1/render";
+
+// Buckets a generation's storage path may start with; others live in generated-content
+const KNOWN_BUCKETS = ["generated-content", "storyboard-videos", "faceless-videos", "voice-previews"];
+
+interface ReframeRequest {
+  source: { type: "generation" | "render"; id: string };
+  aspectRatios: unknown; // ReframeAspectRatio[]
+  path: unknown; // ReframeKeyframe[], see _shared/reframe.ts
+  sourceSize: { width: number; height: number }; // measured by the editor
+  duration?: number; // generations only; renders use their stored length
+}
+
+const isDimension = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 16 && value <= 8192;
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify auth
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("[reframe-video] No authorization header");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Get user from auth header
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error("[reframe-video] Auth error:", authError?.message);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const shotstackApiKey = Deno.env.get("SHOTSTACK_API_KEY");
+    if (!shotstackApiKey) {
+      console.error("[reframe-video] SHOTSTACK_API_KEY not configured");
+      return new Response(
+        JSON.stringify({ error: "Render service not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate request body
+    const body: ReframeRequest = await req.json();
+    const { source, sourceSize } = body;
+
+    const aspectRatios = Array.isArray(body.aspectRatios) ? [...new Set(body.aspectRatios)] : [];
+    if (aspectRatios.length === 0 || aspectRatios.length > MAX_REFRAME_TARGETS || !aspectRatios.every(isReframeAspectRatio)) {
+      return new Response(
+        JSON.stringify({ error: `Choose 1 to ${MAX_REFRAME_TARGETS} of: ${Object.keys(REFRAME_SIZES).join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!isDimension(sourceSize?.width) || !isDimension(sourceSize?.height)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid source video size" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Resolve the source video; only the user's own finished videos can be reframed
+    let sourceUrl: string | null = null;
+    let duration = 0;
+
+    if (source?.type === "generation" && typeof source.id === "string") {
+      const { data: generation } = await supabase
+        .from("generations")
+        .select("id, type, status, output_url, storage_path")
+        .eq("id", source.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (generation?.type === "video" && generation.status === "completed") {
+        if (generation.storage_path) {
+          const [first, ...rest] = generation.storage_path.split("/");
+          const bucket = KNOWN_BUCKETS.includes(first) ? first : "generated-content";
+          const path = bucket === first ? rest.join("/") : generation.storage_path;
+          // Long enough for Shotstack to fetch it while the job waits in its queue
+          const { data: signed } = await supabase.storage.from(bucket).createSignedUrl(path, 3600 * 24);
+          sourceUrl = signed?.signedUrl ?? null;
+        }
+        sourceUrl = sourceUrl ?? generation.output_url;
+      }
+      // Generations don't record their length, so the client's is used -
+      // the render is exactly that long, so that's also what gets charged
+      duration = typeof body.duration === "number" && Number.isFinite(body.duration) ? body.duration : 0;
+    } else if (source?.type === "render" && typeof source.id === "string") {
+      const { data: render } = await supabase
+        .from("video_editor_jobs")
+        .select("id, status, final_video_url, total_duration, output_settings")
+        .eq("id", source.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      const format = (render?.output_settings as { format?: string } | null)?.format ?? "mp4";
+      if (render?.status === "done" && format === "mp4") {
+        sourceUrl = render.final_video_url;
+        duration = Number(render.total_duration);
+      }
+    }
+
+    if (!sourceUrl) {
+      return new Response(
+        JSON.stringify({ error: "Source video not found or not finished" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(duration > 0) || duration > MAX_REFRAME_SECONDS) {
+      return new Response(
+        JSON.stringify({ error: `Videos up to ${MAX_REFRAME_SECONDS / 60} minutes can be reframed` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const validation = validateReframePath(body.path, duration);
+    if ("error" in validation) {
+      return new Response(
+        JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { path } = validation;
+
+    // Priced here from the length being rendered, per target ratio
+    const costPerTarget = getReframeCredits(duration, 1);
+    const totalCost = getReframeCredits(duration, aspectRatios.length);
+
+    // Check user credits
+    const { data: subscription, error: subError } = await supabase
+      .from("user_subscriptions")
+      .select("tokens_remaining")
+      .eq("user_id", user.id)
+      .single();
+
+    if (subError || !subscription) {
+      console.error("[reframe-video] Subscription fetch error:", subError?.message);
+      return new Response(
+        JSON.stringify({ error: "Could not verify credits" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (subscription.tokens_remaining < totalCost) {
+      return new Response(
+        JSON.stringify({
+          error: "Insufficient credits",
+          required: totalCost,
+          available: subscription.tokens_remaining
+        }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: deducted, error: deductError } = await supabase.rpc("deduct_user_tokens", {
+      p_user_id: user.id,
+      p_cost: totalCost,
+    });
+
+    if (deductError) {
+      console.error("[reframe-video] Credit deduction error:", deductError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to deduct credits" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The balance can drop between the check above and the deduction
+    if (!deducted?.[0]?.success) {
+      return new Response(
+        JSON.stringify({ error: "Insufficient credits", required: totalCost }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`[reframe-video] User ${user.id} reframing ${source.type} ${source.id} to ${aspectRatios.join(", ")} for ${totalCost} credits`);
+
+    // One job per ratio; a ratio that fails to start is refunded on its own
+    const jobs: Array<{ aspectRatio: ReframeAspectRatio; jobId?: string; error?: string }> = [];
+    for (const aspectRatio of aspectRatios as ReframeAspectRatio[]) {
+      const edit = buildReframeEdit({ src: sourceUrl, duration, ...sourceSize }, aspectRatio, path);
+
+      const { data: job, error: jobError } = await supabase
+        .from("video_editor_jobs")
+        .insert({
+          user_id: user.id,
+          status: "queued",
+          job_type: "reframe",
+          source_generation_id: source.type === "generation" ? source.id : null,
+          source_job_id: source.type === "render" ? source.id : null,
+          reframe_path: path,
+          output_settings: { aspectRatio, format: "mp4", backgroundColor: "#000000", fps: edit.output.fps, quality: "hd" },
+          total_duration: duration,
+          cost_credits: costPerTarget,
+          render_backend: "shotstack",
+        })
+        .select()
+        .single();
+
+      if (jobError || !job) {
+        console.error("[reframe-video] Job creation error:", jobError?.message);
+        await supabase.rpc("increment_tokens", { user_id_param: user.id, amount: costPerTarget });
+        jobs.push({ aspectRatio, error: "Failed to create job" });
+        continue;
+      }
+
+      const shotstackResponse = await fetch(SHOTSTACK_RENDER_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": shotstackApiKey,
+        },
+        body: JSON.stringify(edit),
+      });
+      const shotstackData = await shotstackResponse.json();
+
+      if (!shotstackResponse.ok) {
+        console.error(`[reframe-video] Shotstack error for ${aspectRatio}:`, shotstackData);
+        const message = shotstackData.message || "Shotstack API error";
+        await supabase
+          .from("video_editor_jobs")
+          .update({ status: "failed", error_message: message })
+          .eq("id", job.id);
+        await supabase.rpc("increment_tokens", { user_id_param: user.id, amount: costPerTarget });
+        jobs.push({ aspectRatio, jobId: job.id, error: message });
+        continue;
+      }
+
+      await supabase
+        .from("video_editor_jobs")
+        .update({
+          status: "rendering",
+          shotstack_render_id: shotstackData.response?.id,
+        })
+        .eq("id", job.id);
+
+      console.log(`[reframe-video] Started ${aspectRatio} job ${job.id}`);
+      jobs.push({ aspectRatio, jobId: job.id });
+    }
+
+    const started = jobs.filter(job => !job.error).length;
+    return new Response(
+      JSON.stringify({ success: started > 0, jobs, creditsCharged: costPerTarget * started }),
+      { status: started > 0 ? 200 : 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("[reframe-video] Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -3,6 +3,14 @@ import { EdgeLogger } from "../_shared/edge-logger.ts";
 import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
 import { API_ENDPOINTS } from "../_shared/api-endpoints.ts";
 import { applyRateLimit } from "../_shared/rate-limit-middleware.ts";
+import {
+  buildDialogueMovieScenes,
+  getDialogueSpeakers,
+  getSceneLines,
+  narratorLine,
+  toDialogueCharacters,
+  type DialogueVisual,
+} from "../_shared/storyboard-dialogue.ts";
 
 
 
@@ -154,7 +162,7 @@ Deno.serve(async (req) => {
     // Fetch scenes to calculate total duration
     const { data: scenes, error: scenesError } = await supabaseClient
       .from('storyboard_scenes')
-      .select('id, order_number, voice_over_text, image_prompt, image_preview_url, video_url')
+      .select('id, order_number, voice_over_text, image_prompt, image_preview_url, video_url, dialogue')
       .eq('storyboard_id', storyboardId)
       .order('order_number', { ascending: true });
 
@@ -431,21 +439,89 @@ Deno.serve(async (req) => {
       metadata: { variable_keys: Object.keys(variables) }
     });
 
+    const renderExports = [
+      {
+        destinations: [
+          {
+            type: "webhook",
+            endpoint: webhookUrl,
+            "content-type": "json"
+          }
+        ]
+      }
+    ];
+
+    // Dialogue storyboards need a voice per line, which the templates can't
+    // do - build the movie inline instead, one JSON2Video scene per line
+    const dialogueCharacters = toDialogueCharacters(storyboard.dialogue_characters);
+    const renderContent = dialogueCharacters.length > 0
+      ? buildDialogueMovie()
+      : { template: templateId, variables };
+
+    function buildDialogueMovie() {
+      const speakers = getDialogueSpeakers(
+        { voiceId: storyboard.voice_id, voiceName: storyboard.voice_name, voiceModel: storyboard.voice_model },
+        dialogueCharacters
+      );
+      const imageModel = storyboard.image_model || 'freepik-classic';
+      const toVisual = (videoUrl: string | null, previewUrl: string | null, prompt: string | null): DialogueVisual => {
+        if (videoUrl) return { type: 'video', src: videoUrl };
+        if (previewUrl && isVideoUrl(previewUrl)) return { type: 'video', src: previewUrl };
+        if (previewUrl) return { type: 'image', src: previewUrl };
+        return { type: 'prompt', prompt: prompt || '', model: imageModel };
+      };
+
+      const dialogueScenes = [
+        ...(storyboard.intro_voiceover_text ? [{
+          comment: 'Intro',
+          visual: toVisual(storyboard.intro_video_url, storyboard.intro_image_preview_url, storyboard.intro_image_prompt),
+          lines: [narratorLine(storyboard.intro_voiceover_text)],
+        }] : []),
+        ...scenes.map(s => ({
+          comment: `Scene ${s.order_number}`,
+          visual: toVisual(s.video_url, s.image_preview_url, s.image_prompt),
+          lines: getSceneLines(s, speakers),
+        })),
+      ];
+
+      const subtitleSettings = storyboard.subtitle_settings ?? {};
+      return {
+        elements: storyboard.background_music_url ? [{
+          type: "audio",
+          src: storyboard.background_music_url,
+          volume: storyboard.music_settings?.volume ?? 0.05,
+          duration: -2,
+          "fade-in": storyboard.music_settings?.fadeIn ?? 2,
+          "fade-out": storyboard.music_settings?.fadeOut ?? 2
+        }] : [],
+        scenes: buildDialogueMovieScenes(dialogueScenes, speakers, {
+          subtitlesModel: storyboard.subtitles_model || 'default',
+          subtitleSettings: {
+            "style": subtitleSettings.style || 'boxed-word',
+            "font-family": subtitleSettings.fontFamily || 'Oswald Bold',
+            "font-size": subtitleSettings.fontSize || 140,
+            "all-caps": subtitleSettings.allCaps ?? false,
+            "box-color": subtitleSettings.boxColor || '#000000',
+            "line-color": subtitleSettings.lineColor || '#FFFFFF',
+            "word-color": subtitleSettings.wordColor || '#FFFF00',
+            "outline-color": subtitleSettings.outlineColor || '#000000',
+            "outline-width": subtitleSettings.outlineWidth ?? 8,
+            "shadow-color": subtitleSettings.shadowColor || '#000000',
+            "shadow-offset": subtitleSettings.shadowOffset ?? 0,
+            "position": subtitleSettings.position || 'mid-bottom-center',
+            "max-words-per-line": subtitleSettings.maxWordsPerLine || 4,
+            "x": subtitleSettings.x || 0,
+            "y": subtitleSettings.y || 0,
+          },
+          zoom: storyboard.image_animation_settings?.zoom ?? 2,
+        }),
+      };
+    }
+
     const renderPayload = {
-      template: templateId,
-      variables,
+      ...renderContent,
       project: uniqueRenderJobId,
-      exports: [
-        {
-          destinations: [
-            {
-              type: "webhook",
-              endpoint: webhookUrl,
-              "content-type": "json"
-            }
-          ]
-        }
-      ],
+      exports: renderExports,
       // Apply customization settings
       ...mapAspectRatio(
         storyboard.aspect_ratio || 'full-hd',
@@ -487,7 +563,9 @@ Deno.serve(async (req) => {
       return presetMap[ratio] || presetMap['full-hd']; // Default to Full HD
     }
 
-    logger.info('Calling JSON2Video API', { metadata: { renderPayload: JSON.stringify(renderPayload) } });
+    logger.info('Calling JSON2Video API', {
+      metadata: { renderPayload: JSON.stringify(renderPayload), dialogueCharacters: dialogueCharacters.length }
+    });
 
     // Call JSON2Video API
     const json2videoResponse = await fetch(API_ENDPOINTS.JSON2VIDEO.moviesUrl, {
@@ -1,47 +1,29 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { selectRenderBackend } from "../_shared/render-backends.ts";
+import { buildShotstackPayload, getTimelineDuration, type EditorAsset } from "../_shared/render-payload.ts";
+import {
+  attachRenderAssets,
+  getRenderAssetIds,
+  getRenderCredits,
+  isStorageUrl,
+  validateRenderRequest,
+} from "../_shared/render-request.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// The editor model (see _shared/render-request.ts) plus what the client
+// expects to pay. The Shotstack edit is built here, never taken from the client.
 interface RenderRequest {
-  clips: Array<{
-    id: string;
-    assetId: string;
-    duration: number;
-    trimStart: number;
-    transitionIn?: string;
-    transitionOut?: string;
-    transitionDuration: number;
-    volume: number;
-    fit: string;
-  }>;
-  audioTrack: {
-    id: string;
-    assetId: string;
-    volume: number;
-    fadeIn: boolean;
-    fadeOut: boolean;
-  } | null;
-  subtitleConfig: {
-    mode: string;
-    fontSize: number;
-    fontColor: string;
-    backgroundColor: string;
-    showBackground: boolean;
-    position: string;
-  };
-  outputSettings: {
-    aspectRatio: string;
-    format: string;
-    backgroundColor: string;
-    fps: number;
-    quality: string;
-  };
-  totalDuration: number;
+  tracks: unknown[];
+  clips: unknown[];
+  audioTrack: unknown;
+  subtitleConfig: unknown;
+  outputSettings: unknown;
   estimatedCredits: number;
-  shotstackPayload: any;
+  renderBackend?: string; // 'shotstack' (default), 'ffmpeg' or 'auto'
 }
 
 Deno.serve(async (req) => {
@@ -80,33 +62,83 @@ Deno.serve(async (req) => {
 
     console.log(`[render-video-editor] User ${user.id} starting render`);
 
-    // Parse request body
+    // Parse and validate request body
     const body: RenderRequest = await req.json();
-    const { clips, audioTrack, subtitleConfig, outputSettings, totalDuration, estimatedCredits, shotstackPayload } = body;
-
-    // Validate request
-    if (!clips || clips.length === 0) {
+    const validation = validateRenderRequest(body);
+    if ("error" in validation) {
       return new Response(
-        JSON.stringify({ error: "No clips provided" }),
+        JSON.stringify({ error: validation.error }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    if (totalDuration <= 0) {
+    // Media comes from the user's own library, and only from our storage
+    const assetIds = getRenderAssetIds(validation.document);
+    const { data: assetRows, error: assetsError } = await supabase
+      .from("video_editor_assets")
+      .select("id, type, url, duration")
+      .eq("user_id", user.id)
+      .in("id", assetIds);
+
+    if (assetsError) {
+      console.error("[render-video-editor] Asset fetch error:", assetsError.message);
+      return new Response(
+        JSON.stringify({ error: "Could not load media" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const assets: EditorAsset[] = (assetRows ?? []).map((row) => ({
+      id: row.id,
+      type: row.type,
+      url: row.url,
+      duration: row.duration == null ? undefined : Number(row.duration),
+    }));
+    if (assets.some((asset) => !isStorageUrl(asset.url, supabaseUrl))) {
+      console.error(`[render-video-editor] User ${user.id} rendering media from outside storage`);
       return new Response(
-        JSON.stringify({ error: "Invalid duration" }),
+        JSON.stringify({ error: "Media must come from your uploads or generations" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Validate estimatedCredits
-    if (typeof estimatedCredits !== 'number' || estimatedCredits <= 0) {
-      console.error("[render-video-editor] Invalid estimatedCredits:", estimatedCredits);
+    const attached = attachRenderAssets(validation.document, assets);
+    if ("error" in attached) {
+      return new Response(
+        JSON.stringify({ error: attached.error }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { document } = attached;
+    const { clips, audioTrack, subtitleConfig, outputSettings } = document;
+
+    // Priced here; a client showing a different price has a stale edit
+    const estimatedCredits = getRenderCredits(document);
+    const totalDuration = getTimelineDuration(clips);
+    if (body.estimatedCredits !== estimatedCredits) {
+      console.error(`[render-video-editor] Credit mismatch: client=${body.estimatedCredits}, server=${estimatedCredits}`);
+      return new Response(
+        JSON.stringify({ error: "Render price has changed, please try again", required: estimatedCredits }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const shotstackPayload = buildShotstackPayload(document);
+
+    // Pick the render backend before charging, so a refused backend costs nothing
+    const selection = selectRenderBackend(
+      body.renderBackend,
+      shotstackPayload,
+      Deno.env.get("FFMPEG_RENDER_WORKER_ENABLED") === "true",
+      outputSettings.format
+    );
+    if (selection.backend === null) {
       return new Response(
-        JSON.stringify({ error: "Invalid credit amount" }),
+        JSON.stringify({ error: selection.error }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const renderBackend = selection.backend;
 
     // Check user credits
     const { data: subscription, error: subError } = await supabase
@@ -138,7 +170,7 @@ Deno.serve(async (req) => {
     const creditCost = Number(estimatedCredits);
     console.log(`[render-video-editor] Deducting credits: user=${user.id}, cost=${creditCost}`);
     
-    const { error: deductError } = await supabase.rpc("deduct_user_tokens", {
+    const { data: deducted, error: deductError } = await supabase.rpc("deduct_user_tokens", {
       p_user_id: user.id,
       p_cost: creditCost,
     });
@@ -151,6 +183,14 @@ Deno.serve(async (req) => {
       );
     }
 
+    // The balance can drop between the check above and the deduction
+    if (!deducted?.[0]?.success) {
+      return new Response(
+        JSON.stringify({ error: "Insufficient credits", required: creditCost }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     console.log(`[render-video-editor] Deducted ${estimatedCredits} credits from user ${user.id}`);
 
     // Create job record
@@ -165,6 +205,9 @@ Deno.serve(async (req) => {
         output_settings: outputSettings,
         total_duration: totalDuration,
         cost_credits: estimatedCredits,
+        render_backend: renderBackend,
+        // The FFmpeg worker picks queued jobs up and compiles the stored edit
+        render_payload: renderBackend === "ffmpeg" ? shotstackPayload : null,
       })
       .select()
       .single();
@@ -182,7 +225,19 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`[render-video-editor] Created job ${job.id}`);
+    console.log(`[render-video-editor] Created ${renderBackend} job ${job.id}`);
+
+    if (renderBackend === "ffmpeg") {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          jobId: job.id,
+          renderBackend,
+          estimatedCredits,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // Submit to Shotstack API
     const shotstackApiKey = Deno.env.get("SHOTSTACK_API_KEY");
@@ -255,6 +310,7 @@ Deno.serve(async (req) => {
         success: true, 
         jobId: job.id,
         renderId,
+        renderBackend,
         estimatedCredits,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -77,8 +77,9 @@ Deno.serve(async (req) => {
       );
     }
 
-    // If no render ID yet, still queued
-    if (!job.shotstack_render_id) {
+    // FFmpeg jobs are advanced by the worker, so the stored status is current.
+    // Otherwise no render ID yet means the job is still queued.
+    if (job.render_backend === "ffmpeg" || !job.shotstack_render_id) {
       return new Response(
         JSON.stringify({ status: job.status }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,259 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getOwnedStoragePath,
+  getTranscribedSeconds,
+  getTranscriptionCredits,
+  getTranscriptionSeconds,
+  mergeTranscribedWords,
+  toTimelineWords,
+  validateTranscriptionSources,
+  type SpeechToTextWord,
+} from "../_shared/speech-transcription.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ELEVENLABS_STT_URL = "https://api.elevenlabs.io/v1/speech-to-text";
+const CONTENT_BUCKET = "generated-content";
+
+interface TranscribeRequest {
+  sources: unknown; // TranscriptionSource[] of the user's editor assets, see _shared/speech-transcription.ts
+  languageCode?: string; // ISO 639-1; detected when missing
+}
+
+interface EditorAssetRecord {
+  id: string;
+  url: string;
+  storage_path: string | null;
+  duration: number | null;
+}
+
+// Transcribe one media file; ElevenLabs fetches it from a signed storage URL
+async function transcribe(apiKey: string, fileUrl: string, languageCode?: string): Promise<SpeechToTextWord[]> {
+  const form = new FormData();
+  form.append("model_id", "scribe_v1");
+  form.append("cloud_storage_url", fileUrl);
+  form.append("timestamps_granularity", "word");
+  form.append("tag_audio_events", "false");
+  if (languageCode) form.append("language_code", languageCode);
+
+  const response = await fetch(ELEVENLABS_STT_URL, {
+    method: "POST",
+    headers: { "xi-api-key": apiKey },
+    body: form,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[transcribe-video-editor] ElevenLabs error: ${response.status} - ${errorText}`);
+    throw new Error(`Transcription failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  return Array.isArray(data.words) ? data.words : [];
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify auth
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      console.error("[transcribe-video-editor] No authorization header");
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Get user from auth header
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error("[transcribe-video-editor] Auth error:", authError?.message);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const elevenLabsApiKey = Deno.env.get("ELEVENLABS_API_KEY");
+    if (!elevenLabsApiKey) {
+      console.error("[transcribe-video-editor] ELEVENLABS_API_KEY not configured");
+      return new Response(
+        JSON.stringify({ error: "Transcription service not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse and validate request body
+    const body: TranscribeRequest = await req.json();
+    const validation = validateTranscriptionSources(body.sources);
+    if ("error" in validation) {
+      return new Response(
+        JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { sources } = validation;
+    const languageCode = typeof body.languageCode === "string" && /^[a-z]{2,3}$/.test(body.languageCode)
+      ? body.languageCode
+      : undefined;
+
+    // Only the user's own editor assets are transcribed, and their recorded
+    // length (not the client's timings) sets the price
+    const assetIds = [...new Set(sources.map(source => source.assetId))];
+    const { data: assetRows, error: assetsError } = await supabase
+      .from("video_editor_assets")
+      .select("id, url, storage_path, duration")
+      .eq("user_id", user.id)
+      .in("id", assetIds);
+
+    if (assetsError) {
+      console.error("[transcribe-video-editor] Asset fetch error:", assetsError.message);
+      return new Response(
+        JSON.stringify({ error: "Could not load the speech sources" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const assets = new Map(((assetRows ?? []) as EditorAssetRecord[]).map(asset => [asset.id, asset]));
+    const publicBucketUrl = `${supabaseUrl}/storage/v1/object/public/${CONTENT_BUCKET}/`;
+    const storagePaths = new Map<string, string>();
+    for (const assetId of assetIds) {
+      const asset = assets.get(assetId);
+      const storagePath = asset ? getOwnedStoragePath(asset, user.id, publicBucketUrl) : null;
+      if (!storagePath) {
+        return new Response(
+          JSON.stringify({ error: "Speech sources must be media you uploaded or generated" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      storagePaths.set(assetId, storagePath);
+    }
+
+    const billed = getTranscriptionSeconds(
+      sources,
+      Object.fromEntries(assetIds.map(assetId => [assetId, assets.get(assetId)?.duration]))
+    );
+    if ("error" in billed) {
+      return new Response(
+        JSON.stringify({ error: billed.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const cost = getTranscriptionCredits(billed.seconds);
+
+    // Check user credits
+    const { data: subscription, error: subError } = await supabase
+      .from("user_subscriptions")
+      .select("tokens_remaining")
+      .eq("user_id", user.id)
+      .single();
+
+    if (subError || !subscription) {
+      console.error("[transcribe-video-editor] Subscription fetch error:", subError?.message);
+      return new Response(
+        JSON.stringify({ error: "Could not verify credits" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (subscription.tokens_remaining < cost) {
+      return new Response(
+        JSON.stringify({
+          error: "Insufficient credits",
+          required: cost,
+          available: subscription.tokens_remaining
+        }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: deducted, error: deductError } = await supabase.rpc("deduct_user_tokens", {
+      p_user_id: user.id,
+      p_cost: cost,
+    });
+
+    if (deductError || !deducted?.[0]?.success) {
+      console.error("[transcribe-video-editor] Credit deduction error:", deductError?.message ?? deducted?.[0]?.error_message);
+      return new Response(
+        JSON.stringify({ error: "Failed to deduct credits" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`[transcribe-video-editor] User ${user.id} transcribing ${assetIds.length} file(s) for ${cost} credits`);
+
+    try {
+      // A file used by several clips is transcribed once
+      const transcripts = new Map<string, SpeechToTextWord[]>();
+      let transcribedSeconds = 0;
+      for (const assetId of assetIds) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(CONTENT_BUCKET)
+          .createSignedUrl(storagePaths.get(assetId)!, 3600);
+        if (signError || !signed?.signedUrl) {
+          throw new Error("A speech source could not be read from storage");
+        }
+        const assetWords = await transcribe(elevenLabsApiKey, signed.signedUrl, languageCode);
+        transcripts.set(assetId, assetWords);
+        transcribedSeconds += Math.max(assets.get(assetId)?.duration ?? 0, getTranscribedSeconds(assetWords));
+      }
+      const words = mergeTranscribedWords(
+        sources.map(source => toTimelineWords(transcripts.get(source.assetId) ?? [], source))
+      );
+
+      // A recorded length shorter than the file only delays the charge
+      let charged = cost;
+      const extra = Math.round((getTranscriptionCredits(transcribedSeconds) - cost) * 10) / 10;
+      if (extra > 0) {
+        const { data: extraDeducted, error: extraError } = await supabase.rpc("deduct_user_tokens", {
+          p_user_id: user.id,
+          p_cost: extra,
+        });
+        if (!extraError && extraDeducted?.[0]?.success) {
+          charged += extra;
+        } else {
+          console.error(`[transcribe-video-editor] Could not charge ${extra} credits for unrecorded media length`);
+        }
+      }
+
+      console.log(`[transcribe-video-editor] Transcribed ${words.length} words for user ${user.id}`);
+
+      return new Response(
+        JSON.stringify({ words, creditsCharged: charged }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      // Refund credits when transcription fails
+      await supabase.rpc("increment_tokens", {
+        user_id_param: user.id,
+        amount: cost,
+      });
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Transcription failed" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+  } catch (error) {
+    console.error("[transcribe-video-editor] Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,251 @@
+/**
+ * Video Assembly Webhook
+ *
+ * Receives render callbacks for generations assembled by the shotstack and
+ * json2video providers in generate-content, stores the rendered video,
+ * settles credits and advances workflows - the same completion path as
+ * kie-ai-webhook. Storyboard renders keep using json2video-webhook.
+ */
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createSafeErrorResponse } from "../_shared/error-handler.ts";
+import { EdgeLogger } from "../_shared/edge-logger.ts";
+import { GENERATION_STATUS } from "../_shared/constants.ts";
+import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
+import { isVideoAssemblyProvider, parseRenderCallback } from "../_shared/video-assembly.ts";
+import type { GenerationRecord } from "../_shared/database-types.ts";
+
+// Security validators
+import { validateUrlToken } from "../kie-ai-webhook/security/url-token-validator.ts";
+import { validateVerifyToken } from "../kie-ai-webhook/security/verify-token-validator.ts";
+
+// Storage operations
+import { downloadContent } from "../kie-ai-webhook/storage/content-downloader.ts";
+import { uploadToStorage } from "../kie-ai-webhook/storage/content-uploader.ts";
+import { determineFileExtension } from "../kie-ai-webhook/storage/mime-utils.ts";
+
+// Orchestration
+import { orchestrateWorkflow, failWorkflowStepForGeneration } from "../kie-ai-webhook/orchestration/workflow-orchestrator.ts";
+
+/**
+ * Mark the generation failed, release its reserved credits and fail the
+ * workflow step it belongs to
+ */
+async function failGeneration(
+  supabase: SupabaseClient,
+  generation: GenerationRecord,
+  errorMessage: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const sanitizedError = errorMessage.substring(0, 200);
+
+  await supabase
+    .from('generations')
+    .update({
+      status: GENERATION_STATUS.FAILED,
+      provider_response: {
+        ...payload,
+        error: sanitizedError,
+        error_type: 'provider_failure',
+        timestamp: new Date().toISOString()
+      }
+    })
+    .eq('id', generation.id);
+
+  await supabase.functions.invoke('settle-generation-credits', {
+    body: { generationId: generation.id, status: GENERATION_STATUS.FAILED }
+  });
+
+  await failWorkflowStepForGeneration(generation, sanitizedError, supabase);
+}
+
+Deno.serve(async (req) => {
+  const responseHeaders = getResponseHeaders(req);
+  const jsonHeaders = { ...responseHeaders, 'Content-Type': 'application/json' };
+
+  const requestId = crypto.randomUUID();
+  const logger = new EdgeLogger('video-assembly-webhook', requestId);
+  const webhookStartTime = Date.now();
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflight(req);
+  }
+
+  try {
+    const url = new URL(req.url);
+
+    // === LAYER 1: URL TOKEN VALIDATION ===
+    const urlTokenResult = validateUrlToken(url);
+    if (!urlTokenResult.success) {
+      logger.warn('URL token validation failed');
+      return new Response(urlTokenResult.shouldReturn404 ? 'Not Found' : 'Bad Request', {
+        status: urlTokenResult.shouldReturn404 ? 404 : 400,
+        headers: responseHeaders
+      });
+    }
+
+    const provider = url.searchParams.get('provider') ?? '';
+    if (!isVideoAssemblyProvider(provider)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid provider: ${provider}` }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const payload = await req.json() as Record<string, unknown>;
+    const callback = parseRenderCallback(provider, payload);
+    logger.info('Render callback received', { metadata: { provider, taskId: callback.taskId, state: callback.state } });
+
+    if (!callback.taskId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing render id in payload' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // === LAYER 2: VERIFY TOKEN VALIDATION ===
+    const verifyResult = await validateVerifyToken(url, callback.taskId, supabase);
+    if (!verifyResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: verifyResult.error,
+          ...(verifyResult.error === 'Generation was cancelled by user' && { success: true })
+        }),
+        { status: verifyResult.statusCode || 400, headers: jsonHeaders }
+      );
+    }
+
+    const generation = verifyResult.generation!;
+
+    // === IN PROGRESS ===
+    if (callback.state === 'processing') {
+      return new Response(
+        JSON.stringify({ success: true, message: 'Render in progress' }),
+        { status: 200, headers: jsonHeaders }
+      );
+    }
+
+    // === HANDLE FAILURE ===
+    if (callback.state === 'failed' || !callback.outputUrl) {
+      const errorMessage = callback.state === 'failed'
+        ? callback.error || 'Render failed'
+        : 'Render completed without an output URL';
+
+      logger.error('Render failed', undefined, {
+        metadata: { provider, taskId: callback.taskId, generationId: generation.id, error: errorMessage }
+      });
+
+      await failGeneration(supabase, generation, errorMessage, payload);
+
+      return new Response(
+        JSON.stringify({ success: true, message: 'Generation marked as failed' }),
+        { status: 200, headers: jsonHeaders }
+      );
+    }
+
+    // === HANDLE SUCCESS: Download and upload ===
+    const downloadResult = await downloadContent(callback.outputUrl);
+    if (!downloadResult.success || !downloadResult.data) {
+      await failGeneration(supabase, generation, 'Failed to download from provider', payload);
+      return new Response(
+        JSON.stringify({ success: true, message: 'Download failed - user refunded' }),
+        { status: 200, headers: jsonHeaders }
+      );
+    }
+
+    const fileExtension = determineFileExtension(downloadResult.contentType || '', callback.outputUrl, generation.type);
+    const uploadResult = await uploadToStorage(
+      supabase,
+      generation.user_id,
+      generation.id,
+      downloadResult.data,
+      fileExtension,
+      generation.type
+    );
+
+    if (!uploadResult.success) {
+      await failGeneration(supabase, generation, 'Storage upload failed', payload);
+      return new Response(
+        JSON.stringify({ success: true, message: 'Storage failed - user refunded' }),
+        { status: 200, headers: jsonHeaders }
+      );
+    }
+
+    const storagePath = uploadResult.storagePath!;
+    const fileSize = downloadResult.data.length;
+
+    await supabase
+      .from('generations')
+      .update({
+        status: GENERATION_STATUS.COMPLETED,
+        storage_path: storagePath,
+        output_url: uploadResult.publicUrl || null,
+        file_size_bytes: fileSize,
+        provider_response: {
+          ...payload,
+          our_tokens_charged: generation.tokens_used,
+          timestamp: new Date().toISOString()
+        },
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', generation.id);
+
+    // Settle credits after successful completion
+    await supabase.functions.invoke('settle-generation-credits', {
+      body: { generationId: generation.id, status: GENERATION_STATUS.COMPLETED }
+    });
+
+    logger.logDuration('video-assembly-webhook-processing', webhookStartTime, {
+      userId: generation.user_id,
+      metadata: { generationId: generation.id, provider, taskId: callback.taskId }
+    });
+
+    // === WORKFLOW ORCHESTRATION ===
+    await orchestrateWorkflow(generation, storagePath, false, supabase);
+
+    // === SEND COMPLETION NOTIFICATION ===
+    try {
+      const generationDuration = Math.floor((Date.now() - new Date(generation.created_at).getTime()) / 1000);
+      await supabase.functions.invoke('notify-generation-complete', {
+        body: {
+          generation_id: generation.id,
+          user_id: generation.user_id,
+          generation_duration_seconds: generationDuration
+        }
+      });
+    } catch (notifyError) {
+      logger.warn('Failed to send notification (non-critical)', {
+        metadata: { error: String(notifyError), generationId: generation.id }
+      });
+    }
+
+    // === AUDIT LOG ===
+    await supabase.from('audit_logs').insert({
+      user_id: generation.user_id,
+      action: 'generation_completed',
+      resource_type: 'generation',
+      resource_id: generation.id,
+      metadata: {
+        model_id: generation.model_id,
+        provider,
+        tokens_used: generation.tokens_used,
+        file_size: fileSize,
+        webhook_callback: true,
+        workflow_execution_id: generation.workflow_execution_id || null,
+      }
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, message: 'Generation completed' }),
+      { status: 200, headers: jsonHeaders }
+    );
+
+  } catch (error) {
+    const errorObj = error instanceof Error ? error : new Error(String(error));
+    return createSafeErrorResponse(errorObj, 'video-assembly-webhook', responseHeaders);
+  }
+});
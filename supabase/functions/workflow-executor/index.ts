@@ -1,19 +1,22 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { createSafeErrorResponse } from "../_shared/error-handler.ts";
 import { EdgeLogger } from "../_shared/edge-logger.ts";
-import { getModelConfig } from "../_shared/registry/index.ts";
+import { getModelConfig, modelExists } from "../_shared/registry/index.ts";
 import { validateWorkflowInputs } from "../_shared/jsonb-validation-schemas.ts";
 import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
 import {
   processImageUploads,
   sanitizeParametersForProviders
 } from "./helpers/image-upload.ts";
-import {
-  replaceTemplateVariables,
-  resolveInputMappings,
-  coerceParametersToSchema
-} from "./helpers/parameter-resolver.ts";
+import { resolveWorkflowStep } from "../_shared/workflow-step-resolver.ts";
 import { GENERATION_STATUS } from "../_shared/constants.ts";
+import { planNextSteps, validateWorkflowGraph } from "../_shared/workflow-graph.ts";
+import { createTemplateContext } from "../_shared/template-expressions.ts";
+import { buildSimulationTrace } from "../_shared/workflow-simulation.ts";
+import {
+  simulateWorkflowStep,
+  type WorkflowSimulation
+} from "../kie-ai-webhook/orchestration/workflow-orchestrator.ts";
 import {
   WorkflowExecutorRequestSchema,
   WorkflowStepSchema,
@@ -27,7 +30,73 @@ const createServiceClient = () => createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+/**
+ * Resolve a step's parameters and prompt from the execution context and
+ * hand it to generate-content. Completion is reported back via webhook.
+ * In simulate mode the stub provider answers the step in-process and the
+ * orchestrator runs the rest of the workflow before this returns.
+ */
+async function startWorkflowStep(
+  step: WorkflowStep,
+  context: Record<string, unknown>,
+  executionId: string,
+  userId: string,
+  supabase: SupabaseClient,
+  logger: EdgeLogger,
+  simulation?: { options: WorkflowSimulation; serviceClient: SupabaseClient }
+): Promise<void> {
+  const resolved = resolveWorkflowStep(step, context);
+
+  // Note: Schema coercion skipped - static metadata doesn't include full schema
+  // Parameters will be validated by the generate-content edge function
+
+  // Sanitize parameters to convert base64 images
+  const sanitizedParameters = await sanitizeParametersForProviders(resolved.parameters, userId, supabase);
+  const resolvedPrompt = resolved.prompt;
+
+  logger.debug('Step configuration resolved', {
+    userId,
+    metadata: { 
+      step_number: step.step_number,
+      prompt_length: resolvedPrompt.length,
+      parameter_keys: Object.keys(sanitizedParameters)
+    }
+  });
 
+  if (simulation) {
+    if (!step.model_record_id) {
+      throw new Error(`Step ${step.step_number} has no model`);
+    }
+    await simulateWorkflowStep(
+      { step_number: step.step_number, model_record_id: step.model_record_id },
+      resolvedPrompt,
+      sanitizedParameters,
+      executionId,
+      simulation.options,
+      simulation.serviceClient
+    );
+    return;
+  }
+
+  const generateResponse = await supabase.functions.invoke('generate-content', {
+    body: {
+      model_id: step.model_id,
+      model_record_id: step.model_record_id,
+      prompt: resolvedPrompt,
+      custom_parameters: sanitizedParameters,
+      workflow_execution_id: executionId,
+      workflow_step_number: step.step_number,
+    },
+  });
+
+  if (generateResponse.error) {
+    logger.error(`Step ${step.step_number} generation failed`, generateResponse.error, {
+      userId,
+      metadata: { execution_id: executionId }
+    });
+    throw new Error(`Step ${step.step_number} failed: ${generateResponse.error.message}`);
+  }
+}
 
 Deno.serve(async (req) => {
   const responseHeaders = getResponseHeaders(req);
@@ -62,13 +131,32 @@ Deno.serve(async (req) => {
     // Validate request body with Zod
     const requestBody = await req.json();
     const validatedRequest: WorkflowExecutorRequest = WorkflowExecutorRequestSchema.parse(requestBody);
-    const { workflow_template_id, user_inputs } = validatedRequest;
+    const { workflow_template_id, user_inputs, simulate = false, simulation_schemas = {} } = validatedRequest;
 
     logger.info('Workflow execution started', {
       userId: user.id,
-      metadata: { workflow_template_id }
+      metadata: { workflow_template_id, simulate }
     });
 
+    const serviceClient = createServiceClient();
+
+    if (simulate) {
+      const { data: adminRole } = await serviceClient
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .eq('role', 'admin')
+        .maybeSingle();
+
+      if (!adminRole) {
+        logger.error('Workflow simulation requested by non-admin user', undefined, { userId: user.id });
+        throw new Error('Unauthorized');
+      }
+    }
+    const simulation = simulate
+      ? { options: { schemas: simulation_schemas }, serviceClient }
+      : undefined;
+
     // Process any image uploads to generate signed URLs
     const processedInputs = await processImageUploads(user_inputs, user.id, supabase);
 
@@ -85,7 +173,6 @@ Deno.serve(async (req) => {
     logger.debug('User inputs validated successfully', { userId: user.id });
 
     // 1. Load workflow template using service role (base table is protected)
-    const serviceClient = createServiceClient();
     const { data: workflow, error: workflowError } = await serviceClient
       .from('workflow_templates')
       .select('*')
@@ -102,11 +189,20 @@ Deno.serve(async (req) => {
     const steps: WorkflowStep[] = WorkflowStepSchema.array().parse(workflow.workflow_steps);
     const totalSteps = steps.length;
 
+    const graphErrors = validateWorkflowGraph(steps);
+    if (graphErrors.length > 0) {
+      logger.error('Workflow template has an invalid step graph', undefined, {
+        metadata: { workflow_template_id, errors: graphErrors }
+      });
+      throw new Error(`Invalid workflow template: ${graphErrors.join('; ')}`);
+    }
+
     // 2. Create workflow execution record
     const { data: execution, error: executionError } = await supabase
       .from('workflow_executions')
       .insert({
         workflow_template_id,
+        template_version_id: workflow.published_version_id ?? null,
         user_id: user.id,
         total_steps: totalSteps,
         user_inputs: processedInputs,
@@ -127,80 +223,99 @@ Deno.serve(async (req) => {
       }
     });
 
-    // 3. Start ONLY the first step (orchestration will be handled by webhook)
-    const firstStep = steps[0];
-    logger.info('Starting first step', {
-      userId: user.id,
-      metadata: { 
-        step_number: 1,
-        step_name: firstStep.step_name 
-      }
-    });
+    // 3. Start every step whose inputs are ready (orchestration of the rest
+    // is handled by the webhook as steps complete)
+    const context = createTemplateContext(processedInputs);
 
-    // Update current step
-    await supabase
-      .from('workflow_executions')
-      .update({ current_step: firstStep.step_number })
-      .eq('id', execution.id);
-
-    // Build context for step 1
-    const context = {
-      user: processedInputs,
-    };
-
-    // Resolve input mappings
-    const resolvedMappings = resolveInputMappings(
-      firstStep.input_mappings || {},
-      context
-    );
+    const plan = planNextSteps(steps, {}, context);
+    const { data: claimedSteps, error: claimError } = await serviceClient.rpc('claim_workflow_steps', {
+      p_execution_id: execution.id,
+      p_start_steps: plan.start,
+      p_skip_steps: plan.skip,
+    });
 
-    // Merge static parameters with resolved mappings
-    const allParameters = { ...firstStep.parameters, ...resolvedMappings };
-
-    // Note: Schema coercion skipped - static metadata doesn't include full schema
-    // Parameters will be validated by the generate-content edge function
-    const coercedParameters = allParameters;
-
-    // Sanitize parameters to convert base64 images
-    const sanitizedParameters = await sanitizeParametersForProviders(coercedParameters, user.id, supabase);
-
-    // Generate prompt
-    let resolvedPrompt: string;
-    if (sanitizedParameters.prompt) {
-      const promptString = typeof sanitizedParameters.prompt === 'string' 
-        ? sanitizedParameters.prompt 
-        : String(sanitizedParameters.prompt);
-      resolvedPrompt = replaceTemplateVariables(promptString, context);
-    } else {
-      resolvedPrompt = replaceTemplateVariables(firstStep.prompt_template, context);
+    if (claimError) {
+      logger.error('Failed to claim initial workflow steps', claimError, {
+        userId: user.id,
+        metadata: { execution_id: execution.id }
+      });
+      throw new Error('Failed to schedule workflow steps');
     }
 
-    logger.debug('Step 1 configuration resolved', {
+    logger.info('Starting initial steps', {
       userId: user.id,
-      metadata: { 
-        prompt_length: resolvedPrompt.length,
-        parameter_keys: Object.keys(sanitizedParameters)
+      metadata: {
+        started_steps: claimedSteps,
+        skipped_steps: plan.skip
       }
     });
 
-    // Call generate-content for step 1
-    const generateResponse = await supabase.functions.invoke('generate-content', {
-      body: {
-        model_id: firstStep.model_id,
-        model_record_id: firstStep.model_record_id,
-        prompt: resolvedPrompt,
-        custom_parameters: sanitizedParameters,
-        workflow_execution_id: execution.id,
-        workflow_step_number: firstStep.step_number,
-      },
-    });
+    if (!claimedSteps || (claimedSteps as number[]).length === 0) {
+      // Every step was skipped by its run condition - nothing to generate
+      await serviceClient
+        .from('workflow_executions')
+        .update({
+          status: GENERATION_STATUS.COMPLETED,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', execution.id);
+    }
 
-    if (generateResponse.error) {
-      logger.error('Step 1 generation failed', generateResponse.error, {
+    // Every claimed step is already 'running', so each one that cannot start
+    // is failed on its own - stopping at the first error would leave the
+    // rest claimed with no generation behind them
+    let firstStepError: unknown = null;
+    for (const stepNumber of (claimedSteps as number[]) || []) {
+      try {
+        const step = steps.find(s => s.step_number === stepNumber);
+        if (!step) {
+          throw new Error(`Step ${stepNumber} not found in workflow template`);
+        }
+        await startWorkflowStep(step, context, execution.id, user.id, supabase, logger, simulation);
+      } catch (stepError) {
+        const message = stepError instanceof Error ? stepError.message : String(stepError);
+        await serviceClient.rpc('fail_workflow_step', {
+          p_execution_id: execution.id,
+          p_step_number: stepNumber,
+          p_error_message: message,
+        });
+        firstStepError ??= stepError;
+      }
+    }
+
+    if (simulation) {
+      // Every hand-off has run in-process, so the execution has settled.
+      // Trace it and drop the record so it never shows up as a real run
+      const { data: settled, error: settledError } = await serviceClient
+        .from('workflow_executions')
+        .select('status, step_states, step_outputs, final_output_url, error_message')
+        .eq('id', execution.id)
+        .single();
+
+      await serviceClient.from('workflow_executions').delete().eq('id', execution.id);
+
+      if (settledError || !settled) {
+        throw new Error('Failed to load simulated workflow execution');
+      }
+
+      const trace = buildSimulationTrace(
+        steps,
+        settled,
+        recordId => modelExists(recordId) ? getModelConfig(recordId).modelName : undefined
+      );
+      logger.logDuration('Workflow simulation finished', startTime, {
         userId: user.id,
-        metadata: { execution_id: execution.id }
+        metadata: { workflow_template_id, status: trace.status, total_cost: trace.total_cost }
       });
-      throw new Error(`Step 1 failed: ${generateResponse.error.message}`);
+
+      return new Response(
+        JSON.stringify({ execution_id: execution.id, status: trace.status, trace }),
+        { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (firstStepError) {
+      throw firstStepError;
     }
 
     logger.logDuration('Workflow execution initiated', startTime, {
@@ -0,0 +1,422 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createSafeErrorResponse } from "../_shared/error-handler.ts";
+import { EdgeLogger } from "../_shared/edge-logger.ts";
+import { calculatePerSecondCost, getModelConfig } from "../_shared/registry/index.ts";
+import { getResponseHeaders, handleCorsPreflight } from "../_shared/cors.ts";
+import { GENERATION_STATUS } from "../_shared/constants.ts";
+import {
+  planNextSteps,
+  validateWorkflowGraph,
+  type WorkflowStepStates,
+} from "../_shared/workflow-graph.ts";
+import { createTemplateContext } from "../_shared/template-expressions.ts";
+import { resolveWorkflowStep } from "../_shared/workflow-step-resolver.ts";
+import { sanitizeParametersForProviders } from "../workflow-executor/helpers/image-upload.ts";
+import {
+  applyStepOverride,
+  getStepOverride,
+  type WorkflowStepOverrides,
+} from "../_shared/workflow-step-overrides.ts";
+import {
+  WorkflowResumeRequestSchema,
+  WorkflowStepSchema,
+  type WorkflowResumeRequest,
+  type WorkflowStep
+} from "../_shared/schemas.ts";
+
+/**
+ * Resume a failed workflow execution from its failed step(s).
+ *
+ * Completed step outputs are reused; only the steps that still have to run
+ * are priced, and that price is deducted up front when resuming (the steps
+ * draw on it as they start, and what is left is refunded). Steps can be
+ * retried with a different model or edited prompt/parameters. With
+ * `preview: true` the resolved steps and credit estimate are returned without
+ * resuming anything.
+ */
+
+const createServiceClient = () => createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+/**
+ * Step states with failed steps reset to pending - the states the execution
+ * will have once resumed. A 'running' step whose generation is no longer in
+ * flight never had its completion recorded, so it is pending again too (or
+ * completed, if its output was recorded). Executions from before per-step
+ * states were tracked only have step outputs, so completed steps are
+ * recovered from those. Mirrors resume_workflow_execution.
+ */
+function getResumedStepStates(
+  steps: WorkflowStep[],
+  stepStates: unknown,
+  stepOutputs: Record<string, unknown>,
+  inFlightSteps: Set<number>
+): WorkflowStepStates {
+  const states: WorkflowStepStates = { ...((stepStates as WorkflowStepStates) || {}) };
+  for (const step of steps) {
+    const key = String(step.step_number);
+    const hasOutput = Boolean(stepOutputs[`step${step.step_number}`]);
+    if (states[key] === 'failed') {
+      delete states[key];
+    } else if (states[key] === 'running' && !inFlightSteps.has(step.step_number)) {
+      if (hasOutput) {
+        states[key] = 'completed';
+      } else {
+        delete states[key];
+      }
+    } else if (!states[key] && hasOutput) {
+      states[key] = 'completed';
+    }
+  }
+  return states;
+}
+
+/**
+ * Completed states recovered from step outputs that the stored step states
+ * do not have (executions from before per-step states were tracked)
+ */
+function getRecoveredStates(stepStates: unknown, states: WorkflowStepStates): WorkflowStepStates {
+  const stored = (stepStates as WorkflowStepStates) || {};
+  return Object.fromEntries(
+    Object.entries(states).filter(([key, state]) => state === 'completed' && !stored[key])
+  );
+}
+
+/**
+ * Step numbers of the execution whose generation is still pending or processing
+ */
+async function getInFlightSteps(serviceClient: SupabaseClient, executionId: string): Promise<Set<number>> {
+  const { data: generations } = await serviceClient
+    .from('generations')
+    .select('workflow_step_number')
+    .eq('workflow_execution_id', executionId)
+    .in('status', [GENERATION_STATUS.PENDING, GENERATION_STATUS.PROCESSING]);
+
+  return new Set(
+    ((generations as { workflow_step_number: number | null }[] | null) || [])
+      .map(g => g.workflow_step_number)
+      .filter((stepNumber): stepNumber is number => typeof stepNumber === 'number')
+  );
+}
+
+/**
+ * Check requested overrides against the template and fill in the model_id of
+ * swapped models. Only steps that have not completed can be overridden, and a
+ * swapped model must produce the same kind of content.
+ */
+function validateStepOverrides(
+  requested: WorkflowResumeRequest['step_overrides'],
+  steps: WorkflowStep[],
+  states: WorkflowStepStates
+): WorkflowStepOverrides {
+  const overrides: WorkflowStepOverrides = {};
+
+  for (const [key, override] of Object.entries(requested)) {
+    const step = steps.find(s => String(s.step_number) === key);
+    if (!step) {
+      throw new Error(`Invalid step override: step ${key} does not exist`);
+    }
+    if (states[key] === 'completed' || states[key] === 'skipped') {
+      throw new Error(`Invalid step override: step ${key} has already ${states[key]}`);
+    }
+
+    const inlineData = Object.values(override.parameters || {}).some(
+      value => typeof value === 'string' && value.startsWith('data:')
+    );
+    if (inlineData) {
+      throw new Error(`Invalid step override: step ${key} parameters contain inline file data`);
+    }
+
+    const stored = { ...override } as WorkflowStepOverrides[string];
+    if (override.model_record_id) {
+      const model = getModelConfig(override.model_record_id);
+      if (step.model_record_id) {
+        const original = getModelConfig(step.model_record_id);
+        if (original.contentType !== model.contentType) {
+          throw new Error(`Invalid step override: step ${key} needs a ${original.contentType} model`);
+        }
+      }
+      stored.model_id = model.modelId;
+    }
+    overrides[key] = stored;
+  }
+
+  return overrides;
+}
+
+/**
+ * Available credits (balance minus credits reserved by running generations)
+ */
+async function getAvailableCredits(serviceClient: SupabaseClient, userId: string): Promise<number> {
+  const { data: availableCredits } = await serviceClient
+    .from('user_available_credits')
+    .select('available_credits')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (availableCredits) {
+    return availableCredits.available_credits ?? 0;
+  }
+
+  const { data: subscription, error: subError } = await serviceClient
+    .from('user_subscriptions')
+    .select('tokens_remaining')
+    .eq('user_id', userId)
+    .single();
+
+  if (subError || !subscription) {
+    throw new Error('Subscription not found');
+  }
+  return subscription.tokens_remaining;
+}
+
+Deno.serve(async (req) => {
+  const responseHeaders = getResponseHeaders(req);
+
+  if (req.method === 'OPTIONS') {
+    return handleCorsPreflight(req);
+  }
+
+  const startTime = Date.now();
+  const requestId = crypto.randomUUID();
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const logger = new EdgeLogger('workflow-resume', requestId, supabase, true);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      logger.error('Authentication failed', userError ?? undefined);
+      throw new Error('Unauthorized');
+    }
+
+    const requestBody = await req.json();
+    const validatedRequest: WorkflowResumeRequest = WorkflowResumeRequestSchema.parse(requestBody);
+    const { execution_id, preview } = validatedRequest;
+
+    // 1. Load the failed execution and the template steps it ran with
+    const serviceClient = createServiceClient();
+    const { data: execution, error: executionError } = await serviceClient
+      .from('workflow_executions')
+      .select('*')
+      .eq('id', execution_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (executionError || !execution) {
+      throw new Error('Workflow execution not found');
+    }
+    if (execution.status !== GENERATION_STATUS.FAILED) {
+      throw new Error('Invalid request: only failed workflow executions can be resumed');
+    }
+
+    // Resume with the template version the execution ran, not the live one
+    const { data: workflow, error: workflowError } = execution.template_version_id
+      ? await serviceClient
+          .from('workflow_template_versions')
+          .select('workflow_steps')
+          .eq('id', execution.template_version_id)
+          .single()
+      : await serviceClient
+          .from('workflow_templates')
+          .select('workflow_steps')
+          .eq('id', execution.workflow_template_id)
+          .single();
+
+    if (workflowError || !workflow) {
+      throw new Error('Workflow template not found');
+    }
+
+    const steps: WorkflowStep[] = WorkflowStepSchema.array().parse(workflow.workflow_steps);
+    const graphErrors = validateWorkflowGraph(steps);
+    if (graphErrors.length > 0) {
+      throw new Error(`Invalid workflow template: ${graphErrors.join('; ')}`);
+    }
+
+    // 2. Work out what is left to run and what it will cost
+    const stepOutputs = (execution.step_outputs as Record<string, unknown>) || {};
+    const inFlightSteps = await getInFlightSteps(serviceClient, execution_id);
+    const states = getResumedStepStates(steps, execution.step_states, stepOutputs, inFlightSteps);
+    const requestedOverrides = validateStepOverrides(validatedRequest.step_overrides, steps, states);
+    const overrides: WorkflowStepOverrides = {
+      ...((execution.step_overrides as WorkflowStepOverrides) || {}),
+      ...requestedOverrides,
+    };
+
+    const effectiveSteps = steps.map(step =>
+      applyStepOverride(step, getStepOverride(overrides, step.step_number))
+    );
+    const remainingSteps = effectiveSteps.filter(step => !states[String(step.step_number)]);
+    const stepCost = (step: WorkflowStep) => step.model_record_id
+      ? calculatePerSecondCost(step.model_record_id, step.parameters ?? {}) ?? getModelConfig(step.model_record_id).baseCreditCost
+      : 0;
+    const estimatedCredits = remainingSteps.reduce((sum, step) => sum + stepCost(step), 0);
+    const availableCredits = await getAvailableCredits(serviceClient, user.id);
+
+    const context = createTemplateContext(execution.user_inputs, stepOutputs);
+
+    logger.info('Workflow resume requested', {
+      userId: user.id,
+      metadata: {
+        execution_id,
+        preview,
+        remaining_steps: remainingSteps.map(s => s.step_number),
+        estimated_credits: estimatedCredits,
+        overridden_steps: Object.keys(requestedOverrides)
+      }
+    });
+
+    if (preview) {
+      // Resolved configuration of the steps that would be started right away
+      const plan = planNextSteps(effectiveSteps, states, context);
+      const previewSteps = plan.start.map(stepNumber => {
+        const step = effectiveSteps.find(s => s.step_number === stepNumber)!;
+        const resolved = resolveWorkflowStep(step, context);
+        return {
+          step_number: step.step_number,
+          step_name: step.step_name,
+          model_record_id: step.model_record_id ?? null,
+          prompt: resolved.prompt,
+          parameters: resolved.parameters,
+          estimated_credits: stepCost(step),
+        };
+      });
+
+      return new Response(
+        JSON.stringify({
+          execution_id,
+          steps: previewSteps,
+          remaining_steps: remainingSteps.map(s => s.step_number),
+          estimated_credits: estimatedCredits,
+          available_credits: availableCredits,
+        }),
+        { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const insufficientCredits = () => new Response(
+      JSON.stringify({
+        error: 'Insufficient credits',
+        type: 'INSUFFICIENT_TOKENS',
+        required: estimatedCredits,
+        available: availableCredits,
+        message: `You need ${estimatedCredits} credits to finish this workflow but only have ${availableCredits} credits available.`
+      }),
+      { status: 402, headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+
+    if (availableCredits < estimatedCredits) {
+      return insufficientCredits();
+    }
+
+    // 3. Flip the execution back to processing and deduct the price of the
+    // remaining steps in one transaction (atomic - concurrent resumes lose)
+    const { data: resumedRows, error: resumeError } = await serviceClient.rpc('resume_workflow_execution', {
+      p_execution_id: execution_id,
+      p_user_id: user.id,
+      p_step_overrides: requestedOverrides,
+      p_recovered_states: getRecoveredStates(execution.step_states, states),
+      p_prepay_credits: estimatedCredits,
+    });
+
+    if (resumeError?.message.includes('INSUFFICIENT_CREDITS')) {
+      return insufficientCredits();
+    }
+
+    const resumed = (resumedRows as Record<string, unknown>[] | null)?.[0];
+    if (resumeError || !resumed) {
+      logger.error('Failed to resume workflow execution', resumeError ?? undefined, {
+        userId: user.id,
+        metadata: { execution_id }
+      });
+      throw new Error('Failed workflow execution not found');
+    }
+
+    // 4. Start every step that is ready again; the webhook takes it from there.
+    // The stored states now include the completions recovered above
+    const plan = planNextSteps(effectiveSteps, (resumed.step_states as WorkflowStepStates) || {}, context);
+    const { data: claimedSteps, error: claimError } = await serviceClient.rpc('claim_workflow_steps', {
+      p_execution_id: execution_id,
+      p_start_steps: plan.start,
+      p_skip_steps: plan.skip,
+    });
+
+    if (claimError) {
+      logger.error('Failed to claim resumed workflow steps', claimError, {
+        userId: user.id,
+        metadata: { execution_id }
+      });
+      throw new Error('Failed to schedule workflow steps');
+    }
+
+    for (const stepNumber of (claimedSteps as number[]) || []) {
+      const step = effectiveSteps.find(s => s.step_number === stepNumber);
+      if (!step) continue;
+
+      try {
+        const resolved = resolveWorkflowStep(step, context);
+        const sanitizedParameters = await sanitizeParametersForProviders(resolved.parameters, user.id, supabase);
+        const generateResponse = await supabase.functions.invoke('generate-content', {
+          body: {
+            model_id: step.model_id,
+            model_record_id: step.model_record_id,
+            prompt: resolved.prompt,
+            custom_parameters: sanitizedParameters,
+            workflow_execution_id: execution_id,
+            workflow_step_number: stepNumber,
+          },
+        });
+
+        if (generateResponse.error) {
+          throw new Error(`Step ${stepNumber} failed: ${generateResponse.error.message}`);
+        }
+      } catch (stepError) {
+        const message = stepError instanceof Error ? stepError.message : String(stepError);
+        logger.error(`Resumed step ${stepNumber} failed to start`, stepError as Error, {
+          userId: user.id,
+          metadata: { execution_id }
+        });
+        await serviceClient.rpc('fail_workflow_step', {
+          p_execution_id: execution_id,
+          p_step_number: stepNumber,
+          p_error_message: message,
+        });
+        throw stepError;
+      }
+    }
+
+    logger.logDuration('Workflow execution resumed', startTime, {
+      userId: user.id,
+      metadata: {
+        execution_id,
+        started_steps: claimedSteps,
+        resume_count: resumed.resume_count
+      }
+    });
+
+    return new Response(
+      JSON.stringify({
+        execution_id,
+        status: GENERATION_STATUS.PROCESSING,
+        started_steps: claimedSteps ?? [],
+        estimated_credits: estimatedCredits,
+      }),
+      { headers: { ...responseHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    return createSafeErrorResponse(error, 'workflow-resume', responseHeaders);
+  }
+});
@@ -0,0 +1,112 @@
+-- Workflow DAG Scheduling
+-- Workflow steps can now declare dependencies, parallel groups and run
+-- conditions, so several steps of one execution may run at the same time.
+-- Per-step state lives in step_states ({ "<step_number>": "running" | ... })
+-- and is only ever changed through the functions below, which lock the
+-- execution row so concurrent webhooks never start a step twice or lose
+-- another step's output.
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN IF NOT EXISTS step_states JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.workflow_executions.step_states IS
+  'Per-step scheduling state keyed by step_number: pending, running, completed, skipped or failed';
+
+-- Claim steps for execution. Returns the subset of p_start_steps that this
+-- caller now owns; steps already claimed by a concurrent caller are omitted.
+CREATE OR REPLACE FUNCTION public.claim_workflow_steps(
+  p_execution_id UUID,
+  p_start_steps INTEGER[],
+  p_skip_steps INTEGER[] DEFAULT ARRAY[]::INTEGER[]
+)
+RETURNS INTEGER[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_states JSONB;
+  v_claimed INTEGER[] := ARRAY[]::INTEGER[];
+  v_step INTEGER;
+BEGIN
+  SELECT step_states INTO v_states
+  FROM workflow_executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workflow execution % not found', p_execution_id;
+  END IF;
+
+  FOREACH v_step IN ARRAY COALESCE(p_skip_steps, ARRAY[]::INTEGER[]) LOOP
+    IF COALESCE(v_states ->> v_step::TEXT, 'pending') = 'pending' THEN
+      v_states := v_states || jsonb_build_object(v_step::TEXT, 'skipped');
+    END IF;
+  END LOOP;
+
+  FOREACH v_step IN ARRAY COALESCE(p_start_steps, ARRAY[]::INTEGER[]) LOOP
+    IF COALESCE(v_states ->> v_step::TEXT, 'pending') = 'pending' THEN
+      v_states := v_states || jsonb_build_object(v_step::TEXT, 'running');
+      v_claimed := v_claimed || v_step;
+    END IF;
+  END LOOP;
+
+  UPDATE workflow_executions
+  SET step_states = v_states,
+      current_step = GREATEST(COALESCE(current_step, 0), COALESCE((SELECT MAX(s) FROM UNNEST(v_claimed) AS s), 0))
+  WHERE id = p_execution_id;
+
+  RETURN v_claimed;
+END;
+$$;
+
+-- Record a finished step: merges its output, marks it completed and adds its
+-- token cost. Returns the updated execution so the caller can plan next steps.
+CREATE OR REPLACE FUNCTION public.complete_workflow_step(
+  p_execution_id UUID,
+  p_step_number INTEGER,
+  p_output JSONB,
+  p_tokens_used INTEGER DEFAULT 0
+)
+RETURNS SETOF workflow_executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE workflow_executions
+  SET step_outputs = COALESCE(step_outputs, '{}'::jsonb) || jsonb_build_object('step' || p_step_number, p_output),
+      step_states = step_states || jsonb_build_object(p_step_number::TEXT, 'completed'),
+      tokens_used = COALESCE(tokens_used, 0) + COALESCE(p_tokens_used, 0)
+  WHERE id = p_execution_id
+  RETURNING *;
+END;
+$$;
+
+-- Mark a step (and the execution) as failed
+CREATE OR REPLACE FUNCTION public.fail_workflow_step(
+  p_execution_id UUID,
+  p_step_number INTEGER,
+  p_error_message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE workflow_executions
+  SET step_states = step_states || jsonb_build_object(p_step_number::TEXT, 'failed'),
+      status = 'failed',
+      error_message = p_error_message
+  WHERE id = p_execution_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_workflow_steps(UUID, INTEGER[], INTEGER[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.complete_workflow_step(UUID, INTEGER, JSONB, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.fail_workflow_step(UUID, INTEGER, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_steps(UUID, INTEGER[], INTEGER[]) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_workflow_step(UUID, INTEGER, JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_workflow_step(UUID, INTEGER, TEXT) TO service_role;
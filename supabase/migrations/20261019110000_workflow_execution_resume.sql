@@ -0,0 +1,67 @@
+-- Resumable Workflow Executions
+-- A failed execution can be resumed from its failed step(s): completed step
+-- outputs are kept, failed steps go back to pending and are scheduled again.
+-- The caller may swap a step's model or edit its prompt/parameters; those
+-- overrides are stored per step and applied whenever the step is started.
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN IF NOT EXISTS step_overrides JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS resume_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.workflow_executions.step_overrides IS
+  'Per-step overrides keyed by step_number: { model_record_id, model_id, prompt, parameters }';
+COMMENT ON COLUMN public.workflow_executions.resume_count IS
+  'Number of times the execution was resumed after failing';
+
+-- Put a failed execution back into processing. Failed steps become pending
+-- again; completed, skipped and still-running steps are left alone. Returns
+-- no row if the execution does not belong to p_user_id or has not failed, so
+-- two concurrent resume requests cannot both win.
+CREATE OR REPLACE FUNCTION public.resume_workflow_execution(
+  p_execution_id UUID,
+  p_user_id UUID,
+  p_step_overrides JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF workflow_executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_states JSONB;
+  v_reset JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_state TEXT;
+BEGIN
+  SELECT step_states INTO v_states
+  FROM workflow_executions
+  WHERE id = p_execution_id
+    AND user_id = p_user_id
+    AND status = 'failed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_key, v_state IN SELECT key, value FROM jsonb_each_text(v_states) LOOP
+    IF v_state <> 'failed' THEN
+      v_reset := v_reset || jsonb_build_object(v_key, v_state);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+  UPDATE workflow_executions
+  SET step_states = v_reset,
+      step_overrides = step_overrides || COALESCE(p_step_overrides, '{}'::jsonb),
+      status = 'processing',
+      error_message = NULL,
+      completed_at = NULL,
+      resume_count = resume_count + 1
+  WHERE id = p_execution_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resume_workflow_execution(UUID, UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resume_workflow_execution(UUID, UUID, JSONB) TO service_role;
@@ -0,0 +1,323 @@
+-- Versioned Workflow Templates
+-- Admin edits no longer change a live template in place. Every edit of the
+-- versioned content (steps, input fields and the content template fields)
+-- is saved as a draft version; publishing a draft copies it onto
+-- workflow_templates, which is what executions read. Published versions are
+-- immutable, so rolling back publishes a copy of an earlier version.
+-- Executions are pinned to the version they ran so analytics can compare
+-- versions.
+
+CREATE TABLE IF NOT EXISTS public.workflow_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id TEXT NOT NULL REFERENCES public.workflow_templates(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'archived')),
+
+  -- ─── Versioned Content ──────────────────────────────────────────────
+  workflow_steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  user_input_fields JSONB,
+  preset_parameters JSONB,
+  user_editable_fields JSONB,
+  hidden_field_defaults JSONB,
+
+  -- ─── History ────────────────────────────────────────────────────────
+  change_note TEXT,
+  rolled_back_from UUID REFERENCES public.workflow_template_versions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ,
+
+  UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_template_versions_template
+  ON public.workflow_template_versions(template_id, version_number DESC);
+
+-- At most one published version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_template_versions_published
+  ON public.workflow_template_versions(template_id) WHERE status = 'published';
+
+ALTER TABLE public.workflow_templates
+  ADD COLUMN IF NOT EXISTS published_version_id UUID
+    REFERENCES public.workflow_template_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN IF NOT EXISTS template_version_id UUID
+    REFERENCES public.workflow_template_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_template_version
+  ON public.workflow_executions(template_version_id) WHERE template_version_id IS NOT NULL;
+
+COMMENT ON COLUMN public.workflow_templates.published_version_id IS
+  'Version whose content is currently live on this template';
+COMMENT ON COLUMN public.workflow_executions.template_version_id IS
+  'Template version the execution ran (and resumes) with';
+
+-- Number new versions per template and stamp the author
+CREATE OR REPLACE FUNCTION public.assign_workflow_template_version_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('workflow_template_versions:' || NEW.template_id));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+  FROM workflow_template_versions
+  WHERE template_id = NEW.template_id;
+
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER workflow_template_versions_number
+  BEFORE INSERT ON public.workflow_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_workflow_template_version_number();
+
+-- Only drafts can change content; published and archived versions are history
+CREATE OR REPLACE FUNCTION public.protect_workflow_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND (
+    NEW.template_id IS DISTINCT FROM OLD.template_id OR
+    NEW.version_number IS DISTINCT FROM OLD.version_number OR
+    NEW.workflow_steps IS DISTINCT FROM OLD.workflow_steps OR
+    NEW.user_input_fields IS DISTINCT FROM OLD.user_input_fields OR
+    NEW.preset_parameters IS DISTINCT FROM OLD.preset_parameters OR
+    NEW.user_editable_fields IS DISTINCT FROM OLD.user_editable_fields OR
+    NEW.hidden_field_defaults IS DISTINCT FROM OLD.hidden_field_defaults
+  ) THEN
+    RAISE EXCEPTION 'Template version % is % and cannot be edited', OLD.version_number, OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER workflow_template_versions_protect
+  BEFORE UPDATE ON public.workflow_template_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_workflow_template_version();
+
+-- New templates start with their initial content published as version 1
+CREATE OR REPLACE FUNCTION public.create_initial_workflow_template_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version_id UUID;
+BEGIN
+  INSERT INTO workflow_template_versions (
+    template_id, status, workflow_steps, user_input_fields,
+    change_note, published_by, published_at
+  )
+  VALUES (
+    NEW.id, 'published', COALESCE(NEW.workflow_steps, '[]'::jsonb), NEW.user_input_fields,
+    'Initial version', auth.uid(), now()
+  )
+  RETURNING id INTO v_version_id;
+
+  UPDATE workflow_templates SET published_version_id = v_version_id WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER workflow_templates_initial_version
+  AFTER INSERT ON public.workflow_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_initial_workflow_template_version();
+
+-- Backfill: the current content of every existing template becomes version 1
+WITH inserted AS (
+  INSERT INTO public.workflow_template_versions (
+    template_id, status, workflow_steps, user_input_fields, change_note, published_at
+  )
+  SELECT t.id, 'published', t.workflow_steps, t.user_input_fields, 'Initial version', t.updated_at
+  FROM public.workflow_templates t
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.workflow_template_versions v WHERE v.template_id = t.id
+  )
+  RETURNING id, template_id
+)
+UPDATE public.workflow_templates t
+SET published_version_id = inserted.id
+FROM inserted
+WHERE t.id = inserted.template_id;
+
+-- Publish a draft: archive the live version and copy the draft onto the template
+CREATE OR REPLACE FUNCTION public.publish_workflow_template_version(p_version_id UUID)
+RETURNS SETOF workflow_template_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version workflow_template_versions;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT * INTO v_version FROM workflow_template_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template version % not found', p_version_id;
+  END IF;
+
+  -- Serialise publishes of the same template
+  PERFORM 1 FROM workflow_templates WHERE id = v_version.template_id FOR UPDATE;
+
+  IF v_version.status <> 'draft' THEN
+    RAISE EXCEPTION 'Template version % is % - only drafts can be published',
+      v_version.version_number, v_version.status;
+  END IF;
+
+  UPDATE workflow_template_versions
+  SET status = 'archived'
+  WHERE template_id = v_version.template_id AND status = 'published';
+
+  UPDATE workflow_templates
+  SET workflow_steps = v_version.workflow_steps,
+      user_input_fields = v_version.user_input_fields,
+      published_version_id = v_version.id,
+      updated_at = now()
+  WHERE id = v_version.template_id;
+
+  RETURN QUERY
+  UPDATE workflow_template_versions
+  SET status = 'published',
+      published_by = auth.uid(),
+      published_at = now()
+  WHERE id = p_version_id
+  RETURNING *;
+END;
+$$;
+
+-- Roll back to an earlier version by publishing a copy of it
+CREATE OR REPLACE FUNCTION public.rollback_workflow_template(
+  p_template_id TEXT,
+  p_version_id UUID
+)
+RETURNS SETOF workflow_template_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target workflow_template_versions;
+  v_copy_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM workflow_template_versions
+  WHERE id = p_version_id AND template_id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template version % not found', p_version_id;
+  END IF;
+  IF v_target.status = 'draft' THEN
+    RAISE EXCEPTION 'Template version % is a draft - publish it instead', v_target.version_number;
+  END IF;
+
+  INSERT INTO workflow_template_versions (
+    template_id, workflow_steps, user_input_fields, preset_parameters,
+    user_editable_fields, hidden_field_defaults, change_note, rolled_back_from
+  )
+  VALUES (
+    p_template_id, v_target.workflow_steps, v_target.user_input_fields, v_target.preset_parameters,
+    v_target.user_editable_fields, v_target.hidden_field_defaults,
+    'Rollback to version ' || v_target.version_number, v_target.id
+  )
+  RETURNING id INTO v_copy_id;
+
+  RETURN QUERY SELECT * FROM publish_workflow_template_version(v_copy_id);
+END;
+$$;
+
+-- Execution outcomes per template version (admin analytics)
+CREATE OR REPLACE FUNCTION public.get_workflow_template_version_stats(p_template_id TEXT DEFAULT NULL)
+RETURNS TABLE (
+  template_id TEXT,
+  template_name TEXT,
+  version_id UUID,
+  version_number INTEGER,
+  status TEXT,
+  published_at TIMESTAMPTZ,
+  executions BIGINT,
+  completed BIGINT,
+  failed BIGINT,
+  conversion_rate_pct NUMERIC,
+  avg_tokens_used NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.template_id,
+    t.name,
+    v.id,
+    v.version_number,
+    v.status,
+    v.published_at,
+    COUNT(e.id),
+    COUNT(e.id) FILTER (WHERE e.status = 'completed'),
+    COUNT(e.id) FILTER (WHERE e.status = 'failed'),
+    ROUND(
+      COUNT(e.id) FILTER (WHERE e.status = 'completed')::NUMERIC /
+      NULLIF(COUNT(e.id), 0) * 100, 2
+    ),
+    ROUND(AVG(e.tokens_used) FILTER (WHERE e.status = 'completed'), 2)
+  FROM workflow_template_versions v
+  JOIN workflow_templates t ON t.id = v.template_id
+  LEFT JOIN workflow_executions e ON e.template_version_id = v.id
+  WHERE v.status <> 'draft'
+    AND (p_template_id IS NULL OR v.template_id = p_template_id)
+  GROUP BY v.id, t.name
+  ORDER BY t.name, v.version_number DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_workflow_template_version(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rollback_workflow_template(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_workflow_template_version_stats(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.publish_workflow_template_version(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.rollback_workflow_template(TEXT, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_workflow_template_version_stats(TEXT) TO authenticated, service_role;
+
+-- ─── RLS: admins manage versions; only drafts can be edited or deleted ────
+ALTER TABLE public.workflow_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workflow_template_versions_admin_select" ON public.workflow_template_versions
+FOR SELECT TO authenticated
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "workflow_template_versions_admin_insert" ON public.workflow_template_versions
+FOR INSERT TO authenticated
+WITH CHECK (has_role(auth.uid(), 'admin') AND status = 'draft');
+
+CREATE POLICY "workflow_template_versions_admin_update" ON public.workflow_template_versions
+FOR UPDATE TO authenticated
+USING (has_role(auth.uid(), 'admin') AND status = 'draft')
+WITH CHECK (has_role(auth.uid(), 'admin') AND status = 'draft');
+
+CREATE POLICY "workflow_template_versions_admin_delete" ON public.workflow_template_versions
+FOR DELETE TO authenticated
+USING (has_role(auth.uid(), 'admin') AND status = 'draft');
@@ -0,0 +1,95 @@
+-- Video Editor Projects
+-- Named, server-side copies of a video editor session (media library,
+-- tracks, clips, soundtrack, subtitle and output settings) that can be
+-- reopened, duplicated and autosaved. Every save bumps `revision`; clients
+-- save with the revision they loaded, so a save from a tab holding a stale
+-- copy matches no row and is reported as a conflict instead of silently
+-- overwriting newer work.
+
+CREATE TABLE IF NOT EXISTS public.video_editor_projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 120),
+
+  -- ─── Editor Document ────────────────────────────────────────────────
+  assets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  tracks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  clips JSONB NOT NULL DEFAULT '[]'::jsonb,
+  audio_track JSONB,
+  subtitle_config JSONB,
+  output_settings JSONB,
+
+  -- ─── Listing ────────────────────────────────────────────────────────
+  total_duration NUMERIC NOT NULL DEFAULT 0,
+  thumbnail_url TEXT,
+
+  -- ─── Concurrency ────────────────────────────────────────────────────
+  revision INTEGER NOT NULL DEFAULT 1,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_editor_projects_user_updated
+  ON public.video_editor_projects(user_id, updated_at DESC);
+
+COMMENT ON COLUMN public.video_editor_projects.revision IS
+  'Incremented on every save; saves must name the revision they were based on';
+
+ALTER TABLE public.video_editor_projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own video editor projects"
+  ON public.video_editor_projects
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own video editor projects"
+  ON public.video_editor_projects
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own video editor projects"
+  ON public.video_editor_projects
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own video editor projects"
+  ON public.video_editor_projects
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Document changes move the revision forward by exactly one; renames and
+-- thumbnail updates leave it alone so they don't invalidate open tabs
+CREATE OR REPLACE FUNCTION public.check_video_editor_project_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_document_changed BOOLEAN;
+BEGIN
+  v_document_changed :=
+    NEW.assets IS DISTINCT FROM OLD.assets OR
+    NEW.tracks IS DISTINCT FROM OLD.tracks OR
+    NEW.clips IS DISTINCT FROM OLD.clips OR
+    NEW.audio_track IS DISTINCT FROM OLD.audio_track OR
+    NEW.subtitle_config IS DISTINCT FROM OLD.subtitle_config OR
+    NEW.output_settings IS DISTINCT FROM OLD.output_settings;
+
+  IF NEW.revision NOT IN (OLD.revision, OLD.revision + 1)
+    OR (v_document_changed AND NEW.revision = OLD.revision) THEN
+    RAISE EXCEPTION 'Project % is at revision %, cannot save revision %', OLD.id, OLD.revision, NEW.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER video_editor_projects_revision
+  BEFORE UPDATE ON public.video_editor_projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_video_editor_project_revision();
+
+CREATE TRIGGER update_video_editor_projects_updated_at
+  BEFORE UPDATE ON public.video_editor_projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
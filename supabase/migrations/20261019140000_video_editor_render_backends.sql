@@ -0,0 +1,52 @@
+-- Video Editor Render Backends
+-- Editor renders run either on Shotstack or on a self-hosted FFmpeg worker
+-- (scripts/ffmpeg-render-worker.ts). FFmpeg jobs keep the edit they were
+-- submitted with and wait in 'queued' until a worker claims them; a worker
+-- that dies mid-render leaves a stale claim that another worker can pick up.
+
+ALTER TABLE public.video_editor_jobs
+  ADD COLUMN IF NOT EXISTS render_backend TEXT NOT NULL DEFAULT 'shotstack'
+    CHECK (render_backend IN ('shotstack', 'ffmpeg')),
+  ADD COLUMN IF NOT EXISTS render_payload JSONB,
+  ADD COLUMN IF NOT EXISTS worker_id TEXT,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.video_editor_jobs.render_payload IS
+  'Shotstack edit the FFmpeg worker compiles; only stored for ffmpeg jobs';
+
+CREATE INDEX IF NOT EXISTS idx_video_editor_jobs_ffmpeg_queue
+  ON public.video_editor_jobs(created_at)
+  WHERE render_backend = 'ffmpeg' AND status IN ('queued', 'fetching', 'rendering', 'saving');
+
+-- Hand the oldest waiting FFmpeg job to a worker. SKIP LOCKED lets several
+-- workers poll at once without claiming the same job.
+CREATE OR REPLACE FUNCTION public.claim_video_editor_render_job(p_worker_id TEXT)
+RETURNS SETOF public.video_editor_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.video_editor_jobs
+  SET status = 'fetching',
+      worker_id = p_worker_id,
+      claimed_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.video_editor_jobs
+    WHERE render_backend = 'ffmpeg'
+      AND (
+        status = 'queued'
+        OR (status IN ('fetching', 'rendering', 'saving') AND claimed_at < now() - interval '30 minutes')
+      )
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_video_editor_render_job FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_video_editor_render_job TO service_role;
@@ -0,0 +1,23 @@
+-- Video Editor Reframes
+-- A reframe turns a finished video - a completed generation or an editor
+-- render - into another aspect ratio by panning a crop window along a
+-- subject path. Each target ratio is its own Shotstack job in
+-- video_editor_jobs, so status polling and history work as for renders.
+
+ALTER TABLE public.video_editor_jobs
+  ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'render'
+    CHECK (job_type IN ('render', 'reframe')),
+  ADD COLUMN IF NOT EXISTS source_generation_id UUID REFERENCES public.generations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source_job_id UUID REFERENCES public.video_editor_jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reframe_path JSONB;
+
+COMMENT ON COLUMN public.video_editor_jobs.reframe_path IS
+  'Subject keyframes ({time, x, y, manual?}) the crop window followed; only set for reframe jobs';
+
+CREATE INDEX IF NOT EXISTS idx_video_editor_jobs_source_job_id
+  ON public.video_editor_jobs(source_job_id)
+  WHERE source_job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_editor_jobs_source_generation_id
+  ON public.video_editor_jobs(source_generation_id)
+  WHERE source_generation_id IS NOT NULL;
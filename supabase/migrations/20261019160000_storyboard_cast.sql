@@ -0,0 +1,68 @@
+-- Storyboard Cast
+-- A storyboard's cast and style bible: characters, locations and overall
+-- looks, each with a description, reference images and a seed. Scene image
+-- requests pick up every entry the scene prompt mentions (style entries
+-- apply to every scene). `consistency` on a scene holds the last check of
+-- its image against that cast, so drifting scenes can be flagged.
+
+CREATE TABLE IF NOT EXISTS public.storyboard_cast (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storyboard_id UUID NOT NULL REFERENCES public.storyboards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'character'
+    CHECK (kind IN ('character', 'location', 'style')),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT NOT NULL DEFAULT '' CHECK (char_length(description) <= 1000),
+  reference_image_urls TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(reference_image_urls) <= 4),
+  seed INTEGER CHECK (seed IS NULL OR seed >= 0),
+  order_number INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_storyboard_cast_storyboard_id
+  ON public.storyboard_cast(storyboard_id, order_number);
+
+COMMENT ON COLUMN public.storyboard_cast.aliases IS
+  'Other names a scene prompt may use for this entry, matched as whole words';
+
+ALTER TABLE public.storyboard_scenes
+  ADD COLUMN IF NOT EXISTS consistency JSONB;
+
+COMMENT ON COLUMN public.storyboard_scenes.consistency IS
+  'Last cast consistency check ({imageUrl, checkedAt, results: [{castId, name, score, issue}]}); stale once the image changes';
+
+ALTER TABLE public.storyboard_cast ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own storyboard cast"
+  ON public.storyboard_cast
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add cast to their own storyboards"
+  ON public.storyboard_cast
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.storyboards
+      WHERE storyboards.id = storyboard_id AND storyboards.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own storyboard cast"
+  ON public.storyboard_cast
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own storyboard cast"
+  ON public.storyboard_cast
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_storyboard_cast_updated_at
+  BEFORE UPDATE ON public.storyboard_cast
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,15 @@
+-- Storyboard Scene Takes
+-- Alternate takes of a scene's script, written by the script editor
+-- (rewrite, insert, split, tone change). The scene row keeps showing the
+-- active take; switching copies another take's text back onto the row, so
+-- rendering is unchanged.
+
+ALTER TABLE public.storyboard_scenes
+  ADD COLUMN IF NOT EXISTS takes JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.storyboard_scenes
+  ADD CONSTRAINT storyboard_scenes_takes_is_array
+  CHECK (jsonb_typeof(takes) = 'array' AND jsonb_array_length(takes) <= 8);
+
+COMMENT ON COLUMN public.storyboard_scenes.takes IS
+  'Script take history ([{id, voiceOverText, imagePrompt, imagePrompt2, source, note, createdAt}]), oldest first';
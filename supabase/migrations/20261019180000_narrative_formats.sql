@@ -0,0 +1,58 @@
+-- Narrative Formats
+-- Script structures admins add on top of the built-in ones (viral story,
+-- listicle, how-to, product ad, news recap, comparison). `definition` holds
+-- the rest of the format - scene timing, word rate, intro, beats, scene
+-- fields and rules - and is validated by the admin page and again by
+-- generate-storyboard. A row with a built-in id replaces that built-in.
+
+CREATE TABLE IF NOT EXISTS public.narrative_formats (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(id) <= 40),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  description TEXT NOT NULL DEFAULT '' CHECK (char_length(description) <= 300),
+  definition JSONB NOT NULL CHECK (jsonb_typeof(definition) = 'object'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_narrative_formats_active
+  ON public.narrative_formats(is_active, sort_order);
+
+ALTER TABLE public.narrative_formats ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read active formats
+CREATE POLICY "Active narrative formats are viewable by everyone"
+  ON public.narrative_formats
+  FOR SELECT
+  USING (is_active = true);
+
+-- Only admins can manage formats
+CREATE POLICY "Admins can manage narrative formats"
+  ON public.narrative_formats
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_narrative_formats_updated_at
+  BEFORE UPDATE ON public.narrative_formats
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- The format a storyboard was written in, and where each scene sits in it
+ALTER TABLE public.storyboards
+  ADD COLUMN IF NOT EXISTS narrative_format TEXT NOT NULL DEFAULT 'viral-story';
+
+ALTER TABLE public.storyboard_scenes
+  ADD COLUMN IF NOT EXISTS beat TEXT,
+  ADD COLUMN IF NOT EXISTS format_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.storyboards.narrative_format IS
+  'Id of the narrative format the script was generated in (built-in or narrative_formats.id)';
+
+COMMENT ON COLUMN public.storyboard_scenes.beat IS
+  'Id of the format beat the scene belongs to, e.g. hook, steps, verdict';
+
+COMMENT ON COLUMN public.storyboard_scenes.format_fields IS
+  'Format-specific scene values returned by the model, e.g. {"itemTitle": "..."}';
@@ -0,0 +1,18 @@
+-- Storyboard Dialogue
+-- Multi-voice storyboards: characters speaking alongside the narrator, and
+-- scenes told as speaker-tagged lines. voice_over_text keeps the lines' text
+-- run together so pricing and word budgets are unchanged.
+
+ALTER TABLE public.storyboards
+  ADD COLUMN IF NOT EXISTS dialogue_characters JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(dialogue_characters) = 'array' AND jsonb_array_length(dialogue_characters) <= 4);
+
+ALTER TABLE public.storyboard_scenes
+  ADD COLUMN IF NOT EXISTS dialogue JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(dialogue) = 'array');
+
+COMMENT ON COLUMN public.storyboards.dialogue_characters IS
+  'Characters speaking besides the narrator: [{id, name, voiceId, voiceName, voiceModel, color}]; the narrator uses voice_id';
+
+COMMENT ON COLUMN public.storyboard_scenes.dialogue IS
+  'Speaker-tagged lines: [{speakerId, text, emotion, pace, pauseAfterMs}]; empty when the narrator reads voice_over_text';
@@ -0,0 +1,31 @@
+-- Storyboard Import
+-- Storyboards built from the user's own script, document, web page or
+-- subtitles instead of a generated script. Imported scenes keep the user's
+-- wording; subtitle imports keep each scene's cue timings. Imported scripts
+-- can run longer than generated ones.
+
+ALTER TABLE public.storyboards
+  ADD COLUMN IF NOT EXISTS import_format TEXT
+    CHECK (import_format IN ('script', 'markdown', 'srt', 'text'));
+
+ALTER TABLE public.storyboards
+  DROP CONSTRAINT IF EXISTS storyboards_duration_check;
+
+ALTER TABLE public.storyboards
+  ADD CONSTRAINT storyboards_duration_check
+  CHECK (duration >= 15 AND duration <= 300 AND duration % 5 = 0);
+
+ALTER TABLE public.storyboard_scenes
+  ADD COLUMN IF NOT EXISTS start_seconds NUMERIC,
+  ADD COLUMN IF NOT EXISTS end_seconds NUMERIC,
+  ADD CONSTRAINT storyboard_scenes_timing_check
+    CHECK (start_seconds IS NULL OR (start_seconds >= 0 AND end_seconds > start_seconds));
+
+COMMENT ON COLUMN public.storyboards.import_format IS
+  'How an imported script was read (script, markdown, srt, text); null for generated storyboards';
+
+COMMENT ON COLUMN public.storyboard_scenes.start_seconds IS
+  'Start of the scene in the imported subtitles, in seconds; null unless imported from SRT';
+
+COMMENT ON COLUMN public.storyboard_scenes.end_seconds IS
+  'End of the scene in the imported subtitles, in seconds; null unless imported from SRT';
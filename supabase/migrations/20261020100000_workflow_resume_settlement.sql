@@ -0,0 +1,193 @@
+-- Resumed Workflow Settlement
+-- Resuming pays for the steps that will run again up front: the estimate is
+-- deducted from the user's balance and held on the execution as prepaid
+-- credits, which generate-content draws from as each step starts. Whatever
+-- is left is refunded when the execution fails again or completes.
+-- Resume also recovers step states that were lost: completed steps of
+-- executions that predate per-step states, and steps left 'running' when
+-- their generation has already finished.
+
+ALTER TABLE public.workflow_executions
+  ADD COLUMN IF NOT EXISTS prepaid_credits NUMERIC NOT NULL DEFAULT 0
+    CHECK (prepaid_credits >= 0);
+
+COMMENT ON COLUMN public.workflow_executions.prepaid_credits IS
+  'Credits paid when the execution was resumed and not yet drawn by a started step';
+
+-- Refund the unspent prepaid credits of an execution to its user
+CREATE OR REPLACE FUNCTION public.settle_workflow_prepaid_credits(
+  p_execution_id UUID
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_prepaid NUMERIC;
+BEGIN
+  SELECT user_id, prepaid_credits INTO v_user_id, v_prepaid
+  FROM workflow_executions
+  WHERE id = p_execution_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_prepaid <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE workflow_executions SET prepaid_credits = 0 WHERE id = p_execution_id;
+  UPDATE user_subscriptions
+  SET tokens_remaining = tokens_remaining + v_prepaid
+  WHERE user_id = v_user_id;
+
+  RETURN v_prepaid;
+END;
+$$;
+
+-- Take up to p_amount from an execution's prepaid credits for a starting
+-- step; returns what was taken (the caller charges the rest as usual)
+CREATE OR REPLACE FUNCTION public.draw_workflow_prepaid_credits(
+  p_execution_id UUID,
+  p_user_id UUID,
+  p_amount NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_drawn NUMERIC;
+BEGIN
+  SELECT LEAST(prepaid_credits, GREATEST(p_amount, 0)) INTO v_drawn
+  FROM workflow_executions
+  WHERE id = p_execution_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_drawn <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE workflow_executions
+  SET prepaid_credits = prepaid_credits - v_drawn
+  WHERE id = p_execution_id;
+
+  RETURN v_drawn;
+END;
+$$;
+
+-- A failed execution runs nothing more, so its prepaid credits go back
+CREATE OR REPLACE FUNCTION public.fail_workflow_step(
+  p_execution_id UUID,
+  p_step_number INTEGER,
+  p_error_message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE workflow_executions
+  SET step_states = step_states || jsonb_build_object(p_step_number::TEXT, 'failed'),
+      status = 'failed',
+      error_message = p_error_message
+  WHERE id = p_execution_id;
+
+  PERFORM settle_workflow_prepaid_credits(p_execution_id);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.resume_workflow_execution(UUID, UUID, JSONB);
+
+-- Put a failed execution back into processing and pay for its remaining
+-- steps. Failed steps become pending again, and so do 'running' steps whose
+-- generation is no longer in flight (their completion was never recorded);
+-- a running step with a recorded output counts as completed. Completed
+-- states recovered by the caller fill in steps with no state at all.
+-- Returns no row if the execution does not belong to p_user_id or has not
+-- failed, so two concurrent resume requests cannot both win. Raises
+-- INSUFFICIENT_CREDITS if the balance does not cover p_prepay_credits.
+CREATE OR REPLACE FUNCTION public.resume_workflow_execution(
+  p_execution_id UUID,
+  p_user_id UUID,
+  p_step_overrides JSONB DEFAULT '{}'::jsonb,
+  p_recovered_states JSONB DEFAULT '{}'::jsonb,
+  p_prepay_credits NUMERIC DEFAULT 0
+)
+RETURNS SETOF workflow_executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_states JSONB;
+  v_outputs JSONB;
+  v_reset JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_state TEXT;
+  v_deducted RECORD;
+BEGIN
+  SELECT step_states, COALESCE(step_outputs, '{}'::jsonb) INTO v_states, v_outputs
+  FROM workflow_executions
+  WHERE id = p_execution_id
+    AND user_id = p_user_id
+    AND status = 'failed'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR v_key, v_state IN SELECT key, value FROM jsonb_each_text(COALESCE(v_states, '{}'::jsonb)) LOOP
+    IF v_state = 'running' AND v_outputs ? ('step' || v_key) THEN
+      v_reset := v_reset || jsonb_build_object(v_key, 'completed');
+    ELSIF v_state = 'running' AND EXISTS (
+      SELECT 1 FROM generations g
+      WHERE g.workflow_execution_id = p_execution_id
+        AND g.workflow_step_number = v_key::INTEGER
+        AND g.status IN ('pending', 'processing')
+    ) THEN
+      v_reset := v_reset || jsonb_build_object(v_key, v_state);
+    ELSIF v_state NOT IN ('failed', 'running') THEN
+      v_reset := v_reset || jsonb_build_object(v_key, v_state);
+    END IF;
+  END LOOP;
+
+  FOR v_key, v_state IN SELECT key, value FROM jsonb_each_text(COALESCE(p_recovered_states, '{}'::jsonb)) LOOP
+    IF v_state = 'completed' AND NOT (v_reset ? v_key) AND NOT (COALESCE(v_states, '{}'::jsonb) ? v_key) THEN
+      v_reset := v_reset || jsonb_build_object(v_key, 'completed');
+    END IF;
+  END LOOP;
+
+  IF COALESCE(p_prepay_credits, 0) > 0 THEN
+    SELECT * INTO v_deducted FROM deduct_user_tokens(p_user_id, p_prepay_credits);
+    IF NOT COALESCE(v_deducted.success, FALSE) THEN
+      RAISE EXCEPTION 'INSUFFICIENT_CREDITS: % credits required', p_prepay_credits;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE workflow_executions
+  SET step_states = v_reset,
+      step_overrides = step_overrides || COALESCE(p_step_overrides, '{}'::jsonb),
+      status = 'processing',
+      error_message = NULL,
+      completed_at = NULL,
+      resume_count = resume_count + 1,
+      prepaid_credits = prepaid_credits + GREATEST(COALESCE(p_prepay_credits, 0), 0)
+  WHERE id = p_execution_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.settle_workflow_prepaid_credits(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.draw_workflow_prepaid_credits(UUID, UUID, NUMERIC) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.fail_workflow_step(UUID, INTEGER, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resume_workflow_execution(UUID, UUID, JSONB, JSONB, NUMERIC) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_workflow_prepaid_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.draw_workflow_prepaid_credits(UUID, UUID, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_workflow_step(UUID, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resume_workflow_execution(UUID, UUID, JSONB, JSONB, NUMERIC) TO service_role;
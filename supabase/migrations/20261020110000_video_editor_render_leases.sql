@@ -0,0 +1,150 @@
+-- Video Editor Render Leases
+-- A claimed FFmpeg job is held on a short lease that its worker renews while
+-- it works. Only a job whose lease ran out (its worker died) can be claimed
+-- again, however long the render takes. Every later change to the job goes
+-- through a function that checks the caller still holds it, so a worker
+-- that lost its job can neither finish nor refund it.
+
+ALTER TABLE public.video_editor_jobs
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.video_editor_jobs.lease_expires_at IS
+  'When the FFmpeg worker holding the job loses it unless it renews the lease';
+
+DROP FUNCTION IF EXISTS public.claim_video_editor_render_job(TEXT);
+
+CREATE OR REPLACE FUNCTION public.claim_video_editor_render_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF public.video_editor_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.video_editor_jobs
+  SET status = 'fetching',
+      worker_id = p_worker_id,
+      claimed_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = (
+    SELECT id
+    FROM public.video_editor_jobs
+    WHERE render_backend = 'ffmpeg'
+      AND (
+        status = 'queued'
+        OR (
+          status IN ('fetching', 'rendering', 'saving')
+          AND COALESCE(lease_expires_at, claimed_at + interval '30 minutes') < now()
+        )
+      )
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Renew the lease on a job the worker still holds, optionally moving it to
+-- its next stage. Returns false once the job was taken over or settled.
+CREATE OR REPLACE FUNCTION public.renew_video_editor_render_lease(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status IS NOT NULL AND p_status NOT IN ('fetching', 'rendering', 'saving') THEN
+    RAISE EXCEPTION 'Invalid render stage: %', p_status;
+  END IF;
+
+  UPDATE public.video_editor_jobs
+  SET status = COALESCE(p_status, status),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status IN ('fetching', 'rendering', 'saving');
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Mark a held job done. Returns false if the worker no longer holds it.
+CREATE OR REPLACE FUNCTION public.complete_video_editor_render_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_final_video_url TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.video_editor_jobs
+  SET status = 'done',
+      final_video_url = p_final_video_url,
+      lease_expires_at = NULL
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status IN ('fetching', 'rendering', 'saving');
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Fail a held job and refund its credits in the same step, so a job is
+-- refunded at most once. Returns false if the worker no longer holds it.
+CREATE OR REPLACE FUNCTION public.fail_video_editor_render_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error_message TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_cost NUMERIC;
+BEGIN
+  UPDATE public.video_editor_jobs
+  SET status = 'failed',
+      error_message = LEFT(p_error_message, 500),
+      lease_expires_at = NULL
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status IN ('fetching', 'rendering', 'saving')
+  RETURNING user_id, cost_credits INTO v_user_id, v_cost;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF COALESCE(v_cost, 0) > 0 THEN
+    UPDATE public.user_subscriptions
+    SET tokens_remaining = tokens_remaining + v_cost
+    WHERE user_id = v_user_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_video_editor_render_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.renew_video_editor_render_lease(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_video_editor_render_job(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_video_editor_render_job(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_video_editor_render_job(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.renew_video_editor_render_lease(UUID, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_video_editor_render_job(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_video_editor_render_job(UUID, TEXT, TEXT) TO service_role;